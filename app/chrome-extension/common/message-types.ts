@@ -106,6 +106,8 @@ export const OFFSCREEN_MESSAGE_TYPES = {
   GIF_ADD_FRAME: 'gifAddFrame',
   GIF_FINISH: 'gifFinish',
   GIF_RESET: 'gifReset',
+  // Visual regression
+  VISUAL_DIFF_COMPARE: 'visualDiffCompare',
 } as const;
 
 // Content script message types
@@ -150,6 +152,9 @@ export const TOOL_MESSAGE_TYPES = {
   ENSURE_REF_FOR_SELECTOR: 'ensureRefForSelector',
   VERIFY_FINGERPRINT: 'verifyFingerprint',
   DISPATCH_HOVER_FOR_REF: 'dispatchHoverForRef',
+  // Frame location (child announces itself, parent reports the owning iframe's box)
+  ANNOUNCE_FRAME: 'announceFrame',
+  LOCATE_CHILD_FRAME: 'locateChildFrame',
 
   // Network requests
   NETWORK_SEND_REQUEST: 'sendPureNetworkRequest',
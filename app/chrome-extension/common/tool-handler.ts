@@ -5,8 +5,29 @@ export interface ToolResult extends CallToolResult {
   isError: boolean;
 }
 
+/**
+ * Progress update emitted by a running tool
+ */
+export interface ToolProgress {
+  /** Work done so far (monotonic) */
+  progress: number;
+  /** Total work, if known */
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Per-call context passed to tools by the caller (e.g. the BTCP client)
+ */
+export interface ToolExecutionContext {
+  /** Aborted when the caller cancels the call */
+  signal?: AbortSignal;
+  /** Report progress while the tool is running */
+  onProgress?: (progress: ToolProgress) => void;
+}
+
 export interface ToolExecutor {
-  execute(args: any): Promise<ToolResult>;
+  execute(args: any, context?: ToolExecutionContext): Promise<ToolResult>;
 }
 
 export const createErrorResponse = (
@@ -22,3 +43,13 @@ export const createErrorResponse = (
     isError: true,
   };
 };
+
+/**
+ * Error thrown by tools when their call has been cancelled
+ */
+export class ToolCancelledError extends Error {
+  constructor(message: string = 'Tool call cancelled') {
+    super(message);
+    this.name = 'ToolCancelledError';
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * BTCP Audit Log
+ *
+ * Persistent record of every tool call received from a BTCP server, including
+ * the ones that were rejected, denied or cancelled. Each entry holds the server
+ * and session, the tool, its arguments (sanitized with `output-sanitizer.ts`
+ * so tokens, cookies and passwords never reach the log), timing, the outcome
+ * and a digest of the result (SHA-256, size and a short sanitized preview).
+ *
+ * Entries live in IndexedDB and are pruned by age and count (see
+ * `BTCPAuditSettings`). The options page lists, filters and exports them as
+ * JSONL through the `btcp_audit_*` messages.
+ */
+
+import { IndexedDbClient } from '@/utils/indexeddb-client';
+import { sanitizeAndLimitOutput, sanitizeText } from '@/utils/output-sanitizer';
+import type { BTCPTextContent, BTCPToolCallResponse } from './btcp-tool-adapter';
+
+const LOG_PREFIX = '[BTCP:Audit]';
+
+const DB_NAME = 'btcp_audit';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+const SETTINGS_STORAGE_KEY = 'btcp_audit_settings';
+
+/** Sanitized arguments are cut to this size */
+const ARGS_MAX_BYTES = 4 * 1024;
+/** Sanitized result preview size */
+const RESULT_PREVIEW_MAX_BYTES = 256;
+/** Error messages are cut to this many characters */
+const ERROR_MAX_LENGTH = 500;
+/** Prune after this many writes (and on startup) */
+const PRUNE_EVERY_WRITES = 50;
+
+// ==================== Types ====================
+
+/**
+ * - `success` / `error`: the tool ran; `error` if it reported a failure
+ * - `cancelled`: withdrawn by the server or aborted on disconnect
+ * - `denied`: blocked by the permission policy or the user
+ * - `rejected`: never ran (bad signature, unknown or disabled tool)
+ */
+export type BTCPAuditStatus = 'success' | 'error' | 'cancelled' | 'denied' | 'rejected';
+
+export const BTCP_AUDIT_STATUSES: readonly BTCPAuditStatus[] = [
+  'success',
+  'error',
+  'cancelled',
+  'denied',
+  'rejected',
+];
+
+export interface BTCPAuditResultDigest {
+  /** SHA-256 (hex) of the serialized result content */
+  sha256: string;
+  bytes: number;
+  /** Content item types, e.g. ['text', 'image'] */
+  contentTypes: string[];
+  /** Sanitized start of the text content */
+  preview: string;
+}
+
+export interface BTCPAuditEntry {
+  id?: number;
+  serverId: string;
+  serverUrl: string;
+  sessionId: string | null;
+  requestId: string;
+  /** Tool name without the server's namespace */
+  toolName: string;
+  /** Name as called by the server, when it differs (namespaced) */
+  calledName?: string;
+  /** Sanitized, size-limited JSON of the arguments */
+  args: string;
+  argsRedacted: boolean;
+  argsTruncated: boolean;
+  status: BTCPAuditStatus;
+  error?: string;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+  /** Time spent waiting for a free tab or concurrency slot */
+  waitMs?: number;
+  result?: BTCPAuditResultDigest;
+}
+
+export interface BTCPAuditFilter {
+  serverId?: string;
+  /** Substring match on the tool name */
+  toolName?: string;
+  status?: BTCPAuditStatus;
+  since?: number;
+  until?: number;
+  /** Substring match on tool, arguments, error and request id */
+  text?: string;
+}
+
+export interface BTCPAuditSettings {
+  /** Entries older than this are dropped */
+  maxAgeDays: number;
+  /** Oldest entries beyond this count are dropped */
+  maxEntries: number;
+}
+
+export const DEFAULT_AUDIT_SETTINGS: BTCPAuditSettings = {
+  maxAgeDays: 30,
+  maxEntries: 5000,
+};
+
+const idb = new IndexedDbClient(DB_NAME, DB_VERSION, (db, oldVersion) => {
+  switch (oldVersion) {
+    case 0: {
+      const store = db.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('by_started', 'startedAt', { unique: false });
+      store.createIndex('by_server', 'serverId', { unique: false });
+    }
+  }
+});
+
+// ==================== Settings ====================
+
+function clampInt(value: unknown, fallback: number, min: number, max: number): number {
+  const n = typeof value === 'number' && Number.isFinite(value) ? Math.floor(value) : fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+export function normalizeAuditSettings(raw: unknown): BTCPAuditSettings {
+  const value = (raw ?? {}) as Partial<BTCPAuditSettings>;
+  return {
+    maxAgeDays: clampInt(value.maxAgeDays, DEFAULT_AUDIT_SETTINGS.maxAgeDays, 1, 365),
+    maxEntries: clampInt(value.maxEntries, DEFAULT_AUDIT_SETTINGS.maxEntries, 100, 100_000),
+  };
+}
+
+export async function loadAuditSettings(): Promise<BTCPAuditSettings> {
+  const stored = await chrome.storage.local.get([SETTINGS_STORAGE_KEY]);
+  return normalizeAuditSettings(stored[SETTINGS_STORAGE_KEY]);
+}
+
+export async function saveAuditSettings(
+  patch: Partial<BTCPAuditSettings>,
+): Promise<BTCPAuditSettings> {
+  const settings = normalizeAuditSettings({ ...(await loadAuditSettings()), ...patch });
+  await chrome.storage.local.set({ [SETTINGS_STORAGE_KEY]: settings });
+  await pruneAuditLog(settings);
+  return settings;
+}
+
+// ==================== Building Entries ====================
+
+export function sanitizeAuditArgs(args: unknown): {
+  args: string;
+  argsRedacted: boolean;
+  argsTruncated: boolean;
+} {
+  const sanitized = sanitizeAndLimitOutput(args ?? {}, { maxBytes: ARGS_MAX_BYTES });
+  return {
+    args: sanitized.text,
+    argsRedacted: sanitized.redacted,
+    argsTruncated: sanitized.truncated,
+  };
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const bytes = new TextEncoder().encode(text);
+  const hash = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(hash))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function responseText(response: BTCPToolCallResponse): string {
+  return response.content
+    .filter((item): item is BTCPTextContent => item.type === 'text')
+    .map((item) => item.text)
+    .join('\n');
+}
+
+export async function digestToolResponse(
+  response: BTCPToolCallResponse,
+): Promise<BTCPAuditResultDigest> {
+  const serialized = JSON.stringify(response.content);
+  const preview = sanitizeAndLimitOutput(responseText(response), {
+    maxBytes: RESULT_PREVIEW_MAX_BYTES,
+  }).text;
+  return {
+    sha256: await sha256Hex(serialized),
+    bytes: new TextEncoder().encode(serialized).length,
+    contentTypes: [...new Set(response.content.map((item) => item.type))],
+    preview,
+  };
+}
+
+/**
+ * Error message for a failed response (sanitized and shortened)
+ */
+export function describeResponseError(response: BTCPToolCallResponse): string | undefined {
+  if (!response.isError) return undefined;
+  const text = sanitizeText(responseText(response)).text;
+  return text.length > ERROR_MAX_LENGTH ? `${text.slice(0, ERROR_MAX_LENGTH)}...` : text;
+}
+
+// ==================== Writing ====================
+
+let writesSincePrune = 0;
+
+export async function appendAuditEntry(entry: Omit<BTCPAuditEntry, 'id'>): Promise<void> {
+  await idb.put<Omit<BTCPAuditEntry, 'id'>>(STORE, entry);
+  if (++writesSincePrune >= PRUNE_EVERY_WRITES) {
+    writesSincePrune = 0;
+    void pruneAuditLog().catch((e) => console.warn(`${LOG_PREFIX} Prune failed:`, e));
+  }
+}
+
+/**
+ * Apply the retention limits. Returns the number of entries removed.
+ */
+export async function pruneAuditLog(
+  settings?: BTCPAuditSettings,
+  now: number = Date.now(),
+): Promise<number> {
+  const { maxAgeDays, maxEntries } = settings ?? (await loadAuditSettings());
+  const cutoff = now - maxAgeDays * 24 * 60 * 60 * 1000;
+  const entries = (await idb.getAll<BTCPAuditEntry>(STORE)).sort(
+    (a, b) => b.startedAt - a.startedAt,
+  );
+
+  const expired = entries.filter((e, index) => index >= maxEntries || e.startedAt < cutoff);
+  for (const entry of expired) {
+    await idb.delete(STORE, entry.id!);
+  }
+  return expired.length;
+}
+
+export async function clearAuditLog(): Promise<void> {
+  await idb.clear(STORE);
+}
+
+// ==================== Reading ====================
+
+export function matchesAuditFilter(entry: BTCPAuditEntry, filter: BTCPAuditFilter): boolean {
+  if (filter.serverId && entry.serverId !== filter.serverId) return false;
+  if (filter.status && entry.status !== filter.status) return false;
+  if (filter.since !== undefined && entry.startedAt < filter.since) return false;
+  if (filter.until !== undefined && entry.startedAt > filter.until) return false;
+  if (filter.toolName) {
+    const tool = filter.toolName.toLowerCase();
+    if (!entry.toolName.toLowerCase().includes(tool)) return false;
+  }
+  if (filter.text) {
+    const text = filter.text.toLowerCase();
+    const haystack = [entry.toolName, entry.args, entry.error ?? '', entry.requestId]
+      .join('\n')
+      .toLowerCase();
+    if (!haystack.includes(text)) return false;
+  }
+  return true;
+}
+
+/**
+ * Matching entries, newest first
+ */
+export async function queryAuditLog(
+  filter: BTCPAuditFilter = {},
+  page: { offset?: number; limit?: number } = {},
+): Promise<{ entries: BTCPAuditEntry[]; total: number }> {
+  const matching = (await idb.getAll<BTCPAuditEntry>(STORE))
+    .filter((entry) => matchesAuditFilter(entry, filter))
+    .sort((a, b) => b.startedAt - a.startedAt || (b.id ?? 0) - (a.id ?? 0));
+  const offset = Math.max(0, page.offset ?? 0);
+  const limit = Math.max(1, page.limit ?? 100);
+  return { entries: matching.slice(offset, offset + limit), total: matching.length };
+}
+
+/**
+ * Matching entries as JSON Lines, oldest first
+ */
+export async function exportAuditLogJsonl(filter: BTCPAuditFilter = {}): Promise<string> {
+  const { entries } = await queryAuditLog(filter, { limit: Number.MAX_SAFE_INTEGER });
+  return entries
+    .reverse()
+    .map((entry) => JSON.stringify(entry))
+    .join('\n');
+}
+
+// ==================== Message Listeners ====================
+
+/**
+ * Handle audit log requests from the options page and prune on startup
+ */
+export function initAuditLogListeners(): void {
+  void pruneAuditLog().catch((e) => console.warn(`${LOG_PREFIX} Prune failed:`, e));
+
+  chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    const msgType = typeof message === 'string' ? message : message?.type;
+
+    if (msgType === 'btcp_audit_query') {
+      Promise.all([
+        queryAuditLog(message?.filter ?? {}, { offset: message?.offset, limit: message?.limit }),
+        loadAuditSettings(),
+      ])
+        .then(([result, settings]) => sendResponse({ success: true, ...result, settings }))
+        .catch((e) => sendResponse({ success: false, error: String(e) }));
+      return true;
+    }
+
+    if (msgType === 'btcp_audit_export') {
+      exportAuditLogJsonl(message?.filter ?? {})
+        .then((jsonl) => sendResponse({ success: true, jsonl }))
+        .catch((e) => sendResponse({ success: false, error: String(e) }));
+      return true;
+    }
+
+    if (msgType === 'btcp_audit_clear') {
+      clearAuditLog()
+        .then(() => sendResponse({ success: true }))
+        .catch((e) => sendResponse({ success: false, error: String(e) }));
+      return true;
+    }
+
+    if (msgType === 'btcp_audit_settings_set') {
+      saveAuditSettings(message?.settings ?? {})
+        .then((settings) => sendResponse({ success: true, settings }))
+        .catch((e) => sendResponse({ success: false, error: String(e) }));
+      return true;
+    }
+  });
+}
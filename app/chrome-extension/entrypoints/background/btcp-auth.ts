@@ -0,0 +1,384 @@
+/**
+ * BTCP Authentication and Pairing
+ *
+ * A BTCP server only gets control of the browser after it has been paired:
+ * the user reads a one-time code from the server and enters it in the popup,
+ * the extension exchanges it at `POST <server>/pair` for a per-server
+ * credential (bearer token + HMAC secret), and the credential is stored in
+ * `chrome.storage.local`.
+ *
+ * With a credential:
+ * - every outbound request carries `Authorization: Bearer <token>` plus an HMAC
+ *   signature over method, path, timestamp, nonce and body digest (for
+ *   EventSource/WebSocket handshakes, where headers cannot be set, the same
+ *   values travel as query parameters)
+ * - every inbound `tool_call` must carry a valid signature from the server;
+ *   unsigned, stale or replayed calls are rejected before any tool runs
+ */
+
+const LOG_PREFIX = '[BTCP:Auth]';
+
+const PAIRED_SERVERS_KEY = 'btcp_paired_servers';
+/** Session storage key for seen nonces, so a service worker restart cannot reopen the replay window */
+const SEEN_NONCES_KEY = 'btcp_seen_nonces';
+
+/** Maximum accepted clock skew for signed messages */
+export const SIGNATURE_MAX_SKEW_MS = 5 * 60 * 1000;
+
+/** How many recently seen nonces are remembered for replay protection */
+const NONCE_CACHE_SIZE = 1000;
+
+// ==================== Types ====================
+
+export interface BTCPServerCredential {
+  /** Normalized server URL (see normalizeServerUrl) */
+  serverUrl: string;
+  /** Server-provided identifier, if any */
+  serverId?: string;
+  /** Optional display name */
+  label?: string;
+  /** Bearer token identifying this extension to the server */
+  token: string;
+  /** Base64-encoded shared HMAC-SHA256 secret */
+  secret: string;
+  pairedAt: number;
+}
+
+/** Public view of a credential (no secrets) for UI listing */
+export type BTCPPairedServerInfo = Omit<BTCPServerCredential, 'token' | 'secret'>;
+
+export interface BTCPSignatureParts {
+  timestamp: string;
+  nonce: string;
+  signature: string;
+}
+
+export interface BTCPSignedToolCall {
+  id: string;
+  method: string;
+  params: unknown;
+  timestamp?: number | string;
+  nonce?: string;
+  signature?: string;
+}
+
+// ==================== Encoding Helpers ====================
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function base64ToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function generateNonce(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+}
+
+/**
+ * Serialize a value with sorted object keys so both sides hash identical bytes
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value ?? null);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => canonicalJson(v)).join(',')}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+}
+
+async function sha256Hex(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(data)));
+}
+
+async function hmacHex(secret: string, data: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base64ToBytes(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(data)));
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// ==================== Signing ====================
+
+/**
+ * Sign an outbound request.
+ * String to sign: `METHOD\npath\ntimestamp\nnonce\nsha256(body)`
+ */
+export async function signRequest(
+  credential: Pick<BTCPServerCredential, 'secret'>,
+  method: string,
+  path: string,
+  body: string = '',
+  now: number = Date.now(),
+): Promise<BTCPSignatureParts> {
+  const timestamp = String(now);
+  const nonce = generateNonce();
+  const payload = [method.toUpperCase(), path, timestamp, nonce, await sha256Hex(body)].join('\n');
+  return { timestamp, nonce, signature: await hmacHex(credential.secret, payload) };
+}
+
+/**
+ * Headers for a signed HTTP request
+ */
+export async function buildAuthHeaders(
+  credential: BTCPServerCredential,
+  method: string,
+  path: string,
+  body: string,
+): Promise<Record<string, string>> {
+  const parts = await signRequest(credential, method, path, body);
+  return {
+    Authorization: `Bearer ${credential.token}`,
+    'X-BTCP-Timestamp': parts.timestamp,
+    'X-BTCP-Nonce': parts.nonce,
+    'X-BTCP-Signature': parts.signature,
+  };
+}
+
+/**
+ * Query parameters for signed handshakes (EventSource/WebSocket cannot send headers)
+ */
+export async function buildAuthQuery(
+  credential: BTCPServerCredential,
+  path: string,
+): Promise<Record<string, string>> {
+  const parts = await signRequest(credential, 'GET', path);
+  return {
+    token: credential.token,
+    ts: parts.timestamp,
+    nonce: parts.nonce,
+    sig: parts.signature,
+  };
+}
+
+/**
+ * Compute the signature a server must attach to a `tool_call` event.
+ * String to sign: `tool_call\nid\ntimestamp\nnonce\nsha256(canonicalJson(params))`
+ */
+export async function computeToolCallSignature(
+  credential: Pick<BTCPServerCredential, 'secret'>,
+  call: { id: string; params: unknown },
+  timestamp: string,
+  nonce: string,
+): Promise<string> {
+  const payload = [
+    'tool_call',
+    call.id,
+    timestamp,
+    nonce,
+    await sha256Hex(canonicalJson(call.params)),
+  ].join('\n');
+  return hmacHex(credential.secret, payload);
+}
+
+// ==================== Verification ====================
+
+/** Nonce -> signed timestamp of the call that used it */
+const seenNonces = new Map<string, number>();
+let seenNoncesLoad: Promise<void> | null = null;
+
+function loadSeenNonces(): Promise<void> {
+  seenNoncesLoad ??= (async () => {
+    try {
+      const result = await chrome.storage.session.get([SEEN_NONCES_KEY]);
+      const stored = (result[SEEN_NONCES_KEY] as Record<string, number> | undefined) ?? {};
+      for (const [nonce, ts] of Object.entries(stored)) {
+        if (!seenNonces.has(nonce)) seenNonces.set(nonce, ts);
+      }
+    } catch (e) {
+      console.warn(`${LOG_PREFIX} Failed to load seen nonces:`, e);
+    }
+  })();
+  return seenNoncesLoad;
+}
+
+function reserveNonce(nonce: string, ts: number): void {
+  seenNonces.set(nonce, ts);
+  if (seenNonces.size > NONCE_CACHE_SIZE) {
+    const oldest = seenNonces.keys().next().value;
+    if (oldest !== undefined) seenNonces.delete(oldest);
+  }
+}
+
+async function persistSeenNonces(now: number): Promise<void> {
+  // Calls signed outside the skew window are rejected anyway
+  for (const [nonce, ts] of seenNonces) {
+    if (now - ts > SIGNATURE_MAX_SKEW_MS) seenNonces.delete(nonce);
+  }
+  try {
+    await chrome.storage.session.set({ [SEEN_NONCES_KEY]: Object.fromEntries(seenNonces) });
+  } catch (e) {
+    console.warn(`${LOG_PREFIX} Failed to persist seen nonces:`, e);
+  }
+}
+
+export type ToolCallVerification = { ok: true } | { ok: false; reason: string };
+
+/**
+ * Verify the signature on an inbound tool call
+ */
+export async function verifyToolCall(
+  credential: Pick<BTCPServerCredential, 'secret'> | null,
+  call: BTCPSignedToolCall,
+  now: number = Date.now(),
+): Promise<ToolCallVerification> {
+  if (!credential) return { ok: false, reason: 'server is not paired' };
+  if (!call.signature || !call.nonce || call.timestamp === undefined) {
+    return { ok: false, reason: 'tool call is not signed' };
+  }
+  if (typeof call.signature !== 'string' || typeof call.nonce !== 'string') {
+    return { ok: false, reason: 'malformed tool call signature' };
+  }
+
+  const timestamp = String(call.timestamp);
+  const ts = Number(timestamp);
+  if (!Number.isFinite(ts) || Math.abs(now - ts) > SIGNATURE_MAX_SKEW_MS) {
+    return { ok: false, reason: 'tool call signature expired' };
+  }
+  await loadSeenNonces();
+  if (seenNonces.has(call.nonce)) {
+    return { ok: false, reason: 'tool call nonce already used' };
+  }
+
+  // Reserve before the async check so a concurrent replay of the same call is rejected
+  const { nonce, signature } = call;
+  reserveNonce(nonce, ts);
+  const expected = await computeToolCallSignature(credential, call, timestamp, nonce);
+  if (!constantTimeEqual(expected, signature.toLowerCase())) {
+    seenNonces.delete(nonce);
+    return { ok: false, reason: 'invalid tool call signature' };
+  }
+
+  await persistSeenNonces(now);
+  return { ok: true };
+}
+
+// ==================== Credential Store ====================
+
+/**
+ * Normalize a server URL for use as a credential key (origin + path, no trailing slash)
+ */
+export function normalizeServerUrl(serverUrl: string): string {
+  const url = new URL(serverUrl.trim());
+  return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+async function readCredentials(): Promise<Record<string, BTCPServerCredential>> {
+  const result = await chrome.storage.local.get([PAIRED_SERVERS_KEY]);
+  return (result[PAIRED_SERVERS_KEY] as Record<string, BTCPServerCredential>) || {};
+}
+
+async function writeCredentials(map: Record<string, BTCPServerCredential>): Promise<void> {
+  await chrome.storage.local.set({ [PAIRED_SERVERS_KEY]: map });
+}
+
+export async function getServerCredential(serverUrl: string): Promise<BTCPServerCredential | null> {
+  const map = await readCredentials();
+  return map[normalizeServerUrl(serverUrl)] || null;
+}
+
+export async function listPairedServers(): Promise<BTCPPairedServerInfo[]> {
+  const map = await readCredentials();
+  return Object.values(map)
+    .map(({ token: _token, secret: _secret, ...info }) => info)
+    .sort((a, b) => b.pairedAt - a.pairedAt);
+}
+
+/**
+ * Exchange a one-time pairing code for a per-server credential
+ */
+export async function pairWithServer(
+  serverUrl: string,
+  code: string,
+  label?: string,
+): Promise<BTCPPairedServerInfo> {
+  const normalized = normalizeServerUrl(serverUrl);
+  const trimmedCode = code.trim();
+  if (!trimmedCode) throw new Error('Pairing code required');
+
+  const res = await fetch(`${normalized}/pair`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      code: trimmedCode,
+      client: { name: 'btcp-chrome', extensionId: chrome.runtime.id },
+    }),
+  });
+  if (!res.ok) {
+    throw new Error(`Pairing failed: HTTP ${res.status} ${res.statusText}`);
+  }
+
+  const data = (await res.json()) as { token?: string; secret?: string; serverId?: string };
+  if (!data?.token || !data?.secret) {
+    throw new Error('Pairing failed: server did not return a credential');
+  }
+
+  const credential: BTCPServerCredential = {
+    serverUrl: normalized,
+    serverId: data.serverId,
+    label: label?.trim() || undefined,
+    token: data.token,
+    secret: data.secret,
+    pairedAt: Date.now(),
+  };
+
+  const map = await readCredentials();
+  map[normalized] = credential;
+  await writeCredentials(map);
+
+  const { token: _token, secret: _secret, ...info } = credential;
+  return info;
+}
+
+/**
+ * Forget a server's credential. The server is notified best-effort.
+ */
+export async function revokeServer(serverUrl: string): Promise<boolean> {
+  const normalized = normalizeServerUrl(serverUrl);
+  const map = await readCredentials();
+  const credential = map[normalized];
+  if (!credential) return false;
+
+  delete map[normalized];
+  await writeCredentials(map);
+
+  try {
+    const body = JSON.stringify({ token: credential.token });
+    await fetch(`${normalized}/pair/revoke`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await buildAuthHeaders(credential, 'POST', '/pair/revoke', body)),
+      },
+      body,
+    });
+  } catch (error) {
+    console.warn(`${LOG_PREFIX} Failed to notify server of revocation:`, error);
+  }
+  return true;
+}
@@ -1,82 +1,52 @@
 /**
  * BTCP Client Integration
  *
- * Manages the connection to the BTCP server and handles tool registration.
- * This module replaces the native messaging approach with HTTP streaming (SSE).
+ * Manages the connections to BTCP servers and handles tool registration.
+ * This module replaces the native messaging approach with HTTP streaming (SSE)
+ * or a WebSocket, selected per connection (see `btcp-transport.ts`).
  *
  * The Chrome extension becomes a tool provider that:
- * 1. Connects to the BTCP server via SSE
- * 2. Registers available tools with the server
- * 3. Receives tool call requests via SSE events
- * 4. Executes tools using existing implementations
- * 5. Returns results via HTTP POST
+ * 1. Connects to one or more BTCP servers (see `btcp-servers.ts` for the saved
+ *    server list and `btcp-connection.ts` for a single connection)
+ * 2. Registers the enabled tools with each server, limited to the server's
+ *    tool subset and renamed into its namespace, and keeps the registrations
+ *    in sync as tools are toggled (see `btcp-tool-registry.ts`)
+ * 3. Receives tool call requests as `tool_call` events
+ * 4. Executes tools using existing implementations, serialized per target tab
+ *    across all servers (see `btcp-scheduler.ts`)
+ * 5. Returns results over the same transport, streaming `tool_progress`
+ *    notifications while tools run and aborting them on `tool_cancel`
  */
 
-import { BTCP_TOOL_DEFINITIONS } from './btcp-tool-definitions';
-import { getBTCPToolAdapter, type BTCPToolCallResponse } from './btcp-tool-adapter';
-import { STORAGE_KEYS } from '@/common/constants';
-import { acquireKeepalive } from './keepalive-manager';
+import { getBTCPToolAdapter } from './btcp-tool-adapter';
+import { getToolCallScheduler } from './btcp-scheduler';
+import { listPairedServers, normalizeServerUrl, pairWithServer, revokeServer } from './btcp-auth';
+import { normalizeTransportKind, type BTCPTransportKind } from './btcp-transport';
+import { onToolSetChanged } from './btcp-tool-registry';
+import {
+  createBTCPConnection,
+  type BTCPConnection,
+  type BTCPConnectionConfig,
+  type BTCPConnectionStatus,
+} from './btcp-connection';
+import {
+  findServerConfig,
+  loadServerConfigs,
+  removeServerConfig,
+  updateServerConfig,
+  upsertServerConfig,
+  type BTCPServerConfig,
+  type BTCPServerConfigChanges,
+} from './btcp-servers';
+
+export type { BTCPConnectionConfig, BTCPConnectionStatus } from './btcp-connection';
 
 const LOG_PREFIX = '[BTCP]';
 
-// ==================== Configuration ====================
-
-export interface BTCPConnectionConfig {
-  /** BTCP server URL */
-  serverUrl: string;
-  /** Optional session ID for reconnection */
-  sessionId?: string;
-  /** Enable auto-reconnect on disconnect (default: true) */
-  autoReconnect?: boolean;
-  /** Reconnect delay in milliseconds (default: 1000) */
-  reconnectDelay?: number;
-  /** Maximum reconnect attempts (default: 10) */
-  maxReconnectAttempts?: number;
-  /** Connection timeout in milliseconds (default: 30000) */
-  connectionTimeout?: number;
-  /** Enable debug logging (default: false) */
-  debug?: boolean;
-}
-
-// Default configuration values
-const DEFAULT_CONFIG: Required<Omit<BTCPConnectionConfig, 'serverUrl' | 'sessionId'>> = {
-  autoReconnect: true,
-  reconnectDelay: 1000,
-  maxReconnectAttempts: 10,
-  connectionTimeout: 30000,
-  debug: false,
-};
-
-// Storage keys for BTCP settings
-const BTCP_STORAGE_KEYS = {
-  SERVER_URL: 'btcp_server_url',
-  SESSION_ID: 'btcp_session_id',
-  AUTO_CONNECT: 'btcp_auto_connect',
-} as const;
-
 // ==================== Client State ====================
 
-interface ClientState {
-  isConnected: boolean;
-  sessionId: string | null;
-  clientId: string | null;
-  eventSource: EventSource | null;
-  config: BTCPConnectionConfig | null;
-  reconnectAttempts: number;
-  reconnectTimer: ReturnType<typeof setTimeout> | null;
-  keepaliveRelease: (() => void) | null;
-}
-
-const state: ClientState = {
-  isConnected: false,
-  sessionId: null,
-  clientId: null,
-  eventSource: null,
-  config: null,
-  reconnectAttempts: 0,
-  reconnectTimer: null,
-  keepaliveRelease: null,
-};
+/** Live connections by server id */
+const connections = new Map<string, BTCPConnection>();
 
 // ==================== Event Callbacks ====================
 
@@ -86,14 +56,17 @@ const eventCallbacks: Record<string, EventCallback[]> = {
   disconnected: [],
   error: [],
   toolCall: [],
+  toolCallRejected: [],
+  toolCallDenied: [],
   registered: [],
 };
 
-function emit(event: string, ...args: any[]): void {
+/** Payloads carry the `serverId` and `serverUrl` of the connection */
+function emit(event: string, payload?: Record<string, unknown>): void {
   const callbacks = eventCallbacks[event] || [];
   callbacks.forEach((cb) => {
     try {
-      cb(...args);
+      cb(payload);
     } catch (e) {
       console.error(`${LOG_PREFIX} Error in ${event} callback:`, e);
     }
@@ -102,346 +75,115 @@ function emit(event: string, ...args: any[]): void {
 
 // ==================== Utility Functions ====================
 
-function log(message: string, ...args: any[]): void {
-  if (state.config?.debug) {
-    console.log(`${LOG_PREFIX} ${message}`, ...args);
-  }
-}
-
 function warn(message: string, ...args: any[]): void {
   console.warn(`${LOG_PREFIX} ${message}`, ...args);
 }
 
-function generateClientId(): string {
-  return `chrome-ext-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-}
-
-// ==================== Keepalive Management ====================
-
-function acquireKeepaliveHold(): void {
-  if (!state.keepaliveRelease) {
-    state.keepaliveRelease = acquireKeepalive('btcp-client');
-    log('Acquired keepalive');
-  }
-}
-
-function releaseKeepaliveHold(): void {
-  if (state.keepaliveRelease) {
-    try {
-      state.keepaliveRelease();
-      log('Released keepalive');
-    } catch {
-      // Ignore
-    }
-    state.keepaliveRelease = null;
-  }
-}
-
-// ==================== SSE Connection ====================
-
-function clearReconnectTimer(): void {
-  if (state.reconnectTimer) {
-    clearTimeout(state.reconnectTimer);
-    state.reconnectTimer = null;
-  }
-}
-
-function scheduleReconnect(reason: string): void {
-  if (!state.config?.autoReconnect) return;
-  if (state.reconnectTimer) return;
-  if (
-    state.reconnectAttempts >=
-    (state.config?.maxReconnectAttempts ?? DEFAULT_CONFIG.maxReconnectAttempts)
-  ) {
-    warn(`Max reconnect attempts reached (${state.reconnectAttempts}), giving up`);
-    releaseKeepaliveHold();
-    return;
-  }
-
-  const delay =
-    (state.config?.reconnectDelay ?? DEFAULT_CONFIG.reconnectDelay) *
-    Math.pow(2, state.reconnectAttempts);
-  log(
-    `Scheduling reconnect in ${delay}ms (attempt ${state.reconnectAttempts + 1}, reason: ${reason})`,
-  );
-
-  state.reconnectTimer = setTimeout(() => {
-    state.reconnectTimer = null;
-    state.reconnectAttempts++;
-    void connectToServer().catch((e) => {
-      warn('Reconnect failed:', e);
-    });
-  }, delay);
-}
-
-async function sendToolCallResponse(
-  requestId: string,
-  response: BTCPToolCallResponse,
-): Promise<void> {
-  if (!state.config?.serverUrl || !state.clientId) {
-    throw new Error('Not connected to BTCP server');
-  }
-
-  const url = `${state.config.serverUrl}/tools/response`;
-
-  try {
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Client-ID': state.clientId,
-        ...(state.sessionId && { 'X-Session-ID': state.sessionId }),
-      },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        id: requestId,
-        result: response,
-      }),
-    });
-
-    if (!res.ok) {
-      throw new Error(`HTTP ${res.status}: ${res.statusText}`);
-    }
-
-    log(`Tool response sent for request ${requestId}`);
-  } catch (error) {
-    warn(`Failed to send tool response:`, error);
-    throw error;
+function getConnection(server: BTCPServerConfig): BTCPConnection {
+  let connection = connections.get(server.id);
+  if (!connection) {
+    connection = createBTCPConnection(server, emit);
+    connections.set(server.id, connection);
+  } else {
+    connection.updateServer(server);
   }
+  return connection;
 }
 
-async function handleToolCall(data: {
-  id: string;
-  method: string;
-  params: { name: string; arguments: Record<string, unknown> };
-}): Promise<void> {
-  const { id: requestId, params } = data;
-  const { name: toolName, arguments: toolArgs } = params;
-
-  log(`Received tool call: ${toolName} (request: ${requestId})`);
-  emit('toolCall', { requestId, toolName, toolArgs });
-
-  try {
-    const adapter = getBTCPToolAdapter();
-    const response = await adapter.execute(toolName, toolArgs || {});
-    await sendToolCallResponse(requestId, response);
-  } catch (error) {
-    warn(`Tool call failed:`, error);
-    await sendToolCallResponse(requestId, {
-      content: [
-        { type: 'text', text: `Error: ${error instanceof Error ? error.message : String(error)}` },
-      ],
-      isError: true,
-    });
-  }
+/** The connection legacy single-server callers see: the first connected one */
+function primaryConnection(): BTCPConnection | undefined {
+  const all = Array.from(connections.values());
+  return all.find((c) => c.isConnected()) ?? all[0];
 }
 
-function setupEventSource(): void {
-  if (!state.config?.serverUrl || !state.clientId) {
-    throw new Error('Configuration not set');
-  }
-
-  const url = new URL(`${state.config.serverUrl}/events`);
-  url.searchParams.set('clientId', state.clientId);
-  if (state.sessionId) {
-    url.searchParams.set('sessionId', state.sessionId);
+async function connectSavedServers(reason: string): Promise<void> {
+  const servers = await loadServerConfigs();
+  for (const server of servers) {
+    if (!server.autoConnect || connections.get(server.id)?.isConnected()) continue;
+    console.log(`${LOG_PREFIX} ${reason}: connecting to ${server.label || server.serverUrl}`);
+    void getConnection(server)
+      .connect({ debug: true })
+      .catch((e) => {
+        warn(`${reason} failed for ${server.serverUrl}:`, e);
+      });
   }
-
-  log(`Connecting to SSE: ${url.toString()}`);
-
-  const eventSource = new EventSource(url.toString());
-  state.eventSource = eventSource;
-
-  eventSource.onopen = () => {
-    log('SSE connection opened');
-    state.isConnected = true;
-    state.reconnectAttempts = 0;
-    clearReconnectTimer();
-    emit('connected');
-
-    // Register tools after connection
-    void registerTools().catch((e) => {
-      warn('Failed to register tools:', e);
-    });
-  };
-
-  eventSource.onerror = (event) => {
-    warn('SSE connection error:', event);
-    state.isConnected = false;
-    emit('error', event);
-
-    // Close and schedule reconnect
-    if (eventSource.readyState === EventSource.CLOSED) {
-      state.eventSource = null;
-      emit('disconnected');
-      scheduleReconnect('sse_error');
-    }
-  };
-
-  // Handle tool call messages
-  eventSource.addEventListener('tool_call', (event) => {
-    try {
-      const data = JSON.parse(event.data);
-      void handleToolCall(data);
-    } catch (e) {
-      warn('Failed to parse tool_call event:', e);
-    }
-  });
-
-  // Handle session assignment
-  eventSource.addEventListener('session', (event) => {
-    try {
-      const data = JSON.parse(event.data);
-      if (data.sessionId) {
-        state.sessionId = data.sessionId;
-        log(`Session assigned: ${data.sessionId}`);
-        // Persist session ID for reconnection
-        void chrome.storage.local
-          .set({ [BTCP_STORAGE_KEYS.SESSION_ID]: data.sessionId })
-          .catch(() => {});
-      }
-    } catch (e) {
-      warn('Failed to parse session event:', e);
-    }
-  });
-
-  // Handle ping/pong for keepalive
-  eventSource.addEventListener('ping', () => {
-    log('Received ping');
-  });
 }
 
 // ==================== Public API ====================
 
 /**
- * Initialize and connect to the BTCP server
+ * Connect to a BTCP server, saving it to the server list (matched by id, else
+ * by URL). Other connected servers stay connected.
  */
-export async function initializeBTCPClient(config: BTCPConnectionConfig): Promise<void> {
-  if (state.isConnected) {
-    log('Already connected, disconnecting first');
-    await disconnectBTCPClient();
-  }
-
-  state.config = { ...DEFAULT_CONFIG, ...config };
-  state.clientId = generateClientId();
-
-  // Try to restore session ID from storage
-  try {
-    const stored = await chrome.storage.local.get([BTCP_STORAGE_KEYS.SESSION_ID]);
-    if (stored[BTCP_STORAGE_KEYS.SESSION_ID]) {
-      state.sessionId = stored[BTCP_STORAGE_KEYS.SESSION_ID];
-      log(`Restored session ID: ${state.sessionId}`);
-    }
-  } catch {
-    // Ignore
-  }
-
-  // Override with config session ID if provided
-  if (config.sessionId) {
-    state.sessionId = config.sessionId;
-  }
-
-  await connectToServer();
+export async function initializeBTCPClient(
+  config: BTCPConnectionConfig &
+    Pick<BTCPServerConfigChanges, 'label' | 'toolNamespace' | 'enabledTools'> & {
+      serverId?: string;
+    },
+): Promise<BTCPServerConfig> {
+  const { serverId, label, toolNamespace, enabledTools, ...options } = config;
+  const server = await upsertServerConfig({
+    serverId,
+    serverUrl: config.serverUrl,
+    transport: config.transport,
+    autoConnect: config.autoReconnect !== false,
+    label,
+    enabledTools,
+    ...(toolNamespace !== undefined ? { toolNamespace } : {}),
+  });
+  await getConnection(server).connect(options);
+  return server;
 }
 
 /**
- * Connect to the BTCP server
+ * Disconnect one server, or all of them when no id is given
  */
-async function connectToServer(): Promise<void> {
-  if (!state.config) {
-    throw new Error('BTCP client not initialized');
-  }
-
-  acquireKeepaliveHold();
-
-  try {
-    setupEventSource();
-  } catch (error) {
-    releaseKeepaliveHold();
-    throw error;
-  }
+export async function disconnectBTCPClient(serverId?: string): Promise<void> {
+  const targets =
+    serverId === undefined
+      ? Array.from(connections.values())
+      : [connections.get(serverId)].filter((c): c is BTCPConnection => !!c);
+  await Promise.all(targets.map((c) => c.disconnect()));
 }
 
 /**
- * Register tools with the BTCP server
+ * Check if the client is connected to the given server, or to any server
  */
-async function registerTools(): Promise<void> {
-  if (!state.config?.serverUrl || !state.clientId) {
-    throw new Error('Not connected to BTCP server');
-  }
-
-  const url = `${state.config.serverUrl}/tools/register`;
-
-  try {
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Client-ID': state.clientId,
-        ...(state.sessionId && { 'X-Session-ID': state.sessionId }),
-      },
-      body: JSON.stringify({
-        jsonrpc: '2.0',
-        id: `register-${Date.now()}`,
-        method: 'tools/register',
-        params: {
-          tools: BTCP_TOOL_DEFINITIONS,
-        },
-      }),
-    });
-
-    if (!res.ok) {
-      throw new Error(`HTTP ${res.status}: ${res.statusText}`);
-    }
-
-    const result = await res.json();
-    log(`Registered ${BTCP_TOOL_DEFINITIONS.length} tools:`, result);
-    emit('registered', { toolCount: BTCP_TOOL_DEFINITIONS.length });
-  } catch (error) {
-    warn(`Failed to register tools:`, error);
-    throw error;
-  }
+export function isConnected(serverId?: string): boolean {
+  if (serverId !== undefined) return connections.get(serverId)?.isConnected() ?? false;
+  return Array.from(connections.values()).some((c) => c.isConnected());
 }
 
 /**
- * Disconnect from the BTCP server
+ * Get the session ID of the given server (default: the first connected one)
  */
-export async function disconnectBTCPClient(): Promise<void> {
-  clearReconnectTimer();
-  state.reconnectAttempts = 0;
-
-  if (state.eventSource) {
-    state.eventSource.close();
-    state.eventSource = null;
-  }
-
-  state.isConnected = false;
-  state.clientId = null;
-  releaseKeepaliveHold();
-
-  emit('disconnected');
-  log('Disconnected from BTCP server');
+export function getSessionId(serverId?: string): string | null {
+  const connection = serverId ? connections.get(serverId) : primaryConnection();
+  return connection?.getSessionId() ?? null;
 }
 
 /**
- * Check if the client is connected
+ * Get the client ID of the given server (default: the first connected one)
  */
-export function isConnected(): boolean {
-  return state.isConnected;
+export function getClientId(serverId?: string): string | null {
+  const connection = serverId ? connections.get(serverId) : primaryConnection();
+  return connection?.getClientId() ?? null;
 }
 
 /**
- * Get the current session ID
+ * Get the transport in use for the given server (default: the first connected one)
  */
-export function getSessionId(): string | null {
-  return state.sessionId;
+export function getTransportKind(serverId?: string): BTCPTransportKind {
+  const connection = serverId ? connections.get(serverId) : primaryConnection();
+  return connection?.getTransportKind() ?? 'sse';
 }
 
 /**
- * Get the current client ID
+ * Status of every saved server, connected or not
  */
-export function getClientId(): string | null {
-  return state.clientId;
+export async function listConnectionStatuses(): Promise<BTCPConnectionStatus[]> {
+  const servers = await loadServerConfigs();
+  return Promise.all(servers.map((server) => getConnection(server).status()));
 }
 
 /**
@@ -466,32 +208,27 @@ export function off(event: string, callback: EventCallback): void {
 
 /**
  * Initialize BTCP client message listeners
- * Handles messages from popup/options UI for connection management
+ * Handles messages from popup/options UI for connection management.
+ * Messages may target a server by `serverId` (or `serverUrl`); without one,
+ * `btcp_disconnect` applies to all servers.
  */
 export function initBTCPClientListener(): void {
-  // Load saved config and auto-connect if enabled
-  chrome.storage.local
-    .get([BTCP_STORAGE_KEYS.SERVER_URL, BTCP_STORAGE_KEYS.AUTO_CONNECT])
-    .then((result) => {
-      const serverUrl = result[BTCP_STORAGE_KEYS.SERVER_URL] as string | undefined;
-      const autoConnect = result[BTCP_STORAGE_KEYS.AUTO_CONNECT] !== false; // Default to true
-
-      if (serverUrl && autoConnect) {
-        log(`Auto-connecting to saved server: ${serverUrl}`);
-        void initializeBTCPClient({
-          serverUrl,
-          autoReconnect: true,
-          debug: true,
-        }).catch((e) => {
-          warn('Auto-connect failed:', e);
-        });
-      }
-    });
+  // Re-register when tools are toggled or published flows change
+  onToolSetChanged(() => {
+    for (const connection of connections.values()) {
+      void connection.syncTools();
+    }
+  });
+
+  // Load saved servers and auto-connect those that have it enabled
+  void connectSavedServers('Auto-connect').catch((e) => {
+    warn('Auto-connect failed:', e);
+  });
 
   chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     const msgType = typeof message === 'string' ? message : message?.type;
 
-    // Connect to BTCP server
+    // Connect to a BTCP server (added to the server list if new)
     if (msgType === 'btcp_connect') {
       const serverUrl = message?.serverUrl as string;
       if (!serverUrl) {
@@ -499,31 +236,38 @@ export function initBTCPClientListener(): void {
         return true;
       }
 
-      // Save config
-      void chrome.storage.local.set({
-        [BTCP_STORAGE_KEYS.SERVER_URL]: serverUrl,
-        [BTCP_STORAGE_KEYS.AUTO_CONNECT]: true,
-      });
-
       initializeBTCPClient({
+        serverId: message?.serverId,
         serverUrl,
-        autoReconnect: true,
+        transport: normalizeTransportKind(message?.transport),
+        autoReconnect: message?.config?.autoReconnect !== false,
+        label: message?.label,
+        toolNamespace: message?.toolNamespace,
+        enabledTools: message?.enabledTools,
         debug: true,
       })
-        .then(() => {
-          sendResponse({ success: true, connected: true });
+        .then((server) => {
+          sendResponse({ success: true, connected: true, serverId: server.id });
         })
         .catch((e) => {
-          sendResponse({ success: false, error: String(e) });
+          sendResponse({ success: false, error: e instanceof Error ? e.message : String(e) });
         });
       return true;
     }
 
-    // Disconnect from BTCP server
+    // Disconnect from one BTCP server, or from all of them
     if (msgType === 'btcp_disconnect') {
-      void chrome.storage.local.set({ [BTCP_STORAGE_KEYS.AUTO_CONNECT]: false });
-
-      disconnectBTCPClient()
+      (async () => {
+        const servers = await loadServerConfigs();
+        const targets =
+          message?.serverId || message?.serverUrl
+            ? [findServerConfig(servers, message)].filter((s): s is BTCPServerConfig => !!s)
+            : servers;
+        for (const server of targets) {
+          await updateServerConfig(server.id, { autoConnect: false });
+          await disconnectBTCPClient(server.id);
+        }
+      })()
         .then(() => {
           sendResponse({ success: true });
         })
@@ -533,14 +277,106 @@ export function initBTCPClientListener(): void {
       return true;
     }
 
-    // Get BTCP connection status
+    // Get BTCP connection status: per server, plus the first connected
+    // server's fields at the top level for single-server callers
     if (msgType === 'btcp_status') {
-      sendResponse({
-        success: true,
-        connected: state.isConnected,
-        sessionId: state.sessionId,
-        clientId: state.clientId,
-      });
+      listConnectionStatuses()
+        .then((servers) => {
+          const primary = servers.find((s) => s.connected) ?? servers[0];
+          sendResponse({
+            success: true,
+            connected: servers.some((s) => s.connected),
+            sessionId: primary?.sessionId ?? null,
+            clientId: primary?.clientId ?? null,
+            transport: primary?.transport ?? null,
+            pendingResponses: servers.reduce((sum, s) => sum + s.pendingResponses, 0),
+            toolCalls: getToolCallScheduler().stats(),
+            servers,
+          });
+        })
+        .catch((e) => sendResponse({ success: false, error: String(e) }));
+      return true;
+    }
+
+    // Edit a saved server (label, namespace, tool subset, transport, auto-connect)
+    if (msgType === 'btcp_server_update') {
+      const serverId = message?.serverId as string;
+      if (!serverId) {
+        sendResponse({ success: false, error: 'Server ID required' });
+        return true;
+      }
+      const changes: BTCPServerConfigChanges = { ...message?.changes };
+      updateServerConfig(serverId, changes)
+        .then((server) => {
+          connections.get(serverId)?.updateServer(server);
+          sendResponse({ success: true, server });
+        })
+        .catch((e) =>
+          sendResponse({ success: false, error: e instanceof Error ? e.message : String(e) }),
+        );
+      return true;
+    }
+
+    // Forget a saved server and drop its connection
+    if (msgType === 'btcp_server_remove') {
+      const serverId = message?.serverId as string;
+      if (!serverId) {
+        sendResponse({ success: false, error: 'Server ID required' });
+        return true;
+      }
+      (async () => {
+        await disconnectBTCPClient(serverId);
+        connections.delete(serverId);
+        return removeServerConfig(serverId);
+      })()
+        .then((removed) => sendResponse({ success: true, removed }))
+        .catch((e) => sendResponse({ success: false, error: String(e) }));
+      return true;
+    }
+
+    // Pair with a server using a one-time code shown by the server
+    if (msgType === 'btcp_pair') {
+      const serverUrl = message?.serverUrl as string;
+      const code = message?.code as string;
+      if (!serverUrl || !code) {
+        sendResponse({ success: false, error: 'Server URL and pairing code required' });
+        return true;
+      }
+      pairWithServer(serverUrl, code, message?.label)
+        .then((server) => sendResponse({ success: true, server }))
+        .catch((e) =>
+          sendResponse({ success: false, error: e instanceof Error ? e.message : String(e) }),
+        );
+      return true;
+    }
+
+    // List paired servers (without secrets)
+    if (msgType === 'btcp_list_paired') {
+      listPairedServers()
+        .then((servers) => sendResponse({ success: true, servers }))
+        .catch((e) => sendResponse({ success: false, error: String(e) }));
+      return true;
+    }
+
+    // Revoke a paired server; drop its connection
+    if (msgType === 'btcp_revoke') {
+      const serverUrl = message?.serverUrl as string;
+      if (!serverUrl) {
+        sendResponse({ success: false, error: 'Server URL required' });
+        return true;
+      }
+      (async () => {
+        const revoked = await revokeServer(serverUrl);
+        const url = normalizeServerUrl(serverUrl);
+        for (const server of await loadServerConfigs()) {
+          if (normalizeServerUrl(server.serverUrl) !== url) continue;
+          await updateServerConfig(server.id, { autoConnect: false });
+          await disconnectBTCPClient(server.id);
+        }
+        return revoked;
+      })()
+        .then((revoked) => sendResponse({ success: true, revoked }))
+        .catch((e) => sendResponse({ success: false, error: String(e) }));
       return true;
     }
 
@@ -559,22 +395,8 @@ export function initBTCPClientListener(): void {
 
   // Auto-connect on Chrome browser startup
   chrome.runtime.onStartup.addListener(() => {
-    chrome.storage.local
-      .get([BTCP_STORAGE_KEYS.SERVER_URL, BTCP_STORAGE_KEYS.AUTO_CONNECT])
-      .then((result) => {
-        const serverUrl = result[BTCP_STORAGE_KEYS.SERVER_URL] as string | undefined;
-        const autoConnect = result[BTCP_STORAGE_KEYS.AUTO_CONNECT] !== false;
-
-        if (serverUrl && autoConnect && !state.isConnected) {
-          log('onStartup: Auto-connecting');
-          void initializeBTCPClient({
-            serverUrl,
-            autoReconnect: true,
-            debug: true,
-          }).catch((e) => {
-            warn('onStartup auto-connect failed:', e);
-          });
-        }
-      });
+    void connectSavedServers('onStartup').catch((e) => {
+      warn('onStartup auto-connect failed:', e);
+    });
   });
 }
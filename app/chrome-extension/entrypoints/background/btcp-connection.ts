@@ -0,0 +1,1081 @@
+/**
+ * BTCP Connection
+ *
+ * One live connection to one BTCP server. Each connection owns its own
+ * transport, session, reconnect timer, keepalive hold, response outbox flush
+ * and registered tool set, so several servers can be connected side by side
+ * (see `btcp-client.ts`, which manages the instances).
+ *
+ * The tool call pipeline per connection:
+ * 1. Verify the call is signed by the paired server (`btcp-auth.ts`)
+ * 2. Strip the server's tool namespace and check the tool is offered to it
+ * 3. Apply the permission policy (`btcp-permissions.ts`)
+ * 4. Run it on the shared scheduler, serialized per target tab
+ *    (`btcp-scheduler.ts`), streaming `tool_progress` notifications
+ * 5. Persist the response in the outbox and deliver it (`btcp-outbox.ts`)
+ *
+ * Every call, including rejected and denied ones, is recorded in the audit log
+ * (`btcp-audit.ts`).
+ */
+
+import type { BTCPToolDefinition } from './btcp-tool-definitions';
+import { getBTCPToolAdapter, type BTCPToolCallResponse } from './btcp-tool-adapter';
+import type { ToolProgress } from '@/common/tool-handler';
+import { acquireKeepalive } from './keepalive-manager';
+import { createBTCPTransport, type BTCPTransport, type BTCPTransportKind } from './btcp-transport';
+import {
+  enqueueResponse,
+  listOutbox,
+  markDelivered,
+  markFailed,
+  markSent,
+  purgeExpiredOutbox,
+} from './btcp-outbox';
+import {
+  getServerCredential,
+  verifyToolCall,
+  type BTCPServerCredential,
+  type BTCPSignedToolCall,
+} from './btcp-auth';
+import {
+  authorizeToolCall,
+  buildPermissionDeniedResponse,
+  cancelPendingApprovals,
+} from './btcp-permissions';
+import {
+  DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
+  ToolCallCancelledError,
+  getToolCallScheduler,
+  resolveToolCallLane,
+  type ToolCallTiming,
+} from './btcp-scheduler';
+import {
+  diffToolDefinitions,
+  getEnabledToolDefinitions,
+  isEmptyToolSetDiff,
+  isToolNameEnabled,
+} from './btcp-tool-registry';
+import {
+  buildServerToolDefinitions,
+  isToolOfferedToServer,
+  loadSessionId,
+  saveSessionId,
+  stripToolNamespace,
+  type BTCPServerConfig,
+} from './btcp-servers';
+import {
+  appendAuditEntry,
+  describeResponseError,
+  digestToolResponse,
+  sanitizeAuditArgs,
+  type BTCPAuditStatus,
+} from './btcp-audit';
+
+const LOG_PREFIX = '[BTCP]';
+
+// ==================== Configuration ====================
+
+export interface BTCPConnectionConfig {
+  /** BTCP server URL */
+  serverUrl: string;
+  /** Optional session ID for reconnection */
+  sessionId?: string;
+  /** Enable auto-reconnect on disconnect (default: true) */
+  autoReconnect?: boolean;
+  /** Reconnect delay in milliseconds (default: 1000) */
+  reconnectDelay?: number;
+  /** Maximum reconnect attempts (default: 10) */
+  maxReconnectAttempts?: number;
+  /** Connection timeout in milliseconds (default: 30000) */
+  connectionTimeout?: number;
+  /** Enable debug logging (default: false) */
+  debug?: boolean;
+  /** Wire transport (default: 'sse') */
+  transport?: BTCPTransportKind;
+  /** Fall back to SSE when the WebSocket cannot be opened (default: true) */
+  transportFallback?: boolean;
+  /** Tool calls allowed to run at the same time across all tabs (default: 4) */
+  maxConcurrentToolCalls?: number;
+}
+
+// Default configuration values
+const DEFAULT_CONFIG: Required<Omit<BTCPConnectionConfig, 'serverUrl' | 'sessionId'>> = {
+  transport: 'sse',
+  transportFallback: true,
+  maxConcurrentToolCalls: DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
+  autoReconnect: true,
+  reconnectDelay: 1000,
+  maxReconnectAttempts: 10,
+  connectionTimeout: 30000,
+  debug: false,
+};
+
+// ==================== Types ====================
+
+export type BTCPConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface BTCPConnectionStatus {
+  serverId: string;
+  serverUrl: string;
+  label?: string;
+  toolNamespace?: string;
+  /** Tools offered to this server; null offers every enabled tool */
+  enabledTools: string[] | null;
+  autoConnect: boolean;
+  state: BTCPConnectionState;
+  connected: boolean;
+  sessionId: string | null;
+  clientId: string | null;
+  /** Transport in use; may differ from the configured one after a fallback */
+  transport: BTCPTransportKind;
+  /** Tools currently registered with the server */
+  registeredTools: number;
+  /** Responses waiting in the outbox for this server */
+  pendingResponses: number;
+  reconnectAttempts: number;
+}
+
+export type BTCPConnectionEmit = (event: string, payload?: Record<string, unknown>) => void;
+
+export interface BTCPConnection {
+  readonly id: string;
+  getServer(): BTCPServerConfig;
+  /** Apply an edited server entry; re-syncs tools if the offered set changed */
+  updateServer(server: BTCPServerConfig): void;
+  /** Connect (or reconnect with new settings); the server must be paired */
+  connect(options?: Partial<BTCPConnectionConfig>): Promise<void>;
+  disconnect(): Promise<void>;
+  isConnected(): boolean;
+  getSessionId(): string | null;
+  getClientId(): string | null;
+  getTransportKind(): BTCPTransportKind;
+  /** Bring the server's tool set up to date */
+  syncTools(): Promise<void>;
+  status(): Promise<BTCPConnectionStatus>;
+}
+
+interface ConnectionState {
+  isConnected: boolean;
+  sessionId: string | null;
+  clientId: string | null;
+  transport: BTCPTransport | null;
+  /** Transport in use; may differ from config.transport after a fallback */
+  transportKind: BTCPTransportKind;
+  config: BTCPConnectionConfig | null;
+  /** Pairing credential for the server */
+  credential: BTCPServerCredential | null;
+  reconnectAttempts: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  keepaliveRelease: (() => void) | null;
+  outboxTimer: ReturnType<typeof setTimeout> | null;
+  outboxFlush: Promise<void> | null;
+  /** Another flush was requested while one was in flight */
+  outboxFlushRequested: boolean;
+  /** Tool definitions the server currently has for this connection */
+  registeredTools: BTCPToolDefinition[] | null;
+}
+
+interface FlushOptions {
+  /** Ignore backoff and resend records already written to the transport */
+  force?: boolean;
+  /** Limit the flush to these request ids */
+  requestIds?: string[];
+}
+
+/** Minimum interval between progress notifications for one call */
+const PROGRESS_MIN_INTERVAL_MS = 250;
+
+function generateClientId(): string {
+  return `chrome-ext-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function errorResponse(code: string, message: string, extra: Record<string, unknown> = {}) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text: JSON.stringify({ error: { code, message, ...extra } }),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Check the shape of a `tool_call` frame before it is verified, audited or run
+ * @returns why the frame is malformed, or null when it is well-formed
+ */
+function describeMalformedToolCall(data: any): string | null {
+  if (!data || typeof data !== 'object') return 'tool_call frame must be an object';
+  if (typeof data.id !== 'string' || !data.id) return 'tool_call id must be a non-empty string';
+  const params = data.params;
+  if (!params || typeof params !== 'object') return 'tool_call params must be an object';
+  if (typeof params.name !== 'string' || !params.name) {
+    return 'tool_call params.name must be a non-empty string';
+  }
+  const args = params.arguments;
+  if (args !== undefined && (args === null || typeof args !== 'object' || Array.isArray(args))) {
+    return 'tool_call params.arguments must be an object';
+  }
+  return null;
+}
+
+// ==================== Factory ====================
+
+export function createBTCPConnection(
+  initialServer: BTCPServerConfig,
+  emit: BTCPConnectionEmit,
+): BTCPConnection {
+  const id = initialServer.id;
+  let server = initialServer;
+
+  const state: ConnectionState = {
+    isConnected: false,
+    sessionId: null,
+    clientId: null,
+    transport: null,
+    transportKind: initialServer.transport,
+    config: null,
+    credential: null,
+    reconnectAttempts: 0,
+    reconnectTimer: null,
+    keepaliveRelease: null,
+    outboxTimer: null,
+    outboxFlush: null,
+    outboxFlushRequested: false,
+    registeredTools: null,
+  };
+
+  const lastProgressAt = new Map<string, number>();
+  /**
+   * Calls waiting on approval or lane resolution, not yet on the scheduler.
+   * The value is the cancel reason once the server withdrew the call.
+   */
+  const pendingCalls = new Map<string, string | null>();
+  let toolSyncChain: Promise<void> = Promise.resolve();
+
+  const notify: BTCPConnectionEmit = (event, payload = {}) =>
+    emit(event, { serverId: id, serverUrl: server.serverUrl, ...payload });
+
+  // ==================== Utility Functions ====================
+
+  function log(message: string, ...args: any[]): void {
+    if (state.config?.debug) {
+      console.log(`${LOG_PREFIX} [${server.label || server.serverUrl}] ${message}`, ...args);
+    }
+  }
+
+  function warn(message: string, ...args: any[]): void {
+    console.warn(`${LOG_PREFIX} [${server.label || server.serverUrl}] ${message}`, ...args);
+  }
+
+  /** Request ids are only unique per server; the shared scheduler needs global ids */
+  function schedulerRequestId(requestId: string): string {
+    return `${id}:${requestId}`;
+  }
+
+  // ==================== Keepalive Management ====================
+
+  function acquireKeepaliveHold(): void {
+    if (!state.keepaliveRelease) {
+      state.keepaliveRelease = acquireKeepalive(`btcp-client:${id}`);
+      log('Acquired keepalive');
+    }
+  }
+
+  function releaseKeepaliveHold(): void {
+    if (state.keepaliveRelease) {
+      try {
+        state.keepaliveRelease();
+        log('Released keepalive');
+      } catch {
+        // Ignore
+      }
+      state.keepaliveRelease = null;
+    }
+  }
+
+  // ==================== Connection ====================
+
+  function clearReconnectTimer(): void {
+    if (state.reconnectTimer) {
+      clearTimeout(state.reconnectTimer);
+      state.reconnectTimer = null;
+    }
+  }
+
+  function scheduleReconnect(reason: string): void {
+    if (!state.config?.autoReconnect) return;
+    if (state.reconnectTimer) return;
+    if (
+      state.reconnectAttempts >=
+      (state.config?.maxReconnectAttempts ?? DEFAULT_CONFIG.maxReconnectAttempts)
+    ) {
+      warn(`Max reconnect attempts reached (${state.reconnectAttempts}), giving up`);
+      releaseKeepaliveHold();
+      return;
+    }
+
+    const delay =
+      (state.config?.reconnectDelay ?? DEFAULT_CONFIG.reconnectDelay) *
+      Math.pow(2, state.reconnectAttempts);
+    log(
+      `Scheduling reconnect in ${delay}ms (attempt ${state.reconnectAttempts + 1}, reason: ${reason})`,
+    );
+
+    state.reconnectTimer = setTimeout(() => {
+      state.reconnectTimer = null;
+      state.reconnectAttempts++;
+      try {
+        openTransport();
+      } catch (e) {
+        warn('Reconnect failed:', e);
+      }
+    }, delay);
+  }
+
+  async function sendToolCallResponse(
+    requestId: string,
+    response: BTCPToolCallResponse,
+  ): Promise<void> {
+    if (!state.transport || !state.clientId) {
+      throw new Error('Not connected to BTCP server');
+    }
+
+    try {
+      await state.transport.send({
+        jsonrpc: '2.0',
+        id: requestId,
+        result: response,
+      });
+
+      log(`Tool response sent for request ${requestId}`);
+    } catch (error) {
+      warn(`Failed to send tool response:`, error);
+      throw error;
+    }
+  }
+
+  // ==================== Response Outbox ====================
+
+  function clearOutboxTimer(): void {
+    if (state.outboxTimer) {
+      clearTimeout(state.outboxTimer);
+      state.outboxTimer = null;
+    }
+  }
+
+  function scheduleOutboxFlush(at: number): void {
+    clearOutboxTimer();
+    const delay = Math.max(0, at - Date.now());
+    state.outboxTimer = setTimeout(() => {
+      state.outboxTimer = null;
+      void flushOutbox();
+    }, delay);
+  }
+
+  /**
+   * Deliver queued responses for this server.
+   * Concurrent calls share the in-flight flush, which runs once more if
+   * records were queued after it listed the outbox.
+   */
+  function flushOutbox(options: FlushOptions = {}): Promise<void> {
+    if (state.outboxFlush) {
+      // A forced replay must not be dropped behind a routine flush
+      if (options.force) return state.outboxFlush.then(() => flushOutbox(options));
+      state.outboxFlushRequested = true;
+      return state.outboxFlush;
+    }
+    state.outboxFlush = (async () => {
+      let pass = options;
+      do {
+        state.outboxFlushRequested = false;
+        await doFlushOutbox(pass);
+        pass = {};
+      } while (state.outboxFlushRequested);
+    })().finally(() => {
+      state.outboxFlush = null;
+    });
+    return state.outboxFlush;
+  }
+
+  async function doFlushOutbox(options: FlushOptions): Promise<void> {
+    const transport = state.transport;
+    const serverUrl = server.serverUrl;
+    if (!transport || !transport.isOpen()) return;
+
+    const filter = options.requestIds ? new Set(options.requestIds) : null;
+    const records = await listOutbox(serverUrl);
+    let nextAttemptAt = Infinity;
+
+    for (const record of records) {
+      if (filter && !filter.has(record.requestId)) continue;
+      if (!options.force) {
+        if (record.status === 'sent') continue;
+        if (record.nextAttemptAt > Date.now()) {
+          nextAttemptAt = Math.min(nextAttemptAt, record.nextAttemptAt);
+          continue;
+        }
+      }
+      if (state.transport !== transport || !transport.isOpen()) return;
+
+      try {
+        await sendToolCallResponse(record.requestId, record.response);
+        if (transport.acknowledgesDelivery) {
+          await markDelivered(serverUrl, record.requestId);
+        } else {
+          await markSent(record);
+        }
+      } catch (error) {
+        const retryAt = await markFailed(record, error);
+        nextAttemptAt = Math.min(nextAttemptAt, retryAt);
+        // The transport is likely unhealthy; leave the rest for the retry
+        break;
+      }
+    }
+
+    if (nextAttemptAt !== Infinity) {
+      scheduleOutboxFlush(nextAttemptAt);
+    }
+  }
+
+  async function deliverToolCallResponse(
+    requestId: string,
+    toolName: string,
+    response: BTCPToolCallResponse,
+  ): Promise<void> {
+    // Persist first so the result is not lost if delivery fails or the worker restarts
+    await enqueueResponse({
+      requestId,
+      serverUrl: server.serverUrl,
+      sessionId: state.sessionId,
+      toolName,
+      response,
+    });
+    await flushOutbox();
+  }
+
+  // ==================== Progress ====================
+
+  /**
+   * Forward a tool's progress to the server as a `tool_progress` notification.
+   * Best-effort: updates are throttled per call and not persisted.
+   */
+  function sendToolProgress(requestId: string, update: ToolProgress): void {
+    const now = Date.now();
+    const isFinal = update.total !== undefined && update.progress >= update.total;
+    if (!isFinal && now - (lastProgressAt.get(requestId) ?? 0) < PROGRESS_MIN_INTERVAL_MS) return;
+    lastProgressAt.set(requestId, now);
+
+    const transport = state.transport;
+    if (!transport?.isOpen()) return;
+    void transport
+      .send({
+        jsonrpc: '2.0',
+        method: 'tool_progress',
+        params: { requestId, ...update },
+      })
+      .catch((e) => log(`Failed to send progress for request ${requestId}:`, e));
+  }
+
+  // ==================== Tool Calls ====================
+
+  /**
+   * Record the outcome of a tool call in the audit log (best-effort)
+   */
+  function auditToolCall(input: {
+    requestId: string;
+    calledName: string;
+    toolName: string | null;
+    args: unknown;
+    startedAt: number;
+    status: BTCPAuditStatus;
+    response: BTCPToolCallResponse;
+    reason?: string;
+    waitMs?: number;
+  }): void {
+    const { requestId, calledName, toolName, startedAt } = input;
+    const finishedAt = Date.now();
+    const sessionId = state.sessionId;
+    void (async () => {
+      await appendAuditEntry({
+        serverId: id,
+        serverUrl: server.serverUrl,
+        sessionId,
+        requestId,
+        toolName: toolName ?? calledName,
+        calledName: toolName !== null && toolName !== calledName ? calledName : undefined,
+        ...sanitizeAuditArgs(input.args),
+        status: input.status,
+        error: input.reason ?? describeResponseError(input.response),
+        startedAt,
+        finishedAt,
+        durationMs: finishedAt - startedAt,
+        waitMs: input.waitMs,
+        result: await digestToolResponse(input.response),
+      });
+    })().catch((e) => warn(`Failed to record audit entry for request ${requestId}:`, e));
+  }
+
+  /**
+   * Answer a malformed `tool_call` frame with an INVALID_REQUEST error.
+   * Frames without a usable id cannot be answered and are only logged.
+   */
+  async function rejectMalformedToolCall(data: any, reason: string): Promise<void> {
+    const rawId = data?.id;
+    warn(`Rejected malformed tool call (request: ${String(rawId)}): ${reason}`);
+    if ((typeof rawId !== 'string' || !rawId) && typeof rawId !== 'number') return;
+
+    const requestId = String(rawId);
+    const calledName = typeof data?.params?.name === 'string' ? data.params.name : '';
+    const response = errorResponse('INVALID_REQUEST', reason);
+    auditToolCall({
+      requestId,
+      calledName,
+      toolName: null,
+      args: data?.params?.arguments,
+      startedAt: Date.now(),
+      status: 'rejected',
+      response,
+      reason,
+    });
+    await deliverToolCallResponse(requestId, calledName, response).catch((e) =>
+      warn(`Failed to queue rejection for request ${requestId}:`, e),
+    );
+  }
+
+  async function handleToolCall(
+    data: BTCPSignedToolCall & {
+      params: { name: string; arguments: Record<string, unknown> };
+    },
+  ): Promise<void> {
+    const { id: requestId, params } = data;
+    const { name: calledName, arguments: toolArgs } = params;
+    const startedAt = Date.now();
+    const audit = (
+      toolName: string | null,
+      status: BTCPAuditStatus,
+      response: BTCPToolCallResponse,
+      extra: { reason?: string; waitMs?: number } = {},
+    ) =>
+      auditToolCall({
+        requestId,
+        calledName,
+        toolName,
+        args: toolArgs,
+        startedAt,
+        status,
+        response,
+        ...extra,
+      });
+
+    // Never run a tool the paired server did not sign
+    const verification = await verifyToolCall(state.credential, data);
+    if (!verification.ok) {
+      warn(`Rejected tool call ${calledName} (request: ${requestId}): ${verification.reason}`);
+      notify('toolCallRejected', { requestId, toolName: calledName, reason: verification.reason });
+      const response: BTCPToolCallResponse = {
+        content: [{ type: 'text', text: `Error: Unauthorized tool call (${verification.reason})` }],
+        isError: true,
+      };
+      audit(null, 'rejected', response, { reason: verification.reason });
+      await deliverToolCallResponse(requestId, calledName, response).catch((e) =>
+        warn(`Failed to queue rejection for request ${requestId}:`, e),
+      );
+      return;
+    }
+
+    // Calls must use this server's namespace; the tools run under their own names
+    const toolName = stripToolNamespace(server.toolNamespace, calledName);
+    if (toolName === null) {
+      warn(`Rejected call to ${calledName} outside namespace ${server.toolNamespace}`);
+      const response = errorResponse('TOOL_NOT_FOUND', `Tool ${calledName} is not registered`, {
+        tool: calledName,
+      });
+      audit(null, 'rejected', response, { reason: `Tool ${calledName} is not registered` });
+      await deliverToolCallResponse(requestId, calledName, response).catch((e) =>
+        warn(`Failed to queue rejection for request ${requestId}:`, e),
+      );
+      return;
+    }
+
+    log(`Received tool call: ${toolName} (request: ${requestId})`);
+
+    // The server may not have processed the latest tools/update yet
+    const enabled =
+      isToolOfferedToServer(server, toolName) &&
+      (await isToolNameEnabled(toolName).catch(() => true));
+    if (!enabled) {
+      warn(`Rejected call to disabled tool ${toolName} (request: ${requestId})`);
+      const response = errorResponse(
+        'TOOL_DISABLED',
+        `Tool ${toolName} is disabled in the extension`,
+        { tool: toolName },
+      );
+      audit(toolName, 'rejected', response, { reason: `Tool ${toolName} is disabled` });
+      await deliverToolCallResponse(requestId, calledName, response).catch((e) =>
+        warn(`Failed to queue rejection for request ${requestId}:`, e),
+      );
+      return;
+    }
+
+    // The server may withdraw the call before it reaches the scheduler
+    pendingCalls.set(requestId, null);
+    const respondIfCancelled = async (): Promise<boolean> => {
+      const reason = pendingCalls.get(requestId);
+      if (!reason) return false;
+      pendingCalls.delete(requestId);
+      log(`Cancelled pending tool call ${toolName} (request: ${requestId}): ${reason}`);
+      const response = errorResponse('CANCELLED', `Tool call ${requestId} cancelled: ${reason}`, {
+        reason,
+      });
+      audit(toolName, 'cancelled', response, { reason });
+      await deliverToolCallResponse(requestId, calledName, response).catch((e) =>
+        warn(`Failed to queue cancellation for request ${requestId}:`, e),
+      );
+      return true;
+    };
+
+    // Apply the per-tool permission policy (may wait for user approval)
+    const authorization = await authorizeToolCall({
+      requestId,
+      serverUrl: server.serverUrl,
+      toolName,
+      args: toolArgs || {},
+    }).catch((error) => ({
+      allowed: false as const,
+      decision: 'deny' as const,
+      domain: null,
+      reason: `permission check failed: ${error instanceof Error ? error.message : String(error)}`,
+    }));
+    if (await respondIfCancelled()) return;
+    if (!authorization.allowed) {
+      pendingCalls.delete(requestId);
+      warn(`Denied tool call ${toolName} (request: ${requestId}): ${authorization.reason}`);
+      notify('toolCallDenied', { requestId, toolName, reason: authorization.reason });
+      const response = buildPermissionDeniedResponse(toolName, authorization);
+      audit(toolName, 'denied', response, { reason: authorization.reason });
+      await deliverToolCallResponse(requestId, calledName, response).catch((e) =>
+        warn(`Failed to queue denial for request ${requestId}:`, e),
+      );
+      return;
+    }
+
+    const lane = await resolveToolCallLane(toolName, toolArgs || {});
+    if (await respondIfCancelled()) return;
+    pendingCalls.delete(requestId);
+
+    notify('toolCall', { requestId, toolName, toolArgs });
+
+    // Serialize per target tab and cap global parallelism
+    const scheduler = getToolCallScheduler();
+    let response: BTCPToolCallResponse;
+    let timing: ToolCallTiming | undefined;
+    let runSignal: AbortSignal | undefined;
+    let cancelled = false;
+    try {
+      const scheduled = await scheduler.schedule({
+        requestId: schedulerRequestId(requestId),
+        owner: id,
+        lane,
+        run: (signal) => {
+          runSignal = signal;
+          return getBTCPToolAdapter().execute(toolName, toolArgs || {}, {
+            signal,
+            onProgress: (update) => sendToolProgress(requestId, update),
+          });
+        },
+      });
+      response = scheduled.result;
+      timing = scheduled.timing;
+    } catch (error) {
+      if (error instanceof ToolCallCancelledError) {
+        log(`Cancelled queued tool call ${toolName} (request: ${requestId}): ${error.reason}`);
+        timing = error.timing;
+        cancelled = true;
+        response = errorResponse('CANCELLED', error.message, { reason: error.reason });
+      } else {
+        warn(`Tool call failed:`, error);
+        response = {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    lastProgressAt.delete(requestId);
+    if (timing) {
+      response = { ...response, _meta: { ...response._meta, scheduling: timing } };
+    }
+    audit(
+      toolName,
+      cancelled || runSignal?.aborted ? 'cancelled' : response.isError ? 'error' : 'success',
+      response,
+      { waitMs: timing?.waitMs },
+    );
+
+    try {
+      await deliverToolCallResponse(requestId, calledName, response);
+    } catch (error) {
+      warn(`Failed to queue response for request ${requestId}:`, error);
+    }
+  }
+
+  function handleTransportEvent(event: string, data: any): void {
+    switch (event) {
+      // Handle tool call messages
+      case 'tool_call': {
+        const malformed = describeMalformedToolCall(data);
+        if (malformed) {
+          void rejectMalformedToolCall(data, malformed);
+          return;
+        }
+        void handleToolCall(data).catch((e) =>
+          warn(`Tool call failed before a response was queued (request: ${data.id}):`, e),
+        );
+        return;
+      }
+
+      // Handle session assignment
+      case 'session':
+        if (data?.sessionId) {
+          state.sessionId = data.sessionId;
+          log(`Session assigned: ${data.sessionId}`);
+          // Persist session ID for reconnection
+          void saveSessionId(id, data.sessionId).catch(() => {});
+        }
+        return;
+
+      // Handle ping/pong for keepalive
+      case 'ping':
+        log('Received ping');
+        return;
+
+      // Server withdraws a tool call: drop it if pending or queued, abort it if running
+      case 'tool_cancel': {
+        const rawId = data?.requestId ?? data?.params?.requestId;
+        if (rawId === undefined || rawId === null) return;
+        const requestId = String(rawId);
+        const reason = data?.reason ?? data?.params?.reason;
+        if (pendingCalls.has(requestId)) {
+          // Still waiting on approval or lane resolution; dismiss any prompt
+          pendingCalls.set(requestId, reason || 'cancelled by server');
+          cancelPendingApprovals(server.serverUrl, requestId);
+          log(`Cancel for request ${requestId}: pending`);
+          return;
+        }
+        const outcome = getToolCallScheduler().cancel(schedulerRequestId(requestId), reason);
+        log(`Cancel for request ${requestId}: ${outcome}`);
+        return;
+      }
+
+      // Server confirms receipt of responses sent without delivery acknowledgement
+      case 'ack': {
+        const requestIds: string[] = Array.isArray(data?.requestIds) ? data.requestIds : [];
+        for (const requestId of requestIds) {
+          void markDelivered(server.serverUrl, requestId).catch(() => {});
+        }
+        return;
+      }
+
+      // Server asks for unacknowledged results (e.g. after session reassignment)
+      case 'replay': {
+        const requestIds = Array.isArray(data?.requestIds)
+          ? (data.requestIds as string[])
+          : undefined;
+        log(`Replay requested for ${requestIds ? requestIds.length : 'all'} responses`);
+        void flushOutbox({ force: true, requestIds }).catch((e) => {
+          warn('Replay failed:', e);
+        });
+        return;
+      }
+
+      default:
+        log(`Ignoring unknown event: ${event}`);
+    }
+  }
+
+  function setupTransport(kind: BTCPTransportKind): void {
+    if (!state.config || !state.clientId) {
+      throw new Error('Configuration not set');
+    }
+
+    let opened = false;
+
+    const transport = createBTCPTransport(kind, {
+      serverUrl: state.config.serverUrl,
+      clientId: state.clientId,
+      getSessionId: () => state.sessionId,
+      connectionTimeout: state.config.connectionTimeout ?? DEFAULT_CONFIG.connectionTimeout,
+      credential: state.credential,
+      log,
+      handlers: {
+        onOpen: () => {
+          if (state.transport !== transport) return;
+          opened = true;
+          log(`${kind} connection opened`);
+          state.isConnected = true;
+          state.reconnectAttempts = 0;
+          clearReconnectTimer();
+          notify('connected');
+
+          // Register tools after connection
+          state.registeredTools = null;
+          void registerTools().catch((e) => {
+            warn('Failed to register tools:', e);
+          });
+
+          // Deliver responses queued while disconnected
+          void purgeExpiredOutbox()
+            .then(() => flushOutbox())
+            .catch((e) => {
+              warn('Failed to flush response outbox:', e);
+            });
+        },
+
+        onError: (error) => {
+          if (state.transport !== transport) return;
+          warn(`${kind} connection error:`, error);
+          notify('error', { error });
+        },
+
+        onClose: (reason) => {
+          if (state.transport !== transport) return;
+          state.transport = null;
+          state.isConnected = false;
+          state.registeredTools = null;
+
+          // WebSocket never came up: fall back to SSE for this server
+          if (!opened && kind === 'websocket' && state.config?.transportFallback !== false) {
+            warn(`WebSocket unavailable (${reason}), falling back to SSE`);
+            setupTransport('sse');
+            return;
+          }
+
+          notify('disconnected', { reason });
+          scheduleReconnect(reason);
+        },
+
+        onEvent: (event, data) => {
+          if (state.transport !== transport) return;
+          handleTransportEvent(event, data);
+        },
+      },
+    });
+
+    state.transport = transport;
+    state.transportKind = kind;
+    transport.connect();
+  }
+
+  function openTransport(): void {
+    if (!state.config) {
+      throw new Error('BTCP client not initialized');
+    }
+
+    acquireKeepaliveHold();
+
+    try {
+      setupTransport(state.config.transport ?? DEFAULT_CONFIG.transport);
+    } catch (error) {
+      releaseKeepaliveHold();
+      throw error;
+    }
+  }
+
+  // ==================== Tool Registration ====================
+
+  async function getServerToolDefinitions(): Promise<BTCPToolDefinition[]> {
+    return buildServerToolDefinitions(server, await getEnabledToolDefinitions());
+  }
+
+  /**
+   * Register this server's tools, replacing any previous set
+   */
+  async function registerTools(): Promise<void> {
+    if (!state.transport || !state.clientId) {
+      throw new Error('Not connected to BTCP server');
+    }
+
+    const tools = await getServerToolDefinitions();
+    try {
+      const result = await state.transport.send({
+        jsonrpc: '2.0',
+        id: `register-${Date.now()}`,
+        method: 'tools/register',
+        params: {
+          tools,
+        },
+      });
+
+      state.registeredTools = tools;
+      log(`Registered ${tools.length} tools:`, result);
+      notify('registered', { toolCount: tools.length });
+    } catch (error) {
+      warn(`Failed to register tools:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Bring the server's tool set up to date after the offered set changed.
+   * Sends only the difference (`tools/update`); falls back to a full
+   * re-registration if the server rejects it. Runs one sync at a time.
+   */
+  function syncTools(): Promise<void> {
+    toolSyncChain = toolSyncChain.then(async () => {
+      const transport = state.transport;
+      if (!transport?.isOpen() || !state.isConnected) return;
+      if (!state.registeredTools) {
+        await registerTools();
+        return;
+      }
+
+      const tools = await getServerToolDefinitions();
+      const diff = diffToolDefinitions(state.registeredTools, tools);
+      if (isEmptyToolSetDiff(diff)) return;
+
+      try {
+        await transport.send({
+          jsonrpc: '2.0',
+          id: `update-${Date.now()}`,
+          method: 'tools/update',
+          params: diff,
+        });
+        state.registeredTools = tools;
+        log(`Updated tools: +${diff.added.length} -${diff.removed.length} ~${diff.updated.length}`);
+        notify('registered', { toolCount: tools.length });
+      } catch (error) {
+        log('tools/update failed, re-registering:', error);
+        await registerTools();
+      }
+    });
+    toolSyncChain = toolSyncChain.catch((e) => warn('Failed to sync tools:', e));
+    return toolSyncChain;
+  }
+
+  // ==================== Lifecycle ====================
+
+  async function disconnect(): Promise<void> {
+    clearReconnectTimer();
+    clearOutboxTimer();
+    cancelPendingApprovals(server.serverUrl);
+    getToolCallScheduler().cancelAll('client disconnected', id);
+    state.reconnectAttempts = 0;
+
+    if (state.transport) {
+      state.transport.close();
+      state.transport = null;
+    }
+
+    const wasActive = state.config !== null;
+    state.isConnected = false;
+    state.registeredTools = null;
+    state.clientId = null;
+    state.credential = null;
+    state.config = null;
+    releaseKeepaliveHold();
+
+    if (wasActive) {
+      notify('disconnected', { reason: 'client disconnected' });
+      log('Disconnected from BTCP server');
+    }
+  }
+
+  async function connect(options: Partial<BTCPConnectionConfig> = {}): Promise<void> {
+    if (state.isConnected || state.transport || state.reconnectTimer) {
+      log('Already connected, disconnecting first');
+      await disconnect();
+    }
+
+    // Only paired servers may connect; the credential signs every request
+    const credential = await getServerCredential(server.serverUrl);
+    if (!credential) {
+      throw new Error(`Server ${server.serverUrl} is not paired. Pair it from the popup first.`);
+    }
+
+    const overrides = Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined),
+    ) as Partial<BTCPConnectionConfig>;
+    state.config = {
+      ...DEFAULT_CONFIG,
+      transport: server.transport,
+      autoReconnect: server.autoConnect,
+      ...overrides,
+      serverUrl: server.serverUrl,
+    };
+    state.credential = credential;
+    state.clientId = generateClientId();
+    getToolCallScheduler().setMaxConcurrent(
+      state.config.maxConcurrentToolCalls ?? DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
+    );
+
+    // Restore the session from storage unless one is given
+    state.sessionId = options.sessionId ?? (await loadSessionId(id).catch(() => null));
+    if (state.sessionId) {
+      log(`Using session ID: ${state.sessionId}`);
+    }
+
+    openTransport();
+  }
+
+  function connectionState(): BTCPConnectionState {
+    if (state.isConnected) return 'connected';
+    if (state.reconnectTimer) return 'reconnecting';
+    if (state.transport) return 'connecting';
+    return 'disconnected';
+  }
+
+  return {
+    id,
+
+    getServer: () => server,
+
+    updateServer(next: BTCPServerConfig): void {
+      const previous = server;
+      server = next;
+      if (state.config) {
+        state.config.autoReconnect = next.autoConnect;
+      }
+      if (
+        previous.toolNamespace !== next.toolNamespace ||
+        JSON.stringify(previous.enabledTools) !== JSON.stringify(next.enabledTools)
+      ) {
+        void syncTools();
+      }
+    },
+
+    connect,
+    disconnect,
+    isConnected: () => state.isConnected,
+    getSessionId: () => state.sessionId,
+    getClientId: () => state.clientId,
+    getTransportKind: () => state.transportKind,
+    syncTools,
+
+    async status(): Promise<BTCPConnectionStatus> {
+      const pending = await listOutbox(server.serverUrl).catch(() => []);
+      return {
+        serverId: id,
+        serverUrl: server.serverUrl,
+        label: server.label,
+        toolNamespace: server.toolNamespace,
+        enabledTools: server.enabledTools,
+        autoConnect: server.autoConnect,
+        state: connectionState(),
+        connected: state.isConnected,
+        sessionId: state.sessionId,
+        clientId: state.clientId,
+        transport: state.transportKind,
+        registeredTools: state.registeredTools?.length ?? 0,
+        pendingResponses: pending.length,
+        reconnectAttempts: state.reconnectAttempts,
+      };
+    },
+  };
+}
@@ -0,0 +1,316 @@
+/**
+ * BTCP Flow Tools
+ *
+ * Exposes published Record-Replay V3 flows as their own BTCP tools. Each flow
+ * with `meta.tool.published` becomes `flow_<name>`: its declared variables are
+ * the tool's input schema and its run outputs are the tool's result.
+ *
+ * Calls are enqueued on the V3 run queue like any other run (so they share its
+ * scheduling, leasing and crash recovery); run events are forwarded to the
+ * caller as progress, and cancelling the tool call cancels the run.
+ */
+
+import type { ToolExecutionContext, ToolResult } from '@/common/tool-handler';
+import { ToolCancelledError, createErrorResponse } from '@/common/tool-handler';
+import type { FlowV3 } from './record-replay-v3/domain/flow';
+import type { RunEvent } from './record-replay-v3/domain/events';
+import type { JsonObject, JsonValue } from './record-replay-v3/domain/json';
+import { isPersistentVariable, type VariableDefinition } from './record-replay-v3/domain/variables';
+import { getV3Runtime } from './record-replay-v3/bootstrap';
+import { enqueueRun } from './record-replay-v3/engine/queue/enqueue-run';
+import { cancelRun } from './record-replay-v3/engine/queue/cancel-run';
+import {
+  FLOW_TOOL_PREFIX,
+  type BTCPToolDefinition,
+  type JsonSchema,
+} from './btcp-tool-definitions';
+
+const LOG_PREFIX = '[BTCP:FlowTools]';
+
+/** Tool names are limited to 64 characters by most agent runtimes */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/** Optional input that picks the tab to run in (unless a variable uses the name) */
+const TAB_ID_INPUT = 'tabId';
+
+// ==================== Naming ====================
+
+function toToolSlug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Preferred tool name for a flow: the publication's `toolName`, else the flow name
+ */
+export function flowToolName(flow: FlowV3): string {
+  const requested = flow.meta?.tool?.toolName || flow.name;
+  const slug = toToolSlug(requested.replace(new RegExp(`^${FLOW_TOOL_PREFIX}`), ''));
+  const base = slug || toToolSlug(flow.id) || 'unnamed';
+  return `${FLOW_TOOL_PREFIX}${base}`.slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Map tool name -> published flow. Name clashes are resolved by suffixing the
+ * later flows (ordered by id so names are stable).
+ */
+export function resolveFlowToolNames(flows: FlowV3[]): Map<string, FlowV3> {
+  const byName = new Map<string, FlowV3>();
+  const published = flows
+    .filter((f) => f.meta?.tool?.published)
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  for (const flow of published) {
+    const base = flowToolName(flow);
+    let name = base;
+    for (let n = 2; byName.has(name); n++) {
+      const suffix = `_${n}`;
+      name = `${base.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length)}${suffix}`;
+    }
+    byName.set(name, flow);
+  }
+  return byName;
+}
+
+// ==================== Schema ====================
+
+function jsonSchemaType(value: JsonValue | undefined): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Variables the caller supplies (persistent `$` variables are not inputs)
+ */
+function inputVariables(flow: FlowV3): VariableDefinition[] {
+  return (flow.variables ?? []).filter((v) => !isPersistentVariable(v.name));
+}
+
+/**
+ * JSON Schema for a flow's variables
+ */
+export function buildFlowInputSchema(flow: FlowV3): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const variable of inputVariables(flow)) {
+    const schema: JsonSchema = {};
+    const type = jsonSchemaType(variable.default);
+    if (type) schema.type = type;
+
+    const description = [variable.label, variable.description].filter(Boolean).join(': ');
+    if (description) schema.description = description;
+    if (variable.sensitive) {
+      schema.description = `${description ? `${description} ` : ''}(sensitive)`.trim();
+    } else if (variable.default !== undefined) {
+      schema.default = variable.default;
+    }
+
+    properties[variable.name] = schema;
+    if (variable.required && variable.default === undefined) {
+      required.push(variable.name);
+    }
+  }
+
+  if (!(TAB_ID_INPUT in properties)) {
+    properties[TAB_ID_INPUT] = {
+      type: 'number',
+      description: 'Tab to run the flow in. Defaults to a new background tab.',
+    };
+  }
+
+  return { type: 'object', properties, required };
+}
+
+export function buildFlowToolDefinition(name: string, flow: FlowV3): BTCPToolDefinition {
+  const summary =
+    flow.meta?.tool?.description || flow.description || `Run the "${flow.name}" workflow.`;
+  return {
+    name,
+    description: `${summary}\nReturns the run status and the outputs produced by the flow.`,
+    inputSchema: buildFlowInputSchema(flow),
+  };
+}
+
+// ==================== Discovery ====================
+
+async function listPublishedFlowTools(): Promise<Map<string, FlowV3>> {
+  const runtime = getV3Runtime();
+  if (!runtime) return new Map();
+  return resolveFlowToolNames(await runtime.storage.flows.list());
+}
+
+/**
+ * Tool definitions for all published flows. Empty while the V3 engine is not
+ * running.
+ */
+export async function listFlowToolDefinitions(): Promise<BTCPToolDefinition[]> {
+  try {
+    const tools = await listPublishedFlowTools();
+    return [...tools].map(([name, flow]) => buildFlowToolDefinition(name, flow));
+  } catch (error) {
+    console.warn(`${LOG_PREFIX} Failed to list published flows:`, error);
+    return [];
+  }
+}
+
+export async function isPublishedFlowTool(toolName: string): Promise<boolean> {
+  return (await listPublishedFlowTools()).has(toolName);
+}
+
+// ==================== Execution ====================
+
+const TERMINAL_EVENTS = new Set<RunEvent['type']>(['run.succeeded', 'run.failed', 'run.canceled']);
+
+type TerminalRunEvent = Extract<
+  RunEvent,
+  { type: 'run.succeeded' } | { type: 'run.failed' } | { type: 'run.canceled' }
+>;
+
+function describeRunEvent(event: RunEvent, flow: FlowV3): string | null {
+  const nodeLabel = (nodeId: string) => {
+    const node = flow.nodes.find((n) => n.id === nodeId);
+    return node?.name || node?.kind || nodeId;
+  };
+  switch (event.type) {
+    case 'run.queued':
+      return 'Queued';
+    case 'run.started':
+      return `Started in tab ${event.tabId}`;
+    case 'run.paused':
+      return `Paused (${event.reason.kind})`;
+    case 'run.resumed':
+      return 'Resumed';
+    case 'node.started':
+      return `Running ${nodeLabel(event.nodeId)}`;
+    case 'node.failed':
+      return `${nodeLabel(event.nodeId)} failed: ${event.error.message}`;
+    case 'log':
+      return event.message;
+    default:
+      return null;
+  }
+}
+
+function jsonResult(payload: unknown, isError: boolean): ToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify(payload) }], isError };
+}
+
+/**
+ * Run a published flow and wait for it to finish
+ */
+export async function runPublishedFlow(
+  toolName: string,
+  args: Record<string, unknown> | undefined,
+  context?: ToolExecutionContext,
+): Promise<ToolResult> {
+  const runtime = getV3Runtime();
+  if (!runtime) {
+    return createErrorResponse('Record-Replay V3 engine is not running');
+  }
+
+  const flow = (await listPublishedFlowTools()).get(toolName);
+  if (!flow) {
+    return createErrorResponse(`Flow tool ${toolName} not found or no longer published`);
+  }
+
+  const inputs = { ...args } as JsonObject;
+  const variableNames = new Set(inputVariables(flow).map((v) => v.name));
+  let tabId: number | undefined;
+  if (!variableNames.has(TAB_ID_INPUT)) {
+    if (inputs[TAB_ID_INPUT] !== undefined && typeof inputs[TAB_ID_INPUT] !== 'number') {
+      return createErrorResponse(`${TAB_ID_INPUT} must be a number`);
+    }
+    tabId = inputs[TAB_ID_INPUT] as number | undefined;
+    delete inputs[TAB_ID_INPUT];
+  }
+
+  const missing = inputVariables(flow)
+    .filter((v) => v.required && v.default === undefined && inputs[v.name] === undefined)
+    .map((v) => v.name);
+  if (missing.length > 0) {
+    return createErrorResponse(`Missing required inputs: ${missing.join(', ')}`);
+  }
+
+  if (context?.signal?.aborted) throw new ToolCancelledError();
+
+  // Each node that succeeds or is skipped moves the progress bar
+  const total = flow.nodes.length;
+  let completed = 0;
+
+  // Subscribe before enqueueing so no event is missed; filter once the id is known
+  let runId: string | null = null;
+  const early: RunEvent[] = [];
+  let onRunEvent: (event: RunEvent) => void = () => {};
+  let rejectFinished: (error: Error) => void = () => {};
+
+  const onAbort = () => {
+    if (runId) {
+      void cancelRun(runtime, runId, 'Tool call cancelled').catch((e) =>
+        console.warn(`${LOG_PREFIX} Failed to cancel run ${runId}:`, e),
+      );
+    }
+    rejectFinished(new ToolCancelledError());
+  };
+
+  const unsubscribeEvents = runtime.events.subscribe((event) => {
+    if (runId === null) early.push(event);
+    else if (event.runId === runId) onRunEvent(event);
+  });
+  const unsubscribe = () => {
+    unsubscribeEvents();
+    context?.signal?.removeEventListener('abort', onAbort);
+  };
+
+  try {
+    const finished = new Promise<TerminalRunEvent>((resolve, reject) => {
+      onRunEvent = (event) => {
+        if (event.type === 'node.succeeded' || event.type === 'node.skipped') {
+          completed = Math.min(total, completed + 1);
+        }
+        const message = describeRunEvent(event, flow);
+        if (message !== null || event.type === 'node.succeeded') {
+          context?.onProgress?.({ progress: completed, total, message: message ?? undefined });
+        }
+        if (TERMINAL_EVENTS.has(event.type)) {
+          resolve(event as TerminalRunEvent);
+        }
+      };
+      rejectFinished = reject;
+    });
+    // An abort during enqueueRun rejects before anything awaits `finished`
+    finished.catch(() => {});
+    context?.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const enqueued = await enqueueRun(runtime, { flowId: flow.id, args: inputs, tabId });
+    runId = enqueued.runId;
+    for (const event of early.splice(0)) {
+      if (event.runId === runId) onRunEvent(event);
+    }
+    if (context?.signal?.aborted) {
+      void cancelRun(runtime, runId, 'Tool call cancelled').catch(() => {});
+      throw new ToolCancelledError();
+    }
+
+    const terminal = await finished;
+    const run = await runtime.storage.runs.get(runId);
+    const base = { runId, flowId: flow.id, status: run?.status, tookMs: run?.tookMs };
+
+    switch (terminal.type) {
+      case 'run.succeeded':
+        return jsonResult(
+          { success: true, ...base, outputs: terminal.outputs ?? run?.outputs ?? {} },
+          false,
+        );
+      case 'run.failed':
+        return jsonResult({ success: false, ...base, error: terminal.error }, true);
+      case 'run.canceled':
+        return jsonResult({ success: false, ...base, reason: terminal.reason }, true);
+    }
+  } finally {
+    unsubscribe();
+  }
+}
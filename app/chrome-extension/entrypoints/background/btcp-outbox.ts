@@ -0,0 +1,167 @@
+/**
+ * BTCP Response Outbox
+ *
+ * Durable queue of tool-call responses that have not yet been delivered to the
+ * BTCP server. Responses are persisted in IndexedDB keyed by server and
+ * `requestId` before the first send attempt, so a result survives transport
+ * drops and service worker restarts. Delivery is retried with exponential
+ * backoff and flushed again whenever the connection (re)opens or the server
+ * asks for a replay.
+ *
+ * Record lifecycle:
+ * - `pending`: not yet accepted by the server, retried on backoff
+ * - `sent`: written to a transport without delivery acknowledgement (WebSocket);
+ *   removed on an `ack` event, resent on `replay`
+ * Delivered records are deleted. Records older than the TTL are purged.
+ */
+
+import { IndexedDbClient } from '@/utils/indexeddb-client';
+import type { BTCPToolCallResponse } from './btcp-tool-adapter';
+
+const DB_NAME = 'btcp_outbox';
+const DB_VERSION = 1;
+const STORE = 'responses';
+
+/** Base delay for the first retry */
+export const OUTBOX_RETRY_BASE_MS = 1000;
+/** Upper bound for the retry delay */
+export const OUTBOX_RETRY_MAX_MS = 60_000;
+/** Undelivered responses older than this are dropped */
+export const OUTBOX_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type BTCPOutboxStatus = 'pending' | 'sent';
+
+export interface BTCPOutboxRecord {
+  /** JSON-RPC request id of the originating tool call */
+  requestId: string;
+  /** Server the call came from; responses are only delivered back to it */
+  serverUrl: string;
+  /** Session the call was received on */
+  sessionId: string | null;
+  toolName: string;
+  response: BTCPToolCallResponse;
+  status: BTCPOutboxStatus;
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Earliest time the next automatic attempt may run */
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+const idb = new IndexedDbClient(DB_NAME, DB_VERSION, (db, oldVersion) => {
+  switch (oldVersion) {
+    case 0: {
+      // Request ids are only unique per server
+      const store = db.createObjectStore(STORE, { keyPath: ['serverUrl', 'requestId'] });
+      store.createIndex('by_server', 'serverUrl', { unique: false });
+      store.createIndex('by_created', 'createdAt', { unique: false });
+    }
+  }
+});
+
+function recordKey(serverUrl: string, requestId: string): IDBValidKey {
+  return [serverUrl, requestId];
+}
+
+/**
+ * Retry delay after `attempts` failed attempts (1s, 2s, 4s, ... capped at 60s)
+ */
+export function computeOutboxBackoff(attempts: number): number {
+  const exp = Math.max(0, attempts - 1);
+  return Math.min(OUTBOX_RETRY_MAX_MS, OUTBOX_RETRY_BASE_MS * Math.pow(2, exp));
+}
+
+/**
+ * Persist a response before attempting delivery
+ */
+export async function enqueueResponse(input: {
+  requestId: string;
+  serverUrl: string;
+  sessionId: string | null;
+  toolName: string;
+  response: BTCPToolCallResponse;
+}): Promise<BTCPOutboxRecord> {
+  const ts = Date.now();
+  const record: BTCPOutboxRecord = {
+    ...input,
+    status: 'pending',
+    attempts: 0,
+    createdAt: ts,
+    updatedAt: ts,
+    nextAttemptAt: ts,
+  };
+  await idb.put<BTCPOutboxRecord>(STORE, record);
+  return record;
+}
+
+export async function getOutboxRecord(
+  serverUrl: string,
+  requestId: string,
+): Promise<BTCPOutboxRecord | undefined> {
+  return idb.get<BTCPOutboxRecord>(STORE, recordKey(serverUrl, requestId));
+}
+
+/**
+ * List undelivered responses for a server, oldest first
+ */
+export async function listOutbox(serverUrl?: string): Promise<BTCPOutboxRecord[]> {
+  const all = await idb.getAll<BTCPOutboxRecord>(STORE);
+  return all
+    .filter((r) => !serverUrl || r.serverUrl === serverUrl)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Remove a record once the server has accepted it
+ */
+export async function markDelivered(serverUrl: string, requestId: string): Promise<void> {
+  await idb.delete(STORE, recordKey(serverUrl, requestId));
+}
+
+/**
+ * Record a successful write on a transport that does not confirm delivery
+ */
+export async function markSent(record: BTCPOutboxRecord): Promise<void> {
+  await idb.put<BTCPOutboxRecord>(STORE, {
+    ...record,
+    status: 'sent',
+    attempts: record.attempts + 1,
+    updatedAt: Date.now(),
+    lastError: undefined,
+  });
+}
+
+/**
+ * Record a failed attempt and push back the next one
+ */
+export async function markFailed(record: BTCPOutboxRecord, error: unknown): Promise<number> {
+  const attempts = record.attempts + 1;
+  const ts = Date.now();
+  const nextAttemptAt = ts + computeOutboxBackoff(attempts);
+  await idb.put<BTCPOutboxRecord>(STORE, {
+    ...record,
+    status: 'pending',
+    attempts,
+    updatedAt: ts,
+    nextAttemptAt,
+    lastError: error instanceof Error ? error.message : String(error),
+  });
+  return nextAttemptAt;
+}
+
+/**
+ * Drop records older than the TTL. Returns the number removed.
+ */
+export async function purgeExpiredOutbox(now: number = Date.now()): Promise<number> {
+  const all = await idb.getAll<BTCPOutboxRecord>(STORE);
+  const expired = all.filter((r) => now - r.createdAt > OUTBOX_TTL_MS);
+  for (const r of expired) {
+    await idb.delete(STORE, recordKey(r.serverUrl, r.requestId));
+  }
+  return expired.length;
+}
+
+export async function clearOutbox(): Promise<void> {
+  await idb.clear(STORE);
+}
@@ -0,0 +1,478 @@
+/**
+ * BTCP Tool Permissions
+ *
+ * Policy engine that sits between an inbound `tool_call` and the tool adapter.
+ * Every tool, or tool + domain pair, resolves to one of:
+ * - `allow`: run without asking
+ * - `deny`: reject with a structured `PERMISSION_DENIED` error
+ * - `ask`: hold the call and ask the user via a system notification and a
+ *   sidepanel approval card; unanswered prompts are denied after a timeout
+ *
+ * Rule precedence (most specific wins): tool + domain > tool > any tool + domain
+ * > built-in tool default > policy default, except that an any-tool domain deny
+ * beats a tool rule without a domain. "Always allow" / "Always deny"
+ * answers are persisted as rules in `chrome.storage.local`.
+ */
+
+import { TOOL_NAMES } from 'chrome-mcp-shared';
+import { ERROR_MESSAGES } from '@/common/constants';
+import { sanitizeAndLimitOutput } from '@/utils/output-sanitizer';
+import type { BTCPToolCallResponse } from './btcp-tool-adapter';
+
+const LOG_PREFIX = '[BTCP:Permissions]';
+
+const POLICY_STORAGE_KEY = 'btcp_tool_policy';
+
+/** Unanswered approval prompts are denied after this long */
+export const APPROVAL_TIMEOUT_MS = 60_000;
+
+/** Wildcard tool name for domain-wide rules */
+export const ANY_TOOL = '*';
+
+const NOTIFICATION_PREFIX = 'btcp-approval:';
+
+/** Arguments shown in prompts are redacted and truncated */
+const APPROVAL_ARGS_MAX_BYTES = 2048;
+
+// ==================== Types ====================
+
+export type ToolPermissionDecision = 'allow' | 'deny' | 'ask';
+
+export interface ToolPermissionRule {
+  /** Tool name, or `*` for any tool */
+  tool: string;
+  /** Hostname pattern (`example.com`, `*.example.com`); omitted = any domain */
+  domain?: string;
+  decision: ToolPermissionDecision;
+  /** `remembered` rules come from approval prompts, `user` rules from settings */
+  source: 'user' | 'remembered';
+  createdAt: number;
+}
+
+export interface ToolPermissionPolicy {
+  /** Decision for tools with no rule and no built-in default */
+  defaultDecision: ToolPermissionDecision;
+  rules: ToolPermissionRule[];
+}
+
+export interface ToolPermissionEvaluation {
+  decision: ToolPermissionDecision;
+  /** Matching rule, if the decision did not come from a default */
+  rule?: ToolPermissionRule;
+}
+
+export interface ToolApprovalRequest {
+  approvalId: string;
+  serverUrl: string | null;
+  requestId: string;
+  toolName: string;
+  domain: string | null;
+  /** Sanitized, length-limited JSON of the call arguments */
+  argsPreview: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/** How an approval answer should be remembered */
+export type ToolApprovalScope = 'once' | 'tool' | 'domain';
+
+export type ToolAuthorization =
+  | { allowed: true }
+  | {
+      allowed: false;
+      reason: string;
+      decision: 'deny' | 'timeout';
+      domain: string | null;
+    };
+
+/**
+ * Tools that can run arbitrary code, send requests with the user's cookies,
+ * read or change site storage, or touch local files ask by default.
+ */
+export const DEFAULT_TOOL_DECISIONS: Readonly<Record<string, ToolPermissionDecision>> = {
+  [TOOL_NAMES.BROWSER.JAVASCRIPT]: 'ask',
+  [TOOL_NAMES.BROWSER.NETWORK_REQUEST]: 'ask',
+  [TOOL_NAMES.BROWSER.NETWORK_INTERCEPT]: 'ask',
+  [TOOL_NAMES.BROWSER.FILE_UPLOAD]: 'ask',
+  [TOOL_NAMES.BROWSER.INJECT_SCRIPT]: 'ask',
+  [TOOL_NAMES.BROWSER.SEND_COMMAND_TO_INJECT_SCRIPT]: 'ask',
+  [TOOL_NAMES.BROWSER.USERSCRIPT]: 'ask',
+  [TOOL_NAMES.BROWSER.BOOKMARK_DELETE]: 'ask',
+  [TOOL_NAMES.BROWSER.STORAGE_STATE]: 'ask',
+};
+
+export const DEFAULT_TOOL_POLICY: ToolPermissionPolicy = {
+  defaultDecision: 'allow',
+  rules: [],
+};
+
+// ==================== Policy Evaluation ====================
+
+/**
+ * Match a hostname against a rule pattern. `*.example.com` matches
+ * `example.com` and any subdomain.
+ */
+export function domainMatches(pattern: string, domain: string | null): boolean {
+  if (!domain) return false;
+  const p = pattern.trim().toLowerCase();
+  const d = domain.toLowerCase();
+  if (p.startsWith('*.')) {
+    const base = p.slice(2);
+    return d === base || d.endsWith(`.${base}`);
+  }
+  return p === d;
+}
+
+/**
+ * Resolve the decision for a tool call (pure; no prompting)
+ */
+export function evaluateToolPermission(
+  policy: ToolPermissionPolicy,
+  toolName: string,
+  domain: string | null,
+): ToolPermissionEvaluation {
+  const find = (predicate: (rule: ToolPermissionRule) => boolean) => policy.rules.find(predicate);
+
+  const domainRule = (decision?: ToolPermissionDecision) =>
+    find(
+      (r) =>
+        r.tool === ANY_TOOL &&
+        !!r.domain &&
+        domainMatches(r.domain, domain) &&
+        (!decision || r.decision === decision),
+    );
+
+  const rule =
+    find((r) => r.tool === toolName && !!r.domain && domainMatches(r.domain, domain)) ||
+    // Blocking a site must not be undone by allowing a tool everywhere
+    domainRule('deny') ||
+    find((r) => r.tool === toolName && !r.domain) ||
+    domainRule();
+  if (rule) return { decision: rule.decision, rule };
+
+  return { decision: DEFAULT_TOOL_DECISIONS[toolName] ?? policy.defaultDecision };
+}
+
+/**
+ * Add or replace the rule for a tool/domain pair
+ */
+export function upsertRule(
+  policy: ToolPermissionPolicy,
+  rule: ToolPermissionRule,
+): ToolPermissionPolicy {
+  const domain = rule.domain?.toLowerCase() || undefined;
+  const rules = policy.rules.filter((r) => !(r.tool === rule.tool && r.domain === domain));
+  return { ...policy, rules: [...rules, { ...rule, domain }] };
+}
+
+/**
+ * Structured error returned to the agent when a call is not permitted
+ */
+export function buildPermissionDeniedResponse(
+  toolName: string,
+  denial: Extract<ToolAuthorization, { allowed: false }>,
+): BTCPToolCallResponse {
+  const error = {
+    code: 'PERMISSION_DENIED',
+    message: `${ERROR_MESSAGES.PERMISSION_DENIED}: ${denial.reason}`,
+    tool: toolName,
+    domain: denial.domain,
+    decision: denial.decision,
+  };
+  return {
+    content: [{ type: 'text', text: JSON.stringify({ error }) }],
+    isError: true,
+  };
+}
+
+// ==================== Policy Store ====================
+
+export async function loadToolPolicy(): Promise<ToolPermissionPolicy> {
+  const result = await chrome.storage.local.get([POLICY_STORAGE_KEY]);
+  const stored = result[POLICY_STORAGE_KEY] as Partial<ToolPermissionPolicy> | undefined;
+  return {
+    defaultDecision: stored?.defaultDecision ?? DEFAULT_TOOL_POLICY.defaultDecision,
+    rules: Array.isArray(stored?.rules) ? stored.rules : [],
+  };
+}
+
+export async function saveToolPolicy(policy: ToolPermissionPolicy): Promise<void> {
+  await chrome.storage.local.set({ [POLICY_STORAGE_KEY]: policy });
+}
+
+async function rememberDecision(
+  toolName: string,
+  domain: string | null,
+  decision: 'allow' | 'deny',
+  scope: ToolApprovalScope,
+): Promise<void> {
+  if (scope === 'once') return;
+  // Without a domain a domain-scoped answer would turn into a tool-wide rule
+  if (scope === 'domain' && !domain) return;
+  const policy = await loadToolPolicy();
+  const rule: ToolPermissionRule = {
+    tool: toolName,
+    domain: scope === 'domain' && domain ? domain : undefined,
+    decision,
+    source: 'remembered',
+    createdAt: Date.now(),
+  };
+  await saveToolPolicy(upsertRule(policy, rule));
+}
+
+// ==================== Domain Resolution ====================
+
+function hostnameOf(url: unknown): string | null {
+  if (typeof url !== 'string' || !url) return null;
+  try {
+    const parsed = new URL(url);
+    return parsed.hostname || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Domain a tool call acts on: an explicit `url` argument, else the target tab,
+ * else the active tab.
+ */
+export async function resolveToolCallDomain(args: Record<string, unknown>): Promise<string | null> {
+  const fromArgs = hostnameOf(args.url) ?? hostnameOf(args.origin);
+  if (fromArgs) return fromArgs;
+
+  try {
+    if (typeof args.tabId === 'number') {
+      const tab = await chrome.tabs.get(args.tabId);
+      return hostnameOf(tab?.url);
+    }
+    const [active] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+    return hostnameOf(active?.url);
+  } catch {
+    return null;
+  }
+}
+
+// ==================== Approval Prompts ====================
+
+interface PendingApproval {
+  request: ToolApprovalRequest;
+  resolve: (result: { decision: 'allow' | 'deny' | 'timeout'; scope: ToolApprovalScope }) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const pendingApprovals = new Map<string, PendingApproval>();
+
+function broadcast(message: Record<string, unknown>): void {
+  // No receiver (sidepanel closed) is expected
+  chrome.runtime.sendMessage(message).catch(() => {});
+}
+
+function showApprovalNotification(request: ToolApprovalRequest): void {
+  if (!chrome.notifications?.create) return;
+  const target = request.domain ? ` on ${request.domain}` : '';
+  chrome.notifications.create(
+    `${NOTIFICATION_PREFIX}${request.approvalId}`,
+    {
+      type: 'basic',
+      iconUrl: chrome.runtime.getURL('icon/128.png'),
+      title: `Allow ${request.toolName}${target}?`,
+      message: request.argsPreview.slice(0, 200),
+      contextMessage: request.serverUrl ? `Requested by ${request.serverUrl}` : undefined,
+      buttons: [{ title: 'Allow once' }, { title: 'Deny' }],
+      requireInteraction: true,
+      priority: 2,
+    },
+    () => void chrome.runtime.lastError,
+  );
+}
+
+function clearApprovalNotification(approvalId: string): void {
+  chrome.notifications?.clear?.(`${NOTIFICATION_PREFIX}${approvalId}`, () => {
+    void chrome.runtime.lastError;
+  });
+}
+
+function settleApproval(
+  approvalId: string,
+  decision: 'allow' | 'deny' | 'timeout',
+  scope: ToolApprovalScope = 'once',
+): boolean {
+  const pending = pendingApprovals.get(approvalId);
+  if (!pending) return false;
+  pendingApprovals.delete(approvalId);
+  clearTimeout(pending.timer);
+  clearApprovalNotification(approvalId);
+  broadcast({ type: 'btcp_approval_resolved', approvalId, decision });
+  pending.resolve({ decision, scope });
+  return true;
+}
+
+function requestApproval(
+  request: Omit<ToolApprovalRequest, 'approvalId' | 'createdAt' | 'expiresAt'>,
+): Promise<{ decision: 'allow' | 'deny' | 'timeout'; scope: ToolApprovalScope }> {
+  const createdAt = Date.now();
+  const full: ToolApprovalRequest = {
+    ...request,
+    approvalId: crypto.randomUUID(),
+    createdAt,
+    expiresAt: createdAt + APPROVAL_TIMEOUT_MS,
+  };
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => settleApproval(full.approvalId, 'timeout'), APPROVAL_TIMEOUT_MS);
+    pendingApprovals.set(full.approvalId, { request: full, resolve, timer });
+    showApprovalNotification(full);
+    broadcast({ type: 'btcp_approval_requested', approval: full });
+  });
+}
+
+export function listPendingApprovals(): ToolApprovalRequest[] {
+  return Array.from(pendingApprovals.values())
+    .map((p) => p.request)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Deny outstanding prompts: all, one server's (e.g. when it disconnects) or
+ * one call's (when the server cancels it)
+ */
+export function cancelPendingApprovals(serverUrl?: string, requestId?: string): void {
+  for (const [approvalId, pending] of Array.from(pendingApprovals.entries())) {
+    if (serverUrl !== undefined && pending.request.serverUrl !== serverUrl) continue;
+    if (requestId !== undefined && pending.request.requestId !== requestId) continue;
+    settleApproval(approvalId, 'deny');
+  }
+}
+
+// ==================== Authorization ====================
+
+/**
+ * Decide whether a tool call may run, prompting the user when the policy says `ask`
+ */
+export async function authorizeToolCall(input: {
+  requestId: string;
+  serverUrl: string | null;
+  toolName: string;
+  args: Record<string, unknown>;
+}): Promise<ToolAuthorization> {
+  const { toolName, args } = input;
+  const domain = await resolveToolCallDomain(args);
+  const policy = await loadToolPolicy();
+  const evaluation = evaluateToolPermission(policy, toolName, domain);
+
+  if (evaluation.decision === 'allow') return { allowed: true };
+  if (evaluation.decision === 'deny') {
+    const scope = evaluation.rule?.domain ? ` on ${evaluation.rule.domain}` : '';
+    return {
+      allowed: false,
+      decision: 'deny',
+      domain,
+      reason: `${toolName} is blocked by policy${scope}`,
+    };
+  }
+
+  const { text: argsPreview } = sanitizeAndLimitOutput(args, {
+    maxBytes: APPROVAL_ARGS_MAX_BYTES,
+  });
+  const answer = await requestApproval({
+    serverUrl: input.serverUrl,
+    requestId: input.requestId,
+    toolName,
+    domain,
+    argsPreview,
+  });
+
+  if (answer.decision === 'timeout') {
+    return { allowed: false, decision: 'timeout', domain, reason: 'approval request timed out' };
+  }
+
+  await rememberDecision(toolName, domain, answer.decision, answer.scope).catch((e) => {
+    console.warn(`${LOG_PREFIX} Failed to persist decision:`, e);
+  });
+
+  if (answer.decision === 'allow') return { allowed: true };
+  return { allowed: false, decision: 'deny', domain, reason: 'user denied the tool call' };
+}
+
+// ==================== Message Handling ====================
+
+/**
+ * Wire notification buttons and sidepanel/popup messages
+ */
+export function initToolPermissionListeners(): void {
+  chrome.notifications?.onButtonClicked.addListener((notificationId, buttonIndex) => {
+    if (!notificationId.startsWith(NOTIFICATION_PREFIX)) return;
+    const approvalId = notificationId.slice(NOTIFICATION_PREFIX.length);
+    settleApproval(approvalId, buttonIndex === 0 ? 'allow' : 'deny');
+  });
+
+  chrome.notifications?.onClosed.addListener((notificationId, byUser) => {
+    if (!byUser || !notificationId.startsWith(NOTIFICATION_PREFIX)) return;
+    settleApproval(notificationId.slice(NOTIFICATION_PREFIX.length), 'deny');
+  });
+
+  chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    const msgType = message?.type;
+
+    if (msgType === 'btcp_approval_list') {
+      sendResponse({ success: true, approvals: listPendingApprovals() });
+      return true;
+    }
+
+    if (msgType === 'btcp_approval_decide') {
+      const decision = message?.decision === 'allow' ? 'allow' : 'deny';
+      const scope: ToolApprovalScope =
+        message?.scope === 'tool' || message?.scope === 'domain' ? message.scope : 'once';
+      const settled = settleApproval(String(message?.approvalId || ''), decision, scope);
+      sendResponse(
+        settled ? { success: true } : { success: false, error: 'Approval request not found' },
+      );
+      return true;
+    }
+
+    if (msgType === 'btcp_policy_get') {
+      loadToolPolicy()
+        .then((policy) => sendResponse({ success: true, policy }))
+        .catch((e) => sendResponse({ success: false, error: String(e) }));
+      return true;
+    }
+
+    if (msgType === 'btcp_policy_remove_rule') {
+      loadToolPolicy()
+        .then(async (policy) => {
+          const domain = message?.domain || undefined;
+          const rules = policy.rules.filter(
+            (r) => !(r.tool === message?.tool && r.domain === domain),
+          );
+          await saveToolPolicy({ ...policy, rules });
+          sendResponse({ success: true, policy: { ...policy, rules } });
+        })
+        .catch((e) => sendResponse({ success: false, error: String(e) }));
+      return true;
+    }
+
+    if (msgType === 'btcp_policy_set_rule') {
+      const decision = message?.decision;
+      if (!message?.tool || !['allow', 'deny', 'ask'].includes(decision)) {
+        sendResponse({ success: false, error: 'tool and decision are required' });
+        return true;
+      }
+      loadToolPolicy()
+        .then(async (policy) => {
+          const next = upsertRule(policy, {
+            tool: String(message.tool),
+            domain: message.domain ? String(message.domain) : undefined,
+            decision,
+            source: 'user',
+            createdAt: Date.now(),
+          });
+          await saveToolPolicy(next);
+          sendResponse({ success: true, policy: next });
+        })
+        .catch((e) => sendResponse({ success: false, error: String(e) }));
+      return true;
+    }
+
+    return false;
+  });
+}
@@ -0,0 +1,272 @@
+/**
+ * BTCP Tool Call Scheduler
+ *
+ * Incoming tool calls are not run as soon as they arrive. Each call is placed
+ * in a lane keyed by its target tab; calls in the same lane run strictly one
+ * after another (so e.g. a `chrome_computer` type and a `chrome_screenshot`
+ * on the same tab never share a CDP session), calls in different lanes run in
+ * parallel up to a global cap. Tab-independent tools have no lane and only
+ * count against the cap.
+ *
+ * The server can cancel any call: queued calls are dropped, running calls have
+ * their AbortSignal aborted. Every scheduled call reports its queue position
+ * and wait/run timing.
+ */
+
+import { TOOL_NAMES } from 'chrome-mcp-shared';
+import { isFlowToolName } from './btcp-tool-definitions';
+
+/** Default number of tool calls that may run at the same time */
+export const DEFAULT_MAX_CONCURRENT_TOOL_CALLS = 4;
+
+/** Tools that do not act on a specific tab */
+const TAB_INDEPENDENT_TOOLS = new Set<string>([
+  TOOL_NAMES.BROWSER.GET_WINDOWS_AND_TABS,
+  TOOL_NAMES.BROWSER.SEARCH_TABS_CONTENT,
+  TOOL_NAMES.BROWSER.HISTORY,
+  TOOL_NAMES.BROWSER.BOOKMARK_SEARCH,
+  TOOL_NAMES.BROWSER.BOOKMARK_ADD,
+  TOOL_NAMES.BROWSER.BOOKMARK_DELETE,
+  TOOL_NAMES.RECORD_REPLAY.LIST_PUBLISHED,
+]);
+
+// ==================== Types ====================
+
+export interface ToolCallTiming {
+  /** Calls ahead of this one when it was scheduled (0 = started immediately) */
+  queuePosition: number;
+  /** Lane the call ran in (`tab:<id>`), null for tab-independent tools */
+  lane: string | null;
+  queuedAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  waitMs: number;
+  runMs: number;
+}
+
+export interface ToolCallJob<T> {
+  /** Unique across connections (callers prefix the server's request id) */
+  requestId: string;
+  /** Connection the call came from, for cancelling its calls on disconnect */
+  owner?: string;
+  lane: string | null;
+  /** Runs the call; `signal` is aborted if the call is cancelled while running */
+  run: (signal: AbortSignal) => Promise<T>;
+}
+
+export interface ScheduledToolCallResult<T> {
+  result: T;
+  timing: ToolCallTiming;
+}
+
+/** `cancelled`: removed from the queue; `aborted`: running call was signalled */
+export type ToolCallCancelOutcome = 'cancelled' | 'aborted' | 'unknown';
+
+export interface ToolCallScheduler {
+  /** Queue a call; resolves once it has run, rejects with ToolCallCancelledError if cancelled */
+  schedule<T>(job: ToolCallJob<T>): Promise<ScheduledToolCallResult<T>>;
+  /** Cancel a queued call, or abort a running one */
+  cancel(requestId: string, reason?: string): ToolCallCancelOutcome;
+  /** Cancel all queued and abort all running calls, optionally only one owner's (e.g. on disconnect) */
+  cancelAll(reason?: string, owner?: string): number;
+  setMaxConcurrent(value: number): void;
+  stats(): { running: number; queued: number; maxConcurrent: number };
+}
+
+/**
+ * Rejection for calls removed from the queue before they started
+ */
+export class ToolCallCancelledError extends Error {
+  constructor(
+    public readonly requestId: string,
+    public readonly reason: string,
+    public readonly timing: ToolCallTiming,
+  ) {
+    super(`Tool call ${requestId} cancelled: ${reason}`);
+    this.name = 'ToolCallCancelledError';
+  }
+}
+
+// ==================== Lane Resolution ====================
+
+/**
+ * Lane for a tool call: the explicit `tabId` argument, else the active tab.
+ * Tab-independent tools get no lane, nor do flow tools without a `tabId`
+ * (they run in a tab of their own).
+ */
+export async function resolveToolCallLane(
+  toolName: string,
+  args: Record<string, unknown>,
+): Promise<string | null> {
+  if (TAB_INDEPENDENT_TOOLS.has(toolName)) return null;
+  if (typeof args.tabId === 'number') return `tab:${args.tabId}`;
+  if (isFlowToolName(toolName)) return null;
+
+  try {
+    const [active] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+    return typeof active?.id === 'number' ? `tab:${active.id}` : null;
+  } catch {
+    return null;
+  }
+}
+
+// ==================== Scheduler ====================
+
+interface QueuedJob {
+  job: ToolCallJob<unknown>;
+  timing: ToolCallTiming;
+  controller: AbortController;
+  resolve: (value: ScheduledToolCallResult<unknown>) => void;
+  reject: (error: unknown) => void;
+}
+
+function finishTiming(timing: ToolCallTiming, now: number): ToolCallTiming {
+  const startedAt = timing.startedAt ?? now;
+  return {
+    ...timing,
+    finishedAt: now,
+    waitMs: startedAt - timing.queuedAt,
+    runMs: timing.startedAt === null ? 0 : now - startedAt,
+  };
+}
+
+export function createToolCallScheduler(
+  maxConcurrent: number = DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
+): ToolCallScheduler {
+  let limit = Math.max(1, Math.floor(maxConcurrent));
+  const queue: QueuedJob[] = [];
+  const running = new Map<string, QueuedJob>();
+  const busyLanes = new Set<string>();
+
+  const start = (entry: QueuedJob): void => {
+    const { job } = entry;
+    entry.timing.startedAt = Date.now();
+    running.set(job.requestId, entry);
+    if (job.lane) busyLanes.add(job.lane);
+
+    const settle = () => {
+      running.delete(job.requestId);
+      if (job.lane) busyLanes.delete(job.lane);
+      pump();
+    };
+
+    Promise.resolve()
+      .then(() => job.run(entry.controller.signal))
+      .then(
+        (result) => {
+          settle();
+          entry.resolve({ result, timing: finishTiming(entry.timing, Date.now()) });
+        },
+        (error) => {
+          settle();
+          entry.reject(error);
+        },
+      );
+  };
+
+  const pump = (): void => {
+    // Lanes whose head is still waiting; later calls in them must not overtake it
+    const blocked = new Set<string>();
+    for (let i = 0; i < queue.length && running.size < limit; ) {
+      const entry = queue[i];
+      const lane = entry.job.lane;
+      if (lane && (busyLanes.has(lane) || blocked.has(lane))) {
+        blocked.add(lane);
+        i++;
+        continue;
+      }
+      queue.splice(i, 1);
+      start(entry);
+    }
+  };
+
+  const laneIsFree = (lane: string | null): boolean =>
+    !lane || (!busyLanes.has(lane) && !queue.some((q) => q.job.lane === lane));
+
+  return {
+    schedule<T>(job: ToolCallJob<T>): Promise<ScheduledToolCallResult<T>> {
+      const queuedAt = Date.now();
+      const startsNow = running.size < limit && laneIsFree(job.lane);
+      const timing: ToolCallTiming = {
+        queuePosition: startsNow ? 0 : queue.length + 1,
+        lane: job.lane,
+        queuedAt,
+        startedAt: null,
+        finishedAt: null,
+        waitMs: 0,
+        runMs: 0,
+      };
+
+      return new Promise<ScheduledToolCallResult<T>>((resolve, reject) => {
+        const entry: QueuedJob = {
+          job: job as ToolCallJob<unknown>,
+          timing,
+          controller: new AbortController(),
+          resolve: resolve as QueuedJob['resolve'],
+          reject,
+        };
+        queue.push(entry);
+        pump();
+      });
+    },
+
+    cancel(requestId: string, reason: string = 'cancelled by server'): ToolCallCancelOutcome {
+      const active = running.get(requestId);
+      if (active) {
+        active.controller.abort(new Error(reason));
+        return 'aborted';
+      }
+      const index = queue.findIndex((q) => q.job.requestId === requestId);
+      if (index === -1) return 'unknown';
+
+      const [entry] = queue.splice(index, 1);
+      entry.reject(
+        new ToolCallCancelledError(requestId, reason, finishTiming(entry.timing, Date.now())),
+      );
+      pump();
+      return 'cancelled';
+    },
+
+    cancelAll(reason: string = 'client disconnected', owner?: string): number {
+      const owned = (entry: QueuedJob) => owner === undefined || entry.job.owner === owner;
+      let aborted = 0;
+      for (const entry of running.values()) {
+        if (!owned(entry)) continue;
+        entry.controller.abort(new Error(reason));
+        aborted++;
+      }
+      const entries = queue.filter(owned);
+      for (const entry of entries) {
+        queue.splice(queue.indexOf(entry), 1);
+      }
+      const now = Date.now();
+      for (const entry of entries) {
+        entry.reject(
+          new ToolCallCancelledError(entry.job.requestId, reason, finishTiming(entry.timing, now)),
+        );
+      }
+      return aborted + entries.length;
+    },
+
+    setMaxConcurrent(value: number): void {
+      limit = Math.max(1, Math.floor(value));
+      pump();
+    },
+
+    stats() {
+      return { running: running.size, queued: queue.length, maxConcurrent: limit };
+    },
+  };
+}
+
+/**
+ * Singleton scheduler for BTCP tool calls
+ */
+let schedulerInstance: ToolCallScheduler | null = null;
+
+export function getToolCallScheduler(): ToolCallScheduler {
+  if (!schedulerInstance) {
+    schedulerInstance = createToolCallScheduler();
+  }
+  return schedulerInstance;
+}
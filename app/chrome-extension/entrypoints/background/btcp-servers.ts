@@ -0,0 +1,279 @@
+/**
+ * BTCP Server Configurations
+ *
+ * The extension can stay connected to several BTCP servers at once (e.g. a local
+ * agent server and a shared team broker). Each server has its own stored entry:
+ * URL, transport, auto-connect flag, an optional tool namespace and the subset
+ * of enabled tools it may call.
+ *
+ * Tool namespacing: when a server has a namespace, every tool is registered
+ * with it as `<namespace>__<tool>` so several browsers can share one broker
+ * without their tool names clashing. Incoming calls must use the same prefix.
+ *
+ * Older versions stored a single server under `btcp_server_url` /
+ * `btcp_auto_connect` / `btcp_transport`; that entry is migrated on first load.
+ */
+
+import { normalizeServerUrl } from './btcp-auth';
+import type { BTCPToolDefinition } from './btcp-tool-definitions';
+import { normalizeTransportKind, type BTCPTransportKind } from './btcp-transport';
+
+const LOG_PREFIX = '[BTCP:Servers]';
+
+export const BTCP_SERVERS_KEY = 'btcp_servers';
+const SESSIONS_KEY = 'btcp_sessions';
+
+/** Keys used before multi-server support */
+const LEGACY_KEYS = {
+  SERVER_URL: 'btcp_server_url',
+  SESSION_ID: 'btcp_session_id',
+  AUTO_CONNECT: 'btcp_auto_connect',
+  TRANSPORT: 'btcp_transport',
+} as const;
+
+/** Separator between a server's namespace and the tool name */
+export const TOOL_NAMESPACE_SEPARATOR = '__';
+
+const TOOL_NAMESPACE_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9-]{0,23}$/;
+
+// ==================== Types ====================
+
+export interface BTCPServerConfig {
+  /** Stable id, independent of the URL */
+  id: string;
+  serverUrl: string;
+  /** Display name in the popup */
+  label?: string;
+  transport: BTCPTransportKind;
+  /** Connect when the browser starts and reconnect after drops */
+  autoConnect: boolean;
+  /** Prefix for tool names registered with this server */
+  toolNamespace?: string;
+  /** Tools this server may call; null offers every enabled tool */
+  enabledTools: string[] | null;
+}
+
+export type BTCPServerConfigChanges = Partial<Omit<BTCPServerConfig, 'id'>>;
+
+// ==================== Namespacing ====================
+
+/**
+ * Validate a namespace. Empty values clear it.
+ */
+export function normalizeToolNamespace(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const namespace = String(value).trim();
+  if (!namespace) return undefined;
+  if (!TOOL_NAMESPACE_PATTERN.test(namespace)) {
+    throw new Error(
+      'Tool namespace must be 1-24 letters, digits or dashes and start with a letter or digit',
+    );
+  }
+  return namespace;
+}
+
+export function namespaceToolName(namespace: string | undefined, toolName: string): string {
+  return namespace ? `${namespace}${TOOL_NAMESPACE_SEPARATOR}${toolName}` : toolName;
+}
+
+/**
+ * Tool name without the server's namespace, or null if the prefix is missing
+ */
+export function stripToolNamespace(namespace: string | undefined, toolName: string): string | null {
+  if (!namespace) return toolName;
+  const prefix = `${namespace}${TOOL_NAMESPACE_SEPARATOR}`;
+  return toolName.startsWith(prefix) ? toolName.slice(prefix.length) : null;
+}
+
+export function isToolOfferedToServer(server: BTCPServerConfig, toolName: string): boolean {
+  return server.enabledTools === null || server.enabledTools.includes(toolName);
+}
+
+/**
+ * The tool definitions to register with a server: its subset of the enabled
+ * tools, renamed into its namespace
+ */
+export function buildServerToolDefinitions(
+  server: BTCPServerConfig,
+  enabledTools: BTCPToolDefinition[],
+): BTCPToolDefinition[] {
+  return enabledTools
+    .filter((tool) => isToolOfferedToServer(server, tool.name))
+    .map((tool) =>
+      server.toolNamespace
+        ? { ...tool, name: namespaceToolName(server.toolNamespace, tool.name) }
+        : tool,
+    );
+}
+
+// ==================== Storage ====================
+
+export function createServerId(): string {
+  return `srv_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function sanitizeServerConfig(raw: any): BTCPServerConfig | null {
+  if (!raw || typeof raw.id !== 'string' || typeof raw.serverUrl !== 'string') return null;
+  let toolNamespace: string | undefined;
+  try {
+    toolNamespace = normalizeToolNamespace(raw.toolNamespace);
+  } catch {
+    toolNamespace = undefined;
+  }
+  return {
+    id: raw.id,
+    serverUrl: raw.serverUrl,
+    label: typeof raw.label === 'string' && raw.label ? raw.label : undefined,
+    transport: normalizeTransportKind(raw.transport),
+    autoConnect: raw.autoConnect !== false,
+    toolNamespace,
+    enabledTools: Array.isArray(raw.enabledTools)
+      ? raw.enabledTools.filter((t: unknown): t is string => typeof t === 'string')
+      : null,
+  };
+}
+
+async function migrateLegacyServer(): Promise<BTCPServerConfig[]> {
+  const legacy = await chrome.storage.local.get([
+    LEGACY_KEYS.SERVER_URL,
+    LEGACY_KEYS.SESSION_ID,
+    LEGACY_KEYS.AUTO_CONNECT,
+    LEGACY_KEYS.TRANSPORT,
+  ]);
+  const serverUrl = legacy[LEGACY_KEYS.SERVER_URL];
+  const servers: BTCPServerConfig[] =
+    typeof serverUrl === 'string' && serverUrl
+      ? [
+          {
+            id: createServerId(),
+            serverUrl,
+            transport: normalizeTransportKind(legacy[LEGACY_KEYS.TRANSPORT]),
+            autoConnect: legacy[LEGACY_KEYS.AUTO_CONNECT] !== false,
+            enabledTools: null,
+          },
+        ]
+      : [];
+
+  await chrome.storage.local.set({
+    [BTCP_SERVERS_KEY]: servers,
+    ...(servers.length > 0 && legacy[LEGACY_KEYS.SESSION_ID]
+      ? { [SESSIONS_KEY]: { [servers[0].id]: legacy[LEGACY_KEYS.SESSION_ID] } }
+      : {}),
+  });
+  await chrome.storage.local.remove(Object.values(LEGACY_KEYS));
+  if (servers.length > 0) {
+    console.log(`${LOG_PREFIX} Migrated saved server ${serverUrl}`);
+  }
+  return servers;
+}
+
+export async function loadServerConfigs(): Promise<BTCPServerConfig[]> {
+  const stored = await chrome.storage.local.get([BTCP_SERVERS_KEY]);
+  const raw = stored[BTCP_SERVERS_KEY];
+  if (!Array.isArray(raw)) {
+    return migrateLegacyServer();
+  }
+  return raw.map(sanitizeServerConfig).filter((s): s is BTCPServerConfig => s !== null);
+}
+
+async function saveServerConfigs(servers: BTCPServerConfig[]): Promise<void> {
+  await chrome.storage.local.set({ [BTCP_SERVERS_KEY]: servers });
+}
+
+export function findServerConfig(
+  servers: BTCPServerConfig[],
+  ref: { serverId?: string; serverUrl?: string },
+): BTCPServerConfig | undefined {
+  if (ref.serverId) return servers.find((s) => s.id === ref.serverId);
+  if (!ref.serverUrl) return undefined;
+  const url = normalizeServerUrl(ref.serverUrl);
+  return servers.find((s) => normalizeServerUrl(s.serverUrl) === url);
+}
+
+/**
+ * Add a server, or update the entry with the same id (or URL when no id is given)
+ */
+export async function upsertServerConfig(
+  input: BTCPServerConfigChanges & { serverId?: string; serverUrl: string },
+): Promise<BTCPServerConfig> {
+  const { serverId, ...changes } = input;
+  const servers = await loadServerConfigs();
+  const existing = findServerConfig(servers, { serverId, serverUrl: input.serverUrl });
+  if (serverId && !existing) {
+    throw new Error(`Unknown server ${serverId}`);
+  }
+
+  const server = applyServerConfigChanges(
+    existing ?? {
+      id: createServerId(),
+      serverUrl: input.serverUrl,
+      transport: 'sse',
+      autoConnect: true,
+      enabledTools: null,
+    },
+    changes,
+  );
+
+  await saveServerConfigs(
+    existing ? servers.map((s) => (s.id === server.id ? server : s)) : [...servers, server],
+  );
+  return server;
+}
+
+export async function updateServerConfig(
+  serverId: string,
+  changes: BTCPServerConfigChanges,
+): Promise<BTCPServerConfig> {
+  const servers = await loadServerConfigs();
+  const existing = servers.find((s) => s.id === serverId);
+  if (!existing) {
+    throw new Error(`Unknown server ${serverId}`);
+  }
+  const server = applyServerConfigChanges(existing, changes);
+  await saveServerConfigs(servers.map((s) => (s.id === serverId ? server : s)));
+  return server;
+}
+
+export async function removeServerConfig(serverId: string): Promise<boolean> {
+  const servers = await loadServerConfigs();
+  const remaining = servers.filter((s) => s.id !== serverId);
+  if (remaining.length === servers.length) return false;
+  await saveServerConfigs(remaining);
+  await saveSessionId(serverId, null);
+  return true;
+}
+
+function applyServerConfigChanges(
+  base: BTCPServerConfig,
+  changes: BTCPServerConfigChanges,
+): BTCPServerConfig {
+  const next: BTCPServerConfig = { ...base };
+  if (changes.serverUrl !== undefined) next.serverUrl = changes.serverUrl.trim();
+  if (changes.label !== undefined) next.label = changes.label.trim() || undefined;
+  if (changes.transport !== undefined) next.transport = normalizeTransportKind(changes.transport);
+  if (changes.autoConnect !== undefined) next.autoConnect = changes.autoConnect;
+  if ('toolNamespace' in changes)
+    next.toolNamespace = normalizeToolNamespace(changes.toolNamespace);
+  if (changes.enabledTools !== undefined) {
+    next.enabledTools = changes.enabledTools === null ? null : [...new Set(changes.enabledTools)];
+  }
+  if (!next.serverUrl) {
+    throw new Error('Server URL required');
+  }
+  return next;
+}
+
+// ==================== Sessions ====================
+
+export async function loadSessionId(serverId: string): Promise<string | null> {
+  const stored = await chrome.storage.local.get([SESSIONS_KEY]);
+  return stored[SESSIONS_KEY]?.[serverId] ?? null;
+}
+
+export async function saveSessionId(serverId: string, sessionId: string | null): Promise<void> {
+  const stored = await chrome.storage.local.get([SESSIONS_KEY]);
+  const sessions: Record<string, string> = { ...stored[SESSIONS_KEY] };
+  if (sessionId) sessions[serverId] = sessionId;
+  else delete sessions[serverId];
+  await chrome.storage.local.set({ [SESSIONS_KEY]: sessions });
+}
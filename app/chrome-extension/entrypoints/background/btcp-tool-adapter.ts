@@ -9,7 +9,7 @@
  */
 
 import { handleCallTool } from './tools/index';
-import type { ToolResult } from '@/common/tool-handler';
+import type { ToolExecutionContext, ToolResult } from '@/common/tool-handler';
 
 /**
  * BTCP Content Types
@@ -33,6 +33,8 @@ export type BTCPContent = BTCPTextContent | BTCPImageContent;
 export interface BTCPToolCallResponse {
   content: BTCPContent[];
   isError?: boolean;
+  /** Out-of-band metadata (e.g. scheduling info) for the server */
+  _meta?: Record<string, unknown>;
 }
 
 /**
@@ -54,9 +56,14 @@ export function createImageContent(data: string, mimeType: string): BTCPImageCon
  */
 export interface BTCPToolAdapter {
   /**
-   * Execute a tool and return the result in BTCP format
+   * Execute a tool and return the result in BTCP format.
+   * `context.signal` cancels the call; `context.onProgress` receives progress updates.
    */
-  execute(toolName: string, params: Record<string, unknown>): Promise<BTCPToolCallResponse>;
+  execute(
+    toolName: string,
+    params: Record<string, unknown>,
+    context?: ToolExecutionContext,
+  ): Promise<BTCPToolCallResponse>;
 }
 
 /**
@@ -87,13 +94,17 @@ export function createBTCPToolAdapter(): BTCPToolAdapter {
     async execute(
       toolName: string,
       params: Record<string, unknown>,
+      context?: ToolExecutionContext,
     ): Promise<BTCPToolCallResponse> {
       try {
         // Call existing tool implementation
-        const result: ToolResult = await handleCallTool({
-          name: toolName,
-          args: params,
-        });
+        const result: ToolResult = await handleCallTool(
+          {
+            name: toolName,
+            args: params,
+          },
+          context,
+        );
 
         // Convert MCP ToolResult to BTCP response format
         return convertToBTCPResponse(result);
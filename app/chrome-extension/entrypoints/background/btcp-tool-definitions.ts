@@ -5,7 +5,8 @@
  * These definitions are registered with the BTCP server when the extension connects.
  */
 
-import { TOOL_SCHEMAS, TOOL_NAMES } from 'chrome-mcp-shared';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { OPTIONAL_TOOL_SCHEMAS, TOOL_SCHEMAS, TOOL_NAMES } from 'chrome-mcp-shared';
 
 /**
  * JSON Schema type for BTCP tool input schemas
@@ -209,8 +210,10 @@ function generateToolExamples(toolName: string): BTCPToolExample[] {
 /**
  * Convert MCP tool schemas to BTCP tool definitions
  */
-export function convertMCPToBTCPToolDefinitions(): BTCPToolDefinition[] {
-  return TOOL_SCHEMAS.map((mcpTool) => ({
+export function convertMCPToBTCPToolDefinitions(
+  schemas: Tool[] = TOOL_SCHEMAS,
+): BTCPToolDefinition[] {
+  return schemas.map((mcpTool) => ({
     name: mcpTool.name,
     description: mcpTool.description || '',
     inputSchema: mcpTool.inputSchema as JsonSchema,
@@ -223,9 +226,28 @@ export function convertMCPToBTCPToolDefinitions(): BTCPToolDefinition[] {
  */
 export const BTCP_TOOL_DEFINITIONS = convertMCPToBTCPToolDefinitions();
 
+/**
+ * Definitions for tools that are off unless enabled in the options page
+ */
+export const BTCP_OPTIONAL_TOOL_DEFINITIONS =
+  convertMCPToBTCPToolDefinitions(OPTIONAL_TOOL_SCHEMAS);
+
 /**
  * Get a tool definition by name
  */
 export function getToolDefinition(name: string): BTCPToolDefinition | undefined {
   return BTCP_TOOL_DEFINITIONS.find((tool) => tool.name === name);
 }
+
+/**
+ * Prefix of tools generated from published Record-Replay V3 flows
+ * (see `btcp-flow-tools.ts`)
+ */
+export const FLOW_TOOL_PREFIX = 'flow_';
+
+/**
+ * Whether a tool name belongs to a published flow rather than a built-in tool
+ */
+export function isFlowToolName(name: string): boolean {
+  return name.startsWith(FLOW_TOOL_PREFIX);
+}
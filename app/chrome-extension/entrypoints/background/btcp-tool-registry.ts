@@ -0,0 +1,368 @@
+/**
+ * BTCP Tool Registry
+ *
+ * Decides which tools are registered with the BTCP server. The catalog is the
+ * static tool set, optional tools (off by default) and one tool per published
+ * Record-Replay V3 flow (see `btcp-flow-tools.ts`); users enable or disable
+ * individual tools and whole groups from the options page. Settings live in
+ * `chrome.storage.local`.
+ *
+ * Whenever the effective set can change (settings edited, flows published or
+ * unpublished) listeners registered with `onToolSetChanged` are notified, and
+ * the client diffs the new set against what the server has and sends a
+ * `tools/update` (or re-registers).
+ */
+
+import { TOOL_NAMES } from 'chrome-mcp-shared';
+import { listPublished } from './record-replay/flow-store';
+import {
+  BTCP_OPTIONAL_TOOL_DEFINITIONS,
+  BTCP_TOOL_DEFINITIONS,
+  isFlowToolName,
+  type BTCPToolDefinition,
+} from './btcp-tool-definitions';
+import { isPublishedFlowTool, listFlowToolDefinitions } from './btcp-flow-tools';
+
+const LOG_PREFIX = '[BTCP:Registry]';
+
+const SETTINGS_STORAGE_KEY = 'btcp_tool_settings';
+
+/** Coalesce bursts of change notifications (e.g. bulk flow import) */
+const CHANGE_DEBOUNCE_MS = 100;
+
+// ==================== Types ====================
+
+export interface BTCPToolGroup {
+  id: string;
+  label: string;
+  tools: string[];
+}
+
+export interface BTCPToolSettings {
+  /** Group id -> enabled. Groups are enabled unless set to false. */
+  groups: Record<string, boolean>;
+  /** Tool name -> enabled, overriding the tool's default */
+  tools: Record<string, boolean>;
+}
+
+export interface BTCPToolCatalogEntry {
+  name: string;
+  description: string;
+  group: string;
+  /** Optional tools are off unless explicitly enabled */
+  optional: boolean;
+  enabled: boolean;
+}
+
+export interface BTCPToolSetDiff {
+  added: BTCPToolDefinition[];
+  removed: string[];
+  updated: BTCPToolDefinition[];
+}
+
+// ==================== Groups ====================
+
+const OTHER_GROUP = 'other';
+
+export const BTCP_TOOL_GROUPS: BTCPToolGroup[] = [
+  {
+    id: 'tabs',
+    label: 'Tabs & Navigation',
+    tools: [
+      TOOL_NAMES.BROWSER.GET_WINDOWS_AND_TABS,
+      TOOL_NAMES.BROWSER.NAVIGATE,
+      TOOL_NAMES.BROWSER.CLOSE_TABS,
+      TOOL_NAMES.BROWSER.SWITCH_TAB,
+    ],
+  },
+  {
+    id: 'reading',
+    label: 'Page Reading',
+    tools: [
+      TOOL_NAMES.BROWSER.READ_PAGE,
+      TOOL_NAMES.BROWSER.ACCESSIBILITY,
+      TOOL_NAMES.BROWSER.WEB_FETCHER,
+      TOOL_NAMES.BROWSER.SCREENSHOT,
+      TOOL_NAMES.BROWSER.VISUAL_DIFF,
+      TOOL_NAMES.BROWSER.CONSOLE,
+      TOOL_NAMES.BROWSER.SEARCH_TABS_CONTENT,
+    ],
+  },
+  {
+    id: 'interaction',
+    label: 'Page Interaction',
+    tools: [
+      TOOL_NAMES.BROWSER.COMPUTER,
+      TOOL_NAMES.BROWSER.CLICK,
+      TOOL_NAMES.BROWSER.FILL,
+      TOOL_NAMES.BROWSER.KEYBOARD,
+      TOOL_NAMES.BROWSER.REQUEST_ELEMENT_SELECTION,
+      TOOL_NAMES.BROWSER.HANDLE_DIALOG,
+      TOOL_NAMES.BROWSER.FILE_UPLOAD,
+    ],
+  },
+  {
+    id: 'network',
+    label: 'Network',
+    tools: [
+      TOOL_NAMES.BROWSER.NETWORK_CAPTURE,
+      TOOL_NAMES.BROWSER.NETWORK_REQUEST,
+      TOOL_NAMES.BROWSER.NETWORK_INTERCEPT,
+    ],
+  },
+  {
+    id: 'scripting',
+    label: 'Scripting',
+    tools: [
+      TOOL_NAMES.BROWSER.JAVASCRIPT,
+      TOOL_NAMES.BROWSER.INJECT_SCRIPT,
+      TOOL_NAMES.BROWSER.SEND_COMMAND_TO_INJECT_SCRIPT,
+      TOOL_NAMES.BROWSER.USERSCRIPT,
+    ],
+  },
+  {
+    id: 'media',
+    label: 'Downloads & Recording',
+    tools: [
+      TOOL_NAMES.BROWSER.HANDLE_DOWNLOAD,
+      TOOL_NAMES.BROWSER.GIF_RECORDER,
+      TOOL_NAMES.BROWSER.EXPORT_PAGE,
+    ],
+  },
+  {
+    id: 'emulation',
+    label: 'Device Emulation',
+    tools: [TOOL_NAMES.BROWSER.EMULATE],
+  },
+  {
+    id: 'performance',
+    label: 'Performance',
+    tools: [
+      TOOL_NAMES.BROWSER.PERFORMANCE_START_TRACE,
+      TOOL_NAMES.BROWSER.PERFORMANCE_STOP_TRACE,
+      TOOL_NAMES.BROWSER.PERFORMANCE_ANALYZE_INSIGHT,
+    ],
+  },
+  {
+    id: 'browser-data',
+    label: 'Browser Data',
+    tools: [
+      TOOL_NAMES.BROWSER.HISTORY,
+      TOOL_NAMES.BROWSER.BOOKMARK_SEARCH,
+      TOOL_NAMES.BROWSER.BOOKMARK_ADD,
+      TOOL_NAMES.BROWSER.BOOKMARK_DELETE,
+      TOOL_NAMES.BROWSER.STORAGE_STATE,
+    ],
+  },
+  {
+    id: 'flows',
+    label: 'Record & Replay Flows',
+    tools: [TOOL_NAMES.RECORD_REPLAY.FLOW_RUN, TOOL_NAMES.RECORD_REPLAY.LIST_PUBLISHED],
+  },
+];
+
+export function getToolGroupId(toolName: string): string {
+  if (isFlowToolName(toolName)) return 'flows';
+  return BTCP_TOOL_GROUPS.find((g) => g.tools.includes(toolName))?.id ?? OTHER_GROUP;
+}
+
+// ==================== Pure Helpers ====================
+
+const OPTIONAL_TOOL_NAMES = new Set(BTCP_OPTIONAL_TOOL_DEFINITIONS.map((d) => d.name));
+
+export const DEFAULT_TOOL_SETTINGS: BTCPToolSettings = { groups: {}, tools: {} };
+
+/**
+ * Whether a tool is enabled. A disabled group turns off all of its tools.
+ */
+export function isToolEnabled(
+  settings: BTCPToolSettings,
+  toolName: string,
+  optional: boolean = OPTIONAL_TOOL_NAMES.has(toolName),
+): boolean {
+  if (settings.groups[getToolGroupId(toolName)] === false) return false;
+  return settings.tools[toolName] ?? !optional;
+}
+
+/**
+ * Difference between the registered tool set and a new one
+ */
+export function diffToolDefinitions(
+  previous: BTCPToolDefinition[],
+  next: BTCPToolDefinition[],
+): BTCPToolSetDiff {
+  const before = new Map(previous.map((d) => [d.name, JSON.stringify(d)]));
+  const after = new Set(next.map((d) => d.name));
+
+  return {
+    added: next.filter((d) => !before.has(d.name)),
+    removed: previous.filter((d) => !after.has(d.name)).map((d) => d.name),
+    updated: next.filter((d) => before.has(d.name) && before.get(d.name) !== JSON.stringify(d)),
+  };
+}
+
+export function isEmptyToolSetDiff(diff: BTCPToolSetDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.updated.length === 0;
+}
+
+// ==================== Settings Store ====================
+
+export async function loadToolSettings(): Promise<BTCPToolSettings> {
+  const result = await chrome.storage.local.get([SETTINGS_STORAGE_KEY]);
+  const stored = result[SETTINGS_STORAGE_KEY] as Partial<BTCPToolSettings> | undefined;
+  return {
+    groups: { ...stored?.groups },
+    tools: { ...stored?.tools },
+  };
+}
+
+export async function saveToolSettings(settings: BTCPToolSettings): Promise<void> {
+  await chrome.storage.local.set({ [SETTINGS_STORAGE_KEY]: settings });
+}
+
+// ==================== Catalog ====================
+
+/**
+ * `record_replay_flow_run` lists the currently published flows so agents can
+ * pick a flowId without a discovery call.
+ */
+async function describePublishedFlows(definition: BTCPToolDefinition): Promise<BTCPToolDefinition> {
+  const published = await listPublished().catch(() => []);
+  if (published.length === 0) return definition;
+
+  const flowIdSchema = definition.inputSchema.properties?.flowId ?? {};
+  const listing = published
+    .map((f) => `- ${f.id}: ${f.name}${f.description ? ` (${f.description})` : ''}`)
+    .join('\n');
+  return {
+    ...definition,
+    description: `${definition.description}\nPublished flows:\n${listing}`,
+    inputSchema: {
+      ...definition.inputSchema,
+      properties: {
+        ...definition.inputSchema.properties,
+        flowId: { ...flowIdSchema, enum: published.map((f) => f.id) },
+      },
+    },
+  };
+}
+
+/**
+ * Every known tool with its group and enabled state (for the options page)
+ */
+export async function getToolCatalog(): Promise<BTCPToolCatalogEntry[]> {
+  const settings = await loadToolSettings();
+  const entries = (definitions: BTCPToolDefinition[], optional: boolean) =>
+    definitions.map((d) => ({
+      name: d.name,
+      description: d.description,
+      group: getToolGroupId(d.name),
+      optional,
+      enabled: isToolEnabled(settings, d.name, optional),
+    }));
+  return [
+    ...entries(BTCP_TOOL_DEFINITIONS, false),
+    ...entries(BTCP_OPTIONAL_TOOL_DEFINITIONS, true),
+    ...entries(await listFlowToolDefinitions(), false),
+  ];
+}
+
+/**
+ * Definitions to register with the server
+ */
+export async function getEnabledToolDefinitions(): Promise<BTCPToolDefinition[]> {
+  const settings = await loadToolSettings();
+  const enabled = [
+    ...BTCP_TOOL_DEFINITIONS,
+    ...BTCP_OPTIONAL_TOOL_DEFINITIONS,
+    ...(await listFlowToolDefinitions()),
+  ].filter((d) => isToolEnabled(settings, d.name));
+  return Promise.all(
+    enabled.map((d) =>
+      d.name === TOOL_NAMES.RECORD_REPLAY.FLOW_RUN ? describePublishedFlows(d) : d,
+    ),
+  );
+}
+
+export async function isToolNameEnabled(toolName: string): Promise<boolean> {
+  const known = isFlowToolName(toolName)
+    ? await isPublishedFlowTool(toolName)
+    : BTCP_TOOL_DEFINITIONS.some((d) => d.name === toolName) || OPTIONAL_TOOL_NAMES.has(toolName);
+  return known && isToolEnabled(await loadToolSettings(), toolName);
+}
+
+// ==================== Change Notification ====================
+
+type ToolSetListener = () => void;
+
+const listeners = new Set<ToolSetListener>();
+let changeTimer: ReturnType<typeof setTimeout> | null = null;
+
+export function onToolSetChanged(listener: ToolSetListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Signal that the effective tool set may have changed
+ */
+export function notifyToolSetChanged(): void {
+  if (changeTimer) return;
+  changeTimer = setTimeout(() => {
+    changeTimer = null;
+    for (const listener of listeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.warn(`${LOG_PREFIX} Tool set listener failed:`, error);
+      }
+    }
+  }, CHANGE_DEBOUNCE_MS);
+}
+
+// ==================== Message Handling ====================
+
+export function initToolRegistryListeners(): void {
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && SETTINGS_STORAGE_KEY in changes) {
+      notifyToolSetChanged();
+    }
+  });
+
+  chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    const msgType = message?.type;
+
+    if (msgType === 'btcp_tool_catalog') {
+      Promise.all([getToolCatalog(), loadToolSettings()])
+        .then(([tools, settings]) =>
+          sendResponse({ success: true, groups: BTCP_TOOL_GROUPS, tools, settings }),
+        )
+        .catch((e) => sendResponse({ success: false, error: String(e) }));
+      return true;
+    }
+
+    // Partial update: { groups?: { [id]: boolean|null }, tools?: { [name]: boolean|null } }
+    // null clears an override
+    if (msgType === 'btcp_tool_settings_set') {
+      loadToolSettings()
+        .then(async (settings) => {
+          for (const [key, target] of [
+            ['groups', settings.groups],
+            ['tools', settings.tools],
+          ] as const) {
+            const patch = (message?.[key] || {}) as Record<string, boolean | null>;
+            for (const [name, value] of Object.entries(patch)) {
+              if (value === null) delete target[name];
+              else target[name] = !!value;
+            }
+          }
+          await saveToolSettings(settings);
+          sendResponse({ success: true, settings, tools: await getToolCatalog() });
+        })
+        .catch((e) => sendResponse({ success: false, error: String(e) }));
+      return true;
+    }
+
+    return false;
+  });
+}
@@ -0,0 +1,493 @@
+/**
+ * BTCP Transport Layer
+ *
+ * Abstracts the wire protocol between the extension and the BTCP server so that
+ * `btcp-client.ts` can stay transport-agnostic. Two implementations are provided:
+ *
+ * - `sse`: EventSource for inbound events, one HTTP POST per outbound message
+ *   (the original behavior, kept as the fallback)
+ * - `websocket`: a single bidirectional WebSocket carrying both directions
+ *
+ * Inbound events are normalized to `(event, data)` pairs using the SSE event
+ * names (`tool_call`, `session`, `ping`), so the client handles both the same way.
+ *
+ * When a server credential is provided (see `btcp-auth.ts`), every outbound
+ * request and handshake is signed.
+ */
+
+import { buildAuthHeaders, buildAuthQuery, type BTCPServerCredential } from './btcp-auth';
+
+const LOG_PREFIX = '[BTCP:Transport]';
+
+const WEBSOCKET_PATH = '/ws';
+
+// ==================== Types ====================
+
+export type BTCPTransportKind = 'sse' | 'websocket';
+
+export const BTCP_TRANSPORT_KINDS: readonly BTCPTransportKind[] = ['sse', 'websocket'];
+
+/**
+ * Inbound event names understood by the client
+ */
+export const BTCP_INBOUND_EVENTS = [
+  'tool_call',
+  'tool_cancel',
+  'session',
+  'ping',
+  'ack',
+  'replay',
+] as const;
+
+/** JSON-RPC methods delivered under a different event name */
+const JSON_RPC_METHOD_EVENTS: Record<string, string> = {
+  'tools/call': 'tool_call',
+  'notifications/cancelled': 'tool_cancel',
+};
+
+export interface BTCPJsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface BTCPJsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string;
+  method: string;
+  params?: unknown;
+}
+
+export interface BTCPJsonRpcResponse {
+  jsonrpc: '2.0';
+  id: string;
+  result?: unknown;
+  error?: BTCPJsonRpcError;
+}
+
+export type BTCPOutboundMessage = BTCPJsonRpcRequest | BTCPJsonRpcResponse;
+
+export interface BTCPTransportHandlers {
+  /** Called once the underlying connection is ready to send and receive */
+  onOpen: () => void;
+  /** Called when the connection is gone and will not recover by itself */
+  onClose: (reason: string) => void;
+  /** Called for non-fatal errors (the transport may still recover) */
+  onError: (error: unknown) => void;
+  /** Called for each inbound event */
+  onEvent: (event: string, data: unknown) => void;
+}
+
+export interface BTCPTransportOptions {
+  /** BTCP server base URL (http/https) */
+  serverUrl: string;
+  /** Client ID assigned for this connection */
+  clientId: string;
+  /** Returns the current session ID (may change after a `session` event) */
+  getSessionId: () => string | null;
+  /** Timeout for opening the connection and for request/response round-trips */
+  connectionTimeout: number;
+  /** Pairing credential used to sign requests (unsigned when absent) */
+  credential?: BTCPServerCredential | null;
+  handlers: BTCPTransportHandlers;
+  /** Optional debug logger */
+  log?: (message: string, ...args: any[]) => void;
+}
+
+export interface BTCPTransport {
+  readonly kind: BTCPTransportKind;
+  /**
+   * Whether a resolved `send` means the server accepted the message (HTTP 2xx).
+   * When false, delivery is only confirmed by a later `ack` event.
+   */
+  readonly acknowledgesDelivery: boolean;
+  /** Whether the transport has opened and is not closed */
+  isOpen(): boolean;
+  /** Open the connection. Outcome is reported through the handlers. */
+  connect(): void;
+  /** Close the connection without notifying `onClose` */
+  close(): void;
+  /**
+   * Send a JSON-RPC message. Resolves with the server's reply for requests
+   * (when the transport can correlate one) or `undefined` otherwise.
+   */
+  send(message: BTCPOutboundMessage): Promise<unknown>;
+}
+
+// ==================== Helpers ====================
+
+function isJsonRpcResponse(message: BTCPOutboundMessage): message is BTCPJsonRpcResponse {
+  return !('method' in message);
+}
+
+function parseEventData(raw: unknown): unknown {
+  if (typeof raw !== 'string' || raw.length === 0) return raw;
+  return JSON.parse(raw);
+}
+
+function buildIdentityHeaders(options: BTCPTransportOptions): Record<string, string> {
+  const sessionId = options.getSessionId();
+  return {
+    'X-Client-ID': options.clientId,
+    ...(sessionId && { 'X-Session-ID': sessionId }),
+  };
+}
+
+function trimServerUrl(serverUrl: string): string {
+  return serverUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Build a handshake URL carrying identity and, when paired, signature query params
+ */
+async function buildHandshakeUrl(
+  options: BTCPTransportOptions,
+  base: string,
+  path: string,
+): Promise<URL> {
+  const url = new URL(`${trimServerUrl(base)}${path}`);
+  url.searchParams.set('clientId', options.clientId);
+  const sessionId = options.getSessionId();
+  if (sessionId) {
+    url.searchParams.set('sessionId', sessionId);
+  }
+  if (options.credential) {
+    const query = await buildAuthQuery(options.credential, path);
+    for (const [key, value] of Object.entries(query)) {
+      url.searchParams.set(key, value);
+    }
+  }
+  return url;
+}
+
+/**
+ * Map an outbound message to the HTTP endpoint used by the SSE transport.
+ * Responses go to `/tools/response`, requests to `/<method>` (e.g. `/tools/register`).
+ */
+export function getHttpEndpoint(message: BTCPOutboundMessage): string {
+  if (isJsonRpcResponse(message)) return '/tools/response';
+  return `/${message.method.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Derive the WebSocket URL for a BTCP server (`http://host` -> `ws://host/ws`)
+ */
+export function toWebSocketUrl(serverUrl: string): string {
+  const url = new URL(serverUrl);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  url.pathname = `${url.pathname.replace(/\/+$/, '')}${WEBSOCKET_PATH}`;
+  return url.toString();
+}
+
+// ==================== SSE Transport ====================
+
+/**
+ * SSE + POST transport: EventSource for inbound events, fetch for outbound messages
+ */
+export function createSSETransport(options: BTCPTransportOptions): BTCPTransport {
+  const { handlers } = options;
+  let eventSource: EventSource | null = null;
+  let open = false;
+  // Incremented on every connect/close so a stale async handshake is discarded
+  let generation = 0;
+
+  const close = (): void => {
+    generation++;
+    open = false;
+    if (eventSource) {
+      eventSource.close();
+      eventSource = null;
+    }
+  };
+
+  const openEventSource = (url: URL): void => {
+    options.log?.(`Connecting to SSE: ${url.origin}${url.pathname}`);
+
+    const source = new EventSource(url.toString());
+    eventSource = source;
+
+    source.onopen = () => {
+      open = true;
+      handlers.onOpen();
+    };
+
+    source.onerror = (event) => {
+      handlers.onError(event);
+      if (source.readyState === EventSource.CLOSED) {
+        open = false;
+        if (eventSource === source) eventSource = null;
+        handlers.onClose('sse_error');
+      }
+    };
+
+    for (const eventName of BTCP_INBOUND_EVENTS) {
+      source.addEventListener(eventName, (event) => {
+        try {
+          handlers.onEvent(eventName, parseEventData((event as MessageEvent).data));
+        } catch (e) {
+          console.warn(`${LOG_PREFIX} Failed to parse ${eventName} event:`, e);
+        }
+      });
+    }
+  };
+
+  return {
+    kind: 'sse',
+    acknowledgesDelivery: true,
+
+    isOpen: () => open,
+
+    connect(): void {
+      close();
+      const current = generation;
+
+      buildHandshakeUrl(options, options.serverUrl, '/events')
+        .then((url) => {
+          if (current === generation) openEventSource(url);
+        })
+        .catch((error) => {
+          if (current !== generation) return;
+          handlers.onError(error);
+          handlers.onClose('handshake_error');
+        });
+    },
+
+    close,
+
+    async send(message: BTCPOutboundMessage): Promise<unknown> {
+      const path = getHttpEndpoint(message);
+      const body = JSON.stringify(message);
+      const res = await fetch(`${trimServerUrl(options.serverUrl)}${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...buildIdentityHeaders(options),
+          ...(options.credential &&
+            (await buildAuthHeaders(options.credential, 'POST', path, body))),
+        },
+        body,
+      });
+
+      if (!res.ok) {
+        throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+      }
+
+      const text = await res.text();
+      return text ? JSON.parse(text) : undefined;
+    },
+  };
+}
+
+// ==================== WebSocket Transport ====================
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * WebSocket transport: one bidirectional socket at `<serverUrl>/ws`.
+ *
+ * Server frames are either `{ event, data }` envelopes (mirroring SSE events),
+ * JSON-RPC requests (`tools/call` is delivered as a `tool_call` event,
+ * `notifications/cancelled` as `tool_cancel`), or
+ * JSON-RPC responses correlated with a pending outbound request by `id`.
+ */
+export function createWebSocketTransport(options: BTCPTransportOptions): BTCPTransport {
+  const { handlers } = options;
+  const pending = new Map<string, PendingRequest>();
+  let socket: WebSocket | null = null;
+  let open = false;
+  let generation = 0;
+  let openTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const clearOpenTimer = (): void => {
+    if (openTimer) {
+      clearTimeout(openTimer);
+      openTimer = null;
+    }
+  };
+
+  const rejectPending = (reason: string): void => {
+    for (const [id, request] of pending) {
+      clearTimeout(request.timer);
+      request.reject(new Error(`Request ${id} failed: ${reason}`));
+    }
+    pending.clear();
+  };
+
+  const handleFrame = (raw: unknown): void => {
+    const frame = parseEventData(raw) as Record<string, unknown> | null;
+    if (!frame || typeof frame !== 'object') return;
+
+    // Envelope mirroring SSE events
+    if (typeof frame.event === 'string') {
+      handlers.onEvent(frame.event, frame.data);
+      return;
+    }
+
+    // JSON-RPC request from the server
+    if (typeof frame.method === 'string') {
+      const eventName = JSON_RPC_METHOD_EVENTS[frame.method] ?? frame.method;
+      handlers.onEvent(eventName, frame);
+      return;
+    }
+
+    // JSON-RPC response to one of our requests
+    if (typeof frame.id === 'string' && pending.has(frame.id)) {
+      const request = pending.get(frame.id)!;
+      pending.delete(frame.id);
+      clearTimeout(request.timer);
+      const error = frame.error as BTCPJsonRpcError | undefined;
+      if (error) {
+        request.reject(new Error(`RPC ${error.code}: ${error.message}`));
+      } else {
+        request.resolve(frame.result);
+      }
+    }
+  };
+
+  const close = (): void => {
+    generation++;
+    clearOpenTimer();
+    open = false;
+    rejectPending('transport closed');
+    if (socket) {
+      const current = socket;
+      socket = null;
+      current.onopen = null;
+      current.onclose = null;
+      current.onerror = null;
+      current.onmessage = null;
+      try {
+        current.close(1000, 'client_close');
+      } catch {
+        // Ignore
+      }
+    }
+  };
+
+  const openSocket = (url: URL): void => {
+    options.log?.(`Connecting to WebSocket: ${url.origin}${url.pathname}`);
+
+    const ws = new WebSocket(url.toString());
+    socket = ws;
+
+    openTimer = setTimeout(() => {
+      openTimer = null;
+      if (!open && socket === ws) {
+        close();
+        handlers.onClose('ws_timeout');
+      }
+    }, options.connectionTimeout);
+
+    ws.onopen = () => {
+      clearOpenTimer();
+      open = true;
+      handlers.onOpen();
+    };
+
+    ws.onerror = (event) => {
+      handlers.onError(event);
+    };
+
+    ws.onclose = (event) => {
+      if (socket !== ws) return;
+      clearOpenTimer();
+      socket = null;
+      open = false;
+      rejectPending(`socket closed (${event.code})`);
+      handlers.onClose(`ws_close_${event.code}`);
+    };
+
+    ws.onmessage = (event) => {
+      try {
+        handleFrame(event.data);
+      } catch (e) {
+        console.warn(`${LOG_PREFIX} Failed to handle WebSocket frame:`, e);
+      }
+    };
+  };
+
+  return {
+    kind: 'websocket',
+    acknowledgesDelivery: false,
+
+    isOpen: () => open,
+
+    connect(): void {
+      close();
+      const current = generation;
+
+      // The handshake is signed once; frames on an authenticated socket are trusted
+      const wsBase = toWebSocketUrl(options.serverUrl).slice(0, -WEBSOCKET_PATH.length);
+      buildHandshakeUrl(options, wsBase, WEBSOCKET_PATH)
+        .then((url) => {
+          if (current === generation) openSocket(url);
+        })
+        .catch((error) => {
+          if (current !== generation) return;
+          handlers.onError(error);
+          handlers.onClose('handshake_error');
+        });
+    },
+
+    close,
+
+    send(message: BTCPOutboundMessage): Promise<unknown> {
+      if (!socket || !open) {
+        return Promise.reject(new Error('WebSocket is not open'));
+      }
+
+      const payload = JSON.stringify(message);
+
+      // Requests with an id wait for the correlated reply; everything else is fire-and-forget
+      if (!isJsonRpcResponse(message) && message.id) {
+        const id = message.id;
+        return new Promise<unknown>((resolve, reject) => {
+          const timer = setTimeout(() => {
+            pending.delete(id);
+            reject(new Error(`Request ${id} timed out after ${options.connectionTimeout}ms`));
+          }, options.connectionTimeout);
+          pending.set(id, { resolve, reject, timer });
+          try {
+            socket!.send(payload);
+          } catch (e) {
+            clearTimeout(timer);
+            pending.delete(id);
+            reject(e instanceof Error ? e : new Error(String(e)));
+          }
+        });
+      }
+
+      try {
+        socket.send(payload);
+        return Promise.resolve(undefined);
+      } catch (e) {
+        return Promise.reject(e instanceof Error ? e : new Error(String(e)));
+      }
+    },
+  };
+}
+
+// ==================== Factory ====================
+
+/**
+ * Create a transport of the given kind
+ */
+export function createBTCPTransport(
+  kind: BTCPTransportKind,
+  options: BTCPTransportOptions,
+): BTCPTransport {
+  return kind === 'websocket' ? createWebSocketTransport(options) : createSSETransport(options);
+}
+
+/**
+ * Normalize an unknown value (e.g. from storage or a UI message) to a transport kind
+ */
+export function normalizeTransportKind(value: unknown): BTCPTransportKind {
+  return BTCP_TRANSPORT_KINDS.includes(value as BTCPTransportKind)
+    ? (value as BTCPTransportKind)
+    : 'sse';
+}
@@ -1,4 +1,7 @@
 import { initBTCPClientListener } from './btcp-client';
+import { initToolPermissionListeners } from './btcp-permissions';
+import { initAuditLogListeners } from './btcp-audit';
+import { initToolRegistryListeners, notifyToolSetChanged } from './btcp-tool-registry';
 import {
   initSemanticSimilarityListener,
   initializeSemanticEngineIfCached,
@@ -49,6 +52,9 @@ export default defineBackground(() => {
 
   // Initialize BTCP client (replaces native messaging)
   initBTCPClientListener();
+  initToolPermissionListeners();
+  initToolRegistryListeners();
+  initAuditLogListeners();
   initSemanticSimilarityListener();
   initStorageManagerListener();
 
@@ -74,9 +80,11 @@ export default defineBackground(() => {
 
   // Record & Replay V3 (new engine)
   if (ENABLE_RR_V3) {
-    bootstrapV3()
+    bootstrapV3({ onFlowsChanged: notifyToolSetChanged })
       .then((runtime) => {
         console.log(`[RR-V3] Bootstrap complete, ownerId: ${runtime.ownerId}`);
+        // Published flows become available as BTCP tools
+        notifyToolSetChanged();
       })
       .catch((error) => {
         console.error('[RR-V3] Bootstrap failed:', error);
@@ -33,6 +33,8 @@ import { createIntervalTriggerHandlerFactory } from './engine/triggers/interval-
 import { createOnceTriggerHandlerFactory } from './engine/triggers/once-trigger';
 import { createManualTriggerHandlerFactory } from './engine/triggers/manual-trigger';
 
+import { createBatchManager, type BatchManager } from './engine/batch/batch-manager';
+
 import { createChromeArtifactService } from './engine/kernel/artifacts';
 import { createRunRunnerFactory, type RunRunnerFactory } from './engine/kernel/runner';
 import {
@@ -67,10 +69,19 @@ export interface V3Runtime {
   runners: RunnerRegistry;
   debugController: DebugController;
   triggers: TriggerManager;
+  batches: BatchManager;
   rpcServer: RpcServer;
   stop(): Promise<void>;
 }
 
+/**
+ * V3 启动选项
+ */
+export interface V3BootstrapOptions {
+  /** Flow 保存/删除/发布后的回调 */
+  onFlowsChanged?: () => void;
+}
+
 // ==================== Singleton State ====================
 
 let runtime: V3Runtime | null = null;
@@ -277,7 +288,7 @@ function createDefaultRunExecutor(deps: {
  * 启动 RR-V3 运行时
  * @returns 运行时句柄
  */
-export async function bootstrapV3(): Promise<V3Runtime> {
+export async function bootstrapV3(options: V3BootstrapOptions = {}): Promise<V3Runtime> {
   if (runtime) return runtime;
   if (bootstrapPromise) return bootstrapPromise;
 
@@ -312,7 +323,7 @@ export async function bootstrapV3(): Promise<V3Runtime> {
     // 7) PluginRegistry - register V2 action handlers as V3 nodes
     const plugins = new PluginRegistry();
     const registeredNodes = registerV2ReplayNodesAsV3Nodes(plugins, {
-      // Exclude control directives that V3 runner doesn't support
+      // foreach/while are executed natively by the runner (engine/kernel/loops.ts)
       exclude: [...DEFAULT_V2_EXCLUDE_LIST],
     });
     logger.debug(`[RR-V3] Registered ${registeredNodes.length} V2 action handlers as V3 nodes`);
@@ -322,7 +333,7 @@ export async function bootstrapV3(): Promise<V3Runtime> {
       storage,
       events,
       plugins,
-      artifactService: createChromeArtifactService(),
+      artifactService: createChromeArtifactService({ store: storage.artifacts }),
       now,
     });
 
@@ -366,6 +377,16 @@ export async function bootstrapV3(): Promise<V3Runtime> {
       logger,
     });
 
+    // 9) BatchManager (data-driven batch runs)
+    const batches = createBatchManager({
+      storage,
+      events,
+      scheduler,
+      runners,
+      now,
+      logger,
+    });
+
     // 10) RpcServer (created but started after recovery)
     const rpcServer = new RpcServer({
       storage,
@@ -374,7 +395,9 @@ export async function bootstrapV3(): Promise<V3Runtime> {
       debugController,
       runners,
       triggerManager: triggers,
+      batchManager: batches,
       now,
+      onFlowsChanged: options.onFlowsChanged,
     });
 
     // Cleanup helper for error recovery
@@ -389,6 +412,11 @@ export async function bootstrapV3(): Promise<V3Runtime> {
       } catch {
         /* ignore */
       }
+      try {
+        batches.stop();
+      } catch {
+        /* ignore */
+      }
       try {
         scheduler.stop();
       } catch {
@@ -411,7 +439,8 @@ export async function bootstrapV3(): Promise<V3Runtime> {
       logger.info('[RR-V3] Running crash recovery...');
       await recoverFromCrash({ storage, events, ownerId, now, logger });
 
-      // 11) Start components
+      // 11) Start components (batches subscribe to run events before the scheduler starts)
+      await batches.start();
       scheduler.start();
       await triggers.start();
       rpcServer.start();
@@ -432,12 +461,14 @@ export async function bootstrapV3(): Promise<V3Runtime> {
       runners,
       debugController,
       triggers,
+      batches,
       rpcServer,
       stop: async () => {
         logger.info('[RR-V3] Stopping...');
-        // Stop order: RPC first (block new requests) -> triggers -> scheduler -> lease -> debug
+        // Stop order: RPC first (block new requests) -> triggers -> batches -> scheduler -> lease -> debug
         rpcServer.stop();
         await triggers.stop().catch(() => {});
+        batches.stop();
         scheduler.stop();
         leaseManager.dispose();
         debugController.stop();
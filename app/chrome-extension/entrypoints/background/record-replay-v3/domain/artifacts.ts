@@ -0,0 +1,73 @@
+/**
+ * @fileoverview 工件（Artifact）类型定义
+ * @description 定义 Run 执行期间采集的截图、控制台日志和网络请求工件，以及保留策略
+ */
+
+import type { NodeId, RunId } from './ids';
+import type { UnixMillis } from './json';
+
+/** Artifact ID */
+export type ArtifactId = string;
+
+/**
+ * 工件类型
+ * - screenshot: 截图（base64 图片）
+ * - console: 节点执行期间的控制台消息和异常（JSON）
+ * - network: 节点执行期间的网络请求（JSON）
+ */
+export type ArtifactKind = 'screenshot' | 'console' | 'network';
+
+/**
+ * 工件元数据
+ * @description list 接口只返回元数据，数据需通过 get 单独获取
+ */
+export interface ArtifactMeta {
+  id: ArtifactId;
+  runId: RunId;
+  nodeId: NodeId;
+  kind: ArtifactKind;
+  /** 文件名（下载时使用） */
+  name: string;
+  mimeType: string;
+  /** 数据大小（字节，按字符串长度估算） */
+  size: number;
+  createdAt: UnixMillis;
+  /** 采集时间窗口 */
+  window?: { startedAt: UnixMillis; endedAt: UnixMillis };
+}
+
+/**
+ * 工件记录
+ * @description data 为 base64（截图）或 JSON 文本（console / network）
+ */
+export interface ArtifactRecord extends ArtifactMeta {
+  data: string;
+}
+
+/**
+ * 工件保留策略
+ * @description 清理顺序：过期工件 -> 超出单 Run 数量的最旧工件 -> 超出总容量的最旧工件
+ */
+export interface ArtifactRetentionPolicy {
+  /** 最长保留时间（毫秒） */
+  maxAgeMs?: UnixMillis;
+  /** 所有工件的总容量上限（字节） */
+  maxTotalBytes?: number;
+  /** 单个 Run 的工件数量上限 */
+  maxArtifactsPerRun?: number;
+}
+
+/** 默认保留策略：7 天 / 200MB / 每个 Run 500 个 */
+export const DEFAULT_ARTIFACT_RETENTION: Required<ArtifactRetentionPolicy> = {
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000,
+  maxTotalBytes: 200 * 1024 * 1024,
+  maxArtifactsPerRun: 500,
+};
+
+/**
+ * 从工件记录中去掉数据
+ */
+export function toArtifactMeta(record: ArtifactRecord): ArtifactMeta {
+  const { data: _data, ...meta } = record;
+  return meta;
+}
@@ -0,0 +1,153 @@
+/**
+ * @fileoverview 数据集与批量运行类型定义
+ * @description 数据集是上传到 V3 存储的 CSV / JSON 表格数据；
+ * 批量运行按列映射把数据集的每一行转换为 Flow 参数，每行入队一个 Run，并汇总逐行结果
+ */
+
+import type { FlowId, RunId } from './ids';
+import type { JsonObject, UnixMillis } from './json';
+import type { RRError } from './errors';
+import type { VariableName } from './variables';
+
+/** Dataset ID */
+export type DatasetId = string;
+
+/** Batch ID */
+export type BatchId = string;
+
+/** 数据集来源格式 */
+export type DatasetFormat = 'csv' | 'json';
+
+/**
+ * 数据集元数据
+ * @description list 接口只返回元数据，行数据需通过 get 单独获取
+ */
+export interface DatasetMeta {
+  id: DatasetId;
+  name: string;
+  format: DatasetFormat;
+  /** 列名（CSV 表头 / JSON 对象键，按首次出现顺序） */
+  columns: string[];
+  rowCount: number;
+  createdAt: UnixMillis;
+  updatedAt: UnixMillis;
+}
+
+/**
+ * 数据集记录
+ * @description CSV 的值均为字符串，JSON 保留原始值
+ */
+export interface DatasetRecord extends DatasetMeta {
+  rows: JsonObject[];
+}
+
+/** 单个数据集的最大行数 */
+export const MAX_DATASET_ROWS = 10_000;
+
+/**
+ * 批量运行状态
+ * - running: 仍有待执行或执行中的行
+ * - succeeded: 所有行均成功
+ * - failed: 至少一行未成功（失败、被取消或因 stopOnFailure 跳过）
+ * - canceled: 被用户取消
+ */
+export type BatchStatus = 'running' | 'succeeded' | 'failed' | 'canceled';
+
+/**
+ * 单行状态
+ * - pending: 尚未入队
+ * - queued: 已入队，等待调度
+ * - running: Run 执行中
+ * - succeeded / failed / canceled: Run 的终态
+ * - skipped: 因 stopOnFailure 或批量取消而未入队
+ */
+export type BatchRowStatus =
+  | 'pending'
+  | 'queued'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled'
+  | 'skipped';
+
+/**
+ * 单行结果
+ */
+export interface BatchRowResult {
+  /** 数据集中的行号（0-based） */
+  index: number;
+  status: BatchRowStatus;
+  /** 按列映射得到的 Run 参数 */
+  args: JsonObject;
+  runId?: RunId;
+  outputs?: JsonObject;
+  error?: RRError;
+  startedAt?: UnixMillis;
+  finishedAt?: UnixMillis;
+}
+
+/**
+ * 批量运行记录
+ */
+export interface BatchRecord {
+  id: BatchId;
+  flowId: FlowId;
+  datasetId: DatasetId;
+  /** Flow 变量名 -> 数据集列名 */
+  mapping: Record<VariableName, string>;
+  /** 同时处于排队/执行中的最大 Run 数 */
+  concurrency: number;
+  /** 任一行失败后不再入队剩余行 */
+  stopOnFailure: boolean;
+  status: BatchStatus;
+  rows: BatchRowResult[];
+  createdAt: UnixMillis;
+  updatedAt: UnixMillis;
+  finishedAt?: UnixMillis;
+}
+
+/** 默认并发数 */
+export const DEFAULT_BATCH_CONCURRENCY = 1;
+
+/** 最大并发数 */
+export const MAX_BATCH_CONCURRENCY = 10;
+
+/**
+ * 批量运行进度统计
+ */
+export type BatchSummary = Record<BatchRowStatus, number> & { total: number };
+
+/**
+ * 判断行是否已结束
+ */
+export function isBatchRowSettled(status: BatchRowStatus): boolean {
+  return status !== 'pending' && status !== 'queued' && status !== 'running';
+}
+
+/**
+ * 统计各状态的行数
+ */
+export function summarizeBatch(batch: Pick<BatchRecord, 'rows'>): BatchSummary {
+  const summary: BatchSummary = {
+    total: batch.rows.length,
+    pending: 0,
+    queued: 0,
+    running: 0,
+    succeeded: 0,
+    failed: 0,
+    canceled: 0,
+    skipped: 0,
+  };
+  for (const row of batch.rows) {
+    summary[row.status] += 1;
+  }
+  return summary;
+}
+
+/**
+ * 从数据集记录中去掉行数据
+ */
+export function toDatasetMeta(record: DatasetRecord): DatasetMeta {
+  const { rows: _rows, ...meta } = record;
+  return meta;
+}
@@ -32,6 +32,10 @@ export const RR_ERROR_CODES = {
   NAVIGATION_FAILED: 'NAVIGATION_FAILED',
   /** 网络请求失败 */
   NETWORK_REQUEST_FAILED: 'NETWORK_REQUEST_FAILED',
+  /** 循环达到最大迭代次数仍未结束 */
+  LOOP_LIMIT_EXCEEDED: 'LOOP_LIMIT_EXCEEDED',
+  /** 并行节点没有满足汇合条件的分支 */
+  PARALLEL_BRANCHES_FAILED: 'PARALLEL_BRANCHES_FAILED',
 
   // ===== 脚本/工具错误 =====
   /** 脚本执行失败 */
@@ -7,6 +7,7 @@ import type { JsonObject, JsonValue, UnixMillis } from './json';
 import type { EdgeLabel, FlowId, NodeId, RunId } from './ids';
 import type { RRError } from './errors';
 import type { TriggerFireContext } from './triggers';
+import type { ArtifactId, ArtifactKind } from './artifacts';
 
 /** 取消订阅函数类型 */
 export type Unsubscribe = () => void;
@@ -25,6 +26,8 @@ export interface EventBase {
   ts: UnixMillis;
   /** 单调递增序列号 */
   seq: number;
+  /** 所属并行分支（分支内产生的事件，嵌套分支以 / 连接） */
+  branchId?: string;
 }
 
 /**
@@ -83,12 +86,54 @@ export type RunEvent =
     })
   | (EventBase & { type: 'node.skipped'; nodeId: NodeId; reason: 'disabled' | 'unreachable' })
 
+  // ===== 循环事件 =====
+  | (EventBase & {
+      type: 'loop.iteration';
+      /** 循环节点 ID */
+      nodeId: NodeId;
+      /** 从 0 开始的迭代序号 */
+      index: number;
+      /** foreach / loopElements 的当前元素 */
+      item?: JsonValue;
+    })
+
+  // ===== 并行分支事件 =====
+  | (EventBase & {
+      type: 'parallel.branch.started';
+      /** parallel 节点 ID */
+      nodeId: NodeId;
+      branchId: string;
+      /** 分支第一个节点 */
+      entryNodeId: NodeId;
+      /** 分支独立运行的 tab */
+      tabId?: number;
+    })
+  | (EventBase & {
+      type: 'parallel.branch.finished';
+      nodeId: NodeId;
+      branchId: string;
+      status: 'succeeded' | 'failed' | 'canceled';
+      tookMs: number;
+      error?: RRError;
+      /** 分支内失败的节点 */
+      failedNodeId?: NodeId;
+    })
+
   // ===== 变量和日志事件 =====
   | (EventBase & {
       type: 'vars.patch';
       patch: Array<{ op: 'set' | 'delete'; name: string; value?: JsonValue }>;
     })
   | (EventBase & { type: 'artifact.screenshot'; nodeId: NodeId; data: string; savedAs?: string })
+  | (EventBase & {
+      type: 'artifact.saved';
+      nodeId: NodeId;
+      artifactId: ArtifactId;
+      kind: ArtifactKind;
+      /** 文件名 */
+      name: string;
+      size: number;
+    })
   | (EventBase & {
       type: 'log';
       level: 'debug' | 'info' | 'warn' | 'error';
@@ -148,6 +193,8 @@ export interface RunRecordV3 {
   startNodeId?: NodeId;
   /** 当前执行节点 ID */
   currentNodeId?: NodeId;
+  /** 本 Run 打开的 tab（SW 重启后重跑时沿用，Run 结束时按 FlowPolicy.tabCleanup 关闭） */
+  openedTabIds?: number[];
 
   /** 当前尝试次数 */
   attempt: number;
@@ -6,6 +6,7 @@
 import type { ISODateTimeString, JsonObject } from './json';
 import type { EdgeId, EdgeLabel, FlowId, NodeId } from './ids';
 import type { FlowPolicy, NodePolicy } from './policy';
+import type { TabHandle } from './tabs';
 import type { VariableDefinition } from './variables';
 
 /** Flow Schema 版本 */
@@ -44,6 +45,8 @@ export interface NodeV3 {
   disabled?: boolean;
   /** 节点级策略 */
   policy?: NodePolicy;
+  /** 目标 tab 句柄（缺省为当前选中的 tab） */
+  tab?: TabHandle;
   /** 节点配置（类型由 kind 决定） */
   config: JsonObject;
   /** UI 布局信息 */
@@ -59,6 +62,21 @@ export interface FlowBinding {
   value: string;
 }
 
+/**
+ * Flow 工具发布信息
+ * @description 发布后的 Flow 作为独立工具暴露给 Agent（BTCP），variables 即工具输入
+ */
+export interface FlowToolPublication {
+  /** 是否已发布 */
+  published: boolean;
+  /** 工具名称（默认由 Flow 名称生成） */
+  toolName?: string;
+  /** 工具描述（默认使用 Flow 描述） */
+  description?: string;
+  /** 发布时间 */
+  publishedAt?: ISODateTimeString;
+}
+
 /**
  * Flow V3
  * @description 完整的 Flow 定义，包含节点、边和配置
@@ -94,6 +112,8 @@ export interface FlowV3 {
     tags?: string[];
     /** 绑定规则 */
     bindings?: FlowBinding[];
+    /** 工具发布信息 */
+    tool?: FlowToolPublication;
   };
 }
 
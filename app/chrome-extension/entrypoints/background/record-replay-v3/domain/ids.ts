@@ -31,6 +31,14 @@ export const EDGE_LABELS = {
   TRUE: 'true',
   /** 条件为假时的边 */
   FALSE: 'false',
+  /** 循环节点进入循环体的边 */
+  BODY: 'body',
+  /** 循环体内结束整个循环（连回循环节点） */
+  BREAK: 'break',
+  /** 循环体内结束本次迭代（连回循环节点） */
+  CONTINUE: 'continue',
+  /** parallel 节点分叉出的分支 */
+  BRANCH: 'branch',
 } as const;
 
 /** Edge 标签类型（从常量推导） */
@@ -29,3 +29,12 @@ export * from './debug';
 
 // 触发器类型
 export * from './triggers';
+
+// 工件类型
+export * from './artifacts';
+
+// Tab 句柄
+export * from './tabs';
+
+// 数据集与批量运行
+export * from './datasets';
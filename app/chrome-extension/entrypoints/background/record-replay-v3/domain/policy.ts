@@ -65,6 +65,12 @@ export interface ArtifactPolicy {
   includeNetwork?: boolean;
 }
 
+/**
+ * Run 打开的 tab 的清理策略
+ * @description never=保留, onSuccess=成功结束时关闭, onFailure=失败或取消时关闭, always=总是关闭
+ */
+export type TabCleanupPolicy = 'never' | 'onSuccess' | 'onFailure' | 'always';
+
 /**
  * 节点级策略
  * @description 单个节点的执行策略配置
@@ -91,6 +97,8 @@ export interface FlowPolicy {
   unsupportedNodePolicy?: OnErrorPolicy;
   /** Run 总超时时间（毫秒） */
   runTimeoutMs?: UnixMillis;
+  /** Run 结束时如何处理 Run 打开的 tab（默认 never） */
+  tabCleanup?: TabCleanupPolicy;
 }
 
 /**
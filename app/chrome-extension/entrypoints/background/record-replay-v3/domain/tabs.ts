@@ -0,0 +1,61 @@
+/**
+ * @fileoverview 命名 tab 句柄
+ * @description Run 可以同时操作多个 tab（如弹出的登录窗口、对比两个站点）。
+ * openTab / switchTab 节点把 tab 绑定到句柄名，其它节点通过 NodeV3.tab 显式指定目标句柄。
+ * 句柄表保存在 Run 变量中，绑定变化通过 vars.patch 事件记录。
+ */
+
+import type { JsonValue } from './json';
+
+/** 句柄名 */
+export type TabHandle = string;
+
+/** 句柄名 -> tabId */
+export type TabHandleMap = Record<TabHandle, number>;
+
+/** Run 启动时绑定到初始 tab（RunnerConfig.tabId）的句柄 */
+export const MAIN_TAB_HANDLE = 'main';
+
+/** 保存句柄表的内部变量 */
+export const TAB_HANDLES_VAR = '__rr__tabHandles';
+
+/**
+ * 读取句柄表（忽略无效条目）
+ */
+export function readTabHandles(vars: Record<string, JsonValue>): TabHandleMap {
+  const raw = vars[TAB_HANDLES_VAR];
+  const handles: TabHandleMap = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return handles;
+  for (const [name, tabId] of Object.entries(raw)) {
+    if (typeof tabId === 'number' && Number.isFinite(tabId)) handles[name] = tabId;
+  }
+  return handles;
+}
+
+/**
+ * 解析句柄对应的 tabId
+ * @returns tabId，或 undefined（句柄未绑定）
+ */
+export function resolveTabHandle(
+  vars: Record<string, JsonValue>,
+  handle: TabHandle,
+): number | undefined {
+  return readTabHandles(vars)[handle];
+}
+
+/**
+ * 返回绑定（tabId 为 null 时解除绑定）后的新句柄表，不修改原变量表
+ */
+export function withTabHandle(
+  vars: Record<string, JsonValue>,
+  handle: TabHandle,
+  tabId: number | null,
+): TabHandleMap {
+  const handles = readTabHandles(vars);
+  if (tabId === null) {
+    delete handles[handle];
+  } else {
+    handles[handle] = tabId;
+  }
+  return handles;
+}
@@ -0,0 +1,417 @@
+/**
+ * @fileoverview 批量运行管理器
+ * @description
+ * BatchManager 把数据集的每一行作为一个 Run 入队，并汇总逐行结果：
+ * - 通过共享的 enqueueRun 入队，同一批量最多 concurrency 个 Run 处于排队/执行中
+ * - 订阅 EventsBus 的 run.started / run.succeeded / run.failed / run.canceled 更新行状态并补充入队
+ * - stopOnFailure：任一行失败后剩余未入队的行标记为 skipped
+ * - start() 时恢复 running 状态的批量（补齐 Service Worker 休眠期间结束的 Run）
+ *
+ * 设计理由：
+ * - 批量记录的读-改-写通过串行队列执行，避免并发事件互相覆盖
+ * - 行的实际执行仍由 RunScheduler 调度，批量只控制入队节奏
+ */
+
+import type { UnixMillis } from '../../domain/json';
+import type { FlowId, RunId } from '../../domain/ids';
+import type { RunEvent, RunRecordV3, Unsubscribe } from '../../domain/events';
+import { isTerminalStatus } from '../../domain/events';
+import { RR_ERROR_CODES, createRRError } from '../../domain/errors';
+import type { VariableName } from '../../domain/variables';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  isBatchRowSettled,
+  type BatchId,
+  type BatchRecord,
+  type BatchRowResult,
+  type DatasetId,
+} from '../../domain/datasets';
+import type { StoragePort } from '../storage/storage-port';
+import type { EventsBus } from '../transport/events-bus';
+import type { RunScheduler } from '../queue/scheduler';
+import type { RunnerRegistry } from '../kernel/debug-controller';
+import { enqueueRun } from '../queue/enqueue-run';
+import { cancelRun } from '../queue/cancel-run';
+import { resolveBatchMapping, rowToArgs } from './dataset';
+
+// ==================== Types ====================
+
+/**
+ * BatchManager 依赖
+ */
+export interface BatchManagerDeps {
+  /** 存储层 */
+  storage: Pick<StoragePort, 'flows' | 'runs' | 'queue' | 'datasets' | 'batches'>;
+  /** 事件总线 */
+  events: Pick<EventsBus, 'append' | 'subscribe'>;
+  /** 调度器 (可选) */
+  scheduler?: Pick<RunScheduler, 'kick'>;
+  /** Runner 注册表 (取消执行中的行时需要) */
+  runners?: Pick<RunnerRegistry, 'get'>;
+  /** BatchId 生成器 (用于测试注入) */
+  generateBatchId?: () => BatchId;
+  /** RunId 生成器 (用于测试注入) */
+  generateRunId?: () => RunId;
+  /** 时间源 (用于测试注入) */
+  now?: () => UnixMillis;
+  /** 日志器 */
+  logger?: Pick<Console, 'debug' | 'info' | 'warn' | 'error'>;
+}
+
+/**
+ * 启动批量运行的参数
+ */
+export interface StartBatchInput {
+  flowId: FlowId;
+  datasetId: DatasetId;
+  /** Flow 变量名 -> 数据集列名（缺省时按同名映射） */
+  mapping?: Record<VariableName, string>;
+  /** 最大并发 Run 数 (默认 1) */
+  concurrency?: number;
+  /** 任一行失败后停止入队剩余行 (默认 false) */
+  stopOnFailure?: boolean;
+}
+
+/**
+ * BatchManager 接口
+ */
+export interface BatchManager {
+  /** 订阅 Run 事件并恢复未完成的批量 */
+  start(): Promise<void>;
+  /** 取消订阅 */
+  stop(): void;
+  /** 创建批量运行并开始入队 */
+  startBatch(input: StartBatchInput): Promise<BatchRecord>;
+  /** 取消批量运行：未入队的行标记为 skipped，排队/执行中的 Run 被取消 */
+  cancelBatch(batchId: BatchId, reason?: string): Promise<BatchRecord>;
+}
+
+// ==================== Utilities ====================
+
+/**
+ * 默认 BatchId 生成器
+ */
+function defaultGenerateBatchId(): BatchId {
+  return `batch_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 默认 RunId 生成器
+ */
+function defaultGenerateRunId(): RunId {
+  return `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 校验并发数
+ */
+function normalizeConcurrency(value: unknown): number {
+  if (value === undefined || value === null) return DEFAULT_BATCH_CONCURRENCY;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error('concurrency must be a finite number');
+  }
+  const intValue = Math.floor(value);
+  if (intValue < 1 || intValue > MAX_BATCH_CONCURRENCY) {
+    throw new Error(`concurrency must be between 1 and ${MAX_BATCH_CONCURRENCY}`);
+  }
+  return intValue;
+}
+
+function isInFlight(row: BatchRowResult): boolean {
+  return row.status === 'queued' || row.status === 'running';
+}
+
+/**
+ * 用 Run 的终态结果更新行
+ */
+function settleRow(
+  row: BatchRowResult,
+  outcome: Pick<RunRecordV3, 'status' | 'outputs' | 'error'> & { reason?: string },
+  finishedAt: UnixMillis,
+): void {
+  row.finishedAt = finishedAt;
+  if (outcome.status === 'succeeded') {
+    row.status = 'succeeded';
+    if (outcome.outputs) row.outputs = outcome.outputs;
+  } else if (outcome.status === 'canceled') {
+    row.status = 'canceled';
+    row.error = createRRError(RR_ERROR_CODES.RUN_CANCELED, outcome.reason ?? 'Run canceled');
+  } else {
+    row.status = 'failed';
+    row.error = outcome.error ?? createRRError(RR_ERROR_CODES.INTERNAL, 'Run failed');
+  }
+}
+
+// ==================== Implementation ====================
+
+/**
+ * 创建 BatchManager
+ */
+export function createBatchManager(deps: BatchManagerDeps): BatchManager {
+  const logger = deps.logger ?? console;
+  const now = deps.now ?? (() => Date.now());
+  const generateBatchId = deps.generateBatchId ?? defaultGenerateBatchId;
+  const generateRunId = deps.generateRunId ?? defaultGenerateRunId;
+
+  /** 排队/执行中的 Run -> 所属批量 */
+  const inFlightRuns = new Map<RunId, BatchId>();
+  let unsubscribe: Unsubscribe | null = null;
+  let started = false;
+
+  // 串行执行批量记录的读-改-写
+  let tail: Promise<void> = Promise.resolve();
+  function serialize<T>(fn: () => Promise<T>): Promise<T> {
+    const next = tail.then(fn, fn);
+    tail = next.then(
+      () => undefined,
+      () => undefined,
+    );
+    return next;
+  }
+
+  /**
+   * 补充入队并在所有行结束时收尾（调用方需持有串行队列）
+   */
+  async function advance(batch: BatchRecord): Promise<void> {
+    const stopped = () => batch.stopOnFailure && batch.rows.some((row) => row.status === 'failed');
+
+    if (batch.status === 'running') {
+      let inFlight = batch.rows.filter(isInFlight).length;
+      for (const row of batch.rows) {
+        if (inFlight >= batch.concurrency || stopped()) break;
+        if (row.status !== 'pending') continue;
+
+        // 先登记 runId：调度器可能在 enqueueRun 返回前就发布 run.started
+        const runId = generateRunId();
+        inFlightRuns.set(runId, batch.id);
+        try {
+          await enqueueRun(
+            {
+              storage: deps.storage,
+              events: deps.events,
+              scheduler: deps.scheduler,
+              generateRunId: () => runId,
+              now,
+            },
+            { flowId: batch.flowId, args: row.args },
+          );
+          row.status = 'queued';
+          row.runId = runId;
+          inFlight += 1;
+        } catch (e) {
+          inFlightRuns.delete(runId);
+          row.status = 'failed';
+          row.finishedAt = now();
+          row.error = createRRError(
+            RR_ERROR_CODES.INTERNAL,
+            `Failed to enqueue row ${row.index}: ${e instanceof Error ? e.message : String(e)}`,
+          );
+        }
+        batch.updatedAt = now();
+        await deps.storage.batches.save(batch);
+      }
+
+      if (stopped()) {
+        for (const row of batch.rows) {
+          if (row.status === 'pending') row.status = 'skipped';
+        }
+      }
+
+      if (batch.rows.every((row) => isBatchRowSettled(row.status))) {
+        batch.status = batch.rows.every((row) => row.status === 'succeeded')
+          ? 'succeeded'
+          : 'failed';
+        batch.finishedAt = now();
+        logger.info(`[BatchManager] Batch "${batch.id}" finished with status ${batch.status}`);
+      }
+    }
+
+    batch.updatedAt = now();
+    await deps.storage.batches.save(batch);
+  }
+
+  /**
+   * 应用 Run 事件到所属批量
+   */
+  async function applyRunEvent(batchId: BatchId, event: RunEvent): Promise<void> {
+    const batch = await deps.storage.batches.get(batchId);
+    const row = batch?.rows.find((r) => r.runId === event.runId);
+    if (!batch || !row || isBatchRowSettled(row.status)) {
+      inFlightRuns.delete(event.runId);
+      return;
+    }
+
+    switch (event.type) {
+      case 'run.started':
+        row.status = 'running';
+        row.startedAt = event.ts;
+        break;
+      case 'run.succeeded':
+        settleRow(row, { status: 'succeeded', outputs: event.outputs }, event.ts);
+        break;
+      case 'run.failed':
+        settleRow(row, { status: 'failed', error: event.error }, event.ts);
+        break;
+      case 'run.canceled':
+        settleRow(row, { status: 'canceled', reason: event.reason }, event.ts);
+        break;
+      default:
+        return;
+    }
+
+    if (isBatchRowSettled(row.status)) {
+      inFlightRuns.delete(event.runId);
+    }
+    await advance(batch);
+  }
+
+  function handleEvent(event: RunEvent): void {
+    if (
+      event.type !== 'run.started' &&
+      event.type !== 'run.succeeded' &&
+      event.type !== 'run.failed' &&
+      event.type !== 'run.canceled'
+    ) {
+      return;
+    }
+    const batchId = inFlightRuns.get(event.runId);
+    if (!batchId) return;
+
+    serialize(() => applyRunEvent(batchId, event)).catch((e) => {
+      logger.error(`[BatchManager] Failed to apply ${event.type} for "${event.runId}":`, e);
+    });
+  }
+
+  /**
+   * 恢复 running 状态的批量
+   * @description Service Worker 休眠期间结束的 Run 不会再收到事件，从 RunRecord 补齐结果
+   */
+  async function resume(): Promise<void> {
+    const batches = await deps.storage.batches.list({ status: 'running' });
+    for (const batch of batches) {
+      for (const row of batch.rows) {
+        if (!isInFlight(row) || !row.runId) continue;
+        const run = await deps.storage.runs.get(row.runId);
+        if (!run) {
+          row.status = 'failed';
+          row.finishedAt = now();
+          row.error = createRRError(RR_ERROR_CODES.INTERNAL, `Run "${row.runId}" not found`);
+        } else if (isTerminalStatus(run.status)) {
+          settleRow(row, run, run.finishedAt ?? now());
+        } else {
+          if (run.status === 'running' && row.status === 'queued') {
+            row.status = 'running';
+            row.startedAt = run.startedAt;
+          }
+          inFlightRuns.set(row.runId, batch.id);
+        }
+      }
+      await advance(batch);
+    }
+  }
+
+  async function start(): Promise<void> {
+    if (started) return;
+    started = true;
+    unsubscribe = deps.events.subscribe(handleEvent);
+    await serialize(resume);
+  }
+
+  function stop(): void {
+    if (!started) return;
+    started = false;
+    unsubscribe?.();
+    unsubscribe = null;
+    inFlightRuns.clear();
+  }
+
+  async function startBatch(input: StartBatchInput): Promise<BatchRecord> {
+    if (!started) {
+      throw new Error('BatchManager is not started');
+    }
+    if (!input.flowId) throw new Error('flowId is required');
+    if (!input.datasetId) throw new Error('datasetId is required');
+    const concurrency = normalizeConcurrency(input.concurrency);
+    if (input.stopOnFailure !== undefined && typeof input.stopOnFailure !== 'boolean') {
+      throw new Error('stopOnFailure must be a boolean');
+    }
+
+    const flow = await deps.storage.flows.get(input.flowId);
+    if (!flow) {
+      throw new Error(`Flow "${input.flowId}" not found`);
+    }
+    const dataset = await deps.storage.datasets.get(input.datasetId);
+    if (!dataset) {
+      throw new Error(`Dataset "${input.datasetId}" not found`);
+    }
+
+    const mapping = resolveBatchMapping(flow, dataset.columns, input.mapping);
+    const ts = now();
+    const batch: BatchRecord = {
+      id: generateBatchId(),
+      flowId: flow.id,
+      datasetId: dataset.id,
+      mapping,
+      concurrency,
+      stopOnFailure: input.stopOnFailure ?? false,
+      status: 'running',
+      rows: dataset.rows.map((row, index) => ({
+        index,
+        status: 'pending',
+        args: rowToArgs(row, mapping),
+      })),
+      createdAt: ts,
+      updatedAt: ts,
+    };
+
+    return serialize(async () => {
+      await deps.storage.batches.save(batch);
+      await advance(batch);
+      return batch;
+    });
+  }
+
+  async function cancelBatch(batchId: BatchId, reason = 'Batch canceled'): Promise<BatchRecord> {
+    const { batch, runIds } = await serialize(async () => {
+      const batch = await deps.storage.batches.get(batchId);
+      if (!batch) {
+        throw new Error(`Batch "${batchId}" not found`);
+      }
+      if (batch.status !== 'running') {
+        throw new Error(`Cannot cancel batch "${batchId}" with status "${batch.status}"`);
+      }
+
+      const ts = now();
+      batch.status = 'canceled';
+      batch.finishedAt = ts;
+      batch.updatedAt = ts;
+      for (const row of batch.rows) {
+        if (row.status === 'pending') row.status = 'skipped';
+      }
+      await deps.storage.batches.save(batch);
+
+      const runIds = batch.rows
+        .filter((row) => isInFlight(row) && row.runId)
+        .map((row) => row.runId as RunId);
+      return { batch, runIds };
+    });
+
+    // 在串行队列之外取消，run.canceled 事件会回写行状态
+    for (const runId of runIds) {
+      try {
+        await cancelRun(
+          { storage: deps.storage, events: deps.events, runners: deps.runners, now },
+          runId,
+          reason,
+        );
+      } catch (e) {
+        logger.warn(`[BatchManager] Failed to cancel run "${runId}" of batch "${batchId}":`, e);
+      }
+    }
+
+    return batch;
+  }
+
+  return { start, stop, startBatch, cancelBatch };
+}
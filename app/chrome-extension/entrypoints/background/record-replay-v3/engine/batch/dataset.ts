@@ -0,0 +1,248 @@
+/**
+ * @fileoverview 数据集解析与列映射
+ * @description
+ * - 将上传的 CSV / JSON 内容解析为行对象
+ * - 计算 Flow 变量到数据集列的映射，并把每一行转换为 Run 参数
+ */
+
+import type { JsonObject, JsonValue } from '../../domain/json';
+import type { FlowV3 } from '../../domain/flow';
+import type { VariableName } from '../../domain/variables';
+import { isPersistentVariable } from '../../domain/variables';
+import { MAX_DATASET_ROWS, type DatasetFormat } from '../../domain/datasets';
+
+// ==================== Types ====================
+
+/**
+ * 解析结果
+ */
+export interface ParsedDataset {
+  columns: string[];
+  rows: JsonObject[];
+}
+
+// ==================== CSV ====================
+
+/**
+ * 解析 CSV 文本（RFC 4180：双引号包裹字段，"" 转义，支持 CRLF / LF）
+ * @returns 记录数组，跳过完全空白的行
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endRecord = () => {
+    record.push(field);
+    field = '';
+    if (record.length > 1 || record[0] !== '') records.push(record);
+    record = [];
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (source[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+      i += 1;
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      record.push(field);
+      field = '';
+    } else if (ch === '\r' || ch === '\n') {
+      endRecord();
+      if (ch === '\r' && source[i + 1] === '\n') i += 1;
+    } else {
+      field += ch;
+    }
+    i += 1;
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV has an unterminated quoted field');
+  }
+  if (field !== '' || record.length > 0) endRecord();
+  return records;
+}
+
+/**
+ * 序列化 CSV 单元格（含分隔符、引号或换行时加引号）
+ */
+export function formatCsvCell(value: JsonValue | undefined): string {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 序列化 CSV 文本
+ */
+export function formatCsv(records: Array<Array<JsonValue | undefined>>): string {
+  return records.map((record) => record.map(formatCsvCell).join(',')).join('\r\n');
+}
+
+function parseCsvDataset(content: string): ParsedDataset {
+  const [header, ...records] = parseCsv(content);
+  if (!header) {
+    throw new Error('CSV dataset is empty');
+  }
+
+  const columns = header.map((name) => name.trim());
+  const seen = new Set<string>();
+  columns.forEach((name, index) => {
+    if (!name) throw new Error(`CSV header column ${index + 1} is empty`);
+    if (seen.has(name)) throw new Error(`CSV header has duplicate column "${name}"`);
+    seen.add(name);
+  });
+
+  const rows = records.map((record, index) => {
+    if (record.length > columns.length) {
+      throw new Error(
+        `CSV row ${index + 1} has ${record.length} fields, expected at most ${columns.length}`,
+      );
+    }
+    const row: JsonObject = {};
+    columns.forEach((name, col) => {
+      row[name] = record[col] ?? '';
+    });
+    return row;
+  });
+
+  return { columns, rows };
+}
+
+// ==================== JSON ====================
+
+function parseJsonDataset(content: string | JsonValue): ParsedDataset {
+  let value: unknown = content;
+  if (typeof content === 'string') {
+    try {
+      value = JSON.parse(content);
+    } catch (e) {
+      throw new Error(`Invalid JSON dataset: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('JSON dataset must be an array of objects');
+  }
+
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  const rows = value.map((row, index) => {
+    if (!row || typeof row !== 'object' || Array.isArray(row)) {
+      throw new Error(`JSON dataset row ${index + 1} must be an object`);
+    }
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    }
+    return row as JsonObject;
+  });
+
+  return { columns, rows };
+}
+
+// ==================== Public API ====================
+
+/**
+ * 解析数据集内容
+ * @param content CSV 文本；JSON 可以是文本或已解析的数组
+ * @throws 格式错误、没有数据行或超过 MAX_DATASET_ROWS
+ */
+export function parseDataset(format: DatasetFormat, content: string | JsonValue): ParsedDataset {
+  let parsed: ParsedDataset;
+  if (format === 'csv') {
+    if (typeof content !== 'string') {
+      throw new Error('CSV dataset content must be a string');
+    }
+    parsed = parseCsvDataset(content);
+  } else if (format === 'json') {
+    parsed = parseJsonDataset(content);
+  } else {
+    throw new Error('format must be one of: csv, json');
+  }
+
+  if (parsed.rows.length === 0) {
+    throw new Error('Dataset has no rows');
+  }
+  if (parsed.rows.length > MAX_DATASET_ROWS) {
+    throw new Error(`Dataset has ${parsed.rows.length} rows, max is ${MAX_DATASET_ROWS}`);
+  }
+  return parsed;
+}
+
+/**
+ * 计算 Flow 变量 -> 数据集列的映射
+ * @description
+ * - 显式映射：校验列存在
+ * - 默认映射：Flow 声明了变量时，映射与列同名的变量；未声明变量时，所有列按同名传入
+ * - 必需且没有默认值的变量必须被映射
+ */
+export function resolveBatchMapping(
+  flow: Pick<FlowV3, 'variables'>,
+  columns: string[],
+  mapping?: Record<VariableName, string>,
+): Record<VariableName, string> {
+  const declared = (flow.variables ?? []).filter((def) => !isPersistentVariable(def.name));
+  let resolved: Record<VariableName, string>;
+
+  if (mapping) {
+    resolved = {};
+    for (const [name, column] of Object.entries(mapping)) {
+      if (!name) throw new Error('mapping keys must be non-empty variable names');
+      if (isPersistentVariable(name)) {
+        throw new Error(`mapping cannot target persistent variable "${name}"`);
+      }
+      if (typeof column !== 'string' || !columns.includes(column)) {
+        throw new Error(`mapping.${name}: column "${String(column)}" not found in dataset`);
+      }
+      resolved[name] = column;
+    }
+  } else if (declared.length > 0) {
+    resolved = {};
+    for (const def of declared) {
+      if (columns.includes(def.name)) resolved[def.name] = def.name;
+    }
+  } else {
+    resolved = Object.fromEntries(columns.map((column) => [column, column]));
+  }
+
+  for (const def of declared) {
+    if (def.required && def.default === undefined && resolved[def.name] === undefined) {
+      throw new Error(`Variable "${def.name}" is required but not mapped to a dataset column`);
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * 按映射把一行转换为 Run 参数
+ * @description 缺失或空字符串的单元格不传入，以便使用变量默认值
+ */
+export function rowToArgs(row: JsonObject, mapping: Record<VariableName, string>): JsonObject {
+  const args: JsonObject = {};
+  for (const [name, column] of Object.entries(mapping)) {
+    const value = row[column];
+    if (value === undefined || value === '') continue;
+    args[name] = value;
+  }
+  return args;
+}
@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Batch 模块导出入口
+ */
+
+export * from './dataset';
+export * from './report';
+export * from './batch-manager';
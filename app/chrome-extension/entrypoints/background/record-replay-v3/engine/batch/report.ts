@@ -0,0 +1,92 @@
+/**
+ * @fileoverview 批量运行报告
+ * @description 把批量运行的逐行结果（参数、输出、错误）汇总为可下载的 CSV / JSON
+ */
+
+import type { JsonObject, JsonValue } from '../../domain/json';
+import type { BatchRecord } from '../../domain/datasets';
+import { summarizeBatch } from '../../domain/datasets';
+import { formatCsv } from './dataset';
+
+/** 报告格式 */
+export type BatchReportFormat = 'csv' | 'json';
+
+/**
+ * 报告内容
+ */
+export interface BatchReport {
+  filename: string;
+  mimeType: string;
+  data: string;
+}
+
+function buildJsonReport(batch: BatchRecord): JsonObject {
+  return {
+    batchId: batch.id,
+    flowId: batch.flowId,
+    datasetId: batch.datasetId,
+    status: batch.status,
+    summary: summarizeBatch(batch),
+    createdAt: batch.createdAt,
+    finishedAt: batch.finishedAt ?? null,
+    rows: batch.rows.map((row) => ({
+      index: row.index,
+      status: row.status,
+      runId: row.runId ?? null,
+      args: row.args,
+      outputs: row.outputs ?? null,
+      error: row.error ? (row.error as unknown as JsonValue) : null,
+    })),
+  };
+}
+
+/**
+ * 每行一条记录：行号、状态、runId、各参数列（args.*）、各输出列（outputs.*）、错误
+ */
+function buildCsvReport(batch: BatchRecord): string {
+  const argNames = Object.keys(batch.mapping);
+  const outputNames: string[] = [];
+  for (const row of batch.rows) {
+    for (const key of Object.keys(row.outputs ?? {})) {
+      if (!outputNames.includes(key)) outputNames.push(key);
+    }
+  }
+
+  const header = [
+    'index',
+    'status',
+    'runId',
+    ...argNames.map((name) => `args.${name}`),
+    ...outputNames.map((name) => `outputs.${name}`),
+    'errorCode',
+    'errorMessage',
+  ];
+  const records = batch.rows.map((row) => [
+    row.index,
+    row.status,
+    row.runId,
+    ...argNames.map((name) => row.args[name]),
+    ...outputNames.map((name) => row.outputs?.[name]),
+    row.error?.code,
+    row.error?.message,
+  ]);
+  return formatCsv([header, ...records]);
+}
+
+/**
+ * 生成批量运行报告
+ */
+export function buildBatchReport(batch: BatchRecord, format: BatchReportFormat): BatchReport {
+  if (format === 'csv') {
+    return {
+      filename: `batch-${batch.id}.csv`,
+      mimeType: 'text/csv',
+      data: buildCsvReport(batch),
+    };
+  }
+  return {
+    filename: `batch-${batch.id}.json`,
+    mimeType: 'application/json',
+    data: JSON.stringify(buildJsonReport(batch), null, 2),
+  };
+}
@@ -23,5 +23,8 @@ export * from './recovery';
 // Triggers
 export * from './triggers';
 
+// Batch runs
+export * from './batch';
+
 // Storage Port
 export * from './storage';
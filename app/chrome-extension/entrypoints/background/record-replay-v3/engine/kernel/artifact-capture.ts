@@ -0,0 +1,200 @@
+/**
+ * @fileoverview 节点时间窗口内的控制台 / 网络采集
+ * @description 复用工具层的 console-buffer 和 network capture 后端：
+ * - 控制台：确保 tab 的 buffer 捕获已启动，结束时按时间窗口过滤消息和异常；
+ *   由本模块启动的 buffer 在结束时停止
+ * - 网络：tab 上已有捕获（如用户通过工具启动）时只读取窗口内的请求，不干扰该捕获；
+ *   否则临时启动 webRequest 捕获，结束时停止
+ *
+ * 工具模块在首次采集时才加载，避免 runner 依赖 chrome.debugger 等全局监听。
+ */
+
+import type { JsonValue } from '../../domain/json';
+import type { ArtifactCapture, ArtifactCaptureOptions, CapturedLogs } from './artifacts';
+
+/** 临时网络捕获的最长时间（节点异常退出时兜底停止） */
+const OWNED_NETWORK_CAPTURE_MAX_MS = 10 * 60 * 1000;
+
+/** 单个工件保留的最大条目数（保留最新的） */
+const MAX_ENTRIES_PER_ARTIFACT = 500;
+
+/** 网络请求的时间字段：webRequest 为 requestTime（epoch ms），debugger 为 wallTime */
+interface CapturedRequest {
+  requestTime?: number;
+  wallTime?: number;
+  [key: string]: unknown;
+}
+
+interface SharedCaptureInfo {
+  startTime: number;
+  requests: Record<string, CapturedRequest>;
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+function lastEntries<T>(items: T[]): { items: T[]; truncated: boolean } {
+  if (items.length <= MAX_ENTRIES_PER_ARTIFACT) return { items, truncated: false };
+  return { items: items.slice(items.length - MAX_ENTRIES_PER_ARTIFACT), truncated: true };
+}
+
+function inWindow(ts: number | undefined, startedAt: number, endedAt: number): boolean {
+  return typeof ts === 'number' && ts >= startedAt && ts <= endedAt;
+}
+
+// ==================== Console ====================
+
+async function startConsoleCapture(tabId: number) {
+  const { consoleBuffer } = await import('../../../tools/browser/console-buffer');
+  // 由本次采集启动的 buffer 在结束时停止，避免 run 结束后调试器仍附加在 tab 上
+  const owned = !consoleBuffer.isCapturing(tabId);
+  await consoleBuffer.ensureStarted(tabId);
+
+  return async (startedAt: number, endedAt: number): Promise<JsonValue> => {
+    const snapshot = consoleBuffer.read(tabId, { includeExceptions: true });
+    if (owned) await consoleBuffer.stop(tabId, 'artifact capture finished');
+    if (!snapshot) {
+      throw new Error(`Console buffer for tab ${tabId} was stopped during the node`);
+    }
+    const messages = lastEntries(
+      snapshot.messages.filter((m) => inWindow(m.timestamp, startedAt, endedAt)),
+    );
+    const exceptions = lastEntries(
+      snapshot.exceptions.filter((e) => inWindow(e.timestamp, startedAt, endedAt)),
+    );
+    return {
+      tabUrl: snapshot.tabUrl,
+      messages: messages.items,
+      exceptions: exceptions.items,
+      truncated: messages.truncated || exceptions.truncated,
+    } as unknown as JsonValue;
+  };
+}
+
+// ==================== Network ====================
+
+async function startNetworkCapture(tabId: number) {
+  const [{ networkCaptureStartTool }, { networkDebuggerStartTool }] = await Promise.all([
+    import('../../../tools/browser/network-capture-web-request'),
+    import('../../../tools/browser/network-capture-debugger'),
+  ]);
+
+  const findShared = (): { backend: string; info: SharedCaptureInfo } | null => {
+    const debuggerInfo: SharedCaptureInfo | undefined =
+      networkDebuggerStartTool.getCaptureInfo(tabId);
+    if (debuggerInfo) return { backend: 'debugger', info: debuggerInfo };
+    const webInfo = networkCaptureStartTool.captureData.get(tabId);
+    if (webInfo) return { backend: 'webRequest', info: webInfo as unknown as SharedCaptureInfo };
+    return null;
+  };
+
+  const readShared = (startedAt: number, endedAt: number): JsonValue => {
+    const shared = findShared();
+    if (!shared) {
+      throw new Error(`Network capture for tab ${tabId} was stopped during the node`);
+    }
+    const requests = lastEntries(
+      Object.values(shared.info.requests)
+        .filter((r) => inWindow(r.wallTime ?? r.requestTime, startedAt, endedAt))
+        .sort((a, b) => (a.wallTime ?? a.requestTime ?? 0) - (b.wallTime ?? b.requestTime ?? 0)),
+    );
+    return {
+      backend: shared.backend,
+      shared: true,
+      requests: requests.items,
+      requestCount: requests.items.length,
+      truncated: requests.truncated,
+    } as unknown as JsonValue;
+  };
+
+  // 已有捕获：只读取，不停止
+  if (findShared()) return readShared;
+
+  await networkCaptureStartTool.startCaptureForTab(tabId, {
+    maxCaptureTime: OWNED_NETWORK_CAPTURE_MAX_MS,
+    inactivityTimeout: 0,
+    includeStatic: false,
+  });
+  const ownedStartTime = networkCaptureStartTool.captureData.get(tabId)?.startTime;
+
+  return async (startedAt: number, endedAt: number): Promise<JsonValue> => {
+    // 捕获被其它调用方替换时，不停止对方的捕获
+    if (networkCaptureStartTool.captureData.get(tabId)?.startTime !== ownedStartTime) {
+      return readShared(startedAt, endedAt);
+    }
+    const result = await networkCaptureStartTool.stopCapture(tabId);
+    if (!result.success) {
+      throw new Error(result.message ?? 'Failed to stop network capture');
+    }
+    const { requests: allRequests, ...summary } = result.data as { requests: unknown[] };
+    const requests = lastEntries(allRequests);
+    return {
+      backend: 'webRequest',
+      shared: false,
+      ...summary,
+      requests: requests.items,
+      truncated: requests.truncated,
+    } as unknown as JsonValue;
+  };
+}
+
+// ==================== Capture ====================
+
+/**
+ * 开始采集指定 tab 的控制台日志和/或网络请求
+ * @description 各项采集互相独立，启动或读取失败记录在 CapturedLogs.errors 中
+ */
+export async function startChromeArtifactCapture(
+  tabId: number,
+  options: ArtifactCaptureOptions,
+  now: () => number = Date.now,
+): Promise<ArtifactCapture> {
+  const errors: string[] = [];
+  let readConsole: ((startedAt: number, endedAt: number) => Promise<JsonValue>) | null = null;
+  let readNetwork: ((startedAt: number, endedAt: number) => JsonValue | Promise<JsonValue>) | null =
+    null;
+
+  if (options.console) {
+    try {
+      readConsole = await startConsoleCapture(tabId);
+    } catch (e) {
+      errors.push(`console: ${errorMessage(e)}`);
+    }
+  }
+  if (options.network) {
+    try {
+      readNetwork = await startNetworkCapture(tabId);
+    } catch (e) {
+      errors.push(`network: ${errorMessage(e)}`);
+    }
+  }
+
+  const startedAt = now();
+  let stopped: Promise<CapturedLogs> | null = null;
+
+  return {
+    stop: () => {
+      stopped ??= (async () => {
+        const endedAt = now();
+        const logs: CapturedLogs = { startedAt, endedAt, errors };
+        if (readConsole) {
+          try {
+            logs.console = await readConsole(startedAt, endedAt);
+          } catch (e) {
+            errors.push(`console: ${errorMessage(e)}`);
+          }
+        }
+        if (readNetwork) {
+          try {
+            logs.network = await readNetwork(startedAt, endedAt);
+          } catch (e) {
+            errors.push(`network: ${errorMessage(e)}`);
+          }
+        }
+        return logs;
+      })();
+      return stopped;
+    },
+  };
+}
@@ -1,17 +1,70 @@
 /**
  * @fileoverview 工件（Artifacts）接口
- * @description 定义截图等工件的获取和存储接口
+ * @description 定义截图、控制台日志、网络请求等工件的获取和存储接口
  */
 
 import type { NodeId, RunId } from '../../domain/ids';
+import type { JsonValue, UnixMillis } from '../../domain/json';
 import type { RRError } from '../../domain/errors';
 import { RR_ERROR_CODES, createRRError } from '../../domain/errors';
+import type {
+  ArtifactId,
+  ArtifactKind,
+  ArtifactMeta,
+  ArtifactRecord,
+  ArtifactRetentionPolicy,
+} from '../../domain/artifacts';
+import { DEFAULT_ARTIFACT_RETENTION, toArtifactMeta } from '../../domain/artifacts';
+import type { ArtifactsStore } from '../storage/storage-port';
+import { startChromeArtifactCapture } from './artifact-capture';
 
 /**
  * 截图结果
  */
 export type ScreenshotResult = { ok: true; base64: string } | { ok: false; error: RRError };
 
+/**
+ * 控制台 / 网络采集选项
+ */
+export interface ArtifactCaptureOptions {
+  console?: boolean;
+  network?: boolean;
+}
+
+/**
+ * 时间窗口内采集到的日志
+ */
+export interface CapturedLogs {
+  startedAt: UnixMillis;
+  endedAt: UnixMillis;
+  console?: JsonValue;
+  network?: JsonValue;
+  /** 采集失败原因（best-effort，不影响节点结果） */
+  errors: string[];
+}
+
+/**
+ * 进行中的采集
+ * @description startCapture() 开始时间窗口，stop() 结束并返回窗口内的日志
+ */
+export interface ArtifactCapture {
+  stop(): Promise<CapturedLogs>;
+}
+
+/**
+ * 保存工件的输入
+ */
+export interface SaveArtifactInput {
+  runId: RunId;
+  nodeId: NodeId;
+  kind: ArtifactKind;
+  /** 文件名（可选，默认按 run/node/时间生成） */
+  name?: string;
+  mimeType: string;
+  data: string;
+  window?: ArtifactMeta['window'];
+}
+
 /**
  * 工件服务接口
  * @description 提供工件获取和存储功能
@@ -43,6 +96,18 @@ export interface ArtifactService {
     base64: string,
     filename?: string,
   ): Promise<{ savedAs: string } | { error: RRError }>;
+
+  /**
+   * 开始采集控制台日志和/或网络请求
+   * @param tabId Tab ID
+   * @param options 采集内容
+   */
+  startCapture(tabId: number, options: ArtifactCaptureOptions): Promise<ArtifactCapture>;
+
+  /**
+   * 保存工件
+   */
+  saveArtifact(input: SaveArtifactInput): Promise<{ artifact: ArtifactMeta } | { error: RRError }>;
 }
 
 /**
@@ -61,16 +126,88 @@ export function createNotImplementedArtifactService(): ArtifactService {
         'ArtifactService.saveScreenshot not implemented',
       ),
     }),
+    startCapture: async () => {
+      throw createRRError(RR_ERROR_CODES.INTERNAL, 'ArtifactService.startCapture not implemented');
+    },
+    saveArtifact: async () => ({
+      error: createRRError(RR_ERROR_CODES.INTERNAL, 'ArtifactService.saveArtifact not implemented'),
+    }),
   };
 }
 
+/** 两次自动清理之间的最小间隔 */
+const PRUNE_INTERVAL_MS = 60_000;
+
 /**
- * 创建基于 chrome.tabs.captureVisibleTab 的 ArtifactService
- * @description 使用 Chrome API 截取可见标签页
+ * Chrome ArtifactService 依赖
  */
-export function createChromeArtifactService(): ArtifactService {
-  // In-memory storage for screenshots (could be replaced with IndexedDB)
-  const screenshotStore = new Map<string, string>();
+export interface ChromeArtifactServiceDeps {
+  /** 工件存储 */
+  store: ArtifactsStore;
+  /** 保留策略（默认 DEFAULT_ARTIFACT_RETENTION） */
+  retention?: ArtifactRetentionPolicy;
+  now?: () => number;
+  generateId?: () => ArtifactId;
+}
+
+function defaultGenerateArtifactId(): ArtifactId {
+  return `artifact_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const ARTIFACT_EXTENSIONS: Record<ArtifactKind, string> = {
+  screenshot: 'png',
+  console: 'json',
+  network: 'json',
+};
+
+/**
+ * 创建基于 Chrome API 的 ArtifactService
+ * @description 截图使用 chrome.tabs.captureVisibleTab，控制台/网络复用 console-buffer 和
+ * network capture 后端；工件写入 ArtifactsStore，保存后按保留策略节流清理
+ */
+export function createChromeArtifactService(deps: ChromeArtifactServiceDeps): ArtifactService {
+  const { store } = deps;
+  const retention = deps.retention ?? DEFAULT_ARTIFACT_RETENTION;
+  const now = deps.now ?? Date.now;
+  const generateId = deps.generateId ?? defaultGenerateArtifactId;
+  let lastPruneAt = 0;
+
+  const schedulePrune = (): void => {
+    const ts = now();
+    if (ts - lastPruneAt < PRUNE_INTERVAL_MS) return;
+    lastPruneAt = ts;
+    void store.prune(retention, ts).catch((e) => {
+      console.warn('[ArtifactService] prune failed:', e);
+    });
+  };
+
+  const saveArtifact: ArtifactService['saveArtifact'] = async (input) => {
+    try {
+      const createdAt = now();
+      const record: ArtifactRecord = {
+        id: generateId(),
+        runId: input.runId,
+        nodeId: input.nodeId,
+        kind: input.kind,
+        name:
+          input.name ??
+          `${input.runId}_${input.nodeId}_${input.kind}_${createdAt}.${ARTIFACT_EXTENSIONS[input.kind]}`,
+        mimeType: input.mimeType,
+        size: input.data.length,
+        createdAt,
+        ...(input.window ? { window: input.window } : {}),
+        data: input.data,
+      };
+      await store.save(record);
+      schedulePrune();
+      return { artifact: toArtifactMeta(record) };
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      return {
+        error: createRRError(RR_ERROR_CODES.INTERNAL, `Save artifact failed: ${message}`),
+      };
+    }
+  };
 
   return {
     screenshot: async (tabId, options) => {
@@ -113,22 +250,20 @@ export function createChromeArtifactService(): ArtifactService {
     },
 
     saveScreenshot: async (runId, nodeId, base64, filename) => {
-      try {
-        // Generate filename if not provided
-        const savedAs = filename ?? `${runId}_${nodeId}_${Date.now()}.png`;
-        const key = `${runId}/${savedAs}`;
+      const result = await saveArtifact({
+        runId,
+        nodeId,
+        kind: 'screenshot',
+        name: filename,
+        mimeType: filename && /\.jpe?g$/i.test(filename) ? 'image/jpeg' : 'image/png',
+        data: base64,
+      });
+      return 'error' in result ? result : { savedAs: result.artifact.name };
+    },
 
-        // Store in memory (in production, this would go to IndexedDB or cloud storage)
-        screenshotStore.set(key, base64);
+    startCapture: (tabId, options) => startChromeArtifactCapture(tabId, options, now),
 
-        return { savedAs };
-      } catch (e) {
-        const message = e instanceof Error ? e.message : String(e);
-        return {
-          error: createRRError(RR_ERROR_CODES.INTERNAL, `Save screenshot failed: ${message}`),
-        };
-      }
-    },
+    saveArtifact,
   };
 }
 
@@ -431,10 +431,10 @@ export class DebugController {
       }
     }
 
-    // Apply all vars.patch events
+    // Apply all vars.patch events (branch patches are re-emitted when the branches join)
     const events = await this.storage.events.list(runId);
     for (const event of events) {
-      if (event.type === 'vars.patch') {
+      if (event.type === 'vars.patch' && !event.branchId) {
         for (const op of event.patch) {
           if (op.op === 'set') {
             vars[op.name] = op.value ?? null;
@@ -5,6 +5,8 @@
 export * from './kernel';
 export * from './runner';
 export * from './traversal';
+export * from './loops';
+export * from './parallel';
 export * from './breakpoints';
 export * from './artifacts';
 export * from './debug-controller';
@@ -0,0 +1,298 @@
+/**
+ * @fileoverview 循环节点（foreach / while / loopElements）
+ * @description 循环节点由 RunRunner 原生执行，而不是通过插件注册：
+ * 循环体是经由 `body` 边进入的子图，体内节点连回循环节点的边结束本次迭代
+ * （`break` 标签结束整个循环，其它标签继续下一次迭代）。
+ * 本模块负责配置校验以及每次迭代的取值。
+ */
+
+import { z } from 'zod';
+
+import type { JsonValue } from '../../domain/json';
+import type { NodeV3 } from '../../domain/flow';
+import { RR_ERROR_CODES, createRRError } from '../../domain/errors';
+import type { Condition } from '../../../record-replay/actions/types';
+import { interpolateBraces } from '../../../record-replay/actions/handlers/common';
+import { evaluateCondition } from '../../../record-replay/actions/handlers/control-flow';
+import { evalExpression } from '../../../record-replay/engine/utils/expression';
+import { DEFAULT_FRAME_ID_VAR, DEFAULT_TAB_ID_VAR } from '../plugins/v2-action-adapter';
+
+// ==================== Constants ====================
+
+/** 由 runner 原生执行的循环节点类型 */
+export const LOOP_NODE_KINDS = ['foreach', 'while', 'loopElements'] as const;
+
+export type LoopNodeKind = (typeof LOOP_NODE_KINDS)[number];
+
+/** 默认最大迭代次数（与 V2 while 一致） */
+export const DEFAULT_LOOP_MAX_ITERATIONS = 100;
+
+/** 最大迭代次数上限 */
+export const LOOP_MAX_ITERATIONS_LIMIT = 10000;
+
+// ==================== Config Schemas ====================
+
+const varName = z.string().min(1);
+
+const iterationLimit = z.number().int().min(1).max(LOOP_MAX_ITERATIONS_LIMIT);
+
+/**
+ * 达到 maxIterations 时仍有剩余迭代的处理方式
+ * - fail: 节点失败（默认，防止死循环被静默截断）
+ * - stop: 静默结束循环（V2 行为）
+ */
+const onLimit = z.enum(['fail', 'stop']).default('fail');
+
+/**
+ * 循环条件
+ * 支持 V2 Condition（kind: compare/truthy/falsy/not/and/or）
+ * 以及旧版 Builder 的 { expression } / { var, equals }
+ */
+const loopCondition = z.union([
+  z.object({ kind: z.string() }).passthrough(),
+  z.object({ expression: z.string().min(1) }).passthrough(),
+  z.object({ var: varName, equals: z.unknown().optional() }).passthrough(),
+]);
+
+export const foreachConfigSchema = z.object({
+  /** 要遍历的数组变量 */
+  listVar: varName,
+  /** 当前元素写入的变量 */
+  itemVar: varName.default('item'),
+  /** 当前下标写入的变量（可选） */
+  indexVar: varName.optional(),
+  /** 默认不限（仍受 LOOP_MAX_ITERATIONS_LIMIT 约束） */
+  maxIterations: iterationLimit.optional(),
+  onLimit,
+});
+
+export const whileConfigSchema = z.object({
+  condition: loopCondition,
+  indexVar: varName.optional(),
+  maxIterations: iterationLimit.default(DEFAULT_LOOP_MAX_ITERATIONS),
+  onLimit,
+});
+
+export const loopElementsConfigSchema = z.object({
+  selector: z.string().min(1),
+  /** 匹配元素的选择器列表写入的变量 */
+  saveAs: varName.default('elements'),
+  /** 当前元素选择器写入的变量 */
+  itemVar: varName.default('item'),
+  indexVar: varName.optional(),
+  /** 默认不限（仍受 LOOP_MAX_ITERATIONS_LIMIT 约束） */
+  maxIterations: iterationLimit.optional(),
+  onLimit,
+});
+
+export type ForeachConfig = z.infer<typeof foreachConfigSchema>;
+export type WhileConfig = z.infer<typeof whileConfigSchema>;
+export type LoopElementsConfig = z.infer<typeof loopElementsConfigSchema>;
+
+// ==================== Helpers ====================
+
+/**
+ * 判断节点是否为循环节点
+ */
+export function isLoopNode(node: Pick<NodeV3, 'kind'>): boolean {
+  return (LOOP_NODE_KINDS as readonly string[]).includes(node.kind);
+}
+
+/**
+ * 计算循环条件
+ */
+export function evaluateLoopCondition(
+  condition: WhileConfig['condition'],
+  vars: Record<string, JsonValue>,
+): boolean {
+  if ('kind' in condition) {
+    return evaluateCondition(condition as unknown as Condition, vars);
+  }
+  try {
+    if ('expression' in condition && typeof condition.expression === 'string') {
+      return !!evalExpression(condition.expression, { vars });
+    }
+    if ('var' in condition && typeof condition.var === 'string') {
+      const value = vars[condition.var];
+      if ('equals' in condition) return String(value) === String(condition.equals);
+      return !!value;
+    }
+  } catch {
+    // 表达式错误视为 false
+  }
+  return false;
+}
+
+// ==================== Iteration Source ====================
+
+/**
+ * 单次迭代
+ */
+export interface LoopIteration {
+  index: number;
+  /** foreach / loopElements 的当前元素 */
+  item?: JsonValue;
+}
+
+/**
+ * 循环迭代源
+ * @description runner 每次迭代前调用 next()；返回 null 表示循环结束
+ */
+export interface LoopSource {
+  /** 迭代上限 */
+  maxIterations: number;
+  onLimit: 'fail' | 'stop';
+  /** 当前元素变量（while 无） */
+  itemVar?: string;
+  indexVar?: string;
+  /** 进入循环前需写入的变量 */
+  initialVars?: Record<string, JsonValue>;
+  next(index: number, vars: Record<string, JsonValue>): LoopIteration | null;
+}
+
+/**
+ * loopElements 查找元素的目标
+ */
+export interface LoopElementsTarget {
+  tabId: number;
+  frameId?: number;
+}
+
+/**
+ * loopElements 的查询目标：优先使用 V2 节点（openTab/switchFrame 等）切换后的 tab/frame
+ */
+export function resolveLoopElementsTarget(
+  vars: Record<string, JsonValue>,
+  runTabId: number,
+): LoopElementsTarget {
+  const tabId = vars[DEFAULT_TAB_ID_VAR];
+  const frameId = vars[DEFAULT_FRAME_ID_VAR];
+  return {
+    tabId: typeof tabId === 'number' && Number.isFinite(tabId) ? tabId : runTabId,
+    ...(typeof frameId === 'number' && Number.isFinite(frameId) ? { frameId } : {}),
+  };
+}
+
+function listSource(
+  list: JsonValue[],
+  config: { itemVar: string; indexVar?: string; maxIterations?: number; onLimit: 'fail' | 'stop' },
+): LoopSource {
+  return {
+    maxIterations: config.maxIterations ?? LOOP_MAX_ITERATIONS_LIMIT,
+    onLimit: config.onLimit,
+    itemVar: config.itemVar,
+    indexVar: config.indexVar,
+    next: (index) => (index < list.length ? { index, item: list[index] } : null),
+  };
+}
+
+/**
+ * 根据循环节点配置创建迭代源
+ * @throws RRError 配置无效或无法取得列表时
+ */
+export async function createLoopSource(
+  node: NodeV3,
+  vars: Record<string, JsonValue>,
+  target: LoopElementsTarget,
+): Promise<LoopSource> {
+  const parse = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>): T => {
+    const parsed = schema.safeParse(node.config);
+    if (!parsed.success) {
+      throw createRRError(
+        RR_ERROR_CODES.VALIDATION_ERROR,
+        `Invalid ${node.kind} config: ${parsed.error.message}`,
+      );
+    }
+    return parsed.data;
+  };
+
+  switch (node.kind) {
+    case 'foreach': {
+      const config = parse(foreachConfigSchema);
+      const list = vars[config.listVar];
+      if (!Array.isArray(list)) {
+        throw createRRError(
+          RR_ERROR_CODES.VALIDATION_ERROR,
+          `foreach: variable "${config.listVar}" is not an array`,
+        );
+      }
+      // 快照列表，避免循环体修改变量影响迭代
+      return listSource([...list], config);
+    }
+
+    case 'while': {
+      const config = parse(whileConfigSchema);
+      return {
+        maxIterations: config.maxIterations,
+        onLimit: config.onLimit,
+        indexVar: config.indexVar,
+        next: (index, current) =>
+          evaluateLoopCondition(config.condition, current) ? { index } : null,
+      };
+    }
+
+    case 'loopElements': {
+      const config = parse(loopElementsConfigSchema);
+      // 与 V2 一致：执行前展开选择器中的 {var} 占位符
+      const selector = interpolateBraces(config.selector, vars);
+      const selectors = await collectElementSelectors(selector, target);
+      return {
+        ...listSource(selectors, config),
+        initialVars: { [config.saveAs]: selectors },
+      };
+    }
+
+    default:
+      throw createRRError(RR_ERROR_CODES.UNSUPPORTED_NODE, `"${node.kind}" is not a loop node`);
+  }
+}
+
+/**
+ * 在页面中查找匹配元素，并为每个元素生成唯一 CSS 选择器
+ */
+async function collectElementSelectors(
+  selector: string,
+  target: LoopElementsTarget,
+): Promise<string[]> {
+  let results: chrome.scripting.InjectionResult<string[]>[];
+  try {
+    results = await chrome.scripting.executeScript({
+      target: {
+        tabId: target.tabId,
+        ...(typeof target.frameId === 'number' ? { frameIds: [target.frameId] } : {}),
+      },
+      world: 'MAIN',
+      args: [selector],
+      func: (sel: string) => {
+        const toCss = (node: Element): string => {
+          if (node.id) {
+            const idSel = `#${CSS.escape(node.id)}`;
+            if (document.querySelectorAll(idSel).length === 1) return idSel;
+          }
+          let path = '';
+          let current: Element | null = node;
+          while (current && current.tagName !== 'BODY') {
+            let part = current.tagName.toLowerCase();
+            const parentEl: Element | null = current.parentElement;
+            if (parentEl) {
+              const tag = current.tagName;
+              const siblings = Array.from(parentEl.children).filter((c) => c.tagName === tag);
+              if (siblings.length > 1) part += `:nth-of-type(${siblings.indexOf(current) + 1})`;
+            }
+            path = path ? `${part} > ${path}` : part;
+            current = parentEl;
+          }
+          return path ? `body > ${path}` : 'body';
+        };
+        return Array.from(document.querySelectorAll(sel)).map(toCss);
+      },
+    });
+  } catch (e) {
+    throw createRRError(
+      RR_ERROR_CODES.SCRIPT_FAILED,
+      `loopElements: failed to query "${selector}": ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+  const found = results?.[0]?.result;
+  return Array.isArray(found) ? found : [];
+}
@@ -0,0 +1,167 @@
+/**
+ * @fileoverview 并行分支节点（parallel / join）
+ * @description 与循环节点一样由 RunRunner 原生执行：
+ * parallel 节点的每条 `branch` 边开启一个分支，各分支并发执行，直到到达配对的 join 节点
+ * （或没有后继）为止；join 节点配置汇合语义，汇合后从 join 节点继续。
+ * 分支使用变量表的副本运行，汇合时按分支（边）顺序合并变量补丁，结果与完成顺序无关。
+ */
+
+import { z } from 'zod';
+
+import type { NodeV3 } from '../../domain/flow';
+import { RR_ERROR_CODES, createRRError } from '../../domain/errors';
+import type { VarsPatchOp } from '../plugins/types';
+
+// ==================== Constants ====================
+
+export const PARALLEL_NODE_KIND = 'parallel';
+
+export const JOIN_NODE_KIND = 'join';
+
+/**
+ * 汇合语义
+ * - all: 所有分支成功后继续；任一分支失败则取消其余分支并失败
+ * - any: 等待所有分支结束，至少一个成功即继续（只合并成功分支的变量）
+ * - firstSuccess: 第一个成功的分支结束后立即继续，取消其余分支（只合并该分支的变量）
+ *
+ * 被取消的分支不会等待其正在执行的节点：节点通过 ctx.signal 得知取消，迟到的结果被丢弃。
+ */
+export const JOIN_MODES = ['all', 'any', 'firstSuccess'] as const;
+
+export type JoinMode = (typeof JOIN_MODES)[number];
+
+/** 等待分支 tab 加载完成的最长时间 */
+const BRANCH_TAB_LOAD_TIMEOUT_MS = 30_000;
+
+// ==================== Config Schemas ====================
+
+export const parallelConfigSchema = z.object({
+  /**
+   * 分支运行的 tab
+   * - shared: 所有分支共用当前 tab
+   * - newTab: 每个分支在新的后台 tab 中运行
+   */
+  tabs: z.enum(['shared', 'newTab']).default('shared'),
+  /** newTab 模式下打开的 URL（默认当前 tab 的 URL） */
+  url: z.string().min(1).optional(),
+  /** 汇合后关闭 newTab 模式打开的 tab */
+  closeTabs: z.boolean().default(true),
+  /** 同时运行的分支数上限（默认不限） */
+  maxConcurrency: z.number().int().min(1).optional(),
+});
+
+export const joinConfigSchema = z.object({
+  mode: z.enum(JOIN_MODES).default('all'),
+});
+
+export type ParallelConfig = z.infer<typeof parallelConfigSchema>;
+export type JoinConfig = z.infer<typeof joinConfigSchema>;
+
+// ==================== Helpers ====================
+
+export function isParallelNode(node: Pick<NodeV3, 'kind'>): boolean {
+  return node.kind === PARALLEL_NODE_KIND;
+}
+
+export function isJoinNode(node: Pick<NodeV3, 'kind'>): boolean {
+  return node.kind === JOIN_NODE_KIND;
+}
+
+function parseConfig<T>(node: NodeV3, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  const parsed = schema.safeParse(node.config ?? {});
+  if (!parsed.success) {
+    throw createRRError(
+      RR_ERROR_CODES.VALIDATION_ERROR,
+      `Invalid ${node.kind} config: ${parsed.error.message}`,
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * 解析 parallel 节点配置
+ * @throws RRError 配置无效时
+ */
+export function parseParallelConfig(node: NodeV3): ParallelConfig {
+  return parseConfig(node, parallelConfigSchema);
+}
+
+/**
+ * 解析 join 节点配置
+ * @throws RRError 配置无效时
+ */
+export function parseJoinConfig(node: NodeV3): JoinConfig {
+  return parseConfig(node, joinConfigSchema);
+}
+
+/**
+ * 按分支顺序合并变量补丁
+ * @description 同名变量以顺序靠后的分支为准；结果中每个变量只保留最终操作
+ * @param branchPatches 按分支（边）顺序排列的补丁
+ */
+export function mergeBranchPatches(
+  branchPatches: VarsPatchOp[][],
+  exclude: ReadonlySet<string> = new Set(),
+): VarsPatchOp[] {
+  const merged = new Map<string, VarsPatchOp>();
+  for (const patch of branchPatches) {
+    for (const op of patch) {
+      if (exclude.has(op.name)) continue;
+      // 重新插入以保持“最后写入”的顺序
+      merged.delete(op.name);
+      merged.set(op.name, op);
+    }
+  }
+  return Array.from(merged.values());
+}
+
+// ==================== Branch Tabs ====================
+
+/**
+ * 为分支打开后台 tab，并等待加载完成（超时后继续）
+ * @param url 打开的 URL；缺省时使用 baseTabId 当前的 URL
+ */
+export async function openBranchTab(url: string | undefined, baseTabId: number): Promise<number> {
+  let targetUrl = url;
+  if (!targetUrl) {
+    const base = await chrome.tabs.get(baseTabId);
+    targetUrl = base.url || 'about:blank';
+  }
+
+  const tab = await chrome.tabs.create({ url: targetUrl, active: false });
+  const tabId = tab.id;
+  if (typeof tabId !== 'number') {
+    throw createRRError(RR_ERROR_CODES.TAB_NOT_FOUND, 'Failed to open a tab for parallel branch');
+  }
+  if (tab.status === 'complete') return tabId;
+
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(done, BRANCH_TAB_LOAD_TIMEOUT_MS);
+    function onUpdated(updatedTabId: number, info: chrome.tabs.TabChangeInfo) {
+      if (updatedTabId === tabId && info.status === 'complete') done();
+    }
+    function done() {
+      clearTimeout(timer);
+      chrome.tabs.onUpdated.removeListener(onUpdated);
+      resolve();
+    }
+    chrome.tabs.onUpdated.addListener(onUpdated);
+    // The tab may have finished loading before the listener was added
+    chrome.tabs.get(tabId).then((current) => {
+      if (current.status === 'complete') done();
+    }, done);
+  });
+  return tabId;
+}
+
+/**
+ * 关闭分支 tab（best-effort）
+ */
+export async function closeBranchTabs(tabIds: number[]): Promise<void> {
+  if (tabIds.length === 0) return;
+  try {
+    await chrome.tabs.remove(tabIds);
+  } catch (e) {
+    console.warn('[Parallel] failed to close branch tabs:', e);
+  }
+}
@@ -3,7 +3,7 @@
  * @description 定义和实现单个 Run 的顺序执行器
  */
 
-import type { NodeId, RunId } from '../../domain/ids';
+import type { EdgeLabel, NodeId, RunId } from '../../domain/ids';
 import { EDGE_LABELS } from '../../domain/ids';
 import type { FlowV3, NodeV3 } from '../../domain/flow';
 import { findNodeById } from '../../domain/flow';
@@ -17,19 +17,37 @@ import type {
 import { RUN_SCHEMA_VERSION } from '../../domain/events';
 import type { JsonObject, JsonValue } from '../../domain/json';
 import { RR_ERROR_CODES, createRRError, type RRError } from '../../domain/errors';
-import type { NodePolicy, RetryPolicy } from '../../domain/policy';
+import type { ArtifactPolicy, NodePolicy, RetryPolicy } from '../../domain/policy';
 import { mergeNodePolicy } from '../../domain/policy';
+import { MAIN_TAB_HANDLE, TAB_HANDLES_VAR, resolveTabHandle } from '../../domain/tabs';
 
 import type { EventsBus } from '../transport/events-bus';
 import type { StoragePort } from '../storage/storage-port';
 import type { PluginRegistry } from '../plugins/registry';
 import { getPluginRegistry } from '../plugins/registry';
 import type { NodeExecutionContext, NodeExecutionResult, VarsPatchOp } from '../plugins/types';
+import { DEFAULT_FRAME_ID_VAR, DEFAULT_TAB_ID_VAR } from '../plugins/v2-action-adapter';
 
-import type { ArtifactService } from './artifacts';
+import type { ArtifactCapture, ArtifactService, SaveArtifactInput } from './artifacts';
 import { createNotImplementedArtifactService } from './artifacts';
 import { getBreakpointRegistry, type BreakpointManager } from './breakpoints';
-import { findEdgeByLabel, findNextNode, validateFlowDAG } from './traversal';
+import { createLoopSource, isLoopNode, resolveLoopElementsTarget, type LoopSource } from './loops';
+import {
+  closeBranchTabs,
+  isJoinNode,
+  isParallelNode,
+  mergeBranchPatches,
+  openBranchTab,
+  parseJoinConfig,
+  parseParallelConfig,
+} from './parallel';
+import {
+  findEdgeByLabel,
+  findJoinNode,
+  findNextEdge,
+  getBranchEdges,
+  validateFlowDAG,
+} from './traversal';
 import type { RunResult } from './kernel';
 
 // ==================== Types ====================
@@ -163,6 +181,31 @@ async function withTimeout<T>(
   }
 }
 
+/**
+ * signal 触发时立即以 onAbort 的错误结束，不再等待 p
+ */
+async function withAbort<T>(
+  p: Promise<T>,
+  signal: AbortSignal | undefined,
+  onAbort: () => RRError,
+): Promise<T> {
+  if (!signal) return p;
+  if (signal.aborted) throw onAbort();
+
+  let listener: (() => void) | undefined;
+  try {
+    return await Promise.race([
+      p,
+      new Promise<T>((_resolve, reject) => {
+        listener = () => reject(onAbort());
+        signal.addEventListener('abort', listener, { once: true });
+      }),
+    ]);
+  } finally {
+    if (listener) signal.removeEventListener('abort', listener);
+  }
+}
+
 function computeRetryDelayMs(policy: RetryPolicy, attempt: number): number {
   const base = Math.max(0, policy.intervalMs);
   let delay = base;
@@ -274,10 +317,71 @@ type OnErrorDecision =
     }
   | { kind: 'retry'; retryPolicy: RetryPolicy | null };
 
+/**
+ * 循环体内跳转到外层循环节点（break / continue）
+ */
+interface LoopJump {
+  loopId: NodeId;
+  action: 'break' | 'continue';
+}
+
 type NodeRunResult =
-  | { nextNodeId: NodeId | null }
-  | { terminal: 'failed'; error: RRError }
-  | { terminal: 'canceled' };
+  | { nextNodeId: NodeId | null; edgeLabel?: EdgeLabel }
+  | { terminal: 'failed'; error: RRError; nodeId?: NodeId }
+  | { terminal: 'canceled' }
+  | { loopJump: LoopJump };
+
+/**
+ * 执行一段节点序列（整个 Flow 或一次循环迭代）的结果
+ */
+type SegmentResult =
+  | { kind: 'end' }
+  | { kind: 'jump'; jump: LoopJump }
+  | { kind: 'failed'; error: RRError; nodeId: NodeId }
+  | { kind: 'canceled' };
+
+/**
+ * 复合节点（循环 / 并行）的执行结果
+ * @description succeeded 可指定后继节点（并行节点从 join 节点继续），否则沿出口边继续
+ */
+type CompositeOutcome =
+  | { status: 'succeeded'; nextNodeId?: NodeId }
+  | { status: 'failed'; error: RRError }
+  | { status: 'bodyFailed'; error: RRError; nodeId: NodeId }
+  | { status: 'canceled' }
+  | { status: 'jump'; jump: LoopJump };
+
+/**
+ * 节点序列的执行作用域
+ * @description 主流程、循环迭代和并行分支各自持有一个作用域；并行分支使用变量表副本，
+ * 并记录自己产生的变量补丁，在 join 时合并回父作用域
+ */
+interface ExecScope {
+  /** 当前作用域的变量表（主流程为 state.vars） */
+  vars: Record<string, JsonValue>;
+  /** 并行分支 ID（嵌套分支以 "/" 连接），写入该作用域发出的事件 */
+  branchId?: string;
+  /** 分支内应用过的变量补丁（按应用顺序） */
+  patches?: VarsPatchOp[];
+  /** 正在执行的循环节点（由外到内）；连回其中之一的边结束当前迭代 */
+  loops: NodeId[];
+  /** loops 中下标小于该值的循环在分支之外，分支不能 break / continue 它们 */
+  loopBarrier?: number;
+  /** 分支到达该节点即结束 */
+  joinNodeId?: NodeId;
+  /** 分支取消信号（其它分支失败或已有分支胜出时触发） */
+  signal?: AbortSignal;
+  /** 分支独占的 tab */
+  tabId?: number;
+}
+
+/**
+ * 单个并行分支的执行结果
+ */
+interface BranchResult {
+  segment: SegmentResult;
+  patches: VarsPatchOp[];
+}
 
 /**
  * Storage-backed RunRunner implementation
@@ -295,6 +399,10 @@ class StorageBackedRunRunner implements RunRunner {
   private outputs: JsonObject = {};
   private cancelReason: string | undefined;
   private pauseWaiter: Deferred<void> | null = null;
+  /** Run 打开的 tab（按 FlowPolicy.tabCleanup 在结束时关闭） */
+  private openedTabIds: number[] = [];
+  /** 已执行 tabCleanup 时 Run 的结束状态 */
+  private tabCleanupStatus: 'succeeded' | 'failed' | 'canceled' | null = null;
 
   constructor(runId: RunId, config: RunnerConfig, env: RunnerEnv) {
     this.runId = runId;
@@ -384,6 +492,9 @@ class StorageBackedRunRunner implements RunRunner {
         vars[def.name] = def.default;
       }
     }
+    if (vars[TAB_HANDLES_VAR] === undefined) {
+      vars[TAB_HANDLES_VAR] = { [MAIN_TAB_HANDLE]: this.config.tabId };
+    }
     return vars;
   }
 
@@ -462,6 +573,8 @@ class StorageBackedRunRunner implements RunRunner {
         currentNodeId: startNodeId,
       };
       if (existing.startedAt === undefined) patch.startedAt = startedAt;
+      // SW 重启后重跑：沿用上次执行打开的 tab，结束时一并按 tabCleanup 处理
+      if (existing.openedTabIds) this.openedTabIds = [...existing.openedTabIds];
       if (this.config.startNodeId !== undefined) patch.startNodeId = this.config.startNodeId;
       if (this.config.args !== undefined) patch.args = this.config.args;
       if (this.config.debug !== undefined) patch.debug = this.config.debug;
@@ -507,7 +620,30 @@ class StorageBackedRunRunner implements RunRunner {
     }
 
     // Main execution loop
-    let currentNodeId: NodeId | null = startNodeId;
+    const result = await this.runSegment(flow, startNodeId, {
+      vars: this.state.vars,
+      loops: [],
+    });
+    if (result.kind === 'failed') {
+      return this.finishFailed(startedAt, result.error, result.nodeId);
+    }
+
+    if (this.state.canceled) {
+      return this.finishCanceled(startedAt);
+    }
+
+    return this.finishSucceeded(startedAt);
+  }
+
+  /**
+   * 从 entryNodeId 开始顺序执行，直到没有后继节点（或到达分支的 join 节点）
+   */
+  private async runSegment(
+    flow: FlowV3,
+    entryNodeId: NodeId,
+    scope: ExecScope,
+  ): Promise<SegmentResult> {
+    let currentNodeId: NodeId | null = entryNodeId;
     while (currentNodeId) {
       this.state.currentNodeId = currentNodeId;
 
@@ -517,9 +653,9 @@ class StorageBackedRunRunner implements RunRunner {
         this.env.storage.runs.patch(this.runId, { currentNodeId: nodeIdToUpdate }),
       );
 
-      if (this.state.canceled) break;
+      if (this.isCanceled(scope)) return { kind: 'canceled' };
       await this.waitIfPaused();
-      if (this.state.canceled) break;
+      if (this.isCanceled(scope)) return { kind: 'canceled' };
 
       const node = findNodeById(flow, currentNodeId);
       if (!node) {
@@ -527,104 +663,144 @@ class StorageBackedRunRunner implements RunRunner {
           RR_ERROR_CODES.DAG_INVALID,
           `Node "${currentNodeId}" not found in flow`,
         );
-        return this.finishFailed(startedAt, error, currentNodeId);
+        return { kind: 'failed', error, nodeId: currentNodeId };
       }
 
+      let next: NodeRunResult;
+
       // Skip disabled nodes
       if (node.disabled) {
-        await this.queue.run(() =>
-          this.env.events.append({
-            runId: this.runId,
-            type: 'node.skipped',
-            nodeId: node.id,
-            reason: 'disabled',
-          } as RunEventInput),
-        );
-        currentNodeId = findNextNode(flow, node.id);
-        continue;
-      }
-
-      // Check breakpoints
-      if (this.breakpoints.shouldPauseAt(node.id)) {
-        const reason: PauseReason =
-          this.breakpoints.getStepMode() === 'stepOver'
-            ? { kind: 'step', nodeId: node.id }
-            : { kind: 'breakpoint', nodeId: node.id };
-
-        // Clear step mode after hitting (to avoid infinite pause loop)
-        if (this.breakpoints.getStepMode() === 'stepOver') {
-          this.breakpoints.setStepMode('none');
+        await this.emit(scope, {
+          runId: this.runId,
+          type: 'node.skipped',
+          nodeId: node.id,
+          reason: 'disabled',
+        } as RunEventInput);
+        next = this.nextStep(flow, node.id);
+      } else {
+        // Check breakpoints
+        if (this.breakpoints.shouldPauseAt(node.id)) {
+          const reason: PauseReason =
+            this.breakpoints.getStepMode() === 'stepOver'
+              ? { kind: 'step', nodeId: node.id }
+              : { kind: 'breakpoint', nodeId: node.id };
+
+          // Clear step mode after hitting (to avoid infinite pause loop)
+          if (this.breakpoints.getStepMode() === 'stepOver') {
+            this.breakpoints.setStepMode('none');
+          }
+
+          this.requestPause(reason);
+          await this.waitIfPaused();
+          // After resume, proceed to execute the node (don't continue loop)
         }
 
-        this.requestPause(reason);
-        await this.waitIfPaused();
-        // After resume, proceed to execute the node (don't continue loop)
-      }
-
-      // Emit node.queued
-      await this.queue.run(() =>
-        this.env.events.append({
+        // Emit node.queued
+        await this.emit(scope, {
           runId: this.runId,
           type: 'node.queued',
           nodeId: node.id,
-        } as RunEventInput),
-      );
+        } as RunEventInput);
+
+        // Execute node
+        const nodeStartAt = this.env.now();
+        if (isLoopNode(node)) {
+          next = await this.runCompositeNode(flow, node, nodeStartAt, scope, () =>
+            this.executeLoop(flow, node, { ...scope, loops: [...scope.loops, node.id] }),
+          );
+        } else if (isParallelNode(node)) {
+          next = await this.runCompositeNode(flow, node, nodeStartAt, scope, () =>
+            this.executeParallel(flow, node, scope),
+          );
+        } else if (isJoinNode(node)) {
+          next = await this.runJoinNode(flow, node, nodeStartAt, scope);
+        } else {
+          next = await this.runNode(flow, node, nodeStartAt, scope);
+        }
+      }
 
-      // Execute node
-      const nodeStartAt = this.env.now();
-      const next = await this.runNode(flow, node, nodeStartAt);
       if ('terminal' in next) {
-        if (next.terminal === 'canceled') break;
-        if (next.terminal === 'failed') {
-          return this.finishFailed(startedAt, next.error, node.id);
+        if (next.terminal === 'canceled') return { kind: 'canceled' };
+        return { kind: 'failed', error: next.error, nodeId: next.nodeId ?? node.id };
+      }
+      if ('loopJump' in next) {
+        return { kind: 'jump', jump: next.loopJump };
+      }
+
+      // An edge back to an enclosing loop node ends the current iteration
+      const loopIndex = next.nextNodeId ? scope.loops.indexOf(next.nextNodeId) : -1;
+      if (next.nextNodeId && loopIndex >= 0) {
+        if (loopIndex < (scope.loopBarrier ?? 0)) {
+          const error = createRRError(
+            RR_ERROR_CODES.DAG_INVALID,
+            `Parallel branch "${scope.branchId}" cannot break out of loop "${next.nextNodeId}"`,
+          );
+          return { kind: 'failed', error, nodeId: node.id };
         }
-        break;
+        return {
+          kind: 'jump',
+          jump: {
+            loopId: next.nextNodeId,
+            action: next.edgeLabel === EDGE_LABELS.BREAK ? 'break' : 'continue',
+          },
+        };
+      }
+
+      // A branch ends when it reaches its join node
+      if (next.nextNodeId && next.nextNodeId === scope.joinNodeId) {
+        return { kind: 'end' };
       }
 
       currentNodeId = next.nextNodeId;
     }
 
-    if (this.state.canceled) {
-      return this.finishCanceled(startedAt);
-    }
+    return { kind: 'end' };
+  }
 
-    return this.finishSucceeded(startedAt);
+  /**
+   * 沿出边选择后继节点
+   */
+  private nextStep(flow: FlowV3, nodeId: NodeId, label?: EdgeLabel): NodeRunResult {
+    const edge = findNextEdge(flow, nodeId, label);
+    return edge ? { nextNodeId: edge.to, edgeLabel: edge.label } : { nextNodeId: null };
   }
 
-  private async runNode(flow: FlowV3, node: NodeV3, nodeStartAt: number): Promise<NodeRunResult> {
+  private async runNode(
+    flow: FlowV3,
+    node: NodeV3,
+    nodeStartAt: number,
+    scope: ExecScope,
+  ): Promise<NodeRunResult> {
     let attempt = 1;
 
     for (;;) {
-      if (this.state.canceled) return { terminal: 'canceled' };
+      if (this.isCanceled(scope)) return { terminal: 'canceled' };
       await this.waitIfPaused();
-      if (this.state.canceled) return { terminal: 'canceled' };
+      if (this.isCanceled(scope)) return { terminal: 'canceled' };
 
       this.state.attempt = attempt;
 
       // Emit node.started
-      await this.queue.run(() =>
-        this.env.events.append({
-          runId: this.runId,
-          type: 'node.started',
-          nodeId: node.id,
-          attempt,
-        } as RunEventInput),
-      );
+      await this.emit(scope, {
+        runId: this.runId,
+        type: 'node.started',
+        nodeId: node.id,
+        attempt,
+      } as RunEventInput);
+
+      const artifactPolicy = this.resolveNodePolicy(flow, node).artifacts;
+      const capture = await this.startArtifactCapture(node, artifactPolicy, scope);
+      const exec = await this.executeNodeAttempt(flow, node, scope);
+      await this.collectArtifacts(node, artifactPolicy, capture, exec.status === 'failed', scope);
+      await this.recordOpenedTabs(exec.openedTabIds);
+      if (exec.status === 'failed' && this.isCanceled(scope)) return { terminal: 'canceled' };
 
-      const exec = await this.executeNodeAttempt(flow, node);
       if (exec.status === 'succeeded') {
         const tookMs = this.env.now() - nodeStartAt;
 
         // Apply vars patch
-        if (exec.varsPatch && exec.varsPatch.length > 0) {
-          applyVarsPatch(this.state.vars, exec.varsPatch);
-          await this.queue.run(() =>
-            this.env.events.append({
-              runId: this.runId,
-              type: 'vars.patch',
-              patch: exec.varsPatch,
-            } as RunEventInput),
-          );
+        if (exec.varsPatch) {
+          await this.patchVars(scope, exec.varsPatch);
         }
 
         // Merge outputs
@@ -633,76 +809,626 @@ class StorageBackedRunRunner implements RunRunner {
         }
 
         // Emit node.succeeded
-        await this.queue.run(() =>
-          this.env.events.append({
-            runId: this.runId,
-            type: 'node.succeeded',
-            nodeId: node.id,
-            tookMs,
-            ...(exec.next ? { next: exec.next } : {}),
-          } as RunEventInput),
-        );
+        await this.emit(scope, {
+          runId: this.runId,
+          type: 'node.succeeded',
+          nodeId: node.id,
+          tookMs,
+          ...(exec.next ? { next: exec.next } : {}),
+        } as RunEventInput);
 
         if (exec.next?.kind === 'end') {
           return { nextNodeId: null };
         }
 
         const label = exec.next?.kind === 'edgeLabel' ? exec.next.label : undefined;
-        return { nextNodeId: findNextNode(flow, node.id, label) };
+        return this.nextStep(flow, node.id, label);
       }
 
       // Handle failure
-      const error = exec.error;
-      const policy = this.resolveNodePolicy(flow, node);
-      const decision = this.decideOnError(flow, node, policy, error);
+      const handled = await this.handleNodeFailure(flow, node, attempt, exec.error, scope);
+      if ('retryDelayMs' in handled) {
+        if (handled.retryDelayMs > 0) {
+          await sleep(handled.retryDelayMs);
+        }
+        attempt++;
+        continue;
+      }
+      return handled;
+    }
+  }
 
-      // Emit node.failed
-      await this.queue.run(() =>
-        this.env.events.append({
-          runId: this.runId,
-          type: 'node.failed',
-          nodeId: node.id,
-          attempt,
-          error,
-          decision: decision.kind,
-        } as RunEventInput),
-      );
+  /**
+   * 执行复合节点（循环 / 并行）
+   * @description 复合节点自身的重试和 onError 策略在这里处理；子图内节点的失败已按各自策略处理
+   */
+  private async runCompositeNode(
+    flow: FlowV3,
+    node: NodeV3,
+    nodeStartAt: number,
+    scope: ExecScope,
+    execute: () => Promise<CompositeOutcome>,
+  ): Promise<NodeRunResult> {
+    let attempt = 1;
+
+    for (;;) {
+      if (this.isCanceled(scope)) return { terminal: 'canceled' };
+      await this.waitIfPaused();
+      if (this.isCanceled(scope)) return { terminal: 'canceled' };
+
+      this.state.attempt = attempt;
 
-      if (decision.kind === 'retry' && decision.retryPolicy) {
-        const maxAttempts = 1 + Math.max(0, decision.retryPolicy.retries);
-        const canRetry =
-          attempt < maxAttempts &&
-          (decision.retryPolicy.retryOn
-            ? decision.retryPolicy.retryOn.includes(
-                error.code as (typeof decision.retryPolicy.retryOn)[number],
-              )
-            : true);
-
-        if (!canRetry) {
-          return { terminal: 'failed', error };
+      await this.emit(scope, {
+        runId: this.runId,
+        type: 'node.started',
+        nodeId: node.id,
+        attempt,
+      } as RunEventInput);
+
+      const outcome = await execute();
+      switch (outcome.status) {
+        case 'succeeded': {
+          const tookMs = this.env.now() - nodeStartAt;
+          await this.emit(scope, {
+            runId: this.runId,
+            type: 'node.succeeded',
+            nodeId: node.id,
+            tookMs,
+          } as RunEventInput);
+          this.state.currentNodeId = node.id;
+          return outcome.nextNodeId
+            ? { nextNodeId: outcome.nextNodeId }
+            : this.nextStep(flow, node.id);
         }
+        case 'canceled':
+          return { terminal: 'canceled' };
+        case 'jump':
+          return { loopJump: outcome.jump };
+        case 'bodyFailed':
+          // The failing body node already applied its own onError policy
+          return { terminal: 'failed', error: outcome.error, nodeId: outcome.nodeId };
+      }
 
-        const delay = computeRetryDelayMs(decision.retryPolicy, attempt);
-        if (delay > 0) {
-          await sleep(delay);
+      this.state.currentNodeId = node.id;
+      const handled = await this.handleNodeFailure(flow, node, attempt, outcome.error, scope);
+      if ('retryDelayMs' in handled) {
+        if (handled.retryDelayMs > 0) {
+          await sleep(handled.retryDelayMs);
         }
         attempt++;
         continue;
       }
+      return handled;
+    }
+  }
+
+  private async executeLoop(
+    flow: FlowV3,
+    node: NodeV3,
+    scope: ExecScope,
+  ): Promise<CompositeOutcome> {
+    const bodyEdge = findEdgeByLabel(flow, node.id, EDGE_LABELS.BODY);
+    if (!bodyEdge) {
+      return {
+        status: 'failed',
+        error: createRRError(
+          RR_ERROR_CODES.DAG_INVALID,
+          `Loop node "${node.id}" has no "${EDGE_LABELS.BODY}" edge`,
+        ),
+      };
+    }
+
+    // 显式指定 tab 句柄时在该 tab 的主框架中查询
+    const handleTabId = node.tab !== undefined ? resolveTabHandle(scope.vars, node.tab) : undefined;
+    if (node.tab !== undefined && handleTabId === undefined) {
+      return {
+        status: 'failed',
+        error: createRRError(RR_ERROR_CODES.TAB_NOT_FOUND, `Tab handle "${node.tab}" is not bound`),
+      };
+    }
+
+    let source: LoopSource;
+    try {
+      source = await createLoopSource(
+        node,
+        scope.vars,
+        handleTabId !== undefined
+          ? { tabId: handleTabId }
+          : resolveLoopElementsTarget(scope.vars, scope.tabId ?? this.config.tabId),
+      );
+    } catch (e) {
+      return {
+        status: 'failed',
+        error: toRRError(e, { code: RR_ERROR_CODES.INTERNAL, message: 'Loop setup failed' }),
+      };
+    }
+
+    if (source.initialVars) {
+      await this.patchVars(
+        scope,
+        Object.entries(source.initialVars).map(([name, value]) => ({ op: 'set', name, value })),
+      );
+    }
 
-      if (decision.kind === 'continue') {
-        return { nextNodeId: findNextNode(flow, node.id) };
+    for (let index = 0; ; index++) {
+      if (this.isCanceled(scope)) return { status: 'canceled' };
+      await this.waitIfPaused();
+      if (this.isCanceled(scope)) return { status: 'canceled' };
+
+      const iteration = source.next(index, scope.vars);
+      if (!iteration) break;
+
+      if (index >= source.maxIterations) {
+        if (source.onLimit === 'stop') break;
+        return {
+          status: 'failed',
+          error: createRRError(
+            RR_ERROR_CODES.LOOP_LIMIT_EXCEEDED,
+            `Loop "${node.id}" did not finish within ${source.maxIterations} iterations`,
+          ),
+        };
       }
 
-      if (decision.kind === 'goto') {
-        if (decision.target.kind === 'node') {
-          return { nextNodeId: decision.target.nodeId };
+      const patch: VarsPatchOp[] = [];
+      if (source.itemVar && iteration.item !== undefined) {
+        patch.push({ op: 'set', name: source.itemVar, value: iteration.item });
+      }
+      if (source.indexVar) {
+        patch.push({ op: 'set', name: source.indexVar, value: index });
+      }
+      await this.patchVars(scope, patch);
+
+      await this.emit(scope, {
+        runId: this.runId,
+        type: 'loop.iteration',
+        nodeId: node.id,
+        index,
+        ...(iteration.item !== undefined ? { item: iteration.item } : {}),
+      } as RunEventInput);
+
+      const result = await this.runSegment(flow, bodyEdge.to, scope);
+      if (result.kind === 'canceled') return { status: 'canceled' };
+      if (result.kind === 'failed') {
+        return { status: 'bodyFailed', error: result.error, nodeId: result.nodeId };
+      }
+      if (result.kind === 'jump') {
+        // break/continue aimed at an outer loop ends this loop as well
+        if (result.jump.loopId !== node.id) return { status: 'jump', jump: result.jump };
+        if (result.jump.action === 'break') break;
+      }
+    }
+
+    return { status: 'succeeded' };
+  }
+
+  /**
+   * join 节点：汇合由 parallel 节点完成，单独到达时直接通过
+   */
+  private async runJoinNode(
+    flow: FlowV3,
+    node: NodeV3,
+    nodeStartAt: number,
+    scope: ExecScope,
+  ): Promise<NodeRunResult> {
+    this.state.attempt = 1;
+    await this.emit(scope, {
+      runId: this.runId,
+      type: 'node.started',
+      nodeId: node.id,
+      attempt: 1,
+    } as RunEventInput);
+    await this.emit(scope, {
+      runId: this.runId,
+      type: 'node.succeeded',
+      nodeId: node.id,
+      tookMs: this.env.now() - nodeStartAt,
+    } as RunEventInput);
+    return this.nextStep(flow, node.id);
+  }
+
+  /**
+   * 并发执行 parallel 节点的各分支，按 join 节点的语义汇合
+   * @description 分支在变量表副本上运行；汇合后按分支顺序把补丁合并回当前作用域
+   */
+  private async executeParallel(
+    flow: FlowV3,
+    node: NodeV3,
+    scope: ExecScope,
+  ): Promise<CompositeOutcome> {
+    const branchEdges = getBranchEdges(flow, node.id);
+    const joinNode = findJoinNode(flow, node.id);
+    if (branchEdges.length === 0 || !joinNode) {
+      return {
+        status: 'failed',
+        error: createRRError(
+          RR_ERROR_CODES.DAG_INVALID,
+          `Parallel node "${node.id}" needs "${EDGE_LABELS.BRANCH}" edges that meet at a join node`,
+        ),
+      };
+    }
+
+    let parallelConfig: ReturnType<typeof parseParallelConfig>;
+    let joinMode: ReturnType<typeof parseJoinConfig>['mode'];
+    try {
+      parallelConfig = parseParallelConfig(node);
+      joinMode = parseJoinConfig(joinNode).mode;
+    } catch (e) {
+      return {
+        status: 'failed',
+        error: toRRError(e, { code: RR_ERROR_CODES.VALIDATION_ERROR, message: 'Invalid config' }),
+      };
+    }
+
+    const newTabs = parallelConfig.tabs === 'newTab';
+    const branchTabIds: number[] = [];
+    if (newTabs) {
+      try {
+        for (let i = 0; i < branchEdges.length; i++) {
+          const tabId = await openBranchTab(parallelConfig.url, this.activeTabId(scope));
+          branchTabIds.push(tabId);
+          // closeTabs=false 时由 tabCleanup 收尾；记录下来也让 SW 重启后的重跑能清理
+          await this.recordOpenedTabs([tabId]);
+        }
+      } catch (e) {
+        await closeBranchTabs(branchTabIds);
+        await this.forgetOpenedTabs(branchTabIds);
+        return {
+          status: 'failed',
+          error: toRRError(e, { code: RR_ERROR_CODES.TAB_NOT_FOUND, message: 'Open tab failed' }),
+        };
+      }
+    }
+
+    const controller = new AbortController();
+    const abortBranches = () => controller.abort();
+    scope.signal?.addEventListener('abort', abortBranches);
+
+    const results: Array<BranchResult | undefined> = new Array(branchEdges.length);
+    let winner: number | undefined;
+
+    const runBranch = async (index: number): Promise<void> => {
+      const edge = branchEdges[index];
+      const branchId = scope.branchId ? `${scope.branchId}/${edge.id}` : edge.id;
+      const branchScope: ExecScope = {
+        vars: structuredClone(scope.vars),
+        branchId,
+        patches: [],
+        loops: scope.loops,
+        loopBarrier: scope.loops.length,
+        joinNodeId: joinNode.id,
+        signal: controller.signal,
+        tabId: newTabs ? branchTabIds[index] : scope.tabId,
+      };
+      if (newTabs) {
+        // 分支在自己的 tab 中运行，不继承父作用域切换过的 tab / frame
+        delete branchScope.vars[DEFAULT_TAB_ID_VAR];
+        delete branchScope.vars[DEFAULT_FRAME_ID_VAR];
+      }
+
+      const startedAt = this.env.now();
+      await this.emit(scope, {
+        runId: this.runId,
+        type: 'parallel.branch.started',
+        nodeId: node.id,
+        branchId,
+        entryNodeId: edge.to,
+        ...(branchScope.tabId !== undefined ? { tabId: branchScope.tabId } : {}),
+      } as RunEventInput);
+
+      let segment: SegmentResult;
+      if (edge.to === joinNode.id) {
+        segment = { kind: 'end' };
+      } else {
+        try {
+          segment = await this.runSegment(flow, edge.to, branchScope);
+        } catch (e) {
+          segment = {
+            kind: 'failed',
+            error: toRRError(e, { code: RR_ERROR_CODES.INTERNAL, message: 'Branch failed' }),
+            nodeId: node.id,
+          };
+        }
+      }
+      if (segment.kind === 'jump') {
+        // 分支不能跳出到分支之外的循环（runSegment 已拦截），这里只做兜底
+        segment = {
+          kind: 'failed',
+          error: createRRError(
+            RR_ERROR_CODES.DAG_INVALID,
+            `Parallel branch "${branchId}" cannot break out of loop "${segment.jump.loopId}"`,
+          ),
+          nodeId: node.id,
+        };
+      }
+      results[index] = { segment, patches: branchScope.patches ?? [] };
+
+      if (segment.kind === 'end') {
+        if (joinMode === 'firstSuccess' && winner === undefined) {
+          winner = index;
+          controller.abort();
+        }
+      } else if (segment.kind === 'failed' && joinMode === 'all') {
+        controller.abort();
+      }
+
+      await this.emit(scope, {
+        runId: this.runId,
+        type: 'parallel.branch.finished',
+        nodeId: node.id,
+        branchId,
+        status:
+          segment.kind === 'end' ? 'succeeded' : segment.kind === 'failed' ? 'failed' : 'canceled',
+        tookMs: this.env.now() - startedAt,
+        ...(segment.kind === 'failed'
+          ? { error: segment.error, failedNodeId: segment.nodeId }
+          : {}),
+      } as RunEventInput);
+    };
+
+    try {
+      const limit = Math.min(
+        parallelConfig.maxConcurrency ?? branchEdges.length,
+        branchEdges.length,
+      );
+      let nextIndex = 0;
+      const worker = async (): Promise<void> => {
+        while (nextIndex < branchEdges.length) {
+          const index = nextIndex++;
+          if (controller.signal.aborted) {
+            results[index] = { segment: { kind: 'canceled' }, patches: [] };
+            continue;
+          }
+          await runBranch(index);
         }
-        return { nextNodeId: findNextNode(flow, node.id, decision.target.label) };
+      };
+      await Promise.all(Array.from({ length: limit }, () => worker()));
+    } finally {
+      scope.signal?.removeEventListener('abort', abortBranches);
+      if (newTabs && parallelConfig.closeTabs) {
+        await closeBranchTabs(branchTabIds);
+        await this.forgetOpenedTabs(branchTabIds);
+      }
+    }
+
+    if (this.isCanceled(scope)) return { status: 'canceled' };
+
+    let merged: BranchResult[];
+    if (joinMode === 'all') {
+      const failed = results.find((r) => r?.segment.kind === 'failed')?.segment;
+      if (failed?.kind === 'failed') {
+        return { status: 'bodyFailed', error: failed.error, nodeId: failed.nodeId };
+      }
+      merged = results.filter((r): r is BranchResult => r?.segment.kind === 'end');
+    } else if (joinMode === 'firstSuccess') {
+      merged = winner !== undefined ? [results[winner]!] : [];
+    } else {
+      merged = results.filter((r): r is BranchResult => r?.segment.kind === 'end');
+    }
+
+    if (merged.length === 0) {
+      return {
+        status: 'failed',
+        error: createRRError(
+          RR_ERROR_CODES.PARALLEL_BRANCHES_FAILED,
+          `No branch of parallel node "${node.id}" succeeded`,
+        ),
+      };
+    }
+
+    // newTab 模式下分支的 tab / frame 变量只在分支内有效
+    const exclude = newTabs ? new Set([DEFAULT_TAB_ID_VAR, DEFAULT_FRAME_ID_VAR]) : undefined;
+    await this.patchVars(
+      scope,
+      mergeBranchPatches(
+        merged.map((r) => r.patches),
+        exclude,
+      ),
+    );
+
+    return { status: 'succeeded', nextNodeId: joinNode.id };
+  }
+
+  /**
+   * 应用变量补丁并发出 vars.patch 事件
+   */
+  private async patchVars(scope: ExecScope, patch: VarsPatchOp[]): Promise<void> {
+    if (patch.length === 0) return;
+    applyVarsPatch(scope.vars, patch);
+    scope.patches?.push(...patch);
+    await this.emit(scope, {
+      runId: this.runId,
+      type: 'vars.patch',
+      patch,
+    } as RunEventInput);
+  }
+
+  /**
+   * 发出 node.failed 并按 onError 策略决定后续
+   * @returns 后继/终止结果，或需要重试时的等待时间
+   */
+  private async handleNodeFailure(
+    flow: FlowV3,
+    node: NodeV3,
+    attempt: number,
+    error: RRError,
+    scope: ExecScope,
+  ): Promise<NodeRunResult | { retryDelayMs: number }> {
+    const policy = this.resolveNodePolicy(flow, node);
+    const decision = this.decideOnError(flow, node, policy, error);
+
+    // Emit node.failed
+    await this.emit(scope, {
+      runId: this.runId,
+      type: 'node.failed',
+      nodeId: node.id,
+      attempt,
+      error,
+      decision: decision.kind,
+    } as RunEventInput);
+
+    if (decision.kind === 'retry' && decision.retryPolicy) {
+      const maxAttempts = 1 + Math.max(0, decision.retryPolicy.retries);
+      const canRetry =
+        attempt < maxAttempts &&
+        (decision.retryPolicy.retryOn
+          ? decision.retryPolicy.retryOn.includes(
+              error.code as (typeof decision.retryPolicy.retryOn)[number],
+            )
+          : true);
+
+      if (!canRetry) {
+        return { terminal: 'failed', error };
+      }
+
+      return { retryDelayMs: computeRetryDelayMs(decision.retryPolicy, attempt) };
+    }
+
+    if (decision.kind === 'continue') {
+      return this.nextStep(flow, node.id);
+    }
+
+    if (decision.kind === 'goto') {
+      if (decision.target.kind === 'node') {
+        return { nextNodeId: decision.target.nodeId };
+      }
+      return this.nextStep(flow, node.id, decision.target.label);
+    }
+
+    return { terminal: 'failed', error };
+  }
+
+  /**
+   * 发出作用域内的事件（并行分支内的事件带上 branchId）
+   */
+  private emit(scope: ExecScope, event: RunEventInput): Promise<void> {
+    return this.queue.run(async () => {
+      await this.env.events.append({
+        ...(scope.branchId ? { branchId: scope.branchId } : {}),
+        ...event,
+      } as RunEventInput);
+    });
+  }
+
+  private isCanceled(scope: ExecScope): boolean {
+    return this.state.canceled || !!scope.signal?.aborted;
+  }
+
+  /**
+   * 当前操作的 tab：节点显式指定的句柄优先，其次是 V2 节点切换 tab 后写入的 DEFAULT_TAB_ID_VAR
+   */
+  private activeTabId(scope: ExecScope, node?: NodeV3): number {
+    if (node?.tab !== undefined) {
+      const handleTabId = resolveTabHandle(scope.vars, node.tab);
+      if (handleTabId !== undefined) return handleTabId;
+    }
+    const tabId = scope.vars[DEFAULT_TAB_ID_VAR];
+    if (typeof tabId === 'number' && Number.isFinite(tabId)) return tabId;
+    return scope.tabId ?? this.config.tabId;
+  }
+
+  /**
+   * 按工件策略开始采集节点时间窗口内的控制台 / 网络日志
+   * @description best-effort：启动失败只记录 warn 日志，不影响节点执行
+   */
+  private async startArtifactCapture(
+    node: NodeV3,
+    policy: ArtifactPolicy | undefined,
+    scope: ExecScope,
+  ): Promise<ArtifactCapture | null> {
+    if (!policy?.includeConsole && !policy?.includeNetwork) return null;
+    try {
+      return await this.env.artifactService.startCapture(this.activeTabId(scope, node), {
+        console: policy.includeConsole,
+        network: policy.includeNetwork,
+      });
+    } catch (e) {
+      await this.appendArtifactWarnings(scope, node.id, [`capture: ${errorMessage(e)}`]);
+      return null;
+    }
+  }
+
+  /**
+   * 结束采集并按工件策略保存截图 / 控制台 / 网络工件
+   */
+  private async collectArtifacts(
+    node: NodeV3,
+    policy: ArtifactPolicy | undefined,
+    capture: ArtifactCapture | null,
+    failed: boolean,
+    scope: ExecScope,
+  ): Promise<void> {
+    const screenshot = policy?.screenshot ?? 'never';
+    const wantScreenshot = screenshot === 'always' || (screenshot === 'onFailure' && failed);
+    if (!capture && !wantScreenshot) return;
+
+    const base = { runId: this.runId, nodeId: node.id };
+    const pending: SaveArtifactInput[] = [];
+    const warnings: string[] = [];
+
+    if (capture) {
+      const logs = await capture.stop();
+      const window = { startedAt: logs.startedAt, endedAt: logs.endedAt };
+      warnings.push(...logs.errors);
+      for (const kind of ['console', 'network'] as const) {
+        const data = logs[kind];
+        if (data === undefined) continue;
+        pending.push({
+          ...base,
+          kind,
+          mimeType: 'application/json',
+          data: JSON.stringify(data),
+          window,
+        });
+      }
+    }
+
+    if (wantScreenshot) {
+      const shot = await this.env.artifactService.screenshot(this.activeTabId(scope, node));
+      if (shot.ok) {
+        pending.push({
+          ...base,
+          kind: 'screenshot',
+          mimeType: 'image/png',
+          data: shot.base64,
+          ...(policy?.saveScreenshotAs ? { name: policy.saveScreenshotAs } : {}),
+        });
+      } else {
+        warnings.push(`screenshot: ${shot.error.message}`);
       }
+    }
 
-      return { terminal: 'failed', error };
+    for (const input of pending) {
+      const saved = await this.env.artifactService.saveArtifact(input);
+      if ('error' in saved) {
+        warnings.push(`${input.kind}: ${saved.error.message}`);
+        continue;
+      }
+      await this.emit(scope, {
+        runId: this.runId,
+        type: 'artifact.saved',
+        nodeId: node.id,
+        artifactId: saved.artifact.id,
+        kind: saved.artifact.kind,
+        name: saved.artifact.name,
+        size: saved.artifact.size,
+      } as RunEventInput);
     }
+
+    await this.appendArtifactWarnings(scope, node.id, warnings);
+  }
+
+  private async appendArtifactWarnings(
+    scope: ExecScope,
+    nodeId: NodeId,
+    warnings: string[],
+  ): Promise<void> {
+    if (warnings.length === 0) return;
+    await this.emit(scope, {
+      runId: this.runId,
+      type: 'log',
+      level: 'warn',
+      message: `Artifact collection for node "${nodeId}" incomplete: ${warnings.join('; ')}`,
+    } as RunEventInput);
   }
 
   private resolveNodePolicy(flow: FlowV3, node: NodeV3): NodePolicy {
@@ -749,7 +1475,11 @@ class StorageBackedRunRunner implements RunRunner {
     return { kind: 'retry', retryPolicy };
   }
 
-  private async executeNodeAttempt(flow: FlowV3, node: NodeV3): Promise<NodeExecutionResult> {
+  private async executeNodeAttempt(
+    flow: FlowV3,
+    node: NodeV3,
+    scope: ExecScope,
+  ): Promise<NodeExecutionResult> {
     const def = this.env.plugins.getNode(node.kind);
     if (!def) {
       return {
@@ -774,28 +1504,41 @@ class StorageBackedRunRunner implements RunRunner {
       };
     }
 
+    let tabId = scope.tabId ?? this.config.tabId;
+    if (node.tab !== undefined) {
+      const handleTabId = resolveTabHandle(scope.vars, node.tab);
+      if (handleTabId === undefined) {
+        return {
+          status: 'failed',
+          error: createRRError(
+            RR_ERROR_CODES.TAB_NOT_FOUND,
+            `Tab handle "${node.tab}" is not bound`,
+          ),
+        };
+      }
+      tabId = handleTabId;
+    }
+
     const ctx: NodeExecutionContext = {
       runId: this.runId,
       flow,
       nodeId: node.id,
-      tabId: this.config.tabId,
-      vars: this.state.vars,
+      tabId,
+      ...(node.tab !== undefined ? { tabHandle: node.tab } : {}),
+      ...(scope.signal ? { signal: scope.signal } : {}),
+      vars: scope.vars,
       log: (level, message, data) => {
-        void this.queue
-          .run(() =>
-            this.env.events.append({
-              runId: this.runId,
-              type: 'log',
-              level,
-              message,
-              ...(data !== undefined ? { data } : {}),
-            } as RunEventInput),
-          )
-          .catch(() => {});
+        void this.emit(scope, {
+          runId: this.runId,
+          type: 'log',
+          level,
+          message,
+          ...(data !== undefined ? { data } : {}),
+        } as RunEventInput).catch(() => {});
       },
       chooseNext: (label) => ({ kind: 'edgeLabel', label }),
       artifacts: {
-        screenshot: () => this.env.artifactService.screenshot(this.config.tabId),
+        screenshot: () => this.env.artifactService.screenshot(this.activeTabId(scope, node)),
       },
       persistent: {
         get: async (name) => (await this.env.storage.persistentVars.get(name))?.value,
@@ -810,17 +1553,27 @@ class StorageBackedRunRunner implements RunRunner {
 
     const policy = this.resolveNodePolicy(flow, node);
     const timeoutMs = policy.timeout?.ms;
-    const scope = policy.timeout?.scope ?? 'attempt';
-    const attemptTimeoutMs = scope === 'attempt' && timeoutMs !== undefined ? timeoutMs : undefined;
+    const timeoutScope = policy.timeout?.scope ?? 'attempt';
+    const attemptTimeoutMs =
+      timeoutScope === 'attempt' && timeoutMs !== undefined ? timeoutMs : undefined;
 
+    let execPromise: Promise<NodeExecutionResult> | undefined;
     try {
       const nodeWithConfig = { ...node, config: parsedConfig } as Parameters<typeof def.execute>[1];
-      const execPromise = def.execute(ctx, nodeWithConfig);
-      const result = await withTimeout(execPromise, attemptTimeoutMs, () =>
-        createRRError(RR_ERROR_CODES.TIMEOUT, `Node "${node.id}" timed out`),
+      execPromise = def.execute(ctx, nodeWithConfig);
+      // 分支被取消时不等待节点结束，汇合可以立即继续
+      const result = await withAbort(
+        withTimeout(execPromise, attemptTimeoutMs, () =>
+          createRRError(RR_ERROR_CODES.TIMEOUT, `Node "${node.id}" timed out`),
+        ),
+        scope.signal,
+        () =>
+          createRRError(RR_ERROR_CODES.RUN_CANCELED, `Branch running "${node.id}" was canceled`),
       );
       return result;
     } catch (e) {
+      // 超时或分支取消后节点仍在运行：它稍后报告打开的 tab 依然纳入清理
+      void execPromise?.then((late) => this.recordOpenedTabs(late.openedTabIds)).catch(() => {});
       return {
         status: 'failed',
         error: toRRError(e, { code: RR_ERROR_CODES.INTERNAL, message: 'Node execution threw' }),
@@ -828,7 +1581,67 @@ class StorageBackedRunRunner implements RunRunner {
     }
   }
 
+  /**
+   * 记录节点打开的 tab，并写入 RunRecord 以便 SW 重启后的重跑仍能清理
+   * @description Run 已完成清理时（超时节点迟到的结果）直接按 tabCleanup 处理
+   */
+  private async recordOpenedTabs(tabIds: number[] | undefined): Promise<void> {
+    if (!tabIds || tabIds.length === 0) return;
+    if (this.tabCleanupStatus !== null) {
+      if (this.shouldCloseOpenedTabs(this.tabCleanupStatus)) await this.closeTabs(tabIds);
+      return;
+    }
+    this.openedTabIds = Array.from(new Set([...this.openedTabIds, ...tabIds]));
+    const openedTabIds = [...this.openedTabIds];
+    await this.queue.run(() => this.env.storage.runs.patch(this.runId, { openedTabIds }));
+  }
+
+  /**
+   * 已关闭的 tab 不再参与 tabCleanup
+   */
+  private async forgetOpenedTabs(tabIds: number[]): Promise<void> {
+    if (tabIds.length === 0 || this.tabCleanupStatus !== null) return;
+    const closed = new Set(tabIds);
+    this.openedTabIds = this.openedTabIds.filter((id) => !closed.has(id));
+    const openedTabIds = [...this.openedTabIds];
+    await this.queue.run(() => this.env.storage.runs.patch(this.runId, { openedTabIds }));
+  }
+
+  private shouldCloseOpenedTabs(status: 'succeeded' | 'failed' | 'canceled'): boolean {
+    const policy = this.config.flow.policy?.tabCleanup ?? 'never';
+    return (
+      policy === 'always' ||
+      (policy === 'onSuccess' && status === 'succeeded') ||
+      (policy === 'onFailure' && status !== 'succeeded')
+    );
+  }
+
+  /**
+   * 按 FlowPolicy.tabCleanup 关闭 Run 打开的 tab（best-effort，不关闭 Run 的初始 tab）
+   */
+  private async cleanupOpenedTabs(status: 'succeeded' | 'failed' | 'canceled'): Promise<void> {
+    this.tabCleanupStatus = status;
+    const tabIds = this.openedTabIds;
+    this.openedTabIds = [];
+    if (this.shouldCloseOpenedTabs(status)) await this.closeTabs(tabIds);
+  }
+
+  private async closeTabs(tabIds: number[]): Promise<void> {
+    const targets = Array.from(new Set(tabIds)).filter((id) => id !== this.config.tabId);
+    // 逐个关闭：tab 可能已被流程或用户关闭
+    await Promise.all(
+      targets.map(async (tabId) => {
+        try {
+          await chrome.tabs.remove(tabId);
+        } catch (e) {
+          console.warn(`[RunRunner] failed to close tab ${tabId}:`, e);
+        }
+      }),
+    );
+  }
+
   private async finishSucceeded(startedAt: number): Promise<RunResult> {
+    await this.cleanupOpenedTabs('succeeded');
     const tookMs = this.env.now() - startedAt;
     await this.queue.run(async () => {
       await this.env.storage.runs.patch(this.runId, {
@@ -853,6 +1666,7 @@ class StorageBackedRunRunner implements RunRunner {
     error: RRError,
     nodeId?: NodeId,
   ): Promise<RunResult> {
+    await this.cleanupOpenedTabs('failed');
     const tookMs = this.env.now() - startedAt;
     await this.queue.run(async () => {
       await this.env.storage.runs.patch(this.runId, {
@@ -874,6 +1688,7 @@ class StorageBackedRunRunner implements RunRunner {
   }
 
   private async finishCanceled(startedAt: number): Promise<RunResult> {
+    await this.cleanupOpenedTabs('canceled');
     const tookMs = this.env.now() - startedAt;
     await this.queue.run(async () => {
       await this.env.storage.runs.patch(this.runId, {
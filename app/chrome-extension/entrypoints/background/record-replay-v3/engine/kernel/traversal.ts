@@ -4,9 +4,11 @@
  */
 
 import type { NodeId, EdgeLabel } from '../../domain/ids';
-import type { FlowV3, EdgeV3 } from '../../domain/flow';
+import type { FlowV3, EdgeV3, NodeV3 } from '../../domain/flow';
 import { EDGE_LABELS } from '../../domain/ids';
 import { RR_ERROR_CODES, createRRError, type RRError } from '../../domain/errors';
+import { isLoopNode } from './loops';
+import { isJoinNode, isParallelNode } from './parallel';
 
 /**
  * DAG 校验结果
@@ -52,7 +54,41 @@ export function validateFlowDAG(flow: FlowV3): ValidateFlowDAGResult {
     }
   }
 
-  // 检查循环
+  // 检查循环节点的 body 边
+  for (const node of flow.nodes) {
+    if (!isLoopNode(node)) continue;
+    const bodyEdges = flow.edges.filter((e) => e.from === node.id && e.label === EDGE_LABELS.BODY);
+    if (bodyEdges.length !== 1) {
+      errors.push(
+        createRRError(
+          RR_ERROR_CODES.DAG_INVALID,
+          `Loop node "${node.id}" must have exactly one "${EDGE_LABELS.BODY}" edge (found ${bodyEdges.length})`,
+        ),
+      );
+    }
+  }
+
+  // 检查并行节点的 branch 边和汇合点
+  for (const node of flow.nodes) {
+    if (!isParallelNode(node)) continue;
+    if (getBranchEdges(flow, node.id).length === 0) {
+      errors.push(
+        createRRError(
+          RR_ERROR_CODES.DAG_INVALID,
+          `Parallel node "${node.id}" must have at least one "${EDGE_LABELS.BRANCH}" edge`,
+        ),
+      );
+    } else if (!findJoinNode(flow, node.id)) {
+      errors.push(
+        createRRError(
+          RR_ERROR_CODES.DAG_INVALID,
+          `Branches of parallel node "${node.id}" do not meet at a join node`,
+        ),
+      );
+    }
+  }
+
+  // 检查循环（循环体连回循环节点的边除外）
   const cycle = detectCycle(flow);
   if (cycle) {
     errors.push(
@@ -65,11 +101,12 @@ export function validateFlowDAG(flow: FlowV3): ValidateFlowDAGResult {
 
 /**
  * 检测 DAG 中的循环
+ * @description 循环体连回其循环节点的边（loop-back）不计入
  * @param flow Flow 定义
  * @returns 循环路径（如果存在）或 null
  */
 export function detectCycle(flow: FlowV3): NodeId[] | null {
-  const adjacency = buildAdjacencyMap(flow);
+  const adjacency = buildAdjacencyMap(flow, getLoopBackEdgeIds(flow));
   const visited = new Set<NodeId>();
   const recursionStack = new Set<NodeId>();
   const path: NodeId[] = [];
@@ -122,7 +159,23 @@ export function findNextNode(
   currentNodeId: NodeId,
   label?: EdgeLabel,
 ): NodeId | null {
-  const outEdges = flow.edges.filter((e) => e.from === currentNodeId);
+  return findNextEdge(flow, currentNodeId, label)?.to ?? null;
+}
+
+/**
+ * 查找下一条边
+ * @description body / branch 边只在进入循环体或并行分支时使用，不参与普通的后继选择
+ * （因此对循环节点返回的是循环结束后的出口边）
+ */
+export function findNextEdge(
+  flow: FlowV3,
+  currentNodeId: NodeId,
+  label?: EdgeLabel,
+): EdgeV3 | null {
+  const outEdges = flow.edges.filter(
+    (e) =>
+      e.from === currentNodeId && e.label !== EDGE_LABELS.BODY && e.label !== EDGE_LABELS.BRANCH,
+  );
 
   if (outEdges.length === 0) {
     return null;
@@ -132,7 +185,7 @@ export function findNextNode(
   if (label) {
     const matchedEdge = outEdges.find((e) => e.label === label);
     if (matchedEdge) {
-      return matchedEdge.to;
+      return matchedEdge;
     }
   }
 
@@ -141,12 +194,12 @@ export function findNextNode(
     (e) => e.label === EDGE_LABELS.DEFAULT || e.label === undefined,
   );
   if (defaultEdge) {
-    return defaultEdge.to;
+    return defaultEdge;
   }
 
   // 如果只有一条边，使用它
   if (outEdges.length === 1) {
-    return outEdges[0].to;
+    return outEdges[0];
   }
 
   return null;
@@ -177,10 +230,94 @@ export function getInEdges(flow: FlowV3, nodeId: NodeId): EdgeV3[] {
   return flow.edges.filter((e) => e.to === nodeId);
 }
 
+/**
+ * 获取循环节点的循环体
+ * @description 从 body 边的目标出发可达、且不经过该循环节点本身的所有节点
+ * （嵌套循环的循环体也包含在内）
+ */
+export function getLoopBody(flow: FlowV3, loopNodeId: NodeId): Set<NodeId> {
+  const body = new Set<NodeId>();
+  const bodyEdge = findEdgeByLabel(flow, loopNodeId, EDGE_LABELS.BODY);
+  if (!bodyEdge || bodyEdge.to === loopNodeId) return body;
+
+  const stack: NodeId[] = [bodyEdge.to];
+  while (stack.length > 0) {
+    const nodeId = stack.pop()!;
+    if (body.has(nodeId)) continue;
+    body.add(nodeId);
+    for (const edge of flow.edges) {
+      if (edge.from === nodeId && edge.to !== loopNodeId && !body.has(edge.to)) {
+        stack.push(edge.to);
+      }
+    }
+  }
+  return body;
+}
+
+/**
+ * 获取并行节点的 branch 边（按 Flow 中的边顺序，即分支顺序）
+ */
+export function getBranchEdges(flow: FlowV3, parallelNodeId: NodeId): EdgeV3[] {
+  return flow.edges.filter((e) => e.from === parallelNodeId && e.label === EDGE_LABELS.BRANCH);
+}
+
+/**
+ * 查找并行节点的汇合节点
+ * @description 所有分支都能到达的 join 节点中离分支最近的一个（其余候选都可从它到达）
+ * @returns join 节点，或 undefined（没有分支或分支不汇合）
+ */
+export function findJoinNode(flow: FlowV3, parallelNodeId: NodeId): NodeV3 | undefined {
+  const branchEdges = getBranchEdges(flow, parallelNodeId);
+  if (branchEdges.length === 0) return undefined;
+
+  const adjacency = buildAdjacencyMap(flow, getLoopBackEdgeIds(flow));
+  const reach = (from: NodeId): Set<NodeId> => {
+    const seen = new Set<NodeId>();
+    const stack: NodeId[] = [from];
+    while (stack.length > 0) {
+      const nodeId = stack.pop()!;
+      if (seen.has(nodeId)) continue;
+      seen.add(nodeId);
+      stack.push(...(adjacency.get(nodeId) ?? []));
+    }
+    return seen;
+  };
+
+  const branchReach = branchEdges.map((e) => reach(e.to));
+  const candidates = flow.nodes.filter(
+    (n) => isJoinNode(n) && branchReach.every((reachable) => reachable.has(n.id)),
+  );
+  return candidates.find((candidate) => {
+    const reachable = reach(candidate.id);
+    return candidates.every((other) => reachable.has(other.id));
+  });
+}
+
+/**
+ * 获取所有 loop-back 边（循环体内连回其循环节点的边）
+ */
+export function getLoopBackEdgeIds(flow: FlowV3): Set<EdgeV3['id']> {
+  const ids = new Set<EdgeV3['id']>();
+  for (const node of flow.nodes) {
+    if (!isLoopNode(node)) continue;
+    const body = getLoopBody(flow, node.id);
+    for (const edge of flow.edges) {
+      if (edge.to === node.id && body.has(edge.from)) {
+        ids.add(edge.id);
+      }
+    }
+  }
+  return ids;
+}
+
 /**
  * 构建邻接表
+ * @param ignoreEdgeIds 忽略的边
  */
-function buildAdjacencyMap(flow: FlowV3): Map<NodeId, NodeId[]> {
+function buildAdjacencyMap(
+  flow: FlowV3,
+  ignoreEdgeIds?: ReadonlySet<EdgeV3['id']>,
+): Map<NodeId, NodeId[]> {
   const map = new Map<NodeId, NodeId[]>();
 
   for (const node of flow.nodes) {
@@ -188,6 +325,7 @@ function buildAdjacencyMap(flow: FlowV3): Map<NodeId, NodeId[]> {
   }
 
   for (const edge of flow.edges) {
+    if (ignoreEdgeIds?.has(edge.id)) continue;
     const neighbors = map.get(edge.from);
     if (neighbors) {
       neighbors.push(edge.to);
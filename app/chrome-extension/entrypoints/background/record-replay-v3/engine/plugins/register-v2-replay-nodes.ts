@@ -40,7 +40,7 @@ export interface RegisterV2ReplayNodesOptions extends V2ActionNodeAdapterOptions
  * ```ts
  * const plugins = new PluginRegistry();
  * const registered = registerV2ReplayNodesAsV3Nodes(plugins, {
- *   // Exclude control flow handlers that V3 runner doesn't support
+ *   // Loops are executed natively by the V3 runner
  *   exclude: ['foreach', 'while'],
  * });
  * console.log('Registered:', registered);
@@ -85,6 +85,7 @@ export function listV2ActionTypes(): string[] {
 
 /**
  * Default exclude list for V3 registration.
- * These handlers rely on V2 control directives that V3 runner doesn't support.
+ * These handlers only return V2 scheduler control directives; the V3 runner
+ * executes foreach/while (and loopElements) natively, see engine/kernel/loops.ts.
  */
 export const DEFAULT_V2_EXCLUDE_LIST = ['foreach', 'while'] as const;
@@ -35,6 +35,14 @@ export interface NodeExecutionContext {
   tabId: number;
   /** Frame ID（默认 0 为主框架） */
   frameId?: number;
+  /** 节点显式指定的 tab 句柄（此时 tabId 为该句柄绑定的 tab） */
+  tabHandle?: string;
+
+  /**
+   * 所在并行分支的取消信号
+   * @description 分支被取消时 Runner 不再等待节点结束；耗时的节点应据此尽早停止
+   */
+  signal?: AbortSignal;
 
   /** 当前变量表 */
   vars: Record<string, JsonValue>;
@@ -92,8 +100,15 @@ export type NodeExecutionResult =
       outputs?: JsonObject;
       /** 变量修改 */
       varsPatch?: VarsPatchOp[];
+      /** 节点打开的 tab（Run 结束时按 FlowPolicy.tabCleanup 关闭） */
+      openedTabIds?: number[];
     }
-  | { status: 'failed'; error: RRError };
+  | {
+      status: 'failed';
+      error: RRError;
+      /** 失败前已打开的 tab（同样按 FlowPolicy.tabCleanup 关闭） */
+      openedTabIds?: number[];
+    };
 
 /**
  * 节点定义
@@ -6,6 +6,7 @@
  * - V3 requires variable mutations to be represented as varsPatch so they are auditable in the event log.
  * - V2 handlers mutate ctx.vars directly, so we run them against a cloned VariableStore and diff it.
  * - Cross-node state (tabId/frameId changes from switchFrame/openTab/switchTab) is persisted in internal vars.
+ * - openTab/switchTab/closeTab accept a `handle` param that binds, selects or releases a named tab handle.
  *
  * WARNING: This adapter accesses V2 handler internals and may need updates if V2 types change.
  */
@@ -28,6 +29,7 @@ import type { JsonValue, JsonObject } from '../../domain/json';
 import { RR_ERROR_CODES, createRRError, type RRError, type RRErrorCode } from '../../domain/errors';
 import type { NodePolicy } from '../../domain/policy';
 import { mergeNodePolicy } from '../../domain/policy';
+import { TAB_HANDLES_VAR, resolveTabHandle, withTabHandle } from '../../domain/tabs';
 
 import type {
   NodeDefinition,
@@ -37,8 +39,12 @@ import type {
 } from './types';
 
 // Internal run-scoped state keys used to emulate V2 "mutable context" across nodes.
-const DEFAULT_TAB_ID_VAR = '__rr_v2__tabId';
-const DEFAULT_FRAME_ID_VAR = '__rr_v2__frameId';
+// Exported so native loop nodes (loopElements) query the tab/frame the adapters switched to.
+export const DEFAULT_TAB_ID_VAR = '__rr_v2__tabId';
+export const DEFAULT_FRAME_ID_VAR = '__rr_v2__frameId';
+
+// V2 tab actions that understand the `handle` param.
+const TAB_HANDLE_ACTION_TYPES: ReadonlySet<string> = new Set(['openTab', 'switchTab', 'closeTab']);
 
 export interface V2ActionNodeAdapterOptions {
   /**
@@ -260,6 +266,54 @@ function toV2ActionPolicy(policy: NodePolicy | undefined): ActionPolicy | undefi
   };
 }
 
+function readHandleParam(config: JsonObject): string | undefined {
+  const handle = config.handle;
+  return typeof handle === 'string' && handle.trim() ? handle.trim() : undefined;
+}
+
+/**
+ * Resolve the `handle` param of switchTab/closeTab into the tab they act on.
+ * - switchTab without tabId/urlContains/titleContains switches to the handle's tab;
+ *   with one of them it finds the tab and (after success) binds it to the handle.
+ * - closeTab closes the handle's tab.
+ */
+function resolveTabHandleParams(
+  type: string,
+  params: JsonObject,
+  handle: string,
+  vars: Record<string, JsonValue>,
+): { params: JsonObject; boundTabId?: number } | { error: RRError } {
+  if (type === 'openTab') return { params };
+
+  const hasCriteria =
+    type === 'switchTab'
+      ? params.tabId !== undefined ||
+        params.urlContains !== undefined ||
+        params.titleContains !== undefined
+      : (Array.isArray(params.tabIds) && params.tabIds.length > 0) || params.url !== undefined;
+  if (hasCriteria) {
+    if (type === 'closeTab') {
+      return {
+        error: createRRError(
+          RR_ERROR_CODES.VALIDATION_ERROR,
+          'closeTab accepts either handle or tabIds/url, not both',
+        ),
+      };
+    }
+    return { params };
+  }
+
+  const boundTabId = resolveTabHandle(vars, handle);
+  if (boundTabId === undefined) {
+    return {
+      error: createRRError(RR_ERROR_CODES.TAB_NOT_FOUND, `Tab handle "${handle}" is not bound`),
+    };
+  }
+  return type === 'switchTab'
+    ? { params: { ...params, tabId: boundTabId }, boundTabId }
+    : { params: { ...params, tabIds: [boundTabId] }, boundTabId };
+}
+
 function toJsonRecord(value: unknown): Record<string, JsonValue> {
   const out: Record<string, JsonValue> = {};
   if (!isRecord(value)) return out;
@@ -291,8 +345,24 @@ export function adaptV2ActionHandlerToV3NodeDefinition<T extends ExecutableActio
     execute: async (ctx: NodeExecutionContext, node): Promise<NodeExecutionResult> => {
       const beforeVars = ctx.vars;
 
-      const effectiveTabId = readNumberVar(beforeVars, tabIdVar) ?? ctx.tabId;
-      const effectiveFrameId = readNumberVar(beforeVars, frameIdVar);
+      // A node that targets a tab handle explicitly runs in the main frame of that tab.
+      const explicitTab = ctx.tabHandle !== undefined;
+      const effectiveTabId = explicitTab
+        ? ctx.tabId
+        : (readNumberVar(beforeVars, tabIdVar) ?? ctx.tabId);
+      const effectiveFrameId = explicitTab ? undefined : readNumberVar(beforeVars, frameIdVar);
+
+      const handle = TAB_HANDLE_ACTION_TYPES.has(handler.type)
+        ? readHandleParam(node.config)
+        : undefined;
+      let params: JsonObject = node.config;
+      let handleTabId: number | undefined;
+      if (handle !== undefined) {
+        const resolved = resolveTabHandleParams(handler.type, params, handle, beforeVars);
+        if ('error' in resolved) return { status: 'failed', error: resolved.error };
+        params = resolved.params;
+        handleTabId = resolved.boundTabId;
+      }
 
       // Run against a cloned variable store to prevent bypassing vars.patch event stream.
       const v2Vars = deepClone(beforeVars) as unknown as Record<string, unknown>;
@@ -327,7 +397,7 @@ export function adaptV2ActionHandlerToV3NodeDefinition<T extends ExecutableActio
         ...(node.name ? { name: node.name } : {}),
         ...(node.disabled ? { disabled: true } : {}),
         ...(v2Policy ? { policy: v2Policy } : {}),
-        params: node.config as unknown as Action<T>['params'],
+        params: params as unknown as Action<T>['params'],
         ...(node.ui ? { ui: node.ui as Action<T>['ui'] } : {}),
       };
 
@@ -355,11 +425,19 @@ export function adaptV2ActionHandlerToV3NodeDefinition<T extends ExecutableActio
         };
       }
 
+      const newTabId =
+        typeof result.newTabId === 'number' && Number.isFinite(result.newTabId)
+          ? result.newTabId
+          : undefined;
+      // openTab reports the tab even when it fails afterwards (e.g. the page never loads)
+      const openedTabIds =
+        handler.type === 'openTab' && newTabId !== undefined ? [newTabId] : undefined;
+
       if (result.status === 'failed') {
         const err = result.error
           ? toRRErrorFromV2(result.error)
           : createRRError(RR_ERROR_CODES.INTERNAL, `V2 handler "${handler.type}" failed`);
-        return { status: 'failed', error: err };
+        return { status: 'failed', error: err, ...(openedTabIds ? { openedTabIds } : {}) };
       }
 
       if (result.status === 'paused') {
@@ -372,7 +450,8 @@ export function adaptV2ActionHandlerToV3NodeDefinition<T extends ExecutableActio
         };
       }
 
-      // V3 does not support V2 scheduler control directives (foreach/while).
+      // V2 scheduler control directives (foreach/while) are not used in V3:
+      // loop nodes are executed natively by the runner.
       if (result.control) {
         return {
           status: 'failed',
@@ -385,14 +464,29 @@ export function adaptV2ActionHandlerToV3NodeDefinition<T extends ExecutableActio
       }
 
       // Persist cross-node context changes via internal vars.
+      // A node aimed at an explicit tab handle leaves the current frame selection alone.
       if (typeof v2Ctx.frameId === 'number' && Number.isFinite(v2Ctx.frameId)) {
         v2Vars[frameIdVar] = v2Ctx.frameId;
-      } else {
+      } else if (!explicitTab) {
         delete v2Vars[frameIdVar];
       }
 
-      if (typeof result.newTabId === 'number' && Number.isFinite(result.newTabId)) {
-        v2Vars[tabIdVar] = result.newTabId;
+      if (newTabId !== undefined) {
+        v2Vars[tabIdVar] = newTabId;
+      }
+
+      // Bind or release the named tab handle.
+      if (handle !== undefined) {
+        const currentVars = v2Vars as Record<string, JsonValue>;
+        if (handler.type === 'closeTab') {
+          v2Vars[TAB_HANDLES_VAR] = withTabHandle(currentVars, handle, null);
+          if (handleTabId !== undefined && v2Vars[tabIdVar] === handleTabId) {
+            delete v2Vars[tabIdVar];
+            delete v2Vars[frameIdVar];
+          }
+        } else if (newTabId !== undefined) {
+          v2Vars[TAB_HANDLES_VAR] = withTabHandle(currentVars, handle, newTabId);
+        }
       }
 
       const afterVars = toJsonRecord(v2Vars);
@@ -408,6 +502,7 @@ export function adaptV2ActionHandlerToV3NodeDefinition<T extends ExecutableActio
         ...(result.nextLabel ? { next: ctx.chooseNext(result.nextLabel) } : {}),
         ...(outputs ? { outputs } : {}),
         ...(varsPatch.length > 0 ? { varsPatch } : {}),
+        ...(openedTabIds ? { openedTabIds } : {}),
       };
     },
   };
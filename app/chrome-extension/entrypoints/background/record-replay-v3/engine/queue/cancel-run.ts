@@ -0,0 +1,100 @@
+/**
+ * @fileoverview 共享取消服务
+ * @description
+ * 提供统一的 Run 取消逻辑，供 RPC Server 和 BTCP Flow 工具共用。
+ *
+ * - queued 的 Run：从队列移除，更新 RunRecord，发布 run.canceled 事件
+ * - running/paused 的 Run：交给对应的 Runner 取消（由 Runner 发布事件）
+ */
+
+import type { UnixMillis } from '../../domain/json';
+import type { RunId } from '../../domain/ids';
+import type { StoragePort } from '../storage/storage-port';
+import type { EventsBus } from '../transport/events-bus';
+import type { RunnerRegistry } from '../kernel/debug-controller';
+
+// ==================== Types ====================
+
+/**
+ * 取消服务依赖
+ */
+export interface CancelRunDeps {
+  /** 存储层 (仅需 runs/queue) */
+  storage: Pick<StoragePort, 'runs' | 'queue'>;
+  /** 事件总线 */
+  events: Pick<EventsBus, 'append'>;
+  /** Runner 注册表 (取消 running/paused 的 Run 时需要) */
+  runners?: Pick<RunnerRegistry, 'get'>;
+  /** 时间源 (用于测试注入) */
+  now?: () => UnixMillis;
+}
+
+// ==================== Main Functions ====================
+
+/**
+ * 取消排队中的 Run
+ * @throws 队列项不存在或状态不是 queued
+ */
+export async function cancelQueuedRun(
+  deps: CancelRunDeps,
+  runId: RunId,
+  reason?: string,
+): Promise<void> {
+  const now = (deps.now ?? (() => Date.now()))();
+
+  // 1. 检查队列项存在
+  const queueItem = await deps.storage.queue.get(runId);
+  if (!queueItem) {
+    throw new Error(`Queue item "${runId}" not found`);
+  }
+
+  // 2. 仅允许取消 queued 状态（running/paused 需使用 cancelRun）
+  if (queueItem.status !== 'queued') {
+    throw new Error(
+      `Cannot cancel queue item "${runId}" with status "${queueItem.status}"; use rr_v3.cancelRun for running/paused runs`,
+    );
+  }
+
+  // 3. 从队列移除
+  await deps.storage.queue.cancel(runId, now, reason);
+
+  // 4. 更新 Run 记录状态
+  await deps.storage.runs.patch(runId, {
+    status: 'canceled',
+    updatedAt: now,
+    finishedAt: now,
+  });
+
+  // 5. 发布 run.canceled 事件（通过 EventsBus 以确保广播）
+  await deps.events.append({
+    runId,
+    type: 'run.canceled',
+    reason,
+  });
+}
+
+/**
+ * 取消 Run（无论排队中还是执行中）
+ * @throws Runner 不存在（Run 可能已结束）
+ */
+export async function cancelRun(deps: CancelRunDeps, runId: RunId, reason: string): Promise<void> {
+  const queueItem = await deps.storage.queue.get(runId);
+
+  // 尚未被调度器领取，直接从队列取消
+  if (queueItem?.status === 'queued') {
+    await cancelQueuedRun(deps, runId, reason);
+    return;
+  }
+
+  // running/paused，交给 Runner
+  if (!deps.runners) {
+    throw new Error('RunnerRegistry not configured');
+  }
+
+  const runner = deps.runners.get(runId);
+  if (!runner) {
+    throw new Error(`Runner for "${runId}" not found (run may have already finished)`);
+  }
+
+  runner.cancel(reason);
+}
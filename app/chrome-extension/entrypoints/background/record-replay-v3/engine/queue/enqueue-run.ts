@@ -49,6 +49,8 @@ export interface EnqueueRunInput {
   maxAttempts?: number;
   /** 传递给 Flow 的参数 */
   args?: JsonObject;
+  /** 在指定 Tab 中执行 (可选，默认由执行器分配) */
+  tabId?: number;
   /** 触发上下文 (由 TriggerManager 设置) */
   trigger?: TriggerFireContext;
   /** 调试选项 */
@@ -153,6 +155,9 @@ export async function enqueueRun(
   // 参数校验
   const priority = validateInt(input.priority, 0, 'priority');
   const maxAttempts = validateInt(input.maxAttempts, 1, 'maxAttempts', { min: 1 });
+  if (input.tabId !== undefined && !Number.isInteger(input.tabId)) {
+    throw new Error('tabId must be an integer');
+  }
 
   // 验证 Flow 存在
   const flow = await deps.storage.flows.get(flowId);
@@ -185,6 +190,7 @@ export async function enqueueRun(
     trigger: input.trigger,
     debug: input.debug,
     startNodeId: input.startNodeId,
+    tabId: input.tabId,
     nextSeq: 0,
   };
   await deps.storage.runs.save(runRecord);
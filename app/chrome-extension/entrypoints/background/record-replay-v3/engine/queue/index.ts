@@ -6,3 +6,4 @@ export * from './queue';
 export * from './leasing';
 export * from './scheduler';
 export * from './enqueue-run';
+export * from './cancel-run';
@@ -5,7 +5,7 @@
  * 使中断的 Run 能够被恢复执行。
  *
  * 恢复策略：
- * - 孤儿 running 项：回收为 queued，等待重新调度（从头重跑）
+ * - 孤儿 running 项：回收为 queued，等待重新调度（从头重跑；RunRecord.openedTabIds 保留，重跑结束时仍按 tabCleanup 关闭）
  * - 孤儿 paused 项：接管 lease，保持 paused 状态
  * - 已终态 Run 的队列残留：清理
  *
@@ -3,11 +3,25 @@
  * @description 定义 Storage 层的抽象接口，用于依赖注入
  */
 
-import type { FlowId, RunId, TriggerId } from '../../domain/ids';
+import type { FlowId, NodeId, RunId, TriggerId } from '../../domain/ids';
 import type { FlowV3 } from '../../domain/flow';
 import type { RunEvent, RunEventInput, RunRecordV3 } from '../../domain/events';
 import type { PersistentVarRecord, PersistentVariableName } from '../../domain/variables';
 import type { TriggerSpec } from '../../domain/triggers';
+import type {
+  ArtifactId,
+  ArtifactMeta,
+  ArtifactRecord,
+  ArtifactRetentionPolicy,
+} from '../../domain/artifacts';
+import type {
+  BatchId,
+  BatchRecord,
+  BatchStatus,
+  DatasetId,
+  DatasetMeta,
+  DatasetRecord,
+} from '../../domain/datasets';
 import type { RunQueue } from '../queue/queue';
 
 /**
@@ -90,6 +104,55 @@ export interface TriggersStore {
   delete(id: TriggerId): Promise<void>;
 }
 
+/**
+ * ArtifactsStore 接口
+ */
+export interface ArtifactsStore {
+  /** 保存工件 */
+  save(record: ArtifactRecord): Promise<void>;
+  /** 获取工件（含数据） */
+  get(id: ArtifactId): Promise<ArtifactRecord | null>;
+  /** 列出 Run 的工件元数据（按创建时间升序） */
+  list(runId: RunId, opts?: { nodeId?: NodeId }): Promise<ArtifactMeta[]>;
+  /** 删除工件 */
+  delete(id: ArtifactId): Promise<void>;
+  /** 删除 Run 的所有工件，返回删除数量 */
+  deleteByRun(runId: RunId): Promise<number>;
+  /**
+   * 按保留策略清理工件
+   * @returns 删除数量
+   */
+  prune(policy: ArtifactRetentionPolicy, now?: number): Promise<number>;
+}
+
+/**
+ * DatasetsStore 接口
+ */
+export interface DatasetsStore {
+  /** 列出数据集元数据 */
+  list(): Promise<DatasetMeta[]>;
+  /** 获取数据集（含行数据） */
+  get(id: DatasetId): Promise<DatasetRecord | null>;
+  /** 保存数据集 */
+  save(record: DatasetRecord): Promise<void>;
+  /** 删除数据集 */
+  delete(id: DatasetId): Promise<void>;
+}
+
+/**
+ * BatchesStore 接口
+ */
+export interface BatchesStore {
+  /** 列出批量运行（按创建时间降序） */
+  list(opts?: { flowId?: FlowId; status?: BatchStatus }): Promise<BatchRecord[]>;
+  /** 获取批量运行 */
+  get(id: BatchId): Promise<BatchRecord | null>;
+  /** 保存批量运行 */
+  save(record: BatchRecord): Promise<void>;
+  /** 删除批量运行 */
+  delete(id: BatchId): Promise<void>;
+}
+
 /**
  * StoragePort 接口
  * @description 聚合所有存储接口，用于依赖注入
@@ -107,6 +170,12 @@ export interface StoragePort {
   persistentVars: PersistentVarsStore;
   /** 触发器存储 */
   triggers: TriggersStore;
+  /** 工件存储 */
+  artifacts: ArtifactsStore;
+  /** 数据集存储 */
+  datasets: DatasetsStore;
+  /** 批量运行存储 */
+  batches: BatchesStore;
 }
 
 /**
@@ -140,5 +209,8 @@ export function createNotImplementedStoragePort(): StoragePort {
     queue: createNotImplementedStore<RunQueue>('RunQueue'),
     persistentVars: createNotImplementedStore<PersistentVarsStore>('PersistentVarsStore'),
     triggers: createNotImplementedStore<TriggersStore>('TriggersStore'),
+    artifacts: createNotImplementedStore<ArtifactsStore>('ArtifactsStore'),
+    datasets: createNotImplementedStore<DatasetsStore>('DatasetsStore'),
+    batches: createNotImplementedStore<BatchesStore>('BatchesStore'),
   };
 }
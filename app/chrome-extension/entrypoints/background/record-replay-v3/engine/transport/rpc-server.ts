@@ -11,13 +11,27 @@ import type { FlowV3, NodeV3, EdgeV3 } from '../../domain/flow';
 import { FLOW_SCHEMA_VERSION as CURRENT_FLOW_SCHEMA_VERSION } from '../../domain/flow';
 import type { VariableDefinition } from '../../domain/variables';
 import type { TriggerKind, TriggerSpec } from '../../domain/triggers';
+import type { ArtifactId, ArtifactRecord } from '../../domain/artifacts';
+import type {
+  BatchId,
+  BatchRecord,
+  BatchStatus,
+  DatasetFormat,
+  DatasetId,
+  DatasetRecord,
+} from '../../domain/datasets';
+import { summarizeBatch, toDatasetMeta } from '../../domain/datasets';
 import type { StoragePort } from '../storage/storage-port';
 import type { EventsBus } from './events-bus';
 import type { DebugController, RunnerRegistry } from '../kernel/debug-controller';
 import type { RunScheduler } from '../queue/scheduler';
 import type { QueueItemStatus } from '../queue/queue';
 import { enqueueRun } from '../queue/enqueue-run';
+import { cancelQueuedRun, cancelRun } from '../queue/cancel-run';
 import type { TriggerManager } from '../triggers/trigger-manager';
+import type { BatchManager } from '../batch/batch-manager';
+import { parseDataset } from '../batch/dataset';
+import { buildBatchReport } from '../batch/report';
 import {
   RR_V3_PORT_NAME,
   isRpcRequest,
@@ -37,10 +51,13 @@ export interface RpcServerConfig {
   runners?: RunnerRegistry;
   scheduler?: RunScheduler;
   triggerManager?: TriggerManager;
+  batchManager?: BatchManager;
   /** ID 生成器（用于测试注入） */
   generateRunId?: () => RunId;
   /** 时间源（用于测试注入） */
   now?: () => number;
+  /** Flow 保存/删除/发布后的回调（如刷新 BTCP 工具列表） */
+  onFlowsChanged?: () => void;
 }
 
 /**
@@ -58,6 +75,42 @@ function defaultGenerateRunId(): RunId {
   return `run_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
+/**
+ * 默认 DatasetId 生成器
+ */
+function defaultGenerateDatasetId(): DatasetId {
+  return `dataset_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 批量运行附带进度统计返回给 UI
+ */
+function withBatchSummary(batch: BatchRecord, opts?: { includeRows?: boolean }): JsonValue {
+  const { rows, ...rest } = batch;
+  return {
+    ...rest,
+    ...(opts?.includeRows === false ? {} : { rows }),
+    summary: summarizeBatch(batch),
+  } as unknown as JsonValue;
+}
+
+/**
+ * 去掉文件名中下载 API 不接受的字符
+ */
+function sanitizeFilename(name: string): string {
+  return name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'artifact';
+}
+
+/**
+ * 工件数据转 data URL（截图为 base64，其余为 UTF-8 文本）
+ */
+function toDataUrl(artifact: ArtifactRecord): string {
+  if (artifact.kind === 'screenshot') {
+    return `data:${artifact.mimeType};base64,${artifact.data}`;
+  }
+  return `data:${artifact.mimeType};charset=utf-8,${encodeURIComponent(artifact.data)}`;
+}
+
 /**
  * RPC Server
  * @description 处理来自 UI 的 RPC 请求
@@ -69,8 +122,10 @@ export class RpcServer {
   private readonly runners?: RunnerRegistry;
   private readonly scheduler?: RunScheduler;
   private readonly triggerManager?: TriggerManager;
+  private readonly batchManager?: BatchManager;
   private readonly generateRunId: () => RunId;
   private readonly now: () => number;
+  private readonly onFlowsChanged?: () => void;
   private readonly connections = new Map<string, PortConnection>();
   private eventUnsubscribe: (() => void) | null = null;
 
@@ -81,8 +136,10 @@ export class RpcServer {
     this.runners = config.runners;
     this.scheduler = config.scheduler;
     this.triggerManager = config.triggerManager;
+    this.batchManager = config.batchManager;
     this.generateRunId = config.generateRunId ?? defaultGenerateRunId;
     this.now = config.now ?? Date.now;
+    this.onFlowsChanged = config.onFlowsChanged;
   }
 
   /**
@@ -245,37 +302,11 @@ export class RpcServer {
     if (!runId) throw new Error('runId is required');
 
     const reason = params?.reason as string | undefined;
-    const now = this.now();
-
-    // 1. 检查队列项存在
-    const queueItem = await this.storage.queue.get(runId);
-    if (!queueItem) {
-      throw new Error(`Queue item "${runId}" not found`);
-    }
-
-    // 2. 仅允许取消 queued 状态（running/paused 需使用 rr_v3.cancelRun）
-    if (queueItem.status !== 'queued') {
-      throw new Error(
-        `Cannot cancel queue item "${runId}" with status "${queueItem.status}"; use rr_v3.cancelRun for running/paused runs`,
-      );
-    }
-
-    // 3. 从队列移除
-    await this.storage.queue.cancel(runId, now, reason);
-
-    // 4. 更新 Run 记录状态
-    await this.storage.runs.patch(runId, {
-      status: 'canceled',
-      updatedAt: now,
-      finishedAt: now,
-    });
-
-    // 5. 发布 run.canceled 事件（通过 EventsBus 以确保广播）
-    await this.events.append({
+    await cancelQueuedRun(
+      { storage: this.storage, events: this.events, now: this.now },
       runId,
-      type: 'run.canceled',
       reason,
-    });
+    );
 
     return { ok: true, runId };
   }
@@ -308,6 +339,84 @@ export class RpcServer {
         return events as unknown as JsonValue;
       }
 
+      case 'rr_v3.listArtifacts': {
+        const runId = params?.runId as RunId | undefined;
+        if (!runId) throw new Error('runId is required');
+        const nodeId = params?.nodeId as NodeId | undefined;
+        const artifacts = await this.storage.artifacts.list(runId, nodeId ? { nodeId } : undefined);
+        return artifacts as unknown as JsonValue;
+      }
+
+      case 'rr_v3.getArtifact': {
+        const artifactId = params?.artifactId as ArtifactId | undefined;
+        if (!artifactId) throw new Error('artifactId is required');
+        const artifact = await this.storage.artifacts.get(artifactId);
+        return artifact as unknown as JsonValue;
+      }
+
+      case 'rr_v3.downloadArtifacts':
+        return this.handleDownloadArtifacts(params);
+
+      case 'rr_v3.deleteArtifacts': {
+        const runId = params?.runId as RunId | undefined;
+        if (!runId) throw new Error('runId is required');
+        const deleted = await this.storage.artifacts.deleteByRun(runId);
+        return { ok: true, runId, deleted };
+      }
+
+      // ===== Dataset APIs =====
+
+      case 'rr_v3.saveDataset':
+        return this.handleSaveDataset(params);
+
+      case 'rr_v3.listDatasets': {
+        const datasets = await this.storage.datasets.list();
+        return datasets as unknown as JsonValue;
+      }
+
+      case 'rr_v3.getDataset': {
+        const datasetId = params?.datasetId as DatasetId | undefined;
+        if (!datasetId) throw new Error('datasetId is required');
+        const dataset = await this.storage.datasets.get(datasetId);
+        return dataset as unknown as JsonValue;
+      }
+
+      case 'rr_v3.deleteDataset': {
+        const datasetId = params?.datasetId as DatasetId | undefined;
+        if (!datasetId) throw new Error('datasetId is required');
+        await this.storage.datasets.delete(datasetId);
+        return { ok: true, datasetId };
+      }
+
+      // ===== Batch APIs =====
+
+      case 'rr_v3.startBatch':
+        return this.handleStartBatch(params);
+
+      case 'rr_v3.getBatch': {
+        const batchId = params?.batchId as BatchId | undefined;
+        if (!batchId) throw new Error('batchId is required');
+        const batch = await this.storage.batches.get(batchId);
+        return batch ? withBatchSummary(batch) : null;
+      }
+
+      case 'rr_v3.listBatches':
+        return this.handleListBatches(params);
+
+      case 'rr_v3.cancelBatch': {
+        if (!this.batchManager) {
+          throw new Error('BatchManager not configured');
+        }
+        const batchId = params?.batchId as BatchId | undefined;
+        if (!batchId) throw new Error('batchId is required');
+        const reason = params?.reason as string | undefined;
+        const batch = await this.batchManager.cancelBatch(batchId, reason);
+        return withBatchSummary(batch);
+      }
+
+      case 'rr_v3.downloadBatchReport':
+        return this.handleDownloadBatchReport(params);
+
       case 'rr_v3.getFlow': {
         const flowId = params?.flowId as FlowId | undefined;
         if (!flowId) throw new Error('flowId is required');
@@ -328,6 +437,14 @@ export class RpcServer {
         return this.handleDeleteFlow(params);
       }
 
+      case 'rr_v3.publishFlow': {
+        return this.handlePublishFlow(params);
+      }
+
+      case 'rr_v3.unpublishFlow': {
+        return this.handleUnpublishFlow(params);
+      }
+
       // ===== Trigger APIs =====
 
       case 'rr_v3.createTrigger':
@@ -434,12 +551,84 @@ export class RpcServer {
     // 规范化 flow，传入 existingFlow 以继承 createdAt
     const flow = this.normalizeFlowSpec(rawFlow, existingFlow);
 
+    // 发布信息不属于编辑内容（Builder 保存时不会携带），未显式提供时保留
+    if (existingFlow?.meta?.tool && !flow.meta?.tool) {
+      flow.meta = { ...flow.meta, tool: existingFlow.meta.tool };
+    }
+
     // 保存到存储（存储层会执行二次验证）
     await this.storage.flows.save(flow);
+    this.onFlowsChanged?.();
 
     return flow as unknown as JsonValue;
   }
 
+  /**
+   * 处理 publishFlow 请求
+   * @description 将 Flow 发布为 Agent 可调用的工具
+   */
+  private async handlePublishFlow(params: JsonObject | undefined): Promise<JsonValue> {
+    const flowId = params?.flowId as FlowId | undefined;
+    if (!flowId) throw new Error('flowId is required');
+
+    const flow = await this.storage.flows.get(flowId);
+    if (!flow) {
+      throw new Error(`Flow "${flowId}" not found`);
+    }
+
+    const toolName = params?.toolName;
+    if (toolName !== undefined && toolName !== null) {
+      if (typeof toolName !== 'string' || !/^[a-zA-Z0-9_-]{1,64}$/.test(toolName)) {
+        throw new Error('toolName must be 1-64 characters of letters, digits, "_" or "-"');
+      }
+    }
+    const description = params?.description;
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      throw new Error('description must be a string');
+    }
+
+    const updated: FlowV3 = {
+      ...flow,
+      meta: {
+        ...flow.meta,
+        tool: {
+          published: true,
+          toolName: (toolName as string | undefined) ?? flow.meta?.tool?.toolName,
+          description: (description as string | undefined) ?? flow.meta?.tool?.description,
+          publishedAt: new Date(this.now()).toISOString() as ISODateTimeString,
+        },
+      },
+    };
+    await this.storage.flows.save(updated);
+    this.onFlowsChanged?.();
+
+    return updated as unknown as JsonValue;
+  }
+
+  /**
+   * 处理 unpublishFlow 请求
+   */
+  private async handleUnpublishFlow(params: JsonObject | undefined): Promise<JsonValue> {
+    const flowId = params?.flowId as FlowId | undefined;
+    if (!flowId) throw new Error('flowId is required');
+
+    const flow = await this.storage.flows.get(flowId);
+    if (!flow) {
+      throw new Error(`Flow "${flowId}" not found`);
+    }
+    if (!flow.meta?.tool?.published) {
+      return { ok: true, flowId };
+    }
+
+    await this.storage.flows.save({
+      ...flow,
+      meta: { ...flow.meta, tool: { ...flow.meta.tool, published: false } },
+    });
+    this.onFlowsChanged?.();
+
+    return { ok: true, flowId };
+  }
+
   /**
    * 处理 deleteFlow 请求
    * @description 删除 Flow，先检查是否有关联的 Trigger 和 queued runs
@@ -478,6 +667,7 @@ export class RpcServer {
 
     // 删除 Flow
     await this.storage.flows.delete(flowId);
+    this.onFlowsChanged?.();
 
     return { ok: true, flowId };
   }
@@ -694,6 +884,12 @@ export class RpcServer {
       }
       node.policy = raw.policy as NodeV3['policy'];
     }
+    if (raw.tab !== undefined && raw.tab !== null) {
+      if (typeof raw.tab !== 'string' || !raw.tab.trim()) {
+        throw new Error(`flow.nodes[${index}].tab must be a non-empty string`);
+      }
+      node.tab = raw.tab.trim();
+    }
     if (raw.ui !== undefined && raw.ui !== null) {
       if (typeof raw.ui !== 'object' || Array.isArray(raw.ui)) {
         throw new Error(`flow.nodes[${index}].ui must be an object`);
@@ -1062,6 +1258,185 @@ export class RpcServer {
     }
   }
 
+  // ===== Artifact Handlers =====
+
+  /**
+   * 处理 downloadArtifacts 请求
+   * @description 将 Run 的工件（或指定的 artifactIds）保存到下载目录 rr-v3/<runId>/ 下
+   */
+  private async handleDownloadArtifacts(params: JsonObject | undefined): Promise<JsonValue> {
+    const runId = params?.runId as RunId | undefined;
+    if (!runId) throw new Error('runId is required');
+
+    const idsValue = params?.artifactIds;
+    if (idsValue !== undefined && !Array.isArray(idsValue)) {
+      throw new Error('artifactIds must be an array');
+    }
+    const ids = idsValue
+      ? (idsValue as JsonValue[]).map((id) => {
+          if (typeof id !== 'string' || !id) throw new Error('artifactIds must be strings');
+          return id;
+        })
+      : (await this.storage.artifacts.list(runId)).map((a) => a.id);
+
+    const downloads: JsonObject[] = [];
+    for (const id of ids) {
+      const artifact = await this.storage.artifacts.get(id);
+      if (!artifact || artifact.runId !== runId) {
+        throw new Error(`Artifact "${id}" not found in run "${runId}"`);
+      }
+      const filename = `rr-v3/${sanitizeFilename(runId)}/${sanitizeFilename(artifact.name)}`;
+      const downloadId = await chrome.downloads.download({
+        url: toDataUrl(artifact),
+        filename,
+        saveAs: false,
+      });
+      downloads.push({ artifactId: id, downloadId, filename });
+    }
+    return { ok: true, runId, downloads };
+  }
+
+  // ===== Dataset Handlers =====
+
+  /**
+   * 处理 saveDataset 请求
+   * @description 解析上传的 CSV / JSON 内容并保存；更新已有数据集时保留 createdAt
+   * @returns 数据集元数据（不含行数据）
+   */
+  private async handleSaveDataset(params: JsonObject | undefined): Promise<JsonValue> {
+    const raw = params?.dataset;
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new Error('dataset is required');
+    }
+
+    if (typeof raw.name !== 'string' || !raw.name.trim()) {
+      throw new Error('dataset.name is required');
+    }
+    if (raw.format !== 'csv' && raw.format !== 'json') {
+      throw new Error('dataset.format must be one of: csv, json');
+    }
+    if (raw.content === undefined || raw.content === null) {
+      throw new Error('dataset.content is required');
+    }
+    const format: DatasetFormat = raw.format;
+
+    let existing: DatasetRecord | null = null;
+    if (raw.id !== undefined && raw.id !== null) {
+      if (typeof raw.id !== 'string' || !raw.id.trim()) {
+        throw new Error('dataset.id must be a non-empty string');
+      }
+      existing = await this.storage.datasets.get(raw.id.trim());
+    }
+
+    const { columns, rows } = parseDataset(format, raw.content);
+    const now = this.now();
+    const record: DatasetRecord = {
+      id: typeof raw.id === 'string' ? raw.id.trim() : defaultGenerateDatasetId(),
+      name: raw.name.trim(),
+      format,
+      columns,
+      rows,
+      rowCount: rows.length,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await this.storage.datasets.save(record);
+
+    return toDatasetMeta(record) as unknown as JsonValue;
+  }
+
+  // ===== Batch Handlers =====
+
+  /**
+   * 处理 startBatch 请求
+   * @description 为数据集的每一行入队一个 Run
+   */
+  private async handleStartBatch(params: JsonObject | undefined): Promise<JsonValue> {
+    if (!this.batchManager) {
+      throw new Error('BatchManager not configured');
+    }
+
+    const flowId = params?.flowId as FlowId | undefined;
+    if (!flowId) throw new Error('flowId is required');
+    const datasetId = params?.datasetId as DatasetId | undefined;
+    if (!datasetId) throw new Error('datasetId is required');
+
+    const rawMapping = params?.mapping;
+    let mapping: Record<string, string> | undefined;
+    if (rawMapping !== undefined && rawMapping !== null) {
+      if (typeof rawMapping !== 'object' || Array.isArray(rawMapping)) {
+        throw new Error('mapping must be an object');
+      }
+      mapping = {};
+      for (const [name, column] of Object.entries(rawMapping)) {
+        if (typeof column !== 'string') {
+          throw new Error(`mapping.${name} must be a column name`);
+        }
+        mapping[name] = column;
+      }
+    }
+
+    const batch = await this.batchManager.startBatch({
+      flowId,
+      datasetId,
+      mapping,
+      concurrency: params?.concurrency as number | undefined,
+      stopOnFailure: params?.stopOnFailure as boolean | undefined,
+    });
+    return withBatchSummary(batch);
+  }
+
+  /**
+   * 处理 listBatches 请求
+   * @description 按创建时间降序返回批量运行（不含逐行结果）
+   */
+  private async handleListBatches(params: JsonObject | undefined): Promise<JsonValue> {
+    const flowId = params?.flowId as FlowId | undefined;
+    const rawStatus = params?.status;
+    let status: BatchStatus | undefined;
+    if (rawStatus !== undefined) {
+      if (
+        rawStatus !== 'running' &&
+        rawStatus !== 'succeeded' &&
+        rawStatus !== 'failed' &&
+        rawStatus !== 'canceled'
+      ) {
+        throw new Error('status must be one of: running, succeeded, failed, canceled');
+      }
+      status = rawStatus;
+    }
+
+    const batches = await this.storage.batches.list({ flowId, status });
+    return batches.map((batch) => withBatchSummary(batch, { includeRows: false }));
+  }
+
+  /**
+   * 处理 downloadBatchReport 请求
+   * @description 将逐行结果报告（CSV / JSON）保存到下载目录 rr-v3/batches/ 下
+   */
+  private async handleDownloadBatchReport(params: JsonObject | undefined): Promise<JsonValue> {
+    const batchId = params?.batchId as BatchId | undefined;
+    if (!batchId) throw new Error('batchId is required');
+    const format = params?.format ?? 'csv';
+    if (format !== 'csv' && format !== 'json') {
+      throw new Error('format must be one of: csv, json');
+    }
+
+    const batch = await this.storage.batches.get(batchId);
+    if (!batch) {
+      throw new Error(`Batch "${batchId}" not found`);
+    }
+
+    const report = buildBatchReport(batch, format);
+    const filename = `rr-v3/batches/${sanitizeFilename(report.filename)}`;
+    const downloadId = await chrome.downloads.download({
+      url: `data:${report.mimeType};charset=utf-8,${encodeURIComponent(report.data)}`,
+      filename,
+      saveAs: false,
+    });
+    return { ok: true, batchId, downloadId, filename };
+  }
+
   // ===== Run Control Handlers =====
 
   private async handlePauseRun(params: JsonObject | undefined): Promise<JsonValue> {
@@ -1135,25 +1510,11 @@ export class RpcServer {
     if (!runId) throw new Error('runId is required');
 
     const reason = (params?.reason as string) ?? 'Canceled by user';
-    const queueItem = await this.storage.queue.get(runId);
-
-    // If still queued (not yet claimed), cancel via queue
-    if (queueItem?.status === 'queued') {
-      return this.handleCancelQueueItem({ runId, reason } as unknown as JsonObject);
-    }
-
-    // If running/paused, cancel via runner
-    if (!this.runners) {
-      throw new Error('RunnerRegistry not configured');
-    }
-
-    const runner = this.runners.get(runId);
-    if (!runner) {
-      // Run may have already finished
-      throw new Error(`Runner for "${runId}" not found (run may have already finished)`);
-    }
-
-    runner.cancel(reason);
+    await cancelRun(
+      { storage: this.storage, events: this.events, runners: this.runners, now: this.now },
+      runId,
+      reason,
+    );
     return { ok: true, runId };
   }
 }
@@ -18,11 +18,29 @@ export type RpcMethod =
   | 'rr_v3.listRuns'
   | 'rr_v3.getRun'
   | 'rr_v3.getEvents'
+  // 工件方法
+  | 'rr_v3.listArtifacts'
+  | 'rr_v3.getArtifact'
+  | 'rr_v3.downloadArtifacts'
+  | 'rr_v3.deleteArtifacts'
+  // 数据集方法
+  | 'rr_v3.saveDataset'
+  | 'rr_v3.listDatasets'
+  | 'rr_v3.getDataset'
+  | 'rr_v3.deleteDataset'
+  // 批量运行方法
+  | 'rr_v3.startBatch'
+  | 'rr_v3.getBatch'
+  | 'rr_v3.listBatches'
+  | 'rr_v3.cancelBatch'
+  | 'rr_v3.downloadBatchReport'
   // Flow 管理方法
   | 'rr_v3.getFlow'
   | 'rr_v3.listFlows'
   | 'rr_v3.saveFlow'
   | 'rr_v3.deleteFlow'
+  | 'rr_v3.publishFlow'
+  | 'rr_v3.unpublishFlow'
   // 触发器管理方法
   | 'rr_v3.createTrigger'
   | 'rr_v3.updateTrigger'
@@ -21,6 +21,9 @@ import { createEventsStore } from './storage/events';
 import { createQueueStore } from './storage/queue';
 import { createPersistentVarsStore } from './storage/persistent-vars';
 import { createTriggersStore } from './storage/triggers';
+import { createArtifactsStore } from './storage/artifacts';
+import { createDatasetsStore } from './storage/datasets';
+import { createBatchesStore } from './storage/batches';
 
 /**
  * 创建完整的 StoragePort 实现
@@ -33,6 +36,9 @@ export function createStoragePort(): StoragePort {
     queue: createQueueStore(),
     persistentVars: createPersistentVarsStore(),
     triggers: createTriggersStore(),
+    artifacts: createArtifactsStore(),
+    datasets: createDatasetsStore(),
+    batches: createBatchesStore(),
   };
 }
 
@@ -0,0 +1,184 @@
+/**
+ * @fileoverview 工件持久化
+ * @description 实现截图、控制台日志、网络请求等工件的存储和按保留策略清理
+ */
+
+import type { NodeId, RunId } from '../domain/ids';
+import type {
+  ArtifactId,
+  ArtifactMeta,
+  ArtifactRecord,
+  ArtifactRetentionPolicy,
+} from '../domain/artifacts';
+import { toArtifactMeta } from '../domain/artifacts';
+import { RR_ERROR_CODES, createRRError } from '../domain/errors';
+import type { ArtifactsStore } from '../engine/storage/storage-port';
+import { RR_V3_STORES, withTransaction } from './db';
+
+/**
+ * IDB request helper - promisify IDBRequest with RRError wrapping
+ */
+function idbRequest<T>(request: IDBRequest<T>, context: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      const error = request.error;
+      reject(
+        createRRError(
+          RR_ERROR_CODES.INTERNAL,
+          `IDB error in ${context}: ${error?.message ?? 'unknown'}`,
+        ),
+      );
+    };
+  });
+}
+
+/**
+ * 遍历游标并收集结果
+ */
+function collectCursor<C extends IDBCursor, T>(
+  request: IDBRequest<C | null>,
+  visit: (cursor: C) => T | undefined,
+): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    const results: T[] = [];
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(results);
+        return;
+      }
+      const item = visit(cursor);
+      if (item !== undefined) results.push(item);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 根据保留策略选出需要删除的工件
+ * @param entries 按 createdAt 升序排列
+ */
+function selectExpired(
+  entries: Array<Pick<ArtifactMeta, 'id' | 'runId' | 'size' | 'createdAt'>>,
+  policy: ArtifactRetentionPolicy,
+  now: number,
+): Set<ArtifactId> {
+  const doomed = new Set<ArtifactId>();
+
+  // 1. 过期工件
+  if (policy.maxAgeMs !== undefined) {
+    const cutoff = now - policy.maxAgeMs;
+    for (const entry of entries) {
+      if (entry.createdAt < cutoff) doomed.add(entry.id);
+    }
+  }
+
+  // 2. 单 Run 超出数量的最旧工件
+  if (policy.maxArtifactsPerRun !== undefined) {
+    const remainingByRun = new Map<RunId, number>();
+    for (const entry of entries) {
+      if (doomed.has(entry.id)) continue;
+      remainingByRun.set(entry.runId, (remainingByRun.get(entry.runId) ?? 0) + 1);
+    }
+    for (const entry of entries) {
+      if (doomed.has(entry.id)) continue;
+      const count = remainingByRun.get(entry.runId) ?? 0;
+      if (count > policy.maxArtifactsPerRun) {
+        doomed.add(entry.id);
+        remainingByRun.set(entry.runId, count - 1);
+      }
+    }
+  }
+
+  // 3. 超出总容量的最旧工件
+  if (policy.maxTotalBytes !== undefined) {
+    let total = 0;
+    for (const entry of entries) {
+      if (!doomed.has(entry.id)) total += entry.size;
+    }
+    for (const entry of entries) {
+      if (total <= policy.maxTotalBytes) break;
+      if (doomed.has(entry.id)) continue;
+      doomed.add(entry.id);
+      total -= entry.size;
+    }
+  }
+
+  return doomed;
+}
+
+/**
+ * 创建 ArtifactsStore 实现
+ */
+export function createArtifactsStore(): ArtifactsStore {
+  return {
+    async save(record: ArtifactRecord): Promise<void> {
+      if (!record.id || !record.runId) {
+        throw createRRError(RR_ERROR_CODES.VALIDATION_ERROR, 'Artifact id and runId are required');
+      }
+      await withTransaction(RR_V3_STORES.ARTIFACTS, 'readwrite', async (stores) => {
+        await idbRequest(stores[RR_V3_STORES.ARTIFACTS].put(record), `save(${record.id})`);
+      });
+    },
+
+    async get(id: ArtifactId): Promise<ArtifactRecord | null> {
+      return withTransaction(RR_V3_STORES.ARTIFACTS, 'readonly', async (stores) => {
+        const record = await idbRequest<ArtifactRecord | undefined>(
+          stores[RR_V3_STORES.ARTIFACTS].get(id),
+          `get(${id})`,
+        );
+        return record ?? null;
+      });
+    },
+
+    async list(runId: RunId, opts?: { nodeId?: NodeId }): Promise<ArtifactMeta[]> {
+      return withTransaction(RR_V3_STORES.ARTIFACTS, 'readonly', async (stores) => {
+        const index = stores[RR_V3_STORES.ARTIFACTS].index('runId_createdAt');
+        const range = IDBKeyRange.bound([runId, 0], [runId, Number.MAX_SAFE_INTEGER]);
+        return collectCursor(index.openCursor(range), (cursor) => {
+          const record = cursor.value as ArtifactRecord;
+          if (opts?.nodeId !== undefined && record.nodeId !== opts.nodeId) return undefined;
+          return toArtifactMeta(record);
+        });
+      });
+    },
+
+    async delete(id: ArtifactId): Promise<void> {
+      await withTransaction(RR_V3_STORES.ARTIFACTS, 'readwrite', async (stores) => {
+        await idbRequest(stores[RR_V3_STORES.ARTIFACTS].delete(id), `delete(${id})`);
+      });
+    },
+
+    async deleteByRun(runId: RunId): Promise<number> {
+      return withTransaction(RR_V3_STORES.ARTIFACTS, 'readwrite', async (stores) => {
+        const index = stores[RR_V3_STORES.ARTIFACTS].index('runId');
+        const deleted = await collectCursor(index.openCursor(IDBKeyRange.only(runId)), (cursor) => {
+          cursor.delete();
+          return cursor.primaryKey;
+        });
+        return deleted.length;
+      });
+    },
+
+    async prune(policy: ArtifactRetentionPolicy, now: number = Date.now()): Promise<number> {
+      return withTransaction(RR_V3_STORES.ARTIFACTS, 'readwrite', async (stores) => {
+        const store = stores[RR_V3_STORES.ARTIFACTS];
+
+        // 只读索引键，不加载截图等工件内容；createdAt 在键首位保证最旧的在前
+        const index = store.index('createdAt_runId_size');
+        const entries = await collectCursor(index.openKeyCursor(), (cursor) => {
+          const [createdAt, runId, size] = cursor.key as [number, RunId, number];
+          return { id: cursor.primaryKey as ArtifactId, runId, size, createdAt };
+        });
+
+        const doomed = selectExpired(entries, policy, now);
+        for (const id of doomed) {
+          await idbRequest(store.delete(id), `prune.delete(${id})`);
+        }
+        return doomed.size;
+      });
+    },
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview 批量运行持久化
+ * @description 实现批量运行记录（含逐行结果）的 CRUD 操作
+ */
+
+import type { FlowId } from '../domain/ids';
+import type { BatchId, BatchRecord, BatchStatus } from '../domain/datasets';
+import { RR_ERROR_CODES, createRRError } from '../domain/errors';
+import type { BatchesStore } from '../engine/storage/storage-port';
+import { RR_V3_STORES, withTransaction } from './db';
+
+/**
+ * IDB request helper - promisify IDBRequest with RRError wrapping
+ */
+function idbRequest<T>(request: IDBRequest<T>, context: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      const error = request.error;
+      reject(
+        createRRError(
+          RR_ERROR_CODES.INTERNAL,
+          `IDB error in ${context}: ${error?.message ?? 'unknown'}`,
+        ),
+      );
+    };
+  });
+}
+
+/**
+ * 创建 BatchesStore 实现
+ */
+export function createBatchesStore(): BatchesStore {
+  return {
+    async list(opts?: { flowId?: FlowId; status?: BatchStatus }): Promise<BatchRecord[]> {
+      return withTransaction(RR_V3_STORES.BATCHES, 'readonly', async (stores) => {
+        const store = stores[RR_V3_STORES.BATCHES];
+        const request =
+          opts?.flowId !== undefined
+            ? store.index('flowId').getAll(IDBKeyRange.only(opts.flowId))
+            : store.getAll();
+        const records = (await idbRequest(request, 'list')) as BatchRecord[];
+        return records
+          .filter((record) => opts?.status === undefined || record.status === opts.status)
+          .sort((a, b) => b.createdAt - a.createdAt);
+      });
+    },
+
+    async get(id: BatchId): Promise<BatchRecord | null> {
+      return withTransaction(RR_V3_STORES.BATCHES, 'readonly', async (stores) => {
+        const record = await idbRequest<BatchRecord | undefined>(
+          stores[RR_V3_STORES.BATCHES].get(id),
+          `get(${id})`,
+        );
+        return record ?? null;
+      });
+    },
+
+    async save(record: BatchRecord): Promise<void> {
+      if (!record.id || !record.flowId || !record.datasetId) {
+        throw createRRError(
+          RR_ERROR_CODES.VALIDATION_ERROR,
+          'Batch id, flowId and datasetId are required',
+        );
+      }
+      await withTransaction(RR_V3_STORES.BATCHES, 'readwrite', async (stores) => {
+        await idbRequest(stores[RR_V3_STORES.BATCHES].put(record), `save(${record.id})`);
+      });
+    },
+
+    async delete(id: BatchId): Promise<void> {
+      await withTransaction(RR_V3_STORES.BATCHES, 'readwrite', async (stores) => {
+        await idbRequest(stores[RR_V3_STORES.BATCHES].delete(id), `delete(${id})`);
+      });
+    },
+  };
+}
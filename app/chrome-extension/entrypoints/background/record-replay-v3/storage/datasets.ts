@@ -0,0 +1,84 @@
+/**
+ * @fileoverview 数据集持久化
+ * @description 实现批量运行所用 CSV / JSON 数据集的 CRUD 操作
+ */
+
+import type { DatasetId, DatasetMeta, DatasetRecord } from '../domain/datasets';
+import { toDatasetMeta } from '../domain/datasets';
+import { RR_ERROR_CODES, createRRError } from '../domain/errors';
+import type { DatasetsStore } from '../engine/storage/storage-port';
+import { RR_V3_STORES, withTransaction } from './db';
+
+/**
+ * IDB request helper - promisify IDBRequest with RRError wrapping
+ */
+function idbRequest<T>(request: IDBRequest<T>, context: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      const error = request.error;
+      reject(
+        createRRError(
+          RR_ERROR_CODES.INTERNAL,
+          `IDB error in ${context}: ${error?.message ?? 'unknown'}`,
+        ),
+      );
+    };
+  });
+}
+
+/**
+ * 校验数据集记录结构
+ */
+function validateDataset(record: DatasetRecord): void {
+  if (!record.id) {
+    throw createRRError(RR_ERROR_CODES.VALIDATION_ERROR, 'Dataset id is required');
+  }
+  if (!Array.isArray(record.rows) || record.rows.length !== record.rowCount) {
+    throw createRRError(
+      RR_ERROR_CODES.VALIDATION_ERROR,
+      `Dataset "${record.id}" rowCount does not match rows`,
+    );
+  }
+}
+
+/**
+ * 创建 DatasetsStore 实现
+ */
+export function createDatasetsStore(): DatasetsStore {
+  return {
+    async list(): Promise<DatasetMeta[]> {
+      return withTransaction(RR_V3_STORES.DATASETS, 'readonly', async (stores) => {
+        const records = await idbRequest(
+          stores[RR_V3_STORES.DATASETS].index('updatedAt').getAll(),
+          'list',
+        );
+        // 最近更新的在前
+        return (records as DatasetRecord[]).reverse().map(toDatasetMeta);
+      });
+    },
+
+    async get(id: DatasetId): Promise<DatasetRecord | null> {
+      return withTransaction(RR_V3_STORES.DATASETS, 'readonly', async (stores) => {
+        const record = await idbRequest<DatasetRecord | undefined>(
+          stores[RR_V3_STORES.DATASETS].get(id),
+          `get(${id})`,
+        );
+        return record ?? null;
+      });
+    },
+
+    async save(record: DatasetRecord): Promise<void> {
+      validateDataset(record);
+      await withTransaction(RR_V3_STORES.DATASETS, 'readwrite', async (stores) => {
+        await idbRequest(stores[RR_V3_STORES.DATASETS].put(record), `save(${record.id})`);
+      });
+    },
+
+    async delete(id: DatasetId): Promise<void> {
+      await withTransaction(RR_V3_STORES.DATASETS, 'readwrite', async (stores) => {
+        await idbRequest(stores[RR_V3_STORES.DATASETS].delete(id), `delete(${id})`);
+      });
+    },
+  };
+}
@@ -7,7 +7,7 @@
 export const RR_V3_DB_NAME = 'rr_v3';
 
 /** 数据库版本 */
-export const RR_V3_DB_VERSION = 1;
+export const RR_V3_DB_VERSION = 3;
 
 /**
  * Store 名称常量
@@ -19,6 +19,9 @@ export const RR_V3_STORES = {
   QUEUE: 'queue',
   PERSISTENT_VARS: 'persistent_vars',
   TRIGGERS: 'triggers',
+  ARTIFACTS: 'artifacts',
+  DATASETS: 'datasets',
+  BATCHES: 'batches',
 } as const;
 
 /**
@@ -93,25 +96,75 @@ export const RR_V3_STORE_SCHEMAS: Record<string, StoreConfig> = {
       { name: 'kind_enabled', keyPath: ['kind', 'enabled'] },
     ],
   },
+  // Version 2
+  [RR_V3_STORES.ARTIFACTS]: {
+    keyPath: 'id',
+    indexes: [
+      { name: 'runId', keyPath: 'runId' },
+      // Carries everything retention needs, so prune reads index keys instead of records
+      { name: 'createdAt_runId_size', keyPath: ['createdAt', 'runId', 'size'] },
+      // Compound index for listing a run's artifacts in creation order
+      { name: 'runId_createdAt', keyPath: ['runId', 'createdAt'] },
+    ],
+  },
+  // Version 3
+  [RR_V3_STORES.DATASETS]: {
+    keyPath: 'id',
+    indexes: [
+      { name: 'name', keyPath: 'name' },
+      { name: 'updatedAt', keyPath: 'updatedAt' },
+    ],
+  },
+  [RR_V3_STORES.BATCHES]: {
+    keyPath: 'id',
+    indexes: [
+      { name: 'flowId', keyPath: 'flowId' },
+      { name: 'status', keyPath: 'status' },
+      { name: 'createdAt', keyPath: 'createdAt' },
+    ],
+  },
 };
 
+/**
+ * 创建 store 及其索引
+ */
+function createStore(db: IDBDatabase, storeName: string): void {
+  const config = RR_V3_STORE_SCHEMAS[storeName];
+  const store = db.createObjectStore(storeName, {
+    keyPath: config.keyPath,
+    autoIncrement: config.autoIncrement,
+  });
+
+  // 创建索引
+  if (config.indexes) {
+    for (const index of config.indexes) {
+      store.createIndex(index.name, index.keyPath, index.options);
+    }
+  }
+}
+
 /**
  * 数据库升级处理器
  */
 export function handleUpgrade(db: IDBDatabase, oldVersion: number, _newVersion: number): void {
   // Version 0 -> 1: 创建所有 stores
   if (oldVersion < 1) {
-    for (const [storeName, config] of Object.entries(RR_V3_STORE_SCHEMAS)) {
-      const store = db.createObjectStore(storeName, {
-        keyPath: config.keyPath,
-        autoIncrement: config.autoIncrement,
-      });
+    for (const storeName of Object.keys(RR_V3_STORE_SCHEMAS)) {
+      createStore(db, storeName);
+    }
+    return;
+  }
+
+  // Version 1 -> 2: 新增 artifacts store
+  if (oldVersion < 2 && !db.objectStoreNames.contains(RR_V3_STORES.ARTIFACTS)) {
+    createStore(db, RR_V3_STORES.ARTIFACTS);
+  }
 
-      // 创建索引
-      if (config.indexes) {
-        for (const index of config.indexes) {
-          store.createIndex(index.name, index.keyPath, index.options);
-        }
+  // Version 2 -> 3: 新增 datasets / batches store
+  if (oldVersion < 3) {
+    for (const storeName of [RR_V3_STORES.DATASETS, RR_V3_STORES.BATCHES]) {
+      if (!db.objectStoreNames.contains(storeName)) {
+        createStore(db, storeName);
       }
     }
   }
@@ -9,6 +9,12 @@ import type { VariableDefinition } from '../../domain/variables';
 import type { NodeId, FlowId, EdgeId } from '../../domain/ids';
 import type { ISODateTimeString } from '../../domain/json';
 import { FLOW_SCHEMA_VERSION } from '../../domain/flow';
+import { EDGE_LABELS } from '../../domain/ids';
+import {
+  DEFAULT_LOOP_MAX_ITERATIONS,
+  LOOP_MAX_ITERATIONS_LIMIT,
+  isLoopNode,
+} from '../../engine/kernel/loops';
 
 // ==================== V2 Types (imported from record-replay) ====================
 
@@ -98,25 +104,6 @@ export function convertFlowV2ToV3(v2Flow: V2Flow): ConversionResult<FlowV3> {
     errors.push('V2 Flow has no nodes');
   }
 
-  // 2. 检查不支持的特性
-  if (v2Flow.subflows && Object.keys(v2Flow.subflows).length > 0) {
-    errors.push(
-      'V3 does not support subflows yet. Flow contains subflows: ' +
-        Object.keys(v2Flow.subflows).join(', '),
-    );
-  }
-
-  // 检查 foreach/while 节点
-  const unsupportedNodes = (v2Flow.nodes || []).filter(
-    (n) => n.type === 'foreach' || n.type === 'while',
-  );
-  if (unsupportedNodes.length > 0) {
-    errors.push(
-      'V3 does not support foreach/while nodes yet. Found: ' +
-        unsupportedNodes.map((n) => `${n.id} (${n.type})`).join(', '),
-    );
-  }
-
   // 如果有致命错误，直接返回
   if (errors.length > 0) {
     return { success: false, errors, warnings };
@@ -153,6 +140,14 @@ export function convertFlowV2ToV3(v2Flow: V2Flow): ConversionResult<FlowV3> {
   }
   const entryNodeId = entryResult.nodeId;
 
+  // 5.1 将循环节点引用的子流程展开为 body 子图（入口在展开前计算，不受循环体影响）
+  const inlineResult = inlineLoopSubflows(nodes, edges, v2Flow.subflows || {});
+  warnings.push(...inlineResult.warnings);
+  if (inlineResult.errors.length > 0) {
+    errors.push(...inlineResult.errors);
+    return { success: false, errors, warnings };
+  }
+
   // 6. 转换变量
   const variables = convertVariablesV2ToV3(v2Flow.variables || []);
 
@@ -236,6 +231,137 @@ function convertEdgeV2ToV3(v2Edge: V2Edge): EdgeV3 | null {
   return edge;
 }
 
+/** 子流程展开结果 */
+interface InlineSubflowsResult {
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * 将 V2 循环节点（foreach/while/loopElements）的子流程展开到 V3 Flow 中
+ *
+ * 规则：
+ * 1. 子流程节点/边的 ID 加上「循环节点 ID/」前缀，避免与主流程冲突
+ * 2. 循环节点通过 body 边连到子流程的入口节点；子流程末尾无出边即结束本次迭代
+ * 3. 子流程中的循环节点递归展开（检测子流程的递归引用）
+ * 4. 配置中的 subflowId 被移除；未被循环节点引用的子流程 V3 尚不支持，返回错误
+ *
+ * 会直接修改传入的 nodes / edges
+ */
+function inlineLoopSubflows(
+  nodes: NodeV3[],
+  edges: EdgeV3[],
+  subflows: NonNullable<V2Flow['subflows']>,
+): InlineSubflowsResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const used = new Set<string>();
+
+  const expand = (loopNode: NodeV3, chain: string[]): void => {
+    const subflowId = loopNode.config.subflowId;
+    const subflow = typeof subflowId === 'string' ? subflows[subflowId] : undefined;
+    if (typeof subflowId !== 'string' || !subflow) {
+      errors.push(
+        `Loop node "${loopNode.id}" references missing subflow "${String(subflowId ?? '')}"`,
+      );
+      return;
+    }
+    if (chain.includes(subflowId)) {
+      errors.push(
+        `Subflow "${subflowId}" is used recursively: ${[...chain, subflowId].join(' -> ')}`,
+      );
+      return;
+    }
+    used.add(subflowId);
+
+    const prefix = `${loopNode.id}/`;
+    const bodyNodes: NodeV3[] = [];
+    for (const v2Node of subflow.nodes || []) {
+      const node = convertNodeV2ToV3({ ...v2Node, id: v2Node.id && prefix + v2Node.id });
+      if (node) {
+        bodyNodes.push(node);
+      } else {
+        warnings.push(`Skipped invalid node in subflow "${subflowId}": ${v2Node.id}`);
+      }
+    }
+    const bodyEdges: EdgeV3[] = [];
+    for (const v2Edge of subflow.edges || []) {
+      const edge = convertEdgeV2ToV3({
+        ...v2Edge,
+        id: v2Edge.id && prefix + v2Edge.id,
+        from: v2Edge.from && prefix + v2Edge.from,
+        to: v2Edge.to && prefix + v2Edge.to,
+      });
+      if (edge) {
+        bodyEdges.push(edge);
+      } else {
+        warnings.push(`Skipped invalid edge in subflow "${subflowId}": ${v2Edge.id}`);
+      }
+    }
+
+    const entry = findEntryNodeId(bodyNodes, bodyEdges);
+    warnings.push(...entry.warnings.map((w) => `Subflow "${subflowId}": ${w}`));
+    if (!entry.nodeId) {
+      errors.push(`Loop node "${loopNode.id}": subflow "${subflowId}" has no executable nodes`);
+      return;
+    }
+
+    nodes.push(...bodyNodes);
+    edges.push(...bodyEdges, {
+      id: `${prefix}${EDGE_LABELS.BODY}` as EdgeId,
+      from: loopNode.id,
+      to: entry.nodeId,
+      label: EDGE_LABELS.BODY,
+    });
+    loopNode.config = convertLoopConfigV2ToV3(loopNode, warnings);
+
+    for (const node of bodyNodes) {
+      if (isLoopNode(node)) expand(node, [...chain, subflowId]);
+    }
+  };
+
+  for (const node of nodes.filter((n) => isLoopNode(n))) {
+    expand(node, []);
+  }
+
+  const unused = Object.keys(subflows).filter((id) => !used.has(id));
+  if (unused.length > 0) {
+    errors.push(
+      'V3 does not support subflows outside loop bodies yet. Flow contains subflows: ' +
+        unused.join(', '),
+    );
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * 转换循环节点配置
+ * V2 while 达到 maxIterations 时静默结束，因此设置 onLimit: 'stop' 保持原行为
+ */
+function convertLoopConfigV2ToV3(node: NodeV3, warnings: string[]): NodeV3['config'] {
+  const { subflowId: _subflowId, concurrency, ...config } = node.config;
+
+  if (node.kind === 'foreach' && Number(concurrency ?? 1) > 1) {
+    warnings.push(
+      `Loop node "${node.id}": concurrency ${String(concurrency)} is not supported, iterations run sequentially`,
+    );
+  }
+
+  if (node.kind === 'while') {
+    const max = Number(config.maxIterations ?? DEFAULT_LOOP_MAX_ITERATIONS);
+    return {
+      ...config,
+      maxIterations: Number.isFinite(max)
+        ? Math.max(1, Math.min(LOOP_MAX_ITERATIONS_LIMIT, Math.floor(max)))
+        : DEFAULT_LOOP_MAX_ITERATIONS,
+      onLimit: 'stop',
+    };
+  }
+
+  return config;
+}
+
 /** entryNodeId 计算结果 */
 interface EntryNodeResult {
   nodeId: NodeId | null;
@@ -416,6 +542,15 @@ export function convertFlowV3ToV2(v3Flow: FlowV3): ConversionResult<V2Flow> {
   const errors: string[] = [];
   const warnings: string[] = [];
 
+  // V2 循环依赖 subflowId，V3 的 body 子图不会被还原为子流程
+  const loopNodes = v3Flow.nodes.filter((n) => isLoopNode(n) && !n.config.subflowId);
+  if (loopNodes.length > 0) {
+    warnings.push(
+      'Loop bodies are kept inline and need subflows to run in V2: ' +
+        loopNodes.map((n) => n.id).join(', '),
+    );
+  }
+
   // 1. 转换节点
   const nodes: V2Node[] = v3Flow.nodes.map((n) => ({
     id: n.id,
@@ -9,4 +9,7 @@ export * from './events';
 export * from './queue';
 export * from './persistent-vars';
 export * from './triggers';
+export * from './artifacts';
+export * from './datasets';
+export * from './batches';
 export * from './import';
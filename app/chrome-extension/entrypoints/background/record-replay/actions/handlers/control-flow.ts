@@ -36,8 +36,9 @@ const DEFAULT_MAX_ITERATIONS = 1000;
 
 /**
  * Evaluate a condition against variables
+ * (also used by the V3 runner for native while loops)
  */
-function evaluateCondition(condition: Condition, vars: VariableStore): boolean {
+export function evaluateCondition(condition: Condition, vars: VariableStore): boolean {
   switch (condition.kind) {
     case 'expr': {
       // Expression evaluation not supported in default resolver
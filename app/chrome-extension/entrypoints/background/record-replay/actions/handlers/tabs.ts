@@ -45,6 +45,8 @@ export const openTabHandler: ActionHandler<'openTab'> = {
       url = urlResult.value.trim() || undefined;
     }
 
+    // Tab created before a later step failed; reported so the caller can clean it up
+    let createdTabId: number | undefined;
     try {
       let tabId: number;
 
@@ -72,6 +74,7 @@ export const openTabHandler: ActionHandler<'openTab'> = {
         }
         tabId = tab.id;
       }
+      createdTabId = tabId;
 
       // Wait for tab to be ready if URL was specified
       if (url) {
@@ -81,7 +84,10 @@ export const openTabHandler: ActionHandler<'openTab'> = {
       // Return newTabId for ctx.tabId sync
       return { status: 'success', newTabId: tabId };
     } catch (e) {
-      return failed('UNKNOWN', `Failed to open tab: ${e instanceof Error ? e.message : String(e)}`);
+      return {
+        ...failed('UNKNOWN', `Failed to open tab: ${e instanceof Error ? e.message : String(e)}`),
+        ...(createdTabId !== undefined ? { newTabId: createdTabId } : {}),
+      };
     }
   },
 };
@@ -18,6 +18,7 @@ import {
 import { listRuns } from './flow-store';
 import { STORAGE_KEYS } from '@/common/constants';
 import { listTriggers, saveTrigger, deleteTrigger, type FlowTrigger } from './trigger-store';
+import { notifyToolSetChanged } from '../btcp-tool-registry';
 import { runFlow } from './flow-runner';
 import { RecorderManager } from './recording/recorder-manager';
 import { recordingSession } from './recording/session-manager';
@@ -139,6 +140,8 @@ export function initRecordReplayListeners() {
             .then(async (flow) => {
               if (!flow) return sendResponse({ success: false, error: 'flow not found' });
               await publishFlow(flow, message.slug);
+              // Published flows are listed in the flow_run tool definition
+              notifyToolSetChanged();
               sendResponse({ success: true });
             })
             .catch((e) => sendResponse({ success: false, error: e?.message || String(e) }));
@@ -146,7 +149,10 @@ export function initRecordReplayListeners() {
         }
         case BACKGROUND_MESSAGE_TYPES.RR_UNPUBLISH_FLOW: {
           unpublishFlow(message.flowId)
-            .then(() => sendResponse({ success: true }))
+            .then(() => {
+              notifyToolSetChanged();
+              sendResponse({ success: true });
+            })
             .catch((e) => sendResponse({ success: false, error: e?.message || String(e) }));
           return true;
         }
@@ -1,6 +1,8 @@
-import { ToolExecutor } from '@/common/tool-handler';
-import type { ToolResult } from '@/common/tool-handler';
+import { ToolCancelledError, ToolExecutor } from '@/common/tool-handler';
+import type { ToolExecutionContext, ToolProgress, ToolResult } from '@/common/tool-handler';
 import { TIMEOUTS, ERROR_MESSAGES } from '@/common/constants';
+import { TOOL_MESSAGE_TYPES } from '@/common/message-types';
+import { encodeFrameRef, routeFrameRefs } from './frame-refs';
 import {
   getCurrentSession,
   getActiveTabInSession,
@@ -17,7 +19,34 @@ const PING_TIMEOUT_MS = 300;
  */
 export abstract class BaseBrowserToolExecutor implements ToolExecutor {
   abstract name: string;
-  abstract execute(args: any): Promise<ToolResult>;
+  abstract execute(args: any, context?: ToolExecutionContext): Promise<ToolResult>;
+
+  /**
+   * Throw ToolCancelledError if the caller has cancelled this call
+   */
+  protected throwIfCancelled(context?: ToolExecutionContext): void {
+    if (context?.signal?.aborted) {
+      throw new ToolCancelledError();
+    }
+  }
+
+  /**
+   * Report progress to the caller (no-op when nobody is listening)
+   */
+  protected reportProgress(
+    context: ToolExecutionContext | undefined,
+    progress: number,
+    total?: number,
+    message?: string,
+  ): void {
+    if (!context?.onProgress) return;
+    const update: ToolProgress = { progress, total, message };
+    try {
+      context.onProgress(update);
+    } catch (error) {
+      console.warn(`${this.name}: progress listener failed:`, error);
+    }
+  }
 
   /**
    * Check if a tab group session is currently active
@@ -113,10 +142,16 @@ export abstract class BaseBrowserToolExecutor implements ToolExecutor {
   }
 
   /**
-   * Send message to tab
+   * Send message to tab.
+   * Frame-encoded refs (`f<frameId>:ref_N`) route the message to their frame; refs
+   * and coordinates that come back from a child frame are made tab-global again.
    */
   protected async sendMessageToTab(tabId: number, message: any, frameId?: number): Promise<any> {
     try {
+      const routed = routeFrameRefs(message, frameId);
+      message = routed.message;
+      frameId = routed.frameId;
+
       const response =
         typeof frameId === 'number'
           ? await chrome.tabs.sendMessage(tabId, message, { frameId })
@@ -126,6 +161,10 @@ export abstract class BaseBrowserToolExecutor implements ToolExecutor {
         throw new Error(String(response.error));
       }
 
+      if (frameId && response && typeof response === 'object') {
+        await this.toTabCoordinates(tabId, frameId, message?.action, response);
+      }
+
       return response;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -140,6 +179,85 @@ export abstract class BaseBrowserToolExecutor implements ToolExecutor {
     }
   }
 
+  /**
+   * Rewrite a child frame's ref lookup result for the whole tab: prefix the ref
+   * with the frame id and move center/rect from the frame's viewport into the
+   * tab's viewport
+   */
+  private async toTabCoordinates(
+    tabId: number,
+    frameId: number,
+    action: unknown,
+    response: Record<string, any>,
+  ): Promise<void> {
+    if (
+      action !== TOOL_MESSAGE_TYPES.RESOLVE_REF &&
+      action !== TOOL_MESSAGE_TYPES.ENSURE_REF_FOR_SELECTOR
+    ) {
+      return;
+    }
+    if (typeof response.ref === 'string') response.ref = encodeFrameRef(response.ref, frameId);
+    if (!response.center && !response.rect) return;
+
+    const offset = await this.getFrameOffset(tabId, frameId);
+    if (response.center) {
+      response.center = {
+        x: Math.round(response.center.x + offset.x),
+        y: Math.round(response.center.y + offset.y),
+      };
+    }
+    if (response.rect) {
+      response.rect = {
+        ...response.rect,
+        x: response.rect.x + offset.x,
+        y: response.rect.y + offset.y,
+      };
+    }
+  }
+
+  /**
+   * Position of a frame's viewport inside the tab's viewport (CSS pixels).
+   * Each frame announces itself to its parent, which measures the hosting
+   * <iframe>; this works for cross-origin and out-of-process frames alike.
+   */
+  protected async getFrameOffset(
+    tabId: number,
+    frameId: number,
+  ): Promise<{ x: number; y: number }> {
+    const frames = await chrome.webNavigation.getAllFrames({ tabId });
+    const byId = new Map((frames ?? []).map((f) => [f.frameId, f]));
+    const offset = { x: 0, y: 0 };
+
+    let current = byId.get(frameId);
+    while (current && current.frameId !== 0) {
+      const parentFrameId = current.parentFrameId;
+      const helper = ['inject-scripts/accessibility-tree-helper.js'];
+      await this.injectContentScript(tabId, helper, false, 'ISOLATED', false, [current.frameId]);
+      await this.injectContentScript(tabId, helper, false, 'ISOLATED', false, [parentFrameId]);
+
+      const token = `frame_${current.frameId}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      await chrome.tabs.sendMessage(
+        tabId,
+        { action: TOOL_MESSAGE_TYPES.ANNOUNCE_FRAME, token },
+        { frameId: current.frameId },
+      );
+      const located = await chrome.tabs.sendMessage(
+        tabId,
+        { action: TOOL_MESSAGE_TYPES.LOCATE_CHILD_FRAME, token },
+        { frameId: parentFrameId },
+      );
+      if (!located?.success) {
+        throw new Error(
+          `Cannot locate frame ${current.frameId} in its parent: ${located?.error || 'no response'}`,
+        );
+      }
+      offset.x += located.offset.x;
+      offset.y += located.offset.y;
+      current = byId.get(parentFrameId);
+    }
+    return offset;
+  }
+
   /**
    * Try to get an existing tab by id. Returns null when not found.
    * If a session is active, verifies the tab belongs to the session.
@@ -0,0 +1,793 @@
+/**
+ * Accessibility Tool - CDP Accessibility.getFullAXTree
+ *
+ * Unlike `chrome_read_page`, which infers roles and names from the DOM, this
+ * tool reads Chrome's computed accessibility tree, so custom widgets show up
+ * with the role and name assistive technology actually gets.
+ *
+ * - snapshot: the pruned tree (ignored and unnamed generic nodes are folded
+ *   into their children) as an indented outline. Element nodes get the same
+ *   `ref_*` refs as read_page, usable with chrome_computer / chrome_click_element.
+ * - audit: flags missing accessible names, widgets that cannot be focused,
+ *   text below the WCAG AA contrast ratio, positive tabindex, focusable
+ *   elements inside aria-hidden and backwards jumps in the focus order.
+ *
+ * Both work on the whole page or on a subtree (refId or selector).
+ *
+ * Refs are linked by briefly tagging the nodes with an attribute over CDP and
+ * resolving the tagged elements in the content-script world, where the ref map
+ * lives. Tags the page script cannot reach are removed over CDP afterwards.
+ */
+
+import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import { BaseBrowserToolExecutor } from '../base-browser';
+import { TOOL_NAMES } from 'chrome-mcp-shared';
+import { cdpSessionManager } from '@/utils/cdp-session-manager';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CDP_SESSION_KEY = 'accessibility';
+
+const REF_ATTRIBUTE = 'data-mcp-axref';
+const ROOT_ATTRIBUTE = 'data-mcp-axroot';
+
+const DEFAULT_MAX_NODES = 500;
+const MAX_NODES_LIMIT = 2000;
+const MAX_LINE_LABEL = 100;
+const MAX_ISSUES = 200;
+
+const AUDIT_CHECKS = ['labels', 'contrast', 'focus'] as const;
+
+/** Roles that need an accessible name */
+const NAMED_ROLES = new Set([
+  'button',
+  'link',
+  'checkbox',
+  'radio',
+  'textbox',
+  'searchbox',
+  'combobox',
+  'listbox',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'switch',
+  'slider',
+  'spinbutton',
+  'tab',
+  'treeitem',
+  'image',
+  'img',
+]);
+
+/** Interactive roles that must be reachable with the keyboard */
+const WIDGET_ROLES = new Set([
+  'button',
+  'link',
+  'checkbox',
+  'radio',
+  'textbox',
+  'searchbox',
+  'combobox',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'switch',
+  'slider',
+  'spinbutton',
+  'tab',
+]);
+
+/** Folded into their children unless they have a name */
+const STRUCTURAL_ROLES = new Set(['generic', 'none', 'presentation', 'LineBreak', 'group']);
+
+/** States shown next to a node */
+const SHOWN_PROPERTIES = [
+  'focused',
+  'disabled',
+  'checked',
+  'pressed',
+  'expanded',
+  'selected',
+  'required',
+  'invalid',
+  'level',
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type AccessibilityAction = 'snapshot' | 'audit';
+type AuditCheck = (typeof AUDIT_CHECKS)[number];
+
+interface AccessibilityParams {
+  action?: AccessibilityAction;
+  tabId?: number;
+  windowId?: number;
+  refId?: string;
+  selector?: string;
+  /** snapshot: keep ignored and unnamed structural nodes */
+  includeIgnored?: boolean;
+  maxNodes?: number;
+  checks?: AuditCheck[];
+}
+
+interface AXValue {
+  type: string;
+  value?: unknown;
+}
+
+interface AXNode {
+  nodeId: string;
+  ignored: boolean;
+  role?: AXValue;
+  name?: AXValue;
+  description?: AXValue;
+  value?: AXValue;
+  properties?: Array<{ name: string; value: AXValue }>;
+  childIds?: string[];
+  parentId?: string;
+  backendDOMNodeId?: number;
+}
+
+/** A node kept in the pruned tree */
+interface PrunedNode {
+  ax: AXNode;
+  role: string;
+  name: string;
+  depth: number;
+  ref?: string;
+}
+
+type IssueSeverity = 'error' | 'warning';
+
+interface AuditIssue {
+  rule: string;
+  severity: IssueSeverity;
+  message: string;
+  ref?: string;
+  role?: string;
+  name?: string;
+  details?: Record<string, unknown>;
+}
+
+interface PageScriptRequest {
+  mode: 'tagRoot' | 'linkRefs' | 'audit';
+  refAttribute: string;
+  rootAttribute: string;
+  refId?: string;
+  selector?: string;
+  checks?: AuditCheck[];
+  maxIssues?: number;
+}
+
+interface PageScriptResult {
+  ok: boolean;
+  error?: string;
+  /** linkRefs: tag -> ref */
+  refs?: Record<string, string>;
+  issues?: AuditIssue[];
+  scanned?: number;
+}
+
+// ============================================================================
+// AX Tree
+// ============================================================================
+
+function axString(value: AXValue | undefined): string {
+  if (!value || value.value === undefined || value.value === null) return '';
+  return String(value.value);
+}
+
+function axProperty(node: AXNode, name: string): unknown {
+  return node.properties?.find((p) => p.name === name)?.value?.value;
+}
+
+/**
+ * Flatten the AX tree below `root` into the nodes worth showing, depth first
+ */
+function pruneAXTree(
+  nodes: AXNode[],
+  root: AXNode,
+  options: { includeIgnored: boolean; maxNodes: number },
+): { kept: PrunedNode[]; truncated: boolean } {
+  const byId = new Map(nodes.map((n) => [n.nodeId, n]));
+  const kept: PrunedNode[] = [];
+  let truncated = false;
+
+  const visit = (node: AXNode, depth: number, parentName: string) => {
+    if (kept.length >= options.maxNodes) {
+      truncated = true;
+      return;
+    }
+    const role = axString(node.role);
+    const name = axString(node.name).replace(/\s+/g, ' ').trim();
+
+    let keep = true;
+    if (!options.includeIgnored) {
+      if (node.ignored || role === 'InlineTextBox') keep = false;
+      else if (STRUCTURAL_ROLES.has(role) && !name) keep = false;
+      // Text already carried by the parent's name
+      else if (role === 'StaticText' && (!name || parentName.includes(name))) keep = false;
+    }
+
+    if (keep) kept.push({ ax: node, role, name, depth });
+    for (const childId of node.childIds ?? []) {
+      const child = byId.get(childId);
+      if (child) visit(child, keep ? depth + 1 : depth, keep ? name : parentName);
+    }
+  };
+
+  visit(root, 0, '');
+  return { kept, truncated };
+}
+
+function formatNode(node: PrunedNode): string {
+  let line = `${'  '.repeat(node.depth)}- ${node.role || 'unknown'}`;
+  if (node.name) {
+    line += ` "${node.name.substring(0, MAX_LINE_LABEL).replace(/"/g, '\\"')}"`;
+  }
+  if (node.ref) line += ` [ref=${node.ref}]`;
+
+  const value = axString(node.ax.value);
+  if (value) line += ` value="${value.substring(0, MAX_LINE_LABEL).replace(/"/g, '\\"')}"`;
+
+  const states: string[] = [];
+  for (const prop of SHOWN_PROPERTIES) {
+    const v = axProperty(node.ax, prop);
+    if (v === undefined || v === false || v === 'false') continue;
+    states.push(v === true || v === 'true' ? prop : `${prop}=${v}`);
+  }
+  if (states.length) line += ` (${states.join(', ')})`;
+  return line;
+}
+
+/**
+ * Issues visible from the AX tree itself: unnamed controls and widgets
+ * without keyboard access. Refs are filled in once the nodes are linked.
+ */
+function auditAXNodes(kept: PrunedNode[]): Array<{ node: PrunedNode; issue: AuditIssue }> {
+  const issues: Array<{ node: PrunedNode; issue: AuditIssue }> = [];
+  for (const node of kept) {
+    if (node.ax.ignored) continue;
+    const disabled = axProperty(node.ax, 'disabled') === true;
+
+    if (NAMED_ROLES.has(node.role) && !node.name) {
+      issues.push({
+        node,
+        issue: {
+          rule: 'missing-name',
+          severity: 'error',
+          message: `${node.role} has no accessible name`,
+          role: node.role,
+        },
+      });
+    }
+
+    if (WIDGET_ROLES.has(node.role) && !disabled && axProperty(node.ax, 'focusable') !== true) {
+      issues.push({
+        node,
+        issue: {
+          rule: 'not-focusable',
+          severity: 'warning',
+          message: `${node.role} cannot be reached with the keyboard`,
+          role: node.role,
+          name: node.name || undefined,
+        },
+      });
+    }
+  }
+  return issues;
+}
+
+// ============================================================================
+// Page Script
+// ============================================================================
+
+/**
+ * Runs in the content-script world (where read_page keeps its ref map).
+ * Must be self-contained.
+ */
+function accessibilityPageScript(request: PageScriptRequest): PageScriptResult {
+  const w = window as any;
+  if (!w.__claudeElementMap) w.__claudeElementMap = {};
+  if (!w.__claudeRefCounter) w.__claudeRefCounter = 0;
+
+  const refFor = (el: Element): string => {
+    for (const k in w.__claudeElementMap) {
+      const weak = w.__claudeElementMap[k];
+      if (weak && weak.deref && weak.deref() === el) return k;
+    }
+    const ref = `ref_${++w.__claudeRefCounter}`;
+    w.__claudeElementMap[ref] = new WeakRef(el);
+    return ref;
+  };
+
+  const resolveRoot = (): Element | null => {
+    if (request.refId) {
+      const weak = w.__claudeElementMap[request.refId];
+      return weak && weak.deref ? weak.deref() || null : null;
+    }
+    if (request.selector) return document.querySelector(request.selector);
+    return document.documentElement;
+  };
+
+  // Elements in the document and in open shadow roots
+  const allElements = (root: Element | Document | ShadowRoot): Element[] => {
+    const out: Element[] = [];
+    const walk = (scope: Element | Document | ShadowRoot) => {
+      for (const el of Array.from(scope.querySelectorAll('*'))) {
+        out.push(el);
+        if (el.shadowRoot) walk(el.shadowRoot);
+      }
+    };
+    if (root instanceof Element) out.push(root);
+    walk(root);
+    return out;
+  };
+
+  if (request.mode === 'tagRoot') {
+    const root = resolveRoot();
+    if (!root) {
+      return {
+        ok: false,
+        error: request.refId
+          ? `refId "${request.refId}" not found or expired`
+          : `No element matches selector "${request.selector}"`,
+      };
+    }
+    root.setAttribute(request.rootAttribute, '1');
+    return { ok: true };
+  }
+
+  if (request.mode === 'linkRefs') {
+    const refs: Record<string, string> = {};
+    for (const el of allElements(document)) {
+      const tag = el.getAttribute(request.refAttribute);
+      if (tag === null) continue;
+      el.removeAttribute(request.refAttribute);
+      refs[tag] = refFor(el);
+    }
+    return { ok: true, refs };
+  }
+
+  // ---- audit ----
+  const root = resolveRoot();
+  if (!root) return { ok: false, error: 'Audit root not found' };
+  const checks = new Set(request.checks ?? []);
+  const maxIssues = request.maxIssues ?? 200;
+  const issues: AuditIssue[] = [];
+  const add = (issue: AuditIssue) => {
+    if (issues.length < maxIssues) issues.push(issue);
+  };
+  const describe = (el: Element) =>
+    (el.getAttribute('aria-label') || (el as HTMLElement).innerText || el.tagName.toLowerCase())
+      .replace(/\s+/g, ' ')
+      .trim()
+      .substring(0, 80);
+  const isVisible = (el: Element) => {
+    const style = getComputedStyle(el);
+    if (style.visibility === 'hidden' || style.display === 'none') return false;
+    const rect = el.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0;
+  };
+
+  const elements = allElements(root);
+
+  if (checks.has('contrast')) {
+    type RGBA = [number, number, number, number];
+    const parseColor = (value: string): RGBA | null => {
+      const m = value.match(/rgba?\(([^)]+)\)/);
+      if (!m) return null;
+      const parts = m[1]
+        .split(/[\s,/]+/)
+        .filter(Boolean)
+        .map(Number);
+      return [parts[0], parts[1], parts[2], parts.length > 3 ? parts[3] : 1];
+    };
+    const blend = (top: RGBA, bottom: RGBA): RGBA => {
+      const a = top[3];
+      return [
+        top[0] * a + bottom[0] * (1 - a),
+        top[1] * a + bottom[1] * (1 - a),
+        top[2] * a + bottom[2] * (1 - a),
+        1,
+      ];
+    };
+    const luminance = (c: RGBA) => {
+      const channel = (v: number) => {
+        const s = v / 255;
+        return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+      };
+      return 0.2126 * channel(c[0]) + 0.7152 * channel(c[1]) + 0.0722 * channel(c[2]);
+    };
+    // Background behind an element; null when an image is involved
+    const backgroundOf = (el: Element): RGBA | null => {
+      const layers: RGBA[] = [];
+      for (let cur: Element | null = el; cur; cur = cur.parentElement) {
+        const style = getComputedStyle(cur);
+        if (style.backgroundImage && style.backgroundImage !== 'none') return null;
+        const color = parseColor(style.backgroundColor);
+        if (color && color[3] > 0) {
+          layers.push(color);
+          if (color[3] >= 1) break;
+        }
+      }
+      let result: RGBA = [255, 255, 255, 1];
+      for (let i = layers.length - 1; i >= 0; i--) result = blend(layers[i], result);
+      return result;
+    };
+    const toHex = (c: RGBA) =>
+      `#${c
+        .slice(0, 3)
+        .map((v) => Math.round(v).toString(16).padStart(2, '0'))
+        .join('')}`;
+
+    for (const el of elements) {
+      const ownText = Array.from(el.childNodes).some(
+        (n) => n.nodeType === Node.TEXT_NODE && (n.textContent || '').trim().length > 0,
+      );
+      if (!ownText || !isVisible(el)) continue;
+      const style = getComputedStyle(el);
+      const fg = parseColor(style.color);
+      const bg = backgroundOf(el);
+      if (!fg || !bg) continue;
+      const text = blend(fg, bg);
+      const l1 = luminance(text);
+      const l2 = luminance(bg);
+      const ratio = (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+      const size = parseFloat(style.fontSize);
+      const bold = Number(style.fontWeight) >= 700;
+      const large = size >= 24 || (bold && size >= 18.66);
+      const required = large ? 3 : 4.5;
+      if (ratio < required) {
+        add({
+          rule: 'contrast',
+          severity: 'error',
+          message: `Text contrast ${ratio.toFixed(2)}:1 is below ${required}:1`,
+          ref: refFor(el),
+          name: describe(el),
+          details: {
+            ratio: Math.round(ratio * 100) / 100,
+            required,
+            foreground: toHex(text),
+            background: toHex(bg),
+            fontSize: size,
+            bold,
+          },
+        });
+      }
+    }
+  }
+
+  if (checks.has('focus')) {
+    const focusableSelector =
+      'a[href], button, input:not([type="hidden"]), select, textarea, [tabindex], [contenteditable="true"], summary';
+    const focusables = elements.filter(
+      (el) =>
+        el.matches(focusableSelector) &&
+        !(el as HTMLInputElement).disabled &&
+        (el as HTMLElement).tabIndex >= 0,
+    );
+
+    for (const el of focusables) {
+      const tabIndex = (el as HTMLElement).tabIndex;
+      if (tabIndex > 0) {
+        add({
+          rule: 'positive-tabindex',
+          severity: 'warning',
+          message: `tabindex="${tabIndex}" overrides the natural focus order`,
+          ref: refFor(el),
+          name: describe(el),
+          details: { tabIndex },
+        });
+      }
+      if (el.closest('[aria-hidden="true"]')) {
+        add({
+          rule: 'hidden-focusable',
+          severity: 'error',
+          message: 'Focusable element inside aria-hidden="true"',
+          ref: refFor(el),
+          name: describe(el),
+        });
+      }
+    }
+
+    // Sequential focus order: positive tabindex ascending, then DOM order
+    const sequence = focusables
+      .filter(isVisible)
+      .map((el, index) => ({ el, index, tabIndex: (el as HTMLElement).tabIndex }))
+      .sort((a, b) => {
+        const ka = a.tabIndex > 0 ? a.tabIndex : Number.MAX_SAFE_INTEGER;
+        const kb = b.tabIndex > 0 ? b.tabIndex : Number.MAX_SAFE_INTEGER;
+        return ka - kb || a.index - b.index;
+      });
+    for (let i = 1; i < sequence.length; i++) {
+      const prev = sequence[i - 1].el.getBoundingClientRect();
+      const next = sequence[i].el.getBoundingClientRect();
+      // Moving clearly upwards on the page is a backwards jump
+      if (next.bottom < prev.top - Math.max(100, prev.height * 2)) {
+        add({
+          rule: 'focus-order',
+          severity: 'warning',
+          message: 'Focus moves backwards (upwards) on the page',
+          ref: refFor(sequence[i].el),
+          name: describe(sequence[i].el),
+          details: { after: refFor(sequence[i - 1].el), jumpPx: Math.round(prev.top - next.top) },
+        });
+      }
+    }
+  }
+
+  return { ok: true, issues, scanned: elements.length };
+}
+
+// ============================================================================
+// Tool
+// ============================================================================
+
+class AccessibilityTool extends BaseBrowserToolExecutor {
+  name = TOOL_NAMES.BROWSER.ACCESSIBILITY;
+
+  async execute(args: AccessibilityParams): Promise<ToolResult> {
+    const params = args || ({} as AccessibilityParams);
+    const action = params.action ?? 'snapshot';
+    if (action !== 'snapshot' && action !== 'audit') {
+      return createErrorResponse('action must be "snapshot" or "audit"');
+    }
+    const checks = params.checks?.length ? params.checks : [...AUDIT_CHECKS];
+    const badCheck = checks.find((c) => !AUDIT_CHECKS.includes(c));
+    if (badCheck) {
+      return createErrorResponse(`Unknown check "${badCheck}". Use: ${AUDIT_CHECKS.join(', ')}`);
+    }
+    const maxNodes = Math.min(
+      MAX_NODES_LIMIT,
+      Math.max(1, Math.floor(Number(params.maxNodes) || DEFAULT_MAX_NODES)),
+    );
+
+    try {
+      const explicit = await this.tryGetTab(params.tabId);
+      const tab = explicit || (await this.getActiveTabOrThrowInWindow(params.windowId));
+      if (!tab.id) return createErrorResponse('Active tab has no ID');
+      const tabId = tab.id;
+      if (tab.url?.startsWith('chrome://') || tab.url?.startsWith('edge://')) {
+        return createErrorResponse('Cannot inspect special browser pages');
+      }
+
+      // Same ref map as read_page / chrome_computer
+      await this.injectContentScript(tabId, ['inject-scripts/accessibility-tree-helper.js']);
+
+      const { kept, truncated, axIssues } = await cdpSessionManager.withSession(
+        tabId,
+        CDP_SESSION_KEY,
+        async () => {
+          const rootBackendId = await this.resolveRootBackendId(tabId, params);
+          await cdpSessionManager.sendCommand(tabId, 'Accessibility.enable');
+          const { nodes } = await cdpSessionManager.sendCommand<{ nodes: AXNode[] }>(
+            tabId,
+            'Accessibility.getFullAXTree',
+          );
+          const root =
+            rootBackendId === null
+              ? nodes.find((n) => !n.parentId)
+              : nodes.find((n) => n.backendDOMNodeId === rootBackendId);
+          if (!root) throw new Error('The element is not in the accessibility tree');
+
+          const pruned = pruneAXTree(nodes, root, {
+            includeIgnored: params.includeIgnored === true,
+            maxNodes: action === 'audit' ? MAX_NODES_LIMIT : maxNodes,
+          });
+          // Snapshots link every node; audits only the ones with issues
+          const axIssues =
+            action === 'audit' && checks.includes('labels') ? auditAXNodes(pruned.kept) : [];
+          await this.linkRefs(
+            tabId,
+            action === 'snapshot' ? pruned.kept : axIssues.map((found) => found.node),
+          );
+          return { ...pruned, axIssues };
+        },
+      );
+
+      if (action === 'snapshot') {
+        return this.result({
+          url: tab.url,
+          title: tab.title,
+          nodeCount: kept.length,
+          truncated,
+          refCount: kept.filter((n) => n.ref).length,
+          tree: kept.map(formatNode).join('\n'),
+        });
+      }
+
+      const issues: AuditIssue[] = axIssues.map(({ node, issue }) => ({ ...issue, ref: node.ref }));
+      const pageChecks = checks.filter((c) => c !== 'labels');
+      let scanned = 0;
+      if (pageChecks.length > 0) {
+        const page = await this.runPageScript(tabId, {
+          mode: 'audit',
+          refAttribute: REF_ATTRIBUTE,
+          rootAttribute: ROOT_ATTRIBUTE,
+          refId: params.refId,
+          selector: params.selector,
+          checks: pageChecks,
+          maxIssues: MAX_ISSUES,
+        });
+        issues.push(...(page.issues ?? []));
+        scanned = page.scanned ?? 0;
+      }
+
+      const byRule: Record<string, number> = {};
+      for (const issue of issues) byRule[issue.rule] = (byRule[issue.rule] ?? 0) + 1;
+      return this.result({
+        url: tab.url,
+        title: tab.title,
+        checks,
+        summary: {
+          errors: issues.filter((i) => i.severity === 'error').length,
+          warnings: issues.filter((i) => i.severity === 'warning').length,
+          byRule,
+          axNodes: kept.length,
+          elementsScanned: scanned,
+        },
+        issues: issues.slice(0, MAX_ISSUES),
+        truncated: issues.length > MAX_ISSUES || truncated,
+      });
+    } catch (error) {
+      return createErrorResponse(
+        `Accessibility ${action} failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private result(payload: Record<string, unknown>): ToolResult {
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ success: true, ...payload }) }],
+      isError: false,
+    };
+  }
+
+  private async runPageScript(
+    tabId: number,
+    request: PageScriptRequest,
+  ): Promise<PageScriptResult> {
+    const [injection] = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: accessibilityPageScript,
+      args: [request],
+    });
+    const result = injection?.result as PageScriptResult | undefined;
+    if (!result?.ok) {
+      throw new Error(result?.error || 'Page script failed');
+    }
+    return result;
+  }
+
+  /**
+   * Backend node id of the subtree root (refId / selector), or null for the page
+   */
+  private async resolveRootBackendId(
+    tabId: number,
+    params: AccessibilityParams,
+  ): Promise<number | null> {
+    if (!params.refId && !params.selector) return null;
+
+    await this.runPageScript(tabId, {
+      mode: 'tagRoot',
+      refAttribute: REF_ATTRIBUTE,
+      rootAttribute: ROOT_ATTRIBUTE,
+      refId: params.refId,
+      selector: params.selector,
+    });
+    let searchId: string | undefined;
+    let nodeIds: number[] = [];
+    try {
+      // performSearch also looks inside shadow roots and same-process frames
+      await cdpSessionManager.sendCommand(tabId, 'DOM.getDocument', { depth: -1, pierce: true });
+      const search = await cdpSessionManager.sendCommand<{
+        searchId: string;
+        resultCount: number;
+      }>(tabId, 'DOM.performSearch', {
+        query: `[${ROOT_ATTRIBUTE}]`,
+        includeUserAgentShadowDOM: true,
+      });
+      searchId = search.searchId;
+      const resultCount = search.resultCount;
+      if (resultCount > 0) {
+        ({ nodeIds } = await cdpSessionManager.sendCommand<{ nodeIds: number[] }>(
+          tabId,
+          'DOM.getSearchResults',
+          { searchId, fromIndex: 0, toIndex: resultCount },
+        ));
+      }
+      if (!nodeIds[0]) {
+        throw new Error('Subtree root is not reachable (inside a cross-origin frame?)');
+      }
+      const { node } = await cdpSessionManager.sendCommand<{ node: { backendNodeId: number } }>(
+        tabId,
+        'DOM.describeNode',
+        { nodeId: nodeIds[0] },
+      );
+      return node.backendNodeId;
+    } finally {
+      await this.removeAttribute(tabId, nodeIds, ROOT_ATTRIBUTE);
+      if (searchId) {
+        await cdpSessionManager
+          .sendCommand(tabId, 'DOM.discardSearchResults', { searchId })
+          .catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Remove a tag attribute over CDP (best-effort). The page script cannot see
+   * closed shadow roots or frames, and may not run at all.
+   */
+  private async removeAttribute(tabId: number, nodeIds: number[], name: string): Promise<void> {
+    for (const nodeId of nodeIds) {
+      await cdpSessionManager
+        .sendCommand(tabId, 'DOM.removeAttribute', { nodeId, name })
+        .catch(() => {});
+    }
+  }
+
+  /**
+   * Give every kept element node a ref: tag the nodes over CDP, then let the
+   * page script swap the tags for refs
+   */
+  private async linkRefs(tabId: number, kept: PrunedNode[]): Promise<void> {
+    const candidates = kept.filter(
+      (n) => typeof n.ax.backendDOMNodeId === 'number' && n.role !== 'StaticText',
+    );
+    if (candidates.length === 0) return;
+
+    await cdpSessionManager.sendCommand(tabId, 'DOM.getDocument', { depth: 0 });
+    const { nodeIds } = await cdpSessionManager.sendCommand<{ nodeIds: number[] }>(
+      tabId,
+      'DOM.pushNodesByBackendIdsToFrontend',
+      { backendNodeIds: candidates.map((n) => n.ax.backendDOMNodeId) },
+    );
+
+    const tagged = new Map<string, { node: PrunedNode; nodeId: number }>();
+    try {
+      for (let i = 0; i < candidates.length; i++) {
+        if (!nodeIds[i]) continue;
+        try {
+          await cdpSessionManager.sendCommand(tabId, 'DOM.setAttributeValue', {
+            nodeId: nodeIds[i],
+            name: REF_ATTRIBUTE,
+            value: String(i),
+          });
+          tagged.set(String(i), { node: candidates[i], nodeId: nodeIds[i] });
+        } catch {
+          // Not an element (document, text); no ref
+        }
+      }
+      if (tagged.size === 0) return;
+
+      const { refs } = await this.runPageScript(tabId, {
+        mode: 'linkRefs',
+        refAttribute: REF_ATTRIBUTE,
+        rootAttribute: ROOT_ATTRIBUTE,
+      });
+      for (const [tag, ref] of Object.entries(refs ?? {})) {
+        const entry = tagged.get(tag);
+        if (!entry) continue;
+        entry.node.ref = ref;
+        // The page script already removed this one
+        tagged.delete(tag);
+      }
+    } finally {
+      await this.removeAttribute(
+        tabId,
+        Array.from(tagged.values(), (entry) => entry.nodeId),
+        REF_ATTRIBUTE,
+      );
+    }
+  }
+}
+
+export const accessibilityTool = new AccessibilityTool();
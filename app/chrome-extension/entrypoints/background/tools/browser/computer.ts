@@ -16,6 +16,14 @@ import {
 } from './gif-recorder';
 
 type MouseButton = 'left' | 'right' | 'middle';
+type PointerType = 'touch' | 'pen';
+
+// Touch gestures: default timings and limits
+const LONG_PRESS_DEFAULT_MS = 800;
+const SWIPE_DEFAULT_MS = 300;
+const GESTURE_MAX_MS = 10000;
+const GESTURE_MAX_TOUCHES = 5; // matches maxTouchPoints of chrome_emulate's touch mode
+const GESTURE_FRAME_MS = 16;
 
 interface Coordinates {
   x: number;
@@ -36,6 +44,17 @@ interface Modifiers {
   shiftKey?: boolean;
 }
 
+interface TouchStroke {
+  start: Coordinates;
+  end?: Coordinates; // omitted = finger stays put
+}
+
+interface TouchInput {
+  ref?: string; // finger starts on the element's center (instead of start)
+  start?: Coordinates;
+  end?: Coordinates; // omitted = finger stays put
+}
+
 interface ComputerParams {
   action:
     | 'left_click'
@@ -53,7 +72,12 @@ interface ComputerParams {
     | 'resize_page'
     | 'scroll_to'
     | 'zoom'
-    | 'screenshot';
+    | 'screenshot'
+    | 'tap'
+    | 'long_press'
+    | 'swipe'
+    | 'pinch'
+    | 'touch_gesture';
   // click/scroll coordinates in screenshot space (if screenshot context exists) or viewport space
   coordinates?: Coordinates; // for click/scroll; for drag, this is endCoordinates
   startCoordinates?: Coordinates; // for drag start
@@ -66,7 +90,10 @@ interface ComputerParams {
   repeat?: number; // for key action (1-100)
   modifiers?: Modifiers; // for click actions
   region?: ZoomRegion; // for zoom action
-  duration?: number; // seconds for wait
+  duration?: number; // seconds for wait; hold/gesture length for long_press/swipe/touch_gesture
+  pointerType?: PointerType; // for tap/long_press/swipe (default: touch)
+  scaleFactor?: number; // for pinch: >1 zooms in, <1 zooms out
+  touches?: TouchInput[]; // for touch_gesture: one stroke per finger
   // For fill
   selector?: string;
   selectorType?: 'css' | 'xpath'; // Type of selector (default: 'css')
@@ -109,6 +136,8 @@ class CDPHelper {
       }
       // Per CDP: buttons is ignored for mouseWheel
       params.buttons = opts.buttons !== undefined ? opts.buttons : 0;
+      if (opts.pointerType) params.pointerType = opts.pointerType;
+      if (opts.force !== undefined) params.force = opts.force;
     }
     if (opts.type === 'mouseWheel') {
       params.deltaX = opts.deltaX || 0;
@@ -121,6 +150,78 @@ class CDPHelper {
     await this.send(tabId, 'Input.insertText', { text });
   }
 
+  static async dispatchTouchEvent(
+    tabId: number,
+    type: 'touchStart' | 'touchMove' | 'touchEnd',
+    points: Coordinates[],
+  ) {
+    await this.send(tabId, 'Input.dispatchTouchEvent', {
+      type,
+      // touchEnd lifts every finger
+      touchPoints:
+        type === 'touchEnd'
+          ? []
+          : points.map((p, id) => ({ x: Math.round(p.x), y: Math.round(p.y), id })),
+    });
+  }
+
+  /**
+   * Press at each stroke's start, move all strokes to their ends together over
+   * durationMs, optionally hold, then lift. Pen input is a single stroke sent as
+   * pen-typed mouse events, since CDP touch points carry no pointer type.
+   */
+  static async stroke(
+    tabId: number,
+    strokes: TouchStroke[],
+    opts: { durationMs: number; holdMs?: number; pointerType?: PointerType },
+  ) {
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+    const moves = strokes.some((s) => s.end && (s.end.x !== s.start.x || s.end.y !== s.start.y));
+    const steps = moves ? Math.max(1, Math.round(opts.durationMs / GESTURE_FRAME_MS)) : 0;
+    const at = (step: number): Coordinates[] => {
+      // Without moves there are no steps: stay at the start
+      const t = steps ? step / steps : 0;
+      return strokes.map(({ start, end = start }) => ({
+        x: start.x + (end.x - start.x) * t,
+        y: start.y + (end.y - start.y) * t,
+      }));
+    };
+
+    if (opts.pointerType === 'pen') {
+      const pen = { pointerType: 'pen', button: 'left' };
+      const { start, end = start } = strokes[0];
+      await this.dispatchMouseEvent(tabId, { ...pen, type: 'mouseMoved', ...start, buttons: 0 });
+      await this.dispatchMouseEvent(tabId, {
+        ...pen,
+        type: 'mousePressed',
+        ...start,
+        buttons: 1,
+        force: 0.5,
+      });
+      for (let i = 1; i <= steps; i++) {
+        await sleep(opts.durationMs / steps);
+        await this.dispatchMouseEvent(tabId, {
+          ...pen,
+          type: 'mouseMoved',
+          ...at(i)[0],
+          buttons: 1,
+          force: 0.5,
+        });
+      }
+      if (opts.holdMs) await sleep(opts.holdMs);
+      await this.dispatchMouseEvent(tabId, { ...pen, type: 'mouseReleased', ...end, buttons: 0 });
+      return;
+    }
+
+    await this.dispatchTouchEvent(tabId, 'touchStart', at(0));
+    for (let i = 1; i <= steps; i++) {
+      await sleep(opts.durationMs / steps);
+      await this.dispatchTouchEvent(tabId, 'touchMove', at(i));
+    }
+    if (opts.holdMs) await sleep(opts.holdMs);
+    await this.dispatchTouchEvent(tabId, 'touchEnd', []);
+  }
+
   static modifierMask(mods: string[]): number {
     const map: Record<string, number> = {
       alt: 1,
@@ -288,6 +389,11 @@ class ComputerTool extends BaseBrowserToolExecutor {
       resize_page: 'other',
       scroll_to: 'scroll',
       zoom: 'other',
+      tap: 'click',
+      long_press: 'click',
+      swipe: 'drag',
+      pinch: 'other',
+      touch_gesture: 'other',
     };
     return mapping[action] || null;
   }
@@ -926,6 +1032,151 @@ class ComputerTool extends BaseBrowserToolExecutor {
           );
         }
       }
+      case 'tap':
+      case 'long_press':
+      case 'swipe': {
+        const isSwipe = params.action === 'swipe';
+        const stale = this.checkScreenshotDomain(
+          tab,
+          params.action,
+          isSwipe ? params.startCoordinates || params.coordinates : params.coordinates,
+        );
+        if (stale) return stale;
+        const end = await this.resolvePoint(tab.id, params.ref, params.coordinates, project);
+        const start = isSwipe
+          ? await this.resolvePoint(tab.id, params.startRef, params.startCoordinates, project)
+          : end;
+        if (!start || !end) {
+          return createErrorResponse(
+            isSwipe
+              ? 'Provide startRef or startCoordinates and ref or coordinates for swipe'
+              : `Provide ref or coordinates for ${params.action}`,
+          );
+        }
+        const pointerType: PointerType = params.pointerType === 'pen' ? 'pen' : 'touch';
+        const durationMs = this.gestureMs(params.duration, SWIPE_DEFAULT_MS);
+        const holdMs =
+          params.action === 'long_press'
+            ? this.gestureMs(params.duration, LONG_PRESS_DEFAULT_MS)
+            : 0;
+        try {
+          await CDPHelper.attach(tab.id);
+          await CDPHelper.stroke(tab.id, [{ start, end }], {
+            durationMs: isSwipe ? durationMs : 0,
+            holdMs,
+            pointerType,
+          });
+          await CDPHelper.detach(tab.id);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  action: params.action,
+                  pointerType,
+                  ...(isSwipe ? { start, end, durationMs } : { coordinates: end }),
+                  ...(holdMs ? { holdMs } : {}),
+                }),
+              },
+            ],
+            isError: false,
+          };
+        } catch (e) {
+          await CDPHelper.detach(tab.id);
+          return createErrorResponse(
+            `${params.action} failed: ${e instanceof Error ? e.message : String(e)}`,
+          );
+        }
+      }
+      case 'pinch': {
+        const scaleFactor = Number(params.scaleFactor);
+        if (!Number.isFinite(scaleFactor) || scaleFactor <= 0)
+          return createErrorResponse('scaleFactor (> 0) is required for pinch');
+        const stale = this.checkScreenshotDomain(tab, 'pinch', params.coordinates);
+        if (stale) return stale;
+        const center = await this.resolvePoint(tab.id, params.ref, params.coordinates, project);
+        if (!center) return createErrorResponse('Provide ref or coordinates for pinch');
+        try {
+          await CDPHelper.attach(tab.id);
+          await CDPHelper.send(tab.id, 'Input.synthesizePinchGesture', {
+            x: Math.round(center.x),
+            y: Math.round(center.y),
+            scaleFactor,
+            gestureSourceType: 'touch',
+          });
+          await CDPHelper.detach(tab.id);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  action: 'pinch',
+                  coordinates: center,
+                  scaleFactor,
+                }),
+              },
+            ],
+            isError: false,
+          };
+        } catch (e) {
+          await CDPHelper.detach(tab.id);
+          return createErrorResponse(`Pinch failed: ${e instanceof Error ? e.message : String(e)}`);
+        }
+      }
+      case 'touch_gesture': {
+        const touches = Array.isArray(params.touches) ? params.touches : [];
+        if (touches.length === 0 || touches.length > GESTURE_MAX_TOUCHES)
+          return createErrorResponse(
+            `touches must list 1-${GESTURE_MAX_TOUCHES} strokes ({ start, end? }) for touch_gesture`,
+          );
+        const valid = (c?: Coordinates) =>
+          !!c && Number.isFinite(Number(c.x)) && Number.isFinite(Number(c.y));
+        if (
+          touches.some(
+            (t) => (!t?.ref && !valid(t?.start)) || (t.end !== undefined && !valid(t.end)),
+          )
+        )
+          return createErrorResponse(
+            'Each touch needs ref or start {x, y} and optionally end {x, y}',
+          );
+        const screenshotPoint = touches
+          .flatMap((t) => [t.ref ? undefined : t.start, t.end])
+          .find(Boolean);
+        const stale = this.checkScreenshotDomain(tab, 'touch_gesture', screenshotPoint);
+        if (stale) return stale;
+        const strokes: TouchStroke[] = [];
+        for (const t of touches) {
+          const start = await this.resolvePoint(tab.id, t.ref, t.start, project);
+          strokes.push({ start: start!, end: t.end ? project(t.end)! : undefined });
+        }
+        const durationMs = this.gestureMs(params.duration, SWIPE_DEFAULT_MS);
+        try {
+          await CDPHelper.attach(tab.id);
+          await CDPHelper.stroke(tab.id, strokes, { durationMs });
+          await CDPHelper.detach(tab.id);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  action: 'touch_gesture',
+                  touches: strokes,
+                  durationMs,
+                }),
+              },
+            ],
+            isError: false,
+          };
+        } catch (e) {
+          await CDPHelper.detach(tab.id);
+          return createErrorResponse(
+            `Touch gesture failed: ${e instanceof Error ? e.message : String(e)}`,
+          );
+        }
+      }
       case 'type': {
         if (!params.text) return createErrorResponse('Text parameter is required for type action');
         try {
@@ -1399,6 +1650,61 @@ class ComputerTool extends BaseBrowserToolExecutor {
     }
   }
 
+  /**
+   * Viewport point of a gesture target: the ref's center (already in viewport
+   * space), else the coordinates projected from screenshot space
+   */
+  private async resolvePoint(
+    tabId: number,
+    ref: string | undefined,
+    coordinates: Coordinates | undefined,
+    project: (c?: Coordinates) => Coordinates | undefined,
+  ): Promise<Coordinates | undefined> {
+    if (!ref) return project(coordinates);
+    await this.injectContentScript(tabId, ['inject-scripts/accessibility-tree-helper.js']);
+    const resolved = await this.sendMessageToTab(tabId, {
+      action: TOOL_MESSAGE_TYPES.RESOLVE_REF,
+      ref,
+    });
+    if (!resolved || !resolved.success) {
+      throw new Error(resolved?.error || `ref "${ref}" not found or expired`);
+    }
+    return { x: resolved.center.x, y: resolved.center.y };
+  }
+
+  /**
+   * Coordinates from an old screenshot must not be replayed on another site
+   */
+  private checkScreenshotDomain(
+    tab: chrome.tabs.Tab,
+    action: string,
+    coordinates?: Coordinates,
+  ): ToolResult | null {
+    if (!coordinates) return null;
+    const getHostname = (url: string): string => {
+      try {
+        return new URL(url).hostname;
+      } catch {
+        return '';
+      }
+    };
+    const currentHostname = getHostname(tab.url || '');
+    const ctx = screenshotContextManager.getContext(tab.id!);
+    const contextHostname = (ctx as any)?.hostname as string | undefined;
+    if (contextHostname && contextHostname !== currentHostname) {
+      return createErrorResponse(
+        `Security check failed: Domain changed since last screenshot (from ${contextHostname} to ${currentHostname}) during ${action}. Capture a new screenshot or use ref/selector.`,
+      );
+    }
+    return null;
+  }
+
+  /** Gesture length from `duration` (seconds), clamped */
+  private gestureMs(duration: number | undefined, fallbackMs: number): number {
+    const ms = typeof duration === 'number' && duration >= 0 ? duration * 1000 : fallbackMs;
+    return Math.min(Math.round(ms), GESTURE_MAX_MS);
+  }
+
   /**
    * Trigger GIF auto-capture after a successful action.
    * This is a no-op if auto-capture is not active.
@@ -179,6 +179,13 @@ class ConsoleBuffer {
     return promise;
   }
 
+  /**
+   * 停止指定 tab 的 buffer 捕获并释放调试器会话
+   */
+  async stop(tabId: number, reason: string = 'manual'): Promise<void> {
+    await this.stopCapture(tabId, reason);
+  }
+
   /**
    * 清空指定 tab 的缓冲区
    */
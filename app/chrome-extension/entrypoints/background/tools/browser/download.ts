@@ -1,4 +1,9 @@
-import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import {
+  createErrorResponse,
+  ToolCancelledError,
+  ToolExecutionContext,
+  ToolResult,
+} from '@/common/tool-handler';
 import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
 
@@ -14,18 +19,26 @@ interface HandleDownloadParams {
 class HandleDownloadTool extends BaseBrowserToolExecutor {
   name = TOOL_NAMES.BROWSER.HANDLE_DOWNLOAD as any;
 
-  async execute(args: HandleDownloadParams): Promise<ToolResult> {
+  async execute(args: HandleDownloadParams, context?: ToolExecutionContext): Promise<ToolResult> {
     const filenameContains = String(args?.filenameContains || '').trim();
     const waitForComplete = args?.waitForComplete !== false;
     const timeoutMs = Math.max(1000, Math.min(Number(args?.timeoutMs ?? 60000), 300000));
 
     try {
-      const result = await waitForDownload({ filenameContains, waitForComplete, timeoutMs });
+      const result = await waitForDownload({
+        filenameContains,
+        waitForComplete,
+        timeoutMs,
+        signal: context?.signal,
+        onBytes: (received, total) =>
+          this.reportProgress(context, received, total, `Downloaded ${received} bytes`),
+      });
       return {
         content: [{ type: 'text', text: JSON.stringify({ success: true, download: result }) }],
         isError: false,
       };
     } catch (e: any) {
+      if (e instanceof ToolCancelledError) throw e;
       return createErrorResponse(`Handle download failed: ${e?.message || String(e)}`);
     }
   }
@@ -35,10 +48,17 @@ async function waitForDownload(opts: {
   filenameContains?: string;
   waitForComplete: boolean;
   timeoutMs: number;
+  signal?: AbortSignal;
+  onBytes?: (received: number, total?: number) => void;
 }) {
-  const { filenameContains, waitForComplete, timeoutMs } = opts;
+  const { filenameContains, waitForComplete, timeoutMs, signal, onBytes } = opts;
   return new Promise<any>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ToolCancelledError());
+      return;
+    }
     let timer: any = null;
+    const onAbort = () => onError(new ToolCancelledError());
     const onError = (err: any) => {
       cleanup();
       reject(err instanceof Error ? err : new Error(String(err)));
@@ -53,6 +73,7 @@ async function waitForDownload(opts: {
       try {
         chrome.downloads.onChanged.removeListener(onChanged);
       } catch {}
+      signal?.removeEventListener('abort', onAbort);
     };
     const matches = (item: chrome.downloads.DownloadItem) => {
       if (!filenameContains) return true;
@@ -101,6 +122,9 @@ async function waitForDownload(opts: {
             const item = arr && arr[0];
             if (!item) return;
             if (!matches(item)) return;
+            if (item.state === 'in_progress' && item.bytesReceived > 0) {
+              onBytes?.(item.bytesReceived, item.totalBytes > 0 ? item.totalBytes : undefined);
+            }
             if (waitForComplete && item.state === 'complete') fulfill(item);
           })
           .catch(() => {});
@@ -108,6 +132,7 @@ async function waitForDownload(opts: {
     };
     chrome.downloads.onCreated.addListener(onCreated);
     chrome.downloads.onChanged.addListener(onChanged);
+    signal?.addEventListener('abort', onAbort, { once: true });
     timer = setTimeout(() => onError(new Error('Download wait timed out')), timeoutMs);
     // Try to find an already-running matching download
     chrome.downloads
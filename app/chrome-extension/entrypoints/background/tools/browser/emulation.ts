@@ -0,0 +1,534 @@
+/**
+ * Emulation Tool - CDP Emulation / Network domains
+ *
+ * Emulate a device or environment in a tab: viewport and device presets, user
+ * agent, touch, geolocation, timezone, locale, prefers-color-scheme,
+ * prefers-reduced-motion, CPU throttling and network throttling/offline.
+ *
+ * CDP overrides only live as long as the debugger session, so the tool keeps
+ * its own session (owner `emulation`) open on every tab with overrides and
+ * tracks what it changed. `reset` clears them and releases the session.
+ */
+
+import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import { BaseBrowserToolExecutor } from '../base-browser';
+import { TOOL_NAMES } from 'chrome-mcp-shared';
+import { cdpSessionManager } from '@/utils/cdp-session-manager';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CDP_SESSION_KEY = 'emulation';
+
+const ACTIONS = ['set', 'reset', 'status', 'list_devices'] as const;
+
+const CONTROLS = [
+  'viewport',
+  'userAgent',
+  'touch',
+  'geolocation',
+  'timezone',
+  'locale',
+  'colorScheme',
+  'reducedMotion',
+  'cpuThrottling',
+  'network',
+] as const;
+
+const MAX_CPU_THROTTLING_RATE = 20;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type EmulationAction = (typeof ACTIONS)[number];
+type EmulationControl = (typeof CONTROLS)[number];
+
+interface Viewport {
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+  mobile: boolean;
+}
+
+interface Geolocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+}
+
+interface NetworkProfile {
+  offline: boolean;
+  latencyMs: number;
+  /** -1 disables the limit */
+  downloadKbps: number;
+  uploadKbps: number;
+}
+
+interface EmulationSettings {
+  viewport?: Viewport;
+  userAgent?: string;
+  touch?: boolean;
+  geolocation?: Geolocation;
+  timezone?: string;
+  locale?: string;
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+  reducedMotion?: 'reduce' | 'no-preference';
+  /** Slowdown factor, 1 = none */
+  cpuThrottling?: number;
+  network?: NetworkProfile;
+}
+
+interface DevicePreset {
+  label: string;
+  viewport: Viewport;
+  userAgent?: string;
+  touch: boolean;
+}
+
+/** A control set to null is cleared */
+type EmulationParams = {
+  action: EmulationAction;
+  tabId?: number;
+  device?: string;
+  /** Controls to clear on reset (default: all) */
+  controls?: EmulationControl[];
+  network?: string | Partial<NetworkProfile> | null;
+} & {
+  [K in Exclude<EmulationControl, 'network'>]?: EmulationSettings[K] | null;
+};
+
+interface TabEmulation {
+  device?: string;
+  settings: EmulationSettings;
+}
+
+// ============================================================================
+// Presets
+// ============================================================================
+
+const IOS_UA =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+const IPAD_UA =
+  'Mozilla/5.0 (iPad; CPU OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+const ANDROID_UA =
+  'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36';
+
+export const DEVICE_PRESETS: Readonly<Record<string, DevicePreset>> = {
+  'iphone-15': {
+    label: 'iPhone 15',
+    viewport: { width: 393, height: 852, deviceScaleFactor: 3, mobile: true },
+    userAgent: IOS_UA,
+    touch: true,
+  },
+  'iphone-se': {
+    label: 'iPhone SE',
+    viewport: { width: 375, height: 667, deviceScaleFactor: 2, mobile: true },
+    userAgent: IOS_UA,
+    touch: true,
+  },
+  'pixel-8': {
+    label: 'Pixel 8',
+    viewport: { width: 412, height: 915, deviceScaleFactor: 2.625, mobile: true },
+    userAgent: ANDROID_UA,
+    touch: true,
+  },
+  'ipad-air': {
+    label: 'iPad Air',
+    viewport: { width: 820, height: 1180, deviceScaleFactor: 2, mobile: true },
+    userAgent: IPAD_UA,
+    touch: true,
+  },
+  laptop: {
+    label: 'Laptop 1366x768',
+    viewport: { width: 1366, height: 768, deviceScaleFactor: 1, mobile: false },
+    touch: false,
+  },
+  desktop: {
+    label: 'Desktop 1920x1080',
+    viewport: { width: 1920, height: 1080, deviceScaleFactor: 1, mobile: false },
+    touch: false,
+  },
+};
+
+/** Same figures as the DevTools throttling presets */
+export const NETWORK_PRESETS: Readonly<Record<string, NetworkProfile>> = {
+  offline: { offline: true, latencyMs: 0, downloadKbps: 0, uploadKbps: 0 },
+  'slow-3g': { offline: false, latencyMs: 2000, downloadKbps: 400, uploadKbps: 400 },
+  'fast-3g': { offline: false, latencyMs: 563, downloadKbps: 1600, uploadKbps: 750 },
+  '4g': { offline: false, latencyMs: 165, downloadKbps: 9000, uploadKbps: 1500 },
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function finite(value: unknown, name: string, min: number, max: number): number {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min || n > max) {
+    throw new Error(`${name} must be a number between ${min} and ${max}`);
+  }
+  return n;
+}
+
+function normalizeNetwork(value: string | Partial<NetworkProfile>): NetworkProfile {
+  if (typeof value === 'string') {
+    const preset = NETWORK_PRESETS[value];
+    if (!preset) {
+      throw new Error(
+        `Unknown network preset "${value}". Use: ${Object.keys(NETWORK_PRESETS).join(', ')}`,
+      );
+    }
+    return { ...preset };
+  }
+  return {
+    offline: value.offline === true,
+    latencyMs: finite(value.latencyMs ?? 0, 'network.latencyMs', 0, 60_000),
+    downloadKbps: value.downloadKbps === undefined ? -1 : Number(value.downloadKbps),
+    uploadKbps: value.uploadKbps === undefined ? -1 : Number(value.uploadKbps),
+  };
+}
+
+/**
+ * Validate the requested controls. Returns the new values, with null for the
+ * ones to clear.
+ */
+function parseChanges(params: EmulationParams): Partial<Record<EmulationControl, unknown>> {
+  const changes: Partial<Record<EmulationControl, unknown>> = {};
+
+  if (params.device !== undefined) {
+    const preset = DEVICE_PRESETS[params.device];
+    if (!preset) {
+      throw new Error(
+        `Unknown device "${params.device}". Use: ${Object.keys(DEVICE_PRESETS).join(', ')}`,
+      );
+    }
+    changes.viewport = { ...preset.viewport };
+    changes.userAgent = preset.userAgent ?? null;
+    changes.touch = preset.touch || null;
+  }
+
+  for (const control of CONTROLS) {
+    if (!(control in params)) continue;
+    const value = params[control];
+    if (value === null) {
+      changes[control] = null;
+      continue;
+    }
+    if (value === undefined) continue;
+
+    switch (control) {
+      case 'viewport': {
+        const v = value as Partial<Viewport>;
+        changes.viewport = {
+          width: Math.round(finite(v.width, 'viewport.width', 1, 10_000)),
+          height: Math.round(finite(v.height, 'viewport.height', 1, 10_000)),
+          deviceScaleFactor: finite(v.deviceScaleFactor ?? 1, 'viewport.deviceScaleFactor', 0, 10),
+          mobile: v.mobile === true,
+        };
+        break;
+      }
+      case 'userAgent':
+        if (typeof value !== 'string' || !value.trim()) throw new Error('userAgent must be text');
+        changes.userAgent = value.trim();
+        break;
+      case 'touch':
+        changes.touch = value === true || null;
+        break;
+      case 'geolocation': {
+        const g = value as Partial<Geolocation>;
+        changes.geolocation = {
+          latitude: finite(g.latitude, 'geolocation.latitude', -90, 90),
+          longitude: finite(g.longitude, 'geolocation.longitude', -180, 180),
+          accuracy: finite(g.accuracy ?? 100, 'geolocation.accuracy', 0, 1_000_000),
+        };
+        break;
+      }
+      case 'timezone':
+        try {
+          new Intl.DateTimeFormat('en-US', { timeZone: String(value) });
+        } catch {
+          throw new Error(`Unknown timezone "${value}" (use an IANA name like Europe/Berlin)`);
+        }
+        changes.timezone = String(value);
+        break;
+      case 'locale':
+        try {
+          changes.locale = Intl.getCanonicalLocales(String(value))[0];
+        } catch {
+          throw new Error(`Invalid locale "${value}" (use a BCP 47 tag like de-DE)`);
+        }
+        break;
+      case 'colorScheme':
+        if (!['light', 'dark', 'no-preference'].includes(String(value))) {
+          throw new Error('colorScheme must be light, dark or no-preference');
+        }
+        changes.colorScheme = value;
+        break;
+      case 'reducedMotion':
+        if (!['reduce', 'no-preference'].includes(String(value))) {
+          throw new Error('reducedMotion must be reduce or no-preference');
+        }
+        changes.reducedMotion = value;
+        break;
+      case 'cpuThrottling': {
+        const rate = finite(value, 'cpuThrottling', 1, MAX_CPU_THROTTLING_RATE);
+        changes.cpuThrottling = rate === 1 ? null : rate;
+        break;
+      }
+      case 'network':
+        changes.network = normalizeNetwork(value as string | Partial<NetworkProfile>);
+        break;
+    }
+  }
+
+  return changes;
+}
+
+function kbpsToBytesPerSecond(kbps: number): number {
+  return kbps < 0 ? -1 : Math.round((kbps * 1000) / 8);
+}
+
+// ============================================================================
+// Tool
+// ============================================================================
+
+class EmulationTool extends BaseBrowserToolExecutor {
+  name = TOOL_NAMES.BROWSER.EMULATE;
+
+  /** Overrides applied by this tool, per tab */
+  private tabs = new Map<number, TabEmulation>();
+  private listening = false;
+
+  async execute(args: EmulationParams): Promise<ToolResult> {
+    const params = args || ({} as EmulationParams);
+    const action = params.action ?? 'set';
+    if (!ACTIONS.includes(action)) {
+      return createErrorResponse(`action must be one of: ${ACTIONS.join(', ')}`);
+    }
+
+    if (action === 'list_devices') {
+      return this.result({
+        devices: Object.entries(DEVICE_PRESETS).map(([id, preset]) => ({
+          id,
+          label: preset.label,
+          ...preset.viewport,
+          touch: preset.touch,
+        })),
+        networkPresets: Object.keys(NETWORK_PRESETS),
+      });
+    }
+
+    try {
+      const tab =
+        typeof params.tabId === 'number'
+          ? await this.tryGetTab(params.tabId)
+          : await this.getActiveTabOrThrow();
+      if (!tab?.id) return createErrorResponse(`Tab ${params.tabId} not found`);
+      const tabId = tab.id;
+
+      switch (action) {
+        case 'status':
+          return this.result(this.describe(tabId));
+        case 'reset':
+          await this.reset(tabId, params.controls);
+          return this.result(this.describe(tabId));
+        case 'set':
+          await this.apply(tabId, params);
+          return this.result(this.describe(tabId));
+      }
+    } catch (error) {
+      return createErrorResponse(
+        `Emulation ${action} failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // State
+  // ---------------------------------------------------------------------------
+
+  private describe(tabId: number) {
+    const state = this.tabs.get(tabId);
+    return {
+      tabId,
+      active: !!state,
+      device: state?.device ?? null,
+      overrides: state?.settings ?? {},
+    };
+  }
+
+  private result(payload: Record<string, unknown>): ToolResult {
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ success: true, ...payload }) }],
+      isError: false,
+    };
+  }
+
+  /**
+   * Forget a tab whose session went away (closed, or the debugger was detached)
+   */
+  private ensureListeners(): void {
+    if (this.listening) return;
+    this.listening = true;
+    chrome.tabs.onRemoved.addListener((tabId) => {
+      if (!this.tabs.delete(tabId)) return;
+      void cdpSessionManager.detach(tabId, CDP_SESSION_KEY);
+    });
+    chrome.debugger.onDetach.addListener((source) => {
+      if (typeof source.tabId !== 'number' || !this.tabs.delete(source.tabId)) return;
+      void cdpSessionManager.detach(source.tabId, CDP_SESSION_KEY);
+    });
+  }
+
+  private async apply(tabId: number, params: EmulationParams): Promise<void> {
+    const changes = parseChanges(params);
+    const controls = Object.keys(changes) as EmulationControl[];
+    if (controls.length === 0) {
+      throw new Error('Nothing to emulate: pass a device or at least one control');
+    }
+
+    this.ensureListeners();
+    let state = this.tabs.get(tabId);
+    if (!state) {
+      await cdpSessionManager.attach(tabId, CDP_SESSION_KEY);
+      state = { settings: {} };
+      this.tabs.set(tabId, state);
+    }
+
+    const settings = state.settings as Record<string, unknown>;
+    for (const control of controls) {
+      if (changes[control] === null) delete settings[control];
+      else settings[control] = changes[control];
+    }
+    if (params.device !== undefined) state.device = params.device;
+    else if (controls.some((c) => c === 'viewport' || c === 'userAgent' || c === 'touch')) {
+      state.device = undefined;
+    }
+
+    await this.sendOverrides(tabId, state.settings, controls);
+
+    if (Object.keys(state.settings).length === 0) {
+      await this.release(tabId);
+    }
+  }
+
+  private async reset(tabId: number, controls?: EmulationControl[]): Promise<void> {
+    const state = this.tabs.get(tabId);
+    if (!state) return;
+
+    const targets = controls?.length ? controls : CONTROLS;
+    const unknown = targets.find((c) => !CONTROLS.includes(c));
+    if (unknown) {
+      throw new Error(`Unknown control "${unknown}". Use: ${CONTROLS.join(', ')}`);
+    }
+    const settings = state.settings as Record<string, unknown>;
+    for (const control of targets) delete settings[control];
+    if (targets.some((c) => c === 'viewport' || c === 'userAgent' || c === 'touch')) {
+      state.device = undefined;
+    }
+
+    if (Object.keys(state.settings).length === 0) {
+      // Detaching drops every override at once
+      await this.release(tabId);
+      return;
+    }
+    await this.sendOverrides(tabId, state.settings, [...targets]);
+  }
+
+  private async release(tabId: number): Promise<void> {
+    this.tabs.delete(tabId);
+    await cdpSessionManager.detach(tabId, CDP_SESSION_KEY);
+  }
+
+  // ---------------------------------------------------------------------------
+  // CDP
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Send the commands for the given controls, using the tab's current settings
+   * (controls missing from the settings are cleared)
+   */
+  private async sendOverrides(
+    tabId: number,
+    settings: EmulationSettings,
+    controls: EmulationControl[],
+  ): Promise<void> {
+    const send = (method: string, params?: object) =>
+      cdpSessionManager.sendCommand(tabId, method, params);
+    const touched = new Set(controls);
+
+    if (touched.has('viewport')) {
+      const v = settings.viewport;
+      if (v) {
+        await send('Emulation.setDeviceMetricsOverride', {
+          ...v,
+          screenWidth: v.width,
+          screenHeight: v.height,
+        });
+      } else {
+        await send('Emulation.clearDeviceMetricsOverride');
+      }
+    }
+
+    if (touched.has('userAgent') || touched.has('locale')) {
+      // An empty user agent removes the override; the locale also sets Accept-Language
+      await send('Emulation.setUserAgentOverride', {
+        userAgent: settings.userAgent ?? (settings.locale ? navigator.userAgent : ''),
+        ...(settings.locale ? { acceptLanguage: settings.locale } : {}),
+      });
+    }
+
+    if (touched.has('locale')) {
+      await send('Emulation.setLocaleOverride', settings.locale ? { locale: settings.locale } : {});
+    }
+
+    if (touched.has('touch')) {
+      await send('Emulation.setTouchEmulationEnabled', {
+        enabled: settings.touch === true,
+        ...(settings.touch ? { maxTouchPoints: 5 } : {}),
+      });
+    }
+
+    if (touched.has('geolocation')) {
+      if (settings.geolocation) {
+        await send('Emulation.setGeolocationOverride', settings.geolocation);
+      } else {
+        await send('Emulation.clearGeolocationOverride');
+      }
+    }
+
+    if (touched.has('timezone')) {
+      await send('Emulation.setTimezoneOverride', { timezoneId: settings.timezone ?? '' });
+    }
+
+    if (touched.has('colorScheme') || touched.has('reducedMotion')) {
+      const features: Array<{ name: string; value: string }> = [];
+      if (settings.colorScheme) {
+        features.push({ name: 'prefers-color-scheme', value: settings.colorScheme });
+      }
+      if (settings.reducedMotion) {
+        features.push({ name: 'prefers-reduced-motion', value: settings.reducedMotion });
+      }
+      await send('Emulation.setEmulatedMedia', { features });
+    }
+
+    if (touched.has('cpuThrottling')) {
+      await send('Emulation.setCPUThrottlingRate', { rate: settings.cpuThrottling ?? 1 });
+    }
+
+    if (touched.has('network')) {
+      const n = settings.network;
+      await send('Network.enable');
+      await send('Network.emulateNetworkConditions', {
+        offline: n?.offline ?? false,
+        latency: n?.latencyMs ?? 0,
+        downloadThroughput: n ? kbpsToBytesPerSecond(n.downloadKbps) : -1,
+        uploadThroughput: n ? kbpsToBytesPerSecond(n.uploadKbps) : -1,
+      });
+    }
+  }
+}
+
+export const emulationTool = new EmulationTool();
@@ -0,0 +1,305 @@
+/**
+ * Export Page Tool - CDP Page.printToPDF / Page.captureSnapshot
+ *
+ * Archive the rendered state of a tab (including authenticated pages) as PDF or
+ * MHTML. The file is saved via chrome.downloads and/or returned inline as
+ * base64, together with a SHA-256 of its bytes so the copy can be verified later.
+ * The target tab is resolved like `chrome_screenshot` (tabId, else the active
+ * tab of windowId / the current window).
+ */
+
+import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import { BaseBrowserToolExecutor } from '../base-browser';
+import { TOOL_NAMES } from 'chrome-mcp-shared';
+import { cdpSessionManager } from '@/utils/cdp-session-manager';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CDP_SESSION_KEY = 'export-page';
+
+/** Larger exports must be saved to a file */
+const MAX_INLINE_BYTES = 10 * 1024 * 1024;
+
+/** Paper sizes in inches (width x height, portrait) */
+const PAPER_FORMATS: Readonly<Record<string, { width: number; height: number }>> = {
+  letter: { width: 8.5, height: 11 },
+  legal: { width: 8.5, height: 14 },
+  tabloid: { width: 11, height: 17 },
+  a3: { width: 11.69, height: 16.54 },
+  a4: { width: 8.27, height: 11.69 },
+  a5: { width: 5.83, height: 8.27 },
+};
+
+/** How long to wait for Chrome to pick the saved file's path */
+const DOWNLOAD_PATH_TIMEOUT_MS = 2000;
+
+const FORMATS = {
+  pdf: { mimeType: 'application/pdf', extension: 'pdf' },
+  mhtml: { mimeType: 'multipart/related', extension: 'mhtml' },
+} as const;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type ExportFormat = keyof typeof FORMATS;
+
+interface PdfMargins {
+  top?: number;
+  right?: number;
+  bottom?: number;
+  left?: number;
+}
+
+interface ExportPageParams {
+  format?: ExportFormat;
+  tabId?: number;
+  windowId?: number;
+  name?: string;
+  saveFile?: boolean;
+  storeBase64?: boolean;
+  // PDF only
+  paperFormat?: string;
+  paperWidth?: number;
+  paperHeight?: number;
+  landscape?: boolean;
+  printBackground?: boolean;
+  scale?: number;
+  margins?: PdfMargins;
+  pageRanges?: string;
+  headerTemplate?: string;
+  footerTemplate?: string;
+  preferCSSPageSize?: boolean;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
+
+async function sha256Hex(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(hash))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Full path of a download, once Chrome has picked it (undefined on timeout)
+ */
+function waitForDownloadPath(downloadId: number, timeoutMs: number): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    const finish = (path: string | undefined) => {
+      clearTimeout(timer);
+      chrome.downloads.onChanged.removeListener(onChanged);
+      resolve(path);
+    };
+    const onChanged = (delta: chrome.downloads.DownloadDelta) => {
+      if (delta.id === downloadId && delta.filename?.current) finish(delta.filename.current);
+    };
+    const timer = setTimeout(() => finish(undefined), timeoutMs);
+    chrome.downloads.onChanged.addListener(onChanged);
+    // The path may already be set before the listener was added
+    chrome.downloads
+      .search({ id: downloadId })
+      .then(([item]) => {
+        if (item?.filename) finish(item.filename);
+      })
+      .catch(() => {});
+  });
+}
+
+/**
+ * Build Page.printToPDF parameters (sizes in inches)
+ */
+function buildPrintOptions(args: ExportPageParams): Record<string, unknown> {
+  let paper = PAPER_FORMATS.letter;
+  if (args.paperFormat) {
+    const format = PAPER_FORMATS[args.paperFormat.toLowerCase()];
+    if (!format) {
+      throw new Error(
+        `Unknown paperFormat "${args.paperFormat}". Use: ${Object.keys(PAPER_FORMATS).join(', ')}`,
+      );
+    }
+    paper = format;
+  }
+  const paperWidth = args.paperWidth ?? paper.width;
+  const paperHeight = args.paperHeight ?? paper.height;
+  if (!(paperWidth > 0) || !(paperHeight > 0)) {
+    throw new Error('paperWidth and paperHeight must be positive (inches)');
+  }
+
+  const scale = args.scale ?? 1;
+  if (!(scale >= 0.1 && scale <= 2)) {
+    throw new Error('scale must be between 0.1 and 2');
+  }
+
+  const margins = args.margins ?? {};
+  for (const side of ['top', 'right', 'bottom', 'left'] as const) {
+    const value = margins[side];
+    if (value !== undefined && !(value >= 0)) {
+      throw new Error(`margins.${side} must be a non-negative number (inches)`);
+    }
+  }
+
+  const displayHeaderFooter = !!(args.headerTemplate || args.footerTemplate);
+  return {
+    landscape: args.landscape === true,
+    printBackground: args.printBackground !== false,
+    scale,
+    paperWidth,
+    paperHeight,
+    marginTop: margins.top ?? 0.4,
+    marginRight: margins.right ?? 0.4,
+    marginBottom: margins.bottom ?? 0.4,
+    marginLeft: margins.left ?? 0.4,
+    ...(args.pageRanges ? { pageRanges: args.pageRanges } : {}),
+    displayHeaderFooter,
+    // An empty template hides the default one when only the other is given
+    ...(displayHeaderFooter
+      ? {
+          headerTemplate: args.headerTemplate ?? '<span></span>',
+          footerTemplate: args.footerTemplate ?? '<span></span>',
+        }
+      : {}),
+    preferCSSPageSize: args.preferCSSPageSize === true,
+  };
+}
+
+// ============================================================================
+// Tool
+// ============================================================================
+
+class ExportPageTool extends BaseBrowserToolExecutor {
+  name = TOOL_NAMES.BROWSER.EXPORT_PAGE;
+
+  async execute(args: ExportPageParams): Promise<ToolResult> {
+    const params = args || ({} as ExportPageParams);
+    const format = params.format ?? 'pdf';
+    if (!(format in FORMATS)) {
+      return createErrorResponse('format must be "pdf" or "mhtml"');
+    }
+    const saveFile = params.saveFile !== false;
+    const storeBase64 = params.storeBase64 === true;
+    if (!saveFile && !storeBase64) {
+      return createErrorResponse('Nothing to do: set saveFile and/or storeBase64');
+    }
+
+    // Resolve target tab (explicit or active), like chrome_screenshot
+    const explicit = await this.tryGetTab(params.tabId);
+    let tab: chrome.tabs.Tab;
+    try {
+      tab = explicit || (await this.getActiveTabOrThrowInWindow(params.windowId));
+    } catch (error) {
+      return createErrorResponse(error instanceof Error ? error.message : String(error));
+    }
+    if (
+      tab.url?.startsWith('chrome://') ||
+      tab.url?.startsWith('edge://') ||
+      tab.url?.startsWith('https://chrome.google.com/webstore') ||
+      tab.url?.startsWith('https://microsoftedge.microsoft.com/')
+    ) {
+      return createErrorResponse(
+        'Cannot export special browser pages or web store pages due to security restrictions.',
+      );
+    }
+    const tabId = tab.id!;
+
+    try {
+      const printOptions = format === 'pdf' ? buildPrintOptions(params) : null;
+      const capturedAt = new Date();
+
+      const bytes = await cdpSessionManager.withSession(tabId, CDP_SESSION_KEY, async () => {
+        if (printOptions) {
+          const result = await cdpSessionManager.sendCommand<{ data: string }>(
+            tabId,
+            'Page.printToPDF',
+            printOptions,
+          );
+          if (!result?.data) throw new Error('Page.printToPDF returned no data');
+          return base64ToBytes(result.data);
+        }
+        await cdpSessionManager.sendCommand(tabId, 'Page.enable');
+        const result = await cdpSessionManager.sendCommand<{ data: string }>(
+          tabId,
+          'Page.captureSnapshot',
+          { format: 'mhtml' },
+        );
+        if (!result?.data) throw new Error('Page.captureSnapshot returned no data');
+        return new TextEncoder().encode(result.data);
+      });
+
+      if (storeBase64 && bytes.length > MAX_INLINE_BYTES) {
+        return createErrorResponse(
+          `Export is ${bytes.length} bytes, too large to return inline (max ${MAX_INLINE_BYTES}). Use saveFile instead.`,
+        );
+      }
+
+      const { mimeType, extension } = FORMATS[format];
+      const base64 = bytesToBase64(bytes);
+      const output: Record<string, unknown> = {
+        success: true,
+        format,
+        mimeType,
+        url: tab.url,
+        title: tab.title,
+        capturedAt: capturedAt.toISOString(),
+        bytes: bytes.length,
+        sha256: await sha256Hex(bytes),
+        fileSaved: false,
+      };
+
+      if (saveFile) {
+        const timestamp = capturedAt.toISOString().replace(/[:.]/g, '-');
+        const filename = `${(params.name || 'page').replace(/[^a-z0-9_-]/gi, '_') || 'page'}_${timestamp}.${extension}`;
+        try {
+          const downloadId = await chrome.downloads.download({
+            url: `data:${mimeType};base64,${base64}`,
+            filename,
+            saveAs: false,
+          });
+          output.downloadId = downloadId;
+          output.filename = filename;
+          output.fileSaved = true;
+
+          const fullPath = await waitForDownloadPath(downloadId, DOWNLOAD_PATH_TIMEOUT_MS);
+          if (fullPath) output.fullPath = fullPath;
+        } catch (error) {
+          output.saveError = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      if (storeBase64) {
+        output.base64Data = base64;
+      }
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify(output) }],
+        isError: false,
+      };
+    } catch (error) {
+      return createErrorResponse(
+        `Page export failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+export const exportPageTool = new ExportPageTool();
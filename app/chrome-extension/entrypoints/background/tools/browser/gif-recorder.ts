@@ -13,7 +13,12 @@
  * - Offscreen document encoding via gifenc
  */
 
-import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import {
+  createErrorResponse,
+  ToolCancelledError,
+  ToolExecutionContext,
+  ToolResult,
+} from '@/common/tool-handler';
 import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
 import { TOOL_MESSAGE_TYPES } from '@/common/message-types';
@@ -616,7 +621,7 @@ function normalizePositiveInt(value: unknown, fallback: number, max?: number): n
 class GifRecorderTool extends BaseBrowserToolExecutor {
   name = TOOL_NAMES.BROWSER.GIF_RECORDER;
 
-  async execute(args: GifRecorderParams): Promise<ToolResult> {
+  async execute(args: GifRecorderParams, context?: ToolExecutionContext): Promise<ToolResult> {
     const action = args.action;
     const validActions = ['start', 'stop', 'status', 'auto_start', 'capture', 'clear', 'export'];
 
@@ -789,7 +794,9 @@ class GifRecorderTool extends BaseBrowserToolExecutor {
         }
 
         case 'stop': {
-          // Stop either mode
+          // Stop either mode; encoding and saving can take a while
+          this.reportProgress(context, 0, 2, 'Encoding GIF');
+
           // Check auto-capture first
           const autoTab = autoCaptureMetadata?.tabId;
           if (autoTab !== undefined && isAutoCaptureActive(autoTab)) {
@@ -824,7 +831,9 @@ class GifRecorderTool extends BaseBrowserToolExecutor {
               createdAt: Date.now(),
             };
 
-            // Save GIF file
+            // Save GIF file (the encoded GIF stays cached for export if this call is cancelled)
+            this.throwIfCancelled(context);
+            this.reportProgress(context, 1, 2, 'Saving GIF');
             const blob = new Blob([stopResult.gifData], { type: 'image/gif' });
             const dataUrl = await blobToDataUrl(blob);
 
@@ -851,6 +860,7 @@ class GifRecorderTool extends BaseBrowserToolExecutor {
               // Ignore
             }
 
+            this.reportProgress(context, 2, 2, 'GIF saved');
             return this.buildResponse({
               success: true,
               action: 'stop',
@@ -871,6 +881,7 @@ class GifRecorderTool extends BaseBrowserToolExecutor {
           if (result.success) {
             result.mode = 'fixed_fps';
           }
+          this.reportProgress(context, 2, 2, 'GIF saved');
           return this.buildResponse(result);
         }
 
@@ -1194,6 +1205,7 @@ class GifRecorderTool extends BaseBrowserToolExecutor {
           return createErrorResponse(`Unknown action: ${action}`);
       }
     } catch (error) {
+      if (error instanceof ToolCancelledError) throw error;
       console.error('GifRecorderTool.execute error:', error);
       return createErrorResponse(
         `GIF recorder error: ${error instanceof Error ? error.message : String(error)}`,
@@ -0,0 +1,397 @@
+/**
+ * HAR 1.2 helpers for the network tools
+ *
+ * - buildHar: turn the result of either capture backend (webRequest or debugger)
+ *   into a HAR log, restoring the headers the backends split into common/specific
+ * - parseHarForReplay: read a HAR back into entries that chrome_network_intercept
+ *   can serve with Fetch.fulfillRequest
+ *
+ * Bodies the capture truncated are left out of the HAR (with a comment) and never
+ * replayed: a partial body, base64 in particular, is not a valid response.
+ *
+ * Spec: http://www.softwareishard.com/blog/har-12-spec/
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const HAR_VERSION = '1.2';
+const CREATOR = { name: 'mcp-chrome', version: '1.0.0' };
+
+/** The served body is already decoded, so these would make the browser choke */
+const REPLAY_DROPPED_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding']);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarTimings {
+  blocked: number;
+  dns: number;
+  connect: number;
+  send: number;
+  wait: number;
+  receive: number;
+  ssl: number;
+}
+
+export interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: unknown[];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: unknown[];
+    headers: HarHeader[];
+    content: {
+      size: number;
+      mimeType: string;
+      text?: string;
+      encoding?: string;
+      /** The capture cut the body, so it was omitted */
+      _truncated?: boolean;
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _error?: string;
+  };
+  cache: Record<string, never>;
+  timings: HarTimings;
+  comment?: string;
+  _resourceType?: string;
+}
+
+export interface HarLog {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    pages: Array<{
+      startedDateTime: string;
+      id: string;
+      title: string;
+      pageTimings: { onContentLoad: number; onLoad: number };
+    }>;
+    entries: HarEntry[];
+  };
+}
+
+/** Subset of a captured request shared by both backends */
+interface CapturedRequest {
+  url: string;
+  method: string;
+  type?: string;
+  requestTime?: number;
+  responseTime?: number;
+  // webRequest
+  completedTime?: number;
+  responseSize?: number;
+  // debugger
+  wallTime?: number;
+  finishedTime?: number;
+  timing?: Record<string, number>;
+  protocol?: string;
+  encodedDataLength?: number;
+  base64Encoded?: boolean;
+  responseBodyTruncated?: boolean;
+  responseBodySize?: number;
+  // both
+  status?: number | string;
+  statusCode?: number;
+  statusText?: string;
+  mimeType?: string;
+  requestBody?: string;
+  responseBody?: string;
+  errorText?: string;
+  specificRequestHeaders?: Record<string, string>;
+  specificResponseHeaders?: Record<string, string>;
+}
+
+/** Stop result of a capture backend */
+export interface CaptureResult {
+  tabUrl?: string;
+  tabTitle?: string;
+  captureStartTime?: number;
+  commonRequestHeaders?: Record<string, string>;
+  commonResponseHeaders?: Record<string, string>;
+  requests?: CapturedRequest[];
+}
+
+export interface HarReplayEntry {
+  method: string;
+  url: string;
+  status: number;
+  headers: HarHeader[];
+  /** base64 */
+  body: string;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+function toHarHeaders(
+  common: Record<string, string> = {},
+  specific: Record<string, string> = {},
+): HarHeader[] {
+  return Object.entries({ ...common, ...specific }).map(([name, value]) => ({
+    name,
+    value: String(value),
+  }));
+}
+
+function queryString(url: string): HarHeader[] {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+function headerValue(headers: HarHeader[], name: string): string | undefined {
+  return headers.find((h) => h.name.toLowerCase() === name)?.value;
+}
+
+function httpVersion(protocol?: string): string {
+  if (!protocol) return 'HTTP/1.1';
+  return protocol.toLowerCase() === 'h2' ? 'HTTP/2' : protocol.toUpperCase();
+}
+
+function nonNegative(value: number): number {
+  return Number.isFinite(value) && value >= 0 ? Math.round(value * 1000) / 1000 : 0;
+}
+
+/**
+ * Phase durations in ms; -1 marks a phase that does not apply (HAR convention)
+ */
+function buildTimings(req: CapturedRequest): HarTimings {
+  const t = req.timing;
+  if (t && typeof t.requestTime === 'number') {
+    // ResourceTiming offsets are relative to t.requestTime (seconds)
+    const phase = (start: number, end: number) => (start >= 0 && end >= 0 ? end - start : -1);
+    const firstStart = [t.dnsStart, t.connectStart, t.sendStart].find((v) => v >= 0) ?? 0;
+    const headersEnd = t.requestTime * 1000 + t.receiveHeadersEnd;
+    return {
+      blocked: nonNegative(firstStart),
+      dns: phase(t.dnsStart, t.dnsEnd),
+      connect: phase(t.connectStart, t.connectEnd),
+      ssl: phase(t.sslStart, t.sslEnd),
+      send: nonNegative(t.sendEnd - t.sendStart),
+      wait: nonNegative(t.receiveHeadersEnd - t.sendEnd),
+      receive: req.finishedTime ? nonNegative(req.finishedTime - headersEnd) : 0,
+    };
+  }
+
+  // webRequest only knows when headers arrived and when the response completed
+  const wait = req.responseTime && req.requestTime ? req.responseTime - req.requestTime : 0;
+  const receive = req.completedTime && req.responseTime ? req.completedTime - req.responseTime : 0;
+  return {
+    blocked: -1,
+    dns: -1,
+    connect: -1,
+    ssl: -1,
+    send: 0,
+    wait: nonNegative(wait),
+    receive: nonNegative(receive),
+  };
+}
+
+function buildEntry(req: CapturedRequest, capture: CaptureResult): HarEntry {
+  const requestHeaders = toHarHeaders(capture.commonRequestHeaders, req.specificRequestHeaders);
+  const responseHeaders = toHarHeaders(capture.commonResponseHeaders, req.specificResponseHeaders);
+  const timings = buildTimings(req);
+  // Debugger requestTime is monotonic; wallTime carries the epoch
+  const started = req.wallTime ?? req.requestTime ?? capture.captureStartTime ?? Date.now();
+  // Failed requests have no response; HAR uses status 0 for them
+  const status = req.statusCode ?? (typeof req.status === 'number' ? req.status : 0);
+  const mimeType = req.mimeType || headerValue(responseHeaders, 'content-type') || '';
+  const version = httpVersion(req.protocol);
+
+  const content: HarEntry['response']['content'] = { size: 0, mimeType };
+  let comment: string | undefined;
+  if (req.responseBody !== undefined && req.responseBodyTruncated) {
+    const length = req.responseBodySize ?? req.responseBody.length;
+    content.size = req.base64Encoded ? Math.floor((length * 3) / 4) : length;
+    content._truncated = true;
+    comment = `Response body omitted: truncated during capture (${content.size} bytes)`;
+  } else if (req.responseBody !== undefined) {
+    content.text = req.responseBody;
+    if (req.base64Encoded) {
+      content.encoding = 'base64';
+      content.size = Math.floor((req.responseBody.length * 3) / 4);
+    } else {
+      content.size = new TextEncoder().encode(req.responseBody).length;
+    }
+  } else if (req.responseSize !== undefined) {
+    content.size = req.responseSize;
+  }
+
+  const entry: HarEntry = {
+    pageref: 'page_1',
+    startedDateTime: new Date(started).toISOString(),
+    time: Object.entries(timings)
+      .filter(([phase, value]) => phase !== 'ssl' && value > 0)
+      .reduce((sum, [, value]) => sum + value, 0),
+    request: {
+      method: req.method,
+      url: req.url,
+      httpVersion: version,
+      cookies: [],
+      headers: requestHeaders,
+      queryString: queryString(req.url),
+      headersSize: -1,
+      bodySize: req.requestBody ? new TextEncoder().encode(req.requestBody).length : 0,
+    },
+    response: {
+      status,
+      statusText: req.statusText || '',
+      httpVersion: version,
+      cookies: [],
+      headers: responseHeaders,
+      content,
+      redirectURL: headerValue(responseHeaders, 'location') || '',
+      headersSize: -1,
+      bodySize: req.encodedDataLength ?? req.responseSize ?? -1,
+    },
+    cache: {},
+    timings,
+  };
+  if (req.requestBody) {
+    entry.request.postData = {
+      mimeType: headerValue(requestHeaders, 'content-type') || '',
+      text: req.requestBody,
+    };
+  }
+  if (req.errorText) entry.response._error = req.errorText.trim();
+  if (comment) entry.comment = comment;
+  if (req.type) entry._resourceType = req.type;
+  return entry;
+}
+
+/**
+ * Build a HAR 1.2 log from a capture backend's stop result
+ */
+export function buildHar(capture: CaptureResult): HarLog {
+  const startedDateTime = new Date(capture.captureStartTime ?? Date.now()).toISOString();
+  return {
+    log: {
+      version: HAR_VERSION,
+      creator: CREATOR,
+      pages: [
+        {
+          startedDateTime,
+          id: 'page_1',
+          title: capture.tabTitle || capture.tabUrl || '',
+          pageTimings: { onContentLoad: -1, onLoad: -1 },
+        },
+      ],
+      entries: (capture.requests ?? []).map((req) => buildEntry(req, capture)),
+    },
+  };
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+export function utf8ToBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Read the servable entries of a HAR (object or JSON text). Entries without a
+ * real response (status 0, failed or blocked requests) or with a truncated body
+ * are skipped.
+ */
+export function parseHarForReplay(input: unknown): HarReplayEntry[] {
+  let har = input;
+  if (typeof har === 'string') {
+    try {
+      har = JSON.parse(har);
+    } catch {
+      throw new Error('har is not valid JSON');
+    }
+  }
+  const entries = (har as { log?: { entries?: unknown } } | null)?.log?.entries;
+  if (!Array.isArray(entries)) throw new Error('har must contain log.entries');
+
+  const result: HarReplayEntry[] = [];
+  for (const raw of entries as Array<Partial<HarEntry>>) {
+    const request = raw?.request;
+    const response = raw?.response;
+    if (!request?.url || !response || !(response.status >= 100)) continue;
+
+    const content = response.content;
+    if (content?._truncated) continue;
+    const text = content?.text ?? '';
+    const headers = (response.headers ?? []).filter(
+      (h) => h && typeof h.name === 'string' && !REPLAY_DROPPED_HEADERS.has(h.name.toLowerCase()),
+    );
+    if (content?.mimeType && !headerValue(headers, 'content-type')) {
+      headers.push({ name: 'Content-Type', value: content.mimeType });
+    }
+    result.push({
+      method: String(request.method || 'GET').toUpperCase(),
+      url: request.url,
+      status: response.status,
+      headers: headers.map((h) => ({ name: h.name, value: String(h.value ?? '') })),
+      body: content?.encoding === 'base64' ? text : utf8ToBase64(text),
+    });
+  }
+  if (result.length === 0) throw new Error('har has no entries with a response to replay');
+  return result;
+}
+
+function withoutQuery(url: string): string {
+  const index = url.indexOf('?');
+  return index < 0 ? url : url.slice(0, index);
+}
+
+/**
+ * Pick the entry to serve for a request: same method and URL, else same method
+ * and URL ignoring the query. Repeated requests walk through repeated entries in
+ * HAR order and then keep getting the last one.
+ */
+export function findHarEntry(
+  entries: HarReplayEntry[],
+  method: string,
+  url: string,
+  served: Map<string, number>,
+): HarReplayEntry | undefined {
+  const upper = method.toUpperCase();
+  let key = `${upper} ${url}`;
+  let candidates = entries.filter((e) => e.method === upper && e.url === url);
+  if (candidates.length === 0) {
+    const path = withoutQuery(url);
+    key = `${upper} ${path}?*`;
+    candidates = entries.filter((e) => e.method === upper && withoutQuery(e.url) === path);
+  }
+  if (candidates.length === 0) return undefined;
+  const count = served.get(key) ?? 0;
+  served.set(key, count + 1);
+  return candidates[Math.min(count, candidates.length - 1)];
+}
@@ -2,25 +2,31 @@ export { navigateTool, closeTabsTool, switchTabTool } from './common';
 export { windowTool } from './window';
 export { vectorSearchTabsContentTool as searchTabsContentTool } from './vector-search';
 export { screenshotTool } from './screenshot';
+export { exportPageTool } from './export-page';
+export { visualDiffTool } from './visual-diff';
 export { webFetcherTool, getInteractiveElementsTool } from './web-fetcher';
 export { clickTool, fillTool } from './interaction';
 export { elementPickerTool } from './element-picker';
 export { networkRequestTool } from './network-request';
 export { networkCaptureTool } from './network-capture';
+export { networkInterceptTool } from './network-intercept';
 // Legacy exports (for internal use by networkCaptureTool)
 export { networkDebuggerStartTool, networkDebuggerStopTool } from './network-capture-debugger';
 export { networkCaptureStartTool, networkCaptureStopTool } from './network-capture-web-request';
 export { keyboardTool } from './keyboard';
 export { historyTool } from './history';
 export { bookmarkSearchTool, bookmarkAddTool, bookmarkDeleteTool } from './bookmark';
+export { storageStateTool } from './storage-state';
 export { injectScriptTool, sendCommandToInjectScriptTool } from './inject-script';
 export { javascriptTool } from './javascript';
 export { consoleTool } from './console';
 export { fileUploadTool } from './file-upload';
 export { readPageTool } from './read-page';
+export { accessibilityTool } from './accessibility';
 export { computerTool } from './computer';
 export { handleDialogTool } from './dialog';
 export { handleDownloadTool } from './download';
+export { emulationTool } from './emulation';
 export { userscriptTool } from './userscript';
 export {
   performanceStartTraceTool,
@@ -3,6 +3,7 @@ import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
 import { TOOL_MESSAGE_TYPES } from '@/common/message-types';
 import { TIMEOUTS, ERROR_MESSAGES } from '@/common/constants';
+import { decodeFrameRef } from '../frame-refs';
 
 interface Coordinates {
   x: number;
@@ -70,7 +71,14 @@ class ClickTool extends BaseBrowserToolExecutor {
 
       // If selector is XPath, convert to ref first
       if (selector && selectorType === 'xpath') {
-        await this.injectContentScript(tab.id, ['inject-scripts/accessibility-tree-helper.js']);
+        await this.injectContentScript(
+          tab.id,
+          ['inject-scripts/accessibility-tree-helper.js'],
+          false,
+          'ISOLATED',
+          false,
+          typeof frameId === 'number' ? [frameId] : undefined,
+        );
         try {
           const resolved = await this.sendMessageToTab(
             tab.id,
@@ -96,7 +104,16 @@ class ClickTool extends BaseBrowserToolExecutor {
         }
       }
 
-      await this.injectContentScript(tab.id, ['inject-scripts/click-helper.js']);
+      // Frame-encoded refs route the click into their frame; the helper has to be there
+      const targetFrameId = frameId ?? (finalRef ? decodeFrameRef(finalRef).frameId : undefined);
+      await this.injectContentScript(
+        tab.id,
+        ['inject-scripts/click-helper.js'],
+        false,
+        'ISOLATED',
+        false,
+        typeof targetFrameId === 'number' ? [targetFrameId] : undefined,
+      );
 
       // Send click message to content script
       const result = await this.sendMessageToTab(
@@ -200,7 +217,14 @@ class FillTool extends BaseBrowserToolExecutor {
 
       // If selector is XPath, convert to ref first
       if (selector && selectorType === 'xpath') {
-        await this.injectContentScript(tab.id, ['inject-scripts/accessibility-tree-helper.js']);
+        await this.injectContentScript(
+          tab.id,
+          ['inject-scripts/accessibility-tree-helper.js'],
+          false,
+          'ISOLATED',
+          false,
+          typeof frameId === 'number' ? [frameId] : undefined,
+        );
         try {
           const resolved = await this.sendMessageToTab(
             tab.id,
@@ -226,7 +250,15 @@ class FillTool extends BaseBrowserToolExecutor {
         }
       }
 
-      await this.injectContentScript(tab.id, ['inject-scripts/fill-helper.js']);
+      const targetFrameId = frameId ?? (finalRef ? decodeFrameRef(finalRef).frameId : undefined);
+      await this.injectContentScript(
+        tab.id,
+        ['inject-scripts/fill-helper.js'],
+        false,
+        'ISOLATED',
+        false,
+        typeof targetFrameId === 'number' ? [targetFrameId] : undefined,
+      );
 
       // Send fill message to content script
       const result = await this.sendMessageToTab(
@@ -20,6 +20,10 @@ interface NetworkRequestInfo {
   responseHeaders?: Record<string, string>; // Will be removed after common headers extraction
   requestTime?: number; // Timestamp of the request
   responseTime?: number; // Timestamp of the response
+  finishedTime?: number; // Timestamp when loading finished
+  wallTime?: number; // Epoch milliseconds of the request (requestTime is monotonic)
+  timing?: Record<string, number>; // Network.ResourceTiming of the response
+  protocol?: string; // e.g. "http/1.1", "h2"
   type: string; // Resource type (e.g., Document, XHR, Fetch, Script, Stylesheet)
   status: string; // 'pending', 'complete', 'error'
   statusCode?: number;
@@ -27,6 +31,8 @@ interface NetworkRequestInfo {
   requestBody?: string;
   responseBody?: string;
   base64Encoded?: boolean; // For responseBody
+  responseBodyTruncated?: boolean; // responseBody was cut to MAX_RESPONSE_BODY_SIZE_BYTES
+  responseBodySize?: number; // Length of the full body when it was truncated
   encodedDataLength?: number; // Actual bytes received
   errorText?: string; // If loading failed
   canceled?: boolean; // If loading was canceled
@@ -119,6 +125,14 @@ class NetworkDebuggerStartTool extends BaseBrowserToolExecutor {
     }
   }
 
+  /**
+   * Ongoing capture of a tab (read-only view for other consumers)
+   * @param tabId Tab ID
+   */
+  public getCaptureInfo(tabId: number): any | undefined {
+    return this.captureData.get(tabId);
+  }
+
   /**
    * Start network request capture for specified tab
    * @param tabId Tab ID
@@ -337,7 +351,7 @@ class NetworkDebuggerStartTool extends BaseBrowserToolExecutor {
     const captureInfo = this.captureData.get(tabId);
     if (!captureInfo) return;
 
-    const { requestId, request, timestamp, type, loaderId, frameId } = params;
+    const { requestId, request, timestamp, wallTime, type, loaderId, frameId } = params;
 
     // Initial filtering by URL (ads, analytics) and extension (if !includeStatic)
     if (
@@ -364,6 +378,7 @@ class NetworkDebuggerStartTool extends BaseBrowserToolExecutor {
         method: request.method,
         requestHeaders: request.headers, // Temporary, will be processed
         requestTime: timestamp * 1000, // Convert seconds to milliseconds
+        wallTime: wallTime * 1000,
         type: type || 'Other',
         status: 'pending', // Initial status
         loaderId, // Useful for tracking redirects
@@ -381,6 +396,7 @@ class NetworkDebuggerStartTool extends BaseBrowserToolExecutor {
       const existingRequest = captureInfo.requests[requestId];
       existingRequest.url = request.url; // Update URL due to redirect
       existingRequest.requestTime = timestamp * 1000; // Update time for the redirected request
+      existingRequest.wallTime = wallTime * 1000;
       if (request.headers) existingRequest.requestHeaders = request.headers;
       if (request.postData) existingRequest.requestBody = request.postData;
       else delete existingRequest.requestBody;
@@ -420,6 +436,8 @@ class NetworkDebuggerStartTool extends BaseBrowserToolExecutor {
     requestInfo.responseHeaders = response.headers; // Temporary
     requestInfo.mimeType = response.mimeType;
     requestInfo.responseTime = timestamp * 1000; // Convert seconds to milliseconds
+    requestInfo.timing = response.timing;
+    requestInfo.protocol = response.protocol;
     if (type) requestInfo.type = type; // Update resource type if provided by this event
 
     // console.log(`NetworkDebuggerStartTool: Received response for ${requestId} on tab ${tabId}: ${response.status}`);
@@ -429,7 +447,7 @@ class NetworkDebuggerStartTool extends BaseBrowserToolExecutor {
     const captureInfo = this.captureData.get(tabId);
     if (!captureInfo) return;
 
-    const { requestId, encodedDataLength } = params;
+    const { requestId, encodedDataLength, timestamp } = params;
     const requestInfo: NetworkRequestInfo = captureInfo.requests[requestId];
 
     if (!requestInfo) {
@@ -438,6 +456,7 @@ class NetworkDebuggerStartTool extends BaseBrowserToolExecutor {
     }
 
     requestInfo.encodedDataLength = encodedDataLength;
+    requestInfo.finishedTime = timestamp * 1000;
     if (requestInfo.status === 'pending') requestInfo.status = 'complete'; // Mark as complete if not already
     // requestInfo.responseTime is usually set by responseReceived, but this timestamp is later.
     // timestamp here is when the resource finished loading. Could be useful for duration calculation.
@@ -451,9 +470,13 @@ class NetworkDebuggerStartTool extends BaseBrowserToolExecutor {
             responseBodyData.body &&
             responseBodyData.body.length > MAX_RESPONSE_BODY_SIZE_BYTES
           ) {
-            requestInfo.responseBody =
-              responseBodyData.body.substring(0, MAX_RESPONSE_BODY_SIZE_BYTES) +
-              `\n\n... [Response truncated, total size: ${responseBodyData.body.length} bytes] ...`;
+            // Flag instead of appending a marker: the body may be base64 and is exported to HAR
+            requestInfo.responseBody = responseBodyData.body.substring(
+              0,
+              MAX_RESPONSE_BODY_SIZE_BYTES,
+            );
+            requestInfo.responseBodyTruncated = true;
+            requestInfo.responseBodySize = responseBodyData.body.length;
           } else {
             requestInfo.responseBody = responseBodyData.body;
           }
@@ -62,6 +62,7 @@ interface NetworkRequestInfo {
   requestBody?: string;
   responseHeaders?: Record<string, string>;
   responseTime?: number;
+  completedTime?: number; // Timestamp when the response finished (for HAR timings)
   status?: number;
   statusText?: string;
   responseSize?: number;
@@ -459,6 +460,7 @@ class NetworkCaptureStartTool extends BaseBrowserToolExecutor {
       if (!captureInfo || !captureInfo.requests[details.requestId]) return;
 
       const requestInfo = captureInfo.requests[details.requestId];
+      requestInfo.completedTime = details.timeStamp;
       if ('responseSize' in details) {
         requestInfo.responseSize = details.fromCache ? 0 : (details as any).responseSize;
       }
@@ -559,7 +561,7 @@ class NetworkCaptureStartTool extends BaseBrowserToolExecutor {
    * @param tabId Tab ID
    * @param options Capture options
    */
-  private async startCaptureForTab(
+  public async startCaptureForTab(
     tabId: number,
     options: {
       maxCaptureTime: number;
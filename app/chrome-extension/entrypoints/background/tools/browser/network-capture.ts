@@ -3,6 +3,7 @@ import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
 import { networkCaptureStartTool, networkCaptureStopTool } from './network-capture-web-request';
 import { networkDebuggerStartTool, networkDebuggerStopTool } from './network-capture-debugger';
+import { buildHar, utf8ToBase64, type CaptureResult } from './har';
 
 type NetworkCaptureBackend = 'webRequest' | 'debugger';
 
@@ -13,6 +14,10 @@ interface NetworkCaptureToolParams {
   maxCaptureTime?: number;
   inactivityTimeout?: number;
   includeStatic?: boolean;
+  /** stop: "json" (default) returns the summary, "har" a HAR 1.2 log */
+  format?: 'json' | 'har';
+  /** stop with format "har": also download the HAR as a .har file */
+  saveFile?: boolean;
 }
 
 /**
@@ -148,11 +153,62 @@ class NetworkCaptureTool extends BaseBrowserToolExecutor {
       backendToStop === 'debugger' ? networkDebuggerStopTool : networkCaptureStopTool;
     const result = await delegateStop.execute();
 
+    if (args?.format === 'har' && !result.isError) {
+      return this.toHarResult(result, backendToStop, args.saveFile === true);
+    }
+
     return decorateJsonResult(result, {
       backend: backendToStop,
       needResponseBody: backendToStop === 'debugger',
     });
   }
+
+  /**
+   * Replace the summary of a stopped capture with a HAR 1.2 log
+   */
+  private async toHarResult(
+    result: ToolResult,
+    backend: NetworkCaptureBackend,
+    saveFile: boolean,
+  ): Promise<ToolResult> {
+    let capture: CaptureResult & { tabId?: number; requestCount?: number };
+    try {
+      capture = JSON.parse(getFirstText(result) ?? '');
+    } catch {
+      return createErrorResponse('Capture stopped, but its result could not be converted to HAR');
+    }
+
+    const har = buildHar(capture);
+    const output: Record<string, unknown> = {
+      success: true,
+      backend,
+      needResponseBody: backend === 'debugger',
+      tabId: capture.tabId,
+      tabUrl: capture.tabUrl,
+      entryCount: har.log.entries.length,
+    };
+
+    if (saveFile) {
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const filename = `network_${timestamp}.har`;
+      try {
+        output.downloadId = await chrome.downloads.download({
+          url: `data:application/json;base64,${utf8ToBase64(JSON.stringify(har))}`,
+          filename,
+          saveAs: false,
+        });
+        output.filename = filename;
+      } catch (error) {
+        output.saveError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    output.har = har;
+    return {
+      content: [{ type: 'text', text: JSON.stringify(output) }],
+      isError: false,
+    };
+  }
 }
 
 export const networkCaptureTool = new NetworkCaptureTool();
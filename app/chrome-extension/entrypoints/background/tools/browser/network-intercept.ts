@@ -0,0 +1,557 @@
+/**
+ * Network Intercept Tool - CDP Fetch domain
+ *
+ * Modify live traffic of a tab with URL-pattern rules:
+ * - block: fail the request (e.g. to test offline or error handling)
+ * - delay: hold the request before letting it through
+ * - modify: set/remove request and/or response headers
+ * - fulfill: answer with a canned status, headers and body
+ * - replay: answer from a HAR (e.g. one exported by chrome_network_capture), so a
+ *   flaky backend can be replayed offline
+ *
+ * Rules belong to a tab. While a tab has rules the tool keeps a debugger session
+ * (owner `network-intercept`) with `Fetch.enable` patterns built from them;
+ * removing the last rule, closing the tab or detaching the debugger ends it.
+ * Every intercepted request that matched a rule is recorded as a hit.
+ */
+
+import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import { BaseBrowserToolExecutor } from '../base-browser';
+import { TOOL_NAMES } from 'chrome-mcp-shared';
+import { cdpSessionManager } from '@/utils/cdp-session-manager';
+import { findHarEntry, parseHarForReplay, utf8ToBase64, type HarReplayEntry } from './har';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CDP_SESSION_KEY = 'network-intercept';
+
+const ACTIONS = ['add', 'remove', 'clear', 'list'] as const;
+const RULE_ACTIONS = ['block', 'delay', 'modify', 'fulfill', 'replay'] as const;
+
+/** Network.ErrorReason values accepted by Fetch.failRequest */
+const ERROR_REASONS = [
+  'Failed',
+  'Aborted',
+  'TimedOut',
+  'AccessDenied',
+  'ConnectionClosed',
+  'ConnectionReset',
+  'ConnectionRefused',
+  'ConnectionAborted',
+  'ConnectionFailed',
+  'NameNotResolved',
+  'InternetDisconnected',
+  'AddressUnreachable',
+  'BlockedByClient',
+  'BlockedByResponse',
+];
+
+const MAX_RULES_PER_TAB = 50;
+const MAX_HITS_PER_TAB = 200;
+const MAX_DELAY_MS = 120_000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type InterceptAction = (typeof ACTIONS)[number];
+type RuleAction = (typeof RULE_ACTIONS)[number];
+type RequestStage = 'Request' | 'Response';
+
+interface HeaderChanges {
+  set?: Record<string, string>;
+  remove?: string[];
+}
+
+interface InterceptRule {
+  id: string;
+  /** Glob (`*`, `?`) or a /regex/ */
+  urlPattern: string;
+  action: RuleAction;
+  methods?: string[];
+  /** CDP resource types, e.g. XHR, Fetch, Document, Script, Image */
+  resourceTypes?: string[];
+  /** Applied before the action (and the whole action for `delay`) */
+  delayMs?: number;
+  errorReason?: string;
+  requestHeaders?: HeaderChanges;
+  responseHeaders?: HeaderChanges;
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string;
+  bodyBase64?: string;
+  contentType?: string;
+  harEntries?: HarReplayEntry[];
+  /** replay: let requests missing from the HAR through instead of failing them */
+  passthrough?: boolean;
+  /** replay: how often each request key was served */
+  served?: Map<string, number>;
+  /** Stop matching after this many hits */
+  times?: number;
+  hits: number;
+  createdAt: number;
+}
+
+interface InterceptHit {
+  at: number;
+  ruleId: string;
+  action: RuleAction;
+  stage: RequestStage;
+  method: string;
+  url: string;
+  resourceType: string;
+  detail?: string;
+}
+
+interface TabIntercept {
+  rules: InterceptRule[];
+  hits: InterceptHit[];
+  nextRuleId: number;
+}
+
+interface NetworkInterceptParams extends Partial<
+  Omit<InterceptRule, 'id' | 'hits' | 'createdAt' | 'action' | 'harEntries' | 'served'>
+> {
+  action: InterceptAction;
+  tabId?: number;
+  ruleId?: string;
+  type?: RuleAction;
+  /** replay: HAR object or JSON text */
+  har?: unknown;
+}
+
+interface RequestPausedEvent {
+  requestId: string;
+  request: { url: string; method: string; headers: Record<string, string> };
+  resourceType: string;
+  responseStatusCode?: number;
+  responseErrorReason?: string;
+  responseHeaders?: Array<{ name: string; value: string }>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isRegexPattern(pattern: string): boolean {
+  return pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/');
+}
+
+/**
+ * Same wildcard rules as CDP Fetch patterns: `*` any run, `?` one character,
+ * backslash escapes
+ */
+function patternToRegExp(pattern: string): RegExp {
+  if (isRegexPattern(pattern)) return new RegExp(pattern.slice(1, -1));
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '\\' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (ch === '*') {
+      source += '.*';
+    } else if (ch === '?') {
+      source += '.';
+    } else {
+      source += ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function ruleStages(rule: InterceptRule): RequestStage[] {
+  if (rule.action !== 'modify') return ['Request'];
+  const stages: RequestStage[] = [];
+  if (rule.requestHeaders) stages.push('Request');
+  if (rule.responseHeaders) stages.push('Response');
+  return stages;
+}
+
+function isRuleActive(rule: InterceptRule): boolean {
+  return rule.times === undefined || rule.hits < rule.times;
+}
+
+function ruleMatches(rule: InterceptRule, event: RequestPausedEvent, stage: RequestStage): boolean {
+  if (!isRuleActive(rule) || !ruleStages(rule).includes(stage)) return false;
+  if (rule.methods?.length && !rule.methods.includes(event.request.method.toUpperCase())) {
+    return false;
+  }
+  if (rule.resourceTypes?.length && !rule.resourceTypes.includes(event.resourceType)) {
+    return false;
+  }
+  return patternToRegExp(rule.urlPattern).test(event.request.url);
+}
+
+function applyHeaderChanges(
+  headers: Array<{ name: string; value: string }>,
+  changes: HeaderChanges,
+): Array<{ name: string; value: string }> {
+  const removed = new Set(
+    [...(changes.remove ?? []), ...Object.keys(changes.set ?? {})].map((n) => n.toLowerCase()),
+  );
+  return [
+    ...headers.filter((h) => !removed.has(h.name.toLowerCase())),
+    ...Object.entries(changes.set ?? {}).map(([name, value]) => ({ name, value: String(value) })),
+  ];
+}
+
+function toHeaderEntries(headers: Record<string, string> = {}) {
+  return Object.entries(headers).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+function validateHeaderChanges(value: unknown, name: string): HeaderChanges | undefined {
+  if (value === undefined) return undefined;
+  const changes = value as HeaderChanges;
+  if (
+    typeof changes !== 'object' ||
+    changes === null ||
+    (changes.set !== undefined && typeof changes.set !== 'object') ||
+    (changes.remove !== undefined && !Array.isArray(changes.remove))
+  ) {
+    throw new Error(`${name} must be { set?: { name: value }, remove?: [name] }`);
+  }
+  return { set: changes.set, remove: changes.remove };
+}
+
+/**
+ * Build a rule from the tool arguments (throws on invalid input)
+ */
+function buildRule(params: NetworkInterceptParams, id: string): InterceptRule {
+  const action = params.type;
+  if (!action || !RULE_ACTIONS.includes(action)) {
+    throw new Error(`type must be one of: ${RULE_ACTIONS.join(', ')}`);
+  }
+  const urlPattern = String(params.urlPattern ?? (action === 'replay' ? '*' : '')).trim();
+  if (!urlPattern) throw new Error('urlPattern is required');
+  try {
+    patternToRegExp(urlPattern);
+  } catch (e) {
+    throw new Error(`Invalid urlPattern: ${e instanceof Error ? e.message : String(e)}`);
+  }
+
+  const rule: InterceptRule = {
+    id,
+    urlPattern,
+    action,
+    methods: params.methods?.map((m) => String(m).toUpperCase()),
+    resourceTypes: params.resourceTypes,
+    hits: 0,
+    createdAt: Date.now(),
+  };
+
+  if (params.delayMs !== undefined) {
+    const delay = Number(params.delayMs);
+    if (!Number.isFinite(delay) || delay < 0 || delay > MAX_DELAY_MS) {
+      throw new Error(`delayMs must be between 0 and ${MAX_DELAY_MS}`);
+    }
+    rule.delayMs = delay;
+  } else if (action === 'delay') {
+    throw new Error('delayMs is required for a delay rule');
+  }
+
+  if (params.times !== undefined) {
+    const times = Math.floor(Number(params.times));
+    if (!(times >= 1)) throw new Error('times must be a positive integer');
+    rule.times = times;
+  }
+
+  switch (action) {
+    case 'block': {
+      const reason = params.errorReason ?? 'BlockedByClient';
+      if (!ERROR_REASONS.includes(reason)) {
+        throw new Error(`errorReason must be one of: ${ERROR_REASONS.join(', ')}`);
+      }
+      rule.errorReason = reason;
+      break;
+    }
+    case 'modify':
+      rule.requestHeaders = validateHeaderChanges(params.requestHeaders, 'requestHeaders');
+      rule.responseHeaders = validateHeaderChanges(params.responseHeaders, 'responseHeaders');
+      if (!rule.requestHeaders && !rule.responseHeaders) {
+        throw new Error('modify needs requestHeaders and/or responseHeaders');
+      }
+      break;
+    case 'fulfill': {
+      const status = Math.floor(Number(params.status ?? 200));
+      if (!(status >= 100 && status <= 599)) throw new Error('status must be 100-599');
+      rule.status = status;
+      rule.headers = params.headers;
+      rule.contentType = params.contentType;
+      if (params.bodyBase64 !== undefined) rule.bodyBase64 = String(params.bodyBase64);
+      else if (params.body !== undefined) rule.body = String(params.body);
+      break;
+    }
+    case 'replay':
+      rule.harEntries = parseHarForReplay(params.har);
+      rule.passthrough = params.passthrough === true;
+      rule.served = new Map();
+      break;
+  }
+
+  return rule;
+}
+
+function describeRule(rule: InterceptRule) {
+  const { body, bodyBase64, harEntries, served: _served, ...rest } = rule;
+  return {
+    ...rest,
+    active: isRuleActive(rule),
+    ...(harEntries ? { harEntryCount: harEntries.length } : {}),
+    ...(body !== undefined ? { bodyBytes: new TextEncoder().encode(body).length } : {}),
+    ...(bodyBase64 !== undefined ? { bodyBytes: Math.floor((bodyBase64.length * 3) / 4) } : {}),
+  };
+}
+
+// ============================================================================
+// Tool
+// ============================================================================
+
+class NetworkInterceptTool extends BaseBrowserToolExecutor {
+  name = TOOL_NAMES.BROWSER.NETWORK_INTERCEPT;
+
+  private tabs = new Map<number, TabIntercept>();
+
+  constructor() {
+    super();
+    chrome.debugger.onEvent.addListener((source, method, params) => {
+      if (method !== 'Fetch.requestPaused' || typeof source.tabId !== 'number') return;
+      if (!this.tabs.has(source.tabId)) return;
+      void this.handleRequestPaused(source.tabId, params as RequestPausedEvent);
+    });
+    chrome.debugger.onDetach.addListener((source) => {
+      if (typeof source.tabId === 'number') void this.dropTab(source.tabId);
+    });
+    chrome.tabs.onRemoved.addListener((tabId) => void this.dropTab(tabId));
+  }
+
+  async execute(args: NetworkInterceptParams): Promise<ToolResult> {
+    const params = args || ({} as NetworkInterceptParams);
+    const { action } = params;
+    if (!ACTIONS.includes(action)) {
+      return createErrorResponse(`action must be one of: ${ACTIONS.join(', ')}`);
+    }
+
+    try {
+      const explicit = await this.tryGetTab(params.tabId);
+      if (params.tabId !== undefined && !explicit) {
+        return createErrorResponse(`Tab ${params.tabId} not found`);
+      }
+      const tab = explicit || (await this.getActiveTabOrThrow());
+      const tabId = tab.id!;
+
+      switch (action) {
+        case 'add': {
+          const state = this.tabs.get(tabId) ?? { rules: [], hits: [], nextRuleId: 1 };
+          if (state.rules.length >= MAX_RULES_PER_TAB) {
+            return createErrorResponse(`A tab can have at most ${MAX_RULES_PER_TAB} rules`);
+          }
+          const rule = buildRule(params, `rule_${state.nextRuleId}`);
+          state.nextRuleId++;
+          state.rules.push(rule);
+          if (!this.tabs.has(tabId)) {
+            await cdpSessionManager.attach(tabId, CDP_SESSION_KEY);
+            this.tabs.set(tabId, state);
+          }
+          await this.syncPatterns(tabId);
+          return this.result({ tabId, added: describeRule(rule), ruleCount: state.rules.length });
+        }
+        case 'remove': {
+          const state = this.tabs.get(tabId);
+          const index = state?.rules.findIndex((r) => r.id === params.ruleId) ?? -1;
+          if (!state || index < 0) {
+            return createErrorResponse(`Rule ${params.ruleId} not found in tab ${tabId}`);
+          }
+          state.rules.splice(index, 1);
+          await this.syncPatterns(tabId);
+          return this.result({ tabId, removed: params.ruleId, ruleCount: state.rules.length });
+        }
+        case 'clear': {
+          const state = this.tabs.get(tabId);
+          const hits = state?.hits ?? [];
+          await this.dropTab(tabId);
+          return this.result({
+            tabId,
+            cleared: state?.rules.length ?? 0,
+            hitCount: hits.length,
+          });
+        }
+        case 'list': {
+          const state = this.tabs.get(tabId);
+          return this.result({
+            tabId,
+            intercepting: !!state,
+            rules: state?.rules.map(describeRule) ?? [],
+            hits: state?.hits ?? [],
+          });
+        }
+      }
+    } catch (error) {
+      return createErrorResponse(
+        `Network intercept ${action} failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private result(payload: Record<string, unknown>): ToolResult {
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ success: true, ...payload }) }],
+      isError: false,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lifecycle
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Point Fetch.enable at the active rules; stop intercepting when none are left
+   */
+  private async syncPatterns(tabId: number): Promise<void> {
+    const state = this.tabs.get(tabId);
+    if (!state) return;
+    if (state.rules.length === 0) {
+      await this.dropTab(tabId);
+      return;
+    }
+
+    const patterns = new Map<string, { urlPattern: string; requestStage: RequestStage }>();
+    for (const rule of state.rules.filter(isRuleActive)) {
+      // Regexes are matched here, so the browser has to pause everything
+      const urlPattern = isRegexPattern(rule.urlPattern) ? '*' : rule.urlPattern;
+      for (const requestStage of ruleStages(rule)) {
+        patterns.set(`${requestStage}:${urlPattern}`, { urlPattern, requestStage });
+      }
+    }
+
+    if (patterns.size === 0) {
+      await cdpSessionManager.sendCommand(tabId, 'Fetch.disable');
+    } else {
+      await cdpSessionManager.sendCommand(tabId, 'Fetch.enable', {
+        patterns: [...patterns.values()],
+      });
+    }
+  }
+
+  private async dropTab(tabId: number): Promise<void> {
+    if (!this.tabs.delete(tabId)) return;
+    try {
+      await cdpSessionManager.sendCommand(tabId, 'Fetch.disable');
+    } catch {
+      // Tab closed or debugger already gone
+    }
+    await cdpSessionManager.detach(tabId, CDP_SESSION_KEY);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Interception
+  // ---------------------------------------------------------------------------
+
+  private async handleRequestPaused(tabId: number, event: RequestPausedEvent): Promise<void> {
+    const state = this.tabs.get(tabId);
+    const stage: RequestStage =
+      event.responseStatusCode !== undefined || event.responseErrorReason !== undefined
+        ? 'Response'
+        : 'Request';
+    const rule = state?.rules.find((r) => ruleMatches(r, event, stage));
+    const send = (method: string, params: object) =>
+      cdpSessionManager.sendCommand(tabId, method, { requestId: event.requestId, ...params });
+
+    try {
+      if (!state || !rule) {
+        await send('Fetch.continueRequest', {});
+        return;
+      }
+
+      const harEntry =
+        rule.action === 'replay'
+          ? findHarEntry(rule.harEntries!, event.request.method, event.request.url, rule.served!)
+          : undefined;
+
+      // A modify rule with both stages counts once
+      if (stage === 'Request' || !rule.requestHeaders) rule.hits++;
+      state.hits.push({
+        at: Date.now(),
+        ruleId: rule.id,
+        action: rule.action,
+        stage,
+        method: event.request.method,
+        url: event.request.url,
+        resourceType: event.resourceType,
+        ...(rule.action === 'replay'
+          ? {
+              detail: harEntry
+                ? `served ${harEntry.status} from HAR`
+                : `not in HAR, ${rule.passthrough ? 'passed through' : 'failed'}`,
+            }
+          : {}),
+      });
+      if (state.hits.length > MAX_HITS_PER_TAB) state.hits.shift();
+
+      if (rule.delayMs) {
+        await new Promise((resolve) => setTimeout(resolve, rule.delayMs));
+      }
+
+      switch (rule.action) {
+        case 'delay':
+          await send('Fetch.continueRequest', {});
+          break;
+        case 'block':
+          await send('Fetch.failRequest', { errorReason: rule.errorReason });
+          break;
+        case 'fulfill': {
+          const headers = toHeaderEntries(rule.headers);
+          if (rule.contentType && !headers.some((h) => h.name.toLowerCase() === 'content-type')) {
+            headers.push({ name: 'Content-Type', value: rule.contentType });
+          }
+          await send('Fetch.fulfillRequest', {
+            responseCode: rule.status ?? 200,
+            responseHeaders: headers,
+            body: rule.bodyBase64 ?? utf8ToBase64(rule.body ?? ''),
+          });
+          break;
+        }
+        case 'replay':
+          if (harEntry) {
+            await send('Fetch.fulfillRequest', {
+              responseCode: harEntry.status,
+              responseHeaders: harEntry.headers,
+              body: harEntry.body,
+            });
+          } else if (rule.passthrough) {
+            await send('Fetch.continueRequest', {});
+          } else {
+            await send('Fetch.failRequest', { errorReason: 'InternetDisconnected' });
+          }
+          break;
+        case 'modify':
+          if (stage === 'Request') {
+            await send('Fetch.continueRequest', {
+              headers: applyHeaderChanges(
+                toHeaderEntries(event.request.headers),
+                rule.requestHeaders!,
+              ),
+            });
+          } else {
+            await send('Fetch.continueResponse', {
+              responseHeaders: applyHeaderChanges(
+                event.responseHeaders ?? [],
+                rule.responseHeaders!,
+              ),
+            });
+          }
+          break;
+      }
+
+      // Rules that ran out of hits no longer need their pattern
+      if (!isRuleActive(rule)) await this.syncPatterns(tabId);
+    } catch (error) {
+      console.warn(`${this.name}: failed to handle ${event.request.url}:`, error);
+      // Never leave the request hanging
+      await send('Fetch.continueRequest', {}).catch(() => {});
+    }
+  }
+}
+
+export const networkInterceptTool = new NetworkInterceptTool();
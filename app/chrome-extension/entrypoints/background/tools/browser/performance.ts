@@ -1,4 +1,9 @@
-import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import {
+  createErrorResponse,
+  ToolCancelledError,
+  ToolExecutionContext,
+  ToolResult,
+} from '@/common/tool-handler';
 import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
 import { cdpSessionManager } from '@/utils/cdp-session-manager';
@@ -24,6 +29,8 @@ type DebuggeeEvent = (source: chrome.debugger.Debuggee, method: string, params?:
 
 interface TraceSessionState {
   recording: boolean;
+  /** Tracing.end was sent; completion is pending */
+  stopping?: boolean;
   events: any[];
   startedAt: number;
   pageUrl?: string;
@@ -214,6 +221,33 @@ function getOrCreateStopPromise(session: TraceSessionState): Promise<{ completed
   return session.stopPromise;
 }
 
+/**
+ * Wait for Tracing.tracingComplete, reporting collected events and honouring cancellation.
+ * A cancelled wait leaves the session in place, still marked as stopping; a later stop
+ * call waits for the same completion instead of ending the trace again.
+ */
+function waitForTraceComplete(
+  session: TraceSessionState,
+  report: (eventCount: number) => void,
+  signal?: AbortSignal,
+): Promise<{ completed: boolean }> {
+  const stop = getOrCreateStopPromise(session);
+  return new Promise((resolve, reject) => {
+    const ticker = setInterval(() => report(session.events.length), 500);
+    const onAbort = () => {
+      clearInterval(ticker);
+      reject(new ToolCancelledError());
+    };
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    stop.then((result) => {
+      clearInterval(ticker);
+      signal?.removeEventListener('abort', onAbort);
+      resolve(result);
+    });
+  });
+}
+
 /**
  * Start performance trace
  */
@@ -280,10 +314,12 @@ class PerformanceStartTraceTool extends BaseBrowserToolExecutor {
       if (autoStop) {
         setTimeout(
           async () => {
+            if (state.stopping || !state.recording) return;
+            state.stopping = true;
             try {
               await cdpSessionManager.sendCommand(tabId, 'Tracing.end');
             } catch {
-              // ignore
+              state.stopping = false;
             }
           },
           Math.max(1000, Math.min(durationMs, 60000)),
@@ -316,7 +352,7 @@ class PerformanceStartTraceTool extends BaseBrowserToolExecutor {
 class PerformanceStopTraceTool extends BaseBrowserToolExecutor {
   name = TOOL_NAMES.BROWSER.PERFORMANCE_STOP_TRACE;
 
-  async execute(args: StopTraceParams): Promise<ToolResult> {
+  async execute(args: StopTraceParams, context?: ToolExecutionContext): Promise<ToolResult> {
     const { saveToDownloads = true, filenamePrefix } = args || {};
     try {
       const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
@@ -334,10 +370,22 @@ class PerformanceStopTraceTool extends BaseBrowserToolExecutor {
 
       let stopResult: { completed: boolean } = { completed: false };
       if (session.recording) {
-        // End tracing and wait for completion signal
-        await cdpSessionManager.sendCommand(tabId, 'Tracing.end');
-        await getOrCreateStopPromise(session);
-        stopResult = await session.stopPromise!;
+        // End tracing (unless an earlier, cancelled stop already did) and wait for completion
+        if (!session.stopping) {
+          session.stopping = true;
+          try {
+            await cdpSessionManager.sendCommand(tabId, 'Tracing.end');
+          } catch (e) {
+            session.stopping = false;
+            throw e;
+          }
+        }
+        stopResult = await waitForTraceComplete(
+          session,
+          (eventCount) =>
+            this.reportProgress(context, eventCount, undefined, `Collected ${eventCount} events`),
+          context?.signal,
+        );
       } else {
         // Already auto-stopped; proceed to finalize without waiting
         stopResult = { completed: true };
@@ -404,6 +452,7 @@ class PerformanceStopTraceTool extends BaseBrowserToolExecutor {
         isError: false,
       };
     } catch (e: any) {
+      if (e instanceof ToolCancelledError) throw e;
       return createErrorResponse(`Failed to stop performance trace: ${e?.message || e}`);
     }
   }
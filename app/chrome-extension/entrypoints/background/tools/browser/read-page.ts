@@ -4,6 +4,16 @@ import { TOOL_NAMES } from 'chrome-mcp-shared';
 import { TOOL_MESSAGE_TYPES } from '@/common/message-types';
 import { ERROR_MESSAGES } from '@/common/constants';
 import { listMarkersForUrl } from '@/entrypoints/background/element-marker/element-marker-storage';
+import {
+  decodeFrameRef,
+  encodeFrameRefsInText,
+  listFrames,
+  shiftCoordinatesInText,
+  type FrameInfo,
+} from '../frame-refs';
+
+// Child frames whose trees are appended to the main frame's tree
+const MAX_CHILD_FRAMES = 20;
 
 interface ReadPageStats {
   processed: number;
@@ -17,6 +27,13 @@ interface ReadPageParams {
   refId?: string; // focus on subtree rooted at this refId
   tabId?: number; // target existing tab id
   windowId?: number; // when no tabId, pick active tab from this window
+  includeFrames?: boolean; // also read child frames (default: true)
+}
+
+interface FrameInventoryEntry extends FrameInfo {
+  refPrefix: string | null; // prefix of refs inside this frame (null for the main frame)
+  included: boolean; // tree of this frame is part of pageContent
+  error?: string;
 }
 
 class ReadPageTool extends BaseBrowserToolExecutor {
@@ -25,6 +42,7 @@ class ReadPageTool extends BaseBrowserToolExecutor {
   // Execute read page
   async execute(args: ReadPageParams): Promise<ToolResult> {
     const { filter, depth, refId } = args || {};
+    const includeFrames = args?.includeFrames !== false;
 
     // Validate refId parameter
     const focusRefId = typeof refId === 'string' ? refId.trim() : '';
@@ -69,18 +87,67 @@ class ReadPageTool extends BaseBrowserToolExecutor {
         true,
       );
 
-      // Ask content script to generate accessibility tree
-      const resp = await this.sendMessageToTab(tab.id, {
-        action: TOOL_MESSAGE_TYPES.GENERATE_ACCESSIBILITY_TREE,
-        filter: filter || null,
-        depth: requestedDepth,
-        refId: focusRefId || undefined,
-      });
+      // Ask content script to generate accessibility tree. A frame-encoded refId
+      // reads that frame only; otherwise start from the main frame.
+      const focusFrameId = focusRefId ? (decodeFrameRef(focusRefId).frameId ?? 0) : 0;
+      if (focusFrameId) {
+        await this.injectContentScript(
+          tab.id,
+          ['inject-scripts/accessibility-tree-helper.js'],
+          false,
+          'ISOLATED',
+          false,
+          [focusFrameId],
+        );
+      }
+      const resp = await this.sendMessageToTab(
+        tab.id,
+        {
+          action: TOOL_MESSAGE_TYPES.GENERATE_ACCESSIBILITY_TREE,
+          filter: filter || null,
+          depth: requestedDepth,
+          refId: focusRefId || undefined,
+        },
+        focusFrameId,
+      );
 
       // Evaluate tree result and decide whether to fallback
       const treeOk = resp && resp.success === true;
-      const pageContent: string =
+      let pageContent: string =
         resp && typeof resp.pageContent === 'string' ? resp.pageContent : '';
+      let childRefCount = 0;
+
+      // Frame inventory, plus the trees of child frames (refs encode the frame id)
+      let frames: FrameInventoryEntry[] = [];
+      if (includeFrames) {
+        try {
+          frames = (await listFrames(tab.id)).map((f) => ({
+            ...f,
+            refPrefix: f.frameId === 0 ? null : `f${f.frameId}:`,
+            included: f.frameId === focusFrameId,
+          }));
+        } catch (e) {
+          console.warn('read_page: failed to list frames:', e);
+        }
+      }
+      if (focusFrameId && treeOk) {
+        pageContent = await this.toTabTree(tab.id, focusFrameId, pageContent, '');
+      } else if (treeOk && !focusRefId) {
+        const sections: string[] = [];
+        for (const frame of frames.filter((f) => f.frameId !== 0).slice(0, MAX_CHILD_FRAMES)) {
+          try {
+            const section = await this.readChildFrame(tab.id, frame, filter, requestedDepth);
+            if (section) {
+              sections.push(section.text);
+              childRefCount += section.refCount;
+              frame.included = true;
+            }
+          } catch (e) {
+            frame.error = e instanceof Error ? e.message : String(e);
+          }
+        }
+        if (sections.length) pageContent = [pageContent, ...sections].join('\n');
+      }
 
       // Extract stats from response
       const stats: ReadPageStats | null =
@@ -95,7 +162,7 @@ class ReadPageTool extends BaseBrowserToolExecutor {
       const lines = pageContent
         ? pageContent.split('\n').filter((l: string) => l.trim().length > 0).length
         : 0;
-      const refCount = Array.isArray(resp?.refMap) ? resp.refMap.length : 0;
+      const refCount = (Array.isArray(resp?.refMap) ? resp.refMap.length : 0) + childRefCount;
 
       // Skip sparse heuristics when user explicitly controls output
       const isSparse = !userControlled && lines < 10 && refCount < 3;
@@ -144,6 +211,7 @@ class ReadPageTool extends BaseBrowserToolExecutor {
         sparse: treeOk ? isSparse : false,
         depth: requestedDepth ?? null,
         focus: focusRefId ? { refId: focusRefId, found: treeOk } : null,
+        frames,
         markedElements,
         elements: [],
         count: 0,
@@ -224,6 +292,69 @@ class ReadPageTool extends BaseBrowserToolExecutor {
       );
     }
   }
+
+  /**
+   * Tree of one child frame as an indented section below a frame header line
+   */
+  private async readChildFrame(
+    tabId: number,
+    frame: FrameInventoryEntry,
+    filter: ReadPageParams['filter'],
+    depth: number | undefined,
+  ): Promise<{ text: string; refCount: number } | null> {
+    await this.injectContentScript(
+      tabId,
+      ['inject-scripts/accessibility-tree-helper.js'],
+      false,
+      'ISOLATED',
+      false,
+      [frame.frameId],
+    );
+    const resp = await this.sendMessageToTab(
+      tabId,
+      {
+        action: TOOL_MESSAGE_TYPES.GENERATE_ACCESSIBILITY_TREE,
+        filter: filter || null,
+        depth,
+      },
+      frame.frameId,
+    );
+    const content = typeof resp?.pageContent === 'string' ? resp.pageContent.trim() : '';
+    if (!resp?.success || !content) return null;
+
+    const indent = '  '.repeat(frame.depth);
+    const header = `${'  '.repeat(frame.depth - 1)}- frame [frameId=${frame.frameId}] "${frame.url.replace(/"/g, '\\"')}"${frame.crossOrigin ? ' (cross-origin)' : ''}`;
+    const tree = await this.toTabTree(tabId, frame.frameId, content, indent);
+    return {
+      text: `${header}\n${tree}`,
+      refCount: Array.isArray(resp.refMap) ? resp.refMap.length : 0,
+    };
+  }
+
+  /**
+   * Make a child frame's tree usable tab-wide: frame-encoded refs and coordinates
+   * in the tab's viewport (left frame-local if the frame cannot be located)
+   */
+  private async toTabTree(
+    tabId: number,
+    frameId: number,
+    content: string,
+    indent: string,
+  ): Promise<string> {
+    let text = encodeFrameRefsInText(content, frameId);
+    try {
+      const offset = await this.getFrameOffset(tabId, frameId);
+      text = shiftCoordinatesInText(text, offset.x, offset.y);
+    } catch (e) {
+      console.warn(`read_page: cannot locate frame ${frameId}, coordinates stay frame-local:`, e);
+    }
+    return indent
+      ? text
+          .split('\n')
+          .map((line) => indent + line)
+          .join('\n')
+      : text;
+  }
 }
 
 export const readPageTool = new ReadPageTool();
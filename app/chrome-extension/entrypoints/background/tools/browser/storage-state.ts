@@ -0,0 +1,670 @@
+/**
+ * Storage State Tool
+ *
+ * Inspect and modify the storage of a site: cookies (chrome.cookies) and the
+ * page's localStorage, sessionStorage and IndexedDB (via chrome.scripting in a
+ * tab on that origin).
+ *
+ * - Scope: `url` (cookies sent to that URL) or `origin` (all cookies of the
+ *   host); defaults to the target tab's URL
+ * - Values are masked with the output sanitizer unless `revealValues` is set
+ * - `export` / `import` use a Playwright-compatible storage state
+ *   (`{ cookies, origins: [{ origin, localStorage }] }`), plus `sessionStorage`
+ */
+
+import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import { BaseBrowserToolExecutor } from '../base-browser';
+import { TOOL_NAMES } from 'chrome-mcp-shared';
+import { isSensitiveKey, sanitizeText } from '@/utils/output-sanitizer';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ACTIONS = ['get', 'set', 'delete', 'clear', 'export', 'import'] as const;
+const STORAGE_TYPES = ['cookies', 'localStorage', 'sessionStorage', 'indexedDB'] as const;
+
+/** Used by get/clear/export when `types` is omitted (IndexedDB must be asked for) */
+const DEFAULT_TYPES: StorageType[] = ['cookies', 'localStorage', 'sessionStorage'];
+
+/** `get` shortens longer values (export never does) */
+const MAX_VALUE_LENGTH = 4096;
+
+const REDACTED = '<redacted>';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type StorageStateAction = (typeof ACTIONS)[number];
+type StorageType = (typeof STORAGE_TYPES)[number];
+type PageStorageType = Exclude<StorageType, 'cookies'>;
+
+interface StorageEntry {
+  name: string;
+  value: string;
+}
+
+/** Playwright storage state cookie */
+interface StateCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  /** Unix seconds; -1 for session cookies */
+  expires: number;
+  httpOnly: boolean;
+  secure: boolean;
+  sameSite: 'Strict' | 'Lax' | 'None';
+}
+
+interface StateOrigin {
+  origin: string;
+  localStorage: StorageEntry[];
+  sessionStorage?: StorageEntry[];
+}
+
+interface StorageState {
+  cookies: StateCookie[];
+  origins: StateOrigin[];
+}
+
+interface CookieOptions {
+  domain?: string;
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  sameSite?: 'strict' | 'lax' | 'no_restriction';
+  /** Unix seconds; omit for a session cookie */
+  expirationDate?: number;
+}
+
+interface StorageStateParams {
+  action: StorageStateAction;
+  url?: string;
+  origin?: string;
+  tabId?: number;
+  types?: StorageType[];
+  name?: string;
+  value?: string;
+  cookie?: CookieOptions;
+  state?: StorageState;
+  revealValues?: boolean;
+}
+
+interface Scope {
+  /** URL cookies are matched against; null means every path of the origin */
+  url: string | null;
+  origin: string;
+  hostname: string;
+  secure: boolean;
+}
+
+interface PageStorageRequest {
+  action: 'get' | 'set' | 'delete' | 'clear' | 'import';
+  types: PageStorageType[];
+  name?: string;
+  value?: string;
+  entries?: Partial<Record<'localStorage' | 'sessionStorage', StorageEntry[]>>;
+}
+
+interface PageStorageResult {
+  origin: string;
+  localStorage?: StorageEntry[];
+  sessionStorage?: StorageEntry[];
+  indexedDB?: Array<{ name: string; version?: number }>;
+  deletedDatabases?: string[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseScope(raw: string): Scope {
+  let parsed: URL;
+  try {
+    parsed = new URL(raw);
+  } catch {
+    throw new Error(`Invalid URL or origin: ${raw}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Storage is only available for http(s) pages, got ${parsed.protocol}`);
+  }
+  return {
+    url: parsed.href,
+    origin: parsed.origin,
+    hostname: parsed.hostname,
+    secure: parsed.protocol === 'https:',
+  };
+}
+
+/**
+ * Whether a cookie is sent to some path of the origin
+ */
+function cookieMatchesScope(
+  cookie: Pick<chrome.cookies.Cookie, 'domain' | 'hostOnly' | 'secure'>,
+  scope: Scope,
+): boolean {
+  if (cookie.secure && !scope.secure) return false;
+  const domain = cookie.domain.replace(/^\./, '').toLowerCase();
+  const host = scope.hostname.toLowerCase();
+  if (cookie.hostOnly) return host === domain;
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function cookieUrl(cookie: { domain: string; path: string; secure: boolean }): string {
+  const host = cookie.domain.replace(/^\./, '');
+  return `http${cookie.secure ? 's' : ''}://${host}${cookie.path || '/'}`;
+}
+
+function toStateCookie(cookie: chrome.cookies.Cookie): StateCookie {
+  return {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain,
+    path: cookie.path,
+    expires: cookie.session ? -1 : Math.floor(cookie.expirationDate ?? -1),
+    httpOnly: cookie.httpOnly,
+    secure: cookie.secure,
+    sameSite:
+      cookie.sameSite === 'strict'
+        ? 'Strict'
+        : cookie.sameSite === 'no_restriction'
+          ? 'None'
+          : 'Lax',
+  };
+}
+
+function fromStateSameSite(sameSite: unknown): CookieOptions['sameSite'] {
+  switch (String(sameSite ?? '').toLowerCase()) {
+    case 'strict':
+      return 'strict';
+    case 'none':
+    case 'no_restriction':
+      return 'no_restriction';
+    case 'lax':
+      return 'lax';
+    default:
+      return undefined;
+  }
+}
+
+function isMaskedValue(value: string): boolean {
+  return value.includes(REDACTED) || value.startsWith('[BLOCKED');
+}
+
+/**
+ * Values are masked when the name looks secret (token, session, ...) or the
+ * value itself does (JWT, bearer, long hex/base64)
+ */
+function maskValue(name: string, value: string): { value: string; masked: boolean } {
+  if (isSensitiveKey(name)) return { value: REDACTED, masked: true };
+  const sanitized = sanitizeText(value);
+  return { value: sanitized.text, masked: sanitized.redacted };
+}
+
+function presentEntries(
+  entries: StorageEntry[],
+  options: { reveal: boolean; truncate: boolean },
+  counter: { masked: number },
+): StorageEntry[] {
+  return entries.map(({ name, value }) => {
+    let out = value;
+    if (!options.reveal) {
+      const masked = maskValue(name, value);
+      if (masked.masked) counter.masked++;
+      out = masked.value;
+    }
+    if (options.truncate && out.length > MAX_VALUE_LENGTH) {
+      out = `${out.slice(0, MAX_VALUE_LENGTH)}... [truncated ${out.length - MAX_VALUE_LENGTH} chars]`;
+    }
+    return { name, value: out };
+  });
+}
+
+function textResult(payload: unknown): ToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(payload) }],
+    isError: false,
+  };
+}
+
+/**
+ * Runs in the page. Must be self-contained.
+ */
+async function pageStorageScript(request: PageStorageRequest): Promise<PageStorageResult> {
+  const result: PageStorageResult = { origin: location.origin };
+
+  const deleteDatabase = (name: string) =>
+    new Promise<void>((resolve, reject) => {
+      const req = indexedDB.deleteDatabase(name);
+      req.onsuccess = () => resolve();
+      req.onblocked = () => resolve();
+      req.onerror = () => reject(req.error);
+    });
+
+  for (const type of request.types) {
+    if (type === 'indexedDB') {
+      const databases = (await indexedDB.databases())
+        .filter((db) => typeof db.name === 'string')
+        .map((db) => ({ name: db.name as string, version: db.version }));
+      if (request.action === 'get') {
+        result.indexedDB = databases;
+      } else if (request.action === 'delete' || request.action === 'clear') {
+        const names =
+          request.action === 'delete'
+            ? databases.filter((db) => db.name === request.name).map((db) => db.name)
+            : databases.map((db) => db.name);
+        for (const name of names) await deleteDatabase(name);
+        result.deletedDatabases = names;
+      }
+      continue;
+    }
+
+    const store = type === 'localStorage' ? window.localStorage : window.sessionStorage;
+    switch (request.action) {
+      case 'set':
+        store.setItem(request.name as string, request.value ?? '');
+        break;
+      case 'delete':
+        store.removeItem(request.name as string);
+        break;
+      case 'clear':
+        store.clear();
+        break;
+      case 'import':
+        for (const entry of request.entries?.[type] ?? []) store.setItem(entry.name, entry.value);
+        break;
+    }
+    const entries: StorageEntry[] = [];
+    for (let i = 0; i < store.length; i++) {
+      const name = store.key(i);
+      if (name === null) continue;
+      if (request.action === 'get' && request.name && name !== request.name) continue;
+      entries.push({ name, value: store.getItem(name) ?? '' });
+    }
+    result[type] = entries;
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Tool
+// ============================================================================
+
+class StorageStateTool extends BaseBrowserToolExecutor {
+  name = TOOL_NAMES.BROWSER.STORAGE_STATE;
+
+  async execute(args: StorageStateParams): Promise<ToolResult> {
+    const params = args || ({} as StorageStateParams);
+    const { action } = params;
+    if (!ACTIONS.includes(action)) {
+      return createErrorResponse(`action must be one of: ${ACTIONS.join(', ')}`);
+    }
+
+    const invalidType = (params.types ?? []).find((t) => !STORAGE_TYPES.includes(t));
+    if (invalidType) {
+      return createErrorResponse(
+        `Unknown storage type "${invalidType}". Use: ${STORAGE_TYPES.join(', ')}`,
+      );
+    }
+
+    try {
+      const tab = await this.resolveTargetTab(params);
+      const scope = parseScope(params.url ?? params.origin ?? tab?.url ?? '');
+      // An origin scope covers every path, a URL scope only the cookies sent to it
+      if (!params.url && params.origin) scope.url = null;
+
+      switch (action) {
+        case 'get':
+        case 'export':
+          return await this.read(action, params, scope);
+        case 'set':
+        case 'delete':
+          return await this.write(action, params, scope);
+        case 'clear':
+          return await this.clear(params, scope);
+        case 'import':
+          return await this.import(params, scope);
+      }
+    } catch (error) {
+      return createErrorResponse(
+        `Storage ${action} failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Actions
+  // ---------------------------------------------------------------------------
+
+  private async read(
+    action: 'get' | 'export',
+    params: StorageStateParams,
+    scope: Scope,
+  ): Promise<ToolResult> {
+    const types = params.types?.length ? params.types : DEFAULT_TYPES;
+    const reveal = params.revealValues === true;
+    const counter = { masked: 0 };
+
+    const cookies = types.includes('cookies')
+      ? (await this.getScopedCookies(scope)).filter(
+          (c) => action === 'export' || !params.name || c.name === params.name,
+        )
+      : [];
+    const pageTypes = types.filter((t): t is PageStorageType => t !== 'cookies');
+    const page = pageTypes.length
+      ? await this.runInPage(scope, params, {
+          action: 'get',
+          types: pageTypes,
+          name: action === 'get' ? params.name : undefined,
+        })
+      : null;
+
+    const stateCookies = cookies.map(toStateCookie).map((cookie) => {
+      if (reveal) return cookie;
+      const masked = maskValue(cookie.name, cookie.value);
+      if (masked.masked) counter.masked++;
+      return { ...cookie, value: masked.value };
+    });
+    const present = (entries: StorageEntry[] | undefined) =>
+      entries && presentEntries(entries, { reveal, truncate: action === 'get' }, counter);
+
+    if (action === 'export') {
+      const state: StorageState = {
+        cookies: stateCookies,
+        origins: page
+          ? [
+              {
+                origin: page.origin,
+                localStorage: present(page.localStorage) ?? [],
+                ...(page.sessionStorage ? { sessionStorage: present(page.sessionStorage) } : {}),
+              },
+            ]
+          : [],
+      };
+      return textResult({
+        success: true,
+        action,
+        origin: scope.origin,
+        masked: !reveal,
+        maskedCount: counter.masked,
+        ...(reveal
+          ? {}
+          : { hint: 'Masked values are skipped on import; export with revealValues' }),
+        state,
+      });
+    }
+
+    // Present before reading the counter
+    const localStorage = present(page?.localStorage);
+    const sessionStorage = present(page?.sessionStorage);
+    return textResult({
+      success: true,
+      action,
+      origin: scope.origin,
+      url: scope.url,
+      masked: !reveal,
+      maskedCount: counter.masked,
+      ...(types.includes('cookies') ? { cookies: stateCookies } : {}),
+      ...(localStorage ? { localStorage } : {}),
+      ...(sessionStorage ? { sessionStorage } : {}),
+      ...(page?.indexedDB ? { indexedDB: page.indexedDB } : {}),
+    });
+  }
+
+  private async write(
+    action: 'set' | 'delete',
+    params: StorageStateParams,
+    scope: Scope,
+  ): Promise<ToolResult> {
+    const type = this.singleType(params);
+    if (!params.name) {
+      return createErrorResponse(`name is required for ${action}`);
+    }
+    if (action === 'set' && typeof params.value !== 'string') {
+      return createErrorResponse('value (string) is required for set');
+    }
+
+    if (type === 'cookies') {
+      if (action === 'set') {
+        const cookie = await this.setCookie(scope, params.name, params.value!, params.cookie);
+        return textResult({ success: true, action, type, cookie: { ...cookie, value: REDACTED } });
+      }
+      const removed = await this.removeCookies(
+        (await this.getScopedCookies(scope)).filter((c) => c.name === params.name),
+      );
+      return textResult({ success: true, action, type, name: params.name, removed });
+    }
+
+    if (type === 'indexedDB' && action === 'set') {
+      return createErrorResponse('IndexedDB supports get, delete (a database) and clear');
+    }
+    const page = await this.runInPage(scope, params, {
+      action,
+      types: [type],
+      name: params.name,
+      value: params.value,
+    });
+    return textResult({
+      success: true,
+      action,
+      type,
+      origin: page.origin,
+      name: params.name,
+      ...(page.deletedDatabases ? { deletedDatabases: page.deletedDatabases } : {}),
+      ...(type !== 'indexedDB' ? { entries: (page[type] ?? []).length } : {}),
+    });
+  }
+
+  private async clear(params: StorageStateParams, scope: Scope): Promise<ToolResult> {
+    const types = params.types?.length ? params.types : DEFAULT_TYPES;
+    const result: Record<string, unknown> = {
+      success: true,
+      action: 'clear',
+      origin: scope.origin,
+    };
+
+    if (types.includes('cookies')) {
+      result.cookiesRemoved = await this.removeCookies(await this.getScopedCookies(scope));
+    }
+    const pageTypes = types.filter((t): t is PageStorageType => t !== 'cookies');
+    if (pageTypes.length) {
+      const page = await this.runInPage(scope, params, { action: 'clear', types: pageTypes });
+      result.cleared = pageTypes;
+      if (page.deletedDatabases) result.deletedDatabases = page.deletedDatabases;
+    }
+    return textResult(result);
+  }
+
+  private async import(params: StorageStateParams, scope: Scope): Promise<ToolResult> {
+    const state = params.state;
+    if (!state || !Array.isArray(state.cookies) || !Array.isArray(state.origins)) {
+      return createErrorResponse('state must be a storage state: { cookies: [], origins: [] }');
+    }
+    const types = params.types?.length ? params.types : DEFAULT_TYPES;
+    const skipped: string[] = [];
+
+    let cookiesSet = 0;
+    if (types.includes('cookies')) {
+      for (const cookie of state.cookies) {
+        const label = `cookie ${cookie?.name}@${cookie?.domain}`;
+        if (!cookie?.name || typeof cookie.value !== 'string' || !cookie.domain) {
+          skipped.push(`${label}: incomplete`);
+          continue;
+        }
+        if (isMaskedValue(cookie.value)) {
+          skipped.push(`${label}: masked value`);
+          continue;
+        }
+        const hostOnly = !cookie.domain.startsWith('.');
+        if (!cookieMatchesScope({ domain: cookie.domain, hostOnly, secure: false }, scope)) {
+          skipped.push(`${label}: outside ${scope.origin}`);
+          continue;
+        }
+        await chrome.cookies.set({
+          url: cookieUrl({ domain: cookie.domain, path: cookie.path, secure: !!cookie.secure }),
+          name: cookie.name,
+          value: cookie.value,
+          domain: cookie.domain.startsWith('.') ? cookie.domain : undefined,
+          path: cookie.path || '/',
+          secure: !!cookie.secure,
+          httpOnly: !!cookie.httpOnly,
+          sameSite: fromStateSameSite(cookie.sameSite),
+          expirationDate:
+            typeof cookie.expires === 'number' && cookie.expires > 0 ? cookie.expires : undefined,
+        });
+        cookiesSet++;
+      }
+    }
+
+    const pageTypes = types.filter(
+      (t): t is 'localStorage' | 'sessionStorage' => t === 'localStorage' || t === 'sessionStorage',
+    );
+    let entriesSet = 0;
+    const originState = state.origins.find((o) => o?.origin === scope.origin);
+    for (const other of state.origins) {
+      if (other?.origin !== scope.origin) skipped.push(`origin ${other?.origin}: outside scope`);
+    }
+    if (originState && pageTypes.length) {
+      const entries: PageStorageRequest['entries'] = {};
+      for (const type of pageTypes) {
+        entries[type] = (originState[type] ?? []).filter((entry) => {
+          if (typeof entry?.value === 'string' && !isMaskedValue(entry.value)) return true;
+          skipped.push(`${type} ${entry?.name}: masked value`);
+          return false;
+        });
+        entriesSet += entries[type]!.length;
+      }
+      if (entriesSet > 0) {
+        await this.runInPage(scope, params, { action: 'import', types: pageTypes, entries });
+      }
+    }
+
+    return textResult({
+      success: true,
+      action: 'import',
+      origin: scope.origin,
+      cookiesSet,
+      entriesSet,
+      skipped,
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Cookies
+  // ---------------------------------------------------------------------------
+
+  private async getScopedCookies(scope: Scope): Promise<chrome.cookies.Cookie[]> {
+    if (scope.url) {
+      return chrome.cookies.getAll({ url: scope.url });
+    }
+    return (await chrome.cookies.getAll({})).filter((c) => cookieMatchesScope(c, scope));
+  }
+
+  private async setCookie(
+    scope: Scope,
+    name: string,
+    value: string,
+    options: CookieOptions = {},
+  ): Promise<chrome.cookies.Cookie> {
+    const path = options.path || '/';
+    const cookie = await chrome.cookies.set({
+      url: scope.url ?? `${scope.origin}${path}`,
+      name,
+      value,
+      domain: options.domain,
+      path,
+      secure: options.secure,
+      httpOnly: options.httpOnly,
+      sameSite: options.sameSite,
+      expirationDate: options.expirationDate,
+    });
+    if (!cookie) {
+      throw new Error(chrome.runtime.lastError?.message || `Cookie "${name}" was rejected`);
+    }
+    return cookie;
+  }
+
+  private async removeCookies(cookies: chrome.cookies.Cookie[]): Promise<number> {
+    let removed = 0;
+    for (const cookie of cookies) {
+      const details = await chrome.cookies.remove({
+        url: cookieUrl(cookie),
+        name: cookie.name,
+        storeId: cookie.storeId,
+      });
+      if (details) removed++;
+    }
+    return removed;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Page storage
+  // ---------------------------------------------------------------------------
+
+  private singleType(params: StorageStateParams): StorageType {
+    if (params.types?.length !== 1) {
+      throw new Error(`${params.action} needs exactly one entry in types`);
+    }
+    return params.types[0];
+  }
+
+  /**
+   * The tab the caller named, or the active tab when no scope is given
+   */
+  private async resolveTargetTab(params: StorageStateParams): Promise<chrome.tabs.Tab | null> {
+    if (typeof params.tabId === 'number') {
+      const tab = await this.tryGetTab(params.tabId);
+      if (!tab) throw new Error(`Tab ${params.tabId} not found`);
+      return tab;
+    }
+    if (params.url || params.origin) return null;
+    return this.getActiveTabOrThrow();
+  }
+
+  /**
+   * Run the page script in a tab on the scope's origin (the named tab, else the
+   * active one, else any tab on that origin)
+   */
+  private async runInPage(
+    scope: Scope,
+    params: StorageStateParams,
+    request: PageStorageRequest,
+  ): Promise<PageStorageResult> {
+    const sameOrigin = (tab: chrome.tabs.Tab | null | undefined) => {
+      try {
+        return !!tab?.url && new URL(tab.url).origin === scope.origin;
+      } catch {
+        return false;
+      }
+    };
+
+    let tab: chrome.tabs.Tab | null = null;
+    if (typeof params.tabId === 'number') {
+      tab = await this.tryGetTab(params.tabId);
+      if (!sameOrigin(tab)) {
+        throw new Error(`Tab ${params.tabId} is not on ${scope.origin}`);
+      }
+    } else {
+      const tabs = (await this.getSessionScopedTabs()).filter(sameOrigin);
+      tab = tabs.find((t) => t.active) ?? tabs[0] ?? null;
+    }
+    if (!tab?.id) {
+      throw new Error(`Open a tab on ${scope.origin} to access its page storage`);
+    }
+
+    const [injection] = await chrome.scripting.executeScript({
+      target: { tabId: tab.id },
+      func: pageStorageScript,
+      args: [request],
+    });
+    if (!injection?.result) {
+      throw new Error(`Could not access page storage in tab ${tab.id}`);
+    }
+    return injection.result as PageStorageResult;
+  }
+}
+
+export const storageStateTool = new StorageStateTool();
@@ -3,7 +3,12 @@
  * Uses vector database for efficient semantic search
  */
 
-import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import {
+  createErrorResponse,
+  ToolCancelledError,
+  ToolExecutionContext,
+  ToolResult,
+} from '@/common/tool-handler';
 import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
 import { ContentIndexer } from '@/utils/content-indexer';
@@ -48,7 +53,7 @@ class VectorSearchTabsContentTool extends BaseBrowserToolExecutor {
     }
   }
 
-  async execute(args: { query: string }): Promise<ToolResult> {
+  async execute(args: { query: string }, context?: ToolExecutionContext): Promise<ToolResult> {
     try {
       const { query } = args;
 
@@ -69,6 +74,7 @@ class VectorSearchTabsContentTool extends BaseBrowserToolExecutor {
         } else {
           // Try to initialize
           console.log('VectorSearchTabsContentTool: Initializing content indexer...');
+          this.reportProgress(context, 0, 2, 'Initializing search engine');
           await this.initializeIndexer();
 
           // Check semantic engine status again
@@ -79,7 +85,10 @@ class VectorSearchTabsContentTool extends BaseBrowserToolExecutor {
       }
 
       // Execute vector search, get more results for deduplication
+      this.throwIfCancelled(context);
+      this.reportProgress(context, 1, 2, 'Searching indexed tabs');
       const searchResults = await this.contentIndexer.searchContent(query, 50);
+      this.throwIfCancelled(context);
 
       // Convert search results format
       const vectorSearchResults = this.convertSearchResults(searchResults);
@@ -121,6 +130,7 @@ class VectorSearchTabsContentTool extends BaseBrowserToolExecutor {
       console.log(
         `VectorSearchTabsContentTool: Found ${topResults.length} results with vector search`,
       );
+      this.reportProgress(context, 2, 2, `Found ${topResults.length} matching tabs`);
 
       return {
         content: [
@@ -132,6 +142,7 @@ class VectorSearchTabsContentTool extends BaseBrowserToolExecutor {
         isError: false,
       };
     } catch (error) {
+      if (error instanceof ToolCancelledError) throw error;
       console.error('VectorSearchTabsContentTool: Search failed:', error);
       return createErrorResponse(
         `Vector search failed: ${error instanceof Error ? error.message : String(error)}`,
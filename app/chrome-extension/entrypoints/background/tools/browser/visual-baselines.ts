@@ -0,0 +1,133 @@
+/**
+ * IndexedDB storage for chrome_visual_diff baselines
+ *
+ * A baseline is identified by its name, the page URL (origin + path; query and
+ * hash are ignored) and the viewport it was captured at, so the same name can
+ * hold one baseline per page and screen size.
+ */
+
+import { IndexedDbClient } from '@/utils/indexeddb-client';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DB_NAME = 'visual_baselines';
+const DB_VERSION = 1;
+const STORE = 'baselines';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BaselineViewport {
+  /** CSS pixels */
+  width: number;
+  height: number;
+  deviceScaleFactor: number;
+}
+
+export interface VisualBaseline {
+  id: string;
+  name: string;
+  /** origin + pathname */
+  url: string;
+  viewport: BaselineViewport;
+  fullPage: boolean;
+  /** base64 PNG */
+  image: string;
+  imageWidth: number;
+  imageHeight: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type BaselineSummary = Omit<VisualBaseline, 'image'>;
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+const idb = new IndexedDbClient(DB_NAME, DB_VERSION, (db, oldVersion) => {
+  switch (oldVersion) {
+    case 0: {
+      const store = db.createObjectStore(STORE, { keyPath: 'id' });
+      store.createIndex('by_name', 'name', { unique: false });
+      store.createIndex('by_url', 'url', { unique: false });
+    }
+  }
+});
+
+export function baselineUrlKey(raw: string): string {
+  try {
+    const u = new URL(raw);
+    return `${u.origin}${u.pathname}`;
+  } catch {
+    return raw;
+  }
+}
+
+export function baselineId(
+  name: string,
+  url: string,
+  viewport: BaselineViewport,
+  fullPage: boolean,
+): string {
+  const size = `${viewport.width}x${viewport.height}@${viewport.deviceScaleFactor}`;
+  return [name, baselineUrlKey(url), size, fullPage ? 'full' : 'viewport'].join('|');
+}
+
+function summarize({ image: _image, ...rest }: VisualBaseline): BaselineSummary {
+  return rest;
+}
+
+export async function getBaseline(id: string): Promise<VisualBaseline | undefined> {
+  return idb.get<VisualBaseline>(STORE, id);
+}
+
+export async function saveBaseline(
+  baseline: Omit<VisualBaseline, 'id' | 'createdAt' | 'updatedAt'>,
+): Promise<BaselineSummary> {
+  const id = baselineId(baseline.name, baseline.url, baseline.viewport, baseline.fullPage);
+  const existing = await getBaseline(id);
+  const now = Date.now();
+  const record: VisualBaseline = {
+    ...baseline,
+    id,
+    url: baselineUrlKey(baseline.url),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await idb.put<VisualBaseline>(STORE, record);
+  return summarize(record);
+}
+
+/**
+ * Baselines without their image data, optionally filtered by name and/or URL
+ */
+export async function listBaselines(filter: {
+  name?: string;
+  url?: string;
+}): Promise<BaselineSummary[]> {
+  const url = filter.url ? baselineUrlKey(filter.url) : undefined;
+  const all = await idb.getAll<VisualBaseline>(STORE);
+  return all
+    .filter((b) => (!filter.name || b.name === filter.name) && (!url || b.url === url))
+    .map(summarize)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Delete the baselines matching a filter; returns how many were removed
+ */
+export async function deleteBaselines(filter: {
+  id?: string;
+  name?: string;
+  url?: string;
+}): Promise<number> {
+  let ids: string[];
+  if (filter.id) ids = (await getBaseline(filter.id)) ? [filter.id] : [];
+  else ids = (await listBaselines(filter)).map((b) => b.id);
+  for (const id of ids) await idb.delete(STORE, id);
+  return ids.length;
+}
@@ -0,0 +1,370 @@
+/**
+ * Visual Diff Tool - screenshot baselines and regression comparison
+ *
+ * - save_baseline: capture the tab (viewport or full page) via CDP and store it
+ *   in IndexedDB under a name, keyed by URL + viewport (see visual-baselines.ts)
+ * - compare: capture again and diff against the stored baseline in the
+ *   offscreen document; returns the mismatch percentage, changed regions and a
+ *   highlighted diff image
+ * - list / delete: manage stored baselines
+ *
+ * Ignore regions (by selector or rect) are applied at compare time.
+ */
+
+import { createErrorResponse, ToolResult } from '@/common/tool-handler';
+import { BaseBrowserToolExecutor } from '../base-browser';
+import { TOOL_NAMES } from 'chrome-mcp-shared';
+import { MessageTarget, OFFSCREEN_MESSAGE_TYPES } from '@/common/message-types';
+import { cdpSessionManager } from '@/utils/cdp-session-manager';
+import { offscreenManager } from '@/utils/offscreen-manager';
+import {
+  baselineId,
+  baselineUrlKey,
+  deleteBaselines,
+  getBaseline,
+  listBaselines,
+  saveBaseline,
+  type BaselineViewport,
+} from './visual-baselines';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CDP_SESSION_KEY = 'visual-diff';
+const DEFAULT_NAME = 'default';
+const DEFAULT_THRESHOLD = 0.1;
+
+/** Chrome refuses captures taller than this (image pixels) */
+const MAX_CAPTURE_HEIGHT = 16384;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type VisualDiffAction = 'save_baseline' | 'compare' | 'list' | 'delete';
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface VisualDiffParams {
+  action: VisualDiffAction;
+  name?: string;
+  tabId?: number;
+  windowId?: number;
+  /** Baseline URL for list/delete (default: all URLs) */
+  url?: string;
+  fullPage?: boolean;
+  // compare
+  ignoreSelectors?: string[];
+  ignoreRects?: Rect[];
+  threshold?: number;
+  mode?: 'pixel' | 'perceptual';
+  tolerance?: number;
+  includeDiffImage?: boolean;
+  updateBaseline?: boolean;
+}
+
+interface Capture {
+  url: string;
+  viewport: BaselineViewport;
+  fullPage: boolean;
+  /** base64 PNG */
+  image: string;
+  imageWidth: number;
+  imageHeight: number;
+  /** Ignore regions in image pixels */
+  ignoreRects: Rect[];
+}
+
+interface DiffResponse {
+  success: boolean;
+  error?: string;
+  comparedPixels: number;
+  mismatchedPixels: number;
+  mismatchPercentage: number;
+  regions: Array<Rect & { pixels: number }>;
+  regionCount: number;
+  diffImage?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Page-side: document or viewport rects of every element matching the selectors
+ */
+function collectSelectorRects(selectors: string[], documentSpace: boolean): Rect[] {
+  const rects: Rect[] = [];
+  const dx = documentSpace ? window.scrollX : 0;
+  const dy = documentSpace ? window.scrollY : 0;
+  for (const selector of selectors) {
+    let nodes: NodeListOf<Element>;
+    try {
+      nodes = document.querySelectorAll(selector);
+    } catch {
+      continue;
+    }
+    nodes.forEach((node) => {
+      const r = node.getBoundingClientRect();
+      if (r.width > 0 && r.height > 0) {
+        rects.push({ x: r.left + dx, y: r.top + dy, width: r.width, height: r.height });
+      }
+    });
+  }
+  return rects;
+}
+
+function validRect(r: Rect | undefined): r is Rect {
+  return !!r && [r.x, r.y, r.width, r.height].every((v) => Number.isFinite(Number(v)));
+}
+
+function scaleRect(r: Rect, scale: number): Rect {
+  return { x: r.x * scale, y: r.y * scale, width: r.width * scale, height: r.height * scale };
+}
+
+function roundRect<T extends Rect>(r: T): T {
+  return {
+    ...r,
+    x: Math.round(r.x),
+    y: Math.round(r.y),
+    width: Math.round(r.width),
+    height: Math.round(r.height),
+  };
+}
+
+// ============================================================================
+// Tool
+// ============================================================================
+
+class VisualDiffTool extends BaseBrowserToolExecutor {
+  name = TOOL_NAMES.BROWSER.VISUAL_DIFF;
+
+  async execute(args: VisualDiffParams): Promise<ToolResult> {
+    const params = args || ({} as VisualDiffParams);
+    const name = typeof params.name === 'string' && params.name.trim() ? params.name.trim() : '';
+
+    try {
+      switch (params.action) {
+        case 'list': {
+          const baselines = await listBaselines({ name: name || undefined, url: params.url });
+          return this.ok({ action: 'list', count: baselines.length, baselines });
+        }
+        case 'delete': {
+          if (!name && !params.url) {
+            return createErrorResponse('Provide name and/or url of the baselines to delete');
+          }
+          const deleted = await deleteBaselines({ name: name || undefined, url: params.url });
+          return this.ok({ action: 'delete', deleted });
+        }
+        case 'save_baseline':
+        case 'compare':
+          break;
+        default:
+          return createErrorResponse('action must be one of: save_baseline, compare, list, delete');
+      }
+
+      const explicit = await this.tryGetTab(params.tabId);
+      const tab = explicit || (await this.getActiveTabOrThrowInWindow(params.windowId));
+      if (!tab.id || !tab.url) return createErrorResponse('Target tab has no ID or URL');
+      if (/^(chrome|edge|chrome-extension):\/\//.test(tab.url)) {
+        return createErrorResponse('Cannot capture browser or extension pages');
+      }
+
+      const capture = await this.capture(tab.id, tab.url, params);
+      const baselineName = name || DEFAULT_NAME;
+
+      if (params.action === 'save_baseline') {
+        const saved = await saveBaseline({
+          name: baselineName,
+          url: capture.url,
+          viewport: capture.viewport,
+          fullPage: capture.fullPage,
+          image: capture.image,
+          imageWidth: capture.imageWidth,
+          imageHeight: capture.imageHeight,
+        });
+        return this.ok({ action: 'save_baseline', baseline: saved });
+      }
+
+      return await this.compare(baselineName, capture, params);
+    } catch (error) {
+      return createErrorResponse(
+        `Visual diff failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private async compare(
+    name: string,
+    capture: Capture,
+    params: VisualDiffParams,
+  ): Promise<ToolResult> {
+    const id = baselineId(name, capture.url, capture.viewport, capture.fullPage);
+    const baseline = await getBaseline(id);
+    if (!baseline) {
+      const others = await listBaselines({ name, url: capture.url });
+      const hint = others.length
+        ? ` Baselines exist for other viewports: ${others
+            .map(
+              (b) =>
+                `${b.viewport.width}x${b.viewport.height}@${b.viewport.deviceScaleFactor}${b.fullPage ? ' (fullPage)' : ''}`,
+            )
+            .join(', ')}.`
+        : ' Run action="save_baseline" first.';
+      return createErrorResponse(
+        `No baseline "${name}" for ${baselineUrlKey(capture.url)} at ${capture.viewport.width}x${capture.viewport.height}@${capture.viewport.deviceScaleFactor}.${hint}`,
+      );
+    }
+
+    const includeDiffImage = params.includeDiffImage !== false;
+    const diff = await this.sendToOffscreen({
+      baseline: baseline.image,
+      current: capture.image,
+      ignoreRects: capture.ignoreRects,
+      threshold: typeof params.threshold === 'number' ? params.threshold : DEFAULT_THRESHOLD,
+      mode: params.mode === 'pixel' ? 'pixel' : 'perceptual',
+      includeDiffImage,
+    });
+
+    const tolerance = typeof params.tolerance === 'number' ? Math.max(0, params.tolerance) : 0;
+    let baselineUpdated = false;
+    if (params.updateBaseline === true) {
+      await saveBaseline({
+        ...baseline,
+        image: capture.image,
+        imageWidth: capture.imageWidth,
+        imageHeight: capture.imageHeight,
+      });
+      baselineUpdated = true;
+    }
+
+    // Regions go back in CSS pixels so they line up with page coordinates
+    const scale = capture.viewport.deviceScaleFactor || 1;
+    const summary = {
+      success: true,
+      action: 'compare',
+      name,
+      url: capture.url,
+      viewport: capture.viewport,
+      fullPage: capture.fullPage,
+      match: diff.mismatchPercentage <= tolerance,
+      mismatchPercentage: diff.mismatchPercentage,
+      tolerance,
+      mismatchedPixels: diff.mismatchedPixels,
+      comparedPixels: diff.comparedPixels,
+      sizeChanged:
+        baseline.imageWidth !== capture.imageWidth || baseline.imageHeight !== capture.imageHeight,
+      regionCount: diff.regionCount,
+      regions: diff.regions.map((r) => roundRect({ ...scaleRect(r, 1 / scale), pixels: r.pixels })),
+      ignoredRegions: capture.ignoreRects.length,
+      baselineUpdatedAt: baseline.updatedAt,
+      ...(baselineUpdated ? { baselineUpdated } : {}),
+    };
+
+    const content: ToolResult['content'] = [{ type: 'text', text: JSON.stringify(summary) }];
+    if (includeDiffImage && diff.diffImage) {
+      content.push({ type: 'image', data: diff.diffImage, mimeType: 'image/png' });
+    }
+    return { content, isError: false };
+  }
+
+  /**
+   * Capture the tab as PNG with CDP and resolve ignore regions to image pixels
+   */
+  private async capture(tabId: number, url: string, params: VisualDiffParams): Promise<Capture> {
+    const fullPage = params.fullPage === true;
+    const selectors = (params.ignoreSelectors ?? []).filter(
+      (s): s is string => typeof s === 'string' && s.trim().length > 0,
+    );
+
+    return await cdpSessionManager.withSession(tabId, CDP_SESSION_KEY, async () => {
+      const metrics = await cdpSessionManager.sendCommand<any>(tabId, 'Page.getLayoutMetrics', {});
+      const layout = metrics?.cssLayoutViewport || metrics?.layoutViewport || {};
+      const content = metrics?.cssContentSize || metrics?.contentSize || {};
+      const dprResult = await cdpSessionManager.sendCommand<any>(tabId, 'Runtime.evaluate', {
+        expression: 'window.devicePixelRatio',
+        returnByValue: true,
+      });
+      const deviceScaleFactor = Number(dprResult?.result?.value) || 1;
+      const viewport: BaselineViewport = {
+        width: Math.round(layout.clientWidth || 0),
+        height: Math.round(layout.clientHeight || 0),
+        deviceScaleFactor,
+      };
+
+      const shotParams: Record<string, unknown> = { format: 'png' };
+      if (fullPage) {
+        const maxHeight = Math.floor(MAX_CAPTURE_HEIGHT / deviceScaleFactor);
+        shotParams.captureBeyondViewport = true;
+        shotParams.clip = {
+          x: 0,
+          y: 0,
+          width: Math.ceil(content.width || viewport.width),
+          height: Math.min(Math.ceil(content.height || viewport.height), maxHeight),
+          scale: 1,
+        };
+      }
+      const shot = await cdpSessionManager.sendCommand<{ data: string }>(
+        tabId,
+        'Page.captureScreenshot',
+        shotParams,
+      );
+      if (!shot?.data) throw new Error('Page.captureScreenshot returned no data');
+
+      const cssRects: Rect[] = (params.ignoreRects ?? []).filter(validRect).map((r) => ({
+        x: Number(r.x),
+        y: Number(r.y),
+        width: Number(r.width),
+        height: Number(r.height),
+      }));
+      if (selectors.length) {
+        const [injected] = await chrome.scripting.executeScript({
+          target: { tabId },
+          func: collectSelectorRects,
+          args: [selectors, fullPage],
+        });
+        const found = injected?.result;
+        if (Array.isArray(found)) cssRects.push(...found.filter(validRect));
+      }
+
+      const width = fullPage ? (shotParams.clip as Rect).width : viewport.width;
+      const height = fullPage ? (shotParams.clip as Rect).height : viewport.height;
+      return {
+        url,
+        viewport,
+        fullPage,
+        image: shot.data,
+        imageWidth: Math.round(width * deviceScaleFactor),
+        imageHeight: Math.round(height * deviceScaleFactor),
+        ignoreRects: cssRects.map((r) => scaleRect(r, deviceScaleFactor)),
+      };
+    });
+  }
+
+  private async sendToOffscreen(payload: Record<string, unknown>): Promise<DiffResponse> {
+    await offscreenManager.ensureOffscreenDocument();
+    const response = (await chrome.runtime.sendMessage({
+      target: MessageTarget.Offscreen,
+      type: OFFSCREEN_MESSAGE_TYPES.VISUAL_DIFF_COMPARE,
+      ...payload,
+    })) as DiffResponse | undefined;
+    if (!response) throw new Error('No response received from offscreen document');
+    if (!response.success) throw new Error(response.error || 'Unknown offscreen error');
+    return response;
+  }
+
+  private ok(payload: Record<string, unknown>): ToolResult {
+    return {
+      content: [{ type: 'text', text: JSON.stringify({ success: true, ...payload }) }],
+      isError: false,
+    };
+  }
+}
+
+export const visualDiffTool = new VisualDiffTool();
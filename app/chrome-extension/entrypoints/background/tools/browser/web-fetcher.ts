@@ -11,6 +11,7 @@ interface WebFetcherToolParams {
   tabId?: number; // target existing tab id
   background?: boolean; // do not activate/focus
   windowId?: number; // target window id to pick active tab or create tab
+  frameId?: number; // read a child frame (ids from chrome_read_page / get_windows_and_tabs frames)
 }
 
 class WebFetcherTool extends BaseBrowserToolExecutor {
@@ -28,6 +29,7 @@ class WebFetcherTool extends BaseBrowserToolExecutor {
     const explicitTabId = args.tabId;
     const background = args.background === true;
     const windowId = args.windowId;
+    const frameId = typeof args.frameId === 'number' ? args.frameId : undefined;
 
     console.log(`Starting web fetcher with options:`, {
       htmlContent,
@@ -97,14 +99,26 @@ class WebFetcherTool extends BaseBrowserToolExecutor {
         title: tab.title,
       };
 
-      await this.injectContentScript(tab.id, ['inject-scripts/web-fetcher-helper.js']);
+      await this.injectContentScript(
+        tab.id,
+        ['inject-scripts/web-fetcher-helper.js'],
+        false,
+        'ISOLATED',
+        false,
+        frameId !== undefined ? [frameId] : undefined,
+      );
+      if (frameId !== undefined) result.frameId = frameId;
 
       // Get HTML content if requested
       if (htmlContent) {
-        const htmlResponse = await this.sendMessageToTab(tab.id, {
-          action: TOOL_MESSAGE_TYPES.WEB_FETCHER_GET_HTML_CONTENT,
-          selector: selector,
-        });
+        const htmlResponse = await this.sendMessageToTab(
+          tab.id,
+          {
+            action: TOOL_MESSAGE_TYPES.WEB_FETCHER_GET_HTML_CONTENT,
+            selector: selector,
+          },
+          frameId,
+        );
 
         if (htmlResponse.success) {
           result.htmlContent = htmlResponse.htmlContent;
@@ -116,10 +130,14 @@ class WebFetcherTool extends BaseBrowserToolExecutor {
 
       // Get text content if requested (and htmlContent is not true)
       if (textContent) {
-        const textResponse = await this.sendMessageToTab(tab.id, {
-          action: TOOL_MESSAGE_TYPES.WEB_FETCHER_GET_TEXT_CONTENT,
-          selector: selector,
-        });
+        const textResponse = await this.sendMessageToTab(
+          tab.id,
+          {
+            action: TOOL_MESSAGE_TYPES.WEB_FETCHER_GET_TEXT_CONTENT,
+            selector: selector,
+          },
+          frameId,
+        );
 
         if (textResponse.success) {
           result.textContent = textResponse.textContent;
@@ -2,17 +2,37 @@ import { createErrorResponse, ToolResult } from '@/common/tool-handler';
 import { BaseBrowserToolExecutor } from '../base-browser';
 import { TOOL_NAMES } from 'chrome-mcp-shared';
 import { getCurrentSession } from '../../tab-group-session';
+import { listFrames, type FrameInfo } from '../frame-refs';
+
+interface WindowToolParams {
+  includeFrames?: boolean; // add each tab's frame tree
+}
 
 class WindowTool extends BaseBrowserToolExecutor {
   name = TOOL_NAMES.BROWSER.GET_WINDOWS_AND_TABS;
-  async execute(): Promise<ToolResult> {
+  async execute(args?: WindowToolParams): Promise<ToolResult> {
     try {
       const session = getCurrentSession();
+      const frameTrees = new Map<number, FrameInfo[]>();
+      const loadFrames = async (tabs: chrome.tabs.Tab[]) => {
+        if (!args?.includeFrames) return;
+        for (const tab of tabs) {
+          if (typeof tab.id !== 'number') continue;
+          try {
+            frameTrees.set(tab.id, await listFrames(tab.id));
+          } catch {
+            // Discarded or special tabs have no frames to report
+          }
+        }
+      };
+      const framesOf = (tab: chrome.tabs.Tab) =>
+        args?.includeFrames ? { frames: frameTrees.get(tab.id ?? -1) ?? [] } : {};
 
       // If session is active, only return tabs in the session's tab group
       if (session) {
         const sessionTabs = await chrome.tabs.query({ groupId: session.groupId });
         const tabCount = sessionTabs.length;
+        await loadFrames(sessionTabs);
 
         const tabs = sessionTabs.map((tab) => ({
           tabId: tab.id || 0,
@@ -20,6 +40,7 @@ class WindowTool extends BaseBrowserToolExecutor {
           title: tab.title || '',
           active: tab.active || false,
           groupId: tab.groupId,
+          ...framesOf(tab),
         }));
 
         const result = {
@@ -45,6 +66,7 @@ class WindowTool extends BaseBrowserToolExecutor {
       // No session - return all windows and tabs
       const windows = await chrome.windows.getAll({ populate: true });
       let tabCount = 0;
+      await loadFrames(windows.flatMap((w) => w.tabs ?? []));
 
       const structuredWindows = windows.map((window) => {
         const tabs =
@@ -55,6 +77,7 @@ class WindowTool extends BaseBrowserToolExecutor {
               url: tab.url || '',
               title: tab.title || '',
               active: tab.active || false,
+              ...framesOf(tab),
             };
           }) || [];
 
@@ -0,0 +1,143 @@
+/**
+ * Frame-aware element refs
+ *
+ * The accessibility helper numbers refs per document (`ref_12`), so a ref is only
+ * meaningful together with the frame it came from. Refs handed out for child
+ * frames carry their extension frame id: `f<frameId>:ref_12`. Main-frame refs
+ * stay unprefixed, so existing refs keep working.
+ *
+ * Extension frame ids address out-of-process iframes as well, so routing a
+ * message with `chrome.tabs.sendMessage(..., { frameId })` reaches them without
+ * attaching to their CDP target.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const FRAME_REF_PATTERN = /^f(\d+):(.+)$/;
+
+/** Message fields that carry a ref and decide which frame a message goes to */
+const REF_FIELDS = ['ref', 'refId', 'startRef'] as const;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FrameInfo {
+  frameId: number;
+  parentFrameId: number;
+  url: string;
+  /** Origin differs from the parent frame's */
+  crossOrigin: boolean;
+  /** Nesting level (main frame = 0) */
+  depth: number;
+}
+
+// ============================================================================
+// Refs
+// ============================================================================
+
+export function encodeFrameRef(ref: string, frameId: number | undefined): string {
+  if (!frameId || FRAME_REF_PATTERN.test(ref)) return ref;
+  return `f${frameId}:${ref}`;
+}
+
+export function decodeFrameRef(ref: string): { ref: string; frameId?: number } {
+  const match = FRAME_REF_PATTERN.exec(ref);
+  return match ? { ref: match[2], frameId: Number(match[1]) } : { ref };
+}
+
+/**
+ * Prefix every `[ref=...]` in accessibility tree text with the frame id
+ */
+export function encodeFrameRefsInText(text: string, frameId: number): string {
+  if (!frameId) return text;
+  return text.replace(/\[ref=([^\]\s]+)\]/g, (_, ref) => `[ref=${encodeFrameRef(ref, frameId)}]`);
+}
+
+/**
+ * Move `(x=..,y=..)` coordinates in accessibility tree text by a frame's offset
+ */
+export function shiftCoordinatesInText(text: string, dx: number, dy: number): string {
+  if (!dx && !dy) return text;
+  return text.replace(
+    /\(x=(-?\d+),y=(-?\d+)\)/g,
+    (_, x, y) => `(x=${Math.round(Number(x) + dx)},y=${Math.round(Number(y) + dy)})`,
+  );
+}
+
+/**
+ * Strip frame prefixes from the ref fields of a content-script message and
+ * work out which frame it has to go to. Throws when the refs (or an explicit
+ * frameId) point at different frames.
+ */
+export function routeFrameRefs<T extends Record<string, any>>(
+  message: T,
+  frameId?: number,
+): { message: T; frameId?: number } {
+  let target = frameId;
+  let routed: T | null = null;
+  for (const field of REF_FIELDS) {
+    const value = message?.[field];
+    if (typeof value !== 'string') continue;
+    const decoded = decodeFrameRef(value);
+    if (decoded.frameId === undefined) continue;
+    if (target !== undefined && target !== decoded.frameId) {
+      throw new Error(
+        `${field} "${value}" belongs to frame ${decoded.frameId}, but the call targets frame ${target}`,
+      );
+    }
+    target = decoded.frameId;
+    routed = { ...(routed ?? message), [field]: decoded.ref };
+  }
+  return { message: routed ?? message, frameId: target };
+}
+
+// ============================================================================
+// Frame inventory
+// ============================================================================
+
+function originOf(url: string): string | null {
+  try {
+    const origin = new URL(url).origin;
+    return origin === 'null' ? null : origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Frame tree of a tab in document order (parents before children)
+ */
+export async function listFrames(tabId: number): Promise<FrameInfo[]> {
+  const frames = (await chrome.webNavigation.getAllFrames({ tabId })) ?? [];
+  const live = frames.filter((f) => !f.errorOccurred);
+  const byId = new Map(live.map((f) => [f.frameId, f]));
+  const children = new Map<number, typeof live>();
+  for (const frame of live) {
+    if (frame.frameId === 0) continue;
+    const siblings = children.get(frame.parentFrameId) ?? [];
+    siblings.push(frame);
+    children.set(frame.parentFrameId, siblings);
+  }
+
+  const result: FrameInfo[] = [];
+  const visit = (frameId: number, depth: number) => {
+    const frame = byId.get(frameId);
+    if (!frame) return;
+    const parent = byId.get(frame.parentFrameId);
+    // about:blank/srcdoc frames inherit their parent's origin
+    const origin = originOf(frame.url);
+    result.push({
+      frameId,
+      parentFrameId: frame.parentFrameId,
+      url: frame.url,
+      crossOrigin: !!parent && origin !== null && origin !== originOf(parent.url),
+      depth,
+    });
+    for (const child of children.get(frameId) ?? []) visit(child.frameId, depth + 1);
+  };
+  visit(0, 0);
+  return result;
+}
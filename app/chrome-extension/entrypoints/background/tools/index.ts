@@ -1,7 +1,10 @@
-import { createErrorResponse } from '@/common/tool-handler';
+import { createErrorResponse, ToolCancelledError } from '@/common/tool-handler';
+import type { ToolExecutionContext } from '@/common/tool-handler';
 import { ERROR_MESSAGES } from '@/common/constants';
 import * as browserTools from './browser';
 import { flowRunTool, listPublishedFlowsTool } from './record-replay';
+import { isFlowToolName } from '../btcp-tool-definitions';
+import { runPublishedFlow } from '../btcp-flow-tools';
 
 const tools = { ...browserTools, flowRunTool, listPublishedFlowsTool } as any;
 const toolsMap = new Map(Object.values(tools).map((tool: any) => [tool.name, tool]));
@@ -17,15 +20,27 @@ export interface ToolCallParam {
 /**
  * Handle tool execution
  */
-export const handleCallTool = async (param: ToolCallParam) => {
-  const tool = toolsMap.get(param.name);
+export const handleCallTool = async (param: ToolCallParam, context?: ToolExecutionContext) => {
+  // Published Record-Replay flows are registered as tools of their own
+  const tool =
+    toolsMap.get(param.name) ??
+    (isFlowToolName(param.name)
+      ? {
+          execute: (args: any, ctx?: ToolExecutionContext) =>
+            runPublishedFlow(param.name, args, ctx),
+        }
+      : undefined);
   if (!tool) {
     return createErrorResponse(`Tool ${param.name} not found`);
   }
 
   try {
-    return await tool.execute(param.args);
+    if (context?.signal?.aborted) throw new ToolCancelledError();
+    return await tool.execute(param.args, context);
   } catch (error) {
+    if (error instanceof ToolCancelledError || context?.signal?.aborted) {
+      return createErrorResponse(`Tool ${param.name} cancelled`);
+    }
     console.error(`Tool execution failed for ${param.name}:`, error);
     return createErrorResponse(
       error instanceof Error ? error.message : ERROR_MESSAGES.TOOL_EXECUTION_FAILED,
@@ -6,6 +6,7 @@ import {
   BACKGROUND_MESSAGE_TYPES,
 } from '@/common/message-types';
 import { handleGifMessage } from './gif-encoder';
+import { handleVisualDiffMessage } from './visual-diff';
 import { initKeepalive } from './rr-keepalive';
 
 // 初始化 RR V3 Keepalive
@@ -72,6 +73,10 @@ chrome.runtime.onMessage.addListener(
       return true;
     }
 
+    if (handleVisualDiffMessage(message, sendResponse)) {
+      return true;
+    }
+
     try {
       switch (message.type) {
         case SendMessageType.SimilarityEngineInit:
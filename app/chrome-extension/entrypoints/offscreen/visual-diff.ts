@@ -0,0 +1,349 @@
+/**
+ * Visual Diff Module for Offscreen Document
+ *
+ * Compares a baseline screenshot with a fresh capture for chrome_visual_diff.
+ * Decoding, the per-pixel comparison and diff image encoding run here so the
+ * service worker is not blocked on multi-megapixel loops.
+ */
+
+import { MessageTarget, OFFSCREEN_MESSAGE_TYPES } from '@/common/message-types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Changed pixels are grouped into cells of this size (px) to build regions */
+const REGION_CELL_SIZE = 8;
+const MAX_REGIONS = 50;
+
+/** Largest YIQ delta between two colors (black vs white) */
+const MAX_YIQ_DELTA = 35215;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface VisualDiffCompareMessage {
+  target: MessageTarget;
+  type: typeof OFFSCREEN_MESSAGE_TYPES.VISUAL_DIFF_COMPARE;
+  /** base64 PNG */
+  baseline: string;
+  /** base64 PNG */
+  current: string;
+  /** Regions to skip, in image pixels */
+  ignoreRects?: Rect[];
+  /** 0-1, how different a pixel must be to count as changed */
+  threshold?: number;
+  mode?: 'pixel' | 'perceptual';
+  includeDiffImage?: boolean;
+}
+
+type VisualDiffOptions = Pick<
+  VisualDiffCompareMessage,
+  'ignoreRects' | 'threshold' | 'mode' | 'includeDiffImage'
+>;
+
+/** Decoded RGBA pixels (an ImageData or anything shaped like one) */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface DiffRegion extends Rect {
+  pixels: number;
+}
+
+export interface VisualDiffResponse {
+  success: boolean;
+  error?: string;
+  width?: number;
+  height?: number;
+  baselineSize?: { width: number; height: number };
+  currentSize?: { width: number; height: number };
+  comparedPixels?: number;
+  mismatchedPixels?: number;
+  mismatchPercentage?: number;
+  regions?: DiffRegion[];
+  regionCount?: number;
+  /** base64 PNG: changes in red, ignored areas in amber, regions outlined */
+  diffImage?: string;
+}
+
+// ============================================================================
+// Image helpers
+// ============================================================================
+
+async function decodePng(base64: string): Promise<ImageData> {
+  const blob = await (await fetch(`data:image/png;base64,${base64}`)).blob();
+  const bitmap = await createImageBitmap(blob);
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('2D context unavailable');
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function encodePng(canvas: OffscreenCanvas): Promise<string> {
+  const bytes = new Uint8Array(
+    await (await canvas.convertToBlob({ type: 'image/png' })).arrayBuffer(),
+  );
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** Blend a channel with white by alpha, so transparent pixels compare as white */
+function blend(channel: number, alpha: number): number {
+  return 255 + ((channel - 255) * alpha) / 255;
+}
+
+/** Perceived color difference in YIQ space (as used by pixelmatch) */
+function yiqDelta(a: Uint8ClampedArray, i: number, b: Uint8ClampedArray, j: number): number {
+  const r1 = blend(a[i], a[i + 3]);
+  const g1 = blend(a[i + 1], a[i + 3]);
+  const b1 = blend(a[i + 2], a[i + 3]);
+  const r2 = blend(b[j], b[j + 3]);
+  const g2 = blend(b[j + 1], b[j + 3]);
+  const b2 = blend(b[j + 2], b[j + 3]);
+  const dy = (r1 - r2) * 0.29889531 + (g1 - g2) * 0.58662247 + (b1 - b2) * 0.11448223;
+  const di = (r1 - r2) * 0.59597799 - (g1 - g2) * 0.2741761 - (b1 - b2) * 0.32180189;
+  const dq = (r1 - r2) * 0.21147017 - (g1 - g2) * 0.52261711 + (b1 - b2) * 0.31114694;
+  return 0.5053 * dy * dy + 0.299 * di * di + 0.1957 * dq * dq;
+}
+
+function maxChannelDelta(a: Uint8ClampedArray, i: number, b: Uint8ClampedArray, j: number) {
+  return Math.max(
+    Math.abs(a[i] - b[j]),
+    Math.abs(a[i + 1] - b[j + 1]),
+    Math.abs(a[i + 2] - b[j + 2]),
+    Math.abs(a[i + 3] - b[j + 3]),
+  );
+}
+
+// ============================================================================
+// Comparison
+// ============================================================================
+
+/**
+ * Merge changed cells into connected regions (8-neighbourhood), largest first
+ */
+export function buildRegions(
+  cellsX: number,
+  cellsY: number,
+  cellPixels: Uint32Array,
+  cellBounds: Int32Array,
+): DiffRegion[] {
+  const seen = new Uint8Array(cellsX * cellsY);
+  const regions: DiffRegion[] = [];
+  for (let start = 0; start < cellPixels.length; start++) {
+    if (!cellPixels[start] || seen[start]) continue;
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    let pixels = 0;
+    const stack = [start];
+    seen[start] = 1;
+    while (stack.length) {
+      const cell = stack.pop()!;
+      pixels += cellPixels[cell];
+      minX = Math.min(minX, cellBounds[cell * 4]);
+      minY = Math.min(minY, cellBounds[cell * 4 + 1]);
+      maxX = Math.max(maxX, cellBounds[cell * 4 + 2]);
+      maxY = Math.max(maxY, cellBounds[cell * 4 + 3]);
+      const cx = cell % cellsX;
+      const cy = (cell - cx) / cellsX;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = cx + dx;
+          const ny = cy + dy;
+          if (nx < 0 || ny < 0 || nx >= cellsX || ny >= cellsY) continue;
+          const next = ny * cellsX + nx;
+          if (cellPixels[next] && !seen[next]) {
+            seen[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+    regions.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1, pixels });
+  }
+  return regions.sort((a, b) => b.pixels - a.pixels);
+}
+
+/**
+ * Compare two decoded images. Also returns the diff image pixels unless
+ * `includeDiffImage` is false.
+ */
+export function diffImages(
+  baseline: RgbaImage,
+  current: RgbaImage,
+  options: VisualDiffOptions = {},
+): { response: VisualDiffResponse; diffPixels: Uint8ClampedArray | null } {
+  const width = Math.max(baseline.width, current.width);
+  const height = Math.max(baseline.height, current.height);
+  const threshold = Math.min(Math.max(options.threshold ?? 0.1, 0), 1);
+  const perceptual = options.mode !== 'pixel';
+  const maxDelta = perceptual ? MAX_YIQ_DELTA * threshold * threshold : 255 * threshold;
+
+  const ignored = new Uint8Array(width * height);
+  for (const rect of options.ignoreRects ?? []) {
+    const x0 = Math.max(0, Math.floor(rect.x));
+    const y0 = Math.max(0, Math.floor(rect.y));
+    const x1 = Math.min(width, Math.ceil(rect.x + rect.width));
+    const y1 = Math.min(height, Math.ceil(rect.y + rect.height));
+    if (x1 <= x0) continue;
+    for (let y = y0; y < y1; y++) ignored.fill(1, y * width + x0, y * width + x1);
+  }
+
+  const cellsX = Math.ceil(width / REGION_CELL_SIZE);
+  const cellsY = Math.ceil(height / REGION_CELL_SIZE);
+  const cellPixels = new Uint32Array(cellsX * cellsY);
+  const cellBounds = new Int32Array(cellsX * cellsY * 4);
+  const diff =
+    options.includeDiffImage === false ? null : new Uint8ClampedArray(width * height * 4);
+  const a = baseline.data;
+  const b = current.data;
+  let compared = 0;
+  let mismatched = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pos = y * width + x;
+      const inA = x < baseline.width && y < baseline.height;
+      const inB = x < current.width && y < current.height;
+      const i = (y * baseline.width + x) * 4;
+      const j = (y * current.width + x) * 4;
+
+      if (ignored[pos]) {
+        if (diff && inB) {
+          diff[pos * 4] = (b[j] + 255) / 2;
+          diff[pos * 4 + 1] = (b[j + 1] + 191) / 2;
+          diff[pos * 4 + 2] = b[j + 2] / 2;
+          diff[pos * 4 + 3] = 255;
+        }
+        continue;
+      }
+      compared++;
+      // Pixels outside the smaller image always count as changed
+      const changed =
+        !inA ||
+        !inB ||
+        (perceptual ? yiqDelta(a, i, b, j) : maxChannelDelta(a, i, b, j)) > maxDelta;
+
+      if (changed) {
+        mismatched++;
+        const cell = Math.floor(y / REGION_CELL_SIZE) * cellsX + Math.floor(x / REGION_CELL_SIZE);
+        if (!cellPixels[cell]) {
+          cellBounds.set([x, y, x, y], cell * 4);
+        } else {
+          cellBounds[cell * 4] = Math.min(cellBounds[cell * 4], x);
+          cellBounds[cell * 4 + 1] = Math.min(cellBounds[cell * 4 + 1], y);
+          cellBounds[cell * 4 + 2] = Math.max(cellBounds[cell * 4 + 2], x);
+          cellBounds[cell * 4 + 3] = Math.max(cellBounds[cell * 4 + 3], y);
+        }
+        cellPixels[cell]++;
+      }
+
+      if (diff) {
+        if (changed) {
+          diff.set([255, 0, 0, 255], pos * 4);
+        } else {
+          // Faded grayscale of the current capture as context
+          const src = inB ? b : a;
+          const k = inB ? j : i;
+          const gray = blend(0.299 * src[k] + 0.587 * src[k + 1] + 0.114 * src[k + 2], src[k + 3]);
+          const faded = 255 - (255 - gray) * 0.2;
+          diff.set([faded, faded, faded, 255], pos * 4);
+        }
+      }
+    }
+  }
+
+  const regions = buildRegions(cellsX, cellsY, cellPixels, cellBounds);
+  const response: VisualDiffResponse = {
+    success: true,
+    width,
+    height,
+    baselineSize: { width: baseline.width, height: baseline.height },
+    currentSize: { width: current.width, height: current.height },
+    comparedPixels: compared,
+    mismatchedPixels: mismatched,
+    mismatchPercentage: compared ? Math.round((mismatched / compared) * 100000) / 1000 : 0,
+    regions: regions.slice(0, MAX_REGIONS),
+    regionCount: regions.length,
+  };
+  return { response, diffPixels: diff };
+}
+
+async function compareImages(message: VisualDiffCompareMessage): Promise<VisualDiffResponse> {
+  const [baseline, current] = await Promise.all([
+    decodePng(message.baseline),
+    decodePng(message.current),
+  ]);
+  const { response, diffPixels } = diffImages(baseline, current, message);
+
+  if (diffPixels) {
+    const canvas = new OffscreenCanvas(response.width!, response.height!);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('2D context unavailable');
+    const diff = ctx.createImageData(response.width!, response.height!);
+    diff.data.set(diffPixels);
+    ctx.putImageData(diff, 0, 0);
+    ctx.strokeStyle = 'rgba(255, 0, 255, 0.9)';
+    ctx.lineWidth = 2;
+    for (const r of response.regions!) ctx.strokeRect(r.x - 2, r.y - 2, r.width + 4, r.height + 4);
+    response.diffImage = await encodePng(canvas);
+  }
+  return response;
+}
+
+// ============================================================================
+// Message Handler
+// ============================================================================
+
+function isVisualDiffMessage(message: unknown): message is VisualDiffCompareMessage {
+  if (!message || typeof message !== 'object') return false;
+  const msg = message as Record<string, unknown>;
+  return (
+    msg.target === MessageTarget.Offscreen &&
+    msg.type === OFFSCREEN_MESSAGE_TYPES.VISUAL_DIFF_COMPARE
+  );
+}
+
+export function handleVisualDiffMessage(
+  message: unknown,
+  sendResponse: (response: VisualDiffResponse) => void,
+): boolean {
+  if (!isVisualDiffMessage(message)) {
+    return false;
+  }
+
+  if (typeof message.baseline !== 'string' || typeof message.current !== 'string') {
+    sendResponse({ success: false, error: 'baseline and current images are required' });
+    return true;
+  }
+
+  compareImages(message)
+    .then(sendResponse)
+    .catch((error) => {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error('Visual diff error:', errorMessage);
+      sendResponse({ success: false, error: errorMessage });
+    });
+  return true;
+}
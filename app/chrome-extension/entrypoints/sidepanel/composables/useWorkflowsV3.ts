@@ -32,6 +32,8 @@ export interface FlowLite {
       type?: string; // V2 uses 'type'
       value: string;
     }>;
+    /** Exposed to connected agents as a BTCP tool */
+    published?: boolean;
   };
 }
 
@@ -78,6 +80,7 @@ function mapFlowV3ToLite(flow: FlowV3): FlowLite {
         type: b.kind, // For V2 compatibility
         value: b.value,
       })),
+      published: flow.meta?.tool?.published === true,
     },
   };
 }
@@ -145,6 +148,7 @@ export interface UseWorkflowsV3Return {
   runFlow: (flowId: string) => Promise<{ runId: string } | null>;
   deleteFlow: (flowId: string) => Promise<boolean>;
   exportFlow: (flowId: string) => Promise<FlowV3 | null>;
+  setFlowPublished: (flowId: string, published: boolean) => Promise<boolean>;
   deleteTrigger: (triggerId: string) => Promise<boolean>;
 
   // V3-specific
@@ -258,6 +262,20 @@ export function useWorkflowsV3(options: UseWorkflowsV3Options = {}): UseWorkflow
     }
   }
 
+  async function setFlowPublished(flowId: string, published: boolean): Promise<boolean> {
+    try {
+      await rpc.request(published ? 'rr_v3.publishFlow' : 'rr_v3.unpublishFlow', {
+        flowId: flowId as FlowId,
+      });
+      void refreshFlows();
+      return true;
+    } catch (e) {
+      console.warn('[useWorkflowsV3] Failed to update flow publication:', e);
+      error.value = e instanceof Error ? e.message : String(e);
+      return false;
+    }
+  }
+
   async function deleteTrigger(triggerId: string): Promise<boolean> {
     try {
       await rpc.request('rr_v3.deleteTrigger', { triggerId });
@@ -357,6 +375,7 @@ export function useWorkflowsV3(options: UseWorkflowsV3Options = {}): UseWorkflow
     runFlow,
     deleteFlow,
     exportFlow,
+    setFlowPublished,
     deleteTrigger,
     getFlowById,
     getRunEvents,
@@ -16,6 +16,29 @@
   // Keep a weak map from ref id to elements
   if (!window.__claudeElementMap) window.__claudeElementMap = {};
   if (!window.__claudeRefCounter) window.__claudeRefCounter = 0;
+  // ref id -> { hosts: string[], selector: string } for elements inside shadow roots
+  if (!window.__claudeRefChains) window.__claudeRefChains = {};
+
+  /**
+   * Shadow root of a host, open or closed. Closed roots are only reachable through
+   * the extension-only chrome.dom API (content scripts), which pierces them the
+   * same way CDP's DOM.getDocument({ pierce: true }) does.
+   * @param {Element} el
+   * @returns {ShadowRoot|null}
+   */
+  function getShadowRoot(el) {
+    if (!el) return null;
+    const anyEl = /** @type {any} */ (el);
+    if (anyEl.shadowRoot) return anyEl.shadowRoot;
+    try {
+      return chrome.dom && chrome.dom.openOrClosedShadowRoot
+        ? chrome.dom.openOrClosedShadowRoot(anyEl)
+        : null;
+    } catch (_) {
+      return null;
+    }
+  }
+  window.__claudeGetShadowRoot = getShadowRoot;
 
   /**
    * Infer ARIA-like role from element
@@ -182,8 +205,7 @@
     // Shadow host case: treat host as interactive if its open shadow root contains
     // an interactive control (textarea/input/select/button/a or contenteditable).
     try {
-      const anyEl = /** @type {any} */ (el);
-      const sr = anyEl && anyEl.shadowRoot ? anyEl.shadowRoot : null;
+      const sr = getShadowRoot(el);
       if (sr) {
         const inner = sr.querySelector(
           'input, textarea, select, button, a[href], [contenteditable="true"], [role="button"], [role="link"], [role="textbox"], [role="combobox"], [role="searchbox"], [role="menuitem"], [role="option"], [role="switch"], [role="radio"], [role="checkbox"], [role="tab"], [role="slider"]',
@@ -279,7 +301,7 @@
       if (!node || visited.has(node)) continue;
       visited.add(node);
       try {
-        const root = /** @type {any} */ (node).shadowRoot || (node.nodeType === 9 ? node : null);
+        const root = getShadowRoot(node) || (node.nodeType === 9 ? node : null);
         if (root) {
           try {
             const hit = root.querySelector(selector);
@@ -291,7 +313,7 @@
       try {
         const children = /** @type {Element} */ (node).children || [];
         for (let i = 0; i < children.length; i++) stack.push(children[i]);
-        const sr = /** @type {any} */ (node).shadowRoot;
+        const sr = getShadowRoot(node);
         if (sr && sr.children) {
           for (let i = 0; i < sr.children.length; i++) stack.push(sr.children[i]);
         }
@@ -361,7 +383,7 @@
       visited.add(node);
 
       try {
-        const shadowRoot = /** @type {any} */ (node).shadowRoot;
+        const shadowRoot = getShadowRoot(node);
         if (shadowRoot) {
           try {
             const shadowMatches = shadowRoot.querySelectorAll(selector);
@@ -487,15 +509,19 @@
    */
   function generateSelector(el) {
     if (!(el instanceof Element)) return '';
+    // Inside a shadow root the selector is relative to that root (see hostChainOf)
+    const rootNode = el.getRootNode();
+    const inShadow = rootNode instanceof ShadowRoot;
+    const scope = inShadow ? rootNode : document;
     if (/** @type {HTMLElement} */ (el).id) {
       const idSel = `#${CSS.escape(/** @type {HTMLElement} */ (el).id)}`;
-      if (document.querySelectorAll(idSel).length === 1) return idSel;
+      if (scope.querySelectorAll(idSel).length === 1) return idSel;
     }
     for (const attr of ['data-testid', 'data-cy', 'name']) {
       const attrValue = el.getAttribute(attr);
       if (attrValue) {
         const s = `[${attr}="${CSS.escape(attrValue)}"]`;
-        if (document.querySelectorAll(s).length === 1) return s;
+        if (scope.querySelectorAll(s).length === 1) return s;
       }
     }
     let path = '';
@@ -515,9 +541,47 @@
       path = path ? `${selector} > ${path}` : selector;
       current = parent;
     }
+    if (inShadow) return path;
     return path ? `body > ${path}` : 'body';
   }
 
+  /**
+   * Selectors of the shadow hosts enclosing an element, outermost first. Each
+   * selector is relative to the root the host lives in.
+   * @param {Element} el
+   * @returns {string[]}
+   */
+  function hostChainOf(el) {
+    const hosts = [];
+    let rootNode = el.getRootNode();
+    while (rootNode instanceof ShadowRoot) {
+      hosts.unshift(generateSelector(rootNode.host));
+      rootNode = rootNode.host.getRootNode();
+    }
+    return hosts;
+  }
+
+  /**
+   * Existing ref of an element, or a new one. Elements inside shadow roots also
+   * get their host chain recorded so the ref survives a re-render of the host.
+   * @param {Element} el
+   * @returns {string}
+   */
+  function getOrCreateRef(el) {
+    if (!window.__claudeElementMap) window.__claudeElementMap = {};
+    if (!window.__claudeRefCounter) window.__claudeRefCounter = 0;
+    if (!window.__claudeRefChains) window.__claudeRefChains = {};
+    for (const k in window.__claudeElementMap) {
+      const w = window.__claudeElementMap[k];
+      if (w && typeof w.deref === 'function' && w.deref() === el) return k;
+    }
+    const refId = `ref_${++window.__claudeRefCounter}`;
+    window.__claudeElementMap[refId] = new WeakRef(el);
+    const hosts = hostChainOf(el);
+    if (hosts.length) window.__claudeRefChains[refId] = { hosts, selector: generateSelector(el) };
+    return refId;
+  }
+
   /**
    * Traverse DOM and build pageContent lines; collect ref map for interactive nodes.
    * @param {Element} el
@@ -536,17 +600,8 @@
     if (include) {
       const role = inferRole(el);
       let label = inferLabel(el);
-      let refId = null;
-      for (const k in window.__claudeElementMap) {
-        if (window.__claudeElementMap[k].deref && window.__claudeElementMap[k].deref() === el) {
-          refId = k;
-          break;
-        }
-      }
-      if (!refId) {
-        refId = `ref_${++window.__claudeRefCounter}`;
-        window.__claudeElementMap[refId] = new WeakRef(el);
-      }
+      const refId = getOrCreateRef(el);
+      const chain = window.__claudeRefChains[refId];
       const rect = /** @type {HTMLElement} */ (el).getBoundingClientRect();
       const cx = Math.round(rect.left + rect.width / 2);
       const cy = Math.round(rect.top + rect.height / 2);
@@ -563,6 +618,7 @@
       if (type) line += ` type="${type}"`;
       const placeholder = el.getAttribute('placeholder');
       if (placeholder) line += ` placeholder="${placeholder}"`;
+      if (chain && isInteractive(el)) line += ` shadow="${chain.hosts.join(' >> ')}"`;
       // Surface disabled/pointer-events for better agent judgement
       try {
         const disabled = el.hasAttribute('disabled') || el.getAttribute('aria-disabled') === 'true';
@@ -578,8 +634,8 @@
 
       // Only collect ref mapping for interactive elements to limit cost
       if (isInteractive(el) && refMap.length < REF_MAP_LIMIT) {
-        refMap.push({
-          ref: /** @type {string} */ (refId),
+        const entry = {
+          ref: refId,
           selector: generateSelector(el),
           rect: {
             x: rect.x,
@@ -587,7 +643,9 @@
             width: rect.width,
             height: rect.height,
           },
-        });
+        };
+        if (chain) entry.hostChain = chain.hosts;
+        refMap.push(entry);
       }
     }
     if (state.processed >= MAX_NODES) return;
@@ -601,9 +659,9 @@
     }
     // Traverse shadow DOM roots (limited by maxDepth and MAX_NODES)
     try {
-      const anyEl = /** @type {any} */ (el);
-      if (anyEl && anyEl.shadowRoot && depth < maxDepth) {
-        const srChildren = anyEl.shadowRoot.children || [];
+      const sr = getShadowRoot(el);
+      if (sr && depth < maxDepth) {
+        const srChildren = sr.children || [];
         for (let i = 0; i < srChildren.length; i++) {
           if (state.processed >= MAX_NODES) break;
           traverse(srChildren[i], include ? depth + 1 : depth, cfg, out, refMap, state);
@@ -650,10 +708,7 @@
       }
 
       if (root) traverse(root, 0, cfg, out, refMap, state);
-      for (const k in window.__claudeElementMap) {
-        if (!window.__claudeElementMap[k].deref || !window.__claudeElementMap[k].deref())
-          delete window.__claudeElementMap[k];
-      }
+      pruneElementMap();
       const pageContent = out
         .filter((line) => !/^\s*- generic \[ref=ref_\d+\]$/.test(line))
         .join('\n');
@@ -698,10 +753,73 @@
     return await forwardHoverRefToChildren(ref);
   }
 
+  /**
+   * Element for a ref. When the element is gone (e.g. a web component re-rendered
+   * its shadow tree) the ref is resolved again through its recorded host chain.
+   * @param {string} ref
+   * @returns {Element|null}
+   */
   function resolveRef(ref) {
     const map = window.__claudeElementMap || {};
     const weak = map[ref];
-    return weak && typeof weak.deref === 'function' ? weak.deref() : null;
+    const el = weak && typeof weak.deref === 'function' ? weak.deref() : null;
+    if (el && el.isConnected) return el;
+    const chain = window.__claudeRefChains && window.__claudeRefChains[ref];
+    if (!chain) return el;
+    try {
+      const scope = resolveHostChain(chain);
+      if (!scope) return null;
+      const found = scope.querySelector(chain.selector);
+      if (found) map[ref] = new WeakRef(found);
+      return found;
+    } catch (_) {
+      return null;
+    }
+  }
+  window.__claudeResolveRef = resolveRef;
+
+  /**
+   * Innermost shadow root of a recorded host chain, or null once a host is gone.
+   * @param {{hosts: string[]}} chain
+   * @returns {Document|ShadowRoot|null}
+   */
+  function resolveHostChain(chain) {
+    /** @type {Document|ShadowRoot|null} */
+    let scope = document;
+    for (const host of chain.hosts) {
+      const hostEl = scope.querySelector(host);
+      scope = hostEl ? getShadowRoot(hostEl) : null;
+      if (!scope) return null;
+    }
+    return scope;
+  }
+
+  /**
+   * Drop refs whose element was collected. Refs with a host chain outlive their
+   * element until the chain itself no longer resolves.
+   */
+  function pruneElementMap() {
+    const map = window.__claudeElementMap;
+    const chains = window.__claudeRefChains || {};
+    for (const k in map) {
+      const el = map[k] && typeof map[k].deref === 'function' ? map[k].deref() : null;
+      const chain = chains[k];
+      if (!chain) {
+        if (!el) delete map[k];
+        continue;
+      }
+      if (el && el.isConnected) continue;
+      let alive = false;
+      try {
+        alive = !!resolveHostChain(chain);
+      } catch (_) {
+        /* invalid selector: treat as gone */
+      }
+      if (!alive) {
+        delete map[k];
+        delete chains[k];
+      }
+    }
   }
 
   function dispatchHoverEvents(el) {
@@ -979,26 +1097,9 @@
               sendResponse({ success: false, error: 'no element' });
               return true;
             }
-            // create ref
-            try {
-              if (!window.__claudeElementMap) window.__claudeElementMap = {};
-              if (!window.__claudeRefCounter) window.__claudeRefCounter = 0;
-            } catch {}
             let refId = null;
             try {
-              for (const k in window.__claudeElementMap) {
-                if (
-                  window.__claudeElementMap[k].deref &&
-                  window.__claudeElementMap[k].deref() === el
-                ) {
-                  refId = k;
-                  break;
-                }
-              }
-              if (!refId) {
-                refId = `ref_${++window.__claudeRefCounter}`;
-                window.__claudeElementMap[refId] = new WeakRef(el);
-              }
+              refId = getOrCreateRef(el);
             } catch {}
             const cands = computeCandidates(el);
             cleanup();
@@ -1239,7 +1340,7 @@
                 for (let i = 0; i < children.length; i++) stack.push(children[i]);
               } catch {}
               try {
-                const sr = node.shadowRoot;
+                const sr = getShadowRoot(node);
                 if (sr && sr.children) {
                   for (let i = 0; i < sr.children.length; i++) stack.push(sr.children[i]);
                 }
@@ -1296,17 +1397,7 @@
             sendResponse({ success: false, error: `selector not found: ${sel}` });
             return true;
           }
-          let refId = null;
-          for (const k in window.__claudeElementMap) {
-            if (window.__claudeElementMap[k].deref && window.__claudeElementMap[k].deref() === el) {
-              refId = k;
-              break;
-            }
-          }
-          if (!refId) {
-            refId = `ref_${++window.__claudeRefCounter}`;
-            window.__claudeElementMap[refId] = new WeakRef(el);
-          }
+          const refId = getOrCreateRef(el);
           const rect = /** @type {HTMLElement} */ (el).getBoundingClientRect();
           sendResponse({
             success: true,
@@ -1502,9 +1593,7 @@
       if (request && request.action === 'resolveRef') {
         const ref = request.ref;
         try {
-          const map = window.__claudeElementMap;
-          const weak = map && map[ref];
-          const el = weak && typeof weak.deref === 'function' ? weak.deref() : null;
+          const el = resolveRef(ref);
           if (!el || !(el instanceof Element)) {
             sendResponse({ success: false, error: `ref "${ref}" not found or expired` });
             return true;
@@ -1593,9 +1682,7 @@
             sendResponse({ success: false, error: 'ref and fingerprint are required' });
             return true;
           }
-          const map = window.__claudeElementMap;
-          const weak = map && map[ref];
-          const el = weak && typeof weak.deref === 'function' ? weak.deref() : null;
+          const el = resolveRef(ref);
           if (!el || !(el instanceof Element)) {
             sendResponse({ success: false, error: `ref "${ref}" not found or expired` });
             return true;
@@ -1626,12 +1713,50 @@
           return true;
         }
       }
+      if (request && request.action === 'announceFrame') {
+        // Let the parent frame find the <iframe> that hosts us (works cross-origin)
+        try {
+          if (window.parent === window) {
+            sendResponse({ success: false, error: 'not a child frame' });
+            return true;
+          }
+          window.parent.postMessage({ type: 'mcp-frame-announce', token: request.token }, '*');
+          sendResponse({ success: true });
+        } catch (e) {
+          sendResponse({ success: false, error: String(e && e.message ? e.message : e) });
+        }
+        return true;
+      }
+      if (request && request.action === 'locateChildFrame') {
+        const token = String(request.token || '');
+        const deadline = Date.now() + 1000;
+        const poll = () => {
+          const frameEl = announcedFrames.get(token);
+          if (frameEl) {
+            announcedFrames.delete(token);
+            // Offset of the iframe's content box in this frame's viewport
+            const rect = frameEl.getBoundingClientRect();
+            const style = getComputedStyle(frameEl);
+            sendResponse({
+              success: true,
+              offset: {
+                x: rect.left + frameEl.clientLeft + (parseFloat(style.paddingLeft) || 0),
+                y: rect.top + frameEl.clientTop + (parseFloat(style.paddingTop) || 0),
+              },
+            });
+          } else if (Date.now() > deadline) {
+            sendResponse({ success: false, error: 'child frame did not announce itself' });
+          } else {
+            setTimeout(poll, 20);
+          }
+        };
+        poll();
+        return true;
+      }
       if (request && request.action === 'focusByRef') {
         try {
           const ref = String(request.ref || '');
-          const map = window.__claudeElementMap || {};
-          const weak = map[ref];
-          const el = weak && typeof weak.deref === 'function' ? weak.deref() : null;
+          const el = resolveRef(ref);
           if (!el || !(el instanceof Element)) {
             sendResponse({ success: false, error: `ref "${ref}" not found or expired` });
             return true;
@@ -1661,6 +1786,19 @@
   });
 
   console.log('Accessibility tree helper script loaded');
+  // Frame location: remember which <iframe>/<frame> element announced a token
+  const announcedFrames = new Map();
+  window.addEventListener('message', (ev) => {
+    const data = ev && ev.data;
+    if (!data || data.type !== 'mcp-frame-announce' || typeof data.token !== 'string') return;
+    const frames = document.querySelectorAll('iframe, frame');
+    for (const frameEl of frames) {
+      if (frameEl.contentWindow === ev.source) {
+        announcedFrames.set(data.token, frameEl);
+        return;
+      }
+    }
+  });
   // Cross-frame bridge: child listens for ensure-ref requests from parent (composite selector)
   try {
     window.addEventListener(
@@ -1763,7 +1901,7 @@
                 try {
                   const children = node.children || [];
                   for (let i = 0; i < children.length; i++) stack.push(children[i]);
-                  const sr = node.shadowRoot;
+                  const sr = getShadowRoot(node);
                   if (sr && sr.children)
                     for (let i = 0; i < sr.children.length; i++) stack.push(sr.children[i]);
                 } catch {}
@@ -1820,20 +1958,7 @@
               respond({ success: false, error: 'Element not found in child frame' });
               return;
             }
-            if (!window.__claudeElementMap) window.__claudeElementMap = {};
-            if (!window.__claudeRefCounter) window.__claudeRefCounter = 0;
-            let refId = null;
-            for (const k in window.__claudeElementMap) {
-              const w = window.__claudeElementMap[k];
-              if (w && typeof w.deref === 'function' && w.deref && w.deref() === el) {
-                refId = k;
-                break;
-              }
-            }
-            if (!refId) {
-              refId = `ref_${++window.__claudeRefCounter}`;
-              window.__claudeElementMap[refId] = new WeakRef(el);
-            }
+            const refId = getOrCreateRef(el);
             const rect = el.getBoundingClientRect();
             respond({
               success: true,
@@ -34,9 +34,14 @@ if (window.__CLICK_HELPER_INITIALIZED__) {
         // Resolve element from weak map
         let target = null;
         try {
-          const map = window.__claudeElementMap;
-          const weak = map && map[ref];
-          target = weak && typeof weak.deref === 'function' ? weak.deref() : null;
+          // The accessibility helper also re-resolves refs inside shadow roots
+          if (typeof window.__claudeResolveRef === 'function') {
+            target = window.__claudeResolveRef(ref);
+          } else {
+            const map = window.__claudeElementMap;
+            const weak = map && map[ref];
+            target = weak && typeof weak.deref === 'function' ? weak.deref() : null;
+          }
         } catch (e) {
           // ignore
         }
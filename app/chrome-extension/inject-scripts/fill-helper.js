@@ -18,9 +18,14 @@ if (window.__FILL_HELPER_INITIALIZED__) {
       let element = null;
       if (ref && typeof ref === 'string') {
         try {
-          const map = window.__claudeElementMap;
-          const weak = map && map[ref];
-          element = weak && typeof weak.deref === 'function' ? weak.deref() : null;
+          // The accessibility helper also re-resolves refs inside shadow roots
+          if (typeof window.__claudeResolveRef === 'function') {
+            element = window.__claudeResolveRef(ref);
+          } else {
+            const map = window.__claudeElementMap;
+            const weak = map && map[ref];
+            element = weak && typeof weak.deref === 'function' ? weak.deref() : null;
+          }
         } catch (e) {
           // ignore
         }
@@ -91,10 +96,9 @@ if (window.__FILL_HELPER_INITIALIZED__) {
       ];
 
       if (!validTags.includes(element.tagName)) {
-        // If the element is a custom element with open shadow root, try to find a fillable inner control
+        // If the element is a custom element with a shadow root, try to find a fillable inner control
         try {
-          const anyEl = /** @type {any} */ (element);
-          const sr = anyEl && anyEl.shadowRoot ? anyEl.shadowRoot : null;
+          const sr = getShadowRoot(element);
           if (sr) {
             // Search common fillable targets inside shadow root (breadth-first)
             const queue = Array.from(sr.children || []);
@@ -111,7 +115,7 @@ if (window.__FILL_HELPER_INITIALIZED__) {
               try {
                 const children = cur.children || [];
                 for (let i = 0; i < children.length; i++) queue.push(children[i]);
-                const innerSr = /** @type {any} */ (cur).shadowRoot;
+                const innerSr = getShadowRoot(cur);
                 if (innerSr && innerSr.children) {
                   for (let i = 0; i < innerSr.children.length; i++) queue.push(innerSr.children[i]);
                 }
@@ -293,6 +297,18 @@ if (window.__FILL_HELPER_INITIALIZED__) {
     }
   }
 
+  /**
+   * Shadow root of an element, open or closed (closed ones via chrome.dom)
+   * @param {Element} element - Possible shadow host
+   * @returns {ShadowRoot|null}
+   */
+  function getShadowRoot(element) {
+    if (typeof window.__claudeGetShadowRoot === 'function') {
+      return window.__claudeGetShadowRoot(element);
+    }
+    return element && element.shadowRoot ? element.shadowRoot : null;
+  }
+
   /**
    * Check if an element is visible
    * @param {Element} element - The element to check
@@ -0,0 +1,130 @@
+/**
+ * @fileoverview BTCP Audit Log
+ * @description
+ * Verifies the audit log of remote tool calls:
+ * - Arguments are sanitized before they are stored
+ * - Results are reduced to a digest
+ * - Queries filter and page newest first; export is oldest first
+ * - Retention drops entries by age and count
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  appendAuditEntry,
+  clearAuditLog,
+  digestToolResponse,
+  exportAuditLogJsonl,
+  normalizeAuditSettings,
+  pruneAuditLog,
+  queryAuditLog,
+  sanitizeAuditArgs,
+  type BTCPAuditEntry,
+} from '@/entrypoints/background/btcp-audit';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function entry(overrides: Partial<BTCPAuditEntry> = {}): Omit<BTCPAuditEntry, 'id'> {
+  const startedAt = overrides.startedAt ?? Date.now();
+  return {
+    serverId: 'srv_a',
+    serverUrl: 'http://localhost:8765',
+    sessionId: 'session-1',
+    requestId: 'req-1',
+    toolName: 'chrome_navigate',
+    args: '{"url":"https://example.com"}',
+    argsRedacted: false,
+    argsTruncated: false,
+    status: 'success',
+    startedAt,
+    finishedAt: startedAt + 10,
+    durationMs: 10,
+    ...overrides,
+  };
+}
+
+describe('BTCP audit log', () => {
+  beforeEach(async () => {
+    await clearAuditLog();
+  });
+
+  it('redacts secrets in arguments', () => {
+    const result = sanitizeAuditArgs({ url: 'https://example.com', password: 'hunter2' });
+
+    expect(result.argsRedacted).toBe(true);
+    expect(result.args).not.toContain('hunter2');
+    expect(result.args).toContain('example.com');
+  });
+
+  it('digests tool results', async () => {
+    const digest = await digestToolResponse({
+      content: [
+        { type: 'text', text: 'hello' },
+        { type: 'image', data: 'AAAA', mimeType: 'image/png' },
+      ],
+    });
+
+    expect(digest.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(digest.bytes).toBeGreaterThan(0);
+    expect(digest.contentTypes).toEqual(['text', 'image']);
+    expect(digest.preview).toBe('hello');
+  });
+
+  it('filters and pages entries newest first', async () => {
+    const now = Date.now();
+    await appendAuditEntry(entry({ requestId: 'r1', startedAt: now - 3000 }));
+    await appendAuditEntry(
+      entry({ requestId: 'r2', startedAt: now - 2000, serverId: 'srv_b', status: 'denied' }),
+    );
+    await appendAuditEntry(
+      entry({ requestId: 'r3', startedAt: now - 1000, toolName: 'chrome_screenshot' }),
+    );
+
+    const all = await queryAuditLog();
+    expect(all.total).toBe(3);
+    expect(all.entries.map((e) => e.requestId)).toEqual(['r3', 'r2', 'r1']);
+
+    expect((await queryAuditLog({ serverId: 'srv_b' })).entries[0].requestId).toBe('r2');
+    expect((await queryAuditLog({ status: 'success' })).total).toBe(2);
+    expect((await queryAuditLog({ toolName: 'screen' })).entries[0].requestId).toBe('r3');
+    expect((await queryAuditLog({ since: now - 2500 })).total).toBe(2);
+    expect((await queryAuditLog({ text: 'EXAMPLE.COM' })).total).toBe(3);
+
+    const page = await queryAuditLog({}, { offset: 1, limit: 1 });
+    expect(page.entries.map((e) => e.requestId)).toEqual(['r2']);
+    expect(page.total).toBe(3);
+  });
+
+  it('exports JSON Lines oldest first', async () => {
+    const now = Date.now();
+    await appendAuditEntry(entry({ requestId: 'r1', startedAt: now - 2000 }));
+    await appendAuditEntry(entry({ requestId: 'r2', startedAt: now - 1000 }));
+
+    const lines = (await exportAuditLogJsonl()).split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(lines.map((line) => JSON.parse(line).requestId)).toEqual(['r1', 'r2']);
+  });
+
+  it('prunes entries by age and count', async () => {
+    const now = Date.now();
+    await appendAuditEntry(entry({ requestId: 'old', startedAt: now - 10 * DAY_MS }));
+    for (let i = 0; i < 4; i++) {
+      await appendAuditEntry(entry({ requestId: `r${i}`, startedAt: now - i * 1000 }));
+    }
+
+    const removed = await pruneAuditLog({ maxAgeDays: 7, maxEntries: 3 }, now);
+
+    expect(removed).toBe(2);
+    const { entries } = await queryAuditLog();
+    expect(entries.map((e) => e.requestId)).toEqual(['r0', 'r1', 'r2']);
+  });
+
+  it('clamps retention settings', () => {
+    expect(normalizeAuditSettings({ maxAgeDays: 0, maxEntries: 10 })).toEqual({
+      maxAgeDays: 1,
+      maxEntries: 100,
+    });
+    expect(normalizeAuditSettings(undefined)).toEqual({ maxAgeDays: 30, maxEntries: 5000 });
+  });
+});
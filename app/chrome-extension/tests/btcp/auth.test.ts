@@ -0,0 +1,165 @@
+/**
+ * @fileoverview BTCP Authentication
+ * @description
+ * Verifies signing and verification of BTCP messages:
+ * - Canonical JSON is key-order independent
+ * - Signed tool calls verify; unsigned, malformed, tampered, stale and replayed calls are rejected
+ * - Seen nonces survive a service worker restart (session storage)
+ * - Server URLs normalize to a stable credential key
+ */
+
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+import {
+  SIGNATURE_MAX_SKEW_MS,
+  canonicalJson,
+  computeToolCallSignature,
+  normalizeServerUrl,
+  signRequest,
+  verifyToolCall,
+} from '@/entrypoints/background/btcp-auth';
+
+const CREDENTIAL = { secret: btoa('test-shared-secret-0123456789') };
+
+const sessionStore: Record<string, unknown> = {};
+
+beforeAll(() => {
+  (chrome.storage as { session?: unknown }).session = {
+    get: async (keys: string[]) =>
+      Object.fromEntries(keys.filter((k) => k in sessionStore).map((k) => [k, sessionStore[k]])),
+    set: async (items: Record<string, unknown>) => {
+      Object.assign(sessionStore, structuredClone(items));
+    },
+  };
+});
+
+let nonceCounter = 0;
+
+async function signedCall(params: unknown, timestamp: number = Date.now()) {
+  const nonce = `nonce-${++nonceCounter}`;
+  const call = { id: `req-${nonceCounter}`, method: 'tools/call', params };
+  const signature = await computeToolCallSignature(CREDENTIAL, call, String(timestamp), nonce);
+  return { ...call, timestamp, nonce, signature };
+}
+
+describe('BTCP auth', () => {
+  it('canonicalJson sorts keys and drops undefined values', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, 2], c: undefined } })).toBe(
+      canonicalJson({ a: { d: [1, 2] }, b: 1 }),
+    );
+    expect(canonicalJson({ b: 1, a: 2 })).toBe('{"a":2,"b":1}');
+  });
+
+  it('signRequest produces a hex signature with fresh nonces', async () => {
+    const a = await signRequest(CREDENTIAL, 'post', '/tools/response', '{}');
+    const b = await signRequest(CREDENTIAL, 'post', '/tools/response', '{}');
+
+    expect(a.signature).toMatch(/^[0-9a-f]{64}$/);
+    expect(a.nonce).not.toBe(b.nonce);
+  });
+
+  it('accepts a correctly signed tool call', async () => {
+    const call = await signedCall({ name: 'chrome_screenshot', arguments: { fullPage: true } });
+
+    expect(await verifyToolCall(CREDENTIAL, call)).toEqual({ ok: true });
+  });
+
+  it('rejects calls when the server is not paired', async () => {
+    const call = await signedCall({ name: 'chrome_screenshot', arguments: {} });
+
+    expect(await verifyToolCall(null, call)).toMatchObject({ ok: false });
+  });
+
+  it('rejects unsigned calls', async () => {
+    const result = await verifyToolCall(CREDENTIAL, {
+      id: 'req-x',
+      method: 'tools/call',
+      params: { name: 'chrome_javascript', arguments: {} },
+    });
+
+    expect(result).toEqual({ ok: false, reason: 'tool call is not signed' });
+  });
+
+  it('rejects tampered arguments', async () => {
+    const call = await signedCall({
+      name: 'chrome_navigate',
+      arguments: { url: 'https://a.test' },
+    });
+    const tampered = {
+      ...call,
+      params: { name: 'chrome_navigate', arguments: { url: 'https://evil.test' } },
+    };
+
+    expect(await verifyToolCall(CREDENTIAL, tampered)).toEqual({
+      ok: false,
+      reason: 'invalid tool call signature',
+    });
+  });
+
+  it('rejects stale signatures', async () => {
+    const call = await signedCall(
+      { name: 'x', arguments: {} },
+      Date.now() - SIGNATURE_MAX_SKEW_MS - 1,
+    );
+
+    expect(await verifyToolCall(CREDENTIAL, call)).toEqual({
+      ok: false,
+      reason: 'tool call signature expired',
+    });
+  });
+
+  it('rejects replayed nonces', async () => {
+    const call = await signedCall({ name: 'x', arguments: {} });
+
+    expect(await verifyToolCall(CREDENTIAL, call)).toEqual({ ok: true });
+    expect(await verifyToolCall(CREDENTIAL, call)).toEqual({
+      ok: false,
+      reason: 'tool call nonce already used',
+    });
+  });
+
+  it('rejects a replay that arrives while the original is still being verified', async () => {
+    const call = await signedCall({ name: 'x', arguments: {} });
+
+    const results = await Promise.all([
+      verifyToolCall(CREDENTIAL, call),
+      verifyToolCall(CREDENTIAL, call),
+    ]);
+    expect(results).toEqual([{ ok: true }, { ok: false, reason: 'tool call nonce already used' }]);
+  });
+
+  it('frees the nonce when the signature check fails', async () => {
+    const call = await signedCall({ name: 'x', arguments: {} });
+
+    expect(await verifyToolCall(CREDENTIAL, { ...call, signature: '00' })).toEqual({
+      ok: false,
+      reason: 'invalid tool call signature',
+    });
+    expect(await verifyToolCall(CREDENTIAL, call)).toEqual({ ok: true });
+  });
+
+  it('rejects non-string signatures', async () => {
+    const call = await signedCall({ name: 'x', arguments: {} });
+
+    expect(
+      await verifyToolCall(CREDENTIAL, { ...call, signature: 42 as unknown as string }),
+    ).toEqual({ ok: false, reason: 'malformed tool call signature' });
+  });
+
+  it('remembers nonces across a service worker restart', async () => {
+    const call = await signedCall({ name: 'x', arguments: {} });
+    expect(await verifyToolCall(CREDENTIAL, call)).toEqual({ ok: true });
+
+    vi.resetModules();
+    const restarted = await import('@/entrypoints/background/btcp-auth');
+    expect(await restarted.verifyToolCall(CREDENTIAL, call)).toEqual({
+      ok: false,
+      reason: 'tool call nonce already used',
+    });
+  });
+
+  it('normalizes server URLs', () => {
+    expect(normalizeServerUrl('http://localhost:8765/')).toBe('http://localhost:8765');
+    expect(normalizeServerUrl(' https://broker.test/btcp// ')).toBe('https://broker.test/btcp');
+  });
+});
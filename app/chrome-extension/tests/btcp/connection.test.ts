@@ -0,0 +1,294 @@
+/**
+ * @fileoverview BTCP Connection
+ * @description
+ * Verifies the per-server tool call pipeline against a fake transport:
+ * - Responses queued while an outbox flush is in flight are still delivered
+ * - Calls to tools not offered to the server are rejected before any approval prompt
+ * - A call cancelled while waiting for approval is answered as cancelled and never runs
+ * - Malformed calls are answered with INVALID_REQUEST before verification
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type {
+  BTCPJsonRpcResponse,
+  BTCPOutboundMessage,
+  BTCPTransport,
+  BTCPTransportOptions,
+} from '@/entrypoints/background/btcp-transport';
+
+const transports: FakeTransport[] = [];
+let verification: { ok: true } | { ok: false; reason: string } = {
+  ok: false,
+  reason: 'missing signature',
+};
+const authorizedTools: string[] = [];
+/** Open approval prompts by request id; settle with true to allow */
+const approvalPrompts = new Map<string, (allowed: boolean) => void>();
+const executedTools: string[] = [];
+
+vi.mock('@/entrypoints/background/btcp-transport', () => ({
+  createBTCPTransport: (_kind: string, options: BTCPTransportOptions) => {
+    const transport = new FakeTransport(options);
+    transports.push(transport);
+    return transport;
+  },
+}));
+
+vi.mock('@/entrypoints/background/btcp-auth', () => ({
+  getServerCredential: async (serverUrl: string) => ({
+    serverUrl,
+    token: 'token',
+    secret: 'secret',
+    pairedAt: 0,
+  }),
+  verifyToolCall: async () => verification,
+}));
+
+vi.mock('@/entrypoints/background/btcp-permissions', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/entrypoints/background/btcp-permissions')>()),
+  authorizeToolCall: (input: { requestId: string; toolName: string }) => {
+    authorizedTools.push(input.toolName);
+    return new Promise((resolve) => {
+      approvalPrompts.set(input.requestId, (allowed) =>
+        resolve(
+          allowed
+            ? { allowed: true }
+            : {
+                allowed: false,
+                decision: 'deny',
+                domain: null,
+                reason: 'user denied the tool call',
+              },
+        ),
+      );
+    });
+  },
+  cancelPendingApprovals: (_serverUrl?: string, requestId?: string) => {
+    for (const [id, settle] of Array.from(approvalPrompts.entries())) {
+      if (requestId !== undefined && id !== requestId) continue;
+      approvalPrompts.delete(id);
+      settle(false);
+    }
+  },
+}));
+
+vi.mock('@/entrypoints/background/btcp-tool-adapter', () => ({
+  getBTCPToolAdapter: () => ({
+    execute: async (toolName: string) => {
+      executedTools.push(toolName);
+      return { content: [] };
+    },
+  }),
+}));
+
+vi.mock('@/entrypoints/background/btcp-servers', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/entrypoints/background/btcp-servers')>()),
+  loadSessionId: async () => null,
+  saveSessionId: async () => {},
+}));
+
+vi.mock('@/entrypoints/background/btcp-tool-registry', () => ({
+  getEnabledToolDefinitions: async () => [],
+  isToolNameEnabled: async () => true,
+  diffToolDefinitions: () => ({ added: [], removed: [], updated: [] }),
+  isEmptyToolSetDiff: () => true,
+}));
+
+vi.mock('@/entrypoints/background/btcp-audit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/entrypoints/background/btcp-audit')>()),
+  appendAuditEntry: async () => {},
+}));
+
+vi.mock('@/entrypoints/background/keepalive-manager', () => ({
+  acquireKeepalive: () => () => {},
+}));
+
+import {
+  createBTCPConnection,
+  type BTCPConnection,
+} from '@/entrypoints/background/btcp-connection';
+import type { BTCPServerConfig } from '@/entrypoints/background/btcp-servers';
+import { clearOutbox, listOutbox } from '@/entrypoints/background/btcp-outbox';
+
+const SERVER_URL = 'http://localhost:8765';
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+class FakeTransport implements BTCPTransport {
+  readonly kind = 'sse' as const;
+  readonly acknowledgesDelivery = true;
+  readonly sent: BTCPOutboundMessage[] = [];
+  /** Hold the next response send until released */
+  gate: Promise<void> | null = null;
+  private open = false;
+
+  constructor(private readonly options: BTCPTransportOptions) {}
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  connect(): void {
+    this.open = true;
+    this.options.handlers.onOpen();
+  }
+
+  close(): void {
+    this.open = false;
+  }
+
+  async send(message: BTCPOutboundMessage): Promise<unknown> {
+    if (!('method' in message) && this.gate) {
+      const gate = this.gate;
+      this.gate = null;
+      await gate;
+    }
+    this.sent.push(message);
+    return undefined;
+  }
+
+  emit(event: string, data: unknown): void {
+    this.options.handlers.onEvent(event, data);
+  }
+
+  responses(): BTCPJsonRpcResponse[] {
+    return this.sent.flatMap((m) => ('method' in m ? [] : [m]));
+  }
+
+  responseIds(): string[] {
+    return this.responses().map((m) => m.id);
+  }
+}
+
+function toolCall(id: string) {
+  return { id, params: { name: 'chrome_screenshot', arguments: {} } };
+}
+
+async function connectServer(
+  overrides: Partial<BTCPServerConfig> = {},
+): Promise<{ connection: BTCPConnection; transport: FakeTransport }> {
+  const connection = createBTCPConnection(
+    {
+      id: 'local',
+      serverUrl: SERVER_URL,
+      transport: 'sse',
+      autoConnect: false,
+      enabledTools: null,
+      ...overrides,
+    },
+    () => {},
+  );
+  await connection.connect();
+  const transport = transports[transports.length - 1];
+  // Let the flush started by onOpen settle on the empty outbox
+  await waitFor(() => transport.sent.some((m) => 'method' in m));
+  await new Promise((r) => setTimeout(r, 20));
+  return { connection, transport };
+}
+
+async function waitFor(check: () => boolean | Promise<boolean>): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    if (await check()) return;
+    await new Promise((r) => setTimeout(r, 5));
+  }
+  throw new Error('condition not met');
+}
+
+describe('BTCP connection', () => {
+  beforeEach(async () => {
+    transports.length = 0;
+    authorizedTools.length = 0;
+    approvalPrompts.clear();
+    executedTools.length = 0;
+    verification = { ok: false, reason: 'missing signature' };
+    await clearOutbox();
+  });
+
+  afterEach(async () => {
+    await clearOutbox();
+  });
+
+  it('delivers a response queued while an outbox flush is in flight', async () => {
+    const { connection, transport } = await connectServer();
+
+    const release = deferred();
+    transport.gate = release.promise;
+    transport.emit('tool_call', toolCall('req-1'));
+    await waitFor(async () => (await listOutbox(SERVER_URL)).length === 1);
+
+    // req-1 is being sent; req-2 lands in the outbox behind that flush
+    transport.emit('tool_call', toolCall('req-2'));
+    await waitFor(async () => (await listOutbox(SERVER_URL)).length === 2);
+    release.resolve();
+
+    await waitFor(() => transport.responseIds().length === 2);
+    expect(transport.responseIds()).toEqual(['req-1', 'req-2']);
+    await waitFor(async () => (await listOutbox(SERVER_URL)).length === 0);
+
+    await connection.disconnect();
+  });
+
+  it('rejects a tool not offered to the server without asking for approval', async () => {
+    verification = { ok: true };
+    const { connection, transport } = await connectServer({ enabledTools: ['chrome_navigate'] });
+
+    transport.emit('tool_call', toolCall('req-1'));
+    await waitFor(() => transport.responseIds().length === 1);
+
+    const [response] = transport.responses();
+    expect(response.result).toMatchObject({ isError: true });
+    expect(JSON.stringify(response.result)).toContain('TOOL_DISABLED');
+    expect(authorizedTools).toEqual([]);
+
+    await connection.disconnect();
+  });
+
+  it('answers a call cancelled while waiting for approval as cancelled', async () => {
+    verification = { ok: true };
+    const { connection, transport } = await connectServer();
+
+    transport.emit('tool_call', toolCall('req-1'));
+    await waitFor(() => approvalPrompts.has('req-1'));
+    transport.emit('tool_cancel', { requestId: 'req-1', reason: 'user aborted' });
+    await waitFor(() => transport.responseIds().length === 1);
+
+    expect(approvalPrompts.has('req-1')).toBe(false);
+    const [response] = transport.responses();
+    expect(response.result).toMatchObject({ isError: true });
+    expect(JSON.stringify(response.result)).toContain('CANCELLED');
+    expect(JSON.stringify(response.result)).toContain('user aborted');
+    expect(executedTools).toEqual([]);
+
+    await connection.disconnect();
+  });
+
+  it('answers a malformed call with INVALID_REQUEST and never runs it', async () => {
+    verification = { ok: true };
+    const { connection, transport } = await connectServer();
+
+    // No id: nothing to answer
+    transport.emit('tool_call', { params: { name: 'chrome_screenshot', arguments: {} } });
+    transport.emit('tool_call', { id: 'req-1' });
+    transport.emit('tool_call', {
+      id: 'req-2',
+      params: { name: 'chrome_screenshot', arguments: [] },
+    });
+    await waitFor(() => transport.responseIds().length === 2);
+
+    const [missingParams, badArgs] = transport.responses();
+    expect(missingParams).toMatchObject({ id: 'req-1', result: { isError: true } });
+    expect(JSON.stringify(missingParams.result)).toContain('INVALID_REQUEST');
+    expect(JSON.stringify(missingParams.result)).toContain('tool_call params must be an object');
+    expect(badArgs.id).toBe('req-2');
+    expect(JSON.stringify(badArgs.result)).toContain('params.arguments must be an object');
+    expect(authorizedTools).toEqual([]);
+    expect(executedTools).toEqual([]);
+
+    await connection.disconnect();
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview BTCP Flow Tools
+ * @description
+ * Verifies how published Record-Replay V3 flows become tools:
+ * - Only published flows are exposed, under stable `flow_` names
+ * - Clashing names are disambiguated
+ * - Flow variables become the JSON Schema input
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  buildFlowInputSchema,
+  buildFlowToolDefinition,
+  flowToolName,
+  resolveFlowToolNames,
+} from '@/entrypoints/background/btcp-flow-tools';
+import type { FlowV3 } from '@/entrypoints/background/record-replay-v3/domain/flow';
+
+// The V3 engine pulls in the whole action runtime; these tests only need pure helpers
+vi.mock('@/entrypoints/background/record-replay-v3/bootstrap', () => ({
+  getV3Runtime: () => null,
+}));
+
+function flow(id: string, partial: Partial<FlowV3> = {}): FlowV3 {
+  return {
+    schemaVersion: 3,
+    id,
+    name: `Flow ${id}`,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    entryNodeId: 'n1',
+    nodes: [{ id: 'n1', kind: 'click', config: {} }],
+    edges: [],
+    meta: { tool: { published: true } },
+    ...partial,
+  };
+}
+
+describe('BTCP flow tools', () => {
+  it('names tools after the flow or the requested tool name', () => {
+    expect(flowToolName(flow('a', { name: 'Log in to Dashboard!' }))).toBe(
+      'flow_log_in_to_dashboard',
+    );
+    expect(
+      flowToolName(flow('a', { meta: { tool: { published: true, toolName: 'flow_Login' } } })),
+    ).toBe('flow_login');
+    expect(flowToolName(flow('a', { name: '登录' }))).toBe('flow_a');
+  });
+
+  it('exposes only published flows and disambiguates clashes', () => {
+    const tools = resolveFlowToolNames([
+      flow('b', { name: 'Search' }),
+      flow('a', { name: 'Search' }),
+      flow('c', { name: 'Draft', meta: { tool: { published: false } } }),
+      flow('d', { name: 'Untagged', meta: {} }),
+    ]);
+
+    expect([...tools.keys()]).toEqual(['flow_search', 'flow_search_2']);
+    expect(tools.get('flow_search')?.id).toBe('a');
+    expect(tools.get('flow_search_2')?.id).toBe('b');
+  });
+
+  it('builds the input schema from flow variables', () => {
+    const schema = buildFlowInputSchema(
+      flow('a', {
+        variables: [
+          { name: 'query', label: 'Query', description: 'What to search', required: true },
+          { name: 'limit', default: 10 },
+          { name: 'password', sensitive: true, default: 'secret', required: true },
+          { name: '$token', required: true },
+        ],
+      }),
+    );
+
+    expect(schema.required).toEqual(['query']);
+    expect(schema.properties).toEqual({
+      query: { description: 'Query: What to search' },
+      limit: { type: 'number', default: 10 },
+      password: { type: 'string', description: '(sensitive)' },
+      tabId: expect.objectContaining({ type: 'number' }),
+    });
+  });
+
+  it('lets a flow variable named tabId replace the tab selector', () => {
+    const definition = buildFlowToolDefinition(
+      'flow_x',
+      flow('x', {
+        description: 'Does x',
+        variables: [{ name: 'tabId', description: 'Tab to inspect' }],
+      }),
+    );
+
+    expect(definition.description.startsWith('Does x')).toBe(true);
+    expect(definition.inputSchema.properties?.tabId).toEqual({ description: 'Tab to inspect' });
+  });
+});
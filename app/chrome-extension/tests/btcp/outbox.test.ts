@@ -0,0 +1,112 @@
+/**
+ * @fileoverview BTCP Response Outbox
+ * @description
+ * Verifies persistence and retry bookkeeping of undelivered tool responses:
+ * - Records are keyed by server and requestId
+ * - Failed attempts back off exponentially (capped)
+ * - Delivered records are removed, expired records are purged
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  OUTBOX_RETRY_BASE_MS,
+  OUTBOX_RETRY_MAX_MS,
+  OUTBOX_TTL_MS,
+  clearOutbox,
+  computeOutboxBackoff,
+  enqueueResponse,
+  getOutboxRecord,
+  listOutbox,
+  markDelivered,
+  markFailed,
+  markSent,
+  purgeExpiredOutbox,
+} from '@/entrypoints/background/btcp-outbox';
+
+const RESPONSE = { content: [{ type: 'text' as const, text: 'ok' }] };
+const LOCAL = 'http://localhost:8765';
+
+function enqueue(requestId: string, serverUrl = LOCAL) {
+  return enqueueResponse({
+    requestId,
+    serverUrl,
+    sessionId: 'session-1',
+    toolName: 'chrome_click_element',
+    response: RESPONSE,
+  });
+}
+
+describe('BTCP outbox', () => {
+  beforeEach(async () => {
+    await clearOutbox();
+  });
+
+  it('persists a pending record keyed by server and requestId', async () => {
+    await enqueue('req-1');
+
+    const record = await getOutboxRecord(LOCAL, 'req-1');
+    expect(record).toMatchObject({
+      requestId: 'req-1',
+      status: 'pending',
+      attempts: 0,
+      response: RESPONSE,
+    });
+  });
+
+  it('lists records per server, oldest first', async () => {
+    await enqueue('req-1');
+    await enqueue('req-2', 'http://team-broker:9000');
+    await enqueue('req-3');
+
+    const local = await listOutbox(LOCAL);
+    expect(local.map((r) => r.requestId)).toEqual(['req-1', 'req-3']);
+    expect(await listOutbox()).toHaveLength(3);
+  });
+
+  it('keeps the same requestId from different servers apart', async () => {
+    await enqueue('req-1');
+    await enqueue('req-1', 'http://team-broker:9000');
+
+    await markDelivered(LOCAL, 'req-1');
+    expect(await getOutboxRecord(LOCAL, 'req-1')).toBeUndefined();
+    expect(await getOutboxRecord('http://team-broker:9000', 'req-1')).toBeDefined();
+  });
+
+  it('backs off exponentially and caps the delay', () => {
+    expect(computeOutboxBackoff(1)).toBe(OUTBOX_RETRY_BASE_MS);
+    expect(computeOutboxBackoff(2)).toBe(OUTBOX_RETRY_BASE_MS * 2);
+    expect(computeOutboxBackoff(3)).toBe(OUTBOX_RETRY_BASE_MS * 4);
+    expect(computeOutboxBackoff(50)).toBe(OUTBOX_RETRY_MAX_MS);
+  });
+
+  it('markFailed records the error and schedules the next attempt', async () => {
+    const record = await enqueue('req-1');
+
+    const before = Date.now();
+    const nextAttemptAt = await markFailed(record, new Error('HTTP 503'));
+
+    const updated = await getOutboxRecord(LOCAL, 'req-1');
+    expect(updated).toMatchObject({ status: 'pending', attempts: 1, lastError: 'HTTP 503' });
+    expect(nextAttemptAt).toBeGreaterThanOrEqual(before + OUTBOX_RETRY_BASE_MS);
+    expect(updated!.nextAttemptAt).toBe(nextAttemptAt);
+  });
+
+  it('markSent keeps the record until it is acknowledged', async () => {
+    const record = await enqueue('req-1');
+
+    await markSent(record);
+    expect(await getOutboxRecord(LOCAL, 'req-1')).toMatchObject({ status: 'sent', attempts: 1 });
+
+    await markDelivered(LOCAL, 'req-1');
+    expect(await getOutboxRecord(LOCAL, 'req-1')).toBeUndefined();
+  });
+
+  it('purges records older than the TTL', async () => {
+    await enqueue('req-1');
+
+    expect(await purgeExpiredOutbox(Date.now())).toBe(0);
+    expect(await purgeExpiredOutbox(Date.now() + OUTBOX_TTL_MS + 1)).toBe(1);
+    expect(await listOutbox()).toHaveLength(0);
+  });
+});
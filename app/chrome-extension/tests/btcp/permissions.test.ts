@@ -0,0 +1,166 @@
+/**
+ * @fileoverview BTCP Tool Permissions
+ * @description
+ * Verifies policy evaluation for remote tool calls:
+ * - Sensitive tools ask by default, others follow the policy default
+ * - tool + domain rules beat tool rules, which beat domain-wide rules
+ * - A domain-wide deny beats a tool rule without a domain
+ * - Wildcard domain patterns match subdomains
+ * - Denials produce a structured PERMISSION_DENIED error
+ * - "Remember for this domain" is not saved when the call has no domain
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  ANY_TOOL,
+  DEFAULT_TOOL_POLICY,
+  authorizeToolCall,
+  buildPermissionDeniedResponse,
+  domainMatches,
+  evaluateToolPermission,
+  initToolPermissionListeners,
+  upsertRule,
+  type ToolApprovalRequest,
+  type ToolPermissionPolicy,
+  type ToolPermissionRule,
+} from '@/entrypoints/background/btcp-permissions';
+
+function rule(partial: Partial<ToolPermissionRule>): ToolPermissionRule {
+  return {
+    tool: 'chrome_click_element',
+    decision: 'allow',
+    source: 'user',
+    createdAt: 0,
+    ...partial,
+  };
+}
+
+describe('BTCP tool permissions', () => {
+  it('asks for sensitive tools and allows others by default', () => {
+    expect(evaluateToolPermission(DEFAULT_TOOL_POLICY, 'chrome_javascript', 'a.test')).toEqual({
+      decision: 'ask',
+    });
+    expect(evaluateToolPermission(DEFAULT_TOOL_POLICY, 'chrome_screenshot', 'a.test')).toEqual({
+      decision: 'allow',
+    });
+  });
+
+  it('prefers the most specific rule', () => {
+    const policy: ToolPermissionPolicy = {
+      defaultDecision: 'allow',
+      rules: [
+        rule({ tool: ANY_TOOL, domain: 'bank.test', decision: 'deny' }),
+        rule({ tool: 'chrome_javascript', decision: 'allow' }),
+        rule({ tool: 'chrome_javascript', domain: 'bank.test', decision: 'ask' }),
+      ],
+    };
+
+    expect(evaluateToolPermission(policy, 'chrome_javascript', 'bank.test').decision).toBe('ask');
+    expect(evaluateToolPermission(policy, 'chrome_javascript', 'docs.test').decision).toBe('allow');
+    expect(evaluateToolPermission(policy, 'chrome_screenshot', 'bank.test').decision).toBe('deny');
+  });
+
+  it('lets a domain-wide deny win over a tool-wide allow', () => {
+    const policy: ToolPermissionPolicy = {
+      defaultDecision: 'allow',
+      rules: [
+        rule({ tool: 'chrome_javascript', decision: 'allow' }),
+        rule({ tool: ANY_TOOL, domain: '*.bank.test', decision: 'deny' }),
+        rule({ tool: ANY_TOOL, domain: 'docs.test', decision: 'ask' }),
+      ],
+    };
+
+    expect(evaluateToolPermission(policy, 'chrome_javascript', 'www.bank.test')).toEqual({
+      decision: 'deny',
+      rule: policy.rules[1],
+    });
+    // Only denies jump ahead; other domain-wide rules still lose to tool rules
+    expect(evaluateToolPermission(policy, 'chrome_javascript', 'docs.test').decision).toBe('allow');
+    expect(evaluateToolPermission(policy, 'chrome_screenshot', 'docs.test').decision).toBe('ask');
+  });
+
+  it('matches wildcard domains including the apex', () => {
+    expect(domainMatches('*.example.com', 'example.com')).toBe(true);
+    expect(domainMatches('*.example.com', 'mail.example.com')).toBe(true);
+    expect(domainMatches('*.example.com', 'badexample.com')).toBe(false);
+    expect(domainMatches('example.com', 'EXAMPLE.com')).toBe(true);
+    expect(domainMatches('example.com', null)).toBe(false);
+  });
+
+  it('upsertRule replaces the rule for the same tool and domain', () => {
+    let policy = upsertRule(DEFAULT_TOOL_POLICY, rule({ domain: 'A.test', decision: 'deny' }));
+    policy = upsertRule(policy, rule({ domain: 'a.test', decision: 'allow' }));
+
+    expect(policy.rules).toHaveLength(1);
+    expect(policy.rules[0]).toMatchObject({ domain: 'a.test', decision: 'allow' });
+  });
+
+  it('builds a structured denial error', () => {
+    const response = buildPermissionDeniedResponse('chrome_upload_file', {
+      allowed: false,
+      decision: 'timeout',
+      domain: 'a.test',
+      reason: 'approval request timed out',
+    });
+
+    const [content] = response.content;
+    expect(response.isError).toBe(true);
+    expect(content.type).toBe('text');
+    expect(JSON.parse(content.type === 'text' ? content.text : '')).toEqual({
+      error: {
+        code: 'PERMISSION_DENIED',
+        message: 'Permission denied: approval request timed out',
+        tool: 'chrome_upload_file',
+        domain: 'a.test',
+        decision: 'timeout',
+      },
+    });
+  });
+
+  it('does not turn a domain-scoped answer without a domain into a tool-wide rule', async () => {
+    vi.mocked(chrome.storage.local.get).mockImplementation(async () => ({}));
+    vi.mocked(chrome.storage.local.set).mockResolvedValue(undefined);
+    vi.mocked(chrome.tabs.query).mockResolvedValue([]);
+    vi.mocked(chrome.runtime.sendMessage).mockResolvedValue(undefined);
+    initToolPermissionListeners();
+    const onMessage = vi.mocked(chrome.runtime.onMessage.addListener).mock.calls.at(-1)![0] as (
+      message: unknown,
+      sender: unknown,
+      sendResponse: (response: unknown) => void,
+    ) => void;
+
+    const authorization = authorizeToolCall({
+      requestId: 'req-1',
+      serverUrl: 'http://localhost:8765',
+      toolName: 'chrome_javascript',
+      args: {},
+    });
+    await vi.waitFor(() =>
+      expect(chrome.runtime.sendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'btcp_approval_requested' }),
+      ),
+    );
+    const [{ approval }] = vi
+      .mocked(chrome.runtime.sendMessage)
+      .mock.calls.map(
+        ([message]) => message as unknown as { type: string; approval: ToolApprovalRequest },
+      )
+      .filter((message) => message.type === 'btcp_approval_requested');
+    expect(approval.domain).toBeNull();
+
+    onMessage(
+      {
+        type: 'btcp_approval_decide',
+        approvalId: approval.approvalId,
+        decision: 'allow',
+        scope: 'domain',
+      },
+      {},
+      () => {},
+    );
+
+    expect(await authorization).toEqual({ allowed: true });
+    expect(chrome.storage.local.set).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview BTCP Tool Call Scheduler
+ * @description
+ * Verifies scheduling of incoming tool calls:
+ * - Calls on the same tab run one after another, in arrival order
+ * - Calls on different tabs run in parallel up to the global cap
+ * - Queued calls are dropped on cancel; running calls have their signal aborted
+ * - Disconnecting one server cancels only that server's calls
+ * - Queue position and timing are reported
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  ToolCallCancelledError,
+  createToolCallScheduler,
+} from '@/entrypoints/background/btcp-scheduler';
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+const tick = () => new Promise((r) => setTimeout(r, 0));
+
+describe('BTCP tool call scheduler', () => {
+  it('serializes calls on the same tab', async () => {
+    const scheduler = createToolCallScheduler(4);
+    const order: string[] = [];
+    const first = deferred();
+
+    const a = scheduler.schedule({
+      requestId: 'a',
+      lane: 'tab:1',
+      run: async () => {
+        order.push('a:start');
+        await first.promise;
+        order.push('a:end');
+      },
+    });
+    const b = scheduler.schedule({
+      requestId: 'b',
+      lane: 'tab:1',
+      run: async () => {
+        order.push('b:start');
+      },
+    });
+
+    await tick();
+    expect(order).toEqual(['a:start']);
+    expect(scheduler.stats()).toMatchObject({ running: 1, queued: 1 });
+
+    first.resolve();
+    await Promise.all([a, b]);
+    expect(order).toEqual(['a:start', 'a:end', 'b:start']);
+  });
+
+  it('runs different tabs in parallel up to the global cap', async () => {
+    const scheduler = createToolCallScheduler(2);
+    const gate = deferred();
+    const started: string[] = [];
+
+    const calls = ['1', '2', '3'].map((tab) =>
+      scheduler.schedule({
+        requestId: `req-${tab}`,
+        lane: `tab:${tab}`,
+        run: async () => {
+          started.push(tab);
+          await gate.promise;
+        },
+      }),
+    );
+
+    await tick();
+    expect(started).toEqual(['1', '2']);
+
+    gate.resolve();
+    const results = await Promise.all(calls);
+    expect(started).toEqual(['1', '2', '3']);
+    expect(results.map((r) => r.timing.queuePosition)).toEqual([0, 0, 1]);
+  });
+
+  it('does not let a later call overtake a waiting call on the same tab', async () => {
+    const scheduler = createToolCallScheduler(1);
+    const gate = deferred();
+    const started: string[] = [];
+    const run =
+      (id: string, wait = false) =>
+      async () => {
+        started.push(id);
+        if (wait) await gate.promise;
+      };
+
+    const calls = [
+      scheduler.schedule({ requestId: 'x', lane: 'tab:9', run: run('x', true) }),
+      scheduler.schedule({ requestId: 'y', lane: 'tab:1', run: run('y') }),
+      scheduler.schedule({ requestId: 'z', lane: 'tab:1', run: run('z') }),
+    ];
+
+    gate.resolve();
+    await Promise.all(calls);
+    expect(started).toEqual(['x', 'y', 'z']);
+  });
+
+  it('drops queued calls on cancel and reports their timing', async () => {
+    const scheduler = createToolCallScheduler(1);
+    const gate = deferred();
+
+    const running = scheduler.schedule({ requestId: 'a', lane: null, run: () => gate.promise });
+    const queued = scheduler.schedule({ requestId: 'b', lane: null, run: async () => 'never' });
+
+    expect(scheduler.cancel('b', 'no longer needed')).toBe('cancelled');
+    expect(scheduler.cancel('missing')).toBe('unknown');
+
+    const error = await queued.catch((e) => e);
+    expect(error).toBeInstanceOf(ToolCallCancelledError);
+    expect(error).toMatchObject({ reason: 'no longer needed' });
+    expect(error.timing).toMatchObject({ queuePosition: 1, runMs: 0 });
+
+    gate.resolve();
+    const { timing } = await running;
+    expect(timing.startedAt).not.toBeNull();
+    expect(timing.finishedAt).toBeGreaterThanOrEqual(timing.startedAt!);
+  });
+
+  it('aborts the signal of a running call', async () => {
+    const scheduler = createToolCallScheduler(1);
+    let signal: AbortSignal | undefined;
+
+    const call = scheduler.schedule({
+      requestId: 'a',
+      lane: 'tab:1',
+      run: (s) => {
+        signal = s;
+        return new Promise<string>((resolve) =>
+          s.addEventListener('abort', () => resolve('stopped')),
+        );
+      },
+    });
+
+    await tick();
+    expect(scheduler.cancel('a', 'user gave up')).toBe('aborted');
+    expect(signal?.aborted).toBe(true);
+    expect((signal?.reason as Error).message).toBe('user gave up');
+    expect((await call).result).toBe('stopped');
+  });
+
+  it('propagates tool errors and frees the lane', async () => {
+    const scheduler = createToolCallScheduler(1);
+
+    await expect(
+      scheduler.schedule({
+        requestId: 'a',
+        lane: 'tab:1',
+        run: async () => {
+          throw new Error('boom');
+        },
+      }),
+    ).rejects.toThrow('boom');
+
+    const { result } = await scheduler.schedule({
+      requestId: 'b',
+      lane: 'tab:1',
+      run: async () => 'ok',
+    });
+    expect(result).toBe('ok');
+    expect(scheduler.stats()).toMatchObject({ running: 0, queued: 0 });
+  });
+
+  it('cancels only the calls of one owner', async () => {
+    const scheduler = createToolCallScheduler(1);
+    const gate = deferred();
+    let localSignal: AbortSignal | undefined;
+
+    const local = scheduler.schedule({
+      requestId: 'local:1',
+      owner: 'local',
+      lane: 'tab:1',
+      run: async (signal) => {
+        localSignal = signal;
+        await gate.promise;
+        return 'local';
+      },
+    });
+    const teamQueued = scheduler.schedule({
+      requestId: 'team:1',
+      owner: 'team',
+      lane: 'tab:2',
+      run: async () => 'team',
+    });
+    const localQueued = scheduler.schedule({
+      requestId: 'local:2',
+      owner: 'local',
+      lane: 'tab:3',
+      run: async () => 'never',
+    });
+
+    await tick();
+    expect(scheduler.cancelAll('server disconnected', 'local')).toBe(2);
+    expect(localSignal?.aborted).toBe(true);
+    await expect(localQueued).rejects.toBeInstanceOf(ToolCallCancelledError);
+
+    gate.resolve();
+    expect((await local).result).toBe('local');
+    expect((await teamQueued).result).toBe('team');
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview BTCP Server Configurations
+ * @description
+ * Verifies how tools are offered to each connected server:
+ * - Namespaced servers see `<namespace>__<tool>` and must call tools that way
+ * - A server's tool subset limits what it is offered
+ * - Invalid namespaces are rejected
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildServerToolDefinitions,
+  isToolOfferedToServer,
+  namespaceToolName,
+  normalizeToolNamespace,
+  stripToolNamespace,
+  type BTCPServerConfig,
+} from '@/entrypoints/background/btcp-servers';
+import type { BTCPToolDefinition } from '@/entrypoints/background/btcp-tool-definitions';
+
+function def(name: string): BTCPToolDefinition {
+  return { name, description: name, inputSchema: { type: 'object', properties: {} } };
+}
+
+function server(partial: Partial<BTCPServerConfig> = {}): BTCPServerConfig {
+  return {
+    id: 'srv_1',
+    serverUrl: 'http://localhost:8765',
+    transport: 'sse',
+    autoConnect: true,
+    enabledTools: null,
+    ...partial,
+  };
+}
+
+describe('BTCP servers', () => {
+  it('prefixes and strips the tool namespace', () => {
+    expect(namespaceToolName(undefined, 'chrome_screenshot')).toBe('chrome_screenshot');
+    expect(namespaceToolName('alice', 'chrome_screenshot')).toBe('alice__chrome_screenshot');
+
+    expect(stripToolNamespace(undefined, 'chrome_screenshot')).toBe('chrome_screenshot');
+    expect(stripToolNamespace('alice', 'alice__chrome_screenshot')).toBe('chrome_screenshot');
+    expect(stripToolNamespace('alice', 'bob__chrome_screenshot')).toBeNull();
+    expect(stripToolNamespace('alice', 'chrome_screenshot')).toBeNull();
+  });
+
+  it('offers each server its subset of the enabled tools under its namespace', () => {
+    const enabled = [def('chrome_screenshot'), def('chrome_navigate'), def('flow_login')];
+
+    expect(buildServerToolDefinitions(server(), enabled).map((t) => t.name)).toEqual([
+      'chrome_screenshot',
+      'chrome_navigate',
+      'flow_login',
+    ]);
+
+    const team = server({ toolNamespace: 'alice', enabledTools: ['chrome_screenshot', 'gone'] });
+    expect(buildServerToolDefinitions(team, enabled).map((t) => t.name)).toEqual([
+      'alice__chrome_screenshot',
+    ]);
+    expect(isToolOfferedToServer(team, 'chrome_screenshot')).toBe(true);
+    expect(isToolOfferedToServer(team, 'chrome_navigate')).toBe(false);
+  });
+
+  it('validates namespaces', () => {
+    expect(normalizeToolNamespace('  alice-laptop ')).toBe('alice-laptop');
+    expect(normalizeToolNamespace('')).toBeUndefined();
+    expect(normalizeToolNamespace(null)).toBeUndefined();
+    expect(() => normalizeToolNamespace('has__underscores')).toThrow('Tool namespace');
+    expect(() => normalizeToolNamespace('-leading')).toThrow('Tool namespace');
+  });
+});
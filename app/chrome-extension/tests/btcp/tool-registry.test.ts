@@ -0,0 +1,63 @@
+/**
+ * @fileoverview BTCP Tool Registry
+ * @description
+ * Verifies which tools are registered with the server:
+ * - Optional tools are off and regular tools on unless overridden
+ * - A disabled group turns off all of its tools
+ * - Tool set diffs report added, removed and changed definitions
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  DEFAULT_TOOL_SETTINGS,
+  diffToolDefinitions,
+  getToolGroupId,
+  isEmptyToolSetDiff,
+  isToolEnabled,
+} from '@/entrypoints/background/btcp-tool-registry';
+import type { BTCPToolDefinition } from '@/entrypoints/background/btcp-tool-definitions';
+
+// The V3 engine pulls in the whole action runtime; these tests only need pure helpers
+vi.mock('@/entrypoints/background/record-replay-v3/bootstrap', () => ({
+  getV3Runtime: () => null,
+}));
+
+function def(name: string, description = name): BTCPToolDefinition {
+  return { name, description, inputSchema: { type: 'object', properties: {} } };
+}
+
+describe('BTCP tool registry', () => {
+  it('enables regular tools and disables optional tools by default', () => {
+    expect(isToolEnabled(DEFAULT_TOOL_SETTINGS, 'chrome_screenshot')).toBe(true);
+    expect(isToolEnabled(DEFAULT_TOOL_SETTINGS, 'chrome_userscript')).toBe(false);
+    expect(isToolEnabled(DEFAULT_TOOL_SETTINGS, 'record_replay_flow_run')).toBe(false);
+  });
+
+  it('applies per-tool overrides and group switches', () => {
+    const settings = {
+      groups: { scripting: false },
+      tools: { chrome_userscript: true, chrome_screenshot: false },
+    };
+
+    expect(getToolGroupId('chrome_userscript')).toBe('scripting');
+    expect(getToolGroupId('flow_login')).toBe('flows');
+    expect(isToolEnabled(settings, 'chrome_userscript')).toBe(false);
+    expect(isToolEnabled(settings, 'chrome_javascript')).toBe(false);
+    expect(isToolEnabled(settings, 'chrome_screenshot')).toBe(false);
+    expect(isToolEnabled(settings, 'chrome_navigate')).toBe(true);
+    expect(getToolGroupId('not_a_tool')).toBe('other');
+  });
+
+  it('diffs tool sets by name and content', () => {
+    const diff = diffToolDefinitions(
+      [def('a'), def('b'), def('c')],
+      [def('a'), def('b', 'changed'), def('d')],
+    );
+
+    expect(diff.added.map((d) => d.name)).toEqual(['d']);
+    expect(diff.removed).toEqual(['c']);
+    expect(diff.updated.map((d) => d.name)).toEqual(['b']);
+    expect(isEmptyToolSetDiff(diffToolDefinitions([def('a')], [def('a')]))).toBe(true);
+  });
+});
@@ -0,0 +1,539 @@
+/**
+ * @fileoverview BTCP Transport
+ * @description
+ * Drives the real transports over a fake WebSocket and a fake EventSource:
+ * - WebSocket frames become events; malformed frames are dropped and the socket stays up
+ * - Replies are matched to outbound requests by id, time out, and fail when the socket closes
+ * - SSE events are parsed per event name; outbound messages are POSTed
+ * - A connection falls back to SSE when the WebSocket never opens
+ * - Reconnects back off exponentially and reset once a connection opens
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/entrypoints/background/btcp-auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/entrypoints/background/btcp-auth')>()),
+  getServerCredential: async (serverUrl: string) => ({
+    serverUrl,
+    token: 'token',
+    secret: 'secret',
+    pairedAt: 0,
+  }),
+  buildAuthQuery: async () => ({ signature: 'signed' }),
+  buildAuthHeaders: async () => ({ 'X-Signature': 'signed' }),
+}));
+
+vi.mock('@/entrypoints/background/btcp-tool-adapter', () => ({
+  getBTCPToolAdapter: () => ({ execute: async () => ({ content: [] }) }),
+}));
+
+vi.mock('@/entrypoints/background/btcp-servers', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/entrypoints/background/btcp-servers')>()),
+  loadSessionId: async () => null,
+  saveSessionId: async () => {},
+}));
+
+vi.mock('@/entrypoints/background/btcp-tool-registry', () => ({
+  getEnabledToolDefinitions: async () => [],
+  isToolNameEnabled: async () => true,
+  diffToolDefinitions: () => ({ added: [], removed: [], updated: [] }),
+  isEmptyToolSetDiff: () => true,
+}));
+
+vi.mock('@/entrypoints/background/btcp-audit', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/entrypoints/background/btcp-audit')>()),
+  appendAuditEntry: async () => {},
+}));
+
+vi.mock('@/entrypoints/background/keepalive-manager', () => ({
+  acquireKeepalive: () => () => {},
+}));
+
+import {
+  createSSETransport,
+  createWebSocketTransport,
+  type BTCPTransportHandlers,
+  type BTCPTransportOptions,
+} from '@/entrypoints/background/btcp-transport';
+import {
+  createBTCPConnection,
+  type BTCPConnection,
+} from '@/entrypoints/background/btcp-connection';
+import type { BTCPServerConfig } from '@/entrypoints/background/btcp-servers';
+import { clearOutbox } from '@/entrypoints/background/btcp-outbox';
+
+const SERVER_URL = 'http://localhost:8765';
+const TIMEOUT_MS = 1000;
+
+class FakeWebSocket {
+  static readonly instances: FakeWebSocket[] = [];
+
+  readonly sent: string[] = [];
+  closedWith: number | null = null;
+  onopen: ((event: unknown) => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string): void {
+    this.sent.push(data);
+  }
+
+  close(code: number): void {
+    this.closedWith = code;
+  }
+
+  serverOpen(): void {
+    this.onopen?.({});
+  }
+
+  /** Deliver a frame; non-strings are sent as JSON */
+  serverSend(frame: unknown): void {
+    this.onmessage?.({ data: typeof frame === 'string' ? frame : JSON.stringify(frame) });
+  }
+
+  serverClose(code: number): void {
+    this.onclose?.({ code });
+  }
+
+  sentMessages(): Array<Record<string, unknown>> {
+    return this.sent.map((data) => JSON.parse(data));
+  }
+}
+
+class FakeEventSource {
+  static readonly CLOSED = 2;
+  static readonly instances: FakeEventSource[] = [];
+
+  readyState = 0;
+  onopen: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  private readonly listeners = new Map<string, Array<(event: { data: string }) => void>>();
+
+  constructor(readonly url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (event: { data: string }) => void): void {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  close(): void {
+    this.readyState = FakeEventSource.CLOSED;
+  }
+
+  serverOpen(): void {
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+
+  serverSend(type: string, data: string): void {
+    for (const listener of this.listeners.get(type) ?? []) listener({ data });
+  }
+
+  /** An error the browser retries, or (fatal) one after which it gives up */
+  fail(fatal: boolean): void {
+    if (fatal) this.readyState = FakeEventSource.CLOSED;
+    this.onerror?.({ type: 'error' });
+  }
+}
+
+function fakeHandlers() {
+  return {
+    onOpen: vi.fn(),
+    onClose: vi.fn(),
+    onError: vi.fn(),
+    onEvent: vi.fn(),
+  } satisfies BTCPTransportHandlers;
+}
+
+function transportOptions(
+  handlers: BTCPTransportHandlers,
+  overrides: Partial<BTCPTransportOptions> = {},
+): BTCPTransportOptions {
+  return {
+    serverUrl: SERVER_URL,
+    clientId: 'client-1',
+    getSessionId: () => 'session-1',
+    connectionTimeout: TIMEOUT_MS,
+    handlers,
+    ...overrides,
+  };
+}
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+function lastSocket(): FakeWebSocket {
+  return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+}
+
+function lastEventSource(): FakeEventSource {
+  return FakeEventSource.instances[FakeEventSource.instances.length - 1];
+}
+
+/** Let the async handshake URL resolve and the socket be created */
+async function handshake(): Promise<void> {
+  await vi.advanceTimersByTimeAsync(0);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+  FakeWebSocket.instances.length = 0;
+  FakeEventSource.instances.length = 0;
+  fetchMock = vi.fn(async () => ({
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    text: async () => '',
+  }));
+  vi.stubGlobal('WebSocket', FakeWebSocket);
+  vi.stubGlobal('EventSource', FakeEventSource);
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('WebSocket transport', () => {
+  async function openTransport(overrides: Partial<BTCPTransportOptions> = {}) {
+    const handlers = fakeHandlers();
+    const transport = createWebSocketTransport(transportOptions(handlers, overrides));
+    transport.connect();
+    await handshake();
+    const socket = lastSocket();
+    socket.serverOpen();
+    return { handlers, transport, socket };
+  }
+
+  it('opens /ws with the client identity and the handshake signature', async () => {
+    const { handlers, transport, socket } = await openTransport({
+      serverUrl: 'https://btcp.test/base/',
+      credential: { serverUrl: 'https://btcp.test/base', token: 't', secret: 's', pairedAt: 0 },
+    });
+
+    const url = new URL(socket.url);
+    expect(`${url.origin}${url.pathname}`).toBe('wss://btcp.test/base/ws');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      clientId: 'client-1',
+      sessionId: 'session-1',
+      signature: 'signed',
+    });
+    expect(handlers.onOpen).toHaveBeenCalledTimes(1);
+    expect(transport.isOpen()).toBe(true);
+  });
+
+  it('delivers envelopes and server requests as events', async () => {
+    const { handlers, socket } = await openTransport();
+    const call = { jsonrpc: '2.0', id: 'req-1', method: 'tools/call', params: { name: 'x' } };
+    const cancel = { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1 } };
+
+    socket.serverSend({ event: 'session', data: { sessionId: 'session-2' } });
+    socket.serverSend(call);
+    socket.serverSend(cancel);
+    socket.serverSend({ jsonrpc: '2.0', method: 'custom/notice' });
+
+    expect(handlers.onEvent.mock.calls).toEqual([
+      ['session', { sessionId: 'session-2' }],
+      ['tool_call', call],
+      ['tool_cancel', cancel],
+      ['custom/notice', { jsonrpc: '2.0', method: 'custom/notice' }],
+    ]);
+  });
+
+  it('drops malformed frames and keeps the socket open', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { handlers, transport, socket } = await openTransport();
+
+    socket.serverSend('{"event": "tool_call"');
+    socket.serverSend('');
+    socket.serverSend('null');
+    socket.serverSend('42');
+    socket.serverSend('"tool_call"');
+    socket.serverSend({ data: { sessionId: 'no-event-name' } });
+    socket.serverSend({ jsonrpc: '2.0', id: 'nobody-asked', result: {} });
+    socket.serverSend({ jsonrpc: '2.0', id: 7, result: {} });
+
+    expect(handlers.onEvent).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('Failed to handle WebSocket frame');
+    expect(transport.isOpen()).toBe(true);
+    expect(handlers.onClose).not.toHaveBeenCalled();
+
+    socket.serverSend({ event: 'ping', data: null });
+    expect(handlers.onEvent).toHaveBeenCalledWith('ping', null);
+  });
+
+  it('matches replies to requests by id, in any order', async () => {
+    const { handlers, transport, socket } = await openTransport();
+
+    const first = transport.send({ jsonrpc: '2.0', id: 'a', method: 'tools/register' });
+    const second = transport.send({ jsonrpc: '2.0', id: 'b', method: 'tools/update' });
+    const failing = transport.send({ jsonrpc: '2.0', id: 'c', method: 'tools/unknown' });
+    expect(socket.sentMessages().map((m) => m.id)).toEqual(['a', 'b', 'c']);
+
+    socket.serverSend({ jsonrpc: '2.0', id: 'b', result: { updated: 2 } });
+    socket.serverSend({ jsonrpc: '2.0', id: 'c', error: { code: -32601, message: 'No method' } });
+    socket.serverSend({ jsonrpc: '2.0', id: 'a', result: { registered: 1 } });
+
+    await expect(first).resolves.toEqual({ registered: 1 });
+    await expect(second).resolves.toEqual({ updated: 2 });
+    await expect(failing).rejects.toThrow('RPC -32601: No method');
+    // Replies are consumed, never surfaced as events
+    expect(handlers.onEvent).not.toHaveBeenCalled();
+  });
+
+  it('does not wait for a reply to responses and notifications', async () => {
+    const { transport, socket } = await openTransport();
+
+    await expect(
+      transport.send({ jsonrpc: '2.0', id: 'req-1', result: { content: [] } }),
+    ).resolves.toBeUndefined();
+    await expect(transport.send({ jsonrpc: '2.0', method: 'ping' })).resolves.toBeUndefined();
+    expect(socket.sent).toHaveLength(2);
+  });
+
+  it('times out a request without a reply and ignores a late one', async () => {
+    const { handlers, transport, socket } = await openTransport();
+
+    const request = transport.send({ jsonrpc: '2.0', id: 'slow', method: 'tools/register' });
+    const outcome = expect(request).rejects.toThrow('Request slow timed out after 1000ms');
+    await vi.advanceTimersByTimeAsync(TIMEOUT_MS);
+    await outcome;
+
+    socket.serverSend({ jsonrpc: '2.0', id: 'slow', result: {} });
+    expect(handlers.onEvent).not.toHaveBeenCalled();
+  });
+
+  it('fails pending requests and reports the close code when the socket closes', async () => {
+    const { handlers, transport, socket } = await openTransport();
+
+    const request = transport.send({ jsonrpc: '2.0', id: 'a', method: 'tools/register' });
+    socket.serverClose(1006);
+
+    await expect(request).rejects.toThrow('Request a failed: socket closed (1006)');
+    expect(handlers.onClose).toHaveBeenCalledWith('ws_close_1006');
+    expect(transport.isOpen()).toBe(false);
+    await expect(transport.send({ jsonrpc: '2.0', method: 'ping' })).rejects.toThrow(
+      'WebSocket is not open',
+    );
+  });
+
+  it('gives up with ws_timeout when the socket never opens', async () => {
+    const handlers = fakeHandlers();
+    const transport = createWebSocketTransport(transportOptions(handlers));
+    transport.connect();
+    await handshake();
+
+    await vi.advanceTimersByTimeAsync(TIMEOUT_MS - 1);
+    expect(handlers.onClose).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(handlers.onClose).toHaveBeenCalledWith('ws_timeout');
+    expect(lastSocket().closedWith).toBe(1000);
+    expect(handlers.onOpen).not.toHaveBeenCalled();
+  });
+});
+
+describe('SSE transport', () => {
+  async function openTransport() {
+    const handlers = fakeHandlers();
+    const transport = createSSETransport(transportOptions(handlers));
+    transport.connect();
+    await handshake();
+    const source = lastEventSource();
+    source.serverOpen();
+    return { handlers, transport, source };
+  }
+
+  it('subscribes to /events and parses the data of each event', async () => {
+    const { handlers, transport, source } = await openTransport();
+
+    source.serverSend('tool_call', '{"id":"req-1","params":{"name":"x"}}');
+    source.serverSend('ping', '');
+
+    expect(source.url).toBe(`${SERVER_URL}/events?clientId=client-1&sessionId=session-1`);
+    expect(transport.isOpen()).toBe(true);
+    expect(handlers.onEvent.mock.calls).toEqual([
+      ['tool_call', { id: 'req-1', params: { name: 'x' } }],
+      ['ping', ''],
+    ]);
+  });
+
+  it('drops an event whose data is not JSON', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { handlers, transport, source } = await openTransport();
+
+    source.serverSend('session', '{"sessionId":');
+
+    expect(handlers.onEvent).not.toHaveBeenCalled();
+    expect(warn.mock.calls[0][0]).toContain('Failed to parse session event');
+    expect(transport.isOpen()).toBe(true);
+  });
+
+  it('closes only once the EventSource stops retrying', async () => {
+    const { handlers, transport, source } = await openTransport();
+
+    source.fail(false);
+    expect(handlers.onError).toHaveBeenCalledTimes(1);
+    expect(handlers.onClose).not.toHaveBeenCalled();
+
+    source.fail(true);
+    expect(handlers.onClose).toHaveBeenCalledWith('sse_error');
+    expect(transport.isOpen()).toBe(false);
+  });
+
+  it('posts requests and responses to their endpoints', async () => {
+    const { transport } = await openTransport();
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      text: async () => '{"registered":3}',
+    });
+
+    const reply = await transport.send({ jsonrpc: '2.0', id: 'r', method: 'tools/register' });
+    await transport.send({ jsonrpc: '2.0', id: 'req-1', result: {} });
+
+    expect(reply).toEqual({ registered: 3 });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      `${SERVER_URL}/tools/register`,
+      `${SERVER_URL}/tools/response`,
+    ]);
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({
+      method: 'POST',
+      headers: { 'X-Client-ID': 'client-1', 'X-Session-ID': 'session-1' },
+    });
+
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Unavailable' });
+    await expect(transport.send({ jsonrpc: '2.0', method: 'ping' })).rejects.toThrow(
+      'HTTP 503: Unavailable',
+    );
+  });
+});
+
+describe('connection transport lifecycle', () => {
+  let connection: BTCPConnection;
+  let events: string[];
+
+  function createConnection(overrides: Partial<BTCPServerConfig> = {}): BTCPConnection {
+    events = [];
+    connection = createBTCPConnection(
+      {
+        id: 'local',
+        serverUrl: SERVER_URL,
+        transport: 'websocket',
+        autoConnect: true,
+        enabledTools: null,
+        ...overrides,
+      },
+      (event) => events.push(event),
+    );
+    return connection;
+  }
+
+  beforeEach(async () => {
+    await clearOutbox();
+  });
+
+  afterEach(async () => {
+    await connection.disconnect();
+    await clearOutbox();
+  });
+
+  it('falls back to SSE when the WebSocket closes before opening', async () => {
+    await createConnection().connect();
+    await handshake();
+
+    lastSocket().serverClose(1006);
+    await handshake();
+    expect(FakeEventSource.instances).toHaveLength(1);
+    lastEventSource().serverOpen();
+
+    expect(connection.getTransportKind()).toBe('sse');
+    expect(connection.isConnected()).toBe(true);
+    expect(events).toEqual(['connected']);
+    await vi.waitFor(() =>
+      expect(fetchMock).toHaveBeenCalledWith(`${SERVER_URL}/tools/register`, expect.anything()),
+    );
+  });
+
+  it('falls back to SSE when the WebSocket does not open in time', async () => {
+    await createConnection().connect({ connectionTimeout: TIMEOUT_MS });
+    await handshake();
+
+    await vi.advanceTimersByTimeAsync(TIMEOUT_MS);
+
+    expect(lastSocket().closedWith).toBe(1000);
+    expect(FakeEventSource.instances).toHaveLength(1);
+    expect(connection.getTransportKind()).toBe('sse');
+  });
+
+  it('stays on WebSocket when fallback is off or the socket had opened', async () => {
+    await createConnection().connect({ transportFallback: false });
+    await handshake();
+    lastSocket().serverClose(1006);
+    expect(events).toEqual(['disconnected']);
+
+    await connection.connect();
+    await handshake();
+    lastSocket().serverOpen();
+    lastSocket().serverClose(1011);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(FakeEventSource.instances).toHaveLength(0);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+    expect(connection.getTransportKind()).toBe('websocket');
+  });
+
+  it('backs off exponentially between reconnects and resets once connected', async () => {
+    await createConnection({ transport: 'sse' }).connect({ reconnectDelay: 100 });
+    await handshake();
+
+    /** Fail the current EventSource and return how long until the next one */
+    async function failAndWaitForRetry(): Promise<number> {
+      const count = FakeEventSource.instances.length;
+      lastEventSource().fail(true);
+      let waited = 0;
+      while (FakeEventSource.instances.length === count) {
+        await vi.advanceTimersByTimeAsync(50);
+        waited += 50;
+        if (waited > 10_000) throw new Error('no reconnect');
+      }
+      return waited;
+    }
+
+    expect(await failAndWaitForRetry()).toBe(100);
+    expect(await failAndWaitForRetry()).toBe(200);
+    expect(await failAndWaitForRetry()).toBe(400);
+    expect((await connection.status()).state).toBe('connecting');
+    expect((await connection.status()).reconnectAttempts).toBe(3);
+
+    lastEventSource().serverOpen();
+    expect((await connection.status()).reconnectAttempts).toBe(0);
+    expect(await failAndWaitForRetry()).toBe(100);
+  });
+
+  it('stops reconnecting after maxReconnectAttempts', async () => {
+    await createConnection({ transport: 'sse' }).connect({
+      reconnectDelay: 100,
+      maxReconnectAttempts: 2,
+    });
+    await handshake();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    for (let i = 0; i < 3; i++) {
+      lastEventSource().fail(true);
+      await vi.advanceTimersByTimeAsync(1000);
+    }
+
+    expect(FakeEventSource.instances).toHaveLength(3);
+    expect((await connection.status()).state).toBe('disconnected');
+    expect(warn.mock.calls.some(([message]) => String(message).includes('giving up'))).toBe(true);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Visual diff comparison
+ * @description
+ * Verifies the pixel comparison behind chrome_visual_diff on decoded images:
+ * - pixel mode compares raw channels; perceptual mode compares YIQ color over white
+ * - Ignored rects are neither compared nor counted
+ * - Pixels outside the smaller image count as changed
+ * - Changed pixels are grouped into connected regions, largest first
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import { buildRegions, diffImages, type RgbaImage } from '@/entrypoints/offscreen/visual-diff';
+
+type Rgba = [number, number, number, number];
+
+const WHITE: Rgba = [255, 255, 255, 255];
+
+function image(width: number, height: number, color: Rgba = WHITE): RgbaImage {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(color, i);
+  return { width, height, data };
+}
+
+function paint(img: RgbaImage, x: number, y: number, w: number, h: number, color: Rgba) {
+  for (let row = y; row < y + h; row++) {
+    for (let col = x; col < x + w; col++) img.data.set(color, (row * img.width + col) * 4);
+  }
+  return img;
+}
+
+describe('diffImages', () => {
+  it('reports no changes for identical images', () => {
+    const { response } = diffImages(image(16, 16), image(16, 16));
+
+    expect(response).toMatchObject({
+      success: true,
+      width: 16,
+      height: 16,
+      comparedPixels: 256,
+      mismatchedPixels: 0,
+      mismatchPercentage: 0,
+      regions: [],
+      regionCount: 0,
+    });
+  });
+
+  it('compares raw channels against the threshold in pixel mode', () => {
+    const baseline = image(4, 1, [100, 100, 100, 255]);
+    const current = image(4, 1, [100, 100, 100, 255]);
+    paint(current, 0, 0, 1, 1, [120, 100, 100, 255]);
+    paint(current, 1, 0, 1, 1, [130, 100, 100, 255]);
+    // Transparent black and opaque white are far apart channel by channel
+    paint(baseline, 2, 0, 1, 1, [0, 0, 0, 0]);
+    paint(current, 2, 0, 1, 1, WHITE);
+
+    const { response } = diffImages(baseline, current, { mode: 'pixel', threshold: 0.1 });
+
+    expect(response.mismatchedPixels).toBe(2);
+    expect(response.mismatchPercentage).toBe(50);
+  });
+
+  it('compares perceived color over white in perceptual mode', () => {
+    const baseline = image(3, 1);
+    const current = image(3, 1);
+    // Transparent pixels look white
+    paint(baseline, 0, 0, 1, 1, [0, 0, 0, 0]);
+    // A barely visible tint stays under the default threshold
+    paint(current, 1, 0, 1, 1, [250, 252, 255, 255]);
+    paint(current, 2, 0, 1, 1, [0, 0, 0, 255]);
+
+    const { response } = diffImages(baseline, current);
+
+    expect(response.mismatchedPixels).toBe(1);
+    expect(response.regions).toEqual([{ x: 2, y: 0, width: 1, height: 1, pixels: 1 }]);
+  });
+
+  it('skips ignored rects, clamped to the image', () => {
+    const current = paint(image(10, 10), 0, 0, 10, 2, [0, 0, 0, 255]);
+
+    const { response } = diffImages(image(10, 10), current, {
+      ignoreRects: [{ x: -5, y: -5, width: 12.5, height: 6.2 }],
+    });
+
+    // Rows 0-1 are ignored from x=0 to x=7 (12.5 - 5 rounded up)
+    expect(response.comparedPixels).toBe(100 - 16);
+    expect(response.mismatchedPixels).toBe(4);
+    expect(response.regions).toEqual([{ x: 8, y: 0, width: 2, height: 2, pixels: 4 }]);
+  });
+
+  it('counts pixels outside the smaller image as changed', () => {
+    const { response } = diffImages(image(10, 8), image(8, 10));
+
+    expect(response).toMatchObject({
+      width: 10,
+      height: 10,
+      baselineSize: { width: 10, height: 8 },
+      currentSize: { width: 8, height: 10 },
+      comparedPixels: 100,
+      // 2x8 strip missing from current + 8x2 strip missing from baseline + 2x2 corner
+      mismatchedPixels: 36,
+    });
+  });
+
+  it('groups changes into connected regions, largest first', () => {
+    const current = image(64, 32);
+    // Two blocks in diagonally touching cells merge into one region
+    paint(current, 2, 2, 6, 6, [0, 0, 0, 255]);
+    paint(current, 8, 8, 3, 3, [0, 0, 0, 255]);
+    // A separate, larger block far away
+    paint(current, 40, 10, 10, 10, [0, 0, 0, 255]);
+
+    const { response } = diffImages(image(64, 32), current);
+
+    expect(response.regions).toEqual([
+      { x: 40, y: 10, width: 10, height: 10, pixels: 100 },
+      { x: 2, y: 2, width: 9, height: 9, pixels: 45 },
+    ]);
+    expect(response.regionCount).toBe(2);
+  });
+
+  it('paints changes red and context as faded gray in the diff image', () => {
+    const baseline = image(2, 1, [0, 0, 0, 255]);
+    const current = paint(image(2, 1, [0, 0, 0, 255]), 1, 0, 1, 1, WHITE);
+
+    const { diffPixels } = diffImages(baseline, current);
+
+    expect(Array.from(diffPixels!)).toEqual([204, 204, 204, 255, 255, 0, 0, 255]);
+    expect(diffImages(baseline, current, { includeDiffImage: false }).diffPixels).toBeNull();
+  });
+});
+
+describe('buildRegions', () => {
+  it('merges 8-connected cells and keeps separate groups apart', () => {
+    // 4x2 cells: cells 0 and 5 touch diagonally, cell 3 stands alone
+    const cellPixels = new Uint32Array([5, 0, 0, 1, 0, 7, 0, 0]);
+    const cellBounds = new Int32Array(8 * 4);
+    cellBounds.set([1, 2, 6, 7], 0);
+    cellBounds.set([24, 0, 24, 0], 3 * 4);
+    cellBounds.set([8, 8, 12, 15], 5 * 4);
+
+    expect(buildRegions(4, 2, cellPixels, cellBounds)).toEqual([
+      { x: 1, y: 2, width: 12, height: 14, pixels: 12 },
+      { x: 24, y: 0, width: 1, height: 1, pixels: 1 },
+    ]);
+  });
+});
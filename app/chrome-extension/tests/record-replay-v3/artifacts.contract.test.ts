@@ -0,0 +1,286 @@
+/**
+ * @fileoverview Record-Replay V3 Artifacts Contracts
+ * @description
+ * Verifies:
+ * - ArtifactsStore (IndexedDB-backed): list/get/delete and retention pruning
+ * - rr_v3 DB upgrade from version 1 adds the artifacts store
+ * - RunRunner honors ArtifactPolicy (screenshot / includeConsole / includeNetwork)
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+
+import type { ArtifactRecord } from '@/entrypoints/background/record-replay-v3/domain/artifacts';
+import type { FlowV3 } from '@/entrypoints/background/record-replay-v3/domain/flow';
+import { FLOW_SCHEMA_VERSION } from '@/entrypoints/background/record-replay-v3/domain/flow';
+import type {
+  RunEvent,
+  RunRecordV3,
+} from '@/entrypoints/background/record-replay-v3/domain/events';
+import {
+  RR_ERROR_CODES,
+  createRRError,
+} from '@/entrypoints/background/record-replay-v3/domain/errors';
+import {
+  RR_V3_DB_NAME,
+  RR_V3_STORES,
+  closeRrV3Db,
+  deleteRrV3Db,
+  openRrV3Db,
+} from '@/entrypoints/background/record-replay-v3/storage/db';
+import { createArtifactsStore } from '@/entrypoints/background/record-replay-v3/storage/artifacts';
+import type {
+  ArtifactService,
+  SaveArtifactInput,
+} from '@/entrypoints/background/record-replay-v3/engine/kernel/artifacts';
+import { createNotImplementedStoragePort } from '@/entrypoints/background/record-replay-v3/engine/storage/storage-port';
+import { PluginRegistry } from '@/entrypoints/background/record-replay-v3/engine/plugins/registry';
+import { InMemoryEventsBus } from '@/entrypoints/background/record-replay-v3/engine/transport/events-bus';
+import { resetBreakpointRegistry } from '@/entrypoints/background/record-replay-v3/engine/kernel/breakpoints';
+import { createRunRunnerFactory } from '@/entrypoints/background/record-replay-v3/engine/kernel/runner';
+
+// ==================== Test Helpers ====================
+
+function createArtifact(id: string, overrides: Partial<ArtifactRecord> = {}): ArtifactRecord {
+  return {
+    id,
+    runId: 'run-1',
+    nodeId: 'node-1',
+    kind: 'console',
+    name: `${id}.json`,
+    mimeType: 'application/json',
+    size: 10,
+    createdAt: 1000,
+    data: '[]',
+    ...overrides,
+  };
+}
+
+/**
+ * Fake ArtifactService that records saved artifacts and capture calls
+ */
+function createFakeArtifactService(opts: { screenshotFails?: boolean } = {}) {
+  const saved: SaveArtifactInput[] = [];
+  const captures: Array<{ tabId: number; console?: boolean; network?: boolean }> = [];
+  const service: ArtifactService = {
+    screenshot: async () =>
+      opts.screenshotFails
+        ? { ok: false, error: createRRError(RR_ERROR_CODES.INTERNAL, 'no window') }
+        : { ok: true, base64: 'iVBORw0KGgo=' },
+    saveScreenshot: async () => ({ savedAs: 'unused.png' }),
+    startCapture: async (tabId, options) => {
+      captures.push({ tabId, ...options });
+      return {
+        stop: async () => ({
+          startedAt: 1,
+          endedAt: 2,
+          errors: [],
+          ...(options.console ? { console: { messages: [{ text: 'hello' }] } } : {}),
+          ...(options.network ? { network: { requests: [] } } : {}),
+        }),
+      };
+    },
+    saveArtifact: async (input) => {
+      saved.push(input);
+      return {
+        artifact: {
+          id: `a${saved.length}`,
+          runId: input.runId,
+          nodeId: input.nodeId,
+          kind: input.kind,
+          name: input.name ?? `${input.kind}.bin`,
+          mimeType: input.mimeType,
+          size: input.data.length,
+          createdAt: 0,
+        },
+      };
+    },
+  };
+  return { service, saved, captures };
+}
+
+function createFlow(policy: FlowV3['nodes'][number]['policy'], fail = false): FlowV3 {
+  const iso = new Date(0).toISOString();
+  return {
+    schemaVersion: FLOW_SCHEMA_VERSION,
+    id: 'flow-artifacts',
+    name: 'artifact flow',
+    createdAt: iso,
+    updatedAt: iso,
+    entryNodeId: 'A',
+    nodes: [{ id: 'A', kind: 'probe', config: { fail }, policy }],
+    edges: [],
+  };
+}
+
+async function runFlow(flow: FlowV3, service: ArtifactService) {
+  const plugins = new PluginRegistry();
+  plugins.registerNode({
+    kind: 'probe',
+    schema: z.object({ fail: z.boolean() }),
+    execute: async (_ctx, node) =>
+      node.config.fail
+        ? { status: 'failed', error: createRRError(RR_ERROR_CODES.INTERNAL, 'boom') }
+        : { status: 'succeeded' },
+  });
+
+  const bus = new InMemoryEventsBus();
+  const storage = createNotImplementedStoragePort();
+  const runs = new Map<string, RunRecordV3>();
+  storage.runs = {
+    list: async () => Array.from(runs.values()),
+    get: async (id) => runs.get(id) ?? null,
+    save: async (record) => {
+      runs.set(record.id, record);
+    },
+    patch: async (id, patch) => {
+      const existing = runs.get(id);
+      if (existing) runs.set(id, { ...existing, ...patch });
+    },
+  };
+
+  const runId = 'run-artifacts';
+  const runner = createRunRunnerFactory({
+    storage,
+    events: bus,
+    plugins,
+    artifactService: service,
+  }).create(runId, { flow, tabId: 7 });
+  const result = await runner.start();
+  const events = await bus.list({ runId });
+  return { result, events };
+}
+
+function savedEvents(events: RunEvent[]) {
+  return events.filter(
+    (e): e is Extract<RunEvent, { type: 'artifact.saved' }> => e.type === 'artifact.saved',
+  );
+}
+
+// ==================== Tests ====================
+
+describe('V3 Artifacts contracts', () => {
+  beforeEach(async () => {
+    await deleteRrV3Db();
+    closeRrV3Db();
+    resetBreakpointRegistry();
+  });
+
+  describe('ArtifactsStore', () => {
+    it('lists a run’s artifacts in creation order without data', async () => {
+      const store = createArtifactsStore();
+      await store.save(createArtifact('b', { createdAt: 2000, nodeId: 'node-2' }));
+      await store.save(createArtifact('a', { createdAt: 1000 }));
+      await store.save(createArtifact('other', { runId: 'run-2' }));
+
+      const list = await store.list('run-1');
+      expect(list.map((a) => a.id)).toEqual(['a', 'b']);
+      expect(list[0]).not.toHaveProperty('data');
+
+      const forNode = await store.list('run-1', { nodeId: 'node-2' });
+      expect(forNode.map((a) => a.id)).toEqual(['b']);
+
+      expect((await store.get('a'))?.data).toBe('[]');
+      expect(await store.get('missing')).toBeNull();
+    });
+
+    it('deleteByRun removes only that run’s artifacts', async () => {
+      const store = createArtifactsStore();
+      await store.save(createArtifact('a'));
+      await store.save(createArtifact('b'));
+      await store.save(createArtifact('c', { runId: 'run-2' }));
+
+      expect(await store.deleteByRun('run-1')).toBe(2);
+      expect(await store.list('run-1')).toEqual([]);
+      expect((await store.list('run-2')).map((a) => a.id)).toEqual(['c']);
+    });
+
+    it('prune removes expired artifacts, then per-run overflow, then oldest over quota', async () => {
+      const store = createArtifactsStore();
+      await store.save(createArtifact('expired', { createdAt: 100 }));
+      await store.save(createArtifact('r1-old', { createdAt: 1000 }));
+      await store.save(createArtifact('r1-mid', { createdAt: 2000 }));
+      await store.save(createArtifact('r1-new', { createdAt: 3000 }));
+      await store.save(createArtifact('r2-old', { runId: 'run-2', createdAt: 1500, size: 50 }));
+      await store.save(createArtifact('r2-new', { runId: 'run-2', createdAt: 4000, size: 50 }));
+
+      const deleted = await store.prune(
+        { maxAgeMs: 5000, maxArtifactsPerRun: 2, maxTotalBytes: 80 },
+        5500,
+      );
+
+      // expired (age) -> r1-old (per-run) -> r2-old (quota: 120 -> 70 bytes)
+      expect(deleted).toBe(3);
+      expect((await store.list('run-1')).map((a) => a.id)).toEqual(['r1-mid', 'r1-new']);
+      expect((await store.list('run-2')).map((a) => a.id)).toEqual(['r2-new']);
+    });
+
+    it('upgrading a version 1 database adds the artifacts store', async () => {
+      await new Promise<void>((resolve, reject) => {
+        const request = indexedDB.open(RR_V3_DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(RR_V3_STORES.FLOWS, { keyPath: 'id' });
+        };
+        request.onsuccess = () => {
+          request.result.close();
+          resolve();
+        };
+        request.onerror = () => reject(request.error);
+      });
+
+      const db = await openRrV3Db();
+      expect(db.objectStoreNames.contains(RR_V3_STORES.ARTIFACTS)).toBe(true);
+      expect(db.objectStoreNames.contains(RR_V3_STORES.FLOWS)).toBe(true);
+    });
+  });
+
+  describe('RunRunner artifact policy', () => {
+    it('captures console and network for the node window', async () => {
+      const { service, saved, captures } = createFakeArtifactService();
+      const { result, events } = await runFlow(
+        createFlow({ artifacts: { includeConsole: true, includeNetwork: true } }),
+        service,
+      );
+
+      expect(result.status).toBe('succeeded');
+      expect(captures).toEqual([{ tabId: 7, console: true, network: true }]);
+      expect(saved.map((s) => [s.kind, s.nodeId, s.window])).toEqual([
+        ['console', 'A', { startedAt: 1, endedAt: 2 }],
+        ['network', 'A', { startedAt: 1, endedAt: 2 }],
+      ]);
+      expect(JSON.parse(saved[0].data)).toEqual({ messages: [{ text: 'hello' }] });
+      expect(savedEvents(events).map((e) => e.kind)).toEqual(['console', 'network']);
+    });
+
+    it('takes an onFailure screenshot only when the node fails', async () => {
+      const ok = createFakeArtifactService();
+      await runFlow(createFlow({ artifacts: { screenshot: 'onFailure' } }), ok.service);
+      expect(ok.saved).toEqual([]);
+      expect(ok.captures).toEqual([]);
+
+      const failing = createFakeArtifactService();
+      const { result, events } = await runFlow(
+        createFlow({ artifacts: { screenshot: 'onFailure', saveScreenshotAs: 'fail.png' } }, true),
+        failing.service,
+      );
+      expect(result.status).toBe('failed');
+      expect(failing.saved.map((s) => [s.kind, s.name, s.mimeType])).toEqual([
+        ['screenshot', 'fail.png', 'image/png'],
+      ]);
+      expect(savedEvents(events)).toHaveLength(1);
+    });
+
+    it('reports collection problems as warnings without failing the node', async () => {
+      const { service } = createFakeArtifactService({ screenshotFails: true });
+      const { result, events } = await runFlow(
+        createFlow({ artifacts: { screenshot: 'always' } }),
+        service,
+      );
+
+      expect(result.status).toBe('succeeded');
+      const warnings = events.filter((e) => e.type === 'log' && e.level === 'warn');
+      expect(warnings).toHaveLength(1);
+      expect(savedEvents(events)).toEqual([]);
+    });
+  });
+});
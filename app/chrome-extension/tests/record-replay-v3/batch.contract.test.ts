@@ -0,0 +1,426 @@
+/**
+ * @fileoverview Record-Replay V3 data-driven batch run contracts
+ * @description
+ * Verifies:
+ * - CSV / JSON dataset parsing and column -> variable mapping
+ * - DatasetsStore / BatchesStore (IndexedDB-backed) and the version 3 DB upgrade
+ * - BatchManager: concurrency, per-row outputs/errors, stopOnFailure, cancel and resume
+ * - Per-row CSV report
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { FlowV3 } from '@/entrypoints/background/record-replay-v3/domain/flow';
+import type { RunRecordV3 } from '@/entrypoints/background/record-replay-v3/domain/events';
+import type {
+  BatchRecord,
+  DatasetRecord,
+} from '@/entrypoints/background/record-replay-v3/domain/datasets';
+import {
+  RR_ERROR_CODES,
+  createRRError,
+} from '@/entrypoints/background/record-replay-v3/domain/errors';
+import {
+  RR_V3_DB_NAME,
+  RR_V3_STORES,
+  closeRrV3Db,
+  deleteRrV3Db,
+  openRrV3Db,
+} from '@/entrypoints/background/record-replay-v3/storage/db';
+import { createDatasetsStore } from '@/entrypoints/background/record-replay-v3/storage/datasets';
+import { createBatchesStore } from '@/entrypoints/background/record-replay-v3/storage/batches';
+import type {
+  RunQueue,
+  RunQueueItem,
+} from '@/entrypoints/background/record-replay-v3/engine/queue/queue';
+import { createNotImplementedStoragePort } from '@/entrypoints/background/record-replay-v3/engine/storage/storage-port';
+import { InMemoryEventsBus } from '@/entrypoints/background/record-replay-v3/engine/transport/events-bus';
+import {
+  parseCsv,
+  parseDataset,
+  resolveBatchMapping,
+  rowToArgs,
+} from '@/entrypoints/background/record-replay-v3/engine/batch/dataset';
+import { buildBatchReport } from '@/entrypoints/background/record-replay-v3/engine/batch/report';
+import { createBatchManager } from '@/entrypoints/background/record-replay-v3/engine/batch/batch-manager';
+
+// ==================== Test Helpers ====================
+
+function createFlow(variables: FlowV3['variables'] = []): FlowV3 {
+  const iso = new Date(0).toISOString();
+  return {
+    schemaVersion: 3,
+    id: 'flow-1',
+    name: 'Fill form',
+    createdAt: iso,
+    updatedAt: iso,
+    entryNodeId: 'node-1',
+    nodes: [{ id: 'node-1', kind: 'noop', config: {} }],
+    edges: [],
+    variables,
+  };
+}
+
+function createDataset(rows: Array<Record<string, string>>): DatasetRecord {
+  return {
+    id: 'dataset-1',
+    name: 'customers',
+    format: 'csv',
+    columns: Object.keys(rows[0] ?? {}),
+    rows,
+    rowCount: rows.length,
+    createdAt: 1,
+    updatedAt: 1,
+  };
+}
+
+/**
+ * BatchManager harness: in-memory flows/runs/queue, IndexedDB datasets/batches.
+ * Runs are finished by appending their terminal events, as the runner would.
+ */
+async function createHarness(opts: { rows: Array<Record<string, string>>; flow?: FlowV3 }) {
+  const flow = opts.flow ?? createFlow([{ name: 'email' }]);
+  const bus = new InMemoryEventsBus();
+  const storage = createNotImplementedStoragePort();
+  const runs = new Map<string, RunRecordV3>();
+  const queue = new Map<string, RunQueueItem>();
+
+  storage.flows = {
+    list: async () => [flow],
+    get: async (id) => (id === flow.id ? flow : null),
+    save: async () => {},
+    delete: async () => {},
+  };
+  storage.runs = {
+    list: async () => Array.from(runs.values()),
+    get: async (id) => runs.get(id) ?? null,
+    save: async (record) => {
+      runs.set(record.id, record);
+    },
+    patch: async (id, patch) => {
+      const existing = runs.get(id);
+      if (existing) runs.set(id, { ...existing, ...patch });
+    },
+  };
+  storage.queue = {
+    enqueue: async (input) => {
+      const item: RunQueueItem = {
+        ...input,
+        status: 'queued',
+        createdAt: 0,
+        updatedAt: 0,
+        priority: input.priority ?? 0,
+        attempt: 0,
+        maxAttempts: input.maxAttempts ?? 1,
+      };
+      queue.set(item.id, item);
+      return item;
+    },
+    list: async () => Array.from(queue.values()),
+    get: async (id) => queue.get(id) ?? null,
+    cancel: async (id) => {
+      queue.delete(id);
+    },
+  } as Partial<RunQueue> as RunQueue;
+  storage.datasets = createDatasetsStore();
+  storage.batches = createBatchesStore();
+  await storage.datasets.save(createDataset(opts.rows));
+
+  let runCounter = 0;
+  const manager = createBatchManager({
+    storage,
+    events: bus,
+    generateBatchId: () => 'batch-1',
+    generateRunId: () => `run-${++runCounter}`,
+    logger: { debug: () => {}, info: () => {}, warn: () => {}, error: () => {} },
+  });
+
+  const getBatch = async () => (await storage.batches.get('batch-1')) as BatchRecord;
+  const statuses = async () => (await getBatch()).rows.map((row) => row.status);
+
+  return { bus, storage, runs, queue, manager, getBatch, statuses };
+}
+
+// ==================== Tests ====================
+
+describe('V3 batch run contracts', () => {
+  beforeEach(async () => {
+    await deleteRrV3Db();
+    closeRrV3Db();
+  });
+
+  describe('dataset parsing', () => {
+    it('parses quoted CSV fields, CRLF, BOM and blank lines', () => {
+      const text = '﻿name,note\r\n"Doe, Jane","said ""hi""\nthen left"\r\n\r\nBob,\n';
+      expect(parseCsv(text)).toEqual([
+        ['name', 'note'],
+        ['Doe, Jane', 'said "hi"\nthen left'],
+        ['Bob', ''],
+      ]);
+    });
+
+    it('builds CSV rows keyed by header and pads short records', () => {
+      const parsed = parseDataset('csv', 'email, plan\na@x.io,pro\nb@x.io');
+      expect(parsed.columns).toEqual(['email', 'plan']);
+      expect(parsed.rows).toEqual([
+        { email: 'a@x.io', plan: 'pro' },
+        { email: 'b@x.io', plan: '' },
+      ]);
+    });
+
+    it('rejects malformed CSV datasets', () => {
+      expect(() => parseDataset('csv', 'a,a\n1,2')).toThrow('duplicate column "a"');
+      expect(() => parseDataset('csv', 'a\n1,2')).toThrow('CSV row 1 has 2 fields');
+      expect(() => parseDataset('csv', 'a\n"1')).toThrow('unterminated quoted field');
+      expect(() => parseDataset('csv', 'a,b\n')).toThrow('Dataset has no rows');
+    });
+
+    it('collects JSON columns in first-seen order and keeps value types', () => {
+      const parsed = parseDataset('json', '[{"email":"a@x.io","seats":3},{"vip":true}]');
+      expect(parsed.columns).toEqual(['email', 'seats', 'vip']);
+      expect(parsed.rows[0]).toEqual({ email: 'a@x.io', seats: 3 });
+      expect(() => parseDataset('json', '{"email":"a"}')).toThrow('must be an array of objects');
+    });
+  });
+
+  describe('column mapping', () => {
+    it('maps same-named declared variables by default', () => {
+      const flow = createFlow([{ name: 'email' }, { name: 'plan', default: 'free' }]);
+      expect(resolveBatchMapping(flow, ['email', 'other'])).toEqual({ email: 'email' });
+    });
+
+    it('passes every column through when the flow declares no variables', () => {
+      expect(resolveBatchMapping(createFlow(), ['a', 'b'])).toEqual({ a: 'a', b: 'b' });
+    });
+
+    it('validates explicit mappings and required variables', () => {
+      const flow = createFlow([{ name: 'email', required: true }]);
+      expect(resolveBatchMapping(flow, ['mail'], { email: 'mail' })).toEqual({ email: 'mail' });
+      expect(() => resolveBatchMapping(flow, ['mail'], { email: 'nope' })).toThrow(
+        'column "nope" not found',
+      );
+      expect(() => resolveBatchMapping(flow, ['mail'])).toThrow(
+        'Variable "email" is required but not mapped',
+      );
+    });
+
+    it('omits empty cells so variable defaults apply', () => {
+      expect(rowToArgs({ mail: '', plan: 'pro' }, { email: 'mail', plan: 'plan' })).toEqual({
+        plan: 'pro',
+      });
+    });
+  });
+
+  describe('storage', () => {
+    it('lists dataset metadata without rows', async () => {
+      const store = createDatasetsStore();
+      await store.save(createDataset([{ email: 'a@x.io' }]));
+
+      const list = await store.list();
+      expect(list).toHaveLength(1);
+      expect(list[0]).not.toHaveProperty('rows');
+      expect((await store.get('dataset-1'))?.rows).toEqual([{ email: 'a@x.io' }]);
+    });
+
+    it('upgrading a version 2 database adds the datasets and batches stores', async () => {
+      await new Promise<void>((resolve, reject) => {
+        const request = indexedDB.open(RR_V3_DB_NAME, 2);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(RR_V3_STORES.FLOWS, { keyPath: 'id' });
+          request.result.createObjectStore(RR_V3_STORES.ARTIFACTS, { keyPath: 'id' });
+        };
+        request.onsuccess = () => {
+          request.result.close();
+          resolve();
+        };
+        request.onerror = () => reject(request.error);
+      });
+
+      const db = await openRrV3Db();
+      expect(db.objectStoreNames.contains(RR_V3_STORES.DATASETS)).toBe(true);
+      expect(db.objectStoreNames.contains(RR_V3_STORES.BATCHES)).toBe(true);
+      expect(db.objectStoreNames.contains(RR_V3_STORES.ARTIFACTS)).toBe(true);
+    });
+  });
+
+  describe('BatchManager', () => {
+    it('keeps at most `concurrency` runs in flight and records outputs per row', async () => {
+      const h = await createHarness({
+        rows: [{ email: 'a@x.io' }, { email: 'b@x.io' }, { email: 'c@x.io' }],
+      });
+      await h.manager.start();
+
+      const batch = await h.manager.startBatch({
+        flowId: 'flow-1',
+        datasetId: 'dataset-1',
+        concurrency: 2,
+      });
+      expect(batch.rows.map((row) => row.runId)).toEqual(['run-1', 'run-2', undefined]);
+      expect(h.runs.get('run-1')?.args).toEqual({ email: 'a@x.io' });
+
+      await h.bus.append({ runId: 'run-1', type: 'run.started', flowId: 'flow-1', tabId: 1 });
+      await h.bus.append({ runId: 'run-1', type: 'run.succeeded', tookMs: 5, outputs: { id: 7 } });
+      await vi.waitFor(async () => {
+        expect(await h.statuses()).toEqual(['succeeded', 'queued', 'queued']);
+      });
+
+      await h.bus.append({ runId: 'run-2', type: 'run.succeeded', tookMs: 5 });
+      await h.bus.append({ runId: 'run-3', type: 'run.succeeded', tookMs: 5 });
+      await vi.waitFor(async () => {
+        expect((await h.getBatch()).status).toBe('succeeded');
+      });
+      expect((await h.getBatch()).rows[0].outputs).toEqual({ id: 7 });
+    });
+
+    it('stopOnFailure skips rows that were not enqueued yet', async () => {
+      const h = await createHarness({
+        rows: [{ email: 'a@x.io' }, { email: 'b@x.io' }, { email: 'c@x.io' }],
+      });
+      await h.manager.start();
+      await h.manager.startBatch({ flowId: 'flow-1', datasetId: 'dataset-1', stopOnFailure: true });
+
+      await h.bus.append({
+        runId: 'run-1',
+        type: 'run.failed',
+        error: createRRError(RR_ERROR_CODES.TARGET_NOT_FOUND, 'no #email'),
+      });
+      await vi.waitFor(async () => {
+        expect((await h.getBatch()).status).toBe('failed');
+      });
+
+      const batch = await h.getBatch();
+      expect(batch.rows.map((row) => row.status)).toEqual(['failed', 'skipped', 'skipped']);
+      expect(batch.rows[0].error?.code).toBe(RR_ERROR_CODES.TARGET_NOT_FOUND);
+      expect(h.runs.size).toBe(1);
+    });
+
+    it('without stopOnFailure keeps going and reports the batch as failed', async () => {
+      const h = await createHarness({ rows: [{ email: 'a@x.io' }, { email: 'b@x.io' }] });
+      await h.manager.start();
+      await h.manager.startBatch({ flowId: 'flow-1', datasetId: 'dataset-1' });
+
+      await h.bus.append({
+        runId: 'run-1',
+        type: 'run.failed',
+        error: createRRError(RR_ERROR_CODES.TIMEOUT, 'slow'),
+      });
+      await vi.waitFor(async () => {
+        expect(await h.statuses()).toEqual(['failed', 'queued']);
+      });
+      await h.bus.append({ runId: 'run-2', type: 'run.succeeded', tookMs: 1 });
+      await vi.waitFor(async () => {
+        expect((await h.getBatch()).status).toBe('failed');
+      });
+    });
+
+    it('cancelBatch skips pending rows and cancels queued runs', async () => {
+      const h = await createHarness({ rows: [{ email: 'a@x.io' }, { email: 'b@x.io' }] });
+      await h.manager.start();
+      await h.manager.startBatch({ flowId: 'flow-1', datasetId: 'dataset-1' });
+
+      const canceled = await h.manager.cancelBatch('batch-1', 'enough');
+      expect(canceled.status).toBe('canceled');
+      expect(h.queue.has('run-1')).toBe(false);
+      await vi.waitFor(async () => {
+        expect(await h.statuses()).toEqual(['canceled', 'skipped']);
+      });
+      await expect(h.manager.cancelBatch('batch-1')).rejects.toThrow('with status "canceled"');
+    });
+
+    it('resumes running batches from run records on start', async () => {
+      const h = await createHarness({ rows: [{ email: 'a@x.io' }, { email: 'b@x.io' }] });
+      await h.storage.batches.save({
+        id: 'batch-1',
+        flowId: 'flow-1',
+        datasetId: 'dataset-1',
+        mapping: { email: 'email' },
+        concurrency: 1,
+        stopOnFailure: false,
+        status: 'running',
+        rows: [
+          { index: 0, status: 'queued', args: { email: 'a@x.io' }, runId: 'run-old' },
+          { index: 1, status: 'pending', args: { email: 'b@x.io' } },
+        ],
+        createdAt: 1,
+        updatedAt: 1,
+      });
+      h.runs.set('run-old', {
+        schemaVersion: 3,
+        id: 'run-old',
+        flowId: 'flow-1',
+        status: 'succeeded',
+        createdAt: 1,
+        updatedAt: 2,
+        finishedAt: 2,
+        attempt: 1,
+        maxAttempts: 1,
+        outputs: { ok: true },
+        nextSeq: 0,
+      });
+
+      await h.manager.start();
+
+      const batch = await h.getBatch();
+      expect(batch.rows[0]).toMatchObject({ status: 'succeeded', outputs: { ok: true } });
+      expect(batch.rows[1]).toMatchObject({ status: 'queued', runId: 'run-1' });
+    });
+
+    it('rejects a batch whose required variables are not mapped', async () => {
+      const h = await createHarness({
+        rows: [{ mail: 'a@x.io' }],
+        flow: createFlow([{ name: 'email', required: true }]),
+      });
+      await h.manager.start();
+
+      await expect(
+        h.manager.startBatch({ flowId: 'flow-1', datasetId: 'dataset-1' }),
+      ).rejects.toThrow('Variable "email" is required');
+      await expect(
+        h.manager.startBatch({ flowId: 'flow-1', datasetId: 'dataset-1', concurrency: 0 }),
+      ).rejects.toThrow('concurrency must be between 1 and 10');
+    });
+  });
+
+  describe('report', () => {
+    it('writes one CSV line per row with args, outputs and errors', () => {
+      const batch: BatchRecord = {
+        id: 'batch-1',
+        flowId: 'flow-1',
+        datasetId: 'dataset-1',
+        mapping: { email: 'email' },
+        concurrency: 1,
+        stopOnFailure: false,
+        status: 'failed',
+        rows: [
+          {
+            index: 0,
+            status: 'succeeded',
+            args: { email: 'a@x.io' },
+            runId: 'r1',
+            outputs: { id: 7 },
+          },
+          {
+            index: 1,
+            status: 'failed',
+            args: { email: 'b,c@x.io' },
+            runId: 'r2',
+            error: createRRError(RR_ERROR_CODES.TIMEOUT, 'slow'),
+          },
+        ],
+        createdAt: 1,
+        updatedAt: 2,
+      };
+
+      const report = buildBatchReport(batch, 'csv');
+      expect(report.filename).toBe('batch-batch-1.csv');
+      expect(report.data.split('\r\n')).toEqual([
+        'index,status,runId,args.email,outputs.id,errorCode,errorMessage',
+        '0,succeeded,r1,a@x.io,7,,',
+        '1,failed,r2,"b,c@x.io",,TIMEOUT,slow',
+      ]);
+
+      const json = JSON.parse(buildBatchReport(batch, 'json').data);
+      expect(json.summary).toMatchObject({ total: 2, succeeded: 1, failed: 1 });
+    });
+  });
+});
@@ -201,6 +201,9 @@ describe('RecoveryCoordinator', () => {
       queue: queue as any,
       persistentVars: {} as any,
       triggers: {} as any,
+      artifacts: {} as any,
+      datasets: {} as any,
+      batches: {} as any,
       _queueMap: queueMap,
       _runsMap: runsMap,
     };
@@ -10,12 +10,22 @@
  * Tests for Flow CRUD RPC APIs:
  * - rr_v3.saveFlow
  * - rr_v3.deleteFlow
+ * - rr_v3.publishFlow / rr_v3.unpublishFlow
+ *
+ * Tests for dataset and batch RPC APIs:
+ * - rr_v3.saveDataset
+ * - rr_v3.getBatch / rr_v3.startBatch
  */
 
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import type { FlowV3 } from '@/entrypoints/background/record-replay-v3/domain/flow';
 import type { RunRecordV3 } from '@/entrypoints/background/record-replay-v3/domain/events';
+import type {
+  BatchRecord,
+  DatasetMeta,
+  DatasetRecord,
+} from '@/entrypoints/background/record-replay-v3/domain/datasets';
 import type { StoragePort } from '@/entrypoints/background/record-replay-v3/engine/storage/storage-port';
 import type { EventsBus } from '@/entrypoints/background/record-replay-v3/engine/transport/events-bus';
 import type { RunScheduler } from '@/entrypoints/background/record-replay-v3/engine/queue/scheduler';
@@ -29,6 +39,8 @@ function createMockStorage(): StoragePort {
   const runsMap = new Map<string, RunRecordV3>();
   const queueMap = new Map<string, RunQueueItem>();
   const eventsLog: Array<{ runId: string; type: string }> = [];
+  const datasetsMap = new Map<string, DatasetRecord>();
+  const batchesMap = new Map<string, BatchRecord>();
 
   return {
     flows: {
@@ -106,14 +118,36 @@ function createMockStorage(): StoragePort {
       save: vi.fn(async () => {}),
       delete: vi.fn(async () => {}),
     },
+    datasets: {
+      list: vi.fn(async () => Array.from(datasetsMap.values())),
+      get: vi.fn(async (id: string) => datasetsMap.get(id) ?? null),
+      save: vi.fn(async (record: DatasetRecord) => {
+        datasetsMap.set(record.id, record);
+      }),
+      delete: vi.fn(async (id: string) => {
+        datasetsMap.delete(id);
+      }),
+    },
+    batches: {
+      list: vi.fn(async () => Array.from(batchesMap.values())),
+      get: vi.fn(async (id: string) => batchesMap.get(id) ?? null),
+      save: vi.fn(async (record: BatchRecord) => {
+        batchesMap.set(record.id, record);
+      }),
+      delete: vi.fn(async (id: string) => {
+        batchesMap.delete(id);
+      }),
+    },
     // Expose internal maps for assertions
-    _internal: { flowsMap, runsMap, queueMap, eventsLog },
+    _internal: { flowsMap, runsMap, queueMap, eventsLog, datasetsMap, batchesMap },
   } as unknown as StoragePort & {
     _internal: {
       flowsMap: Map<string, FlowV3>;
       runsMap: Map<string, RunRecordV3>;
       queueMap: Map<string, RunQueueItem>;
       eventsLog: Array<{ runId: string; type: string }>;
+      datasetsMap: Map<string, DatasetRecord>;
+      batchesMap: Map<string, BatchRecord>;
     };
   };
 }
@@ -180,6 +214,8 @@ interface MockStorageInternal {
   runsMap: Map<string, RunRecordV3>;
   queueMap: Map<string, RunQueueItem>;
   eventsLog: Array<{ runId: string; type: string }>;
+  datasetsMap: Map<string, DatasetRecord>;
+  batchesMap: Map<string, BatchRecord>;
 }
 
 // Access _internal property with type safety
@@ -733,6 +769,41 @@ describe('V3 RPC Flow CRUD APIs', () => {
       expect(result.updatedAt).not.toBe(existing.updatedAt);
     });
 
+    it('keeps node tab handles', async () => {
+      const flowInput = {
+        name: 'Tab Flow',
+        entryNodeId: 'node-1',
+        nodes: [{ id: 'node-1', kind: 'click', config: { selector: '#btn' }, tab: ' popup ' }],
+        edges: [],
+      };
+
+      const result = (await (server as unknown as { handleRequest: Function }).handleRequest(
+        { method: 'rr_v3.saveFlow', params: { flow: flowInput }, requestId: 'req-1' },
+        { subscriptions: new Set() },
+      )) as FlowV3;
+
+      expect(result.nodes[0].tab).toBe('popup');
+    });
+
+    it('throws if node tab handle is empty', async () => {
+      await expect(
+        (server as unknown as { handleRequest: Function }).handleRequest(
+          {
+            method: 'rr_v3.saveFlow',
+            params: {
+              flow: {
+                name: 'Test',
+                entryNodeId: 'node-1',
+                nodes: [{ id: 'node-1', kind: 'test', config: {}, tab: '' }],
+              },
+            },
+            requestId: 'req-1',
+          },
+          { subscriptions: new Set() },
+        ),
+      ).rejects.toThrow('flow.nodes[0].tab must be a non-empty string');
+    });
+
     it('throws if flow is missing', async () => {
       await expect(
         (server as unknown as { handleRequest: Function }).handleRequest(
@@ -1187,4 +1258,153 @@ describe('V3 RPC Flow CRUD APIs', () => {
       expect(result).toEqual([]);
     });
   });
+
+  describe('rr_v3.publishFlow', () => {
+    const call = (method: string, params: Record<string, unknown>) =>
+      (server as unknown as { handleRequest: Function }).handleRequest(
+        { method, params, requestId: 'req-1' },
+        { subscriptions: new Set() },
+      );
+
+    it('publishes and unpublishes a flow, notifying listeners', async () => {
+      const onFlowsChanged = vi.fn();
+      server = new RpcServer({ storage, events, scheduler, now: () => fixedNow, onFlowsChanged });
+      const flow = createTestFlow('flow-1');
+      getInternal(storage).flowsMap.set(flow.id, flow);
+
+      const published = (await call('rr_v3.publishFlow', {
+        flowId: 'flow-1',
+        toolName: 'login_helper',
+      })) as FlowV3;
+      expect(published.meta?.tool).toEqual({
+        published: true,
+        toolName: 'login_helper',
+        description: undefined,
+        publishedAt: new Date(fixedNow).toISOString(),
+      });
+
+      await call('rr_v3.unpublishFlow', { flowId: 'flow-1' });
+      expect(getInternal(storage).flowsMap.get('flow-1')?.meta?.tool).toMatchObject({
+        published: false,
+        toolName: 'login_helper',
+      });
+      expect(onFlowsChanged).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects invalid tool names', async () => {
+      const flow = createTestFlow('flow-1');
+      getInternal(storage).flowsMap.set(flow.id, flow);
+
+      await expect(
+        call('rr_v3.publishFlow', { flowId: 'flow-1', toolName: 'has spaces' }),
+      ).rejects.toThrow('toolName');
+    });
+
+    it('keeps the publication when a flow is saved without it', async () => {
+      const flow = createTestFlow('flow-1');
+      flow.meta = { tool: { published: true } };
+      getInternal(storage).flowsMap.set(flow.id, flow);
+
+      const { meta: _meta, ...withoutMeta } = flow;
+      const saved = (await call('rr_v3.saveFlow', { flow: withoutMeta })) as FlowV3;
+      expect(saved.meta?.tool).toEqual({ published: true });
+    });
+  });
+});
+
+describe('V3 RPC Dataset and Batch APIs', () => {
+  let storage: ReturnType<typeof createMockStorage>;
+  let server: RpcServer;
+  let fixedNow: number;
+
+  beforeEach(() => {
+    storage = createMockStorage();
+    fixedNow = 1_700_000_000_000;
+    server = new RpcServer({
+      storage,
+      events: createMockEventsBus(),
+      scheduler: createMockScheduler(),
+      now: () => fixedNow,
+    });
+  });
+
+  const call = (method: string, params?: unknown) =>
+    (server as unknown as { handleRequest: Function }).handleRequest(
+      { method, params, requestId: 'req-1' },
+      { subscriptions: new Set() },
+    );
+
+  describe('rr_v3.saveDataset', () => {
+    it('parses CSV content and returns metadata without rows', async () => {
+      const meta = (await call('rr_v3.saveDataset', {
+        dataset: { name: ' customers ', format: 'csv', content: 'email,plan\na@x.io,pro\n' },
+      })) as DatasetMeta;
+
+      expect(meta).toMatchObject({
+        name: 'customers',
+        format: 'csv',
+        columns: ['email', 'plan'],
+        rowCount: 1,
+        createdAt: fixedNow,
+      });
+      expect(meta).not.toHaveProperty('rows');
+      expect(getInternal(storage).datasetsMap.get(meta.id)?.rows).toEqual([
+        { email: 'a@x.io', plan: 'pro' },
+      ]);
+    });
+
+    it('keeps createdAt when replacing an existing dataset', async () => {
+      const first = (await call('rr_v3.saveDataset', {
+        dataset: { id: 'ds-1', name: 'v1', format: 'json', content: [{ a: 1 }] },
+      })) as DatasetMeta;
+      fixedNow += 1000;
+      const second = (await call('rr_v3.saveDataset', {
+        dataset: { id: 'ds-1', name: 'v2', format: 'json', content: '[{"a":2},{"a":3}]' },
+      })) as DatasetMeta;
+
+      expect(second.createdAt).toBe(first.createdAt);
+      expect(second.updatedAt).toBe(fixedNow);
+      expect(second.rowCount).toBe(2);
+    });
+
+    it('rejects unknown formats and unparsable content', async () => {
+      await expect(
+        call('rr_v3.saveDataset', { dataset: { name: 'x', format: 'xlsx', content: '' } }),
+      ).rejects.toThrow('dataset.format must be one of: csv, json');
+      await expect(
+        call('rr_v3.saveDataset', { dataset: { name: 'x', format: 'csv', content: 'a,a\n1,2' } }),
+      ).rejects.toThrow('duplicate column');
+    });
+  });
+
+  describe('rr_v3.getBatch / rr_v3.startBatch', () => {
+    it('returns the batch with a progress summary', async () => {
+      getInternal(storage).batchesMap.set('batch-1', {
+        id: 'batch-1',
+        flowId: 'flow-1',
+        datasetId: 'ds-1',
+        mapping: {},
+        concurrency: 1,
+        stopOnFailure: false,
+        status: 'running',
+        rows: [
+          { index: 0, status: 'succeeded', args: {} },
+          { index: 1, status: 'queued', args: {}, runId: 'run-2' },
+        ],
+        createdAt: 1,
+        updatedAt: 1,
+      });
+
+      const batch = (await call('rr_v3.getBatch', { batchId: 'batch-1' })) as {
+        summary: Record<string, number>;
+      };
+      expect(batch.summary).toMatchObject({ total: 2, succeeded: 1, queued: 1 });
+    });
+
+    it('throws if BatchManager is not configured', async () => {
+      await expect(
+        call('rr_v3.startBatch', { flowId: 'flow-1', datasetId: 'ds-1' }),
+      ).rejects.toThrow('BatchManager not configured');
+    });
+  });
 });
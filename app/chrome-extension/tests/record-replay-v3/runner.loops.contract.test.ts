@@ -0,0 +1,318 @@
+/**
+ * @fileoverview Record-Replay V3 RunRunner loop contracts
+ * @description Verifies native foreach/while/loopElements loop execution via event stream + final Run status.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import type { EdgeV3, FlowV3, NodeV3 } from '@/entrypoints/background/record-replay-v3/domain/flow';
+import { FLOW_SCHEMA_VERSION } from '@/entrypoints/background/record-replay-v3/domain/flow';
+import type {
+  RunEvent,
+  RunRecordV3,
+} from '@/entrypoints/background/record-replay-v3/domain/events';
+import type { JsonValue } from '@/entrypoints/background/record-replay-v3/domain/json';
+import type { RunId } from '@/entrypoints/background/record-replay-v3/domain/ids';
+import { EDGE_LABELS } from '@/entrypoints/background/record-replay-v3/domain/ids';
+import {
+  RR_ERROR_CODES,
+  createRRError,
+} from '@/entrypoints/background/record-replay-v3/domain/errors';
+import type {
+  NodeDefinition,
+  NodeExecutionResult,
+} from '@/entrypoints/background/record-replay-v3/engine/plugins/types';
+import { PluginRegistry } from '@/entrypoints/background/record-replay-v3/engine/plugins/registry';
+import { InMemoryEventsBus } from '@/entrypoints/background/record-replay-v3/engine/transport/events-bus';
+import {
+  createNotImplementedStoragePort,
+  type RunsStore,
+} from '@/entrypoints/background/record-replay-v3/engine/storage/storage-port';
+import { resetBreakpointRegistry } from '@/entrypoints/background/record-replay-v3/engine/kernel/breakpoints';
+import { createRunRunnerFactory } from '@/entrypoints/background/record-replay-v3/engine/kernel/runner';
+import { validateFlowDAG } from '@/entrypoints/background/record-replay-v3/engine/kernel/traversal';
+
+// ==================== Test Helpers ====================
+
+type StepConfig = {
+  /** Variable to increment */
+  inc?: string;
+  /** Choose this edge label when vars.item equals breakOn */
+  breakOn?: string;
+};
+
+/**
+ * Body step that records the item it saw, optionally increments a counter
+ * and chooses the break edge for a given item
+ */
+function createStepNodeDefinition(seen: JsonValue[]): NodeDefinition<'step', StepConfig> {
+  return {
+    kind: 'step',
+    schema: z.object({ inc: z.string().optional(), breakOn: z.string().optional() }),
+    execute: async (ctx, node): Promise<NodeExecutionResult> => {
+      seen.push(ctx.vars.item ?? null);
+      const cfg = node.config as StepConfig;
+      if (cfg.inc) {
+        const current = Number(ctx.vars[cfg.inc] ?? 0);
+        return {
+          status: 'succeeded',
+          varsPatch: [{ op: 'set', name: cfg.inc, value: current + 1 }],
+        };
+      }
+      if (cfg.breakOn !== undefined && ctx.vars.item === cfg.breakOn) {
+        return { status: 'succeeded', next: ctx.chooseNext(EDGE_LABELS.BREAK) };
+      }
+      return { status: 'succeeded' };
+    },
+  };
+}
+
+function createFlow(nodes: NodeV3[], edges: EdgeV3[], variables?: FlowV3['variables']): FlowV3 {
+  const iso = new Date(0).toISOString();
+  return {
+    schemaVersion: FLOW_SCHEMA_VERSION,
+    id: 'flow-loops',
+    name: 'loop contract flow',
+    createdAt: iso,
+    updatedAt: iso,
+    entryNodeId: nodes[0].id,
+    nodes,
+    edges,
+    ...(variables ? { variables } : {}),
+  };
+}
+
+function createInMemoryRunsStore(): { store: RunsStore; byId: Map<RunId, RunRecordV3> } {
+  const byId = new Map<RunId, RunRecordV3>();
+  const store: RunsStore = {
+    list: async () => Array.from(byId.values()),
+    get: async (id) => byId.get(id) ?? null,
+    save: async (record) => {
+      byId.set(record.id, record);
+    },
+    patch: async (id, patch) => {
+      const existing = byId.get(id);
+      if (!existing) {
+        throw createRRError(RR_ERROR_CODES.INTERNAL, `Run "${id}" not found`);
+      }
+      byId.set(id, { ...existing, ...patch, id: existing.id, updatedAt: Date.now() });
+    },
+  };
+  return { store, byId };
+}
+
+function createRunnerContext(runId: RunId, flow: FlowV3) {
+  const seen: JsonValue[] = [];
+  const plugins = new PluginRegistry();
+  plugins.registerNode(createStepNodeDefinition(seen));
+
+  const bus = new InMemoryEventsBus();
+  const { store: runs, byId: runsById } = createInMemoryRunsStore();
+  const storage = createNotImplementedStoragePort();
+  storage.runs = runs;
+
+  const factory = createRunRunnerFactory({ storage, events: bus, plugins });
+  const runner = factory.create(runId, { flow, tabId: 1 });
+  return { runner, bus, runsById, seen };
+}
+
+function startedNodeIds(events: RunEvent[]): string[] {
+  return events
+    .filter((e) => e.type === 'node.started')
+    .map((e) => (e as Extract<RunEvent, { type: 'node.started' }>).nodeId);
+}
+
+function iterationEvents(events: RunEvent[]): Array<Extract<RunEvent, { type: 'loop.iteration' }>> {
+  return events.filter(
+    (e): e is Extract<RunEvent, { type: 'loop.iteration' }> => e.type === 'loop.iteration',
+  );
+}
+
+// ==================== Tests ====================
+
+describe('V3 RunRunner loop contracts', () => {
+  beforeEach(() => {
+    resetBreakpointRegistry();
+  });
+
+  it('foreach runs the body once per item and then follows the exit edge', async () => {
+    const runId = 'run-foreach';
+    const flow = createFlow(
+      [
+        {
+          id: 'L',
+          kind: 'foreach',
+          config: { listVar: 'list', itemVar: 'item', indexVar: 'i' },
+        },
+        { id: 'B', kind: 'step', config: {} },
+        { id: 'Z', kind: 'step', config: {} },
+      ],
+      [
+        { id: 'e1', from: 'L', to: 'B', label: EDGE_LABELS.BODY },
+        { id: 'e2', from: 'L', to: 'Z', label: EDGE_LABELS.DEFAULT },
+      ],
+      [{ name: 'list', default: ['a', 'b', 'c'] }],
+    );
+
+    const { runner, bus, runsById, seen } = createRunnerContext(runId, flow);
+    const result = await runner.start();
+    expect(result.status).toBe('succeeded');
+    expect(runsById.get(runId)?.status).toBe('succeeded');
+
+    const events = await bus.list({ runId });
+    expect(startedNodeIds(events)).toEqual(['L', 'B', 'B', 'B', 'Z']);
+    expect(iterationEvents(events).map((e) => [e.index, e.item])).toEqual([
+      [0, 'a'],
+      [1, 'b'],
+      [2, 'c'],
+    ]);
+    expect(seen).toEqual(['a', 'b', 'c', 'c']);
+    expect(runner.getVar('i')).toBe(2);
+  });
+
+  it('while re-evaluates its condition before each iteration', async () => {
+    const runId = 'run-while';
+    const flow = createFlow(
+      [
+        {
+          id: 'L',
+          kind: 'while',
+          config: { condition: { expression: 'vars.count < 3' } },
+        },
+        { id: 'B', kind: 'step', config: { inc: 'count' } },
+      ],
+      [{ id: 'e1', from: 'L', to: 'B', label: EDGE_LABELS.BODY }],
+      [{ name: 'count', default: 0 }],
+    );
+
+    const { runner, bus } = createRunnerContext(runId, flow);
+    const result = await runner.start();
+    expect(result.status).toBe('succeeded');
+    expect(runner.getVar('count')).toBe(3);
+
+    const events = await bus.list({ runId });
+    expect(iterationEvents(events).map((e) => e.index)).toEqual([0, 1, 2]);
+  });
+
+  it('break edge ends the loop; continue edge starts the next iteration', async () => {
+    const runId = 'run-break';
+    const flow = createFlow(
+      [
+        { id: 'L', kind: 'foreach', config: { listVar: 'list' } },
+        { id: 'B', kind: 'step', config: { breakOn: 'b' } },
+        { id: 'C', kind: 'step', config: {} },
+        { id: 'Z', kind: 'step', config: {} },
+      ],
+      [
+        { id: 'e1', from: 'L', to: 'B', label: EDGE_LABELS.BODY },
+        { id: 'e2', from: 'B', to: 'C', label: EDGE_LABELS.DEFAULT },
+        { id: 'e3', from: 'B', to: 'L', label: EDGE_LABELS.BREAK },
+        { id: 'e4', from: 'C', to: 'L', label: EDGE_LABELS.CONTINUE },
+        { id: 'e5', from: 'L', to: 'Z', label: EDGE_LABELS.DEFAULT },
+      ],
+      [{ name: 'list', default: ['a', 'b', 'c'] }],
+    );
+
+    expect(validateFlowDAG(flow).ok).toBe(true);
+
+    const { runner, bus } = createRunnerContext(runId, flow);
+    const result = await runner.start();
+    expect(result.status).toBe('succeeded');
+
+    const events = await bus.list({ runId });
+    expect(startedNodeIds(events)).toEqual(['L', 'B', 'C', 'B', 'Z']);
+    expect(iterationEvents(events)).toHaveLength(2);
+  });
+
+  it('fails with LOOP_LIMIT_EXCEEDED when the guard is hit', async () => {
+    const runId = 'run-limit';
+    const flow = createFlow(
+      [
+        {
+          id: 'L',
+          kind: 'while',
+          config: { condition: { var: 'always' }, maxIterations: 2 },
+        },
+        { id: 'B', kind: 'step', config: {} },
+      ],
+      [{ id: 'e1', from: 'L', to: 'B', label: EDGE_LABELS.BODY }],
+      [{ name: 'always', default: true }],
+    );
+
+    const { runner, bus } = createRunnerContext(runId, flow);
+    const result = await runner.start();
+    expect(result.status).toBe('failed');
+    expect(result.error?.code).toBe(RR_ERROR_CODES.LOOP_LIMIT_EXCEEDED);
+
+    const events = await bus.list({ runId });
+    expect(iterationEvents(events)).toHaveLength(2);
+  });
+
+  it('onLimit "stop" ends the loop quietly at maxIterations', async () => {
+    const runId = 'run-limit-stop';
+    const flow = createFlow(
+      [
+        {
+          id: 'L',
+          kind: 'while',
+          config: { condition: { var: 'always' }, maxIterations: 2, onLimit: 'stop' },
+        },
+        { id: 'B', kind: 'step', config: {} },
+      ],
+      [{ id: 'e1', from: 'L', to: 'B', label: EDGE_LABELS.BODY }],
+      [{ name: 'always', default: true }],
+    );
+
+    const { runner } = createRunnerContext(runId, flow);
+    const result = await runner.start();
+    expect(result.status).toBe('succeeded');
+  });
+
+  it('loopElements expands {var} placeholders in its selector before querying', async () => {
+    const executeScript = vi.fn().mockResolvedValue([{ result: ['#row-1', '#row-2'] }]);
+    (chrome as unknown as { scripting: { executeScript: typeof executeScript } }).scripting = {
+      executeScript,
+    };
+    const runId = 'run-loop-elements';
+    const flow = createFlow(
+      [
+        { id: 'L', kind: 'loopElements', config: { selector: '#{table} tr.{cls}' } },
+        { id: 'B', kind: 'step', config: {} },
+      ],
+      [{ id: 'e1', from: 'L', to: 'B', label: EDGE_LABELS.BODY }],
+      [
+        { name: 'table', default: 'orders' },
+        { name: 'cls', default: 'open' },
+      ],
+    );
+
+    const { runner, seen } = createRunnerContext(runId, flow);
+    const result = await runner.start();
+    expect(result.status).toBe('succeeded');
+    expect(executeScript).toHaveBeenCalledWith(
+      expect.objectContaining({ target: { tabId: 1 }, args: ['#orders tr.open'] }),
+    );
+    expect(seen).toEqual(['#row-1', '#row-2']);
+    expect(runner.getVar('elements')).toEqual(['#row-1', '#row-2']);
+  });
+
+  it('rejects loop nodes without a body edge and cycles outside loop bodies', () => {
+    const noBody = createFlow([{ id: 'L', kind: 'foreach', config: { listVar: 'list' } }], []);
+    expect(validateFlowDAG(noBody).ok).toBe(false);
+
+    const cycle = createFlow(
+      [
+        { id: 'A', kind: 'step', config: {} },
+        { id: 'B', kind: 'step', config: {} },
+      ],
+      [
+        { id: 'e1', from: 'A', to: 'B' },
+        { id: 'e2', from: 'B', to: 'A' },
+      ],
+    );
+    const result = validateFlowDAG(cycle);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors[0].code).toBe(RR_ERROR_CODES.DAG_CYCLE);
+  });
+});
@@ -0,0 +1,400 @@
+/**
+ * @fileoverview Record-Replay V3 RunRunner parallel contracts
+ * @description Verifies parallel/join execution: join modes, deterministic variable merge,
+ * per-branch events, branch tabs and DAG validation.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import type { EdgeV3, FlowV3, NodeV3 } from '@/entrypoints/background/record-replay-v3/domain/flow';
+import { FLOW_SCHEMA_VERSION } from '@/entrypoints/background/record-replay-v3/domain/flow';
+import type {
+  RunEvent,
+  RunRecordV3,
+} from '@/entrypoints/background/record-replay-v3/domain/events';
+import type { JsonValue } from '@/entrypoints/background/record-replay-v3/domain/json';
+import type { RunId } from '@/entrypoints/background/record-replay-v3/domain/ids';
+import { EDGE_LABELS } from '@/entrypoints/background/record-replay-v3/domain/ids';
+import {
+  RR_ERROR_CODES,
+  createRRError,
+} from '@/entrypoints/background/record-replay-v3/domain/errors';
+import type {
+  NodeDefinition,
+  NodeExecutionResult,
+} from '@/entrypoints/background/record-replay-v3/engine/plugins/types';
+import { PluginRegistry } from '@/entrypoints/background/record-replay-v3/engine/plugins/registry';
+import { InMemoryEventsBus } from '@/entrypoints/background/record-replay-v3/engine/transport/events-bus';
+import {
+  createNotImplementedStoragePort,
+  type RunsStore,
+} from '@/entrypoints/background/record-replay-v3/engine/storage/storage-port';
+import { resetBreakpointRegistry } from '@/entrypoints/background/record-replay-v3/engine/kernel/breakpoints';
+import { mergeBranchPatches } from '@/entrypoints/background/record-replay-v3/engine/kernel/parallel';
+import { createRunRunnerFactory } from '@/entrypoints/background/record-replay-v3/engine/kernel/runner';
+import {
+  findJoinNode,
+  validateFlowDAG,
+} from '@/entrypoints/background/record-replay-v3/engine/kernel/traversal';
+
+// ==================== Test Helpers ====================
+
+type WorkConfig = {
+  /** Variable to set when the step finishes */
+  set?: string;
+  value?: JsonValue;
+  /** Simulated work time */
+  delayMs?: number;
+  fail?: boolean;
+  /** Never finish on its own */
+  hang?: boolean;
+};
+
+/**
+ * Step that waits, then sets a variable or fails; records completion order.
+ * Hanging steps record their id in `aborted` when their cancel signal fires.
+ */
+function createWorkNodeDefinition(
+  finished: string[],
+  aborted: string[],
+): NodeDefinition<'work', WorkConfig> {
+  return {
+    kind: 'work',
+    schema: z.object({
+      set: z.string().optional(),
+      value: z.any().optional(),
+      delayMs: z.number().optional(),
+      fail: z.boolean().optional(),
+      hang: z.boolean().optional(),
+    }),
+    execute: async (ctx, node): Promise<NodeExecutionResult> => {
+      const cfg = node.config as WorkConfig;
+      if (cfg.hang) {
+        ctx.signal?.addEventListener('abort', () => aborted.push(node.id));
+        return new Promise<NodeExecutionResult>(() => {});
+      }
+      if (cfg.delayMs) await new Promise((resolve) => setTimeout(resolve, cfg.delayMs));
+      finished.push(node.id);
+      if (cfg.fail) {
+        return { status: 'failed', error: createRRError(RR_ERROR_CODES.INTERNAL, 'boom') };
+      }
+      if (cfg.set) {
+        return {
+          status: 'succeeded',
+          varsPatch: [{ op: 'set', name: cfg.set, value: cfg.value ?? node.id }],
+        };
+      }
+      return { status: 'succeeded' };
+    },
+  };
+}
+
+function work(id: string, config: WorkConfig = {}): NodeV3 {
+  return { id, kind: 'work', config };
+}
+
+/**
+ * P -branch-> A1..  -> J -> END
+ *   -branch-> B1..  -> J
+ */
+function createParallelFlow(
+  branches: NodeV3[][],
+  joinConfig: Record<string, JsonValue> = {},
+  parallelConfig: Record<string, JsonValue> = {},
+): FlowV3 {
+  const nodes: NodeV3[] = [{ id: 'P', kind: 'parallel', config: parallelConfig }];
+  const edges: EdgeV3[] = [];
+  branches.forEach((branch, i) => {
+    nodes.push(...branch);
+    edges.push({ id: `b${i}`, from: 'P', to: branch[0].id, label: EDGE_LABELS.BRANCH });
+    for (let j = 1; j < branch.length; j++) {
+      edges.push({ id: `b${i}-${j}`, from: branch[j - 1].id, to: branch[j].id });
+    }
+    edges.push({ id: `b${i}-join`, from: branch[branch.length - 1].id, to: 'J' });
+  });
+  nodes.push({ id: 'J', kind: 'join', config: joinConfig }, work('END'));
+  edges.push({ id: 'e-end', from: 'J', to: 'END' });
+
+  const iso = new Date(0).toISOString();
+  return {
+    schemaVersion: FLOW_SCHEMA_VERSION,
+    id: 'flow-parallel',
+    name: 'parallel contract flow',
+    createdAt: iso,
+    updatedAt: iso,
+    entryNodeId: 'P',
+    nodes,
+    edges,
+  };
+}
+
+function createInMemoryRunsStore(): { store: RunsStore; byId: Map<RunId, RunRecordV3> } {
+  const byId = new Map<RunId, RunRecordV3>();
+  const store: RunsStore = {
+    list: async () => Array.from(byId.values()),
+    get: async (id) => byId.get(id) ?? null,
+    save: async (record) => {
+      byId.set(record.id, record);
+    },
+    patch: async (id, patch) => {
+      const existing = byId.get(id);
+      if (!existing) {
+        throw createRRError(RR_ERROR_CODES.INTERNAL, `Run "${id}" not found`);
+      }
+      byId.set(id, { ...existing, ...patch, id: existing.id, updatedAt: Date.now() });
+    },
+  };
+  return { store, byId };
+}
+
+async function runFlow(runId: RunId, flow: FlowV3) {
+  const finished: string[] = [];
+  const aborted: string[] = [];
+  const plugins = new PluginRegistry();
+  plugins.registerNode(createWorkNodeDefinition(finished, aborted));
+
+  const bus = new InMemoryEventsBus();
+  const { store: runs, byId } = createInMemoryRunsStore();
+  const storage = createNotImplementedStoragePort();
+  storage.runs = runs;
+
+  const runner = createRunRunnerFactory({ storage, events: bus, plugins }).create(runId, {
+    flow,
+    tabId: 1,
+  });
+  const result = await runner.start();
+  const events = await bus.list({ runId });
+  return { runner, result, events, finished, aborted, record: byId.get(runId) };
+}
+
+function branchFinished(events: RunEvent[]) {
+  return events.filter(
+    (e): e is Extract<RunEvent, { type: 'parallel.branch.finished' }> =>
+      e.type === 'parallel.branch.finished',
+  );
+}
+
+// ==================== Tests ====================
+
+describe('V3 RunRunner parallel contracts', () => {
+  beforeEach(() => {
+    resetBreakpointRegistry();
+  });
+
+  it('"all" runs branches concurrently and merges patches in branch order', async () => {
+    const flow = createParallelFlow([
+      [work('A1', { delayMs: 30, set: 'winner', value: 'a' }), work('A2', { set: 'a' })],
+      [work('B1', { delayMs: 5, set: 'winner', value: 'b' })],
+    ]);
+    const { runner, result, events, finished } = await runFlow('run-all', flow);
+
+    expect(result.status).toBe('succeeded');
+    // Completion order differs from branch order; the later branch (B) wins the merge
+    expect(finished).toEqual(['B1', 'A1', 'A2', 'END']);
+    expect(runner.getVar('winner')).toBe('b');
+    expect(runner.getVar('a')).toBe('A2');
+
+    const joinPatch = events.filter((e) => e.type === 'vars.patch' && !e.branchId).pop();
+    expect(joinPatch).toMatchObject({
+      patch: [
+        { op: 'set', name: 'a', value: 'A2' },
+        { op: 'set', name: 'winner', value: 'b' },
+      ],
+    });
+    expect(events.find((e) => e.type === 'node.succeeded' && e.nodeId === 'J')).toBeDefined();
+  });
+
+  it('tags branch events with branchId and reports each branch outcome', async () => {
+    const flow = createParallelFlow([[work('A1')], [work('B1')]]);
+    const { events } = await runFlow('run-events', flow);
+
+    const started = events.filter((e) => e.type === 'parallel.branch.started');
+    expect(started.map((e) => [e.branchId, (e as { entryNodeId: string }).entryNodeId])).toEqual([
+      ['b0', 'A1'],
+      ['b1', 'B1'],
+    ]);
+    const a1 = events.find((e) => e.type === 'node.started' && e.nodeId === 'A1');
+    expect(a1?.branchId).toBe('b0');
+    const end = events.find((e) => e.type === 'node.started' && e.nodeId === 'END');
+    expect(end?.branchId).toBeUndefined();
+    expect(branchFinished(events).map((e) => e.status)).toEqual(['succeeded', 'succeeded']);
+  });
+
+  it('"all" fails at the failing branch node and cancels the other branches', async () => {
+    const flow = createParallelFlow([
+      [work('A1', { delayMs: 20 }), work('A2', { set: 'late' })],
+      [work('B1', { fail: true })],
+    ]);
+    const { runner, result, events, finished } = await runFlow('run-all-fail', flow);
+
+    expect(result.status).toBe('failed');
+    expect(finished).not.toContain('A2');
+    expect(finished).not.toContain('END');
+    expect(runner.getVar('late')).toBeUndefined();
+    expect(Object.fromEntries(branchFinished(events).map((e) => [e.branchId, e.status]))).toEqual({
+      b0: 'canceled',
+      b1: 'failed',
+    });
+    expect(branchFinished(events).find((e) => e.status === 'failed')?.failedNodeId).toBe('B1');
+  });
+
+  it('"any" continues when one branch succeeds and merges only successful branches', async () => {
+    const flow = createParallelFlow(
+      [[work('A1', { set: 'a' })], [work('B1', { set: 'b' }), work('B2', { fail: true })]],
+      { mode: 'any' },
+    );
+    const { runner, result } = await runFlow('run-any', flow);
+
+    expect(result.status).toBe('succeeded');
+    expect(runner.getVar('a')).toBe('A1');
+    expect(runner.getVar('b')).toBeUndefined();
+  });
+
+  it('"any" fails with PARALLEL_BRANCHES_FAILED when every branch fails', async () => {
+    const flow = createParallelFlow([[work('A1', { fail: true })], [work('B1', { fail: true })]], {
+      mode: 'any',
+    });
+    const { result, events } = await runFlow('run-any-fail', flow);
+
+    expect(result.status).toBe('failed');
+    const failed = events.find((e) => e.type === 'node.failed' && e.nodeId === 'P');
+    expect(failed).toMatchObject({ error: { code: RR_ERROR_CODES.PARALLEL_BRANCHES_FAILED } });
+  });
+
+  it('"firstSuccess" continues with the first successful branch and cancels the rest', async () => {
+    const flow = createParallelFlow(
+      [
+        [work('A1', { delayMs: 30, set: 'who', value: 'a' }), work('A2')],
+        [work('B1', { delayMs: 5, set: 'who', value: 'b' })],
+      ],
+      { mode: 'firstSuccess' },
+    );
+    const { runner, result, events, finished } = await runFlow('run-first', flow);
+
+    expect(result.status).toBe('succeeded');
+    expect(runner.getVar('who')).toBe('b');
+    expect(finished).not.toContain('A2');
+    expect(finished[finished.length - 1]).toBe('END');
+    expect(Object.fromEntries(branchFinished(events).map((e) => [e.branchId, e.status]))).toEqual({
+      b0: 'canceled',
+      b1: 'succeeded',
+    });
+  });
+
+  it('"firstSuccess" does not wait for a losing branch whose node hangs', async () => {
+    const flow = createParallelFlow(
+      [[work('A1', { hang: true }), work('A2')], [work('B1', { delayMs: 5, set: 'who' })]],
+      { mode: 'firstSuccess' },
+    );
+    const { result, events, finished, aborted } = await runFlow('run-first-hang', flow);
+
+    expect(result.status).toBe('succeeded');
+    expect(finished).toEqual(['B1', 'END']);
+    expect(aborted).toEqual(['A1']);
+    expect(Object.fromEntries(branchFinished(events).map((e) => [e.branchId, e.status]))).toEqual({
+      b0: 'canceled',
+      b1: 'succeeded',
+    });
+    expect(events.find((e) => e.type === 'node.failed' && e.nodeId === 'A1')).toBeUndefined();
+  });
+
+  it('maxConcurrency limits how many branches run at once', async () => {
+    const flow = createParallelFlow(
+      [[work('A1', { delayMs: 20 })], [work('B1', { delayMs: 5 })], [work('C1')]],
+      {},
+      { maxConcurrency: 1 },
+    );
+    const { result, finished } = await runFlow('run-serial', flow);
+
+    expect(result.status).toBe('succeeded');
+    expect(finished).toEqual(['A1', 'B1', 'C1', 'END']);
+  });
+
+  it('records branch tabs kept open so tabCleanup closes them', async () => {
+    let nextTabId = 100;
+    vi.mocked(chrome.tabs.create).mockImplementation(
+      async () => ({ id: ++nextTabId, status: 'complete' }) as chrome.tabs.Tab,
+    );
+    vi.mocked(chrome.tabs.remove).mockReset().mockResolvedValue(undefined);
+    const flow = createParallelFlow(
+      [[work('A1')], [work('B1')]],
+      {},
+      {
+        tabs: 'newTab',
+        url: 'https://example.com/',
+        closeTabs: false,
+      },
+    );
+    flow.policy = { tabCleanup: 'always' };
+    const { result, record } = await runFlow('run-branch-tabs', flow);
+
+    expect(result.status).toBe('succeeded');
+    expect(record?.openedTabIds).toEqual([101, 102]);
+    expect(vi.mocked(chrome.tabs.remove).mock.calls).toEqual([[101], [102]]);
+  });
+
+  it('does not close branch tabs twice when the parallel node already closed them', async () => {
+    let nextTabId = 100;
+    vi.mocked(chrome.tabs.create).mockImplementation(
+      async () => ({ id: ++nextTabId, status: 'complete' }) as chrome.tabs.Tab,
+    );
+    vi.mocked(chrome.tabs.remove).mockReset().mockResolvedValue(undefined);
+    const flow = createParallelFlow(
+      [[work('A1')], [work('B1')]],
+      {},
+      {
+        tabs: 'newTab',
+        url: 'https://example.com/',
+      },
+    );
+    flow.policy = { tabCleanup: 'always' };
+    const { result, record } = await runFlow('run-branch-tabs-closed', flow);
+
+    expect(result.status).toBe('succeeded');
+    expect(record?.openedTabIds).toEqual([]);
+    expect(vi.mocked(chrome.tabs.remove).mock.calls).toEqual([[[101, 102]]]);
+  });
+
+  it('mergeBranchPatches keeps the last write per variable in branch order', () => {
+    expect(
+      mergeBranchPatches(
+        [
+          [
+            { op: 'set', name: 'x', value: 1 },
+            { op: 'set', name: 'y', value: 1 },
+          ],
+          [
+            { op: 'delete', name: 'x' },
+            { op: 'set', name: 'skip', value: 1 },
+          ],
+        ],
+        new Set(['skip']),
+      ),
+    ).toEqual([
+      { op: 'set', name: 'y', value: 1 },
+      { op: 'delete', name: 'x' },
+    ]);
+  });
+
+  it('rejects parallel nodes without branches or a common join node', () => {
+    const flow = createParallelFlow([[work('A1')], [work('B1')]]);
+    expect(findJoinNode(flow, 'P')?.id).toBe('J');
+    expect(validateFlowDAG(flow).ok).toBe(true);
+
+    const noJoin: FlowV3 = {
+      ...flow,
+      edges: flow.edges.filter((e) => e.id !== 'b1-join'),
+    };
+    expect(findJoinNode(noJoin, 'P')).toBeUndefined();
+    expect(validateFlowDAG(noJoin).ok).toBe(false);
+
+    const noBranches: FlowV3 = {
+      ...flow,
+      edges: flow.edges.filter((e) => e.label !== EDGE_LABELS.BRANCH),
+    };
+    const result = validateFlowDAG(noBranches);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.errors[0].code).toBe(RR_ERROR_CODES.DAG_INVALID);
+  });
+});
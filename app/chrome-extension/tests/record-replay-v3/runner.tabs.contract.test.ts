@@ -0,0 +1,283 @@
+/**
+ * @fileoverview Record-Replay V3 RunRunner tab handle contracts
+ * @description Verifies named tab handles (NodeV3.tab) and cleanup of tabs opened by a run.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import type { FlowV3, NodeV3 } from '@/entrypoints/background/record-replay-v3/domain/flow';
+import { FLOW_SCHEMA_VERSION } from '@/entrypoints/background/record-replay-v3/domain/flow';
+import type { RunRecordV3 } from '@/entrypoints/background/record-replay-v3/domain/events';
+import type { RunId } from '@/entrypoints/background/record-replay-v3/domain/ids';
+import type { TabCleanupPolicy } from '@/entrypoints/background/record-replay-v3/domain/policy';
+import { TAB_HANDLES_VAR } from '@/entrypoints/background/record-replay-v3/domain/tabs';
+import {
+  RR_ERROR_CODES,
+  createRRError,
+} from '@/entrypoints/background/record-replay-v3/domain/errors';
+import type { NodeExecutionResult } from '@/entrypoints/background/record-replay-v3/engine/plugins/types';
+import { PluginRegistry } from '@/entrypoints/background/record-replay-v3/engine/plugins/registry';
+import { adaptV2ActionHandlerToV3NodeDefinition } from '@/entrypoints/background/record-replay-v3/engine/plugins/v2-action-adapter';
+import { openTabHandler } from '@/entrypoints/background/record-replay/actions/handlers/tabs';
+import type {
+  ActionHandler,
+  ExecutableActionType,
+} from '@/entrypoints/background/record-replay/actions/types';
+import { InMemoryEventsBus } from '@/entrypoints/background/record-replay-v3/engine/transport/events-bus';
+import { createNotImplementedStoragePort } from '@/entrypoints/background/record-replay-v3/engine/storage/storage-port';
+import { resetBreakpointRegistry } from '@/entrypoints/background/record-replay-v3/engine/kernel/breakpoints';
+import { createRunRunnerFactory } from '@/entrypoints/background/record-replay-v3/engine/kernel/runner';
+
+// ==================== Test Helpers ====================
+
+type Seen = Array<{ nodeId: string; tabId: number; tabHandle?: string }>;
+
+/**
+ * - open: binds config.handle to config.tabId and reports the tab as opened
+ * - probe: records the tab it runs against; fails when config.fail is set, reporting
+ *   config.opened as a tab opened before the failure
+ * - slowOpen: reports config.tabId as opened after config.delayMs
+ * - openTab: the real V2 openTab handler through the V3 adapter
+ */
+function createPlugins(seen: Seen): PluginRegistry {
+  const plugins = new PluginRegistry();
+  plugins.registerNode({
+    kind: 'open',
+    schema: z.object({ handle: z.string(), tabId: z.number() }),
+    execute: async (ctx, node): Promise<NodeExecutionResult> => {
+      const { handle, tabId } = node.config as { handle: string; tabId: number };
+      const handles = (ctx.vars[TAB_HANDLES_VAR] ?? {}) as Record<string, number>;
+      return {
+        status: 'succeeded',
+        varsPatch: [{ op: 'set', name: TAB_HANDLES_VAR, value: { ...handles, [handle]: tabId } }],
+        openedTabIds: [tabId],
+      };
+    },
+  });
+  plugins.registerNode({
+    kind: 'probe',
+    schema: z.object({ fail: z.boolean().optional(), opened: z.number().optional() }),
+    execute: async (ctx, node): Promise<NodeExecutionResult> => {
+      seen.push({
+        nodeId: node.id,
+        tabId: ctx.tabId,
+        ...(ctx.tabHandle ? { tabHandle: ctx.tabHandle } : {}),
+      });
+      if (!node.config.fail) return { status: 'succeeded' };
+      const opened = node.config.opened as number | undefined;
+      return {
+        status: 'failed',
+        error: createRRError(RR_ERROR_CODES.INTERNAL, 'boom'),
+        ...(opened !== undefined ? { openedTabIds: [opened] } : {}),
+      };
+    },
+  });
+  plugins.registerNode({
+    kind: 'slowOpen',
+    schema: z.object({ tabId: z.number(), delayMs: z.number() }),
+    execute: async (_ctx, node): Promise<NodeExecutionResult> => {
+      const { tabId, delayMs } = node.config as { tabId: number; delayMs: number };
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      return { status: 'succeeded', openedTabIds: [tabId] };
+    },
+  });
+  plugins.registerNode(
+    adaptV2ActionHandlerToV3NodeDefinition(
+      openTabHandler as unknown as ActionHandler<ExecutableActionType>,
+    ),
+  );
+  return plugins;
+}
+
+function createFlow(nodes: NodeV3[], tabCleanup?: TabCleanupPolicy): FlowV3 {
+  const iso = new Date(0).toISOString();
+  return {
+    schemaVersion: FLOW_SCHEMA_VERSION,
+    id: 'flow-tabs',
+    name: 'tab handle flow',
+    createdAt: iso,
+    updatedAt: iso,
+    entryNodeId: nodes[0].id,
+    nodes,
+    edges: nodes.slice(1).map((node, i) => ({ id: `e${i}`, from: nodes[i].id, to: node.id })),
+    ...(tabCleanup ? { policy: { tabCleanup } } : {}),
+  };
+}
+
+async function runFlow(runId: RunId, flow: FlowV3, existing?: RunRecordV3) {
+  const seen: Seen = [];
+  const bus = new InMemoryEventsBus();
+  const storage = createNotImplementedStoragePort();
+  const runs = new Map<RunId, RunRecordV3>(existing ? [[runId, existing]] : []);
+  storage.runs = {
+    list: async () => Array.from(runs.values()),
+    get: async (id) => runs.get(id) ?? null,
+    save: async (record) => {
+      runs.set(record.id, record);
+    },
+    patch: async (id, patch) => {
+      const existing = runs.get(id);
+      if (existing) runs.set(id, { ...existing, ...patch });
+    },
+  };
+
+  const runner = createRunRunnerFactory({
+    storage,
+    events: bus,
+    plugins: createPlugins(seen),
+  }).create(runId, { flow, tabId: 1 });
+  const result = await runner.start();
+  return { runner, result, seen, record: runs.get(runId) };
+}
+
+// ==================== Tests ====================
+
+describe('V3 RunRunner tab handle contracts', () => {
+  beforeEach(() => {
+    resetBreakpointRegistry();
+    vi.mocked(chrome.tabs.remove).mockReset().mockResolvedValue(undefined);
+  });
+
+  it('binds "main" to the run tab and routes nodes to their target handle', async () => {
+    const flow = createFlow([
+      { id: 'open', kind: 'open', config: { handle: 'popup', tabId: 9 } },
+      { id: 'current', kind: 'probe', config: {} },
+      { id: 'inPopup', kind: 'probe', config: {}, tab: 'popup' },
+      { id: 'inMain', kind: 'probe', config: {}, tab: 'main' },
+    ]);
+    const { runner, result, seen } = await runFlow('run-handles', flow);
+
+    expect(result.status).toBe('succeeded');
+    expect(runner.getVar(TAB_HANDLES_VAR)).toEqual({ main: 1, popup: 9 });
+    expect(seen).toEqual([
+      { nodeId: 'current', tabId: 1 },
+      { nodeId: 'inPopup', tabId: 9, tabHandle: 'popup' },
+      { nodeId: 'inMain', tabId: 1, tabHandle: 'main' },
+    ]);
+  });
+
+  it('fails with TAB_NOT_FOUND when a node targets an unbound handle', async () => {
+    const flow = createFlow([{ id: 'A', kind: 'probe', config: {}, tab: 'nowhere' }]);
+    const { result, seen } = await runFlow('run-unbound', flow);
+
+    expect(result.status).toBe('failed');
+    expect(result.error?.code).toBe(RR_ERROR_CODES.TAB_NOT_FOUND);
+    expect(seen).toEqual([]);
+  });
+
+  it('leaves opened tabs alone by default', async () => {
+    const flow = createFlow([{ id: 'open', kind: 'open', config: { handle: 'x', tabId: 9 } }]);
+    await runFlow('run-keep', flow);
+
+    expect(chrome.tabs.remove).not.toHaveBeenCalled();
+  });
+
+  it('"onFailure" closes tabs the run opened only when the run fails', async () => {
+    const ok = createFlow(
+      [{ id: 'open', kind: 'open', config: { handle: 'x', tabId: 9 } }],
+      'onFailure',
+    );
+    await runFlow('run-ok', ok);
+    expect(chrome.tabs.remove).not.toHaveBeenCalled();
+
+    const failing = createFlow(
+      [
+        { id: 'open', kind: 'open', config: { handle: 'x', tabId: 9 } },
+        { id: 'reopen', kind: 'open', config: { handle: 'y', tabId: 9 } },
+        { id: 'fail', kind: 'probe', config: { fail: true } },
+      ],
+      'onFailure',
+    );
+    const { result } = await runFlow('run-fail', failing);
+    expect(result.status).toBe('failed');
+    expect(vi.mocked(chrome.tabs.remove).mock.calls).toEqual([[9]]);
+  });
+
+  it('"always" never closes the run tab itself', async () => {
+    const flow = createFlow(
+      [
+        { id: 'open', kind: 'open', config: { handle: 'x', tabId: 9 } },
+        { id: 'openMain', kind: 'open', config: { handle: 'again', tabId: 1 } },
+      ],
+      'always',
+    );
+    await runFlow('run-always', flow);
+
+    expect(vi.mocked(chrome.tabs.remove).mock.calls).toEqual([[9]]);
+  });
+
+  it('closes tabs reported by a failed node', async () => {
+    const flow = createFlow(
+      [{ id: 'fail', kind: 'probe', config: { fail: true, opened: 9 } }],
+      'onFailure',
+    );
+    const { result, record } = await runFlow('run-fail-opened', flow);
+
+    expect(result.status).toBe('failed');
+    expect(record?.openedTabIds).toEqual([9]);
+    expect(vi.mocked(chrome.tabs.remove).mock.calls).toEqual([[9]]);
+  });
+
+  it('also closes tabs opened before a service worker restart', async () => {
+    const flow = createFlow(
+      [{ id: 'open', kind: 'open', config: { handle: 'x', tabId: 9 } }],
+      'always',
+    );
+    // A run requeued by crash recovery keeps the tabs its first attempt opened
+    const recovered: RunRecordV3 = {
+      schemaVersion: 3,
+      id: 'run-recovered',
+      flowId: flow.id,
+      status: 'queued',
+      createdAt: 0,
+      updatedAt: 0,
+      startedAt: 0,
+      tabId: 1,
+      attempt: 1,
+      maxAttempts: 1,
+      openedTabIds: [7, 9],
+      nextSeq: 3,
+    };
+    const { result, record } = await runFlow('run-recovered', flow, recovered);
+
+    expect(result.status).toBe('succeeded');
+    expect(record?.openedTabIds).toEqual([7, 9]);
+    expect(vi.mocked(chrome.tabs.remove).mock.calls).toEqual([[7], [9]]);
+  });
+
+  it('closes a tab the V2 openTab handler created before failing', async () => {
+    vi.mocked(chrome.tabs.create).mockImplementation(async () => ({ id: 42 }) as chrome.tabs.Tab);
+    vi.mocked(chrome.tabs.get).mockRejectedValue(new Error('No tab with id: 42'));
+    const flow = createFlow(
+      [{ id: 'open', kind: 'openTab', config: { url: 'https://example.com/' } }],
+      'onFailure',
+    );
+    const { result, record } = await runFlow('run-open-fails', flow);
+
+    expect(result.status).toBe('failed');
+    expect(record?.openedTabIds).toEqual([42]);
+    expect(vi.mocked(chrome.tabs.remove).mock.calls).toEqual([[42]]);
+  });
+
+  it('closes a tab reported by a node after it timed out', async () => {
+    const flow = createFlow(
+      [
+        {
+          id: 'slow',
+          kind: 'slowOpen',
+          config: { tabId: 9, delayMs: 40 },
+          policy: { timeout: { ms: 5 } },
+        },
+      ],
+      'always',
+    );
+    const { result } = await runFlow('run-timeout', flow);
+
+    expect(result.status).toBe('failed');
+    expect(result.error?.code).toBe(RR_ERROR_CODES.TIMEOUT);
+    expect(chrome.tabs.remove).not.toHaveBeenCalled();
+    // The run already cleaned up; the late tab is closed as soon as it is reported
+    await vi.waitFor(() => expect(vi.mocked(chrome.tabs.remove).mock.calls).toEqual([[9]]));
+  });
+});
@@ -55,6 +55,9 @@ function createMockStorage(
     queue: queueStore,
     persistentVars: {} as any,
     triggers: {} as any,
+    artifacts: {} as any,
+    datasets: {} as any,
+    batches: {} as any,
   };
 }
 
@@ -364,7 +364,7 @@ import {
 describe('V3 Storage Constants', () => {
   it('should export database constants', () => {
     expect(RR_V3_DB_NAME).toBe('rr_v3');
-    expect(RR_V3_DB_VERSION).toBe(1);
+    expect(RR_V3_DB_VERSION).toBe(3);
   });
 
   it('should export store names', () => {
@@ -374,6 +374,9 @@ describe('V3 Storage Constants', () => {
     expect(RR_V3_STORES.QUEUE).toBe('queue');
     expect(RR_V3_STORES.PERSISTENT_VARS).toBe('persistent_vars');
     expect(RR_V3_STORES.TRIGGERS).toBe('triggers');
+    expect(RR_V3_STORES.ARTIFACTS).toBe('artifacts');
+    expect(RR_V3_STORES.DATASETS).toBe('datasets');
+    expect(RR_V3_STORES.BATCHES).toBe('batches');
   });
 });
 
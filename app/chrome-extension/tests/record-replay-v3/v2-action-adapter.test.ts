@@ -17,6 +17,7 @@ import type {
   ActionExecutionContext,
   ActionExecutionResult,
   ActionHandler,
+  ExecutableActionType,
 } from '@/entrypoints/background/record-replay/actions/types';
 import type {
   NodeExecutionContext,
@@ -28,6 +29,7 @@ import { RR_ERROR_CODES } from '@/entrypoints/background/record-replay-v3/domain
 import { FLOW_SCHEMA_VERSION } from '@/entrypoints/background/record-replay-v3/domain/flow';
 
 import { adaptV2ActionHandlerToV3NodeDefinition } from '@/entrypoints/background/record-replay-v3/engine/plugins/v2-action-adapter';
+import { openTabHandler } from '@/entrypoints/background/record-replay/actions/handlers/tabs';
 
 // ==================== Test Fixtures ====================
 
@@ -390,6 +392,137 @@ describe('adaptV2ActionHandlerToV3NodeDefinition', () => {
     });
   });
 
+  describe('Tab handles', () => {
+    function createTabHandler(type: 'openTab' | 'switchTab' | 'closeTab', newTabId?: number) {
+      const seen: { tabId?: number; params?: unknown } = {};
+      const handler = {
+        type,
+        run: async (ctx: ActionExecutionContext, action: { params: unknown }) => {
+          seen.tabId = ctx.tabId;
+          seen.params = action.params;
+          return { status: 'success' as const, ...(newTabId ? { newTabId } : {}) };
+        },
+      } as unknown as ActionHandler<ExecutableActionType>;
+      return { nodeDef: adaptV2ActionHandlerToV3NodeDefinition(handler), seen };
+    }
+
+    function varsPatchOf(result: NodeExecutionResult) {
+      return result.status === 'succeeded' ? result.varsPatch : undefined;
+    }
+
+    it('openTab binds the handle, selects the tab and reports it as opened', async () => {
+      const { nodeDef } = createTabHandler('openTab', 42);
+      const ctx = createMockV3Context({ vars: { __rr__tabHandles: { main: 1 } } });
+
+      const result = await nodeDef.execute(ctx, createMockNode('n', { handle: 'login' }) as any);
+
+      expect(result.status).toBe('succeeded');
+      if (result.status !== 'succeeded') return;
+      expect(varsPatchOf(result)).toContainEqual({
+        op: 'set',
+        name: '__rr__tabHandles',
+        value: { main: 1, login: 42 },
+      });
+      expect(varsPatchOf(result)).toContainEqual({ op: 'set', name: '__rr_v2__tabId', value: 42 });
+      expect(result.openedTabIds).toEqual([42]);
+    });
+
+    it('openTab reports a tab it created even when it then fails', async () => {
+      vi.mocked(chrome.tabs.create).mockImplementation(async () => ({ id: 42 }) as chrome.tabs.Tab);
+      vi.mocked(chrome.tabs.get).mockRejectedValue(new Error('No tab with id: 42'));
+      const nodeDef = adaptV2ActionHandlerToV3NodeDefinition(
+        openTabHandler as unknown as ActionHandler<ExecutableActionType>,
+      );
+
+      const result = await nodeDef.execute(
+        createMockV3Context(),
+        createMockNode('n', { url: 'https://example.com/' }) as any,
+      );
+
+      expect(result.status).toBe('failed');
+      if (result.status !== 'failed') return;
+      expect(result.error.message).toContain('No tab with id: 42');
+      expect(result.openedTabIds).toEqual([42]);
+    });
+
+    it('switchTab with only a handle switches to the bound tab', async () => {
+      const { nodeDef, seen } = createTabHandler('switchTab', 7);
+      const ctx = createMockV3Context({ vars: { __rr__tabHandles: { main: 1, other: 7 } } });
+
+      const result = await nodeDef.execute(ctx, createMockNode('n', { handle: 'other' }) as any);
+
+      expect(result.status).toBe('succeeded');
+      expect(seen.params).toMatchObject({ tabId: 7 });
+      if (result.status === 'succeeded') expect(result.openedTabIds).toBeUndefined();
+    });
+
+    it('switchTab with search criteria binds the found tab to the handle', async () => {
+      const { nodeDef } = createTabHandler('switchTab', 9);
+      const ctx = createMockV3Context({ vars: {} });
+
+      const result = await nodeDef.execute(
+        ctx,
+        createMockNode('n', { handle: 'popup', urlContains: 'login' }) as any,
+      );
+
+      expect(varsPatchOf(result)).toContainEqual({
+        op: 'set',
+        name: '__rr__tabHandles',
+        value: { popup: 9 },
+      });
+    });
+
+    it('fails with TAB_NOT_FOUND for an unbound handle', async () => {
+      const { nodeDef, seen } = createTabHandler('switchTab');
+      const ctx = createMockV3Context({ vars: {} });
+
+      const result = await nodeDef.execute(ctx, createMockNode('n', { handle: 'missing' }) as any);
+
+      expect(result.status).toBe('failed');
+      if (result.status === 'failed') expect(result.error.code).toBe(RR_ERROR_CODES.TAB_NOT_FOUND);
+      expect(seen.params).toBeUndefined();
+    });
+
+    it('closeTab closes the handle tab, releases it and clears the selection', async () => {
+      const { nodeDef, seen } = createTabHandler('closeTab');
+      const ctx = createMockV3Context({
+        vars: { __rr__tabHandles: { main: 1, popup: 9 }, __rr_v2__tabId: 9 },
+      });
+
+      const result = await nodeDef.execute(ctx, createMockNode('n', { handle: 'popup' }) as any);
+
+      expect(seen.params).toMatchObject({ tabIds: [9] });
+      expect(varsPatchOf(result)).toContainEqual({
+        op: 'set',
+        name: '__rr__tabHandles',
+        value: { main: 1 },
+      });
+      expect(varsPatchOf(result)).toContainEqual({ op: 'delete', name: '__rr_v2__tabId' });
+    });
+
+    it('an explicit ctx.tabHandle wins over the selected tab and frame', async () => {
+      let captured: { tabId?: number; frameId?: number } = {};
+      const nodeDef = adaptV2ActionHandlerToV3NodeDefinition({
+        type: 'click',
+        run: async (ctx) => {
+          captured = { tabId: ctx.tabId, frameId: ctx.frameId };
+          return { status: 'success' };
+        },
+      });
+      const ctx = createMockV3Context({
+        tabId: 5,
+        tabHandle: 'other',
+        vars: { __rr_v2__tabId: 99, __rr_v2__frameId: 3 },
+      });
+
+      const result = await nodeDef.execute(ctx, createMockNode() as any);
+
+      expect(captured).toEqual({ tabId: 5, frameId: undefined });
+      // The frame selection of the current tab is kept
+      expect(varsPatchOf(result)).toBeUndefined();
+    });
+  });
+
   describe('Unsupported V2 behaviors', () => {
     it('returns failed for paused status', async () => {
       const handler = createMockHandler(async () => ({
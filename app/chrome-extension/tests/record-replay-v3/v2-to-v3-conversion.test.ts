@@ -342,3 +342,109 @@ describe('V2 <-> V3 roundtrip conversion', () => {
     expect(node?.ui).toEqual({ x: 100, y: 200 });
   });
 });
+
+// ==================== Loop Subflow Tests ====================
+
+describe('convertFlowV2ToV3 - loop subflows', () => {
+  it('inlines a foreach subflow as a body subgraph', () => {
+    const result = convertFlowV2ToV3(
+      createV2Flow({
+        nodes: [
+          { id: 'loop', type: 'foreach', config: { listVar: 'rows', subflowId: 'sf' } },
+          { id: 'done', type: 'delay', config: { ms: 1 } },
+        ],
+        edges: [{ id: 'e1', from: 'loop', to: 'done' }],
+        subflows: {
+          sf: {
+            nodes: [
+              { id: 'a', type: 'click', config: { selector: '#a' } },
+              { id: 'b', type: 'click', config: { selector: '#b' } },
+            ],
+            edges: [{ id: 'se1', from: 'a', to: 'b' }],
+          },
+        },
+      }),
+    );
+
+    expect(result.success).toBe(true);
+    const flow = result.data!;
+    expect(flow.entryNodeId).toBe('loop');
+    expect(flow.nodes.map((n) => n.id)).toEqual(['loop', 'done', 'loop/a', 'loop/b']);
+    expect(flow.edges).toContainEqual({ id: 'loop/se1', from: 'loop/a', to: 'loop/b' });
+    expect(flow.edges).toContainEqual({
+      id: 'loop/body',
+      from: 'loop',
+      to: 'loop/a',
+      label: 'body',
+    });
+    expect(flow.nodes[0].config).toEqual({ listVar: 'rows' });
+  });
+
+  it('expands nested loops and keeps V2 while limit semantics', () => {
+    const result = convertFlowV2ToV3(
+      createV2Flow({
+        nodes: [
+          { id: 'outer', type: 'while', config: { condition: { var: 'go' }, subflowId: 'o' } },
+        ],
+        edges: [],
+        subflows: {
+          o: {
+            nodes: [{ id: 'inner', type: 'foreach', config: { listVar: 'xs', subflowId: 'i' } }],
+            edges: [],
+          },
+          i: { nodes: [{ id: 'step', type: 'click' }], edges: [] },
+        },
+      }),
+    );
+
+    expect(result.success).toBe(true);
+    const flow = result.data!;
+    expect(flow.nodes.map((n) => n.id)).toEqual(['outer', 'outer/inner', 'outer/inner/step']);
+    expect(flow.nodes[0].config).toEqual({
+      condition: { var: 'go' },
+      maxIterations: 100,
+      onLimit: 'stop',
+    });
+  });
+
+  it('returns error for subflows no loop node uses', () => {
+    const result = convertFlowV2ToV3(
+      createV2Flow({
+        nodes: [{ id: 'loop', type: 'foreach', config: { listVar: 'xs', subflowId: 'sf' } }],
+        subflows: {
+          sf: { nodes: [{ id: 'step', type: 'click' }], edges: [] },
+          helper: { nodes: [{ id: 'other', type: 'click' }], edges: [] },
+        },
+      }),
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      'V3 does not support subflows outside loop bodies yet. Flow contains subflows: helper',
+    ]);
+  });
+
+  it('returns error for missing or recursive subflows', () => {
+    const missing = convertFlowV2ToV3(
+      createV2Flow({
+        nodes: [{ id: 'loop', type: 'foreach', config: { listVar: 'xs', subflowId: 'nope' } }],
+      }),
+    );
+    expect(missing.success).toBe(false);
+    expect(missing.errors[0]).toContain('missing subflow "nope"');
+
+    const recursive = convertFlowV2ToV3(
+      createV2Flow({
+        nodes: [{ id: 'loop', type: 'foreach', config: { listVar: 'xs', subflowId: 'sf' } }],
+        subflows: {
+          sf: {
+            nodes: [{ id: 'again', type: 'foreach', config: { listVar: 'ys', subflowId: 'sf' } }],
+            edges: [],
+          },
+        },
+      }),
+    );
+    expect(recursive.success).toBe(false);
+    expect(recursive.errors[0]).toContain('used recursively');
+  });
+});
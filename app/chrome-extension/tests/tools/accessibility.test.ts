@@ -0,0 +1,285 @@
+/**
+ * @fileoverview chrome_accessibility snapshot and audit
+ * @description
+ * Verifies the tool against a fake CDP DOM backed by the jsdom document:
+ * - Snapshots fold ignored, unnamed structural and redundant text nodes into their parents
+ * - Element nodes get read_page refs; the tag attributes never stay in the page
+ * - Tags the page script cannot see (closed shadow roots) or leaves behind are removed over CDP
+ * - Audits report AX rules (missing name, not focusable) and page rules
+ *   (contrast, positive tabindex, focusable inside aria-hidden)
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/utils/cdp-session-manager', () => ({
+  cdpSessionManager: {
+    withSession: vi.fn(),
+    sendCommand: vi.fn(),
+  },
+}));
+
+import { cdpSessionManager } from '@/utils/cdp-session-manager';
+import { accessibilityTool } from '@/entrypoints/background/tools/browser/accessibility';
+
+const TAB_ID = 5;
+const REF_ATTRIBUTE = 'data-mcp-axref';
+const ROOT_ATTRIBUTE = 'data-mcp-axroot';
+
+interface AXNodeInput {
+  id: string;
+  role: string;
+  name?: string;
+  children?: string[];
+  ignored?: boolean;
+  focusable?: boolean;
+  /** Element the node belongs to; its node id doubles as the backend id */
+  element?: Element;
+}
+
+/** Fake DOM agent: node ids and backend ids are the same numbers */
+let elements: Map<number, Element>;
+let axNodes: AXNodeInput[];
+let removed: Array<{ nodeId: number; name: string }>;
+let failLinkRefs: boolean;
+
+function nodeIdOf(el: Element): number {
+  for (const [id, candidate] of elements) if (candidate === el) return id;
+  const id = elements.size + 100;
+  elements.set(id, el);
+  return id;
+}
+
+function toAXTree() {
+  return axNodes.map((n) => ({
+    nodeId: n.id,
+    ignored: n.ignored ?? false,
+    role: { type: 'role', value: n.role },
+    ...(n.name !== undefined ? { name: { type: 'computedString', value: n.name } } : {}),
+    childIds: n.children ?? [],
+    ...(n.element ? { backendDOMNodeId: nodeIdOf(n.element) } : {}),
+    properties:
+      n.focusable !== undefined
+        ? [{ name: 'focusable', value: { type: 'boolean', value: n.focusable } }]
+        : [],
+  }));
+}
+
+function sendCommand(_tabId: number, method: string, params: any = {}): unknown {
+  switch (method) {
+    case 'DOM.getDocument':
+      return { root: { nodeId: 1 } };
+    case 'Accessibility.getFullAXTree':
+      return { nodes: toAXTree() };
+    case 'DOM.pushNodesByBackendIdsToFrontend':
+      return { nodeIds: params.backendNodeIds };
+    case 'DOM.setAttributeValue':
+      elements.get(params.nodeId)!.setAttribute(params.name, params.value);
+      return {};
+    case 'DOM.removeAttribute':
+      removed.push({ nodeId: params.nodeId, name: params.name });
+      elements.get(params.nodeId)?.removeAttribute(params.name);
+      return {};
+    case 'DOM.performSearch': {
+      const name = String(params.query).slice(1, -1);
+      const found = Array.from(elements).filter(([, el]) => el.hasAttribute(name));
+      searchResults = found.map(([id]) => id);
+      return { searchId: 's1', resultCount: found.length };
+    }
+    case 'DOM.getSearchResults':
+      return { nodeIds: searchResults };
+    case 'DOM.describeNode':
+      return { node: { backendNodeId: params.nodeId } };
+    default:
+      return {};
+  }
+}
+let searchResults: number[] = [];
+
+function parse(result: Awaited<ReturnType<typeof accessibilityTool.execute>>) {
+  return JSON.parse((result.content[0] as { text: string }).text);
+}
+
+function taggedElements(): Element[] {
+  return Array.from(document.querySelectorAll(`[${REF_ATTRIBUTE}], [${ROOT_ATTRIBUTE}]`));
+}
+
+describe('chrome_accessibility', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    elements = new Map([[1, document.documentElement]]);
+    axNodes = [];
+    removed = [];
+    failLinkRefs = false;
+    // The helper's ref map is what the page script writes to; nothing to inject here
+    vi.spyOn(accessibilityTool as any, 'injectContentScript').mockResolvedValue(undefined);
+    vi.mocked(cdpSessionManager.withSession).mockImplementation(async (_tabId, _key, fn) =>
+      (fn as () => Promise<unknown>)(),
+    );
+    vi.mocked(cdpSessionManager.sendCommand).mockImplementation(
+      async (tabId, method, params) => sendCommand(tabId, method, params) as any,
+    );
+    vi.mocked(chrome.tabs.get).mockResolvedValue({
+      id: TAB_ID,
+      url: 'https://example.com/',
+      title: 'Example',
+    } as chrome.tabs.Tab);
+    (chrome as unknown as { scripting: unknown }).scripting = {
+      executeScript: vi.fn(async (injection: any) => {
+        if (!injection.func) return [];
+        const [request] = injection.args;
+        if (request.mode === 'linkRefs' && failLinkRefs) {
+          return [{ result: { ok: false, error: 'page script blew up' } }];
+        }
+        return [{ result: injection.func(...injection.args) }];
+      }),
+    };
+  });
+
+  afterEach(() => {
+    delete (chrome as unknown as { scripting?: unknown }).scripting;
+  });
+
+  it('prunes the tree and links refs without leaving tags in the page', async () => {
+    document.body.innerHTML = '<div id="wrap"><button id="save">Save</button></div>';
+    axNodes = [
+      { id: 'root', role: 'RootWebArea', name: 'Example', children: ['wrap', 'hidden'] },
+      {
+        id: 'wrap',
+        role: 'generic',
+        children: ['save'],
+        element: document.getElementById('wrap')!,
+      },
+      {
+        id: 'save',
+        role: 'button',
+        name: 'Save',
+        focusable: true,
+        children: ['label'],
+        element: document.getElementById('save')!,
+      },
+      { id: 'label', role: 'StaticText', name: 'Save', children: ['box'] },
+      { id: 'box', role: 'InlineTextBox', name: 'Save' },
+      { id: 'hidden', role: 'button', name: 'Ghost', ignored: true },
+    ];
+
+    const result = parse(await accessibilityTool.execute({ tabId: TAB_ID }));
+
+    expect(result.nodeCount).toBe(2);
+    expect(result.tree).toMatch(/^- RootWebArea "Example"\n {2}- button "Save" \[ref=ref_\d+\]$/);
+    expect(result.refCount).toBe(1);
+    expect(taggedElements()).toEqual([]);
+  });
+
+  it('removes tags the page script cannot see over CDP', async () => {
+    const host = document.createElement('div');
+    document.body.append(host);
+    const shadow = host.attachShadow({ mode: 'closed' });
+    shadow.innerHTML = '<button>Inner</button>';
+    const inner = shadow.querySelector('button')!;
+    axNodes = [
+      { id: 'root', role: 'RootWebArea', name: 'Example', children: ['inner'] },
+      { id: 'inner', role: 'button', name: 'Inner', focusable: true, element: inner },
+    ];
+
+    const result = parse(await accessibilityTool.execute({ tabId: TAB_ID }));
+
+    expect(result.tree).toBe('- RootWebArea "Example"\n  - button "Inner"');
+    expect(inner.hasAttribute(REF_ATTRIBUTE)).toBe(false);
+    expect(removed).toEqual([{ nodeId: nodeIdOf(inner), name: REF_ATTRIBUTE }]);
+  });
+
+  it('removes every tag when the page script fails', async () => {
+    document.body.innerHTML = '<a id="a" href="#">A</a><a id="b" href="#">B</a>';
+    const [a, b] = [document.getElementById('a')!, document.getElementById('b')!];
+    axNodes = [
+      { id: 'root', role: 'RootWebArea', children: ['a', 'b'] },
+      { id: 'a', role: 'link', name: 'A', focusable: true, element: a },
+      { id: 'b', role: 'link', name: 'B', focusable: true, element: b },
+    ];
+    failLinkRefs = true;
+
+    const result = await accessibilityTool.execute({ tabId: TAB_ID });
+
+    expect(result.isError).toBe(true);
+    expect((result.content[0] as { text: string }).text).toContain('page script blew up');
+    expect(taggedElements()).toEqual([]);
+  });
+
+  it('starts at a subtree root and removes the root tag', async () => {
+    document.body.innerHTML = '<form id="form"><input id="q" /></form><button>Out</button>';
+    const form = document.getElementById('form')!;
+    nodeIdOf(form);
+    axNodes = [
+      { id: 'root', role: 'RootWebArea', children: ['form', 'out'] },
+      { id: 'form', role: 'form', name: 'Search', children: ['q'], element: form },
+      {
+        id: 'q',
+        role: 'textbox',
+        name: 'Query',
+        focusable: true,
+        element: document.getElementById('q')!,
+      },
+      { id: 'out', role: 'button', name: 'Out' },
+    ];
+
+    const result = parse(await accessibilityTool.execute({ tabId: TAB_ID, selector: '#form' }));
+
+    expect(result.tree).toMatch(/^- form "Search" \[ref=ref_\d+\]\n {2}- textbox "Query"/);
+    expect(result.tree).not.toContain('Out');
+    expect(removed).toContainEqual({ nodeId: nodeIdOf(form), name: ROOT_ATTRIBUTE });
+    expect(taggedElements()).toEqual([]);
+  });
+
+  it('audits names, keyboard access, contrast, tabindex and aria-hidden focusables', async () => {
+    document.body.innerHTML = `
+      <div role="button" id="icon"></div>
+      <p id="faint" style="color: rgb(170, 170, 170); background-color: rgb(255, 255, 255)">faint</p>
+      <input id="jump" tabindex="2" />
+      <div aria-hidden="true"><button aria-label="Hidden">Hidden</button></div>`;
+    vi.spyOn(Element.prototype, 'getBoundingClientRect').mockReturnValue({
+      top: 0,
+      bottom: 20,
+      left: 0,
+      right: 100,
+      width: 100,
+      height: 20,
+      x: 0,
+      y: 0,
+      toJSON: () => ({}),
+    });
+    axNodes = [
+      { id: 'root', role: 'RootWebArea', name: 'Example', children: ['icon'] },
+      { id: 'icon', role: 'button', focusable: false, element: document.getElementById('icon')! },
+    ];
+
+    const result = parse(await accessibilityTool.execute({ action: 'audit', tabId: TAB_ID }));
+
+    const byRule = (rule: string) => result.issues.filter((i: { rule: string }) => i.rule === rule);
+    expect(result.summary.byRule).toEqual({
+      'missing-name': 1,
+      'not-focusable': 1,
+      contrast: 1,
+      'positive-tabindex': 1,
+      'hidden-focusable': 1,
+    });
+    expect(byRule('missing-name')[0]).toMatchObject({ severity: 'error', role: 'button' });
+    expect(byRule('missing-name')[0].ref).toMatch(/^ref_\d+$/);
+    expect(byRule('contrast')[0]).toMatchObject({
+      details: { required: 4.5, foreground: '#aaaaaa', background: '#ffffff' },
+    });
+    expect(byRule('positive-tabindex')[0].details).toEqual({ tabIndex: 2 });
+    expect(byRule('hidden-focusable')[0].name).toBe('Hidden');
+    expect(taggedElements()).toEqual([]);
+  });
+
+  it('rejects unknown audit checks', async () => {
+    const result = await accessibilityTool.execute({
+      action: 'audit',
+      tabId: TAB_ID,
+      checks: ['colors' as never],
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result.content[0] as { text: string }).text).toContain('Unknown check "colors"');
+  });
+});
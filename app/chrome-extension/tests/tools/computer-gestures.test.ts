@@ -0,0 +1,381 @@
+/**
+ * @fileoverview chrome_computer touch and pen gestures
+ * @description
+ * Verifies the CDP input events each gesture sends:
+ * - tap / long_press press and lift in place; long_press holds for `duration`
+ * - swipe and touch_gesture interpolate every stroke in ~16ms frames and lift all fingers at once
+ * - Pen input is sent as pen-typed mouse events
+ * - pinch synthesizes a pinch around the resolved center
+ * - Durations are clamped, refs resolve to viewport centers, bad parameters never reach CDP
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/utils/cdp-session-manager', () => ({
+  cdpSessionManager: {
+    attach: vi.fn(),
+    detach: vi.fn(),
+    sendCommand: vi.fn(),
+  },
+}));
+
+import { cdpSessionManager } from '@/utils/cdp-session-manager';
+import { screenshotContextManager } from '@/utils/screenshot-context';
+import { computerTool } from '@/entrypoints/background/tools/browser/computer';
+
+const TAB_ID = 21;
+
+type Point = { x: number; y: number };
+
+function parse(result: Awaited<ReturnType<typeof computerTool.execute>>) {
+  return JSON.parse((result.content[0] as { text: string }).text);
+}
+
+function errorText(result: Awaited<ReturnType<typeof computerTool.execute>>): string {
+  expect(result.isError).toBe(true);
+  return (result.content[0] as { text: string }).text;
+}
+
+/** Run a gesture to completion, letting its frame and hold sleeps elapse */
+async function run(params: Record<string, unknown>) {
+  const pending = computerTool.execute({ tabId: TAB_ID, ...params } as any);
+  await vi.runAllTimersAsync();
+  return pending;
+}
+
+/** Input.dispatchTouchEvent calls as [type, points] */
+function touchEvents(): Array<[string, Array<Point & { id: number }>]> {
+  return vi
+    .mocked(cdpSessionManager.sendCommand)
+    .mock.calls.filter(([, method]) => method === 'Input.dispatchTouchEvent')
+    .map(([, , params]) => {
+      const { type, touchPoints } = params as { type: string; touchPoints: any[] };
+      return [type, touchPoints];
+    });
+}
+
+function sentMethods(): string[] {
+  return vi.mocked(cdpSessionManager.sendCommand).mock.calls.map(([, method]) => method);
+}
+
+describe('chrome_computer gestures', () => {
+  let sendMessageToTab: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(cdpSessionManager.attach).mockResolvedValue(undefined);
+    vi.mocked(cdpSessionManager.detach).mockResolvedValue(undefined);
+    vi.mocked(cdpSessionManager.sendCommand).mockResolvedValue({});
+    vi.mocked(chrome.tabs.get).mockResolvedValue({
+      id: TAB_ID,
+      url: 'https://example.com/app',
+    } as chrome.tabs.Tab);
+    vi.spyOn(computerTool as any, 'injectContentScript').mockResolvedValue(undefined);
+    sendMessageToTab = vi.spyOn(computerTool as any, 'sendMessageToTab');
+    screenshotContextManager.clear(TAB_ID);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('tap and long_press', () => {
+    it('taps in place with one finger', async () => {
+      const result = parse(await run({ action: 'tap', coordinates: { x: 100.4, y: 200.6 } }));
+
+      expect(result).toEqual({
+        success: true,
+        action: 'tap',
+        pointerType: 'touch',
+        coordinates: { x: 100.4, y: 200.6 },
+      });
+      expect(touchEvents()).toEqual([
+        ['touchStart', [{ x: 100, y: 201, id: 0 }]],
+        ['touchEnd', []],
+      ]);
+      expect(cdpSessionManager.attach).toHaveBeenCalledWith(TAB_ID, 'computer');
+      expect(cdpSessionManager.detach).toHaveBeenCalledWith(TAB_ID, 'computer');
+    });
+
+    it('holds a long press for the default 800ms', async () => {
+      const pending = computerTool.execute({
+        tabId: TAB_ID,
+        action: 'long_press',
+        coordinates: { x: 5, y: 5 },
+      } as any);
+      await vi.advanceTimersByTimeAsync(799);
+      expect(touchEvents().map(([type]) => type)).toEqual(['touchStart']);
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect(parse(await pending).holdMs).toBe(800);
+      expect(touchEvents()).toEqual([
+        ['touchStart', [{ x: 5, y: 5, id: 0 }]],
+        ['touchEnd', []],
+      ]);
+    });
+
+    it.each([
+      [1.5, 1500],
+      [0, 0],
+      [-2, 800],
+      [60, 10000],
+    ])('turns duration %s into a %sms hold', async (duration, holdMs) => {
+      const result = parse(
+        await run({ action: 'long_press', coordinates: { x: 5, y: 5 }, duration }),
+      );
+
+      // A zero hold is left out of the result
+      expect(result.holdMs ?? 0).toBe(holdMs);
+    });
+
+    it('presses with a pen as pen-typed mouse events', async () => {
+      await run({ action: 'tap', coordinates: { x: 10, y: 20 }, pointerType: 'pen' });
+
+      expect(touchEvents()).toEqual([]);
+      const mouse = vi
+        .mocked(cdpSessionManager.sendCommand)
+        .mock.calls.map(([, , params]) => params as Record<string, unknown>);
+      expect(mouse).toEqual([
+        expect.objectContaining({ type: 'mouseMoved', pointerType: 'pen', buttons: 0 }),
+        expect.objectContaining({
+          type: 'mousePressed',
+          pointerType: 'pen',
+          buttons: 1,
+          force: 0.5,
+        }),
+        expect.objectContaining({ type: 'mouseReleased', pointerType: 'pen', buttons: 0 }),
+      ]);
+      expect(mouse.every((p) => p.x === 10 && p.y === 20)).toBe(true);
+    });
+  });
+
+  describe('swipe and touch_gesture', () => {
+    it('interpolates a swipe in 16ms frames', async () => {
+      const result = parse(
+        await run({
+          action: 'swipe',
+          startCoordinates: { x: 0, y: 0 },
+          coordinates: { x: 48, y: 96 },
+          duration: 0.048,
+        }),
+      );
+
+      expect(result).toMatchObject({
+        start: { x: 0, y: 0 },
+        end: { x: 48, y: 96 },
+        durationMs: 48,
+      });
+      expect(touchEvents()).toEqual([
+        ['touchStart', [{ x: 0, y: 0, id: 0 }]],
+        ['touchMove', [{ x: 16, y: 32, id: 0 }]],
+        ['touchMove', [{ x: 32, y: 64, id: 0 }]],
+        ['touchMove', [{ x: 48, y: 96, id: 0 }]],
+        ['touchEnd', []],
+      ]);
+    });
+
+    it('spaces the frames over the duration', async () => {
+      const pending = computerTool.execute({
+        tabId: TAB_ID,
+        action: 'swipe',
+        startCoordinates: { x: 0, y: 0 },
+        coordinates: { x: 0, y: 100 },
+        duration: 0.032,
+      } as any);
+      await vi.advanceTimersByTimeAsync(15);
+      expect(touchEvents().map(([type]) => type)).toEqual(['touchStart']);
+      await vi.advanceTimersByTimeAsync(17);
+
+      await pending;
+      expect(touchEvents().map(([type]) => type)).toEqual([
+        'touchStart',
+        'touchMove',
+        'touchMove',
+        'touchEnd',
+      ]);
+    });
+
+    it('moves both fingers of a pinch-out together, one id per finger', async () => {
+      const result = parse(
+        await run({
+          action: 'touch_gesture',
+          duration: 0.032,
+          touches: [
+            { start: { x: 100, y: 100 }, end: { x: 50, y: 100 } },
+            { start: { x: 120, y: 100 }, end: { x: 170, y: 100 } },
+            { start: { x: 110, y: 300 } },
+          ],
+        }),
+      );
+
+      expect(result.durationMs).toBe(32);
+      expect(touchEvents()).toEqual([
+        [
+          'touchStart',
+          [
+            { x: 100, y: 100, id: 0 },
+            { x: 120, y: 100, id: 1 },
+            { x: 110, y: 300, id: 2 },
+          ],
+        ],
+        [
+          'touchMove',
+          [
+            { x: 75, y: 100, id: 0 },
+            { x: 145, y: 100, id: 1 },
+            { x: 110, y: 300, id: 2 },
+          ],
+        ],
+        [
+          'touchMove',
+          [
+            { x: 50, y: 100, id: 0 },
+            { x: 170, y: 100, id: 1 },
+            { x: 110, y: 300, id: 2 },
+          ],
+        ],
+        ['touchEnd', []],
+      ]);
+    });
+
+    it('caps a gesture at 10 seconds', async () => {
+      const result = parse(
+        await run({
+          action: 'touch_gesture',
+          duration: 3600,
+          touches: [{ start: { x: 0, y: 0 }, end: { x: 0, y: 625 } }],
+        }),
+      );
+
+      expect(result.durationMs).toBe(10000);
+      // 10000ms / 16ms frames
+      expect(touchEvents().filter(([type]) => type === 'touchMove')).toHaveLength(625);
+    });
+
+    it('starts a stroke at the center of its ref', async () => {
+      sendMessageToTab.mockResolvedValue({ success: true, center: { x: 40, y: 60 } });
+
+      await run({
+        action: 'touch_gesture',
+        duration: 0.016,
+        touches: [{ ref: 'ref_3', end: { x: 40, y: 0 } }],
+      });
+
+      expect(sendMessageToTab).toHaveBeenCalledWith(TAB_ID, { action: 'resolveRef', ref: 'ref_3' });
+      expect(touchEvents()).toEqual([
+        ['touchStart', [{ x: 40, y: 60, id: 0 }]],
+        ['touchMove', [{ x: 40, y: 0, id: 0 }]],
+        ['touchEnd', []],
+      ]);
+    });
+  });
+
+  describe('pinch', () => {
+    it('synthesizes a pinch around the coordinates', async () => {
+      const result = parse(
+        await run({ action: 'pinch', coordinates: { x: 200.2, y: 300 }, scaleFactor: 0.5 }),
+      );
+
+      expect(result).toMatchObject({ action: 'pinch', scaleFactor: 0.5 });
+      expect(cdpSessionManager.sendCommand).toHaveBeenCalledWith(
+        TAB_ID,
+        'Input.synthesizePinchGesture',
+        { x: 200, y: 300, scaleFactor: 0.5, gestureSourceType: 'touch' },
+      );
+    });
+
+    it('pinches around a ref', async () => {
+      sendMessageToTab.mockResolvedValue({ success: true, center: { x: 12, y: 34 } });
+
+      await run({ action: 'pinch', ref: 'ref_9', scaleFactor: 2 });
+
+      expect(cdpSessionManager.sendCommand).toHaveBeenCalledWith(
+        TAB_ID,
+        'Input.synthesizePinchGesture',
+        expect.objectContaining({ x: 12, y: 34, scaleFactor: 2 }),
+      );
+    });
+  });
+
+  describe('coordinates', () => {
+    it('projects screenshot coordinates into the viewport', async () => {
+      screenshotContextManager.setContext(TAB_ID, {
+        screenshotWidth: 500,
+        screenshotHeight: 400,
+        viewportWidth: 1000,
+        viewportHeight: 800,
+        hostname: 'example.com',
+      });
+
+      await run({ action: 'tap', coordinates: { x: 10, y: 20 } });
+
+      expect(touchEvents()[0]).toEqual(['touchStart', [{ x: 20, y: 40, id: 0 }]]);
+    });
+
+    it('refuses screenshot coordinates from another site', async () => {
+      screenshotContextManager.setContext(TAB_ID, {
+        screenshotWidth: 500,
+        screenshotHeight: 400,
+        viewportWidth: 1000,
+        viewportHeight: 800,
+        hostname: 'bank.test',
+      });
+
+      const text = errorText(
+        await run({
+          action: 'swipe',
+          startCoordinates: { x: 0, y: 0 },
+          coordinates: { x: 9, y: 9 },
+        }),
+      );
+
+      expect(text).toContain('Domain changed since last screenshot');
+      expect(text).toContain('during swipe');
+      expect(sentMethods()).toEqual([]);
+    });
+
+    it('reports an expired ref', async () => {
+      sendMessageToTab.mockResolvedValue({ success: false });
+
+      const text = errorText(await run({ action: 'tap', ref: 'ref_404' }));
+
+      expect(text).toContain('ref "ref_404" not found or expired');
+      expect(sentMethods()).toEqual([]);
+    });
+  });
+
+  describe('validation', () => {
+    it.each([
+      [{ action: 'tap' }, 'Provide ref or coordinates for tap'],
+      [{ action: 'long_press' }, 'Provide ref or coordinates for long_press'],
+      [
+        { action: 'swipe', coordinates: { x: 1, y: 1 } },
+        'Provide startRef or startCoordinates and ref or coordinates for swipe',
+      ],
+      [{ action: 'pinch', coordinates: { x: 1, y: 1 } }, 'scaleFactor (> 0) is required for pinch'],
+      [
+        { action: 'pinch', coordinates: { x: 1, y: 1 }, scaleFactor: -1 },
+        'scaleFactor (> 0) is required for pinch',
+      ],
+      [{ action: 'pinch', scaleFactor: 2 }, 'Provide ref or coordinates for pinch'],
+      [{ action: 'touch_gesture' }, 'touches must list 1-5 strokes'],
+      [
+        { action: 'touch_gesture', touches: Array(6).fill({ start: { x: 0, y: 0 } }) },
+        'touches must list 1-5 strokes',
+      ],
+      [
+        { action: 'touch_gesture', touches: [{ end: { x: 1, y: 1 } }] },
+        'Each touch needs ref or start {x, y} and optionally end {x, y}',
+      ],
+      [
+        { action: 'touch_gesture', touches: [{ start: { x: 0, y: 0 }, end: { x: 'a', y: 1 } }] },
+        'Each touch needs ref or start {x, y} and optionally end {x, y}',
+      ],
+    ])('rejects %j', async (params, message) => {
+      const text = errorText(await run(params));
+
+      expect(text).toContain(message);
+      expect(cdpSessionManager.attach).not.toHaveBeenCalled();
+    });
+  });
+});
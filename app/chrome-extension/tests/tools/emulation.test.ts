@@ -0,0 +1,128 @@
+/**
+ * @fileoverview chrome_emulate presets
+ * @description
+ * Verifies device and network presets against the CDP commands they send:
+ * - A device preset sets its viewport, user agent and touch emulation
+ * - Network presets convert kbps to bytes per second; offline blocks the network
+ * - Unknown presets are rejected without attaching the debugger
+ * - Resetting the last override releases the debugger session
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/utils/cdp-session-manager', () => ({
+  cdpSessionManager: {
+    attach: vi.fn(),
+    detach: vi.fn(),
+    sendCommand: vi.fn(),
+  },
+}));
+
+import { cdpSessionManager } from '@/utils/cdp-session-manager';
+import {
+  DEVICE_PRESETS,
+  NETWORK_PRESETS,
+  emulationTool,
+} from '@/entrypoints/background/tools/browser/emulation';
+
+const TAB_ID = 7;
+
+function parse(result: Awaited<ReturnType<typeof emulationTool.execute>>) {
+  return JSON.parse((result.content[0] as { text: string }).text);
+}
+
+function commands(): Array<[string, unknown]> {
+  return vi
+    .mocked(cdpSessionManager.sendCommand)
+    .mock.calls.map(([, method, params]) => [method, params]);
+}
+
+describe('chrome_emulate presets', () => {
+  beforeEach(async () => {
+    vi.mocked(cdpSessionManager.attach).mockReset().mockResolvedValue(undefined);
+    vi.mocked(cdpSessionManager.detach).mockReset().mockResolvedValue(undefined);
+    vi.mocked(cdpSessionManager.sendCommand).mockReset().mockResolvedValue({});
+    vi.mocked(chrome.tabs.get).mockResolvedValue({ id: TAB_ID } as chrome.tabs.Tab);
+    // Drop overrides left by the previous test
+    await emulationTool.execute({ action: 'reset', tabId: TAB_ID });
+    vi.mocked(cdpSessionManager.sendCommand).mockClear();
+    vi.mocked(cdpSessionManager.attach).mockClear();
+    vi.mocked(cdpSessionManager.detach).mockClear();
+  });
+
+  it('lists every device and network preset', async () => {
+    const result = parse(await emulationTool.execute({ action: 'list_devices' }));
+
+    expect(result.devices.map((d: { id: string }) => d.id)).toEqual(Object.keys(DEVICE_PRESETS));
+    expect(result.devices[0]).toMatchObject({ id: 'iphone-15', width: 393, touch: true });
+    expect(result.networkPresets).toEqual(Object.keys(NETWORK_PRESETS));
+  });
+
+  it('applies the viewport, user agent and touch of a device preset', async () => {
+    const preset = DEVICE_PRESETS['iphone-15'];
+    const result = await emulationTool.execute({
+      action: 'set',
+      tabId: TAB_ID,
+      device: 'iphone-15',
+    });
+
+    expect(result.isError).toBe(false);
+    expect(parse(result)).toMatchObject({ active: true, device: 'iphone-15' });
+    expect(cdpSessionManager.attach).toHaveBeenCalledWith(TAB_ID, 'emulation');
+    expect(commands()).toEqual([
+      [
+        'Emulation.setDeviceMetricsOverride',
+        { ...preset.viewport, screenWidth: 393, screenHeight: 852 },
+      ],
+      ['Emulation.setUserAgentOverride', { userAgent: preset.userAgent }],
+      ['Emulation.setTouchEmulationEnabled', { enabled: true, maxTouchPoints: 5 }],
+    ]);
+  });
+
+  it('clears the user agent and touch for desktop presets', async () => {
+    await emulationTool.execute({ action: 'set', tabId: TAB_ID, device: 'desktop' });
+
+    expect(commands()).toContainEqual(['Emulation.setUserAgentOverride', { userAgent: '' }]);
+    expect(commands()).toContainEqual(['Emulation.setTouchEmulationEnabled', { enabled: false }]);
+  });
+
+  it('converts network preset throughput from kbps to bytes per second', async () => {
+    await emulationTool.execute({ action: 'set', tabId: TAB_ID, network: 'slow-3g' });
+
+    expect(commands()).toEqual([
+      ['Network.enable', undefined],
+      [
+        'Network.emulateNetworkConditions',
+        { offline: false, latency: 2000, downloadThroughput: 50_000, uploadThroughput: 50_000 },
+      ],
+    ]);
+  });
+
+  it('goes offline with the offline preset', async () => {
+    await emulationTool.execute({ action: 'set', tabId: TAB_ID, network: 'offline' });
+
+    expect(commands()).toContainEqual([
+      'Network.emulateNetworkConditions',
+      { offline: true, latency: 0, downloadThroughput: 0, uploadThroughput: 0 },
+    ]);
+  });
+
+  it('rejects unknown presets before attaching', async () => {
+    const device = await emulationTool.execute({ action: 'set', tabId: TAB_ID, device: 'nokia' });
+    const network = await emulationTool.execute({ action: 'set', tabId: TAB_ID, network: '5g' });
+
+    expect(device.isError).toBe(true);
+    expect((device.content[0] as { text: string }).text).toContain('Unknown device "nokia"');
+    expect(network.isError).toBe(true);
+    expect((network.content[0] as { text: string }).text).toContain('Unknown network preset "5g"');
+    expect(cdpSessionManager.attach).not.toHaveBeenCalled();
+  });
+
+  it('releases the session once the last override is reset', async () => {
+    await emulationTool.execute({ action: 'set', tabId: TAB_ID, device: 'pixel-8' });
+    const result = parse(await emulationTool.execute({ action: 'reset', tabId: TAB_ID }));
+
+    expect(result).toMatchObject({ active: false, device: null, overrides: {} });
+    expect(cdpSessionManager.detach).toHaveBeenCalledWith(TAB_ID, 'emulation');
+  });
+});
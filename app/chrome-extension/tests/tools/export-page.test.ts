@@ -0,0 +1,200 @@
+/**
+ * @fileoverview chrome_export_page print options and saving
+ * @description
+ * Verifies the PDF options sent to Page.printToPDF and how the file is saved:
+ * - Paper formats, explicit sizes, margins, scale and page ranges are passed through in inches
+ * - Invalid paper formats, sizes, margins and scales fail before the debugger is used
+ * - The saved path comes from the download id, also when Chrome reports it later
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/utils/cdp-session-manager', () => ({
+  cdpSessionManager: {
+    withSession: vi.fn(),
+    sendCommand: vi.fn(),
+  },
+}));
+
+import { cdpSessionManager } from '@/utils/cdp-session-manager';
+import { exportPageTool } from '@/entrypoints/background/tools/browser/export-page';
+
+const TAB_ID = 9;
+
+function parse(result: Awaited<ReturnType<typeof exportPageTool.execute>>) {
+  return JSON.parse((result.content[0] as { text: string }).text);
+}
+
+function errorText(result: Awaited<ReturnType<typeof exportPageTool.execute>>): string {
+  expect(result.isError).toBe(true);
+  return (result.content[0] as { text: string }).text;
+}
+
+function printOptions(): Record<string, unknown> {
+  const call = vi
+    .mocked(cdpSessionManager.sendCommand)
+    .mock.calls.find(([, method]) => method === 'Page.printToPDF');
+  return call![2] as Record<string, unknown>;
+}
+
+/** Inline-only export: no downloads involved */
+function exportPdf(params: Record<string, unknown>) {
+  return exportPageTool.execute({ tabId: TAB_ID, saveFile: false, storeBase64: true, ...params });
+}
+
+let onChanged: Array<(delta: chrome.downloads.DownloadDelta) => void>;
+let downloadsApi: {
+  download: ReturnType<typeof vi.fn>;
+  search: ReturnType<typeof vi.fn>;
+  onChanged: { addListener: ReturnType<typeof vi.fn>; removeListener: ReturnType<typeof vi.fn> };
+};
+
+describe('chrome_export_page', () => {
+  beforeEach(() => {
+    vi.mocked(cdpSessionManager.withSession).mockImplementation(async (_tabId, _key, fn) =>
+      (fn as () => Promise<unknown>)(),
+    );
+    vi.mocked(cdpSessionManager.sendCommand).mockResolvedValue({ data: btoa('%PDF-1.7') });
+    vi.mocked(chrome.tabs.get).mockResolvedValue({
+      id: TAB_ID,
+      url: 'https://example.com/report',
+      title: 'Report',
+    } as chrome.tabs.Tab);
+
+    onChanged = [];
+    downloadsApi = {
+      download: vi.fn(async () => 17),
+      search: vi.fn(async () => [{ id: 17, filename: '' }]),
+      onChanged: {
+        addListener: vi.fn((listener) => onChanged.push(listener)),
+        removeListener: vi.fn((listener) => {
+          onChanged = onChanged.filter((l) => l !== listener);
+        }),
+      },
+    };
+    (chrome as unknown as { downloads: unknown }).downloads = downloadsApi;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete (chrome as unknown as { downloads?: unknown }).downloads;
+  });
+
+  describe('print options', () => {
+    it('uses letter paper and 0.4in margins by default', async () => {
+      const result = parse(await exportPdf({}));
+
+      expect(result).toMatchObject({ success: true, format: 'pdf', bytes: 8 });
+      expect(printOptions()).toEqual({
+        landscape: false,
+        printBackground: true,
+        scale: 1,
+        paperWidth: 8.5,
+        paperHeight: 11,
+        marginTop: 0.4,
+        marginRight: 0.4,
+        marginBottom: 0.4,
+        marginLeft: 0.4,
+        displayHeaderFooter: false,
+        preferCSSPageSize: false,
+      });
+    });
+
+    it('passes paper format, margins, ranges and templates through', async () => {
+      await exportPdf({
+        paperFormat: 'A4',
+        paperHeight: 12,
+        margins: { top: 0, left: 1 },
+        pageRanges: '1-3, 5',
+        footerTemplate: '<span class="pageNumber"></span>',
+        scale: 0.5,
+      });
+
+      expect(printOptions()).toMatchObject({
+        paperWidth: 8.27,
+        paperHeight: 12,
+        marginTop: 0,
+        marginRight: 0.4,
+        marginLeft: 1,
+        scale: 0.5,
+        pageRanges: '1-3, 5',
+        displayHeaderFooter: true,
+        headerTemplate: '<span></span>',
+        footerTemplate: '<span class="pageNumber"></span>',
+      });
+    });
+
+    it.each([
+      [{ paperFormat: 'b5' }, 'Unknown paperFormat "b5". Use: letter, legal, tabloid, a3, a4, a5'],
+      [{ paperWidth: 0 }, 'paperWidth and paperHeight must be positive (inches)'],
+      [{ paperHeight: Number.NaN }, 'paperWidth and paperHeight must be positive (inches)'],
+      [{ scale: 3 }, 'scale must be between 0.1 and 2'],
+      [{ scale: 0.05 }, 'scale must be between 0.1 and 2'],
+      [{ margins: { bottom: -1 } }, 'margins.bottom must be a non-negative number (inches)'],
+      [{ margins: { right: '1in' } }, 'margins.right must be a non-negative number (inches)'],
+    ])('rejects %j', async (params, message) => {
+      const text = errorText(await exportPdf(params));
+
+      expect(text).toContain(message);
+      expect(cdpSessionManager.withSession).not.toHaveBeenCalled();
+    });
+
+    it('ignores print options for MHTML', async () => {
+      vi.mocked(cdpSessionManager.sendCommand).mockResolvedValue({ data: 'MIME-Version: 1.0' });
+
+      const result = parse(await exportPdf({ format: 'mhtml', paperFormat: 'b5' }));
+
+      expect(result).toMatchObject({ success: true, format: 'mhtml' });
+      expect(cdpSessionManager.sendCommand).toHaveBeenCalledWith(TAB_ID, 'Page.captureSnapshot', {
+        format: 'mhtml',
+      });
+    });
+  });
+
+  describe('saving', () => {
+    it('reports the path Chrome picks after the download starts', async () => {
+      const pending = exportPageTool.execute({ tabId: TAB_ID, name: 'q3 report' });
+      await vi.waitFor(() => expect(onChanged).toHaveLength(1));
+      onChanged[0]({ id: 99, filename: { current: '/tmp/other.pdf' } });
+      onChanged[0]({ id: 17, filename: { current: '/home/u/Downloads/q3_report.pdf' } });
+
+      const result = parse(await pending);
+
+      expect(downloadsApi.download).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: expect.stringMatching(/^data:application\/pdf;base64,/),
+          filename: expect.stringMatching(/^q3_report_.+\.pdf$/),
+        }),
+      );
+      expect(result).toMatchObject({
+        fileSaved: true,
+        downloadId: 17,
+        fullPath: '/home/u/Downloads/q3_report.pdf',
+      });
+      expect(onChanged).toHaveLength(0);
+    });
+
+    it('uses the path that is already known', async () => {
+      downloadsApi.search.mockResolvedValue([{ id: 17, filename: '/dl/page.pdf' }]);
+
+      const result = parse(await exportPageTool.execute({ tabId: TAB_ID }));
+
+      expect(downloadsApi.search).toHaveBeenCalledWith({ id: 17 });
+      expect(result.fullPath).toBe('/dl/page.pdf');
+      expect(onChanged).toHaveLength(0);
+    });
+
+    it('saves without a path when Chrome never reports one', async () => {
+      vi.useFakeTimers();
+
+      const pending = exportPageTool.execute({ tabId: TAB_ID });
+      await vi.waitFor(() => expect(onChanged).toHaveLength(1));
+      await vi.advanceTimersByTimeAsync(2000);
+      const result = parse(await pending);
+
+      expect(result).toMatchObject({ fileSaved: true, downloadId: 17 });
+      expect(result.fullPath).toBeUndefined();
+      expect(onChanged).toHaveLength(0);
+    });
+  });
+});
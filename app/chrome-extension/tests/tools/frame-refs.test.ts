@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Frame-aware element refs
+ * @description
+ * Verifies how refs from child frames are encoded and routed back:
+ * - Child-frame refs carry `f<frameId>:`; main-frame and already encoded refs are unchanged
+ * - Accessibility tree text gets its refs prefixed and its coordinates shifted
+ * - Messages are routed to the frame their refs belong to; mixed frames are rejected
+ * - The frame inventory is in document order and flags cross-origin frames
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  decodeFrameRef,
+  encodeFrameRef,
+  encodeFrameRefsInText,
+  listFrames,
+  routeFrameRefs,
+  shiftCoordinatesInText,
+} from '@/entrypoints/background/tools/frame-refs';
+
+describe('frame refs', () => {
+  it('encodes child-frame refs and leaves main-frame refs alone', () => {
+    expect(encodeFrameRef('ref_3', 12)).toBe('f12:ref_3');
+    expect(encodeFrameRef('ref_3', 0)).toBe('ref_3');
+    expect(encodeFrameRef('ref_3', undefined)).toBe('ref_3');
+    expect(encodeFrameRef('f4:ref_3', 12)).toBe('f4:ref_3');
+  });
+
+  it('decodes refs with and without a frame prefix', () => {
+    expect(decodeFrameRef('f12:ref_3')).toEqual({ ref: 'ref_3', frameId: 12 });
+    expect(decodeFrameRef('ref_3')).toEqual({ ref: 'ref_3' });
+    expect(decodeFrameRef('fx:ref_3')).toEqual({ ref: 'fx:ref_3' });
+  });
+
+  it('prefixes every ref in accessibility tree text', () => {
+    const text = '- button "OK" [ref=ref_1] (x=10,y=20)\n- link [ref=f3:ref_2]';
+
+    expect(encodeFrameRefsInText(text, 7)).toBe(
+      '- button "OK" [ref=f7:ref_1] (x=10,y=20)\n- link [ref=f3:ref_2]',
+    );
+    expect(encodeFrameRefsInText(text, 0)).toBe(text);
+  });
+
+  it('shifts coordinates in accessibility tree text by the frame offset', () => {
+    const text = '- button [ref=ref_1] (x=10,y=20)\n- input [ref=ref_2] (x=-5,y=0)';
+
+    expect(shiftCoordinatesInText(text, 100, 40.6)).toBe(
+      '- button [ref=ref_1] (x=110,y=61)\n- input [ref=ref_2] (x=95,y=41)',
+    );
+    expect(shiftCoordinatesInText(text, 0, 0)).toBe(text);
+  });
+});
+
+describe('routeFrameRefs', () => {
+  it('routes a message to the frame of its refs and strips the prefixes', () => {
+    const message = { action: 'drag', startRef: 'f5:ref_1', ref: 'f5:ref_9', text: 'f5:ref_1' };
+
+    expect(routeFrameRefs(message)).toEqual({
+      message: { action: 'drag', startRef: 'ref_1', ref: 'ref_9', text: 'f5:ref_1' },
+      frameId: 5,
+    });
+    expect(message.ref).toBe('f5:ref_9');
+  });
+
+  it('keeps unprefixed messages and the explicit frame as they are', () => {
+    const message = { refId: 'ref_1' };
+
+    const routed = routeFrameRefs(message, 2);
+    expect(routed.message).toBe(message);
+    expect(routed.frameId).toBe(2);
+    expect(routeFrameRefs(message).frameId).toBeUndefined();
+  });
+
+  it('accepts an explicit frame that agrees with the refs', () => {
+    expect(routeFrameRefs({ ref: 'f5:ref_1' }, 5)).toEqual({
+      message: { ref: 'ref_1' },
+      frameId: 5,
+    });
+  });
+
+  it('rejects refs that point at different frames', () => {
+    expect(() => routeFrameRefs({ ref: 'f5:ref_1' }, 6)).toThrow(
+      'ref "f5:ref_1" belongs to frame 5, but the call targets frame 6',
+    );
+    expect(() => routeFrameRefs({ startRef: 'f5:ref_1', ref: 'f6:ref_2' })).toThrow(
+      'startRef "f5:ref_1" belongs to frame 5, but the call targets frame 6',
+    );
+  });
+});
+
+describe('listFrames', () => {
+  type WebNavigationWithFrames = { getAllFrames?: ReturnType<typeof vi.fn> };
+
+  afterEach(() => {
+    // The shared chrome mock has no getAllFrames; do not leak this one into other tests
+    delete (chrome.webNavigation as unknown as WebNavigationWithFrames).getAllFrames;
+  });
+
+  it('lists live frames parents first and flags cross-origin ones', async () => {
+    const getAllFrames = vi.fn().mockResolvedValue([
+      { frameId: 3, parentFrameId: 1, url: 'about:blank' },
+      { frameId: 1, parentFrameId: 0, url: 'https://ads.test/frame' },
+      { frameId: 0, parentFrameId: -1, url: 'https://a.test/' },
+      { frameId: 2, parentFrameId: 0, url: 'https://a.test/embed' },
+      { frameId: 4, parentFrameId: 0, url: 'https://b.test/', errorOccurred: true },
+    ]);
+    (chrome.webNavigation as unknown as WebNavigationWithFrames).getAllFrames = getAllFrames;
+
+    expect(await listFrames(9)).toEqual([
+      { frameId: 0, parentFrameId: -1, url: 'https://a.test/', crossOrigin: false, depth: 0 },
+      {
+        frameId: 1,
+        parentFrameId: 0,
+        url: 'https://ads.test/frame',
+        crossOrigin: true,
+        depth: 1,
+      },
+      { frameId: 3, parentFrameId: 1, url: 'about:blank', crossOrigin: false, depth: 2 },
+      { frameId: 2, parentFrameId: 0, url: 'https://a.test/embed', crossOrigin: false, depth: 1 },
+    ]);
+    expect(getAllFrames).toHaveBeenCalledWith({ tabId: 9 });
+  });
+});
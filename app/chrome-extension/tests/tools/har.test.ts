@@ -0,0 +1,288 @@
+/**
+ * @fileoverview HAR export and replay
+ * @description
+ * Verifies the HAR helpers shared by the network capture and intercept tools:
+ * - Entries merge common and per-request headers and carry query, post data and body size
+ * - Debugger ResourceTiming becomes HAR phases; webRequest captures only know wait/receive
+ * - Truncated bodies are left out of the HAR with a comment and never replayed
+ * - Replay skips entries without a response and drops encoding headers
+ * - Replay matching falls back to ignoring the query and walks repeated entries in order
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  buildHar,
+  findHarEntry,
+  parseHarForReplay,
+  utf8ToBase64,
+  type HarReplayEntry,
+} from '@/entrypoints/background/tools/browser/har';
+
+const STARTED = Date.UTC(2026, 0, 2, 3, 4, 5);
+
+function replayEntry(method: string, url: string, body = ''): HarReplayEntry {
+  return { method, url, status: 200, headers: [], body };
+}
+
+describe('buildHar', () => {
+  it('builds an entry from a webRequest capture', () => {
+    const har = buildHar({
+      tabUrl: 'https://a.test/',
+      tabTitle: 'A',
+      captureStartTime: STARTED,
+      commonRequestHeaders: { 'User-Agent': 'ua' },
+      commonResponseHeaders: { 'Content-Type': 'application/json' },
+      requests: [
+        {
+          url: 'https://a.test/api?q=1&page=2',
+          method: 'POST',
+          type: 'xmlhttprequest',
+          requestTime: STARTED + 10,
+          responseTime: STARTED + 60,
+          completedTime: STARTED + 75,
+          statusCode: 201,
+          statusText: 'Created',
+          requestBody: '{"név":1}',
+          responseBody: 'ok',
+          specificRequestHeaders: { 'Content-Type': 'application/json' },
+          specificResponseHeaders: { Location: '/api/1' },
+        },
+      ],
+    });
+
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.pages[0]).toMatchObject({ id: 'page_1', title: 'A' });
+    const [entry] = har.log.entries;
+    expect(entry.startedDateTime).toBe(new Date(STARTED + 10).toISOString());
+    expect(entry.request).toMatchObject({
+      method: 'POST',
+      httpVersion: 'HTTP/1.1',
+      headers: [
+        { name: 'User-Agent', value: 'ua' },
+        { name: 'Content-Type', value: 'application/json' },
+      ],
+      queryString: [
+        { name: 'q', value: '1' },
+        { name: 'page', value: '2' },
+      ],
+      bodySize: 10,
+      postData: { mimeType: 'application/json', text: '{"név":1}' },
+    });
+    expect(entry.response).toMatchObject({
+      status: 201,
+      statusText: 'Created',
+      redirectURL: '/api/1',
+      content: { size: 2, mimeType: 'application/json', text: 'ok' },
+    });
+    expect(entry.timings).toEqual({
+      blocked: -1,
+      dns: -1,
+      connect: -1,
+      ssl: -1,
+      send: 0,
+      wait: 50,
+      receive: 15,
+    });
+    expect(entry.time).toBe(65);
+    expect(entry._resourceType).toBe('xmlhttprequest');
+  });
+
+  it('turns debugger ResourceTiming into HAR phases', () => {
+    const [entry] = buildHar({
+      requests: [
+        {
+          url: 'https://a.test/app.js',
+          method: 'GET',
+          wallTime: STARTED,
+          protocol: 'h2',
+          status: 200,
+          mimeType: 'text/javascript',
+          encodedDataLength: 120,
+          responseBody: 'AAAA',
+          base64Encoded: true,
+          timing: {
+            requestTime: 100,
+            dnsStart: 2,
+            dnsEnd: 5,
+            connectStart: 5,
+            connectEnd: 20,
+            sslStart: 10,
+            sslEnd: 20,
+            sendStart: 21,
+            sendEnd: 22,
+            receiveHeadersEnd: 72,
+          },
+          finishedTime: 100_000 + 72 + 8,
+        },
+      ],
+    }).log.entries;
+
+    expect(entry.startedDateTime).toBe(new Date(STARTED).toISOString());
+    expect(entry.response.httpVersion).toBe('HTTP/2');
+    expect(entry.timings).toEqual({
+      blocked: 2,
+      dns: 3,
+      connect: 15,
+      ssl: 10,
+      send: 1,
+      wait: 50,
+      receive: 8,
+    });
+    // ssl is already part of connect
+    expect(entry.time).toBe(79);
+    expect(entry.response.content).toEqual({
+      size: 3,
+      mimeType: 'text/javascript',
+      text: 'AAAA',
+      encoding: 'base64',
+    });
+    expect(entry.response.bodySize).toBe(120);
+  });
+
+  it('records failed requests with status 0 and their error', () => {
+    const [entry] = buildHar({
+      requests: [
+        { url: 'https://a.test/x', method: 'GET', status: 'error', errorText: ' net::ERR_FAILED ' },
+      ],
+    }).log.entries;
+
+    expect(entry.response.status).toBe(0);
+    expect(entry.response._error).toBe('net::ERR_FAILED');
+  });
+});
+
+describe('truncated bodies', () => {
+  it('omits a truncated base64 body and skips the entry in replay', () => {
+    const har = buildHar({
+      requests: [
+        {
+          url: 'https://a.test/video.bin',
+          method: 'GET',
+          status: 200,
+          mimeType: 'application/octet-stream',
+          responseBody: 'QUJD',
+          base64Encoded: true,
+          responseBodyTruncated: true,
+          responseBodySize: 8,
+        },
+        {
+          url: 'https://a.test/small.txt',
+          method: 'GET',
+          status: 200,
+          mimeType: 'text/plain',
+          responseBody: 'ok',
+        },
+      ],
+    });
+    const [truncated] = har.log.entries;
+
+    expect(truncated.response.content).toEqual({
+      size: 6,
+      mimeType: 'application/octet-stream',
+      _truncated: true,
+    });
+    expect(truncated.comment).toBe('Response body omitted: truncated during capture (6 bytes)');
+
+    const entries = parseHarForReplay(JSON.stringify(har));
+    expect(entries.map((e) => e.url)).toEqual(['https://a.test/small.txt']);
+    expect(findHarEntry(entries, 'GET', 'https://a.test/video.bin', new Map())).toBe(undefined);
+  });
+});
+
+describe('parseHarForReplay', () => {
+  it('reads servable entries from HAR text', () => {
+    const entries = parseHarForReplay(
+      JSON.stringify({
+        log: {
+          entries: [
+            {
+              request: { method: 'get', url: 'https://a.test/data' },
+              response: {
+                status: 200,
+                headers: [
+                  { name: 'Content-Encoding', value: 'gzip' },
+                  { name: 'Content-Length', value: '99' },
+                  { name: 'X-Id', value: 7 },
+                ],
+                content: { mimeType: 'application/json', text: '{"ok":"✓"}' },
+              },
+            },
+            {
+              request: { method: 'GET', url: 'https://a.test/blocked' },
+              response: { status: 0, headers: [], content: {} },
+            },
+            {
+              request: { method: 'GET', url: 'https://a.test/logo.png' },
+              response: {
+                status: 200,
+                headers: [{ name: 'content-type', value: 'image/png' }],
+                content: { mimeType: 'image/png', text: 'iVBO', encoding: 'base64' },
+              },
+            },
+          ],
+        },
+      }),
+    );
+
+    expect(entries).toEqual([
+      {
+        method: 'GET',
+        url: 'https://a.test/data',
+        status: 200,
+        headers: [
+          { name: 'X-Id', value: '7' },
+          { name: 'Content-Type', value: 'application/json' },
+        ],
+        body: utf8ToBase64('{"ok":"✓"}'),
+      },
+      {
+        method: 'GET',
+        url: 'https://a.test/logo.png',
+        status: 200,
+        headers: [{ name: 'content-type', value: 'image/png' }],
+        body: 'iVBO',
+      },
+    ]);
+  });
+
+  it('rejects input without replayable entries', () => {
+    expect(() => parseHarForReplay('{')).toThrow('har is not valid JSON');
+    expect(() => parseHarForReplay({ log: {} })).toThrow('har must contain log.entries');
+    expect(() =>
+      parseHarForReplay({
+        log: { entries: [{ request: { url: 'https://a.test/' }, response: { status: 0 } }] },
+      }),
+    ).toThrow('har has no entries with a response to replay');
+  });
+
+  it('encodes UTF-8 text as base64', () => {
+    expect(atob(utf8ToBase64('héllo'))).toBe('hÃ©llo');
+  });
+});
+
+describe('findHarEntry', () => {
+  it('prefers an exact URL match and falls back to ignoring the query', () => {
+    const exact = replayEntry('GET', 'https://a.test/search?q=a');
+    const other = replayEntry('GET', 'https://a.test/search?q=b');
+    const served = new Map<string, number>();
+
+    expect(findHarEntry([other, exact], 'get', 'https://a.test/search?q=a', served)).toBe(exact);
+    expect(findHarEntry([other, exact], 'GET', 'https://a.test/search?q=c', served)).toBe(other);
+    expect(findHarEntry([other, exact], 'POST', 'https://a.test/search?q=a', served)).toBe(
+      undefined,
+    );
+    expect(findHarEntry([other], 'GET', 'https://a.test/other', served)).toBe(undefined);
+  });
+
+  it('walks repeated entries in order and then keeps serving the last', () => {
+    const first = replayEntry('GET', 'https://a.test/poll', 'MQ==');
+    const second = replayEntry('GET', 'https://a.test/poll', 'Mg==');
+    const served = new Map<string, number>();
+
+    const bodies = [1, 2, 3].map(
+      () => findHarEntry([first, second], 'GET', 'https://a.test/poll', served)?.body,
+    );
+    expect(bodies).toEqual(['MQ==', 'Mg==', 'Mg==']);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * @fileoverview chrome_network_intercept rule matching
+ * @description
+ * Verifies which paused requests a rule applies to, driven through Fetch.requestPaused:
+ * - Glob patterns support `*`, `?` and backslash escapes; /regex/ patterns pause everything
+ * - Method and resource type filters narrow a rule
+ * - The first matching rule wins; `times` retires a rule after its hits
+ * - modify rules match in the stages they change headers in
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/utils/cdp-session-manager', () => ({
+  cdpSessionManager: {
+    attach: vi.fn(),
+    detach: vi.fn(),
+    sendCommand: vi.fn(),
+  },
+}));
+
+import { cdpSessionManager } from '@/utils/cdp-session-manager';
+import { networkInterceptTool } from '@/entrypoints/background/tools/browser/network-intercept';
+
+// Registered by the tool's constructor at import time
+const onDebuggerEvent = vi.mocked(chrome.debugger.onEvent.addListener).mock.calls.at(-1)![0];
+
+const TAB_ID = 11;
+let nextRequestId = 1;
+
+function addRule(rule: Record<string, unknown>) {
+  return networkInterceptTool.execute({ action: 'add', tabId: TAB_ID, ...rule } as any);
+}
+
+/**
+ * Pause a request and return the Fetch command the tool answered it with
+ */
+async function pause(
+  url: string,
+  options: {
+    method?: string;
+    resourceType?: string;
+    responseStatusCode?: number;
+    responseHeaders?: Array<{ name: string; value: string }>;
+  } = {},
+): Promise<[string, Record<string, unknown>]> {
+  const requestId = `req-${nextRequestId++}`;
+  onDebuggerEvent({ tabId: TAB_ID }, 'Fetch.requestPaused', {
+    requestId,
+    request: { url, method: options.method ?? 'GET', headers: { Accept: '*/*' } },
+    resourceType: options.resourceType ?? 'XHR',
+    responseStatusCode: options.responseStatusCode,
+    responseHeaders: options.responseHeaders,
+  });
+  let answer: [string, Record<string, unknown>] | undefined;
+  await vi.waitFor(() => {
+    const call = vi
+      .mocked(cdpSessionManager.sendCommand)
+      .mock.calls.find(
+        ([, , params]) => (params as { requestId?: string })?.requestId === requestId,
+      );
+    if (!call) throw new Error(`${requestId} not answered`);
+    answer = [call[1], call[2] as Record<string, unknown>];
+  });
+  return answer!;
+}
+
+function lastFetchEnablePatterns() {
+  const call = vi
+    .mocked(cdpSessionManager.sendCommand)
+    .mock.calls.filter(([, method]) => method === 'Fetch.enable')
+    .at(-1);
+  return (call?.[2] as { patterns: unknown[] } | undefined)?.patterns;
+}
+
+describe('chrome_network_intercept rule matching', () => {
+  beforeEach(async () => {
+    vi.mocked(cdpSessionManager.attach).mockReset().mockResolvedValue(undefined);
+    vi.mocked(cdpSessionManager.detach).mockReset().mockResolvedValue(undefined);
+    vi.mocked(cdpSessionManager.sendCommand).mockReset().mockResolvedValue({});
+    vi.mocked(chrome.tabs.get).mockResolvedValue({ id: TAB_ID } as chrome.tabs.Tab);
+    await networkInterceptTool.execute({ action: 'clear', tabId: TAB_ID });
+    vi.mocked(cdpSessionManager.sendCommand).mockClear();
+  });
+
+  it('matches glob patterns and lets other requests through', async () => {
+    await addRule({ type: 'block', urlPattern: '*://api.test/users/*' });
+
+    expect(await pause('https://api.test/users/42')).toEqual([
+      'Fetch.failRequest',
+      expect.objectContaining({ errorReason: 'BlockedByClient' }),
+    ]);
+    expect((await pause('https://api.test/teams/1'))[0]).toBe('Fetch.continueRequest');
+  });
+
+  it('treats ? as one character and honours backslash escapes', async () => {
+    await addRule({ type: 'block', urlPattern: 'https://a.test/v?/item\\*' });
+
+    expect((await pause('https://a.test/v2/item*'))[0]).toBe('Fetch.failRequest');
+    expect((await pause('https://a.test/v2/items'))[0]).toBe('Fetch.continueRequest');
+    expect((await pause('https://a.test/v10/item*'))[0]).toBe('Fetch.continueRequest');
+  });
+
+  it('matches /regex/ patterns locally and asks the browser to pause everything', async () => {
+    await addRule({ type: 'block', urlPattern: '/\\/api\\/(users|teams)\\/\\d+$/' });
+
+    expect(lastFetchEnablePatterns()).toEqual([{ urlPattern: '*', requestStage: 'Request' }]);
+    expect((await pause('https://x.test/api/teams/7'))[0]).toBe('Fetch.failRequest');
+    expect((await pause('https://x.test/api/teams/7/members'))[0]).toBe('Fetch.continueRequest');
+  });
+
+  it('rejects invalid regex patterns', async () => {
+    const result = await addRule({ type: 'block', urlPattern: '/(unclosed/' });
+
+    expect(result.isError).toBe(true);
+    expect((result.content[0] as { text: string }).text).toContain('Invalid urlPattern');
+  });
+
+  it('filters by method and resource type', async () => {
+    await addRule({
+      type: 'block',
+      urlPattern: '*',
+      methods: ['post'],
+      resourceTypes: ['Fetch'],
+    });
+
+    expect((await pause('https://a.test/x', { method: 'POST', resourceType: 'Fetch' }))[0]).toBe(
+      'Fetch.failRequest',
+    );
+    expect((await pause('https://a.test/x', { method: 'GET', resourceType: 'Fetch' }))[0]).toBe(
+      'Fetch.continueRequest',
+    );
+    expect((await pause('https://a.test/x', { method: 'POST', resourceType: 'XHR' }))[0]).toBe(
+      'Fetch.continueRequest',
+    );
+  });
+
+  it('applies the first matching rule and retires rules after `times` hits', async () => {
+    await addRule({ type: 'fulfill', urlPattern: '*/flaky', status: 503, times: 1 });
+    await addRule({ type: 'block', urlPattern: '*' });
+
+    expect(await pause('https://a.test/flaky')).toEqual([
+      'Fetch.fulfillRequest',
+      expect.objectContaining({ responseCode: 503 }),
+    ]);
+    expect((await pause('https://a.test/flaky'))[0]).toBe('Fetch.failRequest');
+
+    const list = JSON.parse(
+      (
+        (await networkInterceptTool.execute({ action: 'list', tabId: TAB_ID })).content[0] as {
+          text: string;
+        }
+      ).text,
+    );
+    expect(list.rules[0]).toMatchObject({ id: 'rule_1', hits: 1, active: false });
+    expect(list.hits.map((h: { ruleId: string }) => h.ruleId)).toEqual(['rule_1', 'rule_2']);
+  });
+
+  it('matches modify rules only in the stages they change', async () => {
+    await addRule({
+      type: 'modify',
+      urlPattern: '*',
+      responseHeaders: { set: { 'Cache-Control': 'no-store' }, remove: ['etag'] },
+    });
+
+    expect(lastFetchEnablePatterns()).toEqual([{ urlPattern: '*', requestStage: 'Response' }]);
+    expect((await pause('https://a.test/page'))[0]).toBe('Fetch.continueRequest');
+    expect(
+      await pause('https://a.test/page', {
+        responseStatusCode: 200,
+        responseHeaders: [
+          { name: 'ETag', value: 'abc' },
+          { name: 'cache-control', value: 'max-age=60' },
+          { name: 'Content-Type', value: 'text/html' },
+        ],
+      }),
+    ).toEqual([
+      'Fetch.continueResponse',
+      expect.objectContaining({
+        responseHeaders: [
+          { name: 'Content-Type', value: 'text/html' },
+          { name: 'Cache-Control', value: 'no-store' },
+        ],
+      }),
+    ]);
+  });
+});
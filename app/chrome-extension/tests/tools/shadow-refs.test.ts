@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Refs inside shadow roots (accessibility-tree-helper.js)
+ * @description
+ * Loads the injected helpers into jsdom and verifies:
+ * - Elements in nested open and closed shadow roots get refs with their host chain
+ * - Closed roots are only read through chrome.dom.openOrClosedShadowRoot
+ * - A ref survives its host re-rendering the shadow tree, for click and fill too
+ * - Pruning drops collected refs and refs whose host chain no longer resolves
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const HELPERS = ['accessibility-tree-helper.js', 'click-helper.js', 'fill-helper.js'];
+const sources = Object.fromEntries(
+  HELPERS.map((file) => [
+    file,
+    readFileSync(resolve(__dirname, '../../inject-scripts', file), 'utf8'),
+  ]),
+);
+
+interface HelperWindow {
+  __generateAccessibilityTree: (
+    filter: 'all' | 'interactive' | null,
+    options?: { refId?: string },
+  ) => {
+    pageContent: string;
+    refMap: Array<{ ref: string; selector: string; hostChain?: string[] }>;
+    error?: string;
+  };
+  __claudeResolveRef: (ref: string) => Element | null;
+  __claudeElementMap: Record<string, { deref(): Element | undefined }>;
+  __claudeRefChains: Record<string, { hosts: string[]; selector: string }>;
+}
+
+const win = window as unknown as HelperWindow & Record<string, unknown>;
+
+/** Closed roots by host, as only chrome.dom can see them */
+let closedRoots: WeakMap<Element, ShadowRoot>;
+/** What document.elementFromPoint hits (fill-helper's visibility check) */
+let pointTarget: Element | null;
+let onMessage: Array<(request: any, sender: unknown, sendResponse: (r: any) => void) => unknown>;
+
+function loadHelpers() {
+  for (const key of Object.keys(win)) {
+    if (key.startsWith('__')) delete win[key];
+  }
+  for (const file of HELPERS) new Function(sources[file])();
+}
+
+function attachClosed(host: Element, html: string): ShadowRoot {
+  const root = host.attachShadow({ mode: 'closed' });
+  root.innerHTML = html;
+  closedRoots.set(host, root);
+  return root;
+}
+
+function send(request: Record<string, unknown>): Promise<any> {
+  return new Promise((resolve) => {
+    for (const listener of onMessage) listener(request, {}, resolve);
+  });
+}
+
+function refOf(el: Element): string {
+  const entry = Object.entries(win.__claudeElementMap).find(([, weak]) => weak.deref() === el);
+  expect(entry, `no ref for <${el.tagName.toLowerCase()}>`).toBeDefined();
+  return entry![0];
+}
+
+describe('shadow root refs', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    closedRoots = new WeakMap();
+    onMessage = [];
+    vi.mocked(chrome.runtime.onMessage.addListener).mockImplementation((listener) => {
+      onMessage.push(listener as (typeof onMessage)[number]);
+    });
+    (chrome as unknown as { dom: unknown }).dom = {
+      openOrClosedShadowRoot: (el: Element) => el.shadowRoot ?? closedRoots.get(el) ?? null,
+    };
+    // jsdom has no layout: give every element a box inside the viewport
+    vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockReturnValue(100);
+    vi.spyOn(HTMLElement.prototype, 'offsetHeight', 'get').mockReturnValue(20);
+    vi.spyOn(Element.prototype, 'getBoundingClientRect').mockReturnValue(
+      DOMRect.fromRect({ x: 10, y: 10, width: 100, height: 20 }),
+    );
+    Element.prototype.scrollIntoView = vi.fn();
+    pointTarget = null;
+    document.elementFromPoint = () => pointTarget;
+    // Not implemented by jsdom; enough for ids and attribute values in these fixtures
+    vi.stubGlobal('CSS', { escape: (value: string) => value.replace(/([^\w-])/g, '\\$1') });
+    loadHelpers();
+  });
+
+  afterEach(() => {
+    delete (chrome as unknown as { dom?: unknown }).dom;
+    vi.unstubAllGlobals();
+  });
+
+  it('records the host chain of a control inside nested open and closed roots', () => {
+    document.body.innerHTML = '<app-shell id="shell"></app-shell>';
+    const outer = document.getElementById('shell')!.attachShadow({ mode: 'open' });
+    outer.innerHTML = '<main><login-form></login-form></main>';
+    const inner = attachClosed(outer.querySelector('login-form')!, '<button>Sign in</button>');
+    const button = inner.querySelector('button')!;
+
+    const tree = win.__generateAccessibilityTree('interactive');
+
+    const entry = tree.refMap.find((e) => e.ref === refOf(button))!;
+    expect(entry.hostChain).toEqual(['#shell', 'main > login-form']);
+    expect(entry.selector).toBe('button');
+    expect(tree.pageContent).toContain(
+      `button "Sign in" [ref=${entry.ref}] (x=60,y=20) shadow="#shell >> main > login-form"`,
+    );
+    expect(win.__claudeResolveRef(entry.ref)).toBe(button);
+  });
+
+  it('does not see into closed roots without chrome.dom', () => {
+    delete (chrome as unknown as { dom?: unknown }).dom;
+    document.body.innerHTML = '<login-form></login-form>';
+    attachClosed(document.querySelector('login-form')!, '<button>Sign in</button>');
+
+    const tree = win.__generateAccessibilityTree('interactive');
+
+    expect(tree.pageContent).not.toContain('Sign in');
+  });
+
+  it('resolves a ref again after the host re-renders its shadow tree', () => {
+    document.body.innerHTML = '<app-shell id="shell"></app-shell>';
+    const root = attachClosed(document.getElementById('shell')!, '<input name="q" />');
+    win.__generateAccessibilityTree('interactive');
+    const ref = refOf(root.querySelector('input')!);
+
+    root.innerHTML = '<input name="q" value="fresh" />';
+    const rerendered = root.querySelector('input')!;
+
+    expect(win.__claudeResolveRef(ref)).toBe(rerendered);
+    expect(win.__claudeElementMap[ref].deref()).toBe(rerendered);
+  });
+
+  it('expires a shadow ref whose host is gone', () => {
+    document.body.innerHTML = '<app-shell id="shell"></app-shell>';
+    attachClosed(document.getElementById('shell')!, '<input name="q" />');
+    win.__generateAccessibilityTree('interactive');
+    const ref = Object.keys(win.__claudeRefChains)[0];
+
+    document.body.innerHTML = '<p>Signed out</p>';
+
+    expect(win.__claudeResolveRef(ref)).toBeNull();
+    expect(win.__generateAccessibilityTree(null, { refId: ref }).error).toBe(
+      `ref "${ref}" not found or expired`,
+    );
+  });
+
+  it('prunes refs of collected elements and of dead host chains only', () => {
+    document.body.innerHTML =
+      '<button id="plain">Plain</button><app-shell id="a"></app-shell><app-shell id="b"></app-shell>';
+    const rootA = attachClosed(document.getElementById('a')!, '<button>A</button>');
+    attachClosed(document.getElementById('b')!, '<button>B</button>');
+    win.__generateAccessibilityTree('interactive');
+    const refA = refOf(rootA.querySelector('button')!);
+    const [refB] = Object.keys(win.__claudeRefChains).filter((r) => r !== refA);
+    const refPlain = refOf(document.getElementById('plain')!);
+    // A collected element: its WeakRef derefs to undefined
+    win.__claudeElementMap[refPlain] = { deref: () => undefined };
+
+    // A re-renders (chain alive), B's host is removed (chain dead)
+    rootA.innerHTML = '<button>A2</button>';
+    document.getElementById('b')!.remove();
+    win.__generateAccessibilityTree('interactive');
+
+    expect(win.__claudeElementMap[refPlain]).toBeUndefined();
+    expect(win.__claudeElementMap[refB]).toBeUndefined();
+    expect(win.__claudeRefChains[refB]).toBeUndefined();
+    expect(win.__claudeResolveRef(refA)).toBe(rootA.querySelector('button'));
+  });
+
+  it('clicks and fills through a re-rendered closed root', async () => {
+    document.body.innerHTML = '<search-box id="search"></search-box>';
+    const root = attachClosed(
+      document.getElementById('search')!,
+      '<input name="q" /><button>Go</button>',
+    );
+    win.__generateAccessibilityTree('interactive');
+    const inputRef = refOf(root.querySelector('input')!);
+    const buttonRef = refOf(root.querySelector('button')!);
+
+    root.innerHTML = '<input name="q" /><button>Go</button>';
+    const clicks = vi.fn();
+    root.querySelector('button')!.addEventListener('click', clicks);
+
+    // The helper passes `view: window`, which jsdom only accepts for its own Window object
+    const JsdomMouseEvent = MouseEvent;
+    vi.stubGlobal(
+      'MouseEvent',
+      class extends JsdomMouseEvent {
+        constructor(type: string, init: MouseEventInit = {}) {
+          super(type, { ...init, view: null });
+        }
+      },
+    );
+    pointTarget = root.querySelector('input');
+    const filled = await send({ action: 'fillElement', ref: inputRef, value: 'shoes' });
+    const clicked = await send({ action: 'clickElement', ref: buttonRef });
+
+    expect(filled).toMatchObject({ success: true });
+    expect(root.querySelector('input')!.value).toBe('shoes');
+    expect(clicked).toMatchObject({ success: true, elementInfo: { clickMethod: 'ref' } });
+    expect(clicks).toHaveBeenCalledTimes(1);
+  });
+
+  it('fills the control inside a closed-root host', async () => {
+    document.body.innerHTML = '<search-box id="search"></search-box>';
+    const root = attachClosed(
+      document.getElementById('search')!,
+      '<div><textarea></textarea></div>',
+    );
+
+    pointTarget = document.getElementById('search');
+    const result = await send({ action: 'fillElement', selector: '#search', value: 'hello' });
+
+    expect(result).toMatchObject({ success: true });
+    expect(root.querySelector('textarea')!.value).toBe('hello');
+  });
+});
@@ -49,10 +49,13 @@ export default defineConfig({
       'debugger',
       'history',
       'bookmarks',
+      'cookies',
       'offscreen',
       'storage',
       'declarativeNetRequest',
       'alarms',
+      // Approval prompts for remote tool calls
+      'notifications',
       // Allow programmatic control of Chrome Side Panel
       'sidePanel',
     ],
@@ -6,6 +6,8 @@ export const TOOL_NAMES = {
     SEARCH_TABS_CONTENT: 'search_tabs_content',
     NAVIGATE: 'chrome_navigate',
     SCREENSHOT: 'chrome_screenshot',
+    EXPORT_PAGE: 'chrome_export_page',
+    VISUAL_DIFF: 'chrome_visual_diff',
     CLOSE_TABS: 'chrome_close_tabs',
     SWITCH_TAB: 'chrome_switch_tab',
     WEB_FETCHER: 'chrome_get_web_content',
@@ -20,20 +22,24 @@ export const TOOL_NAMES = {
     NETWORK_REQUEST: 'chrome_network_request',
     NETWORK_DEBUGGER_START: 'chrome_network_debugger_start',
     NETWORK_DEBUGGER_STOP: 'chrome_network_debugger_stop',
+    NETWORK_INTERCEPT: 'chrome_network_intercept',
     KEYBOARD: 'chrome_keyboard',
     HISTORY: 'chrome_history',
     BOOKMARK_SEARCH: 'chrome_bookmark_search',
     BOOKMARK_ADD: 'chrome_bookmark_add',
     BOOKMARK_DELETE: 'chrome_bookmark_delete',
+    STORAGE_STATE: 'chrome_storage_state',
     INJECT_SCRIPT: 'chrome_inject_script',
     SEND_COMMAND_TO_INJECT_SCRIPT: 'chrome_send_command_to_inject_script',
     JAVASCRIPT: 'chrome_javascript',
     CONSOLE: 'chrome_console',
     FILE_UPLOAD: 'chrome_upload_file',
     READ_PAGE: 'chrome_read_page',
+    ACCESSIBILITY: 'chrome_accessibility',
     COMPUTER: 'chrome_computer',
     HANDLE_DIALOG: 'chrome_handle_dialog',
     HANDLE_DOWNLOAD: 'chrome_handle_download',
+    EMULATE: 'chrome_emulate',
     USERSCRIPT: 'chrome_userscript',
     PERFORMANCE_START_TRACE: 'performance_start_trace',
     PERFORMANCE_STOP_TRACE: 'performance_stop_trace',
@@ -52,48 +58,16 @@ export const TOOL_SCHEMAS: Tool[] = [
     description: 'Get all currently open browser windows and tabs',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        includeFrames: {
+          type: 'boolean',
+          description:
+            "Add each tab's frame tree (frameId, parentFrameId, url, crossOrigin), e.g. to find which iframe holds a form (default: false)",
+        },
+      },
       required: [],
     },
   },
-  // {
-  //   name: TOOL_NAMES.RECORD_REPLAY.FLOW_RUN,
-  //   description:
-  //     'Run a recorded flow by ID with optional variables and run options. Returns a standardized run result.',
-  //   inputSchema: {
-  //     type: 'object',
-  //     properties: {
-  //       flowId: { type: 'string', description: 'ID of the flow to run' },
-  //       args: {
-  //         type: 'object',
-  //         description: 'Variable values for the flow (flat object of key/value)',
-  //       },
-  //       tabTarget: {
-  //         type: 'string',
-  //         description: "Target tab: 'current' or 'new' (default: current)",
-  //         enum: ['current', 'new'],
-  //       },
-  //       refresh: { type: 'boolean', description: 'Refresh before running (default false)' },
-  //       captureNetwork: {
-  //         type: 'boolean',
-  //         description: 'Capture network snippets for debugging (default false)',
-  //       },
-  //       returnLogs: { type: 'boolean', description: 'Return run logs (default false)' },
-  //       timeoutMs: { type: 'number', description: 'Global timeout in ms (optional)' },
-  //       startUrl: { type: 'string', description: 'Optional start URL to open before running' },
-  //     },
-  //     required: ['flowId'],
-  //   },
-  // },
-  // {
-  //   name: TOOL_NAMES.RECORD_REPLAY.LIST_PUBLISHED,
-  //   description: 'List published flows available as dynamic tools (for discovery).',
-  //   inputSchema: {
-  //     type: 'object',
-  //     properties: {},
-  //     required: [],
-  //   },
-  // },
   {
     name: TOOL_NAMES.BROWSER.PERFORMANCE_START_TRACE,
     description:
@@ -160,7 +134,7 @@ export const TOOL_SCHEMAS: Tool[] = [
   {
     name: TOOL_NAMES.BROWSER.READ_PAGE,
     description:
-      'Get an accessibility tree representation of visible elements on the page. Only returns elements that are visible in the viewport. Optionally filter for only interactive elements.\nTip: If the returned elements do not include the specific element you need, use the computer tool\'s screenshot (action="screenshot") to capture the element\'s on-screen coordinates, then operate by coordinates.',
+      'Get an accessibility tree representation of visible elements on the page. Only returns elements that are visible in the viewport. Optionally filter for only interactive elements.\nChild frames (including cross-origin iframes) are listed in "frames" and their trees appended under "- frame [frameId=N]" lines; refs inside them look like "f5:ref_3" and work with every tool that takes a ref.\nOpen and closed shadow roots are included; interactive elements inside them carry shadow="host >> host" (the enclosing hosts) and their refs are re-resolved through that chain if the component re-renders.\nTip: If the returned elements do not include the specific element you need, use the computer tool\'s screenshot (action="screenshot") to capture the element\'s on-screen coordinates, then operate by coordinates.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -177,7 +151,11 @@ export const TOOL_SCHEMAS: Tool[] = [
         refId: {
           type: 'string',
           description:
-            'Focus on the subtree rooted at this element refId (e.g., "ref_12"). The refId must come from a recent chrome_read_page response in the same tab (refs may expire).',
+            'Focus on the subtree rooted at this element refId (e.g., "ref_12" or "f5:ref_3" inside a frame). The refId must come from a recent chrome_read_page response in the same tab (refs may expire).',
+        },
+        includeFrames: {
+          type: 'boolean',
+          description: 'Also read child frames and list the frame tree (default: true)',
         },
         tabId: {
           type: 'number',
@@ -191,6 +169,45 @@ export const TOOL_SCHEMAS: Tool[] = [
       required: [],
     },
   },
+  {
+    name: TOOL_NAMES.BROWSER.ACCESSIBILITY,
+    description:
+      'Read Chrome\'s computed accessibility tree (CDP Accessibility.getFullAXTree) with real roles and names, or audit it. Nodes carry refs usable with chrome_computer. action="audit" flags missing accessible names, keyboard-unreachable widgets, low text contrast (WCAG AA), positive tabindex, focusable elements in aria-hidden and backwards focus order.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['snapshot', 'audit'],
+          description: 'snapshot (default): pruned tree outline. audit: accessibility issues.',
+        },
+        tabId: { type: 'number', description: 'Target tab ID (default: active tab)' },
+        windowId: {
+          type: 'number',
+          description: 'Target window ID to pick active tab when tabId is omitted.',
+        },
+        refId: {
+          type: 'string',
+          description: 'Limit to the subtree of this element ref (from read_page or a snapshot)',
+        },
+        selector: { type: 'string', description: 'Limit to the subtree of this CSS selector' },
+        includeIgnored: {
+          type: 'boolean',
+          description: 'snapshot: keep ignored and unnamed structural nodes (default: false)',
+        },
+        maxNodes: {
+          type: 'number',
+          description: 'snapshot: maximum nodes in the outline (default: 500, max: 2000)',
+        },
+        checks: {
+          type: 'array',
+          items: { type: 'string', enum: ['labels', 'contrast', 'focus'] },
+          description: 'audit: checks to run (default: all)',
+        },
+      },
+      required: [],
+    },
+  },
   {
     name: TOOL_NAMES.BROWSER.COMPUTER,
     description:
@@ -207,7 +224,7 @@ export const TOOL_SCHEMAS: Tool[] = [
         action: {
           type: 'string',
           description:
-            'Action to perform: left_click | right_click | double_click | triple_click | left_click_drag | scroll | scroll_to | type | key | fill | fill_form | hover | wait | resize_page | zoom | screenshot',
+            'Action to perform: left_click | right_click | double_click | triple_click | left_click_drag | scroll | scroll_to | type | key | fill | fill_form | hover | wait | resize_page | zoom | screenshot | tap | long_press | swipe | pinch | touch_gesture',
         },
         ref: {
           type: 'string',
@@ -229,11 +246,12 @@ export const TOOL_SCHEMAS: Tool[] = [
             x: { type: 'number' },
             y: { type: 'number' },
           },
-          description: 'Starting coordinates for drag action',
+          description: 'Starting coordinates for drag and swipe actions',
         },
         startRef: {
           type: 'string',
-          description: 'Drag start ref from chrome_read_page (alternative to startCoordinates).',
+          description:
+            'Drag/swipe start ref from chrome_read_page (alternative to startCoordinates).',
         },
         scrollDirection: {
           type: 'string',
@@ -311,89 +329,49 @@ export const TOOL_SCHEMAS: Tool[] = [
         },
         duration: {
           type: 'number',
-          description: 'Seconds to wait for action=wait (max 30s)',
+          description:
+            'Seconds to wait for action=wait (max 30s). For long_press: hold time (default 0.8); for swipe/touch_gesture: movement time (default 0.3); max 10s.',
+        },
+        pointerType: {
+          type: 'string',
+          enum: ['touch', 'pen'],
+          description: 'For tap/long_press/swipe: input device (default touch)',
+        },
+        scaleFactor: {
+          type: 'number',
+          description:
+            'For action=pinch: zoom factor around ref/coordinates (>1 zooms in, <1 zooms out)',
+        },
+        touches: {
+          type: 'array',
+          description:
+            'For action=touch_gesture: one stroke per finger (1-5), moved together over duration. Each stroke starts at a ref or at start. Coordinates use the same space as "coordinates".',
+          items: {
+            type: 'object',
+            properties: {
+              ref: {
+                type: 'string',
+                description:
+                  'Element ref from chrome_read_page where the finger starts (instead of start)',
+              },
+              start: {
+                type: 'object',
+                properties: { x: { type: 'number' }, y: { type: 'number' } },
+                required: ['x', 'y'],
+              },
+              end: {
+                type: 'object',
+                description: 'Where the finger lifts (default: stays at start)',
+                properties: { x: { type: 'number' }, y: { type: 'number' } },
+                required: ['x', 'y'],
+              },
+            },
+          },
         },
       },
       required: ['action'],
     },
   },
-  // {
-  //   name: TOOL_NAMES.BROWSER.USERSCRIPT,
-  //   description:
-  //     'Unified userscript tool (create/list/get/enable/disable/update/remove/send_command/export). Paste JS/CSS/Tampermonkey script and the system will auto-select the best strategy (insertCSS / persistent script in ISOLATED or MAIN world / once by CDP) with CSP-aware fallbacks.',
-  //   inputSchema: {
-  //     type: 'object',
-  //     properties: {
-  //       action: {
-  //         type: 'string',
-  //         description:
-  //           'Operation to perform',
-  //         enum: [
-  //           'create',
-  //           'list',
-  //           'get',
-  //           'enable',
-  //           'disable',
-  //           'update',
-  //           'remove',
-  //           'send_command',
-  //           'export',
-  //         ],
-  //       },
-  //       args: {
-  //         type: 'object',
-  //         description:
-  //           'Arguments for the specified action.\n- create: { script (required), name?, description?, matches?: string[], excludes?: string[], persist?: boolean (default true), runAt?: "document_start"|"document_end"|"document_idle"|"auto", world?: "auto"|"ISOLATED"|"MAIN", allFrames?: boolean (default true), mode?: "auto"|"css"|"persistent"|"once", dnrFallback?: boolean (default true), tags?: string[] }\n- list: { query?: string, status?: "enabled"|"disabled", domain?: string }\n- get: { id (required) }\n- enable/disable: { id (required) }\n- update: { id (required), script?, name?, description?, matches?, excludes?, runAt?, world?, allFrames?, persist?, dnrFallback?, tags? }\n- remove: { id (required) }\n- send_command: { id (required), payload?: string, tabId?: number }\n- export: {}\nTip: For a one-off execution that returns a value, use create with args.mode="once". The returned value is included as onceResult in the tool response.',
-  //         properties: {
-  //           // Common identifiers
-  //           id: { type: 'string', description: 'Userscript id (for get/enable/disable/update/remove/send_command)' },
-  //           // Create / Update fields
-  //           script: { type: 'string', description: 'JS/CSS/Tampermonkey script source (required for create)' },
-  //           name: { type: 'string', description: 'Userscript name (optional)' },
-  //           description: { type: 'string', description: 'Userscript description (optional)' },
-  //           matches: {
-  //             type: 'array',
-  //             items: { type: 'string' },
-  //             description: 'Match patterns for pages to apply to (e.g., https://*.example.com/*)'
-  //           },
-  //           excludes: {
-  //             type: 'array',
-  //             items: { type: 'string' },
-  //             description: 'Exclude patterns'
-  //           },
-  //           persist: { type: 'boolean', description: 'Persist userscript for matched pages (default true)' },
-  //           runAt: {
-  //             type: 'string',
-  //             description: 'Injection timing',
-  //             enum: ['document_start', 'document_end', 'document_idle', 'auto'],
-  //           },
-  //           world: {
-  //             type: 'string',
-  //             description: 'Execution world',
-  //             enum: ['auto', 'ISOLATED', 'MAIN'],
-  //           },
-  //           allFrames: { type: 'boolean', description: 'Inject into all frames (default true)' },
-  //           mode: {
-  //             type: 'string',
-  //             description:
-  //               'Injection strategy: auto | css | persistent | once. Use once to evaluate immediately (no persistence) and include the return value in onceResult.',
-  //             enum: ['auto', 'css', 'persistent', 'once'],
-  //           },
-  //           dnrFallback: { type: 'boolean', description: 'Use DNR fallback when needed (default true)' },
-  //           tags: { type: 'array', items: { type: 'string' }, description: 'Custom tags' },
-  //           // List filters
-  //           query: { type: 'string', description: 'Search by name/description (list action)' },
-  //           status: { type: 'string', enum: ['enabled', 'disabled'], description: 'Filter by status (list action)' },
-  //           domain: { type: 'string', description: 'Filter by domain (list action)' },
-  //           // Send command
-  //           payload: { type: 'string', description: 'Arbitrary payload (stringified) for send_command' },
-  //           tabId: { type: 'number', description: 'Target tab for send_command (default active tab)' },
-  //         },
-  //       },
-  //     },
-  //     required: ['action'],
-  //   },
-  // },
   {
     name: TOOL_NAMES.BROWSER.NAVIGATE,
     description:
@@ -486,6 +464,140 @@ export const TOOL_SCHEMAS: Tool[] = [
       required: [],
     },
   },
+  {
+    name: TOOL_NAMES.BROWSER.EXPORT_PAGE,
+    description:
+      'Archive the rendered page as PDF (CDP Page.printToPDF) or MHTML (Page.captureSnapshot), e.g. for compliance records of authenticated pages. Saves to downloads and/or returns base64, with a SHA-256 of the file.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        format: { type: 'string', enum: ['pdf', 'mhtml'], description: 'Default: pdf' },
+        tabId: { type: 'number', description: 'Target tab ID (default: active tab)' },
+        windowId: {
+          type: 'number',
+          description: 'Target window ID to pick active tab from when tabId is not provided.',
+        },
+        name: { type: 'string', description: 'File name prefix (default: "page")' },
+        saveFile: {
+          type: 'boolean',
+          description: 'Save the file via downloads (default: true)',
+        },
+        storeBase64: {
+          type: 'boolean',
+          description: 'Return the file as base64 (default: false, max 10 MB)',
+        },
+        paperFormat: {
+          type: 'string',
+          enum: ['letter', 'legal', 'tabloid', 'a3', 'a4', 'a5'],
+          description: 'PDF paper size (default: letter)',
+        },
+        paperWidth: { type: 'number', description: 'PDF paper width in inches' },
+        paperHeight: { type: 'number', description: 'PDF paper height in inches' },
+        landscape: { type: 'boolean', description: 'PDF landscape orientation' },
+        printBackground: {
+          type: 'boolean',
+          description: 'PDF: print background graphics (default: true)',
+        },
+        scale: { type: 'number', description: 'PDF scale, 0.1-2 (default: 1)' },
+        margins: {
+          type: 'object',
+          description: 'PDF margins in inches (default: 0.4 each)',
+          properties: {
+            top: { type: 'number' },
+            right: { type: 'number' },
+            bottom: { type: 'number' },
+            left: { type: 'number' },
+          },
+        },
+        pageRanges: { type: 'string', description: 'PDF page ranges, e.g. "1-5, 8"' },
+        headerTemplate: {
+          type: 'string',
+          description:
+            'PDF header HTML. Supports the classes date, title, url, pageNumber and totalPages.',
+        },
+        footerTemplate: { type: 'string', description: 'PDF footer HTML (same classes)' },
+        preferCSSPageSize: {
+          type: 'boolean',
+          description: 'PDF: use the page size from CSS @page',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: TOOL_NAMES.BROWSER.VISUAL_DIFF,
+    description:
+      'Visual regression checks. save_baseline stores a screenshot under a name, keyed by page URL (origin + path) and viewport; compare captures again and returns the mismatch percentage, bounding boxes of changed regions (CSS px) and a diff image (changes red, ignored areas amber). list/delete manage baselines.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['save_baseline', 'compare', 'list', 'delete'],
+          description: 'What to do',
+        },
+        name: { type: 'string', description: 'Baseline name (default: "default")' },
+        tabId: { type: 'number', description: 'Target tab ID (default: active tab)' },
+        windowId: {
+          type: 'number',
+          description: 'Window ID to pick the active tab from when tabId is omitted',
+        },
+        url: {
+          type: 'string',
+          description: 'For list/delete: only baselines of this page URL',
+        },
+        fullPage: {
+          type: 'boolean',
+          description:
+            'Capture the whole page instead of the viewport (default: false). Full-page and viewport baselines are separate.',
+        },
+        ignoreSelectors: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'For compare: CSS selectors of elements to leave out (ads, clocks, carousels)',
+        },
+        ignoreRects: {
+          type: 'array',
+          description:
+            'For compare: rectangles to leave out, in CSS px of the capture (viewport, or page for fullPage)',
+          items: {
+            type: 'object',
+            properties: {
+              x: { type: 'number' },
+              y: { type: 'number' },
+              width: { type: 'number' },
+              height: { type: 'number' },
+            },
+            required: ['x', 'y', 'width', 'height'],
+          },
+        },
+        mode: {
+          type: 'string',
+          enum: ['perceptual', 'pixel'],
+          description:
+            'perceptual (default): YIQ color distance; pixel: largest per-channel difference',
+        },
+        threshold: {
+          type: 'number',
+          description: 'For compare: 0-1, how different a pixel must be to count (default 0.1)',
+        },
+        tolerance: {
+          type: 'number',
+          description: 'For compare: mismatch percentage still reported as match=true (default 0)',
+        },
+        includeDiffImage: {
+          type: 'boolean',
+          description: 'For compare: return the diff image (default: true)',
+        },
+        updateBaseline: {
+          type: 'boolean',
+          description: 'For compare: replace the baseline with the new capture afterwards',
+        },
+      },
+      required: ['action'],
+    },
+  },
   {
     name: TOOL_NAMES.BROWSER.CLOSE_TABS,
     description: 'Close one or more browser tabs',
@@ -557,6 +669,11 @@ export const TOOL_SCHEMAS: Tool[] = [
           description:
             'CSS selector to get content from a specific element. If provided, only content from this element will be returned',
         },
+        frameId: {
+          type: 'number',
+          description:
+            'Read a child frame instead of the page (frame ids from chrome_read_page "frames" or get_windows_and_tabs with includeFrames)',
+        },
       },
       required: [],
     },
@@ -596,10 +713,81 @@ export const TOOL_SCHEMAS: Tool[] = [
       required: ['url'],
     },
   },
+  {
+    name: TOOL_NAMES.BROWSER.NETWORK_INTERCEPT,
+    description:
+      'Intercept requests of a tab via CDP (Fetch domain) with URL-pattern rules: block them, delay them, rewrite request/response headers, or fulfill them with a canned response. Rules stay until removed or the tab closes; "list" returns the rules and the requests they hit.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['add', 'remove', 'clear', 'list'],
+          description:
+            'add: add a rule. remove: remove rule ruleId. clear: remove all rules and stop intercepting. list: rules and hits.',
+        },
+        tabId: { type: 'number', description: 'Target tab ID (default: active tab)' },
+        ruleId: { type: 'string', description: 'remove only: rule to remove' },
+        type: {
+          type: 'string',
+          enum: ['block', 'delay', 'modify', 'fulfill', 'replay'],
+          description:
+            'add only: what the rule does with matching requests. replay answers them from a HAR.',
+        },
+        urlPattern: {
+          type: 'string',
+          description:
+            'add only: URL glob ("*" any, "?" one char), e.g. "*://api.example.com/*", or a regex written as "/.../". Defaults to "*" for replay.',
+        },
+        methods: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only match these HTTP methods',
+        },
+        resourceTypes: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only match these resource types (Document, XHR, Fetch, Script, Image, ...)',
+        },
+        times: { type: 'number', description: 'Stop matching after this many hits' },
+        delayMs: {
+          type: 'number',
+          description: 'Hold matching requests this long (required for delay, optional otherwise)',
+        },
+        errorReason: {
+          type: 'string',
+          description: 'block only: network error reported to the page (default: BlockedByClient)',
+        },
+        requestHeaders: {
+          type: 'object',
+          description: 'modify only: { set?: { name: value }, remove?: [name] }',
+        },
+        responseHeaders: {
+          type: 'object',
+          description: 'modify only: { set?: { name: value }, remove?: [name] }',
+        },
+        status: { type: 'number', description: 'fulfill only: status code (default: 200)' },
+        headers: { type: 'object', description: 'fulfill only: response headers' },
+        contentType: { type: 'string', description: 'fulfill only: Content-Type header' },
+        body: { type: 'string', description: 'fulfill only: response body text' },
+        bodyBase64: { type: 'string', description: 'fulfill only: binary response body' },
+        har: {
+          description:
+            'replay only: HAR 1.2 log (object or JSON text), e.g. from chrome_network_capture stop with format="har". Requests are matched by method and URL (then URL without query).',
+        },
+        passthrough: {
+          type: 'boolean',
+          description:
+            'replay only: let requests missing from the HAR reach the network (default: fail them, as if offline)',
+        },
+      },
+      required: ['action'],
+    },
+  },
   {
     name: TOOL_NAMES.BROWSER.NETWORK_CAPTURE,
     description:
-      'Unified network capture tool. Use action="start" to begin capturing, action="stop" to end and retrieve results. Set needResponseBody=true to capture response bodies (uses Debugger API, may conflict with DevTools). Default mode uses webRequest API (lightweight, no debugger conflict, but no response body).',
+      'Unified network capture tool. Use action="start" to begin capturing, action="stop" to end and retrieve results. Set needResponseBody=true to capture response bodies (uses Debugger API, may conflict with DevTools). Default mode uses webRequest API (lightweight, no debugger conflict, but no response body). Stop with format="har" to get a HAR 1.2 log, which chrome_network_intercept can replay.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -630,6 +818,16 @@ export const TOOL_SCHEMAS: Tool[] = [
           type: 'boolean',
           description: 'Include static resources like images/scripts/styles (default: false)',
         },
+        format: {
+          type: 'string',
+          enum: ['json', 'har'],
+          description:
+            'For action="stop": "json" (default) returns the summary, "har" returns a HAR 1.2 log with timings (and bodies with needResponseBody)',
+        },
+        saveFile: {
+          type: 'boolean',
+          description: 'For action="stop" with format="har": also download it as a .har file',
+        },
       },
       required: ['action'],
     },
@@ -755,85 +953,76 @@ export const TOOL_SCHEMAS: Tool[] = [
       required: [],
     },
   },
-  // {
-  //   name: TOOL_NAMES.BROWSER.SEARCH_TABS_CONTENT,
-  //   description:
-  //     'search for related content from the currently open tab and return the corresponding web pages.',
-  //   inputSchema: {
-  //     type: 'object',
-  //     properties: {
-  //       query: {
-  //         type: 'string',
-  //         description: 'the query to search for related content.',
-  //       },
-  //     },
-  //     required: ['query'],
-  //   },
-  // },
-  // {
-  //   name: TOOL_NAMES.BROWSER.INJECT_SCRIPT,
-  //   description:
-  //     'inject the user-specified content script into the webpage. By default, inject into the currently active tab',
-  //   inputSchema: {
-  //     type: 'object',
-  //     properties: {
-  //       url: {
-  //         type: 'string',
-  //         description:
-  //           'If a URL is specified, inject the script into the webpage corresponding to the URL.',
-  //       },
-  //       tabId: {
-  //         type: 'number',
-  //         description:
-  //           'Target an existing tab by ID to inject into. Overrides url/active tab selection when provided.',
-  //       },
-  //       windowId: {
-  //         type: 'number',
-  //         description:
-  //           'Target window ID for selecting active tab or creating new tab when url is provided and tabId is omitted.',
-  //       },
-  //       background: {
-  //         type: 'boolean',
-  //         description:
-  //           'Do not activate tab/focus window during injection when true (default: false).',
-  //       },
-  //       type: {
-  //         type: 'string',
-  //         description:
-  //           'the javaScript world for a script to execute within. must be ISOLATED or MAIN',
-  //       },
-  //       jsScript: {
-  //         type: 'string',
-  //         description: 'the content script to inject',
-  //       },
-  //     },
-  //     required: ['type', 'jsScript'],
-  //   },
-  // },
-  // {
-  //   name: TOOL_NAMES.BROWSER.SEND_COMMAND_TO_INJECT_SCRIPT,
-  //   description:
-  //     'if the script injected using chrome_inject_script listens for user-defined events, this tool can be used to trigger those events',
-  //   inputSchema: {
-  //     type: 'object',
-  //     properties: {
-  //       tabId: {
-  //         type: 'number',
-  //         description:
-  //           'the tab where you previously injected the script(if not provided,  use the currently active tab)',
-  //       },
-  //       eventName: {
-  //         type: 'string',
-  //         description: 'the eventName your injected content script listen for',
-  //       },
-  //       payload: {
-  //         type: 'string',
-  //         description: 'the payload passed to event, must be a json string',
-  //       },
-  //     },
-  //     required: ['eventName'],
-  //   },
-  // },
+  {
+    name: TOOL_NAMES.BROWSER.STORAGE_STATE,
+    description:
+      'Inspect or change cookies, localStorage, sessionStorage and IndexedDB of a site. Scoped by url (cookies sent to that URL) or origin (all cookies of the host); defaults to the active tab. Page storage needs an open tab on the origin. Secret-looking values are masked unless revealValues is true. export/import use a Playwright-compatible storage state ({ cookies, origins: [{ origin, localStorage, sessionStorage }] }).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['get', 'set', 'delete', 'clear', 'export', 'import'],
+          description:
+            'get: list entries (optionally one name). set/delete: one entry (or IndexedDB database for delete); needs exactly one type. clear: remove everything of the given types. export/import: storage state snapshot.',
+        },
+        url: {
+          type: 'string',
+          description: 'Scope: page URL. Cookies are those sent to this URL.',
+        },
+        origin: {
+          type: 'string',
+          description: 'Scope: origin such as https://example.com. Cookies of every path.',
+        },
+        tabId: {
+          type: 'number',
+          description: 'Tab to use for page storage (default: a tab on the scope origin)',
+        },
+        types: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['cookies', 'localStorage', 'sessionStorage', 'indexedDB'],
+          },
+          description:
+            'Storage types (default: cookies, localStorage, sessionStorage). IndexedDB supports get (database list), delete and clear.',
+        },
+        name: {
+          type: 'string',
+          description: 'Cookie name, storage key or IndexedDB database name',
+        },
+        value: {
+          type: 'string',
+          description: 'Value for set',
+        },
+        cookie: {
+          type: 'object',
+          description: 'Cookie attributes for set',
+          properties: {
+            domain: { type: 'string' },
+            path: { type: 'string' },
+            secure: { type: 'boolean' },
+            httpOnly: { type: 'boolean' },
+            sameSite: { type: 'string', enum: ['strict', 'lax', 'no_restriction'] },
+            expirationDate: {
+              type: 'number',
+              description: 'Unix seconds; omit for a session cookie',
+            },
+          },
+        },
+        state: {
+          type: 'object',
+          description:
+            'Storage state for import. Masked values and entries outside the scope are skipped.',
+        },
+        revealValues: {
+          type: 'boolean',
+          description: 'Return values unmasked (default: false)',
+        },
+      },
+      required: ['action'],
+    },
+  },
   {
     name: TOOL_NAMES.BROWSER.JAVASCRIPT,
     description:
@@ -1195,6 +1384,65 @@ export const TOOL_SCHEMAS: Tool[] = [
       required: ['action'],
     },
   },
+  {
+    name: TOOL_NAMES.BROWSER.EMULATE,
+    description:
+      'Emulate a device or environment in a tab via CDP: device presets (iPhone, Pixel, iPad, desktop), viewport, user agent, touch, geolocation, timezone, locale, prefers-color-scheme, prefers-reduced-motion, CPU and network throttling. Overrides stay until "reset" (or the tab closes); set a control to null to clear just that one.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['set', 'reset', 'status', 'list_devices'],
+          description:
+            'set (default): apply the given controls. reset: clear all overrides (or those in controls). status: current overrides. list_devices: presets.',
+        },
+        tabId: { type: 'number', description: 'Target tab ID (default: active tab)' },
+        device: {
+          type: 'string',
+          description:
+            'Device preset: iphone-15, iphone-se, pixel-8, ipad-air, laptop, desktop. Sets viewport, user agent and touch.',
+        },
+        viewport: {
+          type: 'object',
+          properties: {
+            width: { type: 'number' },
+            height: { type: 'number' },
+            deviceScaleFactor: { type: 'number' },
+            mobile: { type: 'boolean' },
+          },
+        },
+        userAgent: { type: 'string' },
+        touch: { type: 'boolean', description: 'Emulate a touch screen' },
+        geolocation: {
+          type: 'object',
+          properties: {
+            latitude: { type: 'number' },
+            longitude: { type: 'number' },
+            accuracy: { type: 'number', description: 'Meters (default: 100)' },
+          },
+        },
+        timezone: { type: 'string', description: 'IANA timezone, e.g. "Asia/Tokyo"' },
+        locale: { type: 'string', description: 'BCP 47 locale, e.g. "de-DE"' },
+        colorScheme: { type: 'string', enum: ['light', 'dark', 'no-preference'] },
+        reducedMotion: { type: 'string', enum: ['reduce', 'no-preference'] },
+        cpuThrottling: {
+          type: 'number',
+          description: 'CPU slowdown factor (1 = none, max 20)',
+        },
+        network: {
+          description:
+            'Preset name (offline, slow-3g, fast-3g, 4g) or { offline, latencyMs, downloadKbps, uploadKbps }',
+        },
+        controls: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'reset only: controls to clear (default: all)',
+        },
+      },
+      required: [],
+    },
+  },
   {
     name: TOOL_NAMES.BROWSER.GIF_RECORDER,
     description:
@@ -1398,3 +1646,225 @@ export const TOOL_SCHEMAS: Tool[] = [
     },
   },
 ];
+
+/**
+ * Tools that are implemented but not registered unless enabled by the user
+ * (e.g. from the extension options page).
+ */
+export const OPTIONAL_TOOL_SCHEMAS: Tool[] = [
+  {
+    name: TOOL_NAMES.RECORD_REPLAY.FLOW_RUN,
+    description:
+      'Run a recorded flow by ID with optional variables and run options. Returns a standardized run result.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        flowId: { type: 'string', description: 'ID of the flow to run' },
+        args: {
+          type: 'object',
+          description: 'Variable values for the flow (flat object of key/value)',
+        },
+        tabTarget: {
+          type: 'string',
+          description: "Target tab: 'current' or 'new' (default: current)",
+          enum: ['current', 'new'],
+        },
+        refresh: { type: 'boolean', description: 'Refresh before running (default false)' },
+        captureNetwork: {
+          type: 'boolean',
+          description: 'Capture network snippets for debugging (default false)',
+        },
+        returnLogs: { type: 'boolean', description: 'Return run logs (default false)' },
+        timeoutMs: { type: 'number', description: 'Global timeout in ms (optional)' },
+        startUrl: { type: 'string', description: 'Optional start URL to open before running' },
+      },
+      required: ['flowId'],
+    },
+  },
+  {
+    name: TOOL_NAMES.RECORD_REPLAY.LIST_PUBLISHED,
+    description: 'List published flows available as dynamic tools (for discovery).',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: TOOL_NAMES.BROWSER.USERSCRIPT,
+    description:
+      'Unified userscript tool (create/list/get/enable/disable/update/remove/send_command/export). Paste JS/CSS/Tampermonkey script and the system will auto-select the best strategy (insertCSS / persistent script in ISOLATED or MAIN world / once by CDP) with CSP-aware fallbacks.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          description: 'Operation to perform',
+          enum: [
+            'create',
+            'list',
+            'get',
+            'enable',
+            'disable',
+            'update',
+            'remove',
+            'send_command',
+            'export',
+          ],
+        },
+        args: {
+          type: 'object',
+          description:
+            'Arguments for the specified action.\n- create: { script (required), name?, description?, matches?: string[], excludes?: string[], persist?: boolean (default true), runAt?: "document_start"|"document_end"|"document_idle"|"auto", world?: "auto"|"ISOLATED"|"MAIN", allFrames?: boolean (default true), mode?: "auto"|"css"|"persistent"|"once", dnrFallback?: boolean (default true), tags?: string[] }\n- list: { query?: string, status?: "enabled"|"disabled", domain?: string }\n- get: { id (required) }\n- enable/disable: { id (required) }\n- update: { id (required), script?, name?, description?, matches?, excludes?, runAt?, world?, allFrames?, persist?, dnrFallback?, tags? }\n- remove: { id (required) }\n- send_command: { id (required), payload?: string, tabId?: number }\n- export: {}\nTip: For a one-off execution that returns a value, use create with args.mode="once". The returned value is included as onceResult in the tool response.',
+          properties: {
+            // Common identifiers
+            id: {
+              type: 'string',
+              description: 'Userscript id (for get/enable/disable/update/remove/send_command)',
+            },
+            // Create / Update fields
+            script: {
+              type: 'string',
+              description: 'JS/CSS/Tampermonkey script source (required for create)',
+            },
+            name: { type: 'string', description: 'Userscript name (optional)' },
+            description: { type: 'string', description: 'Userscript description (optional)' },
+            matches: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Match patterns for pages to apply to (e.g., https://*.example.com/*)',
+            },
+            excludes: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Exclude patterns',
+            },
+            persist: {
+              type: 'boolean',
+              description: 'Persist userscript for matched pages (default true)',
+            },
+            runAt: {
+              type: 'string',
+              description: 'Injection timing',
+              enum: ['document_start', 'document_end', 'document_idle', 'auto'],
+            },
+            world: {
+              type: 'string',
+              description: 'Execution world',
+              enum: ['auto', 'ISOLATED', 'MAIN'],
+            },
+            allFrames: { type: 'boolean', description: 'Inject into all frames (default true)' },
+            mode: {
+              type: 'string',
+              description:
+                'Injection strategy: auto | css | persistent | once. Use once to evaluate immediately (no persistence) and include the return value in onceResult.',
+              enum: ['auto', 'css', 'persistent', 'once'],
+            },
+            dnrFallback: {
+              type: 'boolean',
+              description: 'Use DNR fallback when needed (default true)',
+            },
+            tags: { type: 'array', items: { type: 'string' }, description: 'Custom tags' },
+            // List filters
+            query: { type: 'string', description: 'Search by name/description (list action)' },
+            status: {
+              type: 'string',
+              enum: ['enabled', 'disabled'],
+              description: 'Filter by status (list action)',
+            },
+            domain: { type: 'string', description: 'Filter by domain (list action)' },
+            // Send command
+            payload: {
+              type: 'string',
+              description: 'Arbitrary payload (stringified) for send_command',
+            },
+            tabId: {
+              type: 'number',
+              description: 'Target tab for send_command (default active tab)',
+            },
+          },
+        },
+      },
+      required: ['action'],
+    },
+  },
+  {
+    name: TOOL_NAMES.BROWSER.SEARCH_TABS_CONTENT,
+    description:
+      'search for related content from the currently open tab and return the corresponding web pages.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'the query to search for related content.',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: TOOL_NAMES.BROWSER.INJECT_SCRIPT,
+    description:
+      'inject the user-specified content script into the webpage. By default, inject into the currently active tab',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        url: {
+          type: 'string',
+          description:
+            'If a URL is specified, inject the script into the webpage corresponding to the URL.',
+        },
+        tabId: {
+          type: 'number',
+          description:
+            'Target an existing tab by ID to inject into. Overrides url/active tab selection when provided.',
+        },
+        windowId: {
+          type: 'number',
+          description:
+            'Target window ID for selecting active tab or creating new tab when url is provided and tabId is omitted.',
+        },
+        background: {
+          type: 'boolean',
+          description:
+            'Do not activate tab/focus window during injection when true (default: false).',
+        },
+        type: {
+          type: 'string',
+          description:
+            'the javaScript world for a script to execute within. must be ISOLATED or MAIN',
+        },
+        jsScript: {
+          type: 'string',
+          description: 'the content script to inject',
+        },
+      },
+      required: ['type', 'jsScript'],
+    },
+  },
+  {
+    name: TOOL_NAMES.BROWSER.SEND_COMMAND_TO_INJECT_SCRIPT,
+    description:
+      'if the script injected using chrome_inject_script listens for user-defined events, this tool can be used to trigger those events',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tabId: {
+          type: 'number',
+          description:
+            'the tab where you previously injected the script(if not provided,  use the currently active tab)',
+        },
+        eventName: {
+          type: 'string',
+          description: 'the eventName your injected content script listen for',
+        },
+        payload: {
+          type: 'string',
+          description: 'the payload passed to event, must be a json string',
+        },
+      },
+      required: ['eventName'],
+    },
+  },
+];